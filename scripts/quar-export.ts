@@ -0,0 +1,168 @@
+/**
+ * quar-export CLI
+ *
+ * Converts saved projects to export formats from the command line, e.g. in CI:
+ *
+ *   npm run export -- project.json --format glb
+ *   npm run export -- scene.quar --format stl --unit cm --out print/scene.stl
+ *
+ * Runs through vite-node so it shares the editor's module resolution.
+ */
+
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { basename, dirname, extname } from 'node:path';
+import { ExportFormat, ExportUnit } from '../src/stores/exportStore';
+import { exportProject, HeadlessExportOptions, parseProjectFile } from '../src/lib/export/HeadlessExport';
+import { installFileReader } from '../src/lib/export/NodeFileReader';
+
+const FORMATS: ExportFormat[] = ['glb', 'gltf', 'obj', 'usdz', 'stl', 'ply', '3mf'];
+const UNITS: ExportUnit[] = ['mm', 'cm', 'm'];
+
+const USAGE = `Usage: quar-export <project.json|project.quar> [options]
+
+Options:
+  -f, --format <format>   ${FORMATS.join(', ')} (default: glb)
+  -o, --out <file>        Output file (default: the project's name with the format's extension)
+      --unit <unit>       Units for STL/PLY/3MF: ${UNITS.join(', ')} (default: mm)
+      --ascii             Write text STL/PLY instead of binary
+      --no-materials      Export without materials
+      --no-animations     Export without animations
+      --draco             Draco-compress glTF meshes
+      --quantize          Store glTF vertex data as integers (KHR_mesh_quantization)
+      --meshopt           Reorder vertices and meshopt-compress glTF buffers (EXT_meshopt_compression)
+      --lods              Add decimated levels of detail to glTF meshes (MSFT_lod)
+      --lod-nodes         Write levels of detail as sibling _LOD1, _LOD2 nodes instead of MSFT_lod
+      --report <file>     Also write the export report as JSON
+      --verbose           Show the export pipeline's log
+  -h, --help              Show this help`;
+
+/** Bad command line; reported with the usage text */
+class UsageError extends Error {}
+
+interface CliArgs {
+  input: string;
+  out?: string;
+  report?: string;
+  options: HeadlessExportOptions;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  // The export pipeline logs every step; keep the CLI's output to the result
+  const options: HeadlessExportOptions = { format: 'glb', quiet: true };
+  let input: string | undefined;
+  let out: string | undefined;
+  let report: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new UsageError(`Missing value for ${arg}`);
+      return next;
+    };
+
+    switch (arg) {
+      case '-f':
+      case '--format': {
+        const format = value().toLowerCase() as ExportFormat;
+        if (!FORMATS.includes(format)) throw new UsageError(`Unknown format: ${format}`);
+        options.format = format;
+        break;
+      }
+      case '-o':
+      case '--out':
+        out = value();
+        break;
+      case '--unit': {
+        const unit = value() as ExportUnit;
+        if (!UNITS.includes(unit)) throw new UsageError(`Unknown unit: ${unit}`);
+        options.unit = unit;
+        break;
+      }
+      case '--ascii':
+        options.binary = false;
+        break;
+      case '--no-materials':
+        options.includeMaterials = false;
+        break;
+      case '--no-animations':
+        options.includeAnimations = false;
+        break;
+      case '--draco':
+        options.useDracoCompression = true;
+        break;
+      case '--quantize':
+        options.useMeshQuantization = true;
+        break;
+      case '--meshopt':
+        options.useMeshoptCompression = true;
+        options.optimizeVertexOrder = true;
+        break;
+      case '--lods':
+        options.generateLODs = true;
+        break;
+      case '--lod-nodes':
+        options.generateLODs = true;
+        options.lodOutput = 'nodes';
+        break;
+      case '--report':
+        report = value();
+        break;
+      case '--verbose':
+        options.quiet = false;
+        break;
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option: ${arg}`);
+        if (input) throw new UsageError(`Unexpected argument: ${arg}`);
+        input = arg;
+    }
+  }
+
+  if (!input) throw new UsageError('No project file given');
+  return { input, out, report, options };
+}
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  if (argv.includes('-h') || argv.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+
+  const { input, out, report, options } = parseArgs(argv);
+  const project = parseProjectFile(await readFile(input, 'utf8'));
+
+  installFileReader();
+  const result = await exportProject(project, options);
+
+  const outputPath = out || `${basename(input, extname(input))}${extname(result.filename)}`;
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, result.data);
+
+  console.log(`Wrote ${outputPath} (${(result.data.byteLength / 1024).toFixed(1)} KB)`);
+
+  if (result.report) {
+    if (report) {
+      await mkdir(dirname(report), { recursive: true });
+      await writeFile(report, JSON.stringify(result.report, null, 2));
+    }
+
+    result.report.lods.forEach(lod => console.log(`${lod.subject}: ${lod.triangles.join(' / ')} triangles`));
+    result.report.warnings.forEach(warning => console.warn(`warning: ${warning.message}`));
+    result.report.validation?.issues.forEach(issue => console.warn(`${issue.severity}: ${issue.pointer || '/'}: ${issue.message}`));
+
+    // The file is still written so it can be inspected
+    if (result.report.validation && !result.report.validation.valid) {
+      console.error('quar-export: glTF validation failed');
+      process.exitCode = 1;
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(`quar-export: ${error instanceof Error ? error.message : error}`);
+  if (error instanceof UsageError) {
+    console.error(USAGE);
+  }
+  process.exitCode = 1;
+});
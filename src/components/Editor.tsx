@@ -28,6 +28,7 @@ import { AddMenu } from './modals/AddMenu';
 import { ContextMenu } from './ContextMenu';
 import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
 import { useAnimationKeyframes } from '../hooks/useAnimationKeyframes';
+import { useDrivers } from '../hooks/useDrivers';
 import { useEditModeStore } from '../stores/editModeStore';
 import { useKnifeToolStore } from '../stores/knifeToolStore';
 
@@ -57,6 +58,9 @@ export function Editor() {
   // Enable auto-keyframing
   useAnimationKeyframes();
 
+  // Keep driven properties up to date while editing
+  useDrivers();
+
   // Load project using custom hook
   useLoadProject({
     projectId,
@@ -5,15 +5,54 @@
  * Sprint 7: Export System + Polygon Editing MVP
  */
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { X, Download, FileText, Box, Database } from 'lucide-react';
-import { useExportStore, ExportFormat } from '../../stores/exportStore';
+import { X, Download, FileText, Box, Database, Printer, CheckCircle2, AlertTriangle, ArrowLeft } from 'lucide-react';
+import { useExportStore, ExportFormat, ExportUnit, LODLevel, LODOutput, TextureCompression, isPrintFormat } from '../../stores/exportStore';
 import { useObjectsStore } from '../../stores/objectsStore';
 import { useAnimationStore } from '../../stores/animationStore';
 import { useToastStore } from '../../stores/toastStore';
 import { getExportManager } from '../../lib/export/ExportManager';
 import { EXPORT_PRESETS, applyPreset } from '../../lib/export/ExportPresets';
+import { checkSceneWatertight, ObjectWatertightReport } from '../../lib/export/WatertightCheck';
+import { ExportReport } from '../../lib/export/ExportReport';
+
+/**
+ * One-line summary of a watertight check
+ */
+function describeWatertightReport(report: ObjectWatertightReport): string {
+  if (report.unchecked) return 'Not checked (no mesh data)';
+  if (report.watertight) return 'Watertight';
+
+  const issues: string[] = [];
+  if (report.openEdges.length > 0) issues.push(`${report.openEdges.length} open edges`);
+  if (report.nonManifoldEdges.length > 0) issues.push(`${report.nonManifoldEdges.length} non-manifold edges`);
+  if (report.flippedFaces.length > 0) issues.push(`${report.flippedFaces.length} flipped normals`);
+  return issues.join(', ');
+}
+
+/**
+ * Byte count as KB or MB
+ */
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Percentage input as a 0-1 fraction
+ */
+function parsePercent(value: string): number {
+  return Math.min(100, Math.max(0, Number(value) || 0)) / 100;
+}
+
+/**
+ * Size change as a percentage, e.g. "-85%"
+ */
+function describeSaving(original: number, exported: number): string {
+  const change = Math.round(((exported - original) / original) * 100);
+  return `${change > 0 ? '+' : ''}${change}%`;
+}
 
 interface ExportDialogProps {
   onClose: () => void;
@@ -33,12 +72,24 @@ export function ExportDialog({ onClose }: ExportDialogProps) {
     resetProgress,
   } = useExportStore();
 
-  const { getAllObjects, selectedIds } = useObjectsStore();
+  const { objects, getAllObjects, selectedIds } = useObjectsStore();
   const { animations } = useAnimationStore();
   const { success, error } = useToastStore();
 
   const [filename, setFilename] = useState('scene');
   const [showPresets, setShowPresets] = useState(false);
+  const [report, setReport] = useState<ExportReport | null>(null);
+
+  const printFormat = isPrintFormat(options.format);
+
+  // Pre-export watertightness check for the print formats
+  const printReports = useMemo(() => {
+    if (!printFormat) return null;
+    const all = Array.from(objects.values());
+    return checkSceneWatertight(
+      options.exportSelectionOnly ? all.filter((obj) => selectedIds.includes(obj.id)) : all
+    );
+  }, [printFormat, objects, selectedIds, options.exportSelectionOnly]);
 
   const handlePresetSelect = (presetId: string) => {
     const preset = EXPORT_PRESETS.find(p => p.id === presetId);
@@ -71,17 +122,34 @@ export function ExportDialog({ onClose }: ExportDialogProps) {
       description: 'Apple AR format for iOS devices',
       icon: Box,
     },
+    stl: {
+      name: 'STL',
+      description: 'Triangle mesh for slicers and 3D printing',
+      icon: Printer,
+    },
+    ply: {
+      name: 'PLY',
+      description: 'Mesh with vertex colors for printing and scanning tools',
+      icon: Printer,
+    },
+    '3mf': {
+      name: '3MF',
+      description: 'Modern 3D printing package with units and colors',
+      icon: Printer,
+    },
   };
 
   const handleExport = async () => {
     try {
       startExport();
 
-      const objects = options.exportSelectionOnly
-        ? getAllObjects().filter((obj) => selectedIds.includes(obj.id))
-        : getAllObjects();
+      // The export manager picks the selection out itself, so skipped parents still place their children
+      const objects = getAllObjects();
+      const exportedCount = options.exportSelectionOnly
+        ? objects.filter((obj) => selectedIds.includes(obj.id)).length
+        : objects.length;
 
-      if (objects.length === 0) {
+      if (exportedCount === 0) {
         error('No objects to export');
         resetProgress();
         return;
@@ -100,9 +168,14 @@ export function ExportDialog({ onClose }: ExportDialogProps) {
         exportManager.downloadFile(result.data as Blob, finalFilename);
         completeExport();
         success(`Exported ${finalFilename} successfully`);
-        setTimeout(() => {
-          onClose();
-        }, 1000);
+        if (result.report) {
+          // Stay open to show what was written
+          setReport({ ...result.report, filename: finalFilename });
+        } else {
+          setTimeout(() => {
+            onClose();
+          }, 1000);
+        }
       } else {
         failExport(result.error || 'Export failed');
         error(result.error || 'Export failed. Please try again.');
@@ -114,6 +187,26 @@ export function ExportDialog({ onClose }: ExportDialogProps) {
     }
   };
 
+  const handleDownloadReport = () => {
+    if (!report) return;
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    getExportManager().downloadFile(blob, `${filename}-report.json`);
+  };
+
+  const updateLODLevel = (index: number, change: Partial<LODLevel>) => {
+    setOptions({
+      lodLevels: options.lodLevels.map((level, i) => (i === index ? { ...level, ...change } : level)),
+    });
+  };
+
+  // A new level halves the last one's triangles and screen coverage
+  const addLODLevel = () => {
+    const last = options.lodLevels[options.lodLevels.length - 1];
+    setOptions({
+      lodLevels: [...options.lodLevels, { ratio: last.ratio / 2, screenCoverage: last.screenCoverage / 2 }],
+    });
+  };
+
   return createPortal(
     <div className="fixed inset-0 bg-[#0A0A0B]/90 backdrop-blur-md flex items-center justify-center z-[9999]">
       <div className="bg-[#18181B] border border-[#27272A] rounded-lg shadow-xl p-6 w-full max-w-md">
@@ -145,8 +238,105 @@ export function ExportDialog({ onClose }: ExportDialogProps) {
           </div>
         )}
 
+        {/* Report (after a successful export) */}
+        {report && !progress.isExporting && (
+          <div className="mb-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <label className="text-sm font-medium text-[#FAFAFA]">Export Report</label>
+              <span className="text-xs text-[#71717A] font-mono">
+                {report.filename} · {formatBytes(report.fileSize)}
+              </span>
+            </div>
+
+            <div className="p-3 bg-[#0A0A0B] border border-[#27272A] rounded-lg">
+              <div className="grid grid-cols-2 gap-3 text-xs">
+                {([
+                  ['Nodes', report.counts.nodes],
+                  ['Meshes', report.counts.meshes],
+                  ['Materials', report.counts.materials],
+                  ['Textures', report.counts.textures],
+                  ['Triangles', report.triangles.toLocaleString()],
+                  ['Texture Memory', formatBytes(report.textureMemory)],
+                ] as const).map(([label, value]) => (
+                  <div key={label}>
+                    <span className="text-[#71717A]">{label}:</span>{' '}
+                    <span className="text-[#FAFAFA] font-medium">{value}</span>
+                  </div>
+                ))}
+                {report.textureBytes.original > 0 && (
+                  <div className="col-span-2">
+                    <span className="text-[#71717A]">Texture Files:</span>{' '}
+                    <span className="text-[#FAFAFA] font-medium">
+                      {formatBytes(report.textureBytes.original)} → {formatBytes(report.textureBytes.exported)}
+                    </span>{' '}
+                    <span className={report.textureBytes.exported <= report.textureBytes.original ? 'text-green-400' : 'text-yellow-400'}>
+                      ({describeSaving(report.textureBytes.original, report.textureBytes.exported)})
+                    </span>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {report.animations.length > 0 && (
+              <div className="p-3 bg-[#0A0A0B] border border-[#27272A] rounded-lg space-y-1.5">
+                {report.animations.map((animation, i) => (
+                  <div key={i} className="flex items-center gap-2 text-xs">
+                    <span className="text-[#FAFAFA] truncate">{animation.name}</span>
+                    <span className="ml-auto text-[#71717A] font-mono">{animation.duration.toFixed(2)}s</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.lods.length > 0 && (
+              <div className="p-3 bg-[#0A0A0B] border border-[#27272A] rounded-lg space-y-1.5 max-h-40 overflow-y-auto">
+                <div className="text-xs text-[#71717A]">Triangles per LOD</div>
+                {report.lods.map((lod, i) => (
+                  <div key={i} className="flex items-center gap-2 text-xs">
+                    <span className="text-[#FAFAFA] truncate">{lod.subject}</span>
+                    <span className="ml-auto text-[#71717A] font-mono">
+                      {lod.triangles.map(count => count.toLocaleString()).join(' → ')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {(report.validation || report.warnings.length > 0) && (
+              <div className="p-3 bg-[#0A0A0B] border border-[#27272A] rounded-lg space-y-1.5 max-h-40 overflow-y-auto">
+                {report.validation && (
+                  <div className="flex items-center gap-2 text-xs">
+                    {report.validation.valid ? (
+                      <CheckCircle2 className="w-3.5 h-3.5 flex-shrink-0 text-green-400" />
+                    ) : (
+                      <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 text-red-400" />
+                    )}
+                    <span className={report.validation.valid ? 'text-[#FAFAFA]' : 'text-red-400'}>
+                      {report.validation.valid ? 'glTF validation passed' : 'glTF validation failed'}
+                    </span>
+                  </div>
+                )}
+                {report.validation?.issues.map((issue, i) => (
+                  <div
+                    key={`issue-${i}`}
+                    className={`text-xs pl-5 ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}
+                  >
+                    <span className="font-mono">{issue.pointer || '/'}</span> {issue.message}
+                  </div>
+                ))}
+                {report.warnings.map((warning, i) => (
+                  <div key={`warning-${i}`} className="flex items-start gap-2 text-xs">
+                    <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5 text-yellow-400" />
+                    <span className="text-yellow-400">{warning.message}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Presets */}
-        {!progress.isExporting && (
+        {!progress.isExporting && !report && (
           <>
             <div className="mb-6">
               <div className="flex items-center justify-between mb-3">
@@ -220,12 +410,12 @@ export function ExportDialog({ onClose }: ExportDialogProps) {
                     type="checkbox"
                     checked={options.includeAnimations}
                     onChange={(e) => setOption('includeAnimations', e.target.checked)}
-                    disabled={options.format === 'obj'} // OBJ doesn't support animations
+                    disabled={options.format === 'obj' || printFormat} // OBJ and print formats don't support animations
                     className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
                   />
                   <div className="flex-1">
                     <span className="text-sm text-[#FAFAFA]">Include Animations</span>
-                    {options.format === 'obj' && (
+                    {(options.format === 'obj' || printFormat) && (
                       <span className="text-xs text-[#71717A] ml-2">(Not supported)</span>
                     )}
                   </div>
@@ -267,6 +457,36 @@ export function ExportDialog({ onClose }: ExportDialogProps) {
                   <span className="text-sm text-[#FAFAFA]">Include Morph Targets</span>
                 </label>
 
+                {(options.format === 'stl' || options.format === 'ply') && (
+                  <label className="flex items-center gap-3 p-2 rounded hover:bg-[#27272A]/30 transition-colors cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={options.binary}
+                      onChange={(e) => setOption('binary', e.target.checked)}
+                      className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
+                    />
+                    <div className="flex-1">
+                      <span className="text-sm text-[#FAFAFA]">Binary</span>
+                      <span className="text-xs text-[#71717A] ml-2">(ASCII when off)</span>
+                    </div>
+                  </label>
+                )}
+
+                {printFormat && (
+                  <label className="flex items-center gap-3 p-2">
+                    <span className="flex-1 text-sm text-[#FAFAFA]">Units</span>
+                    <select
+                      value={options.unit || 'mm'}
+                      onChange={(e) => setOptions({ unit: e.target.value as ExportUnit })}
+                      className="bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                    >
+                      <option value="mm">Millimeters</option>
+                      <option value="cm">Centimeters</option>
+                      <option value="m">Meters</option>
+                    </select>
+                  </label>
+                )}
+
                 {(options.format === 'glb' || options.format === 'gltf') && (
                   <label className="flex items-center gap-3 p-2 rounded hover:bg-[#27272A]/30 transition-colors cursor-pointer">
                     <input
@@ -282,6 +502,189 @@ export function ExportDialog({ onClose }: ExportDialogProps) {
                   </label>
                 )}
 
+                {(options.format === 'glb' || options.format === 'gltf') && (
+                  <>
+                    <label className="flex items-center gap-3 p-2 rounded hover:bg-[#27272A]/30 transition-colors cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!options.useMeshQuantization}
+                        onChange={(e) => setOption('useMeshQuantization', e.target.checked)}
+                        className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
+                      />
+                      <div className="flex-1">
+                        <span className="text-sm text-[#FAFAFA]">Mesh Quantization</span>
+                        <span className="text-xs text-[#71717A] ml-2">(Integer vertex data)</span>
+                      </div>
+                    </label>
+
+                    {options.useMeshQuantization && (
+                      <div className="flex items-center gap-3 p-2 pl-9">
+                        {([
+                          ['quantizePositionBits', 'Position'],
+                          ['quantizeNormalBits', 'Normal'],
+                          ['quantizeTexcoordBits', 'UV'],
+                        ] as const).map(([key, label]) => (
+                          <label key={key} className="flex items-center gap-2">
+                            <span className="text-xs text-[#A1A1AA]">{label}</span>
+                            <input
+                              type="number"
+                              min={key === 'quantizeNormalBits' ? 2 : 1}
+                              max={16}
+                              value={options[key]}
+                              onChange={(e) => setOptions({ [key]: Number(e.target.value) })}
+                              aria-label={`${label} bits`}
+                              className="w-14 bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            />
+                          </label>
+                        ))}
+                        <span className="text-xs text-[#71717A]">bits</span>
+                      </div>
+                    )}
+
+                    <label className="flex items-center gap-3 p-2 rounded hover:bg-[#27272A]/30 transition-colors cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!options.useMeshoptCompression}
+                        onChange={(e) => setOption('useMeshoptCompression', e.target.checked)}
+                        className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
+                      />
+                      <div className="flex-1">
+                        <span className="text-sm text-[#FAFAFA]">Meshopt Compression</span>
+                        <span className="text-xs text-[#71717A] ml-2">(Faster to decode than Draco)</span>
+                      </div>
+                    </label>
+
+                    <label className="flex items-center gap-3 p-2 rounded hover:bg-[#27272A]/30 transition-colors cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!options.optimizeVertexOrder}
+                        onChange={(e) => setOption('optimizeVertexOrder', e.target.checked)}
+                        className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
+                      />
+                      <div className="flex-1">
+                        <span className="text-sm text-[#FAFAFA]">Optimize Vertex Order</span>
+                        <span className="text-xs text-[#71717A] ml-2">(Vertex cache and overdraw)</span>
+                      </div>
+                    </label>
+
+                    <label className="flex items-center gap-3 p-2 rounded hover:bg-[#27272A]/30 transition-colors cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!options.generateLODs}
+                        onChange={(e) => setOption('generateLODs', e.target.checked)}
+                        className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
+                      />
+                      <div className="flex-1">
+                        <span className="text-sm text-[#FAFAFA]">Generate LODs</span>
+                        <span className="text-xs text-[#71717A] ml-2">(Decimated levels of detail)</span>
+                      </div>
+                    </label>
+
+                    {options.generateLODs && (
+                      <div className="p-2 pl-9 space-y-2">
+                        <label className="flex items-center gap-3">
+                          <span className="flex-1 text-xs text-[#A1A1AA]">Output</span>
+                          <select
+                            value={options.lodOutput}
+                            onChange={(e) => setOptions({ lodOutput: e.target.value as LODOutput })}
+                            className="bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                          >
+                            <option value="msft-lod">MSFT_lod extension</option>
+                            <option value="nodes">Sibling _LOD nodes</option>
+                          </select>
+                        </label>
+
+                        {options.lodLevels.map((level, i) => (
+                          <div key={i} className="flex items-center gap-2">
+                            <span className="w-10 text-xs text-[#A1A1AA] font-mono">LOD{i}</span>
+                            <input
+                              type="number"
+                              min={1}
+                              max={100}
+                              value={Math.round(level.ratio * 100)}
+                              disabled={i === 0}
+                              onChange={(e) => updateLODLevel(i, { ratio: parsePercent(e.target.value) })}
+                              aria-label={`LOD${i} triangles`}
+                              className="w-14 bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED] disabled:opacity-50"
+                            />
+                            <span className="text-xs text-[#71717A]">% tris</span>
+                            <input
+                              type="number"
+                              min={0}
+                              max={100}
+                              value={Math.round(level.screenCoverage * 1000) / 10}
+                              onChange={(e) => updateLODLevel(i, { screenCoverage: parsePercent(e.target.value) })}
+                              aria-label={`LOD${i} screen coverage`}
+                              className="w-16 bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            />
+                            <span className="text-xs text-[#71717A]">% screen</span>
+                            {i > 1 && i === options.lodLevels.length - 1 && (
+                              <button
+                                onClick={() => setOptions({ lodLevels: options.lodLevels.slice(0, -1) })}
+                                aria-label="Remove LOD level"
+                                className="ml-auto p-1 text-[#71717A] hover:text-[#FAFAFA] transition-colors"
+                              >
+                                <X className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+
+                        <button
+                          onClick={addLODLevel}
+                          className="text-xs text-[#A1A1AA] hover:text-[#FAFAFA] transition-colors"
+                        >
+                          + Add Level
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {(options.format === 'glb' || options.format === 'gltf') && options.includeMaterials && options.embedTextures && (
+                  <>
+                    <label className="flex items-center gap-3 p-2">
+                      <span className="flex-1 text-sm text-[#FAFAFA]">Texture Compression</span>
+                      <select
+                        value={options.textureCompression || 'none'}
+                        onChange={(e) => setOptions({ textureCompression: e.target.value as TextureCompression })}
+                        className="bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                      >
+                        <option value="none">None (PNG/JPEG)</option>
+                        <option value="webp">WebP</option>
+                        <option value="ktx2">KTX2 (Basis)</option>
+                      </select>
+                    </label>
+
+                    <label className="flex items-center gap-3 p-2">
+                      <span className="flex-1 text-sm text-[#FAFAFA]">Max Texture Size</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={256}
+                        value={options.maxTextureSize || ''}
+                        onChange={(e) => setOptions({ maxTextureSize: Math.max(0, Number(e.target.value) || 0) })}
+                        placeholder="Original"
+                        className="w-24 bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                      />
+                      <span className="text-xs text-[#71717A]">px</span>
+                    </label>
+
+                    <label className="flex items-center gap-3 p-2 rounded hover:bg-[#27272A]/30 transition-colors cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!options.generateMipmaps}
+                        onChange={(e) => setOption('generateMipmaps', e.target.checked)}
+                        className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
+                      />
+                      <div className="flex-1">
+                        <span className="text-sm text-[#FAFAFA]">Generate Mipmaps</span>
+                        <span className="text-xs text-[#71717A] ml-2">(Power-of-two sizes)</span>
+                      </div>
+                    </label>
+                  </>
+                )}
+
                 <label className="flex items-center gap-3 p-2 rounded hover:bg-[#27272A]/30 transition-colors cursor-pointer">
                   <input
                     type="checkbox"
@@ -303,6 +706,31 @@ export function ExportDialog({ onClose }: ExportDialogProps) {
               </div>
             </div>
 
+            {/* Print Check */}
+            {printReports && (
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-[#FAFAFA] mb-3">Print Check</label>
+                <div className="p-3 bg-[#0A0A0B] border border-[#27272A] rounded-lg space-y-1.5">
+                  {printReports.length === 0 && (
+                    <p className="text-xs text-[#71717A]">No meshes to check</p>
+                  )}
+                  {printReports.map((report) => (
+                    <div key={report.objectId} className="flex items-center gap-2 text-xs">
+                      {report.watertight ? (
+                        <CheckCircle2 className="w-3.5 h-3.5 flex-shrink-0 text-green-400" />
+                      ) : (
+                        <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 text-yellow-400" />
+                      )}
+                      <span className="text-[#FAFAFA] truncate">{report.objectName}</span>
+                      <span className={`ml-auto ${report.watertight ? 'text-[#71717A]' : 'text-yellow-400'}`}>
+                        {describeWatertightReport(report)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Filename */}
             <div className="mb-6">
               <label className="block text-sm font-medium text-[#FAFAFA] mb-2">Filename</label>
@@ -345,16 +773,35 @@ export function ExportDialog({ onClose }: ExportDialogProps) {
             disabled={progress.isExporting}
             className="px-4 py-2 text-sm text-[#A1A1AA] hover:text-[#FAFAFA] transition-colors disabled:opacity-50"
           >
-            Cancel
-          </button>
-          <button
-            onClick={handleExport}
-            disabled={progress.isExporting || !filename.trim()}
-            className="px-4 py-2 bg-[#7C3AED] text-white text-sm rounded hover:bg-[#6D28D9] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-          >
-            <Download className="w-4 h-4" />
-            {progress.isExporting ? 'Exporting...' : 'Export Scene'}
+            {report ? 'Close' : 'Cancel'}
           </button>
+          {report ? (
+            <>
+              <button
+                onClick={() => setReport(null)}
+                className="px-4 py-2 text-sm text-[#A1A1AA] hover:text-[#FAFAFA] transition-colors flex items-center gap-2"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Back
+              </button>
+              <button
+                onClick={handleDownloadReport}
+                className="px-4 py-2 bg-[#7C3AED] text-white text-sm rounded hover:bg-[#6D28D9] transition-colors flex items-center gap-2"
+              >
+                <Download className="w-4 h-4" />
+                Download Report
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={handleExport}
+              disabled={progress.isExporting || !filename.trim()}
+              className="px-4 py-2 bg-[#7C3AED] text-white text-sm rounded hover:bg-[#6D28D9] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              {progress.isExporting ? 'Exporting...' : 'Export Scene'}
+            </button>
+          )}
         </div>
 
         {/* Error Display */}
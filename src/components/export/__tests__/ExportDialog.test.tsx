@@ -7,10 +7,13 @@
 
 import { describe, test, expect, beforeEach, vi, beforeAll } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
+import * as THREE from 'three';
 import { ExportDialog } from '../ExportDialog';
 import { useExportStore } from '../../../stores/exportStore';
 import { useObjectsStore } from '../../../stores/objectsStore';
 import { useToastStore } from '../../../stores/toastStore';
+import { ExportManager } from '../../../lib/export/ExportManager';
+import { ExportReport } from '../../../lib/export/ExportReport';
 
 // Mock createPortal to render in place instead of document.body
 vi.mock('react-dom', async () => {
@@ -21,6 +24,10 @@ vi.mock('react-dom', async () => {
   };
 });
 
+function checkboxFor(label: string): HTMLInputElement {
+  return screen.getByText(label).closest('label')!.querySelector('input[type="checkbox"]') as HTMLInputElement;
+}
+
 describe('ExportDialog', () => {
   const mockOnClose = vi.fn();
 
@@ -113,6 +120,87 @@ describe('ExportDialog', () => {
 
       expect(useExportStore.getState().options.format).toBe('obj');
     });
+
+    test('should show units and the print check for print formats', () => {
+      // The viewport builds the QMesh of a primitive when it first renders it
+      const [box] = useObjectsStore.getState().getAllObjects();
+      useObjectsStore.getState().initializeGeometryFromBufferGeometry(box.id, new THREE.BoxGeometry(1, 1, 1));
+
+      render(<ExportDialog onClose={mockOnClose} />);
+      expect(screen.queryByText('Print Check')).toBeNull();
+
+      fireEvent.click(screen.getByText('STL').closest('button')!);
+
+      expect(useExportStore.getState().options.format).toBe('stl');
+      expect(screen.getByText('Units')).toBeTruthy();
+      expect(screen.getByText('Print Check')).toBeTruthy();
+      expect(screen.getByText('Watertight')).toBeTruthy();
+
+      fireEvent.change(screen.getByDisplayValue('Millimeters'), { target: { value: 'cm' } });
+      expect(useExportStore.getState().options.unit).toBe('cm');
+    });
+
+    test('should show texture options for glTF with embedded textures', () => {
+      render(<ExportDialog onClose={mockOnClose} />);
+
+      fireEvent.change(screen.getByDisplayValue('None (PNG/JPEG)'), { target: { value: 'webp' } });
+      fireEvent.change(screen.getByPlaceholderText('Original'), { target: { value: '1024' } });
+      fireEvent.click(checkboxFor('Generate Mipmaps'));
+
+      expect(useExportStore.getState().options).toMatchObject({
+        textureCompression: 'webp',
+        maxTextureSize: 1024,
+        generateMipmaps: true,
+      });
+
+      fireEvent.click(checkboxFor('Embed Textures'));
+      expect(screen.queryByText('Texture Compression')).toBeNull();
+    });
+
+    test('should show bit depths once mesh quantization is enabled', () => {
+      render(<ExportDialog onClose={mockOnClose} />);
+
+      expect(screen.queryByLabelText('Position bits')).toBeNull();
+      fireEvent.click(checkboxFor('Mesh Quantization'));
+      fireEvent.change(screen.getByLabelText('Position bits'), { target: { value: '12' } });
+      fireEvent.click(checkboxFor('Meshopt Compression'));
+
+      expect(useExportStore.getState().options).toMatchObject({
+        useMeshQuantization: true,
+        quantizePositionBits: 12,
+        useMeshoptCompression: true,
+      });
+    });
+
+    test('should edit LOD levels once LOD generation is enabled', () => {
+      useExportStore.getState().setOptions({
+        lodLevels: [{ ratio: 1, screenCoverage: 0.5 }, { ratio: 0.5, screenCoverage: 0.2 }],
+        lodOutput: 'msft-lod',
+      });
+      render(<ExportDialog onClose={mockOnClose} />);
+
+      expect(screen.queryByLabelText('LOD1 triangles')).toBeNull();
+      fireEvent.click(checkboxFor('Generate LODs'));
+
+      expect((screen.getByLabelText('LOD0 triangles') as HTMLInputElement).disabled).toBe(true);
+      fireEvent.change(screen.getByLabelText('LOD1 triangles'), { target: { value: '40' } });
+      fireEvent.change(screen.getByLabelText('LOD0 screen coverage'), { target: { value: '60' } });
+      fireEvent.click(screen.getByText('+ Add Level'));
+      fireEvent.change(screen.getByDisplayValue('MSFT_lod extension'), { target: { value: 'nodes' } });
+
+      expect(useExportStore.getState().options).toMatchObject({
+        generateLODs: true,
+        lodOutput: 'nodes',
+        lodLevels: [
+          { ratio: 1, screenCoverage: 0.6 },
+          { ratio: 0.4, screenCoverage: 0.2 },
+          { ratio: 0.2, screenCoverage: 0.1 },
+        ],
+      });
+
+      fireEvent.click(screen.getByLabelText('Remove LOD level'));
+      expect(useExportStore.getState().options.lodLevels).toHaveLength(2);
+    });
   });
 
   describe('Options Toggling', () => {
@@ -264,6 +352,52 @@ describe('ExportDialog', () => {
     });
   });
 
+  describe('Export Report', () => {
+    test('should show the report after exporting and download it as JSON', async () => {
+      const report: ExportReport = {
+        format: 'glb',
+        filename: 'scene.glb',
+        fileSize: 2048,
+        counts: { nodes: 1, meshes: 1, materials: 1, textures: 0 },
+        triangles: 12,
+        textureMemory: 0,
+        textureBytes: { original: 4 * 1024 * 1024, exported: 1024 * 1024 },
+        animations: [{ name: 'Spin', duration: 2, tracks: 1 }],
+        lods: [{ subject: 'Box', triangles: [12, 6] }],
+        warnings: [{ code: 'missing-uvs', subject: 'Box', message: 'Box has no UV coordinates' }],
+        validation: { valid: true, issues: [] },
+      };
+      vi.spyOn(ExportManager.prototype, 'exportScene').mockResolvedValue({
+        success: true,
+        data: new Blob(['glTF']),
+        filename: 'scene.glb',
+        report,
+      });
+      const download = vi.spyOn(ExportManager.prototype, 'downloadFile').mockImplementation(() => {});
+
+      render(<ExportDialog onClose={mockOnClose} />);
+      fireEvent.click(screen.getAllByText('Export Scene')[1]);
+
+      expect(await screen.findByText('Export Report')).toBeTruthy();
+      expect(screen.getByText('glTF validation passed')).toBeTruthy();
+      expect(screen.getByText('Box has no UV coordinates')).toBeTruthy();
+      expect(screen.getByText('2.00s')).toBeTruthy();
+      expect(screen.getByText('12 → 6')).toBeTruthy();
+      expect(screen.getByText('(-75%)')).toBeTruthy();
+      expect(screen.queryByText('Format')).toBeNull();
+      expect(mockOnClose).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByText('Download Report'));
+
+      expect(download).toHaveBeenCalledTimes(2);
+      const [blob, filename] = download.mock.calls[1];
+      expect(filename).toBe('scene-report.json');
+      expect(JSON.parse(await (blob as Blob).text())).toEqual({ ...report, filename: 'scene.glb' });
+
+      vi.restoreAllMocks();
+    });
+  });
+
   describe('Error Display', () => {
     test('should show error message when export fails', () => {
       useExportStore.setState({
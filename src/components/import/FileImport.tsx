@@ -1,12 +1,13 @@
 /**
  * File Import Component
  *
- * Handles importing 3D model files (GLB, GLTF, OBJ, FBX, STL).
+ * Handles importing 3D model files (GLB, GLTF, OBJ, FBX, STL, PLY, DAE, 3MF).
  */
 
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { FileUp } from 'lucide-react';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
 import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js';
 import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
 import * as THREE from 'three';
@@ -17,9 +18,19 @@ import { CreateObjectCommand } from '../../lib/commands/ObjectCommands';
 import { useCurveStore } from '../../stores/curveStore';
 import { SVGParser } from '../../lib/curves/SVGParser';
 import { SkeletonImporter } from '../../lib/import/SkeletonImporter';
+import { MeshFileImporter, MeshFileFormat, MeshImportSettings } from '../../lib/import/MeshFileImporter';
+import { MeshImportDialog } from './MeshImportDialog';
+
+interface PendingMeshImport {
+  file: File;
+  format: MeshFileFormat;
+  data: ArrayBuffer;
+  defaultSettings: MeshImportSettings;
+}
 
 export function FileImport() {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingMeshImport, setPendingMeshImport] = useState<PendingMeshImport | null>(null);
 
   const executeCommand = useCommandStore((state) => state.executeCommand);
   const addMaterial = useMaterialsStore((state) => state.addMaterial);
@@ -43,8 +54,17 @@ export function FileImport() {
         await importFBX(mainFile);
       } else if (extension === 'obj') {
         await importOBJ(mainFile);
+      } else if (MeshFileImporter.isMeshFileFormat(extension)) {
+        // Units and up axis are confirmed in the import dialog
+        const data = await mainFile.arrayBuffer();
+        setPendingMeshImport({
+          file: mainFile,
+          format: extension,
+          data,
+          defaultSettings: MeshFileImporter.getDefaultSettings(extension, data),
+        });
       } else {
-        alert(`File format .${extension} is not supported yet. Supported formats: SVG, GLB, GLTF, FBX, OBJ`);
+        alert(`File format .${extension} is not supported yet. Supported formats: SVG, GLB, GLTF, FBX, OBJ, STL, PLY, DAE, 3MF`);
       }
     } catch (error) {
       console.error('Failed to import file:', error);
@@ -90,6 +110,8 @@ export function FileImport() {
     // Create a loading manager to handle external resources
     const manager = new THREE.LoadingManager();
     const loader = new GLTFLoader(manager);
+    // Files from our own meshopt-compressed exports
+    loader.setMeshoptDecoder(MeshoptDecoder);
 
     // Store for external resources (bin files, textures) and their blob URLs
     const resourceCache = new Map<string, string>();
@@ -595,6 +617,60 @@ export function FileImport() {
     });
   };
 
+  const importMeshFile = async (pending: PendingMeshImport, settings: MeshImportSettings) => {
+    setPendingMeshImport(null);
+
+    try {
+      const baseName = pending.file.name.replace(/\.[^.]+$/, '');
+      const meshes = await MeshFileImporter.load(pending.format, pending.data, settings, baseName);
+
+      if (meshes.length === 0) {
+        alert(`No meshes found in ${pending.file.name}.`);
+        return;
+      }
+
+      const now = Date.now();
+
+      meshes.forEach((mesh) => {
+        const object = MeshFileImporter.createSceneObject(mesh);
+        executeCommand(new CreateObjectCommand(object));
+
+        if (mesh.color) {
+          const materialId = `mat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+          addMaterial({
+            id: materialId,
+            name: `Imported Material`,
+            type: 'standard' as const,
+            albedo: mesh.color,
+            metallic: 0,
+            roughness: 0.7,
+            emission: '#000000',
+            emissionIntensity: 0,
+            albedoMap: null,
+            normalMap: null,
+            roughnessMap: null,
+            metallicMap: null,
+            emissionMap: null,
+            aoMap: null,
+            displacementMap: null,
+            opacity: 1,
+            transparent: false,
+            doubleSided: false,
+            createdAt: now,
+            modifiedAt: now,
+          });
+          assignMaterialToObject(object.id, materialId);
+        }
+      });
+
+      console.log(`[FileImport] ${pending.format.toUpperCase()} import complete:`, meshes.length, 'meshes');
+    } catch (error) {
+      console.error(`[FileImport] Failed to import ${pending.format.toUpperCase()}:`, error);
+      alert(`Failed to import ${pending.file.name}: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
   return (
     <>
       <button
@@ -611,11 +687,20 @@ export function FileImport() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".svg,.glb,.gltf,.fbx,.obj,.bin,.jpg,.jpeg,.png,.webp,.ktx2"
+        accept=".svg,.glb,.gltf,.fbx,.obj,.stl,.ply,.dae,.3mf,.bin,.jpg,.jpeg,.png,.webp,.ktx2"
         onChange={handleFileSelect}
         multiple
         className="hidden"
       />
+
+      {pendingMeshImport && (
+        <MeshImportDialog
+          fileName={pendingMeshImport.file.name}
+          defaultSettings={pendingMeshImport.defaultSettings}
+          onImport={(settings) => importMeshFile(pendingMeshImport, settings)}
+          onClose={() => setPendingMeshImport(null)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,106 @@
+/**
+ * Mesh Import Dialog Component
+ *
+ * Asks for the unit and up axis of an STL, PLY, DAE or 3MF file before it is
+ * converted into scene space (meters, Y-up).
+ */
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { ImportUnit, ImportUpAxis, MeshImportSettings } from '../../lib/import/MeshFileImporter';
+
+interface MeshImportDialogProps {
+  fileName: string;
+  defaultSettings: MeshImportSettings;
+  onImport: (settings: MeshImportSettings) => void;
+  onClose: () => void;
+}
+
+const UNIT_LABELS: Record<ImportUnit, string> = {
+  mm: 'Millimeters',
+  cm: 'Centimeters',
+  m: 'Meters',
+  in: 'Inches',
+};
+
+export function MeshImportDialog({ fileName, defaultSettings, onImport, onClose }: MeshImportDialogProps) {
+  const [settings, setSettings] = useState<MeshImportSettings>(defaultSettings);
+
+  return (
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div className="bg-[#18181B] border border-[#27272A] rounded-xl shadow-2xl w-[500px] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-[#27272A]">
+          <h2 className="text-lg font-medium text-[#FAFAFA] truncate">Import: {fileName}</h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-[#27272A] rounded transition-colors"
+          >
+            <X className="w-5 h-5 text-[#A1A1AA]" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {/* Units */}
+          <div className="space-y-2">
+            <label htmlFor="mesh-import-unit" className="block text-sm font-medium text-[#FAFAFA]">
+              File Units
+            </label>
+            <select
+              id="mesh-import-unit"
+              value={settings.unit}
+              onChange={(e) => setSettings({ ...settings, unit: e.target.value as ImportUnit })}
+              className="w-full px-3 py-2 bg-[#27272A] border border-[#3F3F46] rounded-lg text-sm text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+            >
+              {(Object.keys(UNIT_LABELS) as ImportUnit[]).map((unit) => (
+                <option key={unit} value={unit}>{UNIT_LABELS[unit]}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Up Axis */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-[#FAFAFA]">
+              Up Axis
+            </label>
+            <div className="flex gap-4">
+              {(['y', 'z'] as ImportUpAxis[]).map((axis) => (
+                <label key={axis} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="upAxis"
+                    value={axis}
+                    checked={settings.upAxis === axis}
+                    onChange={() => setSettings({ ...settings, upAxis: axis })}
+                    className="w-4 h-4 accent-purple-500"
+                  />
+                  <span className="text-sm text-[#FAFAFA] uppercase">{axis} Up</span>
+                </label>
+              ))}
+            </div>
+            {settings.upAxis === 'z' && (
+              <p className="text-xs text-[#71717A]">Z-up files are rotated to Y-up on import</p>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 p-4 border-t border-[#27272A] bg-[#0A0A0B]">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-[#A1A1AA] hover:text-[#FAFAFA] transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport(settings)}
+            className="px-6 py-2 bg-gradient-to-r from-[#7C3AED] to-[#A855F7] text-white text-sm font-medium rounded-lg hover:shadow-lg hover:shadow-purple-500/25 transition-all"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -24,6 +24,7 @@ import {
   Folder,
   Search,
   Bone,
+  Boxes,
 } from 'lucide-react';
 
 interface AddMenuProps {
@@ -58,6 +59,7 @@ const menuItems: MenuItem[] = [
 
   // Empty
   { id: 'group', type: 'group', label: 'Empty', icon: Folder, category: 'empty' },
+  { id: 'lattice', type: 'lattice', label: 'Lattice', icon: Boxes, category: 'empty' },
 
   // Armature
   { id: 'armature', type: 'armature', label: 'Armature', icon: Bone, category: 'armature' },
@@ -0,0 +1,126 @@
+/**
+ * Camera Properties Panel Component
+ *
+ * Displays and allows editing of a camera object's lens: projection, field of
+ * view or orthographic size, frame aspect ratio and clip planes.
+ */
+
+import { useObjectsStore, CameraProps, DEFAULT_CAMERA_PROPS } from '../../stores/objectsStore';
+import { useCommandStore } from '../../stores/commandStore';
+import { UpdateObjectCommand } from '../../lib/commands/ObjectCommands';
+
+interface NumberInputProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+function NumberInput({ label, value, onChange, min, max, step = 0.1 }: NumberInputProps) {
+  return (
+    <div className="mb-3">
+      <label className="block text-xs text-[#A1A1AA] mb-1">{label}</label>
+      <input
+        type="number"
+        aria-label={label}
+        value={Number(value.toFixed(3))}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          if (Number.isFinite(parsed)) onChange(parsed);
+        }}
+        className="w-full bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] outline-none focus:border-[#7C3AED] transition-colors"
+      />
+    </div>
+  );
+}
+
+export function CameraPropertiesPanel() {
+  const selectedIds = useObjectsStore((state) => state.selectedIds);
+  const objects = useObjectsStore((state) => state.objects);
+  const executeCommand = useCommandStore((state) => state.executeCommand);
+
+  const selectedObject = selectedIds.length > 0 ? objects.get(selectedIds[0]) : null;
+
+  if (!selectedObject || selectedObject.type !== 'camera') {
+    return null; // Show nothing if not a camera
+  }
+
+  const cameraProps: CameraProps = { ...DEFAULT_CAMERA_PROPS, ...selectedObject.cameraProps };
+
+  const handleCameraPropertyChange = <K extends keyof CameraProps>(property: K, value: CameraProps[K]) => {
+    const command = new UpdateObjectCommand(
+      selectedObject.id,
+      { cameraProps: selectedObject.cameraProps },
+      { cameraProps: { ...cameraProps, [property]: value } }
+    );
+    executeCommand(command);
+  };
+
+  return (
+    <div className="border-t border-[#27272A] pt-4">
+      <h3 className="text-xs font-medium text-[#FAFAFA] mb-3">Camera Properties</h3>
+
+      <div className="mb-3">
+        <label className="block text-xs text-[#A1A1AA] mb-1">Projection</label>
+        <select
+          aria-label="Projection"
+          value={cameraProps.projection}
+          onChange={(e) => handleCameraPropertyChange('projection', e.target.value as CameraProps['projection'])}
+          className="w-full bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] outline-none focus:border-[#7C3AED]"
+        >
+          <option value="perspective">Perspective</option>
+          <option value="orthographic">Orthographic</option>
+        </select>
+      </div>
+
+      {cameraProps.projection === 'perspective' ? (
+        <NumberInput
+          label="Field of View (degrees)"
+          value={cameraProps.fov}
+          onChange={(value) => handleCameraPropertyChange('fov', Math.min(Math.max(value, 1), 179))}
+          min={1}
+          max={179}
+          step={1}
+        />
+      ) : (
+        <NumberInput
+          label="Orthographic Size"
+          value={cameraProps.orthographicSize}
+          onChange={(value) => handleCameraPropertyChange('orthographicSize', Math.max(value, 0.01))}
+          min={0.01}
+        />
+      )}
+
+      <NumberInput
+        label="Aspect Ratio"
+        value={cameraProps.aspect}
+        onChange={(value) => handleCameraPropertyChange('aspect', Math.max(value, 0.01))}
+        min={0.01}
+        step={0.01}
+      />
+
+      {/* The far plane stays beyond the near plane */}
+      <div className="grid grid-cols-2 gap-2">
+        <NumberInput
+          label="Clip Start"
+          value={cameraProps.near}
+          onChange={(value) => handleCameraPropertyChange('near', Math.min(Math.max(value, 0.001), cameraProps.far - 0.001))}
+          min={0.001}
+          step={0.01}
+        />
+        <NumberInput
+          label="Clip End"
+          value={cameraProps.far}
+          onChange={(value) => handleCameraPropertyChange('far', Math.max(value, cameraProps.near + 0.001))}
+          min={0.01}
+          step={1}
+        />
+      </div>
+    </div>
+  );
+}
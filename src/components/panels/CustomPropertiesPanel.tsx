@@ -0,0 +1,136 @@
+/**
+ * Custom Properties Panel Component
+ *
+ * Adds, edits and removes the numeric custom properties of the selected
+ * object. Drivers can read and set them.
+ */
+
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useObjectsStore } from '../../stores/objectsStore';
+import { useCommandStore } from '../../stores/commandStore';
+import { UpdateObjectCommand } from '../../lib/commands/ObjectCommands';
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+interface PropertyRowProps {
+  name: string;
+  value: number;
+  onChange: (value: number) => void;
+  onRemove: () => void;
+}
+
+function PropertyRow({ name, value, onChange, onRemove }: PropertyRowProps) {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => {
+    setText(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(text);
+    if (Number.isFinite(parsed) && parsed !== value) {
+      onChange(parsed);
+    } else {
+      setText(String(value));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="flex-1 text-xs text-[#A1A1AA] truncate" title={name}>{name}</span>
+      <input
+        type="number"
+        value={text}
+        step={0.1}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        }}
+        aria-label={`${name} value`}
+        className="w-24 bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] outline-none focus:border-[#7C3AED]"
+      />
+      <button
+        onClick={onRemove}
+        className="p-1 text-[#A1A1AA] hover:text-[#EF4444]"
+        title={`Remove ${name}`}
+      >
+        <Trash2 className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
+
+export function CustomPropertiesPanel() {
+  const selectedIds = useObjectsStore((state) => state.selectedIds);
+  const objects = useObjectsStore((state) => state.objects);
+  const executeCommand = useCommandStore((state) => state.executeCommand);
+  const [newName, setNewName] = useState('');
+
+  const selectedObject = selectedIds.length > 0 ? objects.get(selectedIds[0]) : null;
+  if (!selectedObject) return null;
+
+  const properties = selectedObject.customProperties || {};
+  const trimmedName = newName.trim();
+  const canAdd = NAME_PATTERN.test(trimmedName) && !(trimmedName in properties);
+
+  const setProperties = (customProperties: Record<string, number>) => {
+    const command = new UpdateObjectCommand(
+      selectedObject.id,
+      { customProperties: selectedObject.customProperties },
+      { customProperties }
+    );
+    executeCommand(command);
+  };
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    setProperties({ ...properties, [trimmedName]: 0 });
+    setNewName('');
+  };
+
+  const handleRemove = (name: string) => {
+    setProperties(Object.fromEntries(Object.entries(properties).filter(([key]) => key !== name)));
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-xs font-medium text-[#FAFAFA] mb-3">Custom Properties</h3>
+
+      <div className="space-y-2">
+        {Object.entries(properties).map(([name, value]) => (
+          <PropertyRow
+            key={name}
+            name={name}
+            value={value}
+            onChange={(v) => setProperties({ ...properties, [name]: v })}
+            onRemove={() => handleRemove(name)}
+          />
+        ))}
+
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={newName}
+            placeholder="Property name"
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAdd();
+            }}
+            className="flex-1 min-w-0 bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-sm text-[#FAFAFA] outline-none focus:border-[#7C3AED]"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!canAdd}
+            className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-[#27272A] text-[#FAFAFA] hover:bg-[#3F3F46] disabled:opacity-40 disabled:cursor-not-allowed"
+            title="Add a numeric property (letters, digits and underscores)"
+          >
+            <Plus className="w-3 h-3" />
+            Add
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+/**
+ * Drivers Panel Component
+ *
+ * Lists the drivers on the selected object and edits their expressions and
+ * variables. "Add Driver" drives one of the object's properties.
+ */
+
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, Eye, EyeOff, X } from 'lucide-react';
+import { SceneObject, useObjectsStore } from '../../stores/objectsStore';
+import { useCommandStore } from '../../stores/commandStore';
+import { useAnimationStore } from '../../stores/animationStore';
+import { ShapeKey, useMorphTargetStore } from '../../stores/morphTargetStore';
+import {
+  Driver,
+  DriverAxis,
+  DriverVariable,
+  DriverVariableType,
+  TransformChannel,
+  driverTargetKey,
+  useDriverStore,
+} from '../../stores/driverStore';
+import { DriverEditCommand } from '../../lib/commands/DriverCommands';
+import {
+  describeDriverTarget,
+  evaluateDriver,
+  getDrivableTargets,
+  getDriverTargetValue,
+} from '../../lib/animation/DriverEvaluator';
+import { DRIVER_FUNCTIONS } from '../../lib/animation/DriverExpression';
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const VARIABLE_TYPE_LABELS: Record<DriverVariableType, string> = {
+  transform: 'Transform',
+  boneRotation: 'Bone Rotation',
+  customProperty: 'Custom Property',
+  time: 'Time (s)',
+  frame: 'Frame',
+};
+
+const CHANNEL_LABELS: Record<TransformChannel, string> = {
+  position: 'Location',
+  rotation: 'Rotation',
+  scale: 'Scale',
+};
+
+const inputClass = 'bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-1 text-xs text-[#FAFAFA] outline-none focus:border-[#7C3AED]';
+
+/**
+ * A variable of the given type, reading from the given object where it reads one
+ */
+function createVariable(name: string, type: DriverVariableType, objectId: string, boneId: string): DriverVariable {
+  switch (type) {
+    case 'transform':
+      return { name, type, objectId, channel: 'position', axis: 0, space: 'local' };
+    case 'boneRotation':
+      return { name, type, boneId, axis: 0 };
+    case 'customProperty':
+      return { name, type, objectId, property: '' };
+    case 'time':
+      return { name, type };
+    case 'frame':
+      return { name, type };
+  }
+}
+
+function AxisSelect({ value, onChange }: { value: DriverAxis; onChange: (axis: DriverAxis) => void }) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value) as DriverAxis)}
+      className={inputClass}
+      aria-label="Axis"
+    >
+      <option value={0}>X</option>
+      <option value={1}>Y</option>
+      <option value={2}>Z</option>
+    </select>
+  );
+}
+
+function ObjectSelect({ value, objects, onChange }: { value: string; objects: SceneObject[]; onChange: (id: string) => void }) {
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} className={`${inputClass} flex-1 min-w-0`} aria-label="Object">
+      {!objects.some(o => o.id === value) && <option value={value}>(missing)</option>}
+      {objects.map(o => (
+        <option key={o.id} value={o.id}>{o.name}</option>
+      ))}
+    </select>
+  );
+}
+
+interface VariableRowProps {
+  variable: DriverVariable;
+  objects: SceneObject[];
+  takenNames: string[];
+  onChange: (variable: DriverVariable) => void;
+  onRemove: () => void;
+}
+
+function VariableRow({ variable, objects, takenNames, onChange, onRemove }: VariableRowProps) {
+  const [name, setName] = useState(variable.name);
+  const bones = objects.filter(o => o.type === 'bone');
+
+  useEffect(() => {
+    setName(variable.name);
+  }, [variable.name]);
+
+  const commitName = () => {
+    const trimmed = name.trim();
+    if (trimmed !== variable.name && NAME_PATTERN.test(trimmed) && !takenNames.includes(trimmed)) {
+      onChange({ ...variable, name: trimmed });
+    } else {
+      setName(variable.name);
+    }
+  };
+
+  const changeType = (type: DriverVariableType) => {
+    const objectId = 'objectId' in variable ? variable.objectId : objects[0]?.id || '';
+    onChange(createVariable(variable.name, type, objectId, bones[0]?.id || ''));
+  };
+
+  return (
+    <div className="p-2 rounded bg-[#0A0A0B] border border-[#27272A] space-y-1">
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+          }}
+          className={`${inputClass} w-16 font-mono`}
+          aria-label="Variable name"
+        />
+        <select
+          value={variable.type}
+          onChange={(e) => changeType(e.target.value as DriverVariableType)}
+          className={`${inputClass} flex-1 min-w-0`}
+          aria-label="Variable type"
+        >
+          {(Object.keys(VARIABLE_TYPE_LABELS) as DriverVariableType[]).map(type => (
+            <option key={type} value={type}>{VARIABLE_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <button onClick={onRemove} className="p-1 text-[#A1A1AA] hover:text-[#EF4444]" title="Remove variable">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      {variable.type === 'transform' && (
+        <div className="flex items-center gap-1">
+          <ObjectSelect value={variable.objectId} objects={objects} onChange={(objectId) => onChange({ ...variable, objectId })} />
+          <select
+            value={variable.channel}
+            onChange={(e) => onChange({ ...variable, channel: e.target.value as TransformChannel })}
+            className={inputClass}
+            aria-label="Channel"
+          >
+            {(Object.keys(CHANNEL_LABELS) as TransformChannel[]).map(channel => (
+              <option key={channel} value={channel}>{CHANNEL_LABELS[channel]}</option>
+            ))}
+          </select>
+          <AxisSelect value={variable.axis} onChange={(axis) => onChange({ ...variable, axis })} />
+          <select
+            value={variable.space}
+            onChange={(e) => onChange({ ...variable, space: e.target.value as 'local' | 'world' })}
+            className={inputClass}
+            aria-label="Space"
+          >
+            <option value="local">Local</option>
+            <option value="world">World</option>
+          </select>
+        </div>
+      )}
+
+      {variable.type === 'boneRotation' && (
+        <div className="flex items-center gap-1">
+          {bones.length > 0 ? (
+            <ObjectSelect value={variable.boneId} objects={bones} onChange={(boneId) => onChange({ ...variable, boneId })} />
+          ) : (
+            <span className="flex-1 text-xs text-[#71717A]">No bones in scene</span>
+          )}
+          <AxisSelect value={variable.axis} onChange={(axis) => onChange({ ...variable, axis })} />
+        </div>
+      )}
+
+      {variable.type === 'customProperty' && (
+        <div className="flex items-center gap-1">
+          <ObjectSelect value={variable.objectId} objects={objects} onChange={(objectId) => onChange({ ...variable, objectId })} />
+          <select
+            value={variable.property}
+            onChange={(e) => onChange({ ...variable, property: e.target.value })}
+            className={`${inputClass} flex-1 min-w-0`}
+            aria-label="Property"
+          >
+            <option value="">Property…</option>
+            {Object.keys(objects.find(o => o.id === variable.objectId)?.customProperties || {}).map(property => (
+              <option key={property} value={property}>{property}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface DriverCardProps {
+  driver: Driver;
+  objects: SceneObject[];
+  shapeKeys: ShapeKey[];
+  time: number;
+  frameRate: number;
+  edit: (description: string, change: () => void) => void;
+}
+
+function DriverCard({ driver, objects, shapeKeys, time, frameRate, edit }: DriverCardProps) {
+  const [expression, setExpression] = useState(driver.expression);
+  const { updateDriver, removeDriver } = useDriverStore.getState();
+  const label = describeDriverTarget(driver.target, shapeKeys);
+
+  useEffect(() => {
+    setExpression(driver.expression);
+  }, [driver.expression]);
+
+  let result: string;
+  let error: string | null = null;
+  try {
+    result = evaluateDriver(driver, time, frameRate).toFixed(3);
+  } catch (e) {
+    result = '';
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  const commitExpression = () => {
+    if (expression !== driver.expression) {
+      edit('Edit driver expression', () => updateDriver(driver.id, { expression }));
+    }
+  };
+
+  const setVariables = (variables: DriverVariable[], description: string) => {
+    edit(description, () => updateDriver(driver.id, { variables }));
+  };
+
+  const addVariable = () => {
+    const names = driver.variables.map(v => v.name);
+    let index = driver.variables.length === 0 ? 0 : 1;
+    let name = 'var';
+    while (names.includes(name)) name = `var${index++}`;
+
+    const bone = objects.find(o => o.type === 'bone');
+    setVariables([...driver.variables, createVariable(name, 'transform', driver.objectId, bone?.id || '')], 'Add driver variable');
+  };
+
+  return (
+    <div className="p-2 rounded border border-[#27272A] bg-[#18181B] space-y-2">
+      <div className="flex items-center gap-1">
+        <span className={`flex-1 text-xs font-medium ${driver.enabled ? 'text-[#FAFAFA]' : 'text-[#71717A]'}`}>{label}</span>
+        <button
+          onClick={() => edit(driver.enabled ? 'Disable driver' : 'Enable driver', () => updateDriver(driver.id, { enabled: !driver.enabled }))}
+          className="p-1 text-[#A1A1AA] hover:text-[#FAFAFA]"
+          title={driver.enabled ? 'Disable driver' : 'Enable driver'}
+        >
+          {driver.enabled ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+        </button>
+        <button
+          onClick={() => edit('Remove driver', () => removeDriver(driver.id))}
+          className="p-1 text-[#A1A1AA] hover:text-[#EF4444]"
+          title="Remove driver"
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={expression}
+        onChange={(e) => setExpression(e.target.value)}
+        onBlur={commitExpression}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            (e.target as HTMLInputElement).blur();
+          } else if (e.key === 'Escape') {
+            setExpression(driver.expression);
+          }
+        }}
+        spellCheck={false}
+        title={`Variables by name, pi, tau, e and ${DRIVER_FUNCTIONS.join(', ')}`}
+        className={`${inputClass} w-full font-mono ${error ? 'border-[#EF4444]' : ''}`}
+        aria-label={`${label} expression`}
+      />
+      {error ? (
+        <div className="text-xs text-[#EF4444]">{error}</div>
+      ) : (
+        <div className="text-xs text-[#A1A1AA] font-mono">= {result}</div>
+      )}
+
+      <div className="space-y-1">
+        {driver.variables.map((variable, index) => (
+          <VariableRow
+            key={index}
+            variable={variable}
+            objects={objects}
+            takenNames={driver.variables.filter((_, i) => i !== index).map(v => v.name)}
+            onChange={(updated) => setVariables(driver.variables.map((v, i) => (i === index ? updated : v)), 'Edit driver variable')}
+            onRemove={() => setVariables(driver.variables.filter((_, i) => i !== index), 'Remove driver variable')}
+          />
+        ))}
+        <button
+          onClick={addVariable}
+          className="flex items-center gap-1 text-xs text-[#A1A1AA] hover:text-[#FAFAFA]"
+        >
+          <Plus className="w-3 h-3" />
+          Add Variable
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function DriversPanel() {
+  const selectedIds = useObjectsStore((state) => state.selectedIds);
+  const objects = useObjectsStore((state) => state.objects);
+  const drivers = useDriverStore((state) => state.drivers);
+  const shapeKeysByObject = useMorphTargetStore((state) => state.shapeKeysByObject);
+  const currentTime = useAnimationStore((state) => state.currentTime);
+  const frameRate = useAnimationStore((state) => state.frameRate);
+  const executeCommand = useCommandStore((state) => state.executeCommand);
+  const [targetKey, setTargetKey] = useState('');
+
+  const selectedObject = selectedIds.length > 0 ? objects.get(selectedIds[0]) : null;
+  if (!selectedObject) return null;
+
+  const shapeKeys = shapeKeysByObject.get(selectedObject.id) || [];
+  const objectDrivers = drivers.filter(d => d.objectId === selectedObject.id);
+  const drivenKeys = new Set(objectDrivers.map(d => driverTargetKey(d.target)));
+  const targets = getDrivableTargets(selectedObject, shapeKeys).filter(t => !drivenKeys.has(driverTargetKey(t)));
+  const target = targets.find(t => driverTargetKey(t) === targetKey) || targets[0];
+  const allObjects = Array.from(objects.values());
+
+  const edit = (description: string, change: () => void) => {
+    executeCommand(new DriverEditCommand(description, change));
+  };
+
+  const handleAddDriver = () => {
+    if (!target) return;
+    // Start from the current value so adding a driver doesn't move anything
+    const value = getDriverTargetValue(selectedObject, target) ?? 0;
+    const expression = String(Math.round(value * 1000) / 1000);
+    edit(`Add driver to ${describeDriverTarget(target, shapeKeys)}`, () => {
+      useDriverStore.getState().addDriver(selectedObject.id, target, expression);
+    });
+    setTargetKey('');
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-xs font-medium text-[#FAFAFA] mb-3">Drivers</h3>
+
+      <div className="space-y-2">
+        {objectDrivers.map(driver => (
+          <DriverCard
+            key={driver.id}
+            driver={driver}
+            objects={allObjects}
+            shapeKeys={shapeKeys}
+            time={currentTime}
+            frameRate={frameRate}
+            edit={edit}
+          />
+        ))}
+
+        {targets.length > 0 && (
+          <div className="flex items-center gap-2">
+            <select
+              value={target ? driverTargetKey(target) : ''}
+              onChange={(e) => setTargetKey(e.target.value)}
+              className={`${inputClass} flex-1 min-w-0 py-1`}
+              aria-label="Driven property"
+            >
+              {targets.map(t => (
+                <option key={driverTargetKey(t)} value={driverTargetKey(t)}>
+                  {describeDriverTarget(t, shapeKeys)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddDriver}
+              className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-[#27272A] text-[#FAFAFA] hover:bg-[#3F3F46]"
+            >
+              <Plus className="w-3 h-3" />
+              Add Driver
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
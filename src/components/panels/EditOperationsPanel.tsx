@@ -1,7 +1,8 @@
 /**
  * Edit Operations Panel Component
  *
- * Panel with mesh editing operations like extrude, inset, subdivide.
+ * Panel with mesh editing operations like extrude, inset, subdivide,
+ * UV unwrapping, seam marking and bevel weights.
  * Sprint 7: Export System + Polygon Editing MVP
  */
 
@@ -12,14 +13,21 @@ import {
   ArrowUpFromLine,
   ArrowDownToLine,
   Eye,
-  EyeOff
+  EyeOff,
+  Map as MapIcon,
+  Scissors,
+  Spline,
+  Diamond
 } from 'lucide-react';
 import { useEditModeStore } from '../../stores/editModeStore';
 import { useObjectsStore } from '../../stores/objectsStore';
 import { useCommandStore } from '../../stores/commandStore';
+import { useToastStore } from '../../stores/toastStore';
 import { MeshOperations } from '../../lib/mesh/MeshOperations';
 import { meshRegistry } from '../../lib/mesh/MeshRegistry';
 import { ExtrudeFacesCommand, InsetFacesCommand } from '../../lib/commands/EditCommands';
+import { ReplaceQMeshCommand } from '../../lib/commands/EditModeCommands';
+import { unwrapQMesh, markSeams, UVUnwrapMethod } from '../../lib/qmesh/UVUnwrap';
 import * as THREE from 'three';
 
 export function EditOperationsPanel() {
@@ -40,6 +48,9 @@ export function EditOperationsPanel() {
   const [extrudeDistance, setExtrudeDistance] = useState(1.0);
   const [insetAmount, setInsetAmount] = useState(0.1);
   const [subdivisions, setSubdivisions] = useState(1);
+  const [unwrapMethod, setUnwrapMethod] = useState<UVUnwrapMethod>('angle-based');
+  const [bevelWeight, setBevelWeight] = useState(1);
+  const [creaseWeight, setCreaseWeight] = useState(1);
 
   // Preview state
   const [previewMode, setPreviewMode] = useState(true);
@@ -441,6 +452,99 @@ export function EditOperationsPanel() {
     console.log('Subdivided', selectedFaces.size, 'faces - geometry saved to store');
   };
 
+  const handleUnwrap = () => {
+    if (selectionMode !== 'face' || selectedFaces.size === 0) {
+      console.warn('UV unwrap requires face selection');
+      return;
+    }
+    if (!editingObjectId) return;
+
+    const qMesh = useObjectsStore.getState().getObject(editingObjectId)?.qMesh;
+    if (!qMesh) {
+      console.warn('UV unwrap requires a QMesh');
+      return;
+    }
+
+    const before = qMesh.toJSON();
+    const result = unwrapQMesh(qMesh, unwrapMethod, { faceIds: Array.from(selectedFaces) });
+    const after = qMesh.toJSON();
+
+    executeCommand(new ReplaceQMeshCommand(editingObjectId, before, after, `UV Unwrap (${unwrapMethod})`));
+    useToastStore.getState().success(`Unwrapped ${result.faceCount} faces into ${result.chartCount} UV islands`);
+  };
+
+  const handleMarkSeams = (marked: boolean) => {
+    if (selectionMode !== 'edge' || selectedEdges.size === 0) {
+      console.warn('Seam marking requires edge selection');
+      return;
+    }
+    if (!editingObjectId) return;
+
+    const qMesh = useObjectsStore.getState().getObject(editingObjectId)?.qMesh;
+    if (!qMesh) {
+      console.warn('Seam marking requires a QMesh');
+      return;
+    }
+
+    const before = qMesh.toJSON();
+    markSeams(qMesh, Array.from(selectedEdges), marked);
+    const after = qMesh.toJSON();
+
+    executeCommand(new ReplaceQMeshCommand(editingObjectId, before, after, marked ? 'Mark Seam' : 'Clear Seam'));
+  };
+
+  const handleSetBevelWeight = () => {
+    if (selectionMode !== 'edge' || selectedEdges.size === 0) {
+      console.warn('Bevel weight requires edge selection');
+      return;
+    }
+    if (!editingObjectId) return;
+
+    const qMesh = useObjectsStore.getState().getObject(editingObjectId)?.qMesh;
+    if (!qMesh) {
+      console.warn('Bevel weight requires a QMesh');
+      return;
+    }
+
+    const before = qMesh.toJSON();
+    selectedEdges.forEach(edgeKey => {
+      if (bevelWeight > 0) {
+        qMesh.bevelWeights.set(edgeKey, bevelWeight);
+      } else {
+        qMesh.bevelWeights.delete(edgeKey);
+      }
+    });
+    const after = qMesh.toJSON();
+
+    executeCommand(new ReplaceQMeshCommand(editingObjectId, before, after, `Set Bevel Weight (${bevelWeight.toFixed(2)})`));
+  };
+
+  const handleSetCrease = () => {
+    if (selectionMode !== 'edge' || selectedEdges.size === 0) {
+      console.warn('Edge crease requires edge selection');
+      return;
+    }
+    if (!editingObjectId) return;
+
+    const qMesh = useObjectsStore.getState().getObject(editingObjectId)?.qMesh;
+    if (!qMesh) {
+      console.warn('Edge crease requires a QMesh');
+      return;
+    }
+
+    const before = qMesh.toJSON();
+    selectedEdges.forEach(edgeKey => {
+      if (creaseWeight > 0) {
+        qMesh.creases.set(edgeKey, creaseWeight);
+      } else {
+        qMesh.creases.delete(edgeKey);
+      }
+    });
+    const after = qMesh.toJSON();
+
+    executeCommand(new ReplaceQMeshCommand(editingObjectId, before, after, `Set Edge Crease (${creaseWeight.toFixed(2)})`));
+  };
+
   const handleCancel = () => {
     if (isPreviewing) {
       restoreOriginalGeometry();
@@ -631,6 +735,34 @@ export function EditOperationsPanel() {
               className="w-16 px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
             />
           </div>
+        </div>
+        {/* UV Unwrap */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <MapIcon className="w-3 h-3 text-[#7C3AED]" />
+              <label className="text-xs font-medium text-[#FAFAFA]">UV Unwrap</label>
+            </div>
+            <button
+              onClick={handleUnwrap}
+              disabled={selectionMode !== 'face' || selectedFaces.size === 0}
+              className="px-2 py-1 text-xs bg-[#7C3AED] text-white rounded hover:bg-[#6D28D9] disabled:bg-[#27272A] disabled:text-[#71717A] transition-colors"
+            >
+              Unwrap
+            </button>
+          </div>
+          <select
+            aria-label="Unwrap method"
+            value={unwrapMethod}
+            onChange={(e) => setUnwrapMethod(e.target.value as UVUnwrapMethod)}
+            className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+          >
+            <option value="angle-based">Angle Based</option>
+            <option value="planar">Planar</option>
+            <option value="box">Box</option>
+            <option value="cylindrical">Cylindrical</option>
+            <option value="spherical">Spherical</option>
+          </select>
         </div>
           </>
         )}
@@ -716,6 +848,96 @@ export function EditOperationsPanel() {
           </div>
         )}
 
+        {/* Seams - Only show in edge mode */}
+        {selectionMode === 'edge' && selectedEdges.size > 0 && (
+          <div className="space-y-2 pt-3 border-t border-[#27272A]">
+            <div className="flex items-center gap-2">
+              <Scissors className="w-3 h-3 text-[#7C3AED]" />
+              <label className="text-xs font-medium text-[#FAFAFA]">UV Seams</label>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleMarkSeams(true)}
+                className="flex-1 px-2 py-1 text-xs bg-[#7C3AED] text-white rounded hover:bg-[#6D28D9] transition-colors"
+              >
+                Mark Seam
+              </button>
+              <button
+                onClick={() => handleMarkSeams(false)}
+                className="flex-1 px-2 py-1 text-xs bg-[#27272A] text-[#FAFAFA] rounded hover:bg-[#3F3F46] transition-colors"
+              >
+                Clear Seam
+              </button>
+            </div>
+            <div className="flex items-center justify-between pt-2">
+              <div className="flex items-center gap-2">
+                <Spline className="w-3 h-3 text-[#7C3AED]" />
+                <label className="text-xs font-medium text-[#FAFAFA]">Bevel Weight</label>
+              </div>
+              <button
+                onClick={handleSetBevelWeight}
+                className="px-2 py-1 text-xs bg-[#7C3AED] text-white rounded hover:bg-[#6D28D9] transition-colors"
+              >
+                Set
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={bevelWeight}
+                onChange={(e) => setBevelWeight(parseFloat(e.target.value))}
+                className="flex-1 h-1 bg-[#27272A] rounded-lg appearance-none cursor-pointer slider"
+              />
+              <input
+                type="number"
+                aria-label="Bevel weight"
+                value={bevelWeight}
+                onChange={(e) => setBevelWeight(Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)))}
+                min="0"
+                max="1"
+                step="0.05"
+                className="w-16 px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+              />
+            </div>
+            <div className="flex items-center justify-between pt-2">
+              <div className="flex items-center gap-2">
+                <Diamond className="w-3 h-3 text-[#7C3AED]" />
+                <label className="text-xs font-medium text-[#FAFAFA]">Edge Crease</label>
+              </div>
+              <button
+                onClick={handleSetCrease}
+                className="px-2 py-1 text-xs bg-[#7C3AED] text-white rounded hover:bg-[#6D28D9] transition-colors"
+              >
+                Set
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={creaseWeight}
+                onChange={(e) => setCreaseWeight(parseFloat(e.target.value))}
+                className="flex-1 h-1 bg-[#27272A] rounded-lg appearance-none cursor-pointer slider"
+              />
+              <input
+                type="number"
+                aria-label="Edge crease"
+                value={creaseWeight}
+                onChange={(e) => setCreaseWeight(Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)))}
+                min="0"
+                max="1"
+                step="0.05"
+                className="w-16 px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+              />
+            </div>
+          </div>
+        )}
+
         {/* Help text */}
         {selectionMode === 'face' && selectedFaces.size > 0 && (
         <div className="pt-2 border-t border-[#27272A] text-xs text-[#71717A]">
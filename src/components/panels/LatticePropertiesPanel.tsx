@@ -0,0 +1,195 @@
+/**
+ * Lattice Properties Panel Component
+ *
+ * Displays and allows editing of lattice resolution and control points,
+ * and keyframing of control points for the active animation.
+ */
+
+import { useObjectsStore, LatticeProps } from '../../stores/objectsStore';
+import { useCommandStore } from '../../stores/commandStore';
+import { useLatticeStore } from '../../stores/latticeStore';
+import { useAnimationStore } from '../../stores/animationStore';
+import { UpdateObjectCommand } from '../../lib/commands/ObjectCommands';
+import { createKeyframeForLatticePoint } from '../../hooks/useAnimationKeyframes';
+import {
+  createLatticeProps,
+  latticePointIndex,
+  resizeLattice,
+  MAX_LATTICE_RESOLUTION,
+  MIN_LATTICE_RESOLUTION,
+} from '../../lib/lattice/LatticeUtils';
+
+interface AxisInputsProps {
+  label: string;
+  labels: [string, string, string];
+  value: [number, number, number];
+  onChange: (axis: number, value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+function AxisInputs({ label, labels, value, onChange, min, max, step = 1 }: AxisInputsProps) {
+  return (
+    <div className="mb-3">
+      <label className="block text-xs text-[#A1A1AA] mb-1">{label}</label>
+      <div className="grid grid-cols-3 gap-2">
+        {value.map((val, axis) => (
+          <div key={axis} className="relative">
+            <div className="absolute left-2 top-1/2 -translate-y-1/2 text-xs font-medium text-[#A1A1AA]">
+              {labels[axis]}
+            </div>
+            <input
+              type="number"
+              value={step < 1 ? Number(val.toFixed(3)) : val}
+              min={min}
+              max={max}
+              step={step}
+              onChange={(e) => onChange(axis, parseFloat(e.target.value) || 0)}
+              className="w-full bg-[#0A0A0B] border border-[#27272A] rounded px-2 pl-6 py-1 text-sm text-[#FAFAFA] outline-none focus:border-[#7C3AED] transition-colors"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function LatticePropertiesPanel() {
+  const selectedIds = useObjectsStore((state) => state.selectedIds);
+  const objects = useObjectsStore((state) => state.objects);
+  const executeCommand = useCommandStore((state) => state.executeCommand);
+  const selectedPoint = useLatticeStore((state) => state.selectedPoint);
+  const selectPoint = useLatticeStore((state) => state.selectPoint);
+  const clearPointSelection = useLatticeStore((state) => state.clearPointSelection);
+  const activeAnimationId = useAnimationStore((state) => state.activeAnimationId);
+  const currentTime = useAnimationStore((state) => state.currentTime);
+
+  const selectedObject = selectedIds.length > 0 ? objects.get(selectedIds[0]) : null;
+
+  if (!selectedObject || selectedObject.type !== 'lattice' || !selectedObject.latticeProps) {
+    return null; // Show nothing if not a lattice
+  }
+
+  const { latticeProps } = selectedObject;
+  const { resolution } = latticeProps;
+  const pointIndex = selectedPoint?.objectId === selectedObject.id ? selectedPoint.index : null;
+  const point = pointIndex !== null ? latticeProps.points[pointIndex] : undefined;
+  const pointCoords: [number, number, number] = pointIndex !== null
+    ? [
+      pointIndex % resolution[0],
+      Math.floor(pointIndex / resolution[0]) % resolution[1],
+      Math.floor(pointIndex / (resolution[0] * resolution[1])),
+    ]
+    : [0, 0, 0];
+
+  const updateLattice = (newProps: LatticeProps) => {
+    const command = new UpdateObjectCommand(selectedObject.id, { latticeProps }, { latticeProps: newProps });
+    executeCommand(command);
+  };
+
+  const handleResolutionChange = (axis: number, value: number) => {
+    const newResolution = [...resolution] as [number, number, number];
+    newResolution[axis] = value;
+    clearPointSelection();
+    updateLattice(resizeLattice(latticeProps, newResolution));
+  };
+
+  const handlePointSelect = (axis: number, value: number) => {
+    const coords = [...pointCoords] as [number, number, number];
+    coords[axis] = Math.min(Math.max(Math.round(value), 0), resolution[axis] - 1);
+    selectPoint(selectedObject.id, latticePointIndex(coords[0], coords[1], coords[2], resolution));
+  };
+
+  const handlePointChange = (axis: number, value: number) => {
+    if (pointIndex === null || !point) return;
+
+    const points = [...latticeProps.points];
+    const moved = [...point] as [number, number, number];
+    moved[axis] = value;
+    points[pointIndex] = moved;
+    updateLattice({ ...latticeProps, points });
+  };
+
+  // Key the given control points at the playhead (replaces keys already at that time)
+  const insertKeyframes = (indices: number[]) => {
+    if (!activeAnimationId) return;
+
+    const animationStore = useAnimationStore.getState();
+    indices.forEach((index) => {
+      const { track, keyframe } = createKeyframeForLatticePoint(
+        selectedObject.id,
+        index,
+        latticeProps.points[index],
+        currentTime
+      );
+
+      if (!animationStore.getTrack(activeAnimationId, track.id)) {
+        animationStore.addTrack(activeAnimationId, track);
+      }
+      animationStore.addKeyframe(activeAnimationId, track.id, keyframe);
+    });
+  };
+
+  return (
+    <div className="border-t border-[#27272A] pt-4">
+      <h3 className="text-xs font-medium text-[#FAFAFA] mb-3">Lattice Properties</h3>
+
+      <AxisInputs
+        label="Resolution"
+        labels={['U', 'V', 'W']}
+        value={resolution}
+        onChange={handleResolutionChange}
+        min={MIN_LATTICE_RESOLUTION}
+        max={MAX_LATTICE_RESOLUTION}
+      />
+
+      <AxisInputs
+        label="Control Point"
+        labels={['U', 'V', 'W']}
+        value={pointCoords}
+        onChange={handlePointSelect}
+        min={0}
+      />
+
+      {point ? (
+        <AxisInputs
+          label="Point Position"
+          labels={['X', 'Y', 'Z']}
+          value={point}
+          onChange={handlePointChange}
+          step={0.01}
+        />
+      ) : (
+        <p className="mb-3 text-xs text-[#71717A]">Click a control point in the viewport to edit it</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <button
+          onClick={() => pointIndex !== null && insertKeyframes([pointIndex])}
+          disabled={!activeAnimationId || pointIndex === null}
+          className="px-2 py-1.5 text-xs text-[#FAFAFA] bg-[#27272A] hover:bg-[#3F3F46] rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title={activeAnimationId ? 'Keyframe the selected point at the playhead' : 'Create an animation to add keyframes'}
+        >
+          Key Point
+        </button>
+        <button
+          onClick={() => insertKeyframes(latticeProps.points.map((_, index) => index))}
+          disabled={!activeAnimationId}
+          className="px-2 py-1.5 text-xs text-[#FAFAFA] bg-[#27272A] hover:bg-[#3F3F46] rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title={activeAnimationId ? 'Keyframe every point at the playhead' : 'Create an animation to add keyframes'}
+        >
+          Key All Points
+        </button>
+      </div>
+
+      <button
+        onClick={() => updateLattice(createLatticeProps(resolution))}
+        className="w-full px-2 py-1.5 text-xs text-[#FAFAFA] bg-[#27272A] hover:bg-[#3F3F46] rounded transition-colors"
+        title="Move every control point back to its rest position"
+      >
+        Reset Points
+      </button>
+    </div>
+  );
+}
@@ -45,14 +45,15 @@ interface SliderInputProps {
   min?: number;
   max?: number;
   step?: number;
+  unit?: string;
 }
 
-function SliderInput({ label, value, onChange, min = 0, max = 10, step = 0.1 }: SliderInputProps) {
+function SliderInput({ label, value, onChange, min = 0, max = 10, step = 0.1, unit }: SliderInputProps) {
   return (
     <div className="mb-3">
       <div className="flex items-center justify-between mb-1">
         <label className="text-xs text-[#A1A1AA]">{label}</label>
-        <span className="text-xs text-[#FAFAFA] font-mono">{value.toFixed(2)}</span>
+        <span className="text-xs text-[#FAFAFA] font-mono">{value.toFixed(2)}{unit && ` ${unit}`}</span>
       </div>
       <input
         type="range"
@@ -67,6 +68,13 @@ function SliderInput({ label, value, onChange, min = 0, max = 10, step = 0.1 }:
   );
 }
 
+// The viewport renders physical light units, the same ones KHR_lights_punctual uses
+const INTENSITY_UNITS: Record<string, string | undefined> = {
+  pointLight: 'cd',
+  spotLight: 'cd',
+  directionalLight: 'lx',
+};
+
 export function LightPropertiesPanel() {
   const selectedIds = useObjectsStore((state) => state.selectedIds);
   const objects = useObjectsStore((state) => state.objects);
@@ -116,6 +124,7 @@ export function LightPropertiesPanel() {
         min={0}
         max={10}
         step={0.1}
+        unit={INTENSITY_UNITS[selectedObject.type]}
       />
 
       {(selectedObject.type === 'pointLight' || selectedObject.type === 'spotLight') && (
@@ -20,9 +20,34 @@ import {
   Divide,
   Box,
   Move3d,
+  Loader2,
+  Check,
+  CopyPlus,
+  Files,
+  Minimize2,
+  Waves,
+  Triangle,
+  Merge,
+  Magnet,
+  Boxes,
 } from 'lucide-react';
-import { useModifierStore, ModifierType } from '../../stores/modifierStore';
+import { useModifierStore, Modifier, ModifierType } from '../../stores/modifierStore';
 import { useObjectsStore } from '../../stores/objectsStore';
+import { useMaterialsStore } from '../../stores/materialsStore';
+import { useCommandStore } from '../../stores/commandStore';
+import { useToastStore } from '../../stores/toastStore';
+import { Command } from '../../lib/commands/Command';
+import {
+  AddModifierCommand,
+  RemoveModifierCommand,
+  MoveModifierCommand,
+  ToggleModifierCommand,
+  UpdateModifierCommand,
+  DuplicateModifierCommand,
+  ApplyModifierCommand,
+  ApplyAllModifiersCommand,
+  CopyModifierStackCommand,
+} from '../../lib/commands/ModifierCommands';
 
 const MODIFIER_ICONS: Record<ModifierType, React.ComponentType<any>> = {
   subdivision: Grid3x3,
@@ -31,6 +56,12 @@ const MODIFIER_ICONS: Record<ModifierType, React.ComponentType<any>> = {
   bevel: Divide,
   solidify: Box,
   displace: Move3d,
+  decimate: Minimize2,
+  smooth: Waves,
+  triangulate: Triangle,
+  weld: Merge,
+  shrinkwrap: Magnet,
+  lattice: Boxes,
 };
 
 const MODIFIER_DESCRIPTIONS: Record<ModifierType, string> = {
@@ -39,35 +70,64 @@ const MODIFIER_DESCRIPTIONS: Record<ModifierType, string> = {
   array: 'Create multiple copies in a pattern',
   bevel: 'Round edges and corners',
   solidify: 'Add thickness to surfaces',
-  displace: 'Offset vertices along normals',
+  displace: 'Offset vertices by a texture or noise',
+  decimate: 'Reduce the triangle count',
+  smooth: 'Relax vertices towards their neighbours',
+  triangulate: 'Split faces into triangles',
+  weld: 'Merge vertices by distance',
+  shrinkwrap: 'Wrap onto the surface of another object',
+  lattice: 'Deform with a lattice cage',
 };
 
 export function ModifierPanel() {
-  const { selectedIds } = useObjectsStore();
-  const {
-    getModifiers,
-    addModifier,
-    removeModifier,
-    updateModifier,
-    toggleModifier,
-    moveModifierUp,
-    moveModifierDown,
-  } = useModifierStore();
+  const { selectedIds, objects } = useObjectsStore();
+  const { getModifiers, pendingEvaluations } = useModifierStore();
+  const { executeCommand } = useCommandStore();
+
+  const textureMap = useMaterialsStore((state) => state.textures);
 
   const [showAddMenu, setShowAddMenu] = useState(false);
   const [expandedModifiers, setExpandedModifiers] = useState<Set<string>>(new Set());
 
   const currentObjectId = selectedIds[0];
   const modifiers = currentObjectId ? getModifiers(currentObjectId) : [];
+  const pendingModifierIds = (currentObjectId && pendingEvaluations.get(currentObjectId)) || [];
+  const offsetObjectCandidates = Array.from(objects.values()).filter(
+    (obj) => obj.id !== currentObjectId
+  );
+  const latticeObjects = offsetObjectCandidates.filter((obj) => obj.type === 'lattice');
+  const textures = Array.from(textureMap.values());
+
+  // Every stack change goes through the command history so it can be undone
+  const runCommand = (createCommand: () => Command) => {
+    try {
+      executeCommand(createCommand());
+    } catch (error) {
+      useToastStore.getState().error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const updateModifier = (objectId: string, modifierId: string, updates: Partial<Modifier>) =>
+    runCommand(() => new UpdateModifierCommand(objectId, modifierId, updates));
+
+  const moveModifier = (modifierId: string, toIndex: number) =>
+    runCommand(() => new MoveModifierCommand(currentObjectId, modifierId, toIndex));
 
   const handleAddModifier = (type: ModifierType) => {
     if (currentObjectId) {
-      const modifier = addModifier(currentObjectId, type);
-      setExpandedModifiers(new Set([...expandedModifiers, modifier.id]));
+      const command = new AddModifierCommand(currentObjectId, type);
+      executeCommand(command);
+      setExpandedModifiers(new Set([...expandedModifiers, command.getModifier().id]));
     }
     setShowAddMenu(false);
   };
 
+  const handleDuplicateModifier = (modifierId: string) => {
+    const command = new DuplicateModifierCommand(currentObjectId, modifierId);
+    executeCommand(command);
+    setExpandedModifiers(new Set([...expandedModifiers, command.getModifier().id]));
+  };
+
   const toggleExpanded = (modifierId: string) => {
     const newExpanded = new Set(expandedModifiers);
     if (newExpanded.has(modifierId)) {
@@ -106,7 +166,7 @@ export function ModifierPanel() {
 
             {/* Add Modifier Menu */}
             {showAddMenu && (
-              <div className="absolute right-0 top-full mt-1 w-56 bg-[#18181B] border border-[#27272A] rounded-lg shadow-xl z-50">
+              <div className="absolute right-0 top-full mt-1 w-56 max-h-96 overflow-y-auto bg-[#18181B] border border-[#27272A] rounded-lg shadow-xl z-50">
                 <div className="p-2 space-y-1">
                   {(Object.keys(MODIFIER_ICONS) as ModifierType[]).map((type) => {
                     const Icon = MODIFIER_ICONS[type];
@@ -133,8 +193,16 @@ export function ModifierPanel() {
             )}
           </div>
         </div>
-        <div className="text-xs text-[#71717A] mt-1">
-          {modifiers.length} modifier{modifiers.length !== 1 ? 's' : ''}
+        <div className="flex items-center justify-between text-xs text-[#71717A] mt-1">
+          <span>
+            {modifiers.length} modifier{modifiers.length !== 1 ? 's' : ''}
+          </span>
+          {pendingModifierIds.length > 0 && (
+            <span className="flex items-center gap-1 text-[#F59E0B]" title="Showing the previous result until the stack finishes evaluating">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Updating
+            </span>
+          )}
         </div>
       </div>
 
@@ -169,12 +237,17 @@ export function ModifierPanel() {
                       <span className="text-xs font-medium text-[#FAFAFA]">
                         {modifier.name}
                       </span>
+                      {pendingModifierIds.includes(modifier.id) && (
+                        <span className="text-[10px] text-[#F59E0B]" title="Result is stale, recomputing">
+                          stale
+                        </span>
+                      )}
                     </button>
 
                     <div className="flex items-center gap-0.5">
                       {/* Toggle Enabled */}
                       <button
-                        onClick={() => toggleModifier(currentObjectId, modifier.id)}
+                        onClick={() => runCommand(() => new ToggleModifierCommand(currentObjectId, modifier.id))}
                         className="p-1 hover:bg-[#27272A] rounded transition-colors"
                         title={modifier.enabled ? 'Disable' : 'Enable'}
                       >
@@ -187,7 +260,7 @@ export function ModifierPanel() {
 
                       {/* Move Up */}
                       <button
-                        onClick={() => moveModifierUp(currentObjectId, modifier.id)}
+                        onClick={() => moveModifier(modifier.id, index - 1)}
                         disabled={index === 0}
                         className="p-1 hover:bg-[#27272A] rounded transition-colors disabled:opacity-30"
                         title="Move Up"
@@ -197,7 +270,7 @@ export function ModifierPanel() {
 
                       {/* Move Down */}
                       <button
-                        onClick={() => moveModifierDown(currentObjectId, modifier.id)}
+                        onClick={() => moveModifier(modifier.id, index + 1)}
                         disabled={index === modifiers.length - 1}
                         className="p-1 hover:bg-[#27272A] rounded transition-colors disabled:opacity-30"
                         title="Move Down"
@@ -205,9 +278,27 @@ export function ModifierPanel() {
                         <ChevronDown className="w-3 h-3 text-[#A1A1AA]" />
                       </button>
 
+                      {/* Duplicate */}
+                      <button
+                        onClick={() => handleDuplicateModifier(modifier.id)}
+                        className="p-1 hover:bg-[#27272A] rounded transition-colors"
+                        title="Duplicate"
+                      >
+                        <CopyPlus className="w-3 h-3 text-[#A1A1AA]" />
+                      </button>
+
+                      {/* Apply */}
+                      <button
+                        onClick={() => runCommand(() => new ApplyModifierCommand(currentObjectId, modifier.id))}
+                        className="p-1 hover:bg-[#27272A] rounded transition-colors"
+                        title="Apply (bake into mesh)"
+                      >
+                        <Check className="w-3 h-3 text-[#A1A1AA]" />
+                      </button>
+
                       {/* Delete */}
                       <button
-                        onClick={() => removeModifier(currentObjectId, modifier.id)}
+                        onClick={() => runCommand(() => new RemoveModifierCommand(currentObjectId, modifier.id))}
                         className="p-1 hover:bg-[#27272A] rounded transition-colors"
                         title="Remove"
                       >
@@ -220,26 +311,68 @@ export function ModifierPanel() {
                   {isExpanded && (
                     <div className="px-3 pb-3 space-y-2 border-t border-[#27272A] mt-2 pt-2">
                       {modifier.type === 'subdivision' && (
-                        <div>
-                          <label className="text-[10px] text-[#A1A1AA] block mb-1">
-                            Subdivision Levels
-                          </label>
-                          <input
-                            type="range"
-                            min="1"
-                            max="4"
-                            value={modifier.params.levels || 1}
-                            onChange={(e) =>
-                              updateModifier(currentObjectId, modifier.id, {
-                                params: { ...modifier.params, levels: parseInt(e.target.value) },
-                              })
-                            }
-                            className="w-full h-1 bg-[#27272A] rounded-lg appearance-none cursor-pointer"
-                          />
-                          <div className="text-[10px] text-[#71717A] mt-1">
-                            {modifier.params.levels || 1}
+                        <>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Algorithm</label>
+                            <select
+                              value={modifier.params.subdivisionAlgorithm || 'catmull-clark'}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    subdivisionAlgorithm: e.target.value as 'catmull-clark' | 'loop',
+                                  },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="catmull-clark">Catmull-Clark</option>
+                              <option value="loop">Loop (triangles)</option>
+                            </select>
                           </div>
-                        </div>
+
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                              Viewport Levels
+                            </label>
+                            <input
+                              type="range"
+                              min="0"
+                              max="4"
+                              value={modifier.params.levels ?? 1}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, levels: parseInt(e.target.value) },
+                                })
+                              }
+                              className="w-full h-1 bg-[#27272A] rounded-lg appearance-none cursor-pointer"
+                            />
+                            <div className="text-[10px] text-[#71717A] mt-1">
+                              {modifier.params.levels ?? 1}
+                            </div>
+                          </div>
+
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                              Export Levels
+                            </label>
+                            <input
+                              type="range"
+                              min="0"
+                              max="5"
+                              value={modifier.params.exportLevels ?? modifier.params.levels ?? 1}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, exportLevels: parseInt(e.target.value) },
+                                })
+                              }
+                              className="w-full h-1 bg-[#27272A] rounded-lg appearance-none cursor-pointer"
+                            />
+                            <div className="text-[10px] text-[#71717A] mt-1">
+                              {modifier.params.exportLevels ?? modifier.params.levels ?? 1}
+                            </div>
+                          </div>
+                        </>
                       )}
 
                       {modifier.type === 'mirror' && (
@@ -287,27 +420,6 @@ export function ModifierPanel() {
 
                       {modifier.type === 'array' && (
                         <>
-                          <div>
-                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Count</label>
-                            <input
-                              type="range"
-                              min="2"
-                              max="10"
-                              value={modifier.params.arrayCount || 3}
-                              onChange={(e) =>
-                                updateModifier(currentObjectId, modifier.id, {
-                                  params: {
-                                    ...modifier.params,
-                                    arrayCount: parseInt(e.target.value),
-                                  },
-                                })
-                              }
-                              className="w-full h-1 bg-[#27272A] rounded-lg appearance-none cursor-pointer"
-                            />
-                            <div className="text-[10px] text-[#71717A] mt-1">
-                              {modifier.params.arrayCount || 3}
-                            </div>
-                          </div>
                           <div>
                             <label className="text-[10px] text-[#A1A1AA] block mb-1">Type</label>
                             <select
@@ -326,6 +438,191 @@ export function ModifierPanel() {
                               <option value="circular">Circular</option>
                             </select>
                           </div>
+                          {(modifier.params.arrayType || 'linear') === 'linear' && (
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">Fit Type</label>
+                              <select
+                                value={modifier.params.arrayFitType || 'count'}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: {
+                                      ...modifier.params,
+                                      arrayFitType: e.target.value as 'count' | 'length',
+                                    },
+                                  })
+                                }
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              >
+                                <option value="count">Fixed Count</option>
+                                <option value="length">Fit Length</option>
+                              </select>
+                            </div>
+                          )}
+                          {(modifier.params.arrayType || 'linear') === 'linear' &&
+                          modifier.params.arrayFitType === 'length' ? (
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">Length</label>
+                              <input
+                                type="number"
+                                value={modifier.params.arrayFitLength ?? 10}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: {
+                                      ...modifier.params,
+                                      arrayFitLength: parseFloat(e.target.value) || 0,
+                                    },
+                                  })
+                                }
+                                min="0"
+                                step="0.1"
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              />
+                            </div>
+                          ) : (
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">Count</label>
+                              <input
+                                type="range"
+                                min="2"
+                                max="10"
+                                value={modifier.params.arrayCount || 3}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: {
+                                      ...modifier.params,
+                                      arrayCount: parseInt(e.target.value),
+                                    },
+                                  })
+                                }
+                                className="w-full h-1 bg-[#27272A] rounded-lg appearance-none cursor-pointer"
+                              />
+                              <div className="text-[10px] text-[#71717A] mt-1">
+                                {modifier.params.arrayCount || 3}
+                              </div>
+                            </div>
+                          )}
+                          {(modifier.params.arrayType || 'linear') === 'linear' ? (
+                            <>
+                              <VectorParamInput
+                                label="Constant Offset"
+                                value={modifier.params.arrayOffset || [2, 0, 0]}
+                                onChange={(value) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: { ...modifier.params, arrayOffset: value },
+                                  })
+                                }
+                              />
+                              <VectorParamInput
+                                label="Relative Offset"
+                                value={modifier.params.arrayRelativeOffset || [0, 0, 0]}
+                                onChange={(value) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: { ...modifier.params, arrayRelativeOffset: value },
+                                  })
+                                }
+                              />
+                              <div>
+                                <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                                  Offset Object
+                                </label>
+                                <select
+                                  value={modifier.params.arrayOffsetObject || ''}
+                                  onChange={(e) =>
+                                    updateModifier(currentObjectId, modifier.id, {
+                                      params: {
+                                        ...modifier.params,
+                                        arrayOffsetObject: e.target.value || undefined,
+                                      },
+                                    })
+                                  }
+                                  className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                                >
+                                  <option value="">None</option>
+                                  {offsetObjectCandidates.map((obj) => (
+                                    <option key={obj.id} value={obj.id}>
+                                      {obj.name}
+                                    </option>
+                                  ))}
+                                </select>
+                              </div>
+                            </>
+                          ) : (
+                            <>
+                              <div>
+                                <label className="text-[10px] text-[#A1A1AA] block mb-1">Axis</label>
+                                <select
+                                  value={modifier.params.arrayAxis || 'z'}
+                                  onChange={(e) =>
+                                    updateModifier(currentObjectId, modifier.id, {
+                                      params: {
+                                        ...modifier.params,
+                                        arrayAxis: e.target.value as 'x' | 'y' | 'z',
+                                      },
+                                    })
+                                  }
+                                  className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                                >
+                                  <option value="x">X Axis</option>
+                                  <option value="y">Y Axis</option>
+                                  <option value="z">Z Axis</option>
+                                </select>
+                              </div>
+                              <div>
+                                <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                                  Angle (degrees)
+                                </label>
+                                <input
+                                  type="number"
+                                  value={modifier.params.arrayAngle ?? 360}
+                                  onChange={(e) =>
+                                    updateModifier(currentObjectId, modifier.id, {
+                                      params: {
+                                        ...modifier.params,
+                                        arrayAngle: parseFloat(e.target.value) || 0,
+                                      },
+                                    })
+                                  }
+                                  step="15"
+                                  className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                                />
+                              </div>
+                            </>
+                          )}
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={modifier.params.arrayMerge || false}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, arrayMerge: e.target.checked },
+                                })
+                              }
+                              className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
+                            />
+                            <span className="text-[10px] text-[#A1A1AA]">Merge</span>
+                          </label>
+                          {modifier.params.arrayMerge && (
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                                Merge Distance
+                              </label>
+                              <input
+                                type="number"
+                                value={modifier.params.arrayMergeDistance ?? 0.001}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: {
+                                      ...modifier.params,
+                                      arrayMergeDistance: parseFloat(e.target.value) || 0,
+                                    },
+                                  })
+                                }
+                                min="0"
+                                step="0.001"
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              />
+                            </div>
+                          )}
                         </>
                       )}
 
@@ -373,6 +670,85 @@ export function ModifierPanel() {
                               {modifier.params.bevelSegments || 2}
                             </div>
                           </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                              Profile
+                            </label>
+                            <input
+                              type="range"
+                              min="0"
+                              max="1"
+                              step="0.05"
+                              value={modifier.params.bevelProfile ?? 0.5}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    bevelProfile: parseFloat(e.target.value),
+                                  },
+                                })
+                              }
+                              className="w-full h-1 bg-[#27272A] rounded-lg appearance-none cursor-pointer"
+                            />
+                            <div className="text-[10px] text-[#71717A] mt-1">
+                              {(modifier.params.bevelProfile ?? 0.5).toFixed(2)}
+                            </div>
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Limit Method</label>
+                            <select
+                              value={modifier.params.bevelLimitMethod || 'angle'}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    bevelLimitMethod: e.target.value as 'all' | 'angle' | 'weight',
+                                  },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="all">All Edges</option>
+                              <option value="angle">Angle</option>
+                              <option value="weight">Bevel Weight</option>
+                            </select>
+                          </div>
+                          {(modifier.params.bevelLimitMethod || 'angle') === 'angle' && (
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                                Angle (degrees)
+                              </label>
+                              <input
+                                type="number"
+                                value={modifier.params.bevelAngle ?? 30}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: {
+                                      ...modifier.params,
+                                      bevelAngle: parseFloat(e.target.value) || 0,
+                                    },
+                                  })
+                                }
+                                min="0"
+                                max="180"
+                                step="5"
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              />
+                            </div>
+                          )}
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={modifier.params.bevelClampOverlap ?? true}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, bevelClampOverlap: e.target.checked },
+                                })
+                              }
+                              className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
+                            />
+                            <span className="text-[10px] text-[#A1A1AA]">Clamp Overlap</span>
+                          </label>
                         </>
                       )}
 
@@ -417,25 +793,542 @@ export function ModifierPanel() {
                       )}
 
                       {modifier.type === 'displace' && (
-                        <div>
-                          <label className="text-[10px] text-[#A1A1AA] block mb-1">
-                            Strength
+                        <>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Source</label>
+                            <select
+                              value={modifier.params.displaceSource || 'perlin'}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    displaceSource: e.target.value as 'texture' | 'perlin' | 'voronoi' | 'fbm',
+                                  },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="perlin">Perlin Noise</option>
+                              <option value="voronoi">Voronoi</option>
+                              <option value="fbm">FBM</option>
+                              <option value="texture">Texture</option>
+                            </select>
+                          </div>
+                          {modifier.params.displaceSource === 'texture' ? (
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">Texture</label>
+                              <select
+                                value={modifier.params.displaceTexture || ''}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: { ...modifier.params, displaceTexture: e.target.value },
+                                  })
+                                }
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              >
+                                <option value="">None</option>
+                                {textures.map((texture) => (
+                                  <option key={texture.id} value={texture.id}>
+                                    {texture.name}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                          ) : (
+                            <>
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                                Noise Scale
+                              </label>
+                              <input
+                                type="number"
+                                value={modifier.params.displaceNoiseScale ?? 1}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: {
+                                      ...modifier.params,
+                                      displaceNoiseScale: parseFloat(e.target.value) || 1,
+                                    },
+                                  })
+                                }
+                                step="0.1"
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              />
+                            </div>
+                              {modifier.params.displaceSource === 'fbm' && (
+                              <div>
+                                <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                                  Octaves
+                                </label>
+                                <input
+                                  type="number"
+                                  value={modifier.params.displaceNoiseOctaves ?? 4}
+                                  onChange={(e) =>
+                                    updateModifier(currentObjectId, modifier.id, {
+                                      params: {
+                                        ...modifier.params,
+                                        displaceNoiseOctaves: parseInt(e.target.value) || 1,
+                                      },
+                                    })
+                                  }
+                                  step="1"
+                                  className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                                />
+                              </div>
+                              )}
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                                Seed
+                              </label>
+                              <input
+                                type="number"
+                                value={modifier.params.displaceNoiseSeed ?? 0}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: {
+                                      ...modifier.params,
+                                      displaceNoiseSeed: parseInt(e.target.value) || 0,
+                                    },
+                                  })
+                                }
+                                step="1"
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              />
+                            </div>
+                            </>
+                          )}
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                              Strength
+                            </label>
+                            <input
+                              type="number"
+                              value={modifier.params.displaceStrength ?? 1}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    displaceStrength: parseFloat(e.target.value) || 0,
+                                  },
+                                })
+                              }
+                              step="0.1"
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                              Midlevel
+                            </label>
+                            <input
+                              type="number"
+                              value={modifier.params.displaceMidlevel ?? 0.5}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    displaceMidlevel: parseFloat(e.target.value) || 0,
+                                  },
+                                })
+                              }
+                              step="0.05"
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Direction</label>
+                            <select
+                              value={modifier.params.displaceDirection || 'normal'}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    displaceDirection: e.target.value as 'normal' | 'x' | 'y' | 'z',
+                                  },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="normal">Normal</option>
+                              <option value="x">X Axis</option>
+                              <option value="y">Y Axis</option>
+                              <option value="z">Z Axis</option>
+                            </select>
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Coordinates</label>
+                            <select
+                              value={modifier.params.displaceCoordinates || 'local'}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    displaceCoordinates: e.target.value as 'uv' | 'local' | 'object',
+                                  },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="uv">UV</option>
+                              <option value="local">Local</option>
+                              <option value="object">Object</option>
+                            </select>
+                          </div>
+                          {modifier.params.displaceCoordinates === 'object' && (
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                                Coordinate Object
+                              </label>
+                              <select
+                                value={modifier.params.displaceCoordinateObject || ''}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: {
+                                      ...modifier.params,
+                                      displaceCoordinateObject: e.target.value || undefined,
+                                    },
+                                  })
+                                }
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              >
+                                <option value="">None</option>
+                                {offsetObjectCandidates.map((obj) => (
+                                  <option key={obj.id} value={obj.id}>
+                                    {obj.name}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                          )}
+                        </>
+                      )}
+
+                      {modifier.type === 'decimate' && (
+                        <>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Mode</label>
+                            <select
+                              value={modifier.params.decimateMode || 'ratio'}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    decimateMode: e.target.value as 'ratio' | 'count',
+                                  },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="ratio">Ratio</option>
+                              <option value="count">Triangle Count</option>
+                            </select>
+                          </div>
+                          {modifier.params.decimateMode === 'count' ? (
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">Triangle Count</label>
+                              <input
+                                type="number"
+                                value={modifier.params.decimateTriangleCount ?? 1000}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: { ...modifier.params, decimateTriangleCount: parseInt(e.target.value) || 0 },
+                                  })
+                                }
+                                step="1"
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              />
+                            </div>
+                          ) : (
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">Ratio</label>
+                              <input
+                                type="number"
+                                value={modifier.params.decimateRatio ?? 0.5}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: { ...modifier.params, decimateRatio: parseFloat(e.target.value) || 0 },
+                                  })
+                                }
+                                step="0.05"
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              />
+                            </div>
+                          )}
+                        </>
+                      )}
+
+                      {modifier.type === 'smooth' && (
+                        <>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Factor</label>
+                            <input
+                              type="number"
+                              value={modifier.params.smoothFactor ?? 0.5}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, smoothFactor: parseFloat(e.target.value) || 0 },
+                                })
+                              }
+                              step="0.05"
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Iterations</label>
+                            <input
+                              type="number"
+                              value={modifier.params.smoothIterations ?? 1}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, smoothIterations: parseInt(e.target.value) || 0 },
+                                })
+                              }
+                              step="1"
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            />
+                          </div>
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={modifier.params.smoothPreserveVolume ?? false}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, smoothPreserveVolume: e.target.checked },
+                                })
+                              }
+                              className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
+                            />
+                            <span className="text-[10px] text-[#A1A1AA]">Preserve Volume</span>
                           </label>
-                          <input
-                            type="number"
-                            value={modifier.params.displaceStrength || 1}
-                            onChange={(e) =>
-                              updateModifier(currentObjectId, modifier.id, {
-                                params: {
-                                  ...modifier.params,
-                                  displaceStrength: parseFloat(e.target.value),
-                                },
-                              })
-                            }
-                            step="0.1"
-                            className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
-                          />
-                        </div>
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={modifier.params.smoothPreserveBoundary ?? true}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, smoothPreserveBoundary: e.target.checked },
+                                })
+                              }
+                              className="w-4 h-4 rounded border-[#27272A] bg-[#0A0A0B] text-[#7C3AED] focus:ring-[#7C3AED] focus:ring-offset-0"
+                            />
+                            <span className="text-[10px] text-[#A1A1AA]">Pin Boundary</span>
+                          </label>
+                        </>
+                      )}
+
+                      {modifier.type === 'triangulate' && (
+                        <>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Quad Method</label>
+                            <select
+                              value={modifier.params.triangulateQuadMethod || 'beauty'}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    triangulateQuadMethod: e.target.value as 'beauty' | 'fixed' | 'alternate' | 'shortest',
+                                  },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="beauty">Beauty</option>
+                              <option value="fixed">Fixed</option>
+                              <option value="alternate">Fixed Alternate</option>
+                              <option value="shortest">Shortest Diagonal</option>
+                            </select>
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Minimum Vertices</label>
+                            <input
+                              type="number"
+                              value={modifier.params.triangulateMinVertices ?? 4}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, triangulateMinVertices: parseInt(e.target.value) || 4 },
+                                })
+                              }
+                              step="1"
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            />
+                          </div>
+                        </>
+                      )}
+
+                      {modifier.type === 'weld' && (
+                        <>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Distance</label>
+                            <input
+                              type="number"
+                              value={modifier.params.weldDistance ?? 0.001}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, weldDistance: parseFloat(e.target.value) || 0 },
+                                })
+                              }
+                              step="0.001"
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Mode</label>
+                            <select
+                              value={modifier.params.weldMode || 'all'}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    weldMode: e.target.value as 'all' | 'connected',
+                                  },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="all">All</option>
+                              <option value="connected">Connected</option>
+                            </select>
+                          </div>
+                        </>
+                      )}
+
+                      {modifier.type === 'shrinkwrap' && (
+                        <>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Target</label>
+                            <select
+                              value={modifier.params.shrinkwrapTarget || ''}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, shrinkwrapTarget: e.target.value },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="">None</option>
+                              {offsetObjectCandidates.map((obj) => (
+                                <option key={obj.id} value={obj.id}>
+                                  {obj.name}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Method</label>
+                            <select
+                              value={modifier.params.shrinkwrapMethod || 'nearest'}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    shrinkwrapMethod: e.target.value as 'nearest' | 'project' | 'nearestVertex',
+                                  },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="nearest">Nearest Surface Point</option>
+                              <option value="project">Project</option>
+                              <option value="nearestVertex">Nearest Vertex</option>
+                            </select>
+                          </div>
+                          {modifier.params.shrinkwrapMethod === 'project' && (
+                            <div>
+                              <label className="text-[10px] text-[#A1A1AA] block mb-1">Direction</label>
+                              <select
+                                value={modifier.params.shrinkwrapAxis || 'normal'}
+                                onChange={(e) =>
+                                  updateModifier(currentObjectId, modifier.id, {
+                                    params: {
+                                      ...modifier.params,
+                                      shrinkwrapAxis: e.target.value as 'normal' | 'x' | 'y' | 'z',
+                                    },
+                                  })
+                                }
+                                className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                              >
+                                <option value="normal">Normal</option>
+                                <option value="x">X Axis</option>
+                                <option value="y">Y Axis</option>
+                                <option value="z">Z Axis</option>
+                              </select>
+                            </div>
+                          )}
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Offset</label>
+                            <input
+                              type="number"
+                              value={modifier.params.shrinkwrapOffset ?? 0}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, shrinkwrapOffset: parseFloat(e.target.value) || 0 },
+                                })
+                              }
+                              step="0.01"
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            />
+                          </div>
+                        </>
+                      )}
+
+                      {modifier.type === 'lattice' && (
+                        <>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Lattice</label>
+                            <select
+                              value={modifier.params.latticeObject || ''}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, latticeObject: e.target.value },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="">None</option>
+                              {latticeObjects.map((obj) => (
+                                <option key={obj.id} value={obj.id}>
+                                  {obj.name}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">Interpolation</label>
+                            <select
+                              value={modifier.params.latticeInterpolation || 'linear'}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: {
+                                    ...modifier.params,
+                                    latticeInterpolation: e.target.value as 'linear' | 'bspline',
+                                  },
+                                })
+                              }
+                              className="w-full px-2 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                            >
+                              <option value="linear">Trilinear</option>
+                              <option value="bspline">B-Spline</option>
+                            </select>
+                          </div>
+                          <div>
+                            <label className="text-[10px] text-[#A1A1AA] block mb-1">
+                              Strength: {(modifier.params.latticeStrength ?? 1).toFixed(2)}
+                            </label>
+                            <input
+                              type="range"
+                              min="0"
+                              max="1"
+                              step="0.01"
+                              value={modifier.params.latticeStrength ?? 1}
+                              onChange={(e) =>
+                                updateModifier(currentObjectId, modifier.id, {
+                                  params: { ...modifier.params, latticeStrength: parseFloat(e.target.value) },
+                                })
+                              }
+                              className="w-full h-1 bg-[#27272A] rounded-lg appearance-none cursor-pointer"
+                            />
+                          </div>
+                        </>
                       )}
                     </div>
                   )}
@@ -446,6 +1339,29 @@ export function ModifierPanel() {
         )}
       </div>
 
+      {/* Stack Actions */}
+      {modifiers.length > 0 && (
+        <div className="p-2 border-t border-[#27272A] flex gap-2">
+          <button
+            onClick={() => runCommand(() => new ApplyAllModifiersCommand(currentObjectId))}
+            className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs text-[#FAFAFA] bg-[#27272A] hover:bg-[#3F3F46] rounded transition-colors"
+            title="Bake all enabled modifiers into the mesh"
+          >
+            <Check className="w-3 h-3" />
+            Apply All
+          </button>
+          <button
+            onClick={() => runCommand(() => new CopyModifierStackCommand(currentObjectId, selectedIds))}
+            disabled={selectedIds.length < 2}
+            className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs text-[#FAFAFA] bg-[#27272A] hover:bg-[#3F3F46] rounded transition-colors disabled:opacity-30"
+            title="Replace the modifiers of the other selected objects with this stack"
+          >
+            <Files className="w-3 h-3" />
+            Copy to Selected
+          </button>
+        </div>
+      )}
+
       {/* Footer Help */}
       {modifiers.length > 0 && (
         <div className="p-3 border-t border-[#27272A] text-xs text-[#71717A]">
@@ -456,3 +1372,34 @@ export function ModifierPanel() {
     </div>
   );
 }
+
+interface VectorParamInputProps {
+  label: string;
+  value: [number, number, number];
+  onChange: (value: [number, number, number]) => void;
+}
+
+function VectorParamInput({ label, value, onChange }: VectorParamInputProps) {
+  return (
+    <div>
+      <label className="text-[10px] text-[#A1A1AA] block mb-1">{label}</label>
+      <div className="grid grid-cols-3 gap-1">
+        {(['X', 'Y', 'Z'] as const).map((axis, i) => (
+          <input
+            key={axis}
+            type="number"
+            aria-label={`${label} ${axis}`}
+            value={value[i]}
+            onChange={(e) => {
+              const next: [number, number, number] = [...value];
+              next[i] = parseFloat(e.target.value) || 0;
+              onChange(next);
+            }}
+            step="0.1"
+            className="w-full px-1.5 py-1 text-xs bg-[#0A0A0B] border border-[#27272A] rounded text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
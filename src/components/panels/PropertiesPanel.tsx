@@ -9,6 +9,10 @@ import { useObjectsStore } from '../../stores/objectsStore';
 import { useCommandStore } from '../../stores/commandStore';
 import { UpdateObjectCommand } from '../../lib/commands/ObjectCommands';
 import { LightPropertiesPanel } from './LightPropertiesPanel';
+import { CameraPropertiesPanel } from './CameraPropertiesPanel';
+import { LatticePropertiesPanel } from './LatticePropertiesPanel';
+import { CustomPropertiesPanel } from './CustomPropertiesPanel';
+import { DriversPanel } from './DriversPanel';
 
 interface Vector3InputProps {
   label: string;
@@ -224,6 +228,18 @@ export function PropertiesPanel() {
 
         {/* Light Properties (if object is a light) */}
         <LightPropertiesPanel />
+
+        {/* Camera Properties (if object is a camera) */}
+        <CameraPropertiesPanel />
+
+        {/* Lattice Properties (if object is a lattice) */}
+        <LatticePropertiesPanel />
+
+        {/* Custom Properties */}
+        <CustomPropertiesPanel />
+
+        {/* Drivers */}
+        <DriversPanel />
       </div>
     </div>
   );
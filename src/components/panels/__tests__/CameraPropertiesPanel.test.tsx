@@ -0,0 +1,81 @@
+/**
+ * Camera Properties Panel Component Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CameraPropertiesPanel } from '../CameraPropertiesPanel';
+import { DEFAULT_CAMERA_PROPS, useObjectsStore } from '../../../stores/objectsStore';
+import { useCommandStore } from '../../../stores/commandStore';
+
+describe('CameraPropertiesPanel', () => {
+  beforeEach(() => {
+    // Reset stores
+    useObjectsStore.setState({
+      objects: new Map(),
+      selectedIds: [],
+      transformMode: 'translate',
+    });
+
+    useCommandStore.getState().clearHistory();
+  });
+
+  function selectCamera() {
+    const camera = useObjectsStore.getState().createPrimitive('camera');
+    useObjectsStore.setState({ selectedIds: [camera.id] });
+    return camera;
+  }
+
+  it('should render nothing when selected object is not a camera', () => {
+    const box = useObjectsStore.getState().createPrimitive('box');
+    useObjectsStore.setState({ selectedIds: [box.id] });
+
+    const { container } = render(<CameraPropertiesPanel />);
+    expect(container.firstChild).toBeNull();
+  });
+
+  it('should show the lens of a perspective camera', () => {
+    selectCamera();
+
+    render(<CameraPropertiesPanel />);
+
+    expect(screen.getByText('Camera Properties')).toBeTruthy();
+    expect((screen.getByLabelText('Field of View (degrees)') as HTMLInputElement).value).toBe(String(DEFAULT_CAMERA_PROPS.fov));
+    expect(screen.queryByLabelText('Orthographic Size')).toBeNull();
+  });
+
+  it('should update the lens through an undoable command', () => {
+    const camera = selectCamera();
+
+    render(<CameraPropertiesPanel />);
+    fireEvent.change(screen.getByLabelText('Field of View (degrees)'), { target: { value: '35' } });
+
+    expect(useObjectsStore.getState().getObject(camera.id)!.cameraProps!.fov).toBe(35);
+
+    useCommandStore.getState().undo();
+    expect(useObjectsStore.getState().getObject(camera.id)!.cameraProps!.fov).toBe(DEFAULT_CAMERA_PROPS.fov);
+  });
+
+  it('should switch to orthographic and edit its size', () => {
+    const camera = selectCamera();
+
+    render(<CameraPropertiesPanel />);
+    fireEvent.change(screen.getByLabelText('Projection'), { target: { value: 'orthographic' } });
+    fireEvent.change(screen.getByLabelText('Orthographic Size'), { target: { value: '2.5' } });
+
+    expect(useObjectsStore.getState().getObject(camera.id)!.cameraProps).toMatchObject({
+      projection: 'orthographic',
+      orthographicSize: 2.5,
+    });
+  });
+
+  it('should keep the far clip plane beyond the near one', () => {
+    const camera = selectCamera();
+
+    render(<CameraPropertiesPanel />);
+    fireEvent.change(screen.getByLabelText('Clip End'), { target: { value: '0.01' } });
+
+    const { near, far } = useObjectsStore.getState().getObject(camera.id)!.cameraProps!;
+    expect(far).toBeGreaterThan(near);
+  });
+});
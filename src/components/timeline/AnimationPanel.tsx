@@ -6,13 +6,15 @@
  */
 
 import React, { useState } from 'react';
-import { Film, Trash2, Plus, ChevronDown, ChevronRight, Settings } from 'lucide-react';
+import { Film, Trash2, Plus, ChevronDown, ChevronRight, Settings, Shuffle } from 'lucide-react';
 import { useAnimationStore } from '../../stores/animationStore';
 import { useCommandStore } from '../../stores/commandStore';
 import { useContextMenuStore } from '../../stores/contextMenuStore';
 import { CreateAnimationCommand, DeleteAnimationCommand } from '../../lib/commands/AnimationCommands';
 import { ConfirmDialog, useConfirmDialog } from '../ConfirmDialog';
 import { AnimationSettingsDialog, useAnimationSettingsDialog } from './AnimationSettingsDialog';
+import { RetargetDialog } from './RetargetDialog';
+import { useRetargetDialog } from '../../hooks/useRetargetDialog';
 
 export function AnimationPanel() {
   const {
@@ -26,6 +28,7 @@ export function AnimationPanel() {
   const { executeCommand } = useCommandStore();
   const { dialogProps, showConfirm } = useConfirmDialog();
   const { dialogProps: settingsDialogProps, openSettings } = useAnimationSettingsDialog();
+  const { dialogProps: retargetDialogProps, openRetarget } = useRetargetDialog();
   const showContextMenu = useContextMenuStore((state) => state.showContextMenu);
 
   const [isCollapsed, setIsCollapsed] = useState(false);
@@ -174,13 +177,22 @@ export function AnimationPanel() {
         <div className="border-t border-[#27272A] p-3 overflow-y-auto">
           <div className="flex items-center justify-between mb-2">
             <h4 className="text-xs font-medium text-[#FAFAFA]">Active Animation</h4>
-            <button
-              onClick={() => openSettings(activeAnimation)}
-              className="p-1.5 rounded hover:bg-[#27272A] transition-colors"
-              title="Animation Settings"
-            >
-              <Settings className="w-4 h-4 text-[#7C3AED]" />
-            </button>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => openRetarget(activeAnimation)}
+                className="p-1.5 rounded hover:bg-[#27272A] transition-colors"
+                title="Retarget to Another Armature"
+              >
+                <Shuffle className="w-4 h-4 text-[#7C3AED]" />
+              </button>
+              <button
+                onClick={() => openSettings(activeAnimation)}
+                className="p-1.5 rounded hover:bg-[#27272A] transition-colors"
+                title="Animation Settings"
+              >
+                <Settings className="w-4 h-4 text-[#7C3AED]" />
+              </button>
+            </div>
           </div>
 
           {/* Quick Stats */}
@@ -195,6 +207,7 @@ export function AnimationPanel() {
 
     <ConfirmDialog {...dialogProps} />
     <AnimationSettingsDialog {...settingsDialogProps} />
+    <RetargetDialog {...retargetDialogProps} />
     </>
   );
 }
@@ -0,0 +1,316 @@
+/**
+ * F-Modifier Panel Component
+ *
+ * Stack of procedural modifiers on one animation track, shown in the graph
+ * editor: add, reorder, mute and remove modifiers and edit their settings.
+ */
+
+import React, { useEffect } from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, Plus, Trash2 } from 'lucide-react';
+import {
+  AnimationTrack,
+  CycleMode,
+  FModifier,
+  FModifierType,
+  useAnimationStore,
+} from '../../stores/animationStore';
+import { useCommandStore } from '../../stores/commandStore';
+import { UpdateTrackCommand } from '../../lib/commands/AnimationCommands';
+import { FMODIFIER_LABELS, createFModifier } from '../../lib/animation/FModifiers';
+import { getAnimationEngine } from '../../lib/animation/AnimationEngine';
+
+const CYCLE_MODES: Array<{ value: CycleMode; label: string }> = [
+  { value: 'none', label: 'No Cycles' },
+  { value: 'repeat', label: 'Repeat' },
+  { value: 'repeat-offset', label: 'Repeat with Offset' },
+  { value: 'mirror', label: 'Repeat Mirrored' },
+];
+
+const inputClass = 'w-16 bg-[#0A0A0B] border border-[#27272A] rounded px-1 py-0.5 text-[#FAFAFA] outline-none focus:border-[#7C3AED]';
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  step?: number;
+  optional?: boolean;      // Blank means unset
+  onChange: (value: number | undefined) => void;
+}
+
+function NumberField({ label, value, step = 0.1, optional, onChange }: NumberFieldProps) {
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-[#A1A1AA]">{label}</span>
+      <input
+        type="number"
+        value={value === undefined ? '' : Number(value.toFixed(4))}
+        step={step}
+        placeholder={optional ? 'None' : undefined}
+        onChange={(e) => {
+          const parsed = parseFloat(e.target.value);
+          if (Number.isFinite(parsed)) onChange(parsed);
+          else if (optional && e.target.value === '') onChange(undefined);
+        }}
+        className={inputClass}
+        aria-label={label}
+      />
+    </label>
+  );
+}
+
+interface FModifierPanelProps {
+  animationId: string;
+  track: AnimationTrack;
+}
+
+export function FModifierPanel({ animationId, track }: FModifierPanelProps) {
+  const { executeCommand } = useCommandStore();
+  const modifiers = track.modifiers || [];
+
+  // Show the modified curve in the viewport
+  useEffect(() => {
+    const { animations, currentTime } = useAnimationStore.getState();
+    const animation = animations.get(animationId);
+    if (animation) {
+      getAnimationEngine().seekTo(animation, currentTime);
+    }
+  }, [animationId, track.modifiers]);
+
+  const edit = (description: string, updated: FModifier[]) => {
+    executeCommand(new UpdateTrackCommand(
+      animationId,
+      track.id,
+      { modifiers: track.modifiers },
+      { modifiers: updated.length > 0 ? updated : undefined },
+      description
+    ));
+  };
+
+  const update = <T extends FModifier>(modifier: T, changes: Partial<T>) => {
+    edit(`Edit ${FMODIFIER_LABELS[modifier.type]} modifier`,
+      modifiers.map(m => (m.id === modifier.id ? { ...m, ...changes } as FModifier : m)));
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= modifiers.length) return;
+    const reordered = [...modifiers];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    edit('Reorder modifiers', reordered);
+  };
+
+  const renderSettings = (modifier: FModifier): React.ReactNode => {
+    switch (modifier.type) {
+      case 'cycles':
+        return (['before', 'after'] as const).map(side => {
+          const countKey = side === 'before' ? 'beforeCount' : 'afterCount';
+          return (
+            <div key={side} className="space-y-1">
+              <label className="flex items-center justify-between gap-2">
+                <span className="text-[#A1A1AA]">{side === 'before' ? 'Before' : 'After'}</span>
+                <select
+                  value={modifier[side]}
+                  onChange={(e) => update(modifier, { [side]: e.target.value as CycleMode })}
+                  className="w-28 bg-[#0A0A0B] border border-[#27272A] rounded px-1 py-0.5 text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                  aria-label={`Cycles ${side}`}
+                >
+                  {CYCLE_MODES.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+              <NumberField
+                label="Count (0 = ∞)"
+                value={modifier[countKey]}
+                step={1}
+                onChange={(value) => update(modifier, { [countKey]: Math.max(0, Math.round(value ?? 0)) })}
+              />
+            </div>
+          );
+        });
+
+      case 'noise':
+        return (
+          <>
+            <NumberField label="Amplitude" value={modifier.amplitude} onChange={(value) => update(modifier, { amplitude: value ?? 0 })} />
+            <NumberField label="Frequency" value={modifier.frequency} onChange={(value) => update(modifier, { frequency: Math.max(0, value ?? 0) })} />
+            <NumberField label="Seed" value={modifier.seed} step={1} onChange={(value) => update(modifier, { seed: Math.round(value ?? 0) })} />
+          </>
+        );
+
+      case 'generator':
+        return (
+          <>
+            {modifier.coefficients.map((coefficient, power) => (
+              <NumberField
+                key={power}
+                label={power === 0 ? 'Constant' : power === 1 ? '× t' : `× t^${power}`}
+                value={coefficient}
+                onChange={(value) => update(modifier, {
+                  coefficients: modifier.coefficients.map((c, i) => (i === power ? value ?? 0 : c)),
+                })}
+              />
+            ))}
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => update(modifier, { coefficients: [...modifier.coefficients, 0] })}
+                className="px-2 py-0.5 rounded bg-[#27272A] text-[#FAFAFA] hover:bg-[#3F3F46]"
+              >
+                Add Term
+              </button>
+              <button
+                onClick={() => update(modifier, { coefficients: modifier.coefficients.slice(0, -1) })}
+                disabled={modifier.coefficients.length <= 1}
+                className="px-2 py-0.5 rounded bg-[#27272A] text-[#FAFAFA] hover:bg-[#3F3F46] disabled:opacity-50"
+              >
+                Remove Term
+              </button>
+            </div>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={modifier.additive}
+                onChange={(e) => update(modifier, { additive: e.target.checked })}
+                className="w-3 h-3 accent-[#7C3AED]"
+              />
+              <span className="text-[#A1A1AA]">Additive</span>
+            </label>
+          </>
+        );
+
+      case 'envelope':
+        return (
+          <>
+            <NumberField label="Reference Min" value={modifier.min} onChange={(value) => update(modifier, { min: value ?? 0 })} />
+            <NumberField label="Reference Max" value={modifier.max} onChange={(value) => update(modifier, { max: value ?? 0 })} />
+            {modifier.points.map((point, index) => (
+              <div key={index} className="flex items-center gap-1">
+                {(['time', 'min', 'max'] as const).map(field => (
+                  <input
+                    key={field}
+                    type="number"
+                    value={Number(point[field].toFixed(4))}
+                    step={0.1}
+                    onChange={(e) => {
+                      const parsed = parseFloat(e.target.value);
+                      if (!Number.isFinite(parsed)) return;
+                      update(modifier, {
+                        points: modifier.points.map((p, i) => (i === index ? { ...p, [field]: parsed } : p)),
+                      });
+                    }}
+                    className="w-12 bg-[#0A0A0B] border border-[#27272A] rounded px-1 py-0.5 text-[#FAFAFA] outline-none focus:border-[#7C3AED]"
+                    aria-label={`Envelope point ${index + 1} ${field}`}
+                    title={field === 'time' ? 'Time' : field === 'min' ? 'Min' : 'Max'}
+                  />
+                ))}
+                <button
+                  onClick={() => update(modifier, { points: modifier.points.filter((_, i) => i !== index) })}
+                  className="p-0.5 rounded hover:bg-[#EF4444]/20 transition-colors"
+                  title="Remove Point"
+                >
+                  <Trash2 className="w-3 h-3 text-[#EF4444]" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => update(modifier, {
+                points: [...modifier.points, { time: useAnimationStore.getState().currentTime, min: modifier.min, max: modifier.max }],
+              })}
+              className="px-2 py-0.5 rounded bg-[#27272A] text-[#FAFAFA] hover:bg-[#3F3F46]"
+            >
+              Add Point at Playhead
+            </button>
+          </>
+        );
+
+      case 'stepped':
+        return (
+          <>
+            <NumberField label="Step" value={modifier.step} step={0.01} onChange={(value) => update(modifier, { step: Math.max(0, value ?? 0) })} />
+            <NumberField label="Offset" value={modifier.offset} step={0.01} onChange={(value) => update(modifier, { offset: value ?? 0 })} />
+          </>
+        );
+
+      case 'limits':
+        return (
+          <>
+            <NumberField label="Min Time" value={modifier.minTime} optional onChange={(value) => update(modifier, { minTime: value })} />
+            <NumberField label="Max Time" value={modifier.maxTime} optional onChange={(value) => update(modifier, { maxTime: value })} />
+            <NumberField label="Min Value" value={modifier.minValue} optional onChange={(value) => update(modifier, { minValue: value })} />
+            <NumberField label="Max Value" value={modifier.maxValue} optional onChange={(value) => update(modifier, { maxValue: value })} />
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="border-t border-[#27272A] p-2 space-y-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-medium text-[#FAFAFA]">Modifiers</h3>
+        <div className="relative">
+          <select
+            value=""
+            onChange={(e) => {
+              const type = e.target.value as FModifierType;
+              if (type) edit(`Add ${FMODIFIER_LABELS[type]} modifier`, [...modifiers, createFModifier(type)]);
+            }}
+            className="w-20 pl-5 bg-[#0A0A0B] border border-[#27272A] rounded py-0.5 text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+            aria-label="Add modifier"
+          >
+            <option value="">Add</option>
+            {(Object.keys(FMODIFIER_LABELS) as FModifierType[]).map(type => (
+              <option key={type} value={type}>{FMODIFIER_LABELS[type]}</option>
+            ))}
+          </select>
+          <Plus className="w-3 h-3 text-[#A1A1AA] absolute left-1 top-1/2 -translate-y-1/2 pointer-events-none" />
+        </div>
+      </div>
+
+      {modifiers.length === 0 && (
+        <p className="text-[#71717A]">No modifiers on this track</p>
+      )}
+
+      {modifiers.map((modifier, index) => (
+        <div key={modifier.id} className="rounded border border-[#27272A] p-2 space-y-1" data-testid="fmodifier">
+          <div className="flex items-center gap-1">
+            <span className={`flex-1 font-medium ${modifier.enabled ? 'text-[#FAFAFA]' : 'text-[#71717A]'}`}>
+              {FMODIFIER_LABELS[modifier.type]}
+            </span>
+            <button
+              onClick={() => update(modifier, { enabled: !modifier.enabled })}
+              className="p-0.5 rounded hover:bg-[#27272A] transition-colors"
+              title={modifier.enabled ? 'Mute Modifier' : 'Unmute Modifier'}
+            >
+              {modifier.enabled
+                ? <Eye className="w-3 h-3 text-[#A1A1AA]" />
+                : <EyeOff className="w-3 h-3 text-[#71717A]" />}
+            </button>
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="p-0.5 rounded hover:bg-[#27272A] transition-colors disabled:opacity-30"
+              title="Move Up"
+            >
+              <ChevronUp className="w-3 h-3 text-[#A1A1AA]" />
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === modifiers.length - 1}
+              className="p-0.5 rounded hover:bg-[#27272A] transition-colors disabled:opacity-30"
+              title="Move Down"
+            >
+              <ChevronDown className="w-3 h-3 text-[#A1A1AA]" />
+            </button>
+            <button
+              onClick={() => edit(`Remove ${FMODIFIER_LABELS[modifier.type]} modifier`, modifiers.filter(m => m.id !== modifier.id))}
+              className="p-0.5 rounded hover:bg-[#EF4444]/20 transition-colors"
+              title="Remove Modifier"
+            >
+              <Trash2 className="w-3 h-3 text-[#EF4444]" />
+            </button>
+          </div>
+          {renderSettings(modifier)}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,529 @@
+/**
+ * Graph Editor Component
+ *
+ * Plots the active animation's channels as F-curves over time. Keys can be
+ * box selected, dragged in time and value, and scaled; tangent handles can be
+ * dragged or set to a handle type. The active track's modifiers are edited
+ * below the channel list.
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Maximize2 } from 'lucide-react';
+import { AnimationTrack, HandleType, useAnimationStore } from '../../stores/animationStore';
+import { useObjectsStore } from '../../stores/objectsStore';
+import { useCommandStore } from '../../stores/commandStore';
+import { UpdateAnimationCommand } from '../../lib/commands/AnimationCommands';
+import { evaluateTrack } from '../../lib/animation/FModifiers';
+import {
+  KeySelection,
+  getChannelCount,
+  getChannelValue,
+  moveHandle,
+  moveKeys,
+  scaleKeys,
+  setHandleType,
+} from '../../lib/animation/FCurve';
+import { FModifierPanel } from './FModifierPanel';
+
+interface GraphChannel {
+  id: string;                // `${trackId}:${channel}`
+  track: AnimationTrack;
+  channel: number;
+  label: string;
+  color: string;
+  min: number;               // Range of the channel's keys, for normalized display
+  max: number;
+}
+
+interface GraphView {
+  tMin: number;
+  tMax: number;
+  vMin: number;
+  vMax: number;
+}
+
+type GraphDrag =
+  | { kind: 'box'; x0: number; y0: number; x1: number; y1: number; additive: boolean }
+  | { kind: 'keys'; x0: number; y0: number; before: AnimationTrack[]; after?: AnimationTrack[] }
+  | { kind: 'handle'; selected: KeySelection; side: 'left' | 'right'; before: AnimationTrack[]; after?: AnimationTrack[] };
+
+const AXIS_COLORS = ['#EF4444', '#10B981', '#3B82F6', '#F59E0B'];
+const AXIS_NAMES = ['X', 'Y', 'Z', 'W'];
+const PADDING = 24;
+const CURVE_SAMPLES = 200;
+const HANDLE_TYPES: Array<{ value: HandleType; label: string }> = [
+  { value: 'auto-clamped', label: 'Auto Clamped' },
+  { value: 'aligned', label: 'Aligned' },
+  { value: 'free', label: 'Free' },
+  { value: 'vector', label: 'Vector' },
+];
+
+const selectionKey = (s: KeySelection) => `${s.trackId}:${s.keyframeId}:${s.channel}`;
+
+export function GraphEditor() {
+  const { animations, activeAnimationId, currentTime, updateAnimation } = useAnimationStore();
+  const { objects } = useObjectsStore();
+  const { executeCommand } = useCommandStore();
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState({ width: 600, height: 240 });
+  const [view, setView] = useState<GraphView>({ tMin: 0, tMax: 5, vMin: -1, vMax: 1 });
+  const [hiddenChannels, setHiddenChannels] = useState<Set<string>>(new Set());
+  const [normalized, setNormalized] = useState(false);
+  const [selection, setSelection] = useState<KeySelection[]>([]);
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<GraphDrag | null>(null);
+  const [timeScale, setTimeScale] = useState(1);
+  const [valueScale, setValueScale] = useState(1);
+
+  const animation = activeAnimationId ? animations.get(activeAnimationId) : undefined;
+  const activeTrack = animation?.tracks.find(track => track.id === activeTrackId);
+
+  const channels = useMemo<GraphChannel[]>(() => {
+    if (!animation) return [];
+    return animation.tracks.flatMap(track => {
+      const count = track.keyframes.length > 0 ? getChannelCount(track.keyframes[0].value) : 0;
+      const name = objects.get(track.objectId)?.name || 'Unknown';
+      return Array.from({ length: count }, (_, channel) => {
+        const values = track.keyframes.map(key => getChannelValue(key.value, channel));
+        return {
+          id: `${track.id}:${channel}`,
+          track,
+          channel,
+          label: count > 1 ? `${name} ${track.property} ${AXIS_NAMES[channel] || channel}` : `${name} ${track.property}`,
+          color: count > 1 ? AXIS_COLORS[channel % AXIS_COLORS.length] : track.color || '#7C3AED',
+          min: Math.min(...values),
+          max: Math.max(...values),
+        };
+      });
+    });
+  }, [animation, objects]);
+
+  const visibleChannels = channels.filter(channel => !hiddenChannels.has(channel.id));
+  const selectedKeys = new Set(selection.map(selectionKey));
+
+  // Normalized display maps each channel's key range to -1..1
+  const toDisplay = (channel: GraphChannel, value: number) => {
+    if (!normalized) return value;
+    const half = (channel.max - channel.min) / 2 || 1;
+    return (value - (channel.min + channel.max) / 2) / half;
+  };
+  const fromDisplay = (channel: GraphChannel, display: number) => {
+    if (!normalized) return display;
+    const half = (channel.max - channel.min) / 2 || 1;
+    return display * half + (channel.min + channel.max) / 2;
+  };
+  const displayScale = (channel: GraphChannel) => (normalized ? (channel.max - channel.min) / 2 || 1 : 1);
+
+  const plotWidth = size.width - PADDING * 2;
+  const plotHeight = size.height - PADDING * 2;
+  const toX = (time: number) => PADDING + ((time - view.tMin) / (view.tMax - view.tMin)) * plotWidth;
+  const toY = (value: number) => size.height - PADDING - ((value - view.vMin) / (view.vMax - view.vMin)) * plotHeight;
+  const secondsPerPixel = (view.tMax - view.tMin) / plotWidth;
+  const valuePerPixel = (view.vMax - view.vMin) / plotHeight;
+
+  const pointer = (e: { clientX: number; clientY: number }) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  // Track the plot size
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width > PADDING * 2 && height > PADDING * 2) setSize({ width, height });
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
+
+  const frameAll = () => {
+    let tMin = Infinity, tMax = -Infinity, vMin = Infinity, vMax = -Infinity;
+    for (const channel of visibleChannels) {
+      for (const key of channel.track.keyframes) {
+        const value = toDisplay(channel, getChannelValue(key.value, channel.channel));
+        tMin = Math.min(tMin, key.time);
+        tMax = Math.max(tMax, key.time);
+        vMin = Math.min(vMin, value);
+        vMax = Math.max(vMax, value);
+      }
+    }
+    if (tMin === Infinity) {
+      setView({ tMin: 0, tMax: animation?.duration || 5, vMin: -1, vMax: 1 });
+      return;
+    }
+
+    const tPad = Math.max((tMax - tMin) * 0.1, 0.5);
+    const vPad = Math.max((vMax - vMin) * 0.1, 0.5);
+    setView({ tMin: tMin - tPad, tMax: tMax + tPad, vMin: vMin - vPad, vMax: vMax + vPad });
+  };
+
+  // Frame the curves when switching animation or display mode. The effect reads
+  // frameAll through a ref so editing keys doesn't reframe the view.
+  const frameAllRef = useRef(frameAll);
+  frameAllRef.current = frameAll;
+  useEffect(() => {
+    frameAllRef.current();
+    setSelection([]);
+  }, [activeAnimationId, normalized]);
+
+  // Home frames all curves
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Home') {
+        e.preventDefault();
+        frameAll();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Dragging: box select, move keys, move a handle
+  useEffect(() => {
+    if (!drag || !animation) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const { x, y } = pointer(e);
+
+      if (drag.kind === 'box') {
+        setDrag({ ...drag, x1: x, y1: y });
+      } else if (drag.kind === 'keys') {
+        const timeOffset = (x - drag.x0) * secondsPerPixel;
+        const displayOffset = -(y - drag.y0) * valuePerPixel;
+        const after = moveKeys(drag.before, selection, timeOffset, (selected) => {
+          const channel = channels.find(c => c.id === `${selected.trackId}:${selected.channel}`);
+          return channel ? displayOffset * displayScale(channel) : 0;
+        });
+        updateAnimation(animation.id, { tracks: after });
+        setDrag({ ...drag, after });
+      } else {
+        const { selected, side } = drag;
+        const channel = channels.find(c => c.id === `${selected.trackId}:${selected.channel}`);
+        const track = drag.before.find(t => t.id === selected.trackId);
+        const index = track?.keyframes.findIndex(k => k.id === selected.keyframeId) ?? -1;
+        if (!channel || !track || index === -1) return;
+
+        const key = track.keyframes[index];
+        const time = view.tMin + (x - PADDING) * secondsPerPixel;
+        const value = fromDisplay(channel, view.vMin + (size.height - PADDING - y) * valuePerPixel);
+        const keyframes = moveHandle(track.keyframes, index, selected.channel, side, {
+          time: time - key.time,
+          value: value - getChannelValue(key.value, selected.channel),
+        });
+        const after = drag.before.map(t => (t.id === track.id ? { ...t, keyframes } : t));
+        updateAnimation(animation.id, { tracks: after });
+        setDrag({ ...drag, after });
+      }
+    };
+
+    const handleMouseUp = () => {
+      if (drag.kind === 'box') {
+        const [left, right] = [Math.min(drag.x0, drag.x1), Math.max(drag.x0, drag.x1)];
+        const [top, bottom] = [Math.min(drag.y0, drag.y1), Math.max(drag.y0, drag.y1)];
+        const boxed: KeySelection[] = [];
+        for (const channel of visibleChannels) {
+          for (const key of channel.track.keyframes) {
+            const x = toX(key.time);
+            const y = toY(toDisplay(channel, getChannelValue(key.value, channel.channel)));
+            if (x >= left && x <= right && y >= top && y <= bottom) {
+              boxed.push({ trackId: channel.track.id, keyframeId: key.id, channel: channel.channel });
+            }
+          }
+        }
+        if (drag.additive) {
+          setSelection([...selection, ...boxed.filter(s => !selectedKeys.has(selectionKey(s)))]);
+        } else {
+          setSelection(boxed);
+        }
+      } else if (drag.after) {
+        executeCommand(new UpdateAnimationCommand(animation.id, { tracks: drag.before }, { tracks: drag.after }));
+      }
+      setDrag(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  });
+
+  const applyToTracks = (change: (tracks: AnimationTrack[]) => AnimationTrack[]) => {
+    if (!animation || selection.length === 0) return;
+    executeCommand(new UpdateAnimationCommand(animation.id, { tracks: animation.tracks }, { tracks: change(animation.tracks) }));
+  };
+
+  const handleHandleType = (type: HandleType) => {
+    applyToTracks(tracks => selection.reduce((current, selected) => current.map(track => {
+      if (track.id !== selected.trackId) return track;
+      const index = track.keyframes.findIndex(k => k.id === selected.keyframeId);
+      return index === -1 ? track : { ...track, keyframes: setHandleType(track.keyframes, index, selected.channel, type) };
+    }), tracks));
+  };
+
+  const handleScale = () => {
+    if (!Number.isFinite(timeScale) || !Number.isFinite(valueScale)) return;
+    applyToTracks(tracks => scaleKeys(tracks, selection, timeScale, valueScale));
+  };
+
+  const handleWheel = (e: React.WheelEvent<SVGSVGElement>) => {
+    const { x, y } = pointer(e);
+    const factor = e.deltaY > 0 ? 1.1 : 1 / 1.1;
+    const time = view.tMin + (x - PADDING) * secondsPerPixel;
+    const value = view.vMin + (size.height - PADDING - y) * valuePerPixel;
+    setView({
+      tMin: time - (time - view.tMin) * factor,
+      tMax: time + (view.tMax - time) * factor,
+      vMin: value - (value - view.vMin) * factor,
+      vMax: value + (view.vMax - value) * factor,
+    });
+  };
+
+  const handleKeyMouseDown = (e: React.MouseEvent, selected: KeySelection) => {
+    e.stopPropagation();
+    if (!animation) return;
+
+    const isSelected = selectedKeys.has(selectionKey(selected));
+    setActiveTrackId(selected.trackId);
+    if (e.shiftKey) {
+      setSelection(isSelected ? selection.filter(s => selectionKey(s) !== selectionKey(selected)) : [...selection, selected]);
+      return;
+    }
+    if (!isSelected) setSelection([selected]);
+
+    const { x, y } = pointer(e);
+    setDrag({ kind: 'keys', x0: x, y0: y, before: animation.tracks });
+  };
+
+  if (!animation) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <p className="text-sm text-[#71717A]">Create an animation to begin</p>
+      </div>
+    );
+  }
+
+  // Seconds between grid lines, a power of ten of the visible span
+  const gridStep = (span: number) => Math.pow(10, Math.floor(Math.log10(span / 2)));
+  const tStep = gridStep(view.tMax - view.tMin);
+  const vStep = gridStep(view.vMax - view.vMin);
+  const range = (min: number, max: number, step: number) => {
+    const values: number[] = [];
+    for (let v = Math.ceil(min / step) * step; v <= max && values.length < 200; v += step) values.push(v);
+    return values;
+  };
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      {/* Channel List */}
+      <div className="w-48 border-r border-[#27272A] flex flex-col">
+        <div className="p-2 border-b border-[#27272A]">
+          <h3 className="text-xs font-medium text-[#FAFAFA]">Channels</h3>
+        </div>
+        <div className="flex-1 overflow-y-auto min-h-0">
+          {channels.length === 0 ? (
+            <div className="p-4 text-center">
+              <p className="text-xs text-[#A1A1AA]">No curves</p>
+            </div>
+          ) : (
+            channels.map(channel => (
+              <label key={channel.id} className="flex items-center gap-2 px-2 py-1 text-xs cursor-pointer hover:bg-[#27272A]/30">
+                <input
+                  type="checkbox"
+                  checked={!hiddenChannels.has(channel.id)}
+                  onChange={() => {
+                    const hidden = new Set(hiddenChannels);
+                    if (hidden.has(channel.id)) hidden.delete(channel.id);
+                    else hidden.add(channel.id);
+                    setHiddenChannels(hidden);
+                  }}
+                  className="w-3 h-3 accent-[#7C3AED]"
+                />
+                <div className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: channel.color }} />
+                <span
+                  className={`truncate ${channel.track.id === activeTrackId ? 'text-[#7C3AED]' : 'text-[#FAFAFA]'}`}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setActiveTrackId(channel.track.id);
+                  }}
+                >
+                  {channel.label}
+                </span>
+              </label>
+            ))
+          )}
+          {activeTrack && <FModifierPanel animationId={animation.id} track={activeTrack} />}
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col overflow-hidden">
+        {/* Toolbar */}
+        <div className="h-8 px-2 border-b border-[#27272A] flex items-center gap-2 text-xs">
+          <select
+            value=""
+            onChange={(e) => e.target.value && handleHandleType(e.target.value as HandleType)}
+            disabled={selection.length === 0}
+            className="bg-[#0A0A0B] border border-[#27272A] rounded px-1 py-0.5 text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED] disabled:opacity-50"
+            aria-label="Handle type"
+          >
+            <option value="">Handle Type…</option>
+            {HANDLE_TYPES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+
+          <span className="text-[#A1A1AA]">Scale</span>
+          <input
+            type="number"
+            value={timeScale}
+            step={0.1}
+            onChange={(e) => setTimeScale(parseFloat(e.target.value))}
+            className="w-14 bg-[#0A0A0B] border border-[#27272A] rounded px-1 py-0.5 text-[#FAFAFA] outline-none focus:border-[#7C3AED]"
+            aria-label="Time scale"
+            title="Time scale"
+          />
+          <input
+            type="number"
+            value={valueScale}
+            step={0.1}
+            onChange={(e) => setValueScale(parseFloat(e.target.value))}
+            className="w-14 bg-[#0A0A0B] border border-[#27272A] rounded px-1 py-0.5 text-[#FAFAFA] outline-none focus:border-[#7C3AED]"
+            aria-label="Value scale"
+            title="Value scale"
+          />
+          <button
+            onClick={handleScale}
+            disabled={selection.length === 0}
+            className="px-2 py-0.5 rounded bg-[#27272A] text-[#FAFAFA] hover:bg-[#3F3F46] disabled:opacity-50"
+          >
+            Scale Keys
+          </button>
+
+          <div className="flex-1" />
+
+          <label className="flex items-center gap-1 cursor-pointer text-[#A1A1AA]">
+            <input
+              type="checkbox"
+              checked={normalized}
+              onChange={(e) => setNormalized(e.target.checked)}
+              className="w-3 h-3 accent-[#7C3AED]"
+            />
+            Normalize
+          </label>
+          <button
+            onClick={frameAll}
+            className="p-1 rounded hover:bg-[#27272A] transition-colors"
+            title="Frame All (Home)"
+          >
+            <Maximize2 className="w-3 h-3 text-[#A1A1AA]" />
+          </button>
+        </div>
+
+        {/* Plot */}
+        <svg
+          ref={svgRef}
+          className="flex-1 w-full bg-[#0A0A0B] cursor-crosshair select-none"
+          onMouseDown={(e) => {
+            const { x, y } = pointer(e);
+            setDrag({ kind: 'box', x0: x, y0: y, x1: x, y1: y, additive: e.shiftKey });
+          }}
+          onWheel={handleWheel}
+          data-testid="graph-editor-plot"
+        >
+          {/* Grid */}
+          {range(view.tMin, view.tMax, tStep).map(t => (
+            <g key={`t${t}`}>
+              <line x1={toX(t)} x2={toX(t)} y1={0} y2={size.height} stroke="#27272A" />
+              <text x={toX(t) + 2} y={12} fill="#71717A" fontSize={10}>{Number(t.toFixed(3))}s</text>
+            </g>
+          ))}
+          {range(view.vMin, view.vMax, vStep).map(v => (
+            <g key={`v${v}`}>
+              <line x1={0} x2={size.width} y1={toY(v)} y2={toY(v)} stroke="#27272A" />
+              <text x={2} y={toY(v) - 2} fill="#71717A" fontSize={10}>{Number(v.toFixed(3))}</text>
+            </g>
+          ))}
+
+          {/* Curves */}
+          {visibleChannels.map(channel => {
+            const points = Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => {
+              const time = view.tMin + ((view.tMax - view.tMin) * i) / CURVE_SAMPLES;
+              const value = evaluateTrack(channel.track, time);
+              return `${toX(time)},${toY(toDisplay(channel, getChannelValue(value, channel.channel)))}`;
+            });
+            return <polyline key={channel.id} points={points.join(' ')} fill="none" stroke={channel.color} strokeWidth={1.5} />;
+          })}
+
+          {/* Keys and handles */}
+          {visibleChannels.map(channel => channel.track.keyframes.map(key => {
+            const selected: KeySelection = { trackId: channel.track.id, keyframeId: key.id, channel: channel.channel };
+            const isSelected = selectedKeys.has(selectionKey(selected));
+            const value = getChannelValue(key.value, channel.channel);
+            const x = toX(key.time);
+            const y = toY(toDisplay(channel, value));
+            const tangent = key.tangents?.[channel.channel];
+
+            return (
+              <g key={`${channel.id}:${key.id}`}>
+                {isSelected && tangent && (['left', 'right'] as const).map(side => {
+                  const hx = toX(key.time + tangent[side].time);
+                  const hy = toY(toDisplay(channel, value + tangent[side].value));
+                  return (
+                    <g key={side}>
+                      <line x1={x} y1={y} x2={hx} y2={hy} stroke="#A1A1AA" strokeWidth={1} />
+                      <rect
+                        x={hx - 3}
+                        y={hy - 3}
+                        width={6}
+                        height={6}
+                        fill="#A1A1AA"
+                        className="cursor-move"
+                        data-handle={side}
+                        onMouseDown={(e) => {
+                          e.stopPropagation();
+                          setDrag({ kind: 'handle', selected, side, before: animation.tracks });
+                        }}
+                      />
+                    </g>
+                  );
+                })}
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={4}
+                  fill={isSelected ? '#FAFAFA' : channel.color}
+                  stroke={isSelected ? channel.color : '#0A0A0B'}
+                  strokeWidth={1.5}
+                  className="cursor-pointer"
+                  data-keyframe={key.id}
+                  onMouseDown={(e) => handleKeyMouseDown(e, selected)}
+                />
+              </g>
+            );
+          }))}
+
+          {/* Playhead */}
+          <line x1={toX(currentTime)} x2={toX(currentTime)} y1={0} y2={size.height} stroke="#EF4444" strokeWidth={1} pointerEvents="none" />
+
+          {/* Box Selection */}
+          {drag?.kind === 'box' && (
+            <rect
+              x={Math.min(drag.x0, drag.x1)}
+              y={Math.min(drag.y0, drag.y1)}
+              width={Math.abs(drag.x1 - drag.x0)}
+              height={Math.abs(drag.y1 - drag.y0)}
+              fill="#7C3AED"
+              fillOpacity={0.2}
+              stroke="#7C3AED"
+              pointerEvents="none"
+            />
+          )}
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+/**
+ * NLA Editor Component
+ *
+ * Timeline view of the selected object's NLA layers: strips placed in scene
+ * time, layer influence and blend mode, and a strip inspector.
+ */
+
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Eye, EyeOff, Layers, Plus, Trash2 } from 'lucide-react';
+import { useAnimationStore } from '../../stores/animationStore';
+import { useObjectsStore } from '../../stores/objectsStore';
+import { useCommandStore } from '../../stores/commandStore';
+import { NLABlendMode, NLALayer, NLAStrip, getStripEnd, useNLAStore } from '../../stores/nlaStore';
+import { NLAEditCommand } from '../../lib/commands/NLACommands';
+import { getAnimationEngine } from '../../lib/animation/AnimationEngine';
+
+const STRIP_FIELDS: Array<{ key: keyof NLAStrip; label: string; step: number }> = [
+  { key: 'start', label: 'Start', step: 0.1 },
+  { key: 'actionStart', label: 'Clip Start', step: 0.1 },
+  { key: 'actionEnd', label: 'Clip End', step: 0.1 },
+  { key: 'scale', label: 'Scale', step: 0.1 },
+  { key: 'repeat', label: 'Repeat', step: 1 },
+  { key: 'blendIn', label: 'Blend In', step: 0.1 },
+  { key: 'blendOut', label: 'Blend Out', step: 0.1 },
+];
+
+export function NLAEditor() {
+  const { animations, activeAnimationId, currentTime, timelineZoom } = useAnimationStore();
+  const { objects, selectedIds } = useObjectsStore();
+  const { executeCommand } = useCommandStore();
+  const {
+    layers,
+    selectedStripId,
+    addLayer,
+    removeLayer,
+    updateLayer,
+    moveLayer,
+    addStrip,
+    removeStrip,
+    updateStrip,
+    selectStrip,
+  } = useNLAStore();
+
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [stripAnimationId, setStripAnimationId] = useState<string>('');
+  const [drag, setDrag] = useState<{ layerId: string; stripId: string; startX: number; origin: number; start: number } | null>(null);
+
+  // Bones are animated through their armature's layers
+  let owner = selectedIds.length > 0 ? objects.get(selectedIds[0]) : undefined;
+  while (owner?.type === 'bone' && owner.parentId) {
+    owner = objects.get(owner.parentId);
+  }
+
+  // Top of the stack first, as it's drawn
+  const ownerLayers = owner ? layers.filter(layer => layer.objectId === owner!.id).reverse() : [];
+  const allAnimations = Array.from(animations.values());
+  const selectedLayer = ownerLayers.find(layer => layer.id === selectedLayerId) || ownerLayers[0];
+  const selected = ownerLayers
+    .flatMap(layer => layer.strips.map(strip => ({ layer, strip })))
+    .find(({ strip }) => strip.id === selectedStripId);
+
+  // Show the blended result whenever the layers change, with or without an active animation
+  useEffect(() => {
+    const activeAnimation = activeAnimationId ? useAnimationStore.getState().animations.get(activeAnimationId) ?? null : null;
+    if (activeAnimation || layers.length > 0) {
+      getAnimationEngine().seekTo(activeAnimation, useAnimationStore.getState().currentTime);
+    }
+  }, [layers, activeAnimationId]);
+
+  // Drag strips along the timeline; the move is one undo step
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const start = Math.max(0, drag.origin + (e.clientX - drag.startX) / timelineZoom);
+      setDrag(current => (current ? { ...current, start } : current));
+    };
+
+    const handleMouseUp = () => {
+      if (drag.start !== drag.origin) {
+        executeCommand(new NLAEditCommand('Move NLA strip', () => updateStrip(drag.layerId, drag.stripId, { start: drag.start })));
+      }
+      setDrag(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [drag, timelineZoom, executeCommand, updateStrip]);
+
+  const edit = (description: string, change: () => void) => {
+    executeCommand(new NLAEditCommand(description, change));
+  };
+
+  const handleAddLayer = () => {
+    if (!owner) return;
+    const objectId = owner.id;
+    let layer: NLALayer | undefined;
+    edit('Add NLA layer', () => {
+      layer = addLayer(objectId);
+    });
+    if (layer) setSelectedLayerId(layer.id);
+  };
+
+  const handleAddStrip = () => {
+    const animation = animations.get(stripAnimationId) || allAnimations[0];
+    if (!selectedLayer || !animation) return;
+    edit(`Add strip "${animation.name}"`, () => {
+      addStrip(selectedLayer.id, animation.id, currentTime, animation.duration);
+    });
+  };
+
+  const handleStripField = (key: keyof NLAStrip, value: number) => {
+    if (!selected || !Number.isFinite(value)) return;
+    edit('Edit NLA strip', () => updateStrip(selected.layer.id, selected.strip.id, { [key]: value }));
+  };
+
+  if (!owner) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <p className="text-sm text-[#71717A]">Select an object or armature to edit its NLA layers</p>
+      </div>
+    );
+  }
+
+  const contentEnd = Math.max(10, ...ownerLayers.flatMap(layer => layer.strips.map(getStripEnd)));
+
+  return (
+    <div className="flex-1 flex overflow-hidden">
+      {/* Layer List */}
+      <div className="w-56 border-r border-[#27272A] flex flex-col">
+        <div className="h-8 px-2 border-b border-[#27272A] flex items-center justify-between gap-2">
+          <div className="flex items-center gap-1 min-w-0">
+            <Layers className="w-3 h-3 text-[#7C3AED] flex-shrink-0" />
+            <h3 className="text-xs font-medium text-[#FAFAFA] truncate">{owner.name}</h3>
+          </div>
+          <button
+            onClick={handleAddLayer}
+            className="p-1 rounded hover:bg-[#27272A] transition-colors"
+            title="Add Layer"
+          >
+            <Plus className="w-3 h-3 text-[#7C3AED]" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto min-h-0">
+          {ownerLayers.length === 0 ? (
+            <div className="p-4 text-center">
+              <p className="text-xs text-[#A1A1AA]">No layers</p>
+            </div>
+          ) : (
+            ownerLayers.map((layer) => (
+              <div
+                key={layer.id}
+                className={`h-16 px-2 py-1 border-b border-[#27272A]/50 space-y-1 ${
+                  layer.id === selectedLayer?.id ? 'bg-[#7C3AED]/10' : ''
+                }`}
+                onClick={() => setSelectedLayerId(layer.id)}
+              >
+                <div className="flex items-center gap-1">
+                  <span className={`text-xs truncate flex-1 ${layer.muted ? 'text-[#71717A]' : 'text-[#FAFAFA]'}`}>{layer.name}</span>
+                  <button
+                    onClick={() => edit(layer.muted ? 'Unmute NLA layer' : 'Mute NLA layer', () => updateLayer(layer.id, { muted: !layer.muted }))}
+                    className="p-0.5 rounded hover:bg-[#27272A]"
+                    title={layer.muted ? 'Unmute Layer' : 'Mute Layer'}
+                  >
+                    {layer.muted ? <EyeOff className="w-3 h-3 text-[#71717A]" /> : <Eye className="w-3 h-3 text-[#A1A1AA]" />}
+                  </button>
+                  <button
+                    onClick={() => edit('Move NLA layer up', () => moveLayer(layer.id, 'up'))}
+                    className="p-0.5 rounded hover:bg-[#27272A]"
+                    title="Move Layer Up"
+                  >
+                    <ChevronUp className="w-3 h-3 text-[#A1A1AA]" />
+                  </button>
+                  <button
+                    onClick={() => edit('Move NLA layer down', () => moveLayer(layer.id, 'down'))}
+                    className="p-0.5 rounded hover:bg-[#27272A]"
+                    title="Move Layer Down"
+                  >
+                    <ChevronDown className="w-3 h-3 text-[#A1A1AA]" />
+                  </button>
+                  <button
+                    onClick={() => edit('Delete NLA layer', () => removeLayer(layer.id))}
+                    className="p-0.5 rounded hover:bg-red-500/20"
+                    title="Delete Layer"
+                  >
+                    <Trash2 className="w-3 h-3 text-red-400" />
+                  </button>
+                </div>
+                <div className="flex items-center gap-1">
+                  <select
+                    value={layer.blendMode}
+                    onChange={(e) => edit('Change NLA blend mode', () => updateLayer(layer.id, { blendMode: e.target.value as NLABlendMode }))}
+                    className="flex-1 bg-[#0A0A0B] border border-[#27272A] rounded px-1 py-0.5 text-xs text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                    aria-label={`${layer.name} blend mode`}
+                  >
+                    <option value="replace">Replace</option>
+                    <option value="additive">Additive</option>
+                  </select>
+                  <input
+                    type="number"
+                    value={layer.influence}
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    onChange={(e) => {
+                      const influence = parseFloat(e.target.value);
+                      if (Number.isFinite(influence)) edit('Change NLA influence', () => updateLayer(layer.id, { influence }));
+                    }}
+                    className="w-14 bg-[#0A0A0B] border border-[#27272A] rounded px-1 py-0.5 text-xs text-[#FAFAFA] outline-none focus:border-[#7C3AED]"
+                    aria-label={`${layer.name} influence`}
+                    title="Influence"
+                  />
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Add Strip */}
+        {selectedLayer && allAnimations.length > 0 && (
+          <div className="p-2 border-t border-[#27272A] flex items-center gap-1">
+            <select
+              value={stripAnimationId || allAnimations[0].id}
+              onChange={(e) => setStripAnimationId(e.target.value)}
+              className="flex-1 min-w-0 bg-[#0A0A0B] border border-[#27272A] rounded px-1 py-0.5 text-xs text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+              aria-label="Strip animation"
+            >
+              {allAnimations.map(animation => (
+                <option key={animation.id} value={animation.id}>{animation.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddStrip}
+              className="px-2 py-0.5 bg-[#7C3AED] text-white text-xs rounded hover:bg-[#6D28D9] transition-colors"
+              title="Add a strip at the playhead"
+            >
+              + Strip
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Strips */}
+      <div className="flex-1 relative overflow-auto" onMouseDown={() => selectStrip(null)}>
+        <div className="relative" style={{ width: `${contentEnd * timelineZoom + 40}px` }}>
+          {/* Time Ruler */}
+          <div className="h-8 border-b border-[#27272A] relative bg-[#0A0A0B]">
+            {[...Array(Math.min(Math.ceil(contentEnd) + 1, 1000))].map((_, i) => (
+              <span
+                key={i}
+                className="absolute top-1 text-xs text-[#A1A1AA] font-mono"
+                style={{ left: `${i * timelineZoom}px` }}
+              >
+                {i}s
+              </span>
+            ))}
+          </div>
+
+          {ownerLayers.map((layer) => (
+            <div key={layer.id} className="h-16 border-b border-[#27272A]/50 relative">
+              {layer.strips.map((strip) => {
+                const animation = animations.get(strip.animationId);
+                const start = drag?.stripId === strip.id ? drag.start : strip.start;
+                const length = getStripEnd(strip) - strip.start;
+                const isSelected = strip.id === selectedStripId;
+                return (
+                  <div
+                    key={strip.id}
+                    data-nla-strip="true"
+                    onMouseDown={(e) => {
+                      e.stopPropagation();
+                      selectStrip(strip.id);
+                      setSelectedLayerId(layer.id);
+                      setDrag({ layerId: layer.id, stripId: strip.id, startX: e.clientX, origin: strip.start, start: strip.start });
+                    }}
+                    className={`absolute top-2 bottom-2 rounded border px-2 flex items-center overflow-hidden cursor-grab ${
+                      isSelected ? 'bg-[#7C3AED]/60 border-[#A855F7]' : 'bg-[#7C3AED]/30 border-[#7C3AED]'
+                    } ${strip.muted || layer.muted ? 'opacity-40' : ''}`}
+                    style={{ left: `${start * timelineZoom}px`, width: `${Math.max(length * timelineZoom, 4)}px` }}
+                    title={`${animation?.name || 'Missing animation'} • ${start.toFixed(2)}s - ${(start + length).toFixed(2)}s`}
+                  >
+                    {/* Blend ramps */}
+                    {strip.blendIn > 0 && (
+                      <div
+                        className="absolute inset-y-0 left-0 bg-gradient-to-r from-[#0A0A0B]/70 to-transparent pointer-events-none"
+                        style={{ width: `${strip.blendIn * timelineZoom}px` }}
+                      />
+                    )}
+                    {strip.blendOut > 0 && (
+                      <div
+                        className="absolute inset-y-0 right-0 bg-gradient-to-l from-[#0A0A0B]/70 to-transparent pointer-events-none"
+                        style={{ width: `${strip.blendOut * timelineZoom}px` }}
+                      />
+                    )}
+                    <span className="relative text-xs text-[#FAFAFA] truncate">{animation?.name || 'Missing animation'}</span>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+
+          {/* Playhead */}
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-[#EF4444] pointer-events-none z-10"
+            style={{ left: `${currentTime * timelineZoom}px` }}
+          />
+        </div>
+      </div>
+
+      {/* Strip Inspector */}
+      {selected && (
+        <div className="w-48 border-l border-[#27272A] p-3 space-y-2 overflow-y-auto text-xs">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-[#FAFAFA] truncate">
+              {animations.get(selected.strip.animationId)?.name || 'Strip'}
+            </h4>
+            <button
+              onClick={() => edit('Delete NLA strip', () => removeStrip(selected.layer.id, selected.strip.id))}
+              className="p-1 rounded hover:bg-[#EF4444]/20 transition-colors"
+              title="Delete Strip"
+            >
+              <Trash2 className="w-3 h-3 text-[#EF4444]" />
+            </button>
+          </div>
+
+          {STRIP_FIELDS.map(({ key, label, step }) => (
+            <label key={key} className="flex items-center justify-between gap-2">
+              <span className="text-[#A1A1AA]">{label}</span>
+              <input
+                type="number"
+                value={Number((selected.strip[key] as number).toFixed(3))}
+                step={step}
+                min={0}
+                onChange={(e) => handleStripField(key, parseFloat(e.target.value))}
+                className="w-20 bg-[#0A0A0B] border border-[#27272A] rounded px-2 py-0.5 text-[#FAFAFA] outline-none focus:border-[#7C3AED]"
+                aria-label={`Strip ${label.toLowerCase()}`}
+              />
+            </label>
+          ))}
+
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={selected.strip.muted}
+              onChange={(e) => edit('Mute NLA strip', () => updateStrip(selected.layer.id, selected.strip.id, { muted: e.target.checked }))}
+              className="w-3 h-3 accent-[#7C3AED]"
+            />
+            <span className="text-[#A1A1AA]">Muted</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,8 @@ import React, { useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { Play, Pause, Square, RotateCw, Settings, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
 import { useAnimationStore } from '../../stores/animationStore';
-import { getAnimationEngine } from '../../lib/animation/AnimationEngine';
+import { useNLAStore } from '../../stores/nlaStore';
+import { getAnimationEngine, getPlaybackDuration } from '../../lib/animation/AnimationEngine';
 
 export function PlaybackControls() {
   const {
@@ -31,14 +32,19 @@ export function PlaybackControls() {
     toggleLoop,
   } = useAnimationStore();
 
-  const activeAnimation = activeAnimationId ? animations.get(activeAnimationId) : null;
+  const layers = useNLAStore((state) => state.layers);
+
+  const activeAnimation = activeAnimationId ? animations.get(activeAnimationId) ?? null : null;
+  // NLA strips play without an active animation
+  const playbackDuration = getPlaybackDuration(activeAnimation, layers);
+  const canPlay = !!activeAnimation || playbackDuration > 0;
   const engine = getAnimationEngine();
   const [showRecordingWarning, setShowRecordingWarning] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
 
   // Handle play button
   const handlePlay = () => {
-    if (!activeAnimation) return;
+    if (!canPlay) return;
 
     // Show warning if recording mode is on (only when starting fresh, not resuming)
     if (autoKeyframe && !isPaused) {
@@ -50,7 +56,7 @@ export function PlaybackControls() {
   };
 
   const startPlayback = () => {
-    if (!activeAnimation) return;
+    if (!canPlay) return;
 
     play();
 
@@ -72,7 +78,7 @@ export function PlaybackControls() {
 
   // Handle resume button
   const handleResume = () => {
-    if (!activeAnimation) return;
+    if (!canPlay) return;
     startPlayback();
   };
 
@@ -83,7 +89,7 @@ export function PlaybackControls() {
     setCurrentTime(0);
 
     // Reset objects to initial state
-    if (activeAnimation) {
+    if (canPlay) {
       engine.seekTo(activeAnimation, 0);
     }
   };
@@ -109,16 +115,16 @@ export function PlaybackControls() {
     };
   }, []);
 
-  // Stop engine if playing but activeAnimation is null
+  // Stop engine if playing but there is nothing left to play
   useEffect(() => {
-    if (isPlaying && !activeAnimation) {
+    if (isPlaying && !canPlay) {
       handleStop();
     }
-  }, [activeAnimation, isPlaying]);
+  }, [canPlay, isPlaying]);
 
   // Restart playback when playback speed changes (while playing)
   useEffect(() => {
-    if (isPlaying && activeAnimation) {
+    if (isPlaying && canPlay) {
       engine.stop();
       engine.start(
         activeAnimation,
@@ -145,7 +151,7 @@ export function PlaybackControls() {
         ) : isPaused ? (
           <button
             onClick={handleResume}
-            disabled={!activeAnimation}
+            disabled={!canPlay}
             className="p-2 rounded hover:bg-[#27272A] transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
             title="Resume (Space)"
           >
@@ -154,7 +160,7 @@ export function PlaybackControls() {
         ) : (
           <button
             onClick={handlePlay}
-            disabled={!activeAnimation}
+            disabled={!canPlay}
             className="p-2 rounded hover:bg-[#27272A] transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
             title="Play (Space)"
           >
@@ -164,7 +170,7 @@ export function PlaybackControls() {
 
         <button
           onClick={handleStop}
-          disabled={!activeAnimation}
+          disabled={!canPlay}
           className="p-2 rounded hover:bg-[#27272A] transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
           title="Stop"
         >
@@ -178,7 +184,7 @@ export function PlaybackControls() {
       <div className="flex items-center gap-2">
         <span className="text-xs text-[#A1A1AA]">Time:</span>
         <span className="text-sm text-[#FAFAFA] font-mono min-w-[80px]">
-          {currentTime.toFixed(2)}s / {activeAnimation?.duration.toFixed(2) || '0.00'}s
+          {currentTime.toFixed(2)}s / {playbackDuration.toFixed(2)}s
         </span>
       </div>
 
@@ -0,0 +1,335 @@
+/**
+ * Retarget Dialog Component
+ *
+ * Retargets an animation onto another armature: pick the armatures, review
+ * the bone map (auto-matched by name, editable, savable as a preset) and
+ * create the retargeted animation.
+ */
+
+import { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Shuffle, X, Wand2, Save, Trash2 } from 'lucide-react';
+import { Animation, useAnimationStore } from '../../stores/animationStore';
+import { useObjectsStore } from '../../stores/objectsStore';
+import { useBoneStore } from '../../stores/boneStore';
+import { useCommandStore } from '../../stores/commandStore';
+import { useRetargetStore } from '../../stores/retargetStore';
+import { useToastStore } from '../../stores/toastStore';
+import { CreateAnimationCommand } from '../../lib/commands/AnimationCommands';
+import {
+  BoneMap,
+  autoMatchBones,
+  boneMapFromNames,
+  boneMapToNames,
+  getAnimatedArmatureIds,
+  retargetAnimation,
+} from '../../lib/animation/Retargeting';
+
+interface RetargetDialogProps {
+  isOpen: boolean;
+  animation: Animation | null;
+  onClose: () => void;
+}
+
+const selectClass = 'w-full px-2 py-1.5 bg-[#0A0A0B] border border-[#27272A] rounded-lg text-sm text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]';
+
+export function RetargetDialog({ isOpen, animation, onClose }: RetargetDialogProps) {
+  if (!isOpen || !animation) return null;
+
+  // Keyed so the form starts over when a different animation is opened
+  return <RetargetForm key={animation.id} animation={animation} onClose={onClose} />;
+}
+
+function RetargetForm({ animation, onClose }: { animation: Animation; onClose: () => void }) {
+  const objects = useObjectsStore((state) => state.objects);
+  const frameRate = useAnimationStore((state) => state.frameRate);
+  const { presets, savePreset, deletePreset } = useRetargetStore();
+  const { executeCommand } = useCommandStore();
+  const toast = useToastStore();
+
+  const armatures = useMemo(
+    () => Array.from(objects.values()).filter(o => o.type === 'armature'),
+    [objects]
+  );
+  const { getBonesByArmature } = useBoneStore.getState();
+
+  // Default to the armature the animation moves and another one to retarget onto
+  const [sourceArmatureId, setSourceArmatureId] = useState(
+    () => getAnimatedArmatureIds(animation)[0] || armatures[0]?.id || ''
+  );
+  const [targetArmatureId, setTargetArmatureId] = useState(
+    () => armatures.find(a => a.id !== sourceArmatureId)?.id || ''
+  );
+  const [boneMap, setBoneMap] = useState<BoneMap>(
+    () => autoMatchBones(getBonesByArmature(sourceArmatureId), getBonesByArmature(targetArmatureId))
+  );
+  const [presetName, setPresetName] = useState('');
+  const [name, setName] = useState(`${animation.name} (Retargeted)`);
+  const [matchRestPose, setMatchRestPose] = useState(true);
+  const [rootMotion, setRootMotion] = useState(true);
+  const [scaleRootMotion, setScaleRootMotion] = useState(true);
+
+  const sourceBones = getBonesByArmature(sourceArmatureId);
+  const targetBones = getBonesByArmature(targetArmatureId);
+
+  // Auto-match whenever the armature pair changes
+  const selectArmatures = (sourceId: string, targetId: string) => {
+    setSourceArmatureId(sourceId);
+    setTargetArmatureId(targetId);
+    setBoneMap(autoMatchBones(getBonesByArmature(sourceId), getBonesByArmature(targetId)));
+  };
+
+  const animatedBoneIds = new Set(animation.tracks.map(t => t.boneId).filter(Boolean));
+  const mappedCount = Object.keys(boneMap).length;
+  const canRetarget = sourceArmatureId && targetArmatureId && sourceArmatureId !== targetArmatureId && mappedCount > 0;
+
+  const setTarget = (sourceId: string, targetId: string) => {
+    const next = { ...boneMap };
+    if (targetId) next[sourceId] = targetId;
+    else delete next[sourceId];
+    setBoneMap(next);
+  };
+
+  const handleApplyPreset = (presetId: string) => {
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) return;
+    setBoneMap(boneMapFromNames(preset.boneMap, sourceBones, targetBones));
+    setPresetName(preset.name);
+  };
+
+  const handleSavePreset = () => {
+    const trimmed = presetName.trim();
+    if (!trimmed || mappedCount === 0) return;
+    savePreset(trimmed, boneMapToNames(boneMap, sourceBones, targetBones));
+    toast.success(`Saved retarget preset "${trimmed}"`);
+  };
+
+  const handleRetarget = () => {
+    if (!canRetarget) return;
+
+    try {
+      const result = retargetAnimation(animation, {
+        sourceArmatureId,
+        targetArmatureId,
+        boneMap,
+        matchRestPose,
+        rootMotion,
+        scaleRootMotion,
+        frameRate,
+        name: name.trim() || undefined,
+      });
+
+      const created = useAnimationStore.getState().createAnimation(result.name, result.duration);
+      executeCommand(new CreateAnimationCommand({ ...created, tracks: result.tracks, loop: result.loop }));
+      toast.success(`Retargeted ${result.tracks.length} tracks onto ${objects.get(targetArmatureId)?.name}`);
+      onClose();
+    } catch (error) {
+      toast.error(`Retargeting failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Dialog */}
+      <div
+        className="relative bg-[#18181B]/95 backdrop-blur-md border border-[#27272A] rounded-lg shadow-2xl p-6 max-w-lg w-full mx-4 max-h-[90vh] flex flex-col animate-in fade-in zoom-in duration-200"
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') onClose();
+        }}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-[#7C3AED]/20 rounded-lg">
+              <Shuffle className="w-5 h-5 text-[#7C3AED]" />
+            </div>
+            <h2 className="text-lg font-semibold text-[#FAFAFA]">Retarget Animation</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg hover:bg-[#27272A] transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-4 h-4 text-[#A1A1AA]" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="space-y-4 overflow-y-auto min-h-0">
+          {/* Armatures */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-[#A1A1AA] mb-2">Source Armature</label>
+              <select value={sourceArmatureId} onChange={(e) => selectArmatures(e.target.value, targetArmatureId)} className={selectClass} aria-label="Source armature">
+                <option value="">Select…</option>
+                {armatures.map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-[#A1A1AA] mb-2">Target Armature</label>
+              <select value={targetArmatureId} onChange={(e) => selectArmatures(sourceArmatureId, e.target.value)} className={selectClass} aria-label="Target armature">
+                <option value="">Select…</option>
+                {armatures.filter(a => a.id !== sourceArmatureId).map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Presets */}
+          <div>
+            <label className="block text-sm font-medium text-[#A1A1AA] mb-2">Bone Map Preset</label>
+            <div className="flex items-center gap-2">
+              <select
+                value={presets.find(p => p.name === presetName)?.id || ''}
+                onChange={(e) => handleApplyPreset(e.target.value)}
+                className={selectClass}
+                aria-label="Preset"
+              >
+                <option value="">{presets.length === 0 ? 'No presets' : 'Apply preset…'}</option>
+                {presets.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+              {presets.some(p => p.name === presetName) && (
+                <button
+                  onClick={() => {
+                    deletePreset(presets.find(p => p.name === presetName)!.id);
+                    setPresetName('');
+                  }}
+                  className="p-1.5 rounded-lg hover:bg-[#EF4444]/20 transition-colors"
+                  title="Delete preset"
+                >
+                  <Trash2 className="w-4 h-4 text-[#EF4444]" />
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-2 mt-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Preset name"
+                className="flex-1 min-w-0 px-2 py-1.5 bg-[#0A0A0B] border border-[#27272A] rounded-lg text-sm text-[#FAFAFA] placeholder-[#71717A] focus:outline-none focus:border-[#7C3AED]"
+              />
+              <button
+                onClick={handleSavePreset}
+                disabled={!presetName.trim() || mappedCount === 0}
+                className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-lg bg-[#27272A] text-[#FAFAFA] hover:bg-[#3F3F46] disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <Save className="w-3 h-3" />
+                Save Preset
+              </button>
+            </div>
+          </div>
+
+          {/* Bone map */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-[#A1A1AA]">
+                Bone Map <span className="text-xs text-[#71717A]">({mappedCount}/{sourceBones.length} mapped)</span>
+              </label>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setBoneMap(autoMatchBones(sourceBones, targetBones))}
+                  className="flex items-center gap-1 text-xs text-[#A1A1AA] hover:text-[#FAFAFA]"
+                  title="Match bones by name"
+                >
+                  <Wand2 className="w-3 h-3" />
+                  Auto Match
+                </button>
+                <button
+                  onClick={() => setBoneMap({})}
+                  className="text-xs text-[#A1A1AA] hover:text-[#FAFAFA]"
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
+            <div className="max-h-60 overflow-y-auto border border-[#27272A] rounded-lg divide-y divide-[#27272A]/50">
+              {sourceBones.length === 0 ? (
+                <p className="p-3 text-xs text-[#71717A] text-center">The source armature has no bones</p>
+              ) : (
+                sourceBones.map(bone => (
+                  <div key={bone.id} className="flex items-center gap-2 px-2 py-1">
+                    <span
+                      className={`flex-1 text-xs truncate ${animatedBoneIds.has(bone.id) ? 'text-[#FAFAFA]' : 'text-[#71717A]'}`}
+                      title={animatedBoneIds.has(bone.id) ? `${bone.name} (animated)` : bone.name}
+                    >
+                      {bone.name}
+                    </span>
+                    <select
+                      value={boneMap[bone.id] || ''}
+                      onChange={(e) => setTarget(bone.id, e.target.value)}
+                      className="w-40 px-1 py-0.5 bg-[#0A0A0B] border border-[#27272A] rounded text-xs text-[#FAFAFA] focus:outline-none focus:border-[#7C3AED]"
+                      aria-label={`Target for ${bone.name}`}
+                    >
+                      <option value="">—</option>
+                      {targetBones.map(target => (
+                        <option key={target.id} value={target.id}>{target.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          {/* Options */}
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={matchRestPose} onChange={(e) => setMatchRestPose(e.target.checked)} />
+              <span className="text-sm text-[#FAFAFA]">Match rest pose</span>
+              <span className="text-xs text-[#71717A]">Point bones like the source's</span>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={rootMotion} onChange={(e) => setRootMotion(e.target.checked)} />
+              <span className="text-sm text-[#FAFAFA]">Root motion</span>
+            </label>
+            <label className={`flex items-center gap-2 cursor-pointer ${rootMotion ? '' : 'opacity-40'}`}>
+              <input type="checkbox" checked={scaleRootMotion} disabled={!rootMotion} onChange={(e) => setScaleRootMotion(e.target.checked)} />
+              <span className="text-sm text-[#FAFAFA]">Scale root motion to skeleton height</span>
+            </label>
+          </div>
+
+          {/* Name */}
+          <div>
+            <label className="block text-sm font-medium text-[#A1A1AA] mb-2">New Animation Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 bg-[#0A0A0B] border border-[#27272A] rounded-lg text-[#FAFAFA] placeholder-[#71717A] focus:outline-none focus:border-[#7C3AED] focus:ring-1 focus:ring-[#7C3AED]/50 transition-colors"
+            />
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-[#A1A1AA] hover:text-[#FAFAFA] hover:bg-[#27272A] rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRetarget}
+            disabled={!canRetarget}
+            className="px-4 py-2 text-sm font-medium text-white bg-[#7C3AED] hover:bg-[#6D28D9] rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Retarget
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
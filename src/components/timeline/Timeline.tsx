@@ -10,14 +10,20 @@ import { Play, Plus, ChevronDown, ChevronUp, ChevronRight, TrendingUp, Trash2, X
 import { useAnimationStore } from '../../stores/animationStore';
 import { useObjectsStore } from '../../stores/objectsStore';
 import { useCommandStore } from '../../stores/commandStore';
+import { useNLAStore } from '../../stores/nlaStore';
 import { PlaybackControls } from './PlaybackControls';
 import { AnimationPanel } from './AnimationPanel';
 import { CurveEditor } from './CurveEditor';
+import { NLAEditor } from './NLAEditor';
+import { GraphEditor } from './GraphEditor';
 import { UpdateKeyframeCommand, RemoveTrackCommand, RemoveKeyframeCommand } from '../../lib/commands/AnimationCommands';
-import { getAnimationEngine } from '../../lib/animation/AnimationEngine';
+import { getAnimationEngine, getPlaybackDuration } from '../../lib/animation/AnimationEngine';
 import { useContextMenuStore } from '../../stores/contextMenuStore';
 import { ConfirmDialog, useConfirmDialog } from '../ConfirmDialog';
 
+const VIEW_LABELS = { keyframes: 'Keys', graph: 'Graph', nla: 'NLA' };
+const VIEW_TITLES = { keyframes: 'Keyframe tracks', graph: 'Graph editor: F-curves and handles', nla: 'NLA layers and strips' };
+
 export function Timeline() {
   const {
     animations,
@@ -35,7 +41,11 @@ export function Timeline() {
   const { dialogProps, showConfirm } = useConfirmDialog();
   const showContextMenu = useContextMenuStore((state) => state.showContextMenu);
 
-  const activeAnimation = activeAnimationId ? animations.get(activeAnimationId) : null;
+  const activeAnimation = activeAnimationId ? animations.get(activeAnimationId) ?? null : null;
+  const layers = useNLAStore((state) => state.layers);
+  // The playhead also runs over NLA strips, with or without an active animation
+  const playbackDuration = getPlaybackDuration(activeAnimation, layers);
+  const canSeek = !!activeAnimation || playbackDuration > 0;
 
   // Listen for select-all-keyframes event from context menu
   useEffect(() => {
@@ -61,6 +71,7 @@ export function Timeline() {
   const [selectedKeyframes, setSelectedKeyframes] = useState<Array<{ trackId: string; keyframeId: string; }>>([]);
   const [showCurveEditor, setShowCurveEditor] = useState(false);
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [view, setView] = useState<'keyframes' | 'graph' | 'nla'>('keyframes');
 
   // Rectangle selection state
   const [isRectSelecting, setIsRectSelecting] = useState(false);
@@ -72,11 +83,11 @@ export function Timeline() {
 
   // Apply animation state when animation changes or time changes
   useEffect(() => {
-    if (activeAnimation && !isDraggingScrubber) {
+    if (canSeek && !isDraggingScrubber) {
       const engine = getAnimationEngine();
       engine.seekTo(activeAnimation, currentTime);
     }
-  }, [activeAnimationId, currentTime, activeAnimation, isDraggingScrubber]);
+  }, [activeAnimationId, currentTime, activeAnimation, canSeek, isDraggingScrubber]);
 
   // Handle rectangle selection drag and release
   useEffect(() => {
@@ -177,11 +188,11 @@ export function Timeline() {
     console.log('[Timeline] Drag started, setting up handlers');
 
     const handleMouseMove = (e: MouseEvent) => {
-      if (!timelineRef.current || !activeAnimation) return;
+      if (!timelineRef.current || !canSeek) return;
 
       const rect = timelineRef.current.getBoundingClientRect();
       const x = e.clientX - rect.left + timelineScroll;
-      const time = Math.max(0, Math.min(x / timelineZoom, activeAnimation.duration));
+      const time = Math.max(0, Math.min(x / timelineZoom, playbackDuration));
 
       console.log('[Timeline] Dragging to time:', time);
       setCurrentTime(time);
@@ -203,11 +214,11 @@ export function Timeline() {
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isDraggingScrubber, activeAnimation, timelineZoom, timelineScroll]);
+  }, [isDraggingScrubber, activeAnimation, canSeek, playbackDuration, timelineZoom, timelineScroll]);
 
   // Handle timeline click to move scrubber or start rectangle selection
   const handleTimelineMouseDown = (e: React.MouseEvent) => {
-    if (!timelineRef.current || !activeAnimation) return;
+    if (!timelineRef.current || !canSeek) return;
 
     const rect = timelineRef.current.getBoundingClientRect();
     const x = e.clientX - rect.left;
@@ -230,7 +241,7 @@ export function Timeline() {
       } else {
         // Regular click - move scrubber to clicked position
         const scrolledX = x + timelineScroll;
-        const time = Math.max(0, Math.min(scrolledX / timelineZoom, activeAnimation.duration));
+        const time = Math.max(0, Math.min(scrolledX / timelineZoom, playbackDuration));
 
         setCurrentTime(time);
 
@@ -446,6 +457,23 @@ export function Timeline() {
         {/* Animation Panel (Far Left) */}
         <AnimationPanel />
 
+        {/* View Switch */}
+        <div className="flex flex-col border-r border-[#27272A]">
+          {(['keyframes', 'graph', 'nla'] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-2 py-1.5 text-xs transition-colors ${
+                view === option ? 'bg-[#7C3AED]/20 text-[#FAFAFA]' : 'text-[#A1A1AA] hover:bg-[#27272A]'
+              }`}
+              title={VIEW_TITLES[option]}
+            >
+              {VIEW_LABELS[option]}
+            </button>
+          ))}
+        </div>
+
+        {view === 'nla' ? <NLAEditor /> : view === 'graph' ? <GraphEditor /> : <>
         {/* Track List (Left Side) */}
         <div className="w-48 border-r border-[#27272A] flex flex-col">
           {/* Header */}
@@ -510,11 +538,11 @@ export function Timeline() {
             className="h-8 border-b border-[#27272A] relative bg-[#0A0A0B] overflow-x-auto overflow-y-hidden cursor-pointer"
             style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}
             onClick={(e) => {
-              if (!activeAnimation || !rulerRef.current) return;
+              if (!canSeek || !rulerRef.current) return;
 
               const rect = rulerRef.current.getBoundingClientRect();
               const x = e.clientX - rect.left + rulerRef.current.scrollLeft;
-              const time = Math.max(0, Math.min(x / timelineZoom, activeAnimation.duration));
+              const time = Math.max(0, Math.min(x / timelineZoom, playbackDuration));
 
               setCurrentTime(time);
 
@@ -528,9 +556,9 @@ export function Timeline() {
                 display: none;
               }
             `}</style>
-            <div className="relative h-full" style={{ width: `${(activeAnimation?.duration || 10) * timelineZoom}px` }}>
-              {activeAnimation && (() => {
-                const duration = activeAnimation.duration || 10;
+            <div className="relative h-full" style={{ width: `${(playbackDuration || 10) * timelineZoom}px` }}>
+              {canSeek && (() => {
+                const duration = playbackDuration || 10;
                 const safeLength = Math.min(Math.max(Math.ceil(duration) + 1, 1), 1000);
                 return [...Array(safeLength)].map((_, i) => (
                   <div
@@ -617,7 +645,7 @@ export function Timeline() {
           </div>
 
           {/* Scrubber/Playhead */}
-          {activeAnimation && (
+          {canSeek && (
             <div
               className="absolute top-0 bottom-0 w-0.5 bg-[#EF4444] pointer-events-none z-10"
               style={{ left: `${scrubberPosition}px` }}
@@ -636,10 +664,11 @@ export function Timeline() {
             </div>
           )}
         </div>
+        </>}
       </div>}
 
       {/* Keyframe Inspector */}
-      {!isCollapsed && selectedKeyframes.length > 0 && (
+      {!isCollapsed && view === 'keyframes' && selectedKeyframes.length > 0 && (
         <div className="absolute bottom-0 right-0 m-4 bg-[#18181B] border border-[#27272A] rounded-lg p-3 shadow-xl z-20 w-64">
           <div className="flex items-center justify-between mb-3">
             <h4 className="text-xs font-medium text-[#FAFAFA]">
@@ -0,0 +1,89 @@
+/**
+ * Camera Renderer Component
+ *
+ * Draws a camera object in the viewport as its view frustum, sized from the
+ * camera's lens so changes to the field of view, orthographic size or aspect
+ * ratio show up right away. Clicking the frustum selects the camera.
+ */
+
+import { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { CameraProps, DEFAULT_CAMERA_PROPS, SceneObject as SceneObjectType } from '../../stores/objectsStore';
+
+interface CameraRendererProps {
+  camera: SceneObjectType;
+  isSelected: boolean;
+  onSelect: (id: string, multiSelect: boolean) => void;
+}
+
+/** Depth of the drawn frustum, in scene units (the far plane is usually much further away) */
+const FRUSTUM_DISPLAY_DEPTH = 1;
+
+/**
+ * Line segments outlining the view frustum down the local -Z axis, with a
+ * triangle above the frame marking the camera's up direction
+ */
+function createCameraFrustumLines(props: CameraProps): THREE.BufferGeometry {
+  const { projection, fov, orthographicSize, aspect } = props;
+  const depth = FRUSTUM_DISPLAY_DEPTH;
+
+  const halfHeight = projection === 'orthographic'
+    ? orthographicSize
+    : Math.tan(THREE.MathUtils.degToRad(fov) / 2) * depth;
+  const halfWidth = halfHeight * aspect;
+
+  // Frame corners at the display depth; orthographic frustums start at the same size
+  const corners: Array<[number, number, number]> = [
+    [-halfWidth, -halfHeight, -depth],
+    [halfWidth, -halfHeight, -depth],
+    [halfWidth, halfHeight, -depth],
+    [-halfWidth, halfHeight, -depth],
+  ];
+  const origins: Array<[number, number, number]> = projection === 'orthographic'
+    ? corners.map(([x, y]) => [x, y, 0] as [number, number, number])
+    : corners.map(() => [0, 0, 0] as [number, number, number]);
+
+  const positions: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    positions.push(...origins[i], ...corners[i]);
+    positions.push(...corners[i], ...corners[(i + 1) % 4]);
+  }
+
+  const apex: [number, number, number] = [0, halfHeight * 1.5, -depth];
+  positions.push(
+    -halfWidth * 0.5, halfHeight * 1.1, -depth, ...apex,
+    ...apex, halfWidth * 0.5, halfHeight * 1.1, -depth,
+    halfWidth * 0.5, halfHeight * 1.1, -depth, -halfWidth * 0.5, halfHeight * 1.1, -depth
+  );
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  return geometry;
+}
+
+export function CameraRenderer({ camera, isSelected, onSelect }: CameraRendererProps) {
+  const { projection, fov, orthographicSize, aspect, near, far } = { ...DEFAULT_CAMERA_PROPS, ...camera.cameraProps };
+
+  const geometry = useMemo(
+    () => createCameraFrustumLines({ projection, fov, orthographicSize, aspect, near, far }),
+    [projection, fov, orthographicSize, aspect, near, far]
+  );
+
+  // Dispose the outline when the lens changes or the camera unmounts
+  useEffect(() => {
+    return () => {
+      geometry.dispose();
+    };
+  }, [geometry]);
+
+  const handleClick = (event: any) => {
+    event.stopPropagation();
+    onSelect(camera.id, event.nativeEvent.shiftKey || event.nativeEvent.ctrlKey || event.nativeEvent.metaKey);
+  };
+
+  return (
+    <lineSegments geometry={geometry} onClick={handleClick} userData={{ id: camera.id, type: camera.type }}>
+      <lineBasicMaterial color={isSelected ? '#7C3AED' : '#A1A1AA'} />
+    </lineSegments>
+  );
+}
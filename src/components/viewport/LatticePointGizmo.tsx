@@ -0,0 +1,76 @@
+/**
+ * Lattice Point Gizmo Component
+ *
+ * Translate controls for the selected lattice control point. Points are stored in
+ * the lattice's local space; each drag is recorded as one undoable update.
+ */
+
+import { useRef, useMemo } from 'react';
+import { useThree } from '@react-three/fiber';
+import { TransformControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { useObjectsStore, LatticeProps } from '../../stores/objectsStore';
+import { useLatticeStore } from '../../stores/latticeStore';
+import { useCommandStore } from '../../stores/commandStore';
+import { UpdateObjectCommand } from '../../lib/commands/ObjectCommands';
+import { localToWorld, worldToLocal } from '../../lib/hierarchy/TransformUtils';
+
+export function LatticePointGizmo() {
+  const { camera } = useThree();
+  const selectedPoint = useLatticeStore((state) => state.selectedPoint);
+  const lattice = useObjectsStore((state) => (selectedPoint ? state.objects.get(selectedPoint.objectId) : undefined));
+  const updateObject = useObjectsStore((state) => state.updateObject);
+  const executeCommand = useCommandStore((state) => state.executeCommand);
+
+  // Stand-in for the point that the controls move
+  const handleRef = useRef<THREE.Group>(null!);
+  const dragStart = useRef<LatticeProps | null>(null);
+
+  const point = selectedPoint ? lattice?.latticeProps?.points[selectedPoint.index] : undefined;
+
+  // World position of the point (updates when the point or the lattice transform changes)
+  const worldPosition = useMemo(() => {
+    if (!lattice || !point) return null;
+    return localToWorld(lattice.id, new THREE.Vector3(...point));
+  }, [lattice, point]);
+
+  if (!worldPosition || !lattice || !selectedPoint) return null;
+
+  const getLatticeProps = () => useObjectsStore.getState().getObject(lattice.id)?.latticeProps;
+
+  const handleDragStart = () => {
+    dragStart.current = getLatticeProps() || null;
+  };
+
+  const handleObjectChange = () => {
+    // Only follow the gizmo while dragging, not when it is repositioned from props
+    const latticeProps = getLatticeProps();
+    if (!dragStart.current || !latticeProps) return;
+
+    const points = [...latticeProps.points];
+    points[selectedPoint.index] = worldToLocal(lattice.id, handleRef.current.position).toArray() as [number, number, number];
+    updateObject(lattice.id, { latticeProps: { ...latticeProps, points } });
+  };
+
+  const handleDragEnd = () => {
+    const latticeProps = getLatticeProps();
+    if (dragStart.current && latticeProps) {
+      executeCommand(new UpdateObjectCommand(lattice.id, { latticeProps: dragStart.current }, { latticeProps }));
+    }
+    dragStart.current = null;
+  };
+
+  return (
+    <>
+      <group ref={handleRef} position={worldPosition.toArray()} />
+      <TransformControls
+        object={handleRef}
+        mode="translate"
+        camera={camera}
+        onMouseDown={handleDragStart}
+        onObjectChange={handleObjectChange}
+        onMouseUp={handleDragEnd}
+      />
+    </>
+  );
+}
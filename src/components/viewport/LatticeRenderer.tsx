@@ -0,0 +1,122 @@
+/**
+ * Lattice Renderer Component
+ *
+ * Draws a lattice object's control point cage in the viewport.
+ * Clicking the cage selects the lattice; once selected, clicking a control point
+ * picks it for editing with the lattice point gizmo.
+ */
+
+import { useCallback, useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { SceneObject as SceneObjectType } from '../../stores/objectsStore';
+import { useLatticeStore } from '../../stores/latticeStore';
+import { latticePointIndex } from '../../lib/lattice/LatticeUtils';
+
+interface LatticeRendererProps {
+  lattice: SceneObjectType;
+  isSelected: boolean;
+  onSelect: (id: string, multiSelect: boolean) => void;
+}
+
+/** Pick radius around control points, in world units */
+const POINT_PICK_RADIUS = 0.05;
+
+/**
+ * Line segments joining each control point to its next neighbour along U, V and W
+ */
+function createLatticeLines(resolution: [number, number, number], points: Array<[number, number, number]>): THREE.BufferGeometry {
+  const [nu, nv, nw] = resolution;
+  const positions: number[] = [];
+  const link = (a: number, b: number) => positions.push(...points[a], ...points[b]);
+
+  for (let w = 0; w < nw; w++) {
+    for (let v = 0; v < nv; v++) {
+      for (let u = 0; u < nu; u++) {
+        const index = latticePointIndex(u, v, w, resolution);
+        if (u + 1 < nu) link(index, latticePointIndex(u + 1, v, w, resolution));
+        if (v + 1 < nv) link(index, latticePointIndex(u, v + 1, w, resolution));
+        if (w + 1 < nw) link(index, latticePointIndex(u, v, w + 1, resolution));
+      }
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  return geometry;
+}
+
+export function LatticeRenderer({ lattice, isSelected, onSelect }: LatticeRendererProps) {
+  const selectedPoint = useLatticeStore((state) => state.selectedPoint);
+  const selectPoint = useLatticeStore((state) => state.selectPoint);
+  const latticeProps = lattice.latticeProps;
+
+  const geometries = useMemo(() => {
+    if (!latticeProps) return null;
+
+    const pointGeometry = new THREE.BufferGeometry();
+    pointGeometry.setAttribute('position', new THREE.Float32BufferAttribute(latticeProps.points.flat(), 3));
+
+    return {
+      lines: createLatticeLines(latticeProps.resolution, latticeProps.points),
+      points: pointGeometry,
+    };
+  }, [latticeProps]);
+
+  // Dispose geometries when the cage changes or unmounts
+  useEffect(() => {
+    return () => {
+      geometries?.lines.dispose();
+      geometries?.points.dispose();
+    };
+  }, [geometries]);
+
+  // Points are picked within a small radius instead of the raycaster's default of one unit
+  const raycastPoints = useCallback(function (this: THREE.Points, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+    const threshold = raycaster.params.Points.threshold;
+    raycaster.params.Points.threshold = POINT_PICK_RADIUS;
+    THREE.Points.prototype.raycast.call(this, raycaster, intersects);
+    raycaster.params.Points.threshold = threshold;
+  }, []);
+
+  if (!latticeProps || !geometries) return null;
+
+  const handleCageClick = (event: any) => {
+    event.stopPropagation();
+    onSelect(lattice.id, event.nativeEvent.shiftKey || event.nativeEvent.ctrlKey || event.nativeEvent.metaKey);
+  };
+
+  const handlePointClick = (event: any) => {
+    if (!isSelected || event.index === undefined) {
+      handleCageClick(event);
+      return;
+    }
+
+    event.stopPropagation();
+    selectPoint(lattice.id, event.index);
+  };
+
+  const color = isSelected ? '#7C3AED' : '#A1A1AA';
+  const activePoint = selectedPoint?.objectId === lattice.id ? latticeProps.points[selectedPoint.index] : undefined;
+
+  return (
+    <>
+      <lineSegments geometry={geometries.lines} onClick={handleCageClick}>
+        <lineBasicMaterial color={color} />
+      </lineSegments>
+
+      <points geometry={geometries.points} raycast={raycastPoints} onClick={handlePointClick}>
+        <pointsMaterial color={color} size={isSelected ? 8 : 4} sizeAttenuation={false} />
+      </points>
+
+      {/* Highlight the control point being edited */}
+      {activePoint && (
+        <points position={activePoint}>
+          <bufferGeometry>
+            <bufferAttribute attach="attributes-position" args={[new Float32Array([0, 0, 0]), 3]} />
+          </bufferGeometry>
+          <pointsMaterial color="#F59E0B" size={12} sizeAttenuation={false} depthTest={false} />
+        </points>
+      )}
+    </>
+  );
+}
@@ -16,6 +16,7 @@ import {
   Zap,
   Sun,
   CloudSun,
+  Boxes,
 } from 'lucide-react';
 import { useObjectsStore, ObjectType } from '../../stores/objectsStore';
 import { useCommandStore } from '../../stores/commandStore';
@@ -36,6 +37,7 @@ const primitiveIcons: Record<ObjectType, React.ElementType> = {
   spotLight: Zap,
   directionalLight: Sun,
   ambientLight: CloudSun,
+  lattice: Boxes,
 };
 
 const primitiveLabels: Record<ObjectType, string> = {
@@ -52,6 +54,7 @@ const primitiveLabels: Record<ObjectType, string> = {
   spotLight: 'Spot Light',
   directionalLight: 'Directional Light',
   ambientLight: 'Ambient Light',
+  lattice: 'Lattice',
 };
 
 export function ObjectCreationToolbar() {
@@ -15,10 +15,13 @@ import { useEditModePicking } from '../../hooks/useEditModePicking';
 import { EditModeHelpers } from './EditModeHelpers';
 import { KnifeFaceHighlight } from './KnifeFaceHighlight';
 import { BoneRenderer } from './BoneRenderer';
+import { LatticeRenderer } from './LatticeRenderer';
+import { CameraRenderer } from './CameraRenderer';
 import { SkinnedMeshRenderer } from './SkinnedMeshRenderer';
 import { useBoneStore } from '../../stores/boneStore';
 import { useEditModeStore } from '../../stores/editModeStore';
 import { useKnifeToolClick } from '../../hooks/useKnifeToolClick';
+import { useModifierPreview } from '../../hooks/useModifierPreview';
 import { meshRegistry } from '../../lib/mesh/MeshRegistry';
 import { getQuadEdges } from '../../lib/geometry/EdgeFiltering';
 
@@ -392,11 +395,17 @@ export function SceneObject({ object, isSelected, onSelect }: SceneObjectProps)
       case 'group':
         // Groups are invisible containers, no geometry
         return null;
+      case 'camera':
+        // Cameras are drawn as their frustum (CameraRenderer)
+        return null;
       default:
         return new THREE.BoxGeometry(1, 1, 1);
     }
   }, [object.type, object.geometryParams, object.importedGeometry, object.geometry, object.renderGeometry]);
 
+  // Modifier stack result; the base mesh stays registered for editing, shape keys and saving
+  const modifierPreview = useModifierPreview(object, !object.skinData && !(isEditMode && editingObjectId === object.id));
+
   // NEW: Initialize QMesh for objects that don't have it yet
   const initializeGeometryFromBufferGeometry = useObjectsStore(
     (state) => state.initializeGeometryFromBufferGeometry
@@ -428,6 +437,8 @@ export function SceneObject({ object, isSelected, onSelect }: SceneObjectProps)
     // Override material based on shading mode
     // Use DoubleSide in edit mode and for planes (single-sided surfaces need to be visible from both sides)
     const editSide = (isEditMode && editingObjectId === object.id) || object.type === 'plane' ? THREE.DoubleSide : THREE.FrontSide;
+    // Imported vertex colors (e.g. PLY scans) tint the material
+    const vertexColors = !!geometry?.getAttribute('color');
 
     if (shadingMode === 'wireframe') {
       // If object has QMesh, render transparent mesh (still raycastable for selection)
@@ -466,6 +477,7 @@ export function SceneObject({ object, isSelected, onSelect }: SceneObjectProps)
         transparent: assignedMaterial.transparent,
         opacity: assignedMaterial.opacity,
         side: (assignedMaterial.doubleSided || editSide === THREE.DoubleSide) ? THREE.DoubleSide : THREE.FrontSide,
+        vertexColors,
       };
 
       // Add emissive properties
@@ -536,10 +548,11 @@ export function SceneObject({ object, isSelected, onSelect }: SceneObjectProps)
 
     // Default material when no material is assigned
     return new THREE.MeshStandardMaterial({
-      color: isSelected ? 0x7C3AED : 0x888888,
+      color: isSelected ? 0x7C3AED : vertexColors ? 0xFFFFFF : 0x888888,
       metalness: 0.3,
       roughness: 0.7,
       side: editSide,
+      vertexColors,
     });
   }, [
     shadingMode,
@@ -564,6 +577,7 @@ export function SceneObject({ object, isSelected, onSelect }: SceneObjectProps)
     editingObjectId,
     object.id,
     object.qMesh,
+    geometry,
   ]);
 
   // Register mesh with registry when it's available
@@ -695,6 +709,44 @@ export function SceneObject({ object, isSelected, onSelect }: SceneObjectProps)
     );
   }
 
+  // Render lattices (control point cage, no surface)
+  if (object.type === 'lattice') {
+    return (
+      <group position={object.position} rotation={object.rotation} scale={object.scale}>
+        <LatticeRenderer lattice={object} isSelected={isSelected} onSelect={onSelect} />
+
+        {/* Render children recursively */}
+        {childObjects.map((child) => (
+          <SceneObject
+            key={child.id}
+            object={child}
+            isSelected={false}
+            onSelect={onSelect}
+          />
+        ))}
+      </group>
+    );
+  }
+
+  // Render cameras (view frustum, no surface)
+  if (object.type === 'camera') {
+    return (
+      <group position={object.position} rotation={object.rotation} scale={object.scale}>
+        <CameraRenderer camera={object} isSelected={isSelected} onSelect={onSelect} />
+
+        {/* Render children recursively */}
+        {childObjects.map((child) => (
+          <SceneObject
+            key={child.id}
+            object={child}
+            isSelected={false}
+            onSelect={onSelect}
+          />
+        ))}
+      </group>
+    );
+  }
+
   // Render lights
   if (isLight) {
     const lightProps = object.lightProps || {
@@ -844,13 +896,26 @@ export function SceneObject({ object, isSelected, onSelect }: SceneObjectProps)
             material={material}
             onClick={handleClick}
             userData={{ id: object.id, type: object.type }}
+            visible={!modifierPreview}
+            raycast={modifierPreview ? () => {} : THREE.Mesh.prototype.raycast}
             castShadow
             receiveShadow
           />
 
+          {modifierPreview && (
+            <mesh
+              geometry={modifierPreview.geometry}
+              material={material}
+              onClick={handleClick}
+              userData={{ id: object.id, type: object.type }}
+              castShadow
+              receiveShadow
+            />
+          )}
+
           {/* QMesh wireframe: show actual quad/polygon edges instead of triangulation */}
           {shadingMode === 'wireframe' && object.qMesh && (
-            <QMeshWireframe qMesh={object.qMesh} color={materialColor} />
+            <QMeshWireframe qMesh={modifierPreview?.qMesh || object.qMesh} color={materialColor} />
           )}
 
         </>
@@ -16,12 +16,14 @@ import { useEnvironmentStore } from '@/stores/environmentStore';
 import { useEditModeStore } from '@/stores/editModeStore';
 import { useCurveStore } from '@/stores/curveStore';
 import { useContextMenuStore } from '@/stores/contextMenuStore';
+import { useLatticeStore } from '@/stores/latticeStore';
 import { ViewportToolbar } from './ViewportToolbar';
 import { StatsPanel, FPSCounter } from './StatsPanel';
 import { ObjectCreationToolbar } from './ObjectCreationToolbar';
 import { SceneObject } from './SceneObject';
 import { TransformGizmo } from './TransformGizmo';
 import { EditTransformControls } from './EditTransformControls';
+import { LatticePointGizmo } from './LatticePointGizmo';
 import { EditModeToolbar } from './EditModeToolbar';
 import { KnifeToolVisuals } from './KnifeToolVisuals';
 import { CurveRenderer } from './CurveRenderer';
@@ -50,6 +52,15 @@ function Scene() {
   const transformMode = useObjectsStore((state) => state.transformMode);
   const { isEditMode } = useEditModeStore();
   const clearCurveSelection = useCurveStore((state) => state.clearSelection);
+  const selectedLatticePoint = useLatticeStore((state) => state.selectedPoint);
+  const clearLatticePointSelection = useLatticeStore((state) => state.clearPointSelection);
+
+  // Drop the lattice point selection once its lattice is no longer selected
+  useEffect(() => {
+    if (selectedLatticePoint && !selectedIds.includes(selectedLatticePoint.objectId)) {
+      clearLatticePointSelection();
+    }
+  }, [selectedIds, selectedLatticePoint, clearLatticePointSelection]);
 
   // Memoize callback to prevent SceneObject re-renders
   const handleObjectSelect = useCallback((id: string, multiSelect: boolean) => {
@@ -222,6 +233,8 @@ function Scene() {
       {/* Transform Controls */}
       {isEditMode ? (
         <EditTransformControls mode={transformMode} />
+      ) : selectedLatticePoint ? (
+        <LatticePointGizmo />
       ) : (
         <TransformGizmo />
       )}
@@ -43,6 +43,26 @@ export function createKeyframeForProperty(
   return { track, keyframe };
 }
 
+/**
+ * Helper to create a keyframe for one lattice control point
+ */
+export function createKeyframeForLatticePoint(
+  objectId: string,
+  pointIndex: number,
+  value: [number, number, number],
+  time: number
+): { track: AnimationTrack; keyframe: Keyframe } {
+  const { track, keyframe } = createKeyframeForProperty(
+    objectId,
+    'latticePoint',
+    ['latticeProps', 'points', String(pointIndex)],
+    value,
+    time
+  );
+
+  return { track: { ...track, latticePointIndex: pointIndex }, keyframe };
+}
+
 /**
  * Get a color for a track based on property type
  */
@@ -56,6 +76,8 @@ function getTrackColor(property: string): string {
       return '#F59E0B'; // Orange
     case 'lightProps':
       return '#EC4899'; // Pink
+    case 'latticePoint':
+      return '#06B6D4'; // Cyan
     default:
       return '#7C3AED'; // Purple
   }
@@ -148,6 +170,21 @@ export function useAnimationKeyframes() {
           );
         }
       }
+
+      // Check lattice control point changes (if it's a lattice with the same resolution)
+      if (currentObj.latticeProps && previousObj.latticeProps &&
+          currentObj.latticeProps.resolution.join() === previousObj.latticeProps.resolution.join()) {
+        currentObj.latticeProps.points.forEach((point, index) => {
+          if (JSON.stringify(point) === JSON.stringify(previousObj.latticeProps!.points[index])) return;
+          createOrUpdateKeyframe(
+            activeAnimationId,
+            objectId,
+            'latticePoint',
+            ['latticeProps', 'points', String(index)],
+            point
+          );
+        });
+      }
     });
 
     // Update previous state
@@ -166,13 +203,15 @@ export function useAnimationKeyframes() {
 
     // Create track if it doesn't exist
     if (!track) {
-      const { track: newTrack } = createKeyframeForProperty(
-        objectId,
-        property,
-        propertyPath,
-        value,
-        currentTime
-      );
+      const { track: newTrack } = property === 'latticePoint'
+        ? createKeyframeForLatticePoint(objectId, Number(propertyPath[2]), value, currentTime)
+        : createKeyframeForProperty(
+          objectId,
+          property,
+          propertyPath,
+          value,
+          currentTime
+        );
       addTrack(animationId, newTrack);
       // Get fresh track reference after adding
       track = getTrack(animationId, trackId);
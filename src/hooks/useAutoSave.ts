@@ -15,6 +15,9 @@ import { useObjectsStore } from '../stores/objectsStore';
 import { useMaterialsStore } from '../stores/materialsStore';
 import { useEnvironmentStore } from '../stores/environmentStore';
 import { useAnimationStore } from '../stores/animationStore';
+import { useNLAStore } from '../stores/nlaStore';
+import { useDriverStore } from '../stores/driverStore';
+import { useRetargetStore } from '../stores/retargetStore';
 
 interface UseAutoSaveOptions {
   project: ProjectData | null;
@@ -84,12 +87,18 @@ export function useAutoSave({
     const unsubMaterials = useMaterialsStore.subscribe(debouncedSave);
     const unsubEnvironment = useEnvironmentStore.subscribe(debouncedSave);
     const unsubAnimations = useAnimationStore.subscribe(debouncedSave);
+    const unsubNLA = useNLAStore.subscribe(debouncedSave);
+    const unsubDrivers = useDriverStore.subscribe(debouncedSave);
+    const unsubRetarget = useRetargetStore.subscribe(debouncedSave);
 
     return () => {
       unsubObjects();
       unsubMaterials();
       unsubEnvironment();
       unsubAnimations();
+      unsubNLA();
+      unsubDrivers();
+      unsubRetarget();
       if (debounceTimerRef.current) {
         clearTimeout(debounceTimerRef.current);
       }
@@ -0,0 +1,43 @@
+/**
+ * Drivers Hook
+ *
+ * Re-evaluates drivers when objects or drivers change outside playback, so
+ * driven properties follow edits (posing a bone, moving an object) right away.
+ * During playback the animation engine evaluates them every frame.
+ */
+
+import { useEffect } from 'react';
+import { useObjectsStore } from '../stores/objectsStore';
+import { useDriverStore } from '../stores/driverStore';
+import { useAnimationStore } from '../stores/animationStore';
+import { getAnimationEngine } from '../lib/animation/AnimationEngine';
+
+export function useDrivers() {
+  useEffect(() => {
+    // Driver updates change objects too; skip the changes they cause
+    let isApplying = false;
+
+    const update = () => {
+      if (isApplying || useDriverStore.getState().drivers.length === 0) return;
+
+      const engine = getAnimationEngine();
+      if (engine.isPlaying()) return;
+
+      isApplying = true;
+      try {
+        engine.applyDrivers(useAnimationStore.getState().currentTime);
+      } finally {
+        isApplying = false;
+      }
+    };
+
+    const unsubObjects = useObjectsStore.subscribe(update);
+    const unsubDrivers = useDriverStore.subscribe(update);
+    update();
+
+    return () => {
+      unsubObjects();
+      unsubDrivers();
+    };
+  }, []);
+}
@@ -13,9 +13,10 @@ import { useKnifeToolStore } from '../stores/knifeToolStore';
 import { useSceneStore } from '../stores/sceneStore';
 import { useModalModeStore } from '../stores/modalModeStore';
 import { useBoneStore } from '../stores/boneStore';
+import { useNLAStore } from '../stores/nlaStore';
 import { DeleteObjectsCommand, DuplicateObjectsCommand } from '../lib/commands/ObjectCommands';
 import { GroupObjectsCommand, UngroupObjectsCommand } from '../lib/commands/GroupCommands';
-import { getAnimationEngine } from '../lib/animation/AnimationEngine';
+import { getAnimationEngine, getPlaybackDuration } from '../lib/animation/AnimationEngine';
 import { DeleteVerticesCommand } from '../lib/commands/EditModeCommands';
 import { meshRegistry } from '../lib/mesh/MeshRegistry';
 import * as THREE from 'three';
@@ -427,8 +428,9 @@ export function useKeyboardShortcuts(setShowAddMenu?: (show: boolean) => void) {
 
       // Animation: Play/Pause (Space)
       else if (e.key === ' ' || e.key === 'Spacebar') {
-        const activeAnimation = activeAnimationId ? animations.get(activeAnimationId) : null;
-        if (activeAnimation) {
+        const activeAnimation = activeAnimationId ? animations.get(activeAnimationId) ?? null : null;
+        // NLA strips play without an active animation
+        if (activeAnimation || getPlaybackDuration(null, useNLAStore.getState().layers) > 0) {
           e.preventDefault();
 
           if (!isPlaying) {
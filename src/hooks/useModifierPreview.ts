@@ -0,0 +1,90 @@
+/**
+ * Modifier Preview Hook
+ *
+ * Evaluates an object's modifier stack for the viewport. Light stacks finish
+ * right away; heavy ones run in the modifier worker while the base mesh stays
+ * on screen, and ModifierPanel marks the affected modifiers as stale.
+ */
+
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import { QMesh } from '../lib/qmesh/QMesh';
+import { SceneObject, useObjectsStore } from '../stores/objectsStore';
+import { Modifier, useModifierStore } from '../stores/modifierStore';
+import { useMaterialsStore } from '../stores/materialsStore';
+
+const NO_MODIFIERS: Modifier[] = [];
+
+export interface ModifierPreview {
+  qMesh: QMesh;
+  geometry: THREE.BufferGeometry;
+}
+
+/**
+ * Other scene objects a modifier reads from
+ */
+function getReferencedObjectIds(modifier: Modifier): string[] {
+  const { params } = modifier;
+  return [
+    params.arrayOffsetObject,
+    params.displaceCoordinateObject,
+    params.shrinkwrapTarget,
+    params.latticeObject,
+  ].filter((id): id is string => !!id);
+}
+
+/**
+ * `object` with its modifiers applied, or null while there is nothing to
+ * preview (no enabled modifiers, inactive, or first evaluation pending)
+ */
+export function useModifierPreview(object: SceneObject, active: boolean): ModifierPreview | null {
+  const modifiers = useModifierStore((state) => state.modifiersByObject.get(object.id) || NO_MODIFIERS);
+  const enabled = modifiers.filter((modifier) => modifier.enabled);
+  const hasReferences = enabled.some((modifier) => getReferencedObjectIds(modifier).length > 0);
+  const hasTextures = enabled.some((modifier) => modifier.type === 'displace' && modifier.params.displaceSource === 'texture');
+
+  // Modifiers that read other objects or textures re-run when those change
+  const objects = useObjectsStore((state) => (hasReferences ? state.objects : null));
+  const textures = useMaterialsStore((state) => (hasTextures ? state.textures : null));
+
+  const [preview, setPreview] = useState<ModifierPreview | null>(null);
+  const shouldEvaluate = active && !!object.qMesh && enabled.length > 0;
+
+  useEffect(() => {
+    if (!shouldEvaluate || !object.qMesh) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    const baseQMesh = object.qMesh;
+
+    useModifierStore.getState().evaluateModifierStackAsync(object.id, baseQMesh)
+      .then((result) => {
+        // Superseded by a newer evaluation
+        if (cancelled || !result) return;
+        if (result === baseQMesh) {
+          setPreview(null);
+        } else {
+          // Cache hits return the same mesh; keep its geometry
+          setPreview((current) => (current?.qMesh === result ? current : { qMesh: result, geometry: result.toBufferGeometry() }));
+        }
+      })
+      .catch((error) => {
+        console.error(`[useModifierPreview] Failed to evaluate modifiers for ${object.name}:`, error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [shouldEvaluate, object.id, object.name, object.qMesh, object.renderGeometry, modifiers, objects, textures]);
+
+  // Dispose replaced previews
+  useEffect(() => {
+    return () => {
+      preview?.geometry.dispose();
+    };
+  }, [preview]);
+
+  return shouldEvaluate ? preview : null;
+}
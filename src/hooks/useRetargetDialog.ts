@@ -0,0 +1,33 @@
+/**
+ * Retarget Dialog Hook
+ *
+ * Open/close state for RetargetDialog and the animation it retargets.
+ */
+
+import { useState } from 'react';
+import { Animation } from '../stores/animationStore';
+
+export function useRetargetDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [animation, setAnimation] = useState<Animation | null>(null);
+
+  const openRetarget = (anim: Animation) => {
+    setAnimation(anim);
+    setIsOpen(true);
+  };
+
+  const closeRetarget = () => {
+    setIsOpen(false);
+    // Don't clear animation immediately to prevent flicker
+    setTimeout(() => setAnimation(null), 200);
+  };
+
+  return {
+    dialogProps: {
+      isOpen,
+      animation,
+      onClose: closeRetarget,
+    },
+    openRetarget,
+  };
+}
@@ -5,8 +5,12 @@
  * Sprint 6: Animation System & Timeline
  */
 
-import { Animation, AnimationTrack, Keyframe } from '../../stores/animationStore';
-import { getValueAtTime } from './Interpolators';
+import { Animation, AnimationTrack, Keyframe, useAnimationStore } from '../../stores/animationStore';
+import { NLALayer, useNLAStore } from '../../stores/nlaStore';
+import { useDriverStore } from '../../stores/driverStore';
+import { evaluateTrack } from './FModifiers';
+import { evaluateNLA, getNLAEnd, getPlayingAnimationIds, trackChannelKey } from './NLAEvaluator';
+import { applyDrivers } from './DriverEvaluator';
 import { useObjectsStore } from '../../stores/objectsStore';
 import { useMorphTargetStore } from '../../stores/morphTargetStore';
 import { useBoneStore } from '../../stores/boneStore';
@@ -25,10 +29,11 @@ export class AnimationEngine {
   private cachedTrackValues: Map<string, any> = new Map();
 
   /**
-   * Start playing an animation
+   * Start playing an animation, or just the NLA layers when there is none.
+   * Playback runs to the end of the animation or of the last NLA strip, whichever is later.
    */
   start(
-    animation: Animation,
+    animation: Animation | null,
     currentTime: number,
     onTimeUpdate: (time: number) => void,
     onComplete: () => void,
@@ -44,7 +49,7 @@ export class AnimationEngine {
     this.cachedTrackValues.clear();
 
     const tick = (now: number) => {
-      if (!animation.enabled) {
+      if (animation && !animation.enabled) {
         this.stop();
         return;
       }
@@ -52,13 +57,16 @@ export class AnimationEngine {
       const elapsed = ((now - this.startTime) / 1000) * speed; // Convert to seconds and apply speed
       let newTime = elapsed;
 
+      // Strips can be moved during playback, so the range is read every frame
+      const duration = getPlaybackDuration(animation, useNLAStore.getState().layers);
+
       // Handle looping
-      if (newTime >= animation.duration) {
-        if (animation.loop) {
-          newTime = newTime % animation.duration;
+      if (newTime >= duration) {
+        if (animation?.loop && duration > 0) {
+          newTime = newTime % duration;
           this.startTime = now - (newTime * 1000 / speed);
         } else {
-          newTime = animation.duration;
+          newTime = duration;
           onTimeUpdate(newTime);
           this.applyAnimationAtTime(animation, newTime);
           onComplete();
@@ -90,65 +98,113 @@ export class AnimationEngine {
 
   /**
    * Apply animation state at a specific time
+   *
+   * With NLA layers present, the layers are evaluated and the animation (if any) plays
+   * on top of them, unless it already plays on a strip. Drivers run last.
    */
-  applyAnimationAtTime(animation: Animation, time: number): void {
+  applyAnimationAtTime(animation: Animation | null, time: number): void {
     // Batch all updates together for better performance
     const updates: Map<string, any> = new Map();
+    const layers = useNLAStore.getState().layers;
 
-    animation.tracks.forEach((track) => {
-      if (!track.enabled) return;
-
-      const value = getValueAtTime(track.keyframes, time);
-      if (value === null) return;
-
-      // Check cache to avoid unnecessary updates
-      const cacheKey = `${track.objectId}_${track.propertyPath.join('_')}`;
-      const cachedValue = this.cachedTrackValues.get(cacheKey);
+    if (layers.length > 0) {
+      const objectsStore = useObjectsStore.getState();
+      const channels = evaluateNLA(layers, useAnimationStore.getState().animations, time, {
+        parentOf: (objectId) => objectsStore.getObject(objectId)?.parentId ?? undefined,
+      });
 
-      if (JSON.stringify(cachedValue) === JSON.stringify(value)) {
-        return; // Skip if value hasn't changed
+      if (animation && !getPlayingAnimationIds(layers).has(animation.id)) {
+        animation.tracks.forEach((track) => {
+          if (!track.enabled) return;
+          const value = evaluateTrack(track, time);
+          if (value !== null) channels.set(trackChannelKey(track), { track, value });
+        });
       }
 
-      this.cachedTrackValues.set(cacheKey, value);
-
-      // Handle shape key tracks differently
-      if (track.property === 'shapeKey' && track.shapeKeyId) {
-        const morphStore = useMorphTargetStore.getState();
-        morphStore.setShapeKeyValue(track.shapeKeyId, value);
-      }
-      // Handle bone transform tracks
-      else if (track.property === 'boneTransform' && track.boneId && track.transformType) {
-        const boneStore = useBoneStore.getState();
-
-        // Build pose transform based on transform type
-        const poseTransform: any = {};
-        if (track.transformType === 'position') {
-          poseTransform.position = value;
-        } else if (track.transformType === 'rotation') {
-          poseTransform.rotation = value;
-        } else if (track.transformType === 'scale') {
-          poseTransform.scale = value;
-        }
+      channels.forEach(({ track, value }) => this.applyTrackValue(track, value, updates));
+    } else if (animation) {
+      animation.tracks.forEach((track) => {
+        if (!track.enabled) return;
 
-        // Apply to bone pose
-        boneStore.setPoseTransform(track.boneId, poseTransform);
-      }
-      else {
-        // Collect updates per object for regular properties
-        if (!updates.has(track.objectId)) {
-          updates.set(track.objectId, {});
-        }
+        const value = evaluateTrack(track, time);
+        if (value === null) return;
 
-        const objectUpdates = updates.get(track.objectId);
-        this.buildPropertyUpdate(track, value, objectUpdates);
-      }
-    });
+        this.applyTrackValue(track, value, updates);
+      });
+    }
 
     // Apply all updates in a single batch
     const objectsStore = useObjectsStore.getState();
     updates.forEach((objectUpdates, objectId) => {
       objectsStore.updateObject(objectId, objectUpdates);
     });
+
+    this.applyDrivers(time);
+  }
+
+  /**
+   * Evaluate drivers at a time, after any animation so they read the animated values
+   */
+  applyDrivers(time: number): void {
+    const drivers = useDriverStore.getState().drivers;
+    if (drivers.length === 0) return;
+
+    applyDrivers(drivers, time, useAnimationStore.getState().frameRate);
+  }
+
+  /**
+   * Apply one track value: shape keys and bone poses directly, object properties into the batched updates
+   */
+  private applyTrackValue(track: AnimationTrack, value: any, updates: Map<string, any>): void {
+    // Check cache to avoid unnecessary updates
+    const cacheKey = `${track.objectId}_${track.propertyPath.join('_')}`;
+    const cachedValue = this.cachedTrackValues.get(cacheKey);
+
+    if (JSON.stringify(cachedValue) === JSON.stringify(value)) {
+      return; // Skip if value hasn't changed
+    }
+
+    this.cachedTrackValues.set(cacheKey, value);
+
+    // Handle shape key tracks differently
+    if (track.property === 'shapeKey' && track.shapeKeyId) {
+      const morphStore = useMorphTargetStore.getState();
+      morphStore.setShapeKeyValue(track.shapeKeyId, value);
+    }
+    // Handle bone transform tracks
+    else if (track.property === 'boneTransform' && track.boneId && track.transformType) {
+      const boneStore = useBoneStore.getState();
+
+      // Build pose transform based on transform type
+      const poseTransform: any = {};
+      if (track.transformType === 'position') {
+        poseTransform.position = value;
+      } else if (track.transformType === 'rotation') {
+        poseTransform.rotation = value;
+      } else if (track.transformType === 'scale') {
+        poseTransform.scale = value;
+      }
+
+      // Apply to bone pose
+      boneStore.setPoseTransform(track.boneId, poseTransform);
+    }
+    // Handle lattice control point tracks
+    else if (track.property === 'latticePoint' && track.latticePointIndex !== undefined) {
+      if (!updates.has(track.objectId)) {
+        updates.set(track.objectId, {});
+      }
+
+      this.buildLatticePointUpdate(track, value, updates.get(track.objectId));
+    }
+    else {
+      // Collect updates per object for regular properties
+      if (!updates.has(track.objectId)) {
+        updates.set(track.objectId, {});
+      }
+
+      const objectUpdates = updates.get(track.objectId);
+      this.buildPropertyUpdate(track, value, objectUpdates);
+    }
   }
 
   /**
@@ -193,10 +249,23 @@ export class AnimationEngine {
     }
   }
 
+  /**
+   * Build a lattice update that moves one control point, keeping points set by other tracks
+   */
+  private buildLatticePointUpdate(track: AnimationTrack, value: [number, number, number], targetUpdates: any): void {
+    const object = useObjectsStore.getState().getObject(track.objectId);
+    const latticeProps = targetUpdates.latticeProps || object?.latticeProps;
+    if (!latticeProps || track.latticePointIndex! >= latticeProps.points.length) return;
+
+    const points = [...latticeProps.points];
+    points[track.latticePointIndex!] = value;
+    targetUpdates.latticeProps = { ...latticeProps, points };
+  }
+
   /**
    * Seek to a specific time without playing
    */
-  seekTo(animation: Animation, time: number): void {
+  seekTo(animation: Animation | null, time: number): void {
     this.applyAnimationAtTime(animation, time);
   }
 
@@ -208,6 +277,13 @@ export class AnimationEngine {
   }
 }
 
+/**
+ * Scene time playback runs to: the end of the animation or of the last NLA strip, whichever is later
+ */
+export function getPlaybackDuration(animation: Animation | null | undefined, layers: NLALayer[]): number {
+  return Math.max(animation?.duration ?? 0, getNLAEnd(layers));
+}
+
 // Singleton instance
 let engineInstance: AnimationEngine | null = null;
 
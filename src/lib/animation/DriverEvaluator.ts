@@ -0,0 +1,217 @@
+/**
+ * Driver Evaluator
+ *
+ * Reads driver variables from the scene, evaluates driver expressions
+ * (see DriverExpression) and sets the driven properties.
+ */
+
+import { SceneObject, useObjectsStore } from '../../stores/objectsStore';
+import { ShapeKey, useMorphTargetStore } from '../../stores/morphTargetStore';
+import { Driver, DriverLightProperty, DriverTarget, DriverVariable } from '../../stores/driverStore';
+import { getWorldPosition, getWorldRotation, getWorldScale } from '../hierarchy/TransformUtils';
+import { CompiledExpression, compileExpression } from './DriverExpression';
+
+const AXES = ['X', 'Y', 'Z'];
+const CHANNEL_LABELS = { position: 'Location', rotation: 'Rotation', scale: 'Scale' };
+const LIGHT_LABELS: Record<DriverLightProperty, string> = {
+  intensity: 'Intensity',
+  distance: 'Distance',
+  decay: 'Decay',
+  angle: 'Spot Angle',
+  penumbra: 'Penumbra',
+};
+
+// Values closer than this count as unchanged, so re-applying drivers settles
+const EPSILON = 1e-9;
+
+// Compiled expressions by source and variable names; drivers run every frame
+const compiledCache = new Map<string, CompiledExpression>();
+
+function compile(driver: Driver): CompiledExpression {
+  const names = driver.variables.map(variable => variable.name);
+  const key = `${driver.expression}\u0000${names.join(',')}`;
+  let compiled = compiledCache.get(key);
+  if (!compiled) {
+    compiled = compileExpression(driver.expression, names);
+    if (compiledCache.size > 500) compiledCache.clear();
+    compiledCache.set(key, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Current value of a variable. Throws if what it reads is missing.
+ */
+export function readDriverVariable(variable: DriverVariable, time: number, frameRate: number): number {
+  if (variable.type === 'time') return time;
+  if (variable.type === 'frame') return time * frameRate;
+
+  const objectId = variable.type === 'boneRotation' ? variable.boneId : variable.objectId;
+  const object = useObjectsStore.getState().objects.get(objectId);
+  if (!object) {
+    throw new Error(`Variable "${variable.name}": object not found`);
+  }
+
+  switch (variable.type) {
+    case 'transform': {
+      if (variable.space === 'local') return object[variable.channel][variable.axis];
+      if (variable.channel === 'rotation') {
+        const rotation = getWorldRotation(objectId);
+        return [rotation.x, rotation.y, rotation.z][variable.axis];
+      }
+      const world = variable.channel === 'position' ? getWorldPosition(objectId) : getWorldScale(objectId);
+      return world.getComponent(variable.axis);
+    }
+
+    case 'boneRotation':
+      if (object.type !== 'bone') {
+        throw new Error(`Variable "${variable.name}": ${object.name} is not a bone`);
+      }
+      return object.rotation[variable.axis];
+
+    case 'customProperty': {
+      const value = object.customProperties?.[variable.property];
+      if (typeof value !== 'number') {
+        throw new Error(`Variable "${variable.name}": ${object.name} has no property "${variable.property}"`);
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Value of a driver's expression. Throws DriverExpressionError for invalid
+ * expressions and Error for variables that can't be read.
+ */
+export function evaluateDriver(driver: Driver, time: number, frameRate: number): number {
+  const compiled = compile(driver);
+  const scope: Record<string, number> = Object.create(null);
+  for (const variable of driver.variables) {
+    if (compiled.variables.includes(variable.name)) {
+      scope[variable.name] = readDriverVariable(variable, time, frameRate);
+    }
+  }
+
+  const value = compiled.evaluate(scope);
+  if (!Number.isFinite(value)) {
+    throw new Error('Expression result is not a finite number');
+  }
+  return value;
+}
+
+/**
+ * Current value of a driven property, or undefined if the object doesn't have it
+ */
+export function getDriverTargetValue(object: SceneObject, target: DriverTarget): number | undefined {
+  switch (target.type) {
+    case 'transform':
+      return object[target.channel][target.axis];
+    case 'light':
+      return object.lightProps?.[target.property];
+    case 'shapeKey':
+      return useMorphTargetStore.getState().getShapeKeysForObject(object.id).find(key => key.id === target.shapeKeyId)?.value;
+    case 'customProperty':
+      return object.customProperties?.[target.property];
+  }
+}
+
+/**
+ * Set a driven property, returning whether it changed
+ */
+function setDriverTargetValue(object: SceneObject, target: DriverTarget, value: number): boolean {
+  const current = getDriverTargetValue(object, target);
+  if (current === undefined || Math.abs(current - value) < EPSILON) return false;
+
+  const objectsStore = useObjectsStore.getState();
+  switch (target.type) {
+    case 'transform': {
+      const vector = [...object[target.channel]] as [number, number, number];
+      vector[target.axis] = value;
+      objectsStore.updateObject(object.id, { [target.channel]: vector });
+      break;
+    }
+    case 'light':
+      objectsStore.updateObject(object.id, { lightProps: { ...object.lightProps!, [target.property]: value } });
+      break;
+    case 'shapeKey': {
+      // Weights are clamped to 0-1, so compare what would be stored
+      const clamped = Math.max(0, Math.min(1, value));
+      if (Math.abs(current - clamped) < EPSILON) return false;
+      useMorphTargetStore.getState().setShapeKeyValue(target.shapeKeyId, clamped);
+      break;
+    }
+    case 'customProperty':
+      objectsStore.updateObject(object.id, { customProperties: { ...object.customProperties, [target.property]: value } });
+      break;
+  }
+  return true;
+}
+
+/**
+ * Evaluate enabled drivers in order and set their properties.
+ * Returns the error of each driver that couldn't be evaluated, by driver ID.
+ */
+export function applyDrivers(drivers: Driver[], time: number, frameRate: number): Map<string, string> {
+  const errors = new Map<string, string>();
+
+  for (const driver of drivers) {
+    if (!driver.enabled) continue;
+
+    // Read the object fresh: earlier drivers may have changed it
+    const object = useObjectsStore.getState().objects.get(driver.objectId);
+    if (!object) continue;
+
+    try {
+      setDriverTargetValue(object, driver.target, evaluateDriver(driver, time, frameRate));
+    } catch (error) {
+      errors.set(driver.id, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Label for a driven property, e.g. "Location Y" or "Shape Key: Smile"
+ */
+export function describeDriverTarget(target: DriverTarget, shapeKeys: ShapeKey[] = []): string {
+  switch (target.type) {
+    case 'transform':
+      return `${CHANNEL_LABELS[target.channel]} ${AXES[target.axis]}`;
+    case 'light':
+      return LIGHT_LABELS[target.property];
+    case 'shapeKey':
+      return `Shape Key: ${shapeKeys.find(key => key.id === target.shapeKeyId)?.name || 'Missing'}`;
+    case 'customProperty':
+      return `Property: ${target.property}`;
+  }
+}
+
+/**
+ * Properties of an object a driver can set
+ */
+export function getDrivableTargets(object: SceneObject, shapeKeys: ShapeKey[] = []): DriverTarget[] {
+  const targets: DriverTarget[] = [];
+
+  for (const channel of ['position', 'rotation', 'scale'] as const) {
+    for (const axis of [0, 1, 2] as const) {
+      targets.push({ type: 'transform', channel, axis });
+    }
+  }
+
+  if (object.lightProps) {
+    for (const property of Object.keys(LIGHT_LABELS) as DriverLightProperty[]) {
+      if (object.lightProps[property] !== undefined) targets.push({ type: 'light', property });
+    }
+  }
+
+  for (const key of shapeKeys) {
+    targets.push({ type: 'shapeKey', shapeKeyId: key.id });
+  }
+
+  for (const property of Object.keys(object.customProperties || {})) {
+    targets.push({ type: 'customProperty', property });
+  }
+
+  return targets;
+}
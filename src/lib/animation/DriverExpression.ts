@@ -0,0 +1,354 @@
+/**
+ * Driver Expressions
+ *
+ * A small arithmetic language for drivers, parsed and evaluated without `eval`:
+ * numbers, variables, the constants pi, tau and e, + - * / % and ^ (or **),
+ * comparisons and && || ! (true is 1, false is 0), `a ? b : c`, and a fixed set
+ * of math functions. Expressions can't reach anything but the variables they're given.
+ */
+
+export class DriverExpressionError extends Error {
+  /** Character offset in the expression the error was found at */
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'DriverExpressionError';
+    this.position = position;
+  }
+}
+
+export interface CompiledExpression {
+  source: string;
+  /** Variable names the expression reads */
+  variables: string[];
+  evaluate: (scope: Record<string, number>) => number;
+}
+
+type Node = (scope: Record<string, number>) => number;
+
+interface Token {
+  type: 'number' | 'name' | 'operator' | 'end';
+  text: string;
+  value?: number;
+  position: number;
+}
+
+const MAX_LENGTH = 1000;
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  tau: Math.PI * 2,
+  e: Math.E,
+};
+
+// Arity of each function, or [min, max]
+const FUNCTIONS: Record<string, { arity: number | [number, number]; fn: (...args: number[]) => number }> = {
+  sin: { arity: 1, fn: Math.sin },
+  cos: { arity: 1, fn: Math.cos },
+  tan: { arity: 1, fn: Math.tan },
+  asin: { arity: 1, fn: Math.asin },
+  acos: { arity: 1, fn: Math.acos },
+  atan: { arity: 1, fn: Math.atan },
+  atan2: { arity: 2, fn: Math.atan2 },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  abs: { arity: 1, fn: Math.abs },
+  sign: { arity: 1, fn: Math.sign },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  round: { arity: 1, fn: Math.round },
+  exp: { arity: 1, fn: Math.exp },
+  log: { arity: [1, 2], fn: (x, base) => (base === undefined ? Math.log(x) : Math.log(x) / Math.log(base)) },
+  pow: { arity: 2, fn: Math.pow },
+  min: { arity: [1, Infinity], fn: Math.min },
+  max: { arity: [1, Infinity], fn: Math.max },
+  clamp: { arity: 3, fn: (x, lo, hi) => Math.min(Math.max(x, lo), hi) },
+  lerp: { arity: 3, fn: (a, b, t) => a + (b - a) * t },
+  smoothstep: {
+    arity: 3,
+    fn: (edge0, edge1, x) => {
+      const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+      return t * t * (3 - 2 * t);
+    },
+  },
+  radians: { arity: 1, fn: (degrees) => (degrees * Math.PI) / 180 },
+  degrees: { arity: 1, fn: (radians) => (radians * 180) / Math.PI },
+};
+
+// Longest first, so '<=' isn't read as '<'
+const OPERATORS = ['**', '<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '(', ')', ',', '<', '>', '!', '?', ':'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], value: parseFloat(number[0]), position: i });
+      i += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (name) {
+      tokens.push({ type: 'name', text: name[0], position: i });
+      i += name[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) {
+      throw new DriverExpressionError(`Unexpected character "${char}"`, i);
+    }
+    tokens.push({ type: 'operator', text: operator, position: i });
+    i += operator.length;
+  }
+
+  tokens.push({ type: 'end', text: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser building a tree of closures, lowest precedence first:
+ * ternary, ||, &&, comparison, + -, * / %, unary, ^ (right associative), primary
+ */
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private variables = new Set<string>();
+  private allowedVariables?: Set<string>;
+
+  constructor(source: string, allowedVariables?: string[]) {
+    this.tokens = tokenize(source);
+    this.allowedVariables = allowedVariables ? new Set(allowedVariables) : undefined;
+  }
+
+  parse(): { node: Node; variables: string[] } {
+    if (this.peek().type === 'end') {
+      throw new DriverExpressionError('Empty expression', 0);
+    }
+
+    const node = this.ternary();
+    const next = this.peek();
+    if (next.type !== 'end') {
+      throw new DriverExpressionError(`Unexpected "${next.text}"`, next.position);
+    }
+    return { node, variables: Array.from(this.variables) };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private accept(...operators: string[]): Token | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.text)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private expect(operator: string): void {
+    if (!this.accept(operator)) {
+      const token = this.peek();
+      throw new DriverExpressionError(
+        token.type === 'end' ? `Expected "${operator}" at the end` : `Expected "${operator}" but found "${token.text}"`,
+        token.position
+      );
+    }
+  }
+
+  private ternary(): Node {
+    const condition = this.or();
+    if (!this.accept('?')) return condition;
+
+    const whenTrue = this.ternary();
+    this.expect(':');
+    const whenFalse = this.ternary();
+    return (scope) => (condition(scope) ? whenTrue(scope) : whenFalse(scope));
+  }
+
+  private or(): Node {
+    let left = this.and();
+    while (this.accept('||')) {
+      const a = left;
+      const b = this.and();
+      left = (scope) => (a(scope) || b(scope) ? 1 : 0);
+    }
+    return left;
+  }
+
+  private and(): Node {
+    let left = this.comparison();
+    while (this.accept('&&')) {
+      const a = left;
+      const b = this.comparison();
+      left = (scope) => (a(scope) && b(scope) ? 1 : 0);
+    }
+    return left;
+  }
+
+  private comparison(): Node {
+    let left = this.additive();
+    let token: Token | null;
+    while ((token = this.accept('<', '<=', '>', '>=', '==', '!='))) {
+      const a = left;
+      const b = this.additive();
+      switch (token.text) {
+        case '<': left = (scope) => (a(scope) < b(scope) ? 1 : 0); break;
+        case '<=': left = (scope) => (a(scope) <= b(scope) ? 1 : 0); break;
+        case '>': left = (scope) => (a(scope) > b(scope) ? 1 : 0); break;
+        case '>=': left = (scope) => (a(scope) >= b(scope) ? 1 : 0); break;
+        case '==': left = (scope) => (a(scope) === b(scope) ? 1 : 0); break;
+        default: left = (scope) => (a(scope) !== b(scope) ? 1 : 0);
+      }
+    }
+    return left;
+  }
+
+  private additive(): Node {
+    let left = this.multiplicative();
+    let token: Token | null;
+    while ((token = this.accept('+', '-'))) {
+      const a = left;
+      const b = this.multiplicative();
+      left = token.text === '+' ? (scope) => a(scope) + b(scope) : (scope) => a(scope) - b(scope);
+    }
+    return left;
+  }
+
+  private multiplicative(): Node {
+    let left = this.unary();
+    let token: Token | null;
+    while ((token = this.accept('*', '/', '%'))) {
+      const a = left;
+      const b = this.unary();
+      if (token.text === '*') left = (scope) => a(scope) * b(scope);
+      else if (token.text === '/') left = (scope) => a(scope) / b(scope);
+      else left = (scope) => a(scope) % b(scope);
+    }
+    return left;
+  }
+
+  private unary(): Node {
+    const token = this.accept('-', '+', '!');
+    if (!token) return this.power();
+
+    const operand = this.unary();
+    if (token.text === '-') return (scope) => -operand(scope);
+    if (token.text === '!') return (scope) => (operand(scope) ? 0 : 1);
+    return operand;
+  }
+
+  private power(): Node {
+    const base = this.primary();
+    if (!this.accept('^', '**')) return base;
+
+    // Right associative, and binds tighter than a unary minus on its left: -2^2 is -4
+    const exponent = this.unary();
+    return (scope) => Math.pow(base(scope), exponent(scope));
+  }
+
+  private primary(): Node {
+    const token = this.peek();
+
+    if (token.type === 'number') {
+      this.index++;
+      const value = token.value!;
+      return () => value;
+    }
+
+    if (token.type === 'name') {
+      this.index++;
+      if (this.accept('(')) return this.call(token);
+      return this.name(token);
+    }
+
+    if (this.accept('(')) {
+      const inner = this.ternary();
+      this.expect(')');
+      return inner;
+    }
+
+    throw new DriverExpressionError(
+      token.type === 'end' ? 'Unexpected end of expression' : `Unexpected "${token.text}"`,
+      token.position
+    );
+  }
+
+  private name(token: Token): Node {
+    const name = token.text;
+
+    const isConstant = Object.prototype.hasOwnProperty.call(CONSTANTS, name);
+
+    // Variables shadow constants, so a variable can be called "e"
+    if (this.allowedVariables?.has(name) || (!this.allowedVariables && !isConstant)) {
+      this.variables.add(name);
+      return (scope) => {
+        const value = scope[name];
+        if (typeof value !== 'number') {
+          throw new DriverExpressionError(`Variable "${name}" has no value`, token.position);
+        }
+        return value;
+      };
+    }
+
+    if (isConstant) {
+      const value = CONSTANTS[name];
+      return () => value;
+    }
+
+    throw new DriverExpressionError(`Unknown variable "${name}"`, token.position);
+  }
+
+  private call(token: Token): Node {
+    if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.text)) {
+      throw new DriverExpressionError(`Unknown function "${token.text}"`, token.position);
+    }
+
+    const args: Node[] = [];
+    if (!this.accept(')')) {
+      do {
+        args.push(this.ternary());
+      } while (this.accept(','));
+      this.expect(')');
+    }
+
+    const { arity, fn } = FUNCTIONS[token.text];
+    const [min, max] = typeof arity === 'number' ? [arity, arity] : arity;
+    if (args.length < min || args.length > max) {
+      const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+      throw new DriverExpressionError(`${token.text}() takes ${expected} argument${min === 1 && max === 1 ? '' : 's'}`, token.position);
+    }
+
+    return (scope) => fn(...args.map(arg => arg(scope)));
+  }
+}
+
+/**
+ * Parse an expression. With `variables`, any other name is an error; without,
+ * every name that isn't a constant is read as a variable.
+ * Throws DriverExpressionError for invalid expressions.
+ */
+export function compileExpression(source: string, variables?: string[]): CompiledExpression {
+  if (source.length > MAX_LENGTH) {
+    throw new DriverExpressionError(`Expression is longer than ${MAX_LENGTH} characters`, MAX_LENGTH);
+  }
+
+  const { node, variables: used } = new Parser(source, variables).parse();
+  return { source, variables: used, evaluate: node };
+}
+
+/**
+ * Names expressions can call, for the driver editor's help text
+ */
+export const DRIVER_FUNCTIONS = Object.keys(FUNCTIONS);
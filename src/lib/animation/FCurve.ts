@@ -0,0 +1,293 @@
+/**
+ * F-Curves
+ *
+ * Per-channel editing of animation tracks for the graph editor: a track's
+ * keyframe values split into channels (one per number of a vector), tangent
+ * handles by handle type, and moving or scaling keys in time and value.
+ */
+
+import { AnimationTrack, HandleType, Keyframe, KeyframeHandle, KeyframeTangent, KeyframeValue } from '../../stores/animationStore';
+
+/** One channel of one keyframe */
+export interface KeySelection {
+  trackId: string;
+  keyframeId: string;
+  channel: number;
+}
+
+// Handles default to a third of the way to the neighbouring key, as on a uniform cubic
+const HANDLE_FRACTION = 1 / 3;
+
+// Handle length for keys without neighbours (seconds)
+const DEFAULT_HANDLE_TIME = 0.25;
+
+/**
+ * Number of curve channels in a keyframe value (0 for values that can't be plotted)
+ */
+export function getChannelCount(value: KeyframeValue): number {
+  if (typeof value === 'number') return 1;
+  if (Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'number')) return value.length;
+  return 0;
+}
+
+/**
+ * Number on one channel of a keyframe value (0 for values that can't be plotted)
+ */
+export function getChannelValue(value: KeyframeValue, channel: number): number {
+  if (Array.isArray(value)) return value[channel];
+  return typeof value === 'number' ? value : 0;
+}
+
+export function setChannelValue(value: KeyframeValue, channel: number, channelValue: number): KeyframeValue {
+  if (!Array.isArray(value)) return channelValue;
+  const updated = [...value];
+  updated[channel] = channelValue;
+  return updated;
+}
+
+/**
+ * Handles computed from the neighbouring keys.
+ * Vector handles point a third of the way to the neighbours. Auto-clamped handles
+ * follow the slope between the neighbours, flattened on extremes and at the ends
+ * so the curve doesn't overshoot the keys.
+ */
+function computeHandles(type: 'vector' | 'auto-clamped', keyframes: Keyframe[], index: number, channel: number): { left: KeyframeHandle; right: KeyframeHandle } {
+  const key = keyframes[index];
+  const prev = keyframes[index - 1];
+  const next = keyframes[index + 1];
+  const value = getChannelValue(key.value, channel);
+
+  const leftTime = prev ? (prev.time - key.time) * HANDLE_FRACTION : -(next ? (next.time - key.time) * HANDLE_FRACTION : DEFAULT_HANDLE_TIME);
+  const rightTime = next ? (next.time - key.time) * HANDLE_FRACTION : (prev ? (key.time - prev.time) * HANDLE_FRACTION : DEFAULT_HANDLE_TIME);
+
+  if (type === 'vector') {
+    const toward = (neighbour: Keyframe | undefined) =>
+      neighbour ? (getChannelValue(neighbour.value, channel) - value) * HANDLE_FRACTION : 0;
+    return {
+      left: { time: leftTime, value: toward(prev) },
+      right: { time: rightTime, value: toward(next) },
+    };
+  }
+
+  let slope = 0;
+  if (prev && next && next.time > prev.time) {
+    const prevValue = getChannelValue(prev.value, channel);
+    const nextValue = getChannelValue(next.value, channel);
+    const isExtreme = (value >= prevValue && value >= nextValue) || (value <= prevValue && value <= nextValue);
+    if (!isExtreme) {
+      slope = (nextValue - prevValue) / (next.time - prev.time);
+
+      // Clamp so neither handle passes its neighbour's value
+      const leftLimit = Math.abs((prevValue - value) / (leftTime || -1));
+      const rightLimit = Math.abs((nextValue - value) / (rightTime || 1));
+      slope = Math.sign(slope) * Math.min(Math.abs(slope), leftLimit, rightLimit);
+    }
+  }
+
+  return {
+    left: { time: leftTime, value: slope * leftTime },
+    right: { time: rightTime, value: slope * rightTime },
+  };
+}
+
+/**
+ * Recompute vector and auto-clamped handles after keys changed.
+ * Keyframes must be sorted by time.
+ */
+export function recalculateHandles(keyframes: Keyframe[]): Keyframe[] {
+  return keyframes.map((key, index) => {
+    if (!key.tangents?.some(tangent => tangent.type === 'vector' || tangent.type === 'auto-clamped')) return key;
+
+    return {
+      ...key,
+      tangents: key.tangents.map((tangent, channel) =>
+        tangent.type === 'vector' || tangent.type === 'auto-clamped'
+          ? { type: tangent.type, ...computeHandles(tangent.type, keyframes, index, channel) }
+          : tangent
+      ),
+    };
+  });
+}
+
+/**
+ * Tangents of every channel of a keyframe, auto-clamped where it has none yet
+ */
+function withTangents(keyframes: Keyframe[], index: number): KeyframeTangent[] {
+  const key = keyframes[index];
+  return Array.from({ length: getChannelCount(key.value) }, (_, i) =>
+    key.tangents?.[i] || { type: 'auto-clamped', ...computeHandles('auto-clamped', keyframes, index, i) }
+  );
+}
+
+/**
+ * Give a keyframe channel a handle type, switching its outgoing segment to bezier.
+ * Free and aligned handles start from the auto-clamped shape, so the curve doesn't jump.
+ * Neighbouring keys get handles too, since a segment is shaped by the handles at both ends.
+ */
+export function setHandleType(keyframes: Keyframe[], index: number, channel: number, type: HandleType): Keyframe[] {
+  const key = keyframes[index];
+  if (channel >= getChannelCount(key.value)) return keyframes;
+
+  const updated = [...keyframes];
+  for (const neighbour of [index - 1, index + 1]) {
+    const other = keyframes[neighbour];
+    if (other && !other.tangents && getChannelCount(other.value) === getChannelCount(key.value)) {
+      updated[neighbour] = { ...other, tangents: withTangents(keyframes, neighbour) };
+    }
+  }
+
+  const tangents = withTangents(keyframes, index);
+  const current = tangents[channel];
+  tangents[channel] = type === 'vector' || type === 'auto-clamped'
+    ? { type, ...computeHandles(type, keyframes, index, channel) }
+    : { ...current, type };
+  if (type === 'aligned') {
+    tangents[channel] = alignHandles(tangents[channel], 'right');
+  }
+
+  updated[index] = { ...key, interpolation: 'bezier', tangents };
+  return updated;
+}
+
+/**
+ * Point the handle opposite `fixed` directly away from it, keeping its length
+ */
+export function alignHandles(tangent: KeyframeTangent, fixed: 'left' | 'right'): KeyframeTangent {
+  const source = tangent[fixed];
+  const otherSide = fixed === 'left' ? 'right' : 'left';
+  const other = tangent[otherSide];
+
+  const sourceLength = Math.hypot(source.time, source.value);
+  const otherLength = Math.hypot(other.time, other.value);
+  if (sourceLength === 0) return tangent;
+
+  const scale = -otherLength / sourceLength;
+  return { ...tangent, [otherSide]: { time: source.time * scale, value: source.value * scale } };
+}
+
+/**
+ * Move one handle of a keyframe channel. Left handles stay before the key and right
+ * handles after it. Dragging computed handles makes them editable: auto-clamped
+ * becomes aligned, vector becomes free.
+ */
+export function moveHandle(keyframes: Keyframe[], index: number, channel: number, side: 'left' | 'right', handle: KeyframeHandle): Keyframe[] {
+  const prepared = keyframes[index].tangents?.[channel] ? keyframes : setHandleType(keyframes, index, channel, 'auto-clamped');
+  const key = prepared[index];
+  const tangent = key.tangents![channel];
+
+  const time = side === 'left' ? Math.min(handle.time, 0) : Math.max(handle.time, 0);
+  const type: HandleType = tangent.type === 'auto-clamped' ? 'aligned' : tangent.type === 'vector' ? 'free' : tangent.type;
+  let moved: KeyframeTangent = { ...tangent, type, [side]: { time, value: handle.value } };
+  if (type === 'aligned') {
+    moved = alignHandles(moved, side);
+  }
+
+  const tangents = [...key.tangents!];
+  tangents[channel] = moved;
+  const updated = [...prepared];
+  updated[index] = { ...key, interpolation: 'bezier', tangents };
+  return updated;
+}
+
+/**
+ * Apply a time and per-channel value change to the selected keys.
+ * A keyframe moves in time once however many of its channels are selected.
+ */
+function transformKeys(
+  tracks: AnimationTrack[],
+  selection: KeySelection[],
+  transformTime: (time: number) => number,
+  transformValue: (value: number, selected: KeySelection) => number,
+  transformHandle?: (handle: KeyframeHandle, selected: KeySelection) => KeyframeHandle
+): AnimationTrack[] {
+  return tracks.map(track => {
+    const selectedHere = selection.filter(s => s.trackId === track.id);
+    if (selectedHere.length === 0) return track;
+
+    const keyframes = track.keyframes.map(key => {
+      const channels = selectedHere.filter(s => s.keyframeId === key.id);
+      if (channels.length === 0) return key;
+
+      let value: KeyframeValue = key.value;
+      let tangents = key.tangents;
+      for (const selected of channels) {
+        value = setChannelValue(value, selected.channel, transformValue(getChannelValue(value, selected.channel), selected));
+
+        const tangent = tangents?.[selected.channel];
+        if (transformHandle && tangent) {
+          tangents = [...tangents!];
+          tangents[selected.channel] = {
+            ...tangent,
+            left: transformHandle(tangent.left, selected),
+            right: transformHandle(tangent.right, selected),
+          };
+        }
+      }
+
+      return { ...key, time: transformTime(key.time), value, tangents };
+    });
+
+    keyframes.sort((a, b) => a.time - b.time);
+    return { ...track, keyframes: recalculateHandles(keyframes) };
+  });
+}
+
+/**
+ * Move the selected keys by a time offset and a value offset for each selected channel
+ */
+export function moveKeys(
+  tracks: AnimationTrack[],
+  selection: KeySelection[],
+  timeOffset: number,
+  valueOffset: (selected: KeySelection) => number
+): AnimationTrack[] {
+  return transformKeys(
+    tracks,
+    selection,
+    time => Math.max(0, time + timeOffset),
+    (value, selected) => value + valueOffset(selected)
+  );
+}
+
+/**
+ * Scale the selected keys about the centre of the selection: in time about the
+ * middle of the selected keys, in value about the middle of each channel's selected values.
+ * Handles scale with the keys.
+ */
+export function scaleKeys(
+  tracks: AnimationTrack[],
+  selection: KeySelection[],
+  timeScale: number,
+  valueScale: number
+): AnimationTrack[] {
+  const times: number[] = [];
+  const valueRanges = new Map<string, { min: number; max: number }>();
+
+  for (const selected of selection) {
+    const key = tracks.find(t => t.id === selected.trackId)?.keyframes.find(k => k.id === selected.keyframeId);
+    if (!key) continue;
+
+    times.push(key.time);
+    const channelKey = `${selected.trackId}:${selected.channel}`;
+    const value = getChannelValue(key.value, selected.channel);
+    const range = valueRanges.get(channelKey);
+    valueRanges.set(channelKey, range
+      ? { min: Math.min(range.min, value), max: Math.max(range.max, value) }
+      : { min: value, max: value });
+  }
+  if (times.length === 0) return tracks;
+
+  const timePivot = (Math.min(...times) + Math.max(...times)) / 2;
+  const valuePivot = (selected: KeySelection) => {
+    const range = valueRanges.get(`${selected.trackId}:${selected.channel}`)!;
+    return (range.min + range.max) / 2;
+  };
+
+  return transformKeys(
+    tracks,
+    selection,
+    time => Math.max(0, timePivot + (time - timePivot) * timeScale),
+    (value, selected) => valuePivot(selected) + (value - valuePivot(selected)) * valueScale,
+    handle => ({ time: handle.time * Math.abs(timeScale), value: handle.value * valueScale })
+  );
+}
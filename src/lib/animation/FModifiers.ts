@@ -0,0 +1,256 @@
+/**
+ * F-Curve Modifiers
+ *
+ * Procedural modifiers stacked on an AnimationTrack and evaluated on top of its
+ * keyframe curve: Cycles, Stepped and Limits change the time the keys are sampled
+ * at, Noise, Generator, Envelope and Limits reshape the sampled value.
+ */
+
+import {
+  Animation,
+  AnimationTrack,
+  CyclesModifier,
+  EnvelopeModifier,
+  FModifier,
+  FModifierType,
+  Keyframe,
+} from '../../stores/animationStore';
+import { getValueAtTime, lerp } from './Interpolators';
+
+/** Display names, in the order modifiers are offered */
+export const FMODIFIER_LABELS: Record<FModifierType, string> = {
+  cycles: 'Cycles',
+  noise: 'Noise',
+  generator: 'Generator',
+  envelope: 'Envelope',
+  stepped: 'Stepped',
+  limits: 'Limits',
+};
+
+function generateId(): string {
+  return `fmod_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * A modifier of the given type with default settings
+ */
+export function createFModifier(type: FModifierType): FModifier {
+  const base = { id: generateId(), enabled: true };
+  switch (type) {
+    case 'cycles':
+      return { ...base, type, before: 'repeat', after: 'repeat', beforeCount: 0, afterCount: 0 };
+    case 'noise':
+      return { ...base, type, amplitude: 0.1, frequency: 2, seed: 0 };
+    case 'generator':
+      return { ...base, type, coefficients: [0, 1], additive: true };
+    case 'envelope':
+      return { ...base, type, min: -1, max: 1, points: [] };
+    case 'stepped':
+      return { ...base, type, step: 0.1, offset: 0 };
+    case 'limits':
+      return { ...base, type };
+  }
+}
+
+/**
+ * Apply a function to each numeric channel of a value (numbers and number arrays).
+ * Other values (colors, booleans) pass through unchanged.
+ */
+function mapChannels(value: any, fn: (channelValue: number, channel: number) => number): any {
+  if (typeof value === 'number') return fn(value, 0);
+  if (Array.isArray(value) && value.every(v => typeof v === 'number')) return value.map(fn);
+  return value;
+}
+
+function clamp(value: number, min?: number, max?: number): number {
+  if (min !== undefined && value < min) value = min;
+  if (max !== undefined && value > max) value = max;
+  return value;
+}
+
+/**
+ * Seeded random value in -1..1 for a lattice point
+ */
+function hash(index: number, seed: number): number {
+  let h = Math.imul(index, 374761393) ^ Math.imul(seed + 1, 668265263);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return ((h >>> 0) / 0xffffffff) * 2 - 1;
+}
+
+/**
+ * Smooth 1D value noise in -1..1: seeded random values at whole numbers, eased between
+ */
+export function noise1D(x: number, seed: number): number {
+  const i = Math.floor(x);
+  const f = x - i;
+  return lerp(hash(i, seed), hash(i + 1, seed), f * f * (3 - 2 * f));
+}
+
+/**
+ * Time within the keyed range a Cycles modifier maps a time to, and the cycle it's in
+ * (negative before the keys, 0 inside them)
+ */
+function applyCycles(modifier: CyclesModifier, keyframes: Keyframe[], time: number): { time: number; cycle: number } {
+  const start = keyframes[0].time;
+  const end = keyframes[keyframes.length - 1].time;
+  const length = end - start;
+  if (length <= 0 || (time >= start && time <= end)) return { time, cycle: 0 };
+
+  const isBefore = time < start;
+  const mode = isBefore ? modifier.before : modifier.after;
+  const count = isBefore ? modifier.beforeCount : modifier.afterCount;
+  if (mode === 'none') return { time, cycle: 0 };
+
+  let cycle = Math.floor((time - start) / length);
+  let local = time - start - cycle * length;
+
+  // Past the last allowed cycle, hold its end
+  if (count > 0 && Math.abs(cycle) > count) {
+    cycle = isBefore ? -count : count;
+    local = isBefore ? 0 : length;
+  }
+
+  if (mode === 'mirror' && Math.abs(cycle) % 2 === 1) {
+    local = length - local;
+  }
+  return { time: start + local, cycle: mode === 'repeat-offset' ? cycle : 0 };
+}
+
+/**
+ * Range an Envelope maps its reference range onto at a time, between its control points
+ */
+function getEnvelopeRange(modifier: EnvelopeModifier, time: number): { min: number; max: number } | null {
+  const points = [...modifier.points].sort((a, b) => a.time - b.time);
+  if (points.length === 0) return null;
+
+  if (time <= points[0].time) return points[0];
+  const last = points[points.length - 1];
+  if (time >= last.time) return last;
+
+  const nextIndex = points.findIndex(point => point.time > time);
+  const prev = points[nextIndex - 1];
+  const next = points[nextIndex];
+  const t = (time - prev.time) / (next.time - prev.time);
+  return { min: lerp(prev.min, next.min, t), max: lerp(prev.max, next.max, t) };
+}
+
+/**
+ * Reshape a value with a value modifier at the time the modifier sees
+ */
+function applyValueModifier(modifier: FModifier, value: any, time: number): any {
+  switch (modifier.type) {
+    case 'noise':
+      // Each channel gets its own noise so vectors don't shake along a diagonal
+      return mapChannels(value, (v, channel) =>
+        v + modifier.amplitude * noise1D(time * modifier.frequency, modifier.seed + channel * 1013));
+
+    case 'generator': {
+      const polynomial = modifier.coefficients.reduceRight((sum, coefficient) => sum * time + coefficient, 0);
+      return mapChannels(value, v => (modifier.additive ? v + polynomial : polynomial));
+    }
+
+    case 'envelope': {
+      const range = getEnvelopeRange(modifier, time);
+      const reference = modifier.max - modifier.min;
+      if (!range || reference === 0) return value;
+      return mapChannels(value, v => range.min + ((v - modifier.min) / reference) * (range.max - range.min));
+    }
+
+    case 'limits':
+      return mapChannels(value, v => clamp(v, modifier.minValue, modifier.maxValue));
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Value of a track at a time, with its modifiers applied.
+ *
+ * Modifiers run in stack order and each one sees the time as changed by the
+ * modifiers before it, so Noise above Cycles keeps going while Noise below
+ * Cycles repeats with the keys. Keys are sampled at the time after every modifier.
+ */
+export function evaluateTrack(track: AnimationTrack, time: number): any {
+  const modifiers = track.modifiers?.filter(modifier => modifier.enabled) ?? [];
+  if (modifiers.length === 0 || track.keyframes.length === 0) {
+    return getValueAtTime(track.keyframes, time);
+  }
+
+  let sampleTime = time;
+  let cycleOffset = 0;
+  const valueModifiers: Array<{ modifier: FModifier; time: number }> = [];
+
+  for (const modifier of modifiers) {
+    if (modifier.type === 'cycles') {
+      const cycled = applyCycles(modifier, track.keyframes, sampleTime);
+      sampleTime = cycled.time;
+      cycleOffset += cycled.cycle;
+    } else if (modifier.type === 'stepped') {
+      if (modifier.step > 0) {
+        sampleTime = modifier.offset + Math.floor((sampleTime - modifier.offset) / modifier.step + 1e-9) * modifier.step;
+      }
+    } else {
+      if (modifier.type === 'limits') {
+        sampleTime = clamp(sampleTime, modifier.minTime, modifier.maxTime);
+      }
+      valueModifiers.push({ modifier, time: sampleTime });
+    }
+  }
+
+  let value = getValueAtTime(track.keyframes, sampleTime);
+
+  // Repeat-offset cycles continue from where the previous cycle ended
+  if (cycleOffset !== 0) {
+    const first = track.keyframes[0].value;
+    const last = track.keyframes[track.keyframes.length - 1].value;
+    value = mapChannels(value, (v, channel) => {
+      const delta = Array.isArray(last) ? last[channel] - first[channel] : last - first;
+      return v + cycleOffset * delta;
+    });
+  }
+
+  for (const { modifier, time: modifierTime } of valueModifiers) {
+    value = applyValueModifier(modifier, value, modifierTime);
+  }
+
+  // Bone rotations are quaternions, which per-channel modifiers denormalize
+  if (track.property === 'boneTransform' && track.transformType === 'rotation' && Array.isArray(value) && value.length === 4) {
+    const length = Math.hypot(...value);
+    if (length > 0) value = value.map((v: number) => v / length);
+  }
+
+  return value;
+}
+
+/**
+ * Replace the tracks with modifiers by a linear key per frame over the animation,
+ * for exporters that only read keyframes
+ */
+export function bakeFModifiers(animation: Animation, fps: number = 30): Animation {
+  if (!animation.tracks.some(track => track.modifiers?.some(modifier => modifier.enabled))) {
+    return animation;
+  }
+
+  const frameCount = Math.max(1, Math.ceil(animation.duration * fps - 1e-6));
+  const tracks = animation.tracks.map(track => {
+    if (!track.modifiers?.some(modifier => modifier.enabled) || track.keyframes.length === 0) return track;
+
+    const keyframes: Keyframe[] = [];
+    for (let frame = 0; frame <= frameCount; frame++) {
+      const time = Math.min(frame / fps, animation.duration);
+      const value = evaluateTrack(track, time);
+      keyframes.push({
+        id: `${track.id}_${frame}`,
+        time,
+        value,
+        interpolation: typeof value === 'number' || Array.isArray(value) || typeof value === 'string' ? 'linear' : 'step',
+      });
+    }
+
+    return { ...track, keyframes, modifiers: undefined };
+  });
+
+  return { ...animation, tracks };
+}
@@ -6,6 +6,7 @@
  */
 
 import * as THREE from 'three';
+import type { KeyframeHandle, KeyframeTangent } from '../../stores/animationStore';
 
 /**
  * Linear interpolation between two values
@@ -86,6 +87,66 @@ export function bezierInterpolate(
   return lerp(a, b, easedT);
 }
 
+/**
+ * Parameter of a cubic bezier whose coordinate is monotonic (x0 <= x1 <= x2 <= x3)
+ * at which it reaches x. Newton steps, falling back to bisection, to full precision.
+ */
+function solveMonotonicBezier(x: number, x0: number, x1: number, x2: number, x3: number): number {
+  let lo = 0;
+  let hi = 1;
+  let s = x3 > x0 ? (x - x0) / (x3 - x0) : 0;
+
+  for (let i = 0; i < 64; i++) {
+    const error = cubicBezier(s, x0, x1, x2, x3) - x;
+    if (Math.abs(error) < 1e-12) break;
+    if (error > 0) hi = s;
+    else lo = s;
+
+    const u = 1 - s;
+    const slope = 3 * u * u * (x1 - x0) + 6 * u * s * (x2 - x1) + 3 * s * s * (x3 - x2);
+    let next = slope > 1e-12 ? s - error / slope : (lo + hi) / 2;
+    if (next <= lo || next >= hi) next = (lo + hi) / 2;
+    s = next;
+  }
+
+  return s;
+}
+
+/**
+ * Value at a time on the F-curve segment between two keys, shaped by the first
+ * key's right handle and the second key's left handle. Handles reaching past
+ * each other in time are shortened in proportion, so the curve never turns back.
+ */
+export function bezierSegmentValue(
+  t0: number,
+  v0: number,
+  right: KeyframeHandle,
+  t1: number,
+  v1: number,
+  left: KeyframeHandle,
+  time: number
+): number {
+  const span = t1 - t0;
+  if (span <= 0) return v1;
+
+  let rightTime = Math.max(0, right.time);
+  let rightValue = right.value;
+  let leftTime = Math.max(0, -left.time);
+  let leftValue = left.value;
+
+  const reach = rightTime + leftTime;
+  if (reach > span) {
+    const factor = span / reach;
+    rightTime *= factor;
+    rightValue *= factor;
+    leftTime *= factor;
+    leftValue *= factor;
+  }
+
+  const s = solveMonotonicBezier(time, t0, t0 + rightTime, t1 - leftTime, t1);
+  return cubicBezier(s, v0, v0 + rightValue, v1 + leftValue, v1);
+}
+
 /**
  * Step interpolation (no interpolation, instant change)
  */
@@ -155,7 +216,13 @@ export function interpolate(
  * Get value at specific time from sorted keyframes
  */
 export function getValueAtTime(
-  keyframes: Array<{ time: number; value: any; interpolation?: 'linear' | 'bezier' | 'step'; easing?: [number, number, number, number] }>,
+  keyframes: Array<{
+    time: number;
+    value: any;
+    interpolation?: 'linear' | 'bezier' | 'step';
+    easing?: [number, number, number, number];
+    tangents?: KeyframeTangent[];
+  }>,
   time: number
 ): any {
   if (keyframes.length === 0) return null;
@@ -182,6 +249,24 @@ export function getValueAtTime(
       const mode = current.interpolation || 'linear';
       const easing = current.easing;
 
+      // Graph editor handles shape each channel of the segment
+      if (mode === 'bezier' && current.tangents && next.tangents) {
+        const channel = (a: number, b: number, index: number) => {
+          const outgoing = current.tangents![index];
+          const incoming = next.tangents![index];
+          return outgoing && incoming
+            ? bezierSegmentValue(current.time, a, outgoing.right, next.time, b, incoming.left, time)
+            : lerp(a, b, t);
+        };
+
+        if (typeof current.value === 'number' && typeof next.value === 'number') {
+          return channel(current.value, next.value, 0);
+        }
+        if (Array.isArray(current.value) && Array.isArray(next.value) && current.value.length === next.value.length) {
+          return current.value.map((a: number, i: number) => channel(a, next.value[i], i));
+        }
+      }
+
       return interpolate(current.value, next.value, t, mode, easing);
     }
   }
@@ -0,0 +1,234 @@
+/**
+ * NLA Evaluator
+ *
+ * Evaluates stacks of NLA layers (see nlaStore) into one value per animated
+ * channel, and bakes the result into a single Animation for export.
+ */
+
+import * as THREE from 'three';
+import { Animation, AnimationTrack, Keyframe, KeyframeValue } from '../../stores/animationStore';
+import { NLABlendMode, NLALayer, NLAStrip, getStripEnd } from '../../stores/nlaStore';
+import { lerp, lerpColor } from './Interpolators';
+import { evaluateTrack } from './FModifiers';
+
+/** Value of one animated channel, with a track describing where it goes */
+export interface NLAChannel {
+  track: AnimationTrack;
+  value: KeyframeValue;
+}
+
+export interface NLAEvaluateOptions {
+  /** Parent of a scene object; layers play the tracks of their owner's descendants (an armature's bones) */
+  parentOf?: (objectId: string) => string | undefined;
+}
+
+export interface NLABakeOptions extends NLAEvaluateOptions {
+  name?: string;
+  fps?: number;
+}
+
+/**
+ * Time in the strip's animation at a scene time (null outside the strip)
+ */
+export function getStripActionTime(strip: NLAStrip, time: number): number | null {
+  if (time < strip.start || time > getStripEnd(strip)) return null;
+
+  const range = strip.actionEnd - strip.actionStart;
+  const played = Math.min((time - strip.start) / strip.scale, range * strip.repeat);
+  const cycle = played % range;
+
+  // The end of each repeat plays the last frame rather than wrapping to the first
+  return strip.actionStart + (cycle === 0 && played > 0 ? range : cycle);
+}
+
+/**
+ * Strip weight at a scene time, ramping over its blend-in and blend-out
+ */
+export function getStripInfluence(strip: NLAStrip, time: number): number {
+  const end = getStripEnd(strip);
+  if (time < strip.start || time > end) return 0;
+
+  let influence = 1;
+  if (strip.blendIn > 0) influence = Math.min(influence, (time - strip.start) / strip.blendIn);
+  if (strip.blendOut > 0) influence = Math.min(influence, (end - time) / strip.blendOut);
+  return Math.min(Math.max(influence, 0), 1);
+}
+
+/**
+ * Identifies the property a track animates, so tracks of different animations can be blended
+ */
+export function trackChannelKey(track: AnimationTrack): string {
+  return [track.objectId, track.propertyPath.join('.'), track.shapeKeyId ?? '', track.latticePointIndex ?? ''].join('|');
+}
+
+/**
+ * Blend a layer's value over the result of the layers below it.
+ *
+ * Without anything below, replace layers set their value outright and additive
+ * layers add to zero. Values that can't be added (colors, booleans) mix as in replace mode.
+ */
+export function blendNLAValue(
+  base: KeyframeValue | undefined,
+  value: KeyframeValue,
+  weight: number,
+  mode: NLABlendMode
+): KeyframeValue {
+  if (typeof value === 'number') {
+    const from = typeof base === 'number' ? base : undefined;
+    if (mode === 'additive') return (from ?? 0) + value * weight;
+    return from === undefined ? value : lerp(from, value, weight);
+  }
+
+  if (Array.isArray(value) && value.every(v => typeof v === 'number')) {
+    const from = Array.isArray(base) && base.length === value.length ? base : undefined;
+
+    // Bone rotations are quaternions
+    if (value.length === 4) {
+      const q = new THREE.Quaternion().fromArray(value);
+      const start = from ? new THREE.Quaternion().fromArray(from) : new THREE.Quaternion();
+      if (mode === 'additive') {
+        return start.multiply(new THREE.Quaternion().slerp(q, weight)).toArray();
+      }
+      return from ? start.slerp(q, weight).toArray() : value;
+    }
+
+    if (mode === 'additive') return value.map((v, i) => (from ? from[i] : 0) + v * weight);
+    return from ? value.map((v, i) => lerp(from[i], v, weight)) : value;
+  }
+
+  if (base === undefined || base === null) return value;
+
+  if (typeof value === 'string' && typeof base === 'string' && value.startsWith('#') && base.startsWith('#')) {
+    return lerpColor(base, value, weight);
+  }
+
+  return weight >= 0.5 ? value : base;
+}
+
+/**
+ * Evaluate NLA layers at a scene time, bottom layer first.
+ * Returns the blended value of every channel any playing strip animates.
+ */
+export function evaluateNLA(
+  layers: NLALayer[],
+  animations: Map<string, Animation>,
+  time: number,
+  options: NLAEvaluateOptions = {}
+): Map<string, NLAChannel> {
+  const channels = new Map<string, NLAChannel>();
+
+  for (const layer of layers) {
+    if (layer.muted || layer.influence <= 0) continue;
+
+    for (const strip of layer.strips) {
+      const animation = animations.get(strip.animationId);
+      if (strip.muted || !animation) continue;
+
+      const actionTime = getStripActionTime(strip, time);
+      if (actionTime === null) continue;
+
+      const weight = layer.influence * getStripInfluence(strip, time);
+      if (weight <= 0) continue;
+
+      for (const track of animation.tracks) {
+        if (!track.enabled || !isOwnedBy(track.objectId, layer.objectId, options.parentOf)) continue;
+
+        const value = evaluateTrack(track, actionTime);
+        if (value === null) continue;
+
+        const key = trackChannelKey(track);
+        const below = channels.get(key);
+        channels.set(key, {
+          track: below?.track ?? track,
+          value: blendNLAValue(below?.value, value, weight, layer.blendMode),
+        });
+      }
+    }
+  }
+
+  return channels;
+}
+
+/**
+ * Animations on strips that play (neither the strip nor its layer is muted)
+ */
+export function getPlayingAnimationIds(layers: NLALayer[]): Set<string> {
+  return new Set(layers
+    .filter(layer => !layer.muted)
+    .flatMap(layer => layer.strips.filter(strip => !strip.muted).map(strip => strip.animationId)));
+}
+
+/**
+ * Scene time the last playing strip ends at
+ */
+export function getNLAEnd(layers: NLALayer[]): number {
+  let end = 0;
+  for (const layer of layers) {
+    if (layer.muted) continue;
+    for (const strip of layer.strips) {
+      if (!strip.muted) end = Math.max(end, getStripEnd(strip));
+    }
+  }
+  return end;
+}
+
+/**
+ * Sample NLA layers into one Animation with a linear key per frame on every channel.
+ * A channel no strip plays at some frame gets no key there, so it holds as in the editor.
+ */
+export function bakeNLA(
+  layers: NLALayer[],
+  animations: Map<string, Animation>,
+  options: NLABakeOptions = {}
+): Animation | null {
+  const duration = getNLAEnd(layers);
+  if (duration <= 0) return null;
+
+  const fps = options.fps ?? 30;
+  const frameCount = Math.max(1, Math.ceil(duration * fps - 1e-6));
+  const tracks = new Map<string, AnimationTrack>();
+
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const time = Math.min(frame / fps, duration);
+
+    evaluateNLA(layers, animations, time, options).forEach(({ track, value }, key) => {
+      let baked = tracks.get(key);
+      if (!baked) {
+        baked = { ...track, id: `track_nla_${tracks.size}`, keyframes: [], enabled: true, modifiers: undefined };
+        tracks.set(key, baked);
+      }
+
+      const keyframe: Keyframe = {
+        id: `${baked.id}_${frame}`,
+        time,
+        value,
+        interpolation: typeof value === 'number' || Array.isArray(value) || typeof value === 'string' ? 'linear' : 'step',
+      };
+      baked.keyframes.push(keyframe);
+    });
+  }
+
+  const now = Date.now();
+  return {
+    id: `anim_nla_${now}`,
+    name: options.name || 'NLA',
+    duration,
+    tracks: Array.from(tracks.values()),
+    loop: false,
+    enabled: true,
+    createdAt: now,
+    modifiedAt: now,
+  };
+}
+
+function isOwnedBy(objectId: string, ownerId: string, parentOf?: (objectId: string) => string | undefined): boolean {
+  const seen = new Set<string>();
+  let current: string | undefined = objectId;
+
+  while (current !== undefined && !seen.has(current)) {
+    if (current === ownerId) return true;
+    seen.add(current);
+    current = parentOf?.(current);
+  }
+  return false;
+}
@@ -0,0 +1,459 @@
+/**
+ * Animation Retargeting
+ *
+ * Transfers a bone animation from one armature to another. Source bones are
+ * mapped to target bones (auto-matched by name or edited by hand), and the
+ * source pose is resampled onto the target every frame:
+ *
+ * - Rotations are carried over in armature space, so differences in hierarchy
+ *   (extra or missing bones between mapped ones) don't skew the result.
+ * - With rest-pose matching, each target bone is turned to point the way its
+ *   source bone points, compensating for different rest poses (T-pose vs A-pose)
+ *   and bone axes.
+ * - Only the topmost mapped bones (usually the hips) take translation, scaled by
+ *   the ratio of skeleton heights; other bones keep the target's own lengths.
+ */
+
+import * as THREE from 'three';
+import { SceneObject, useObjectsStore } from '../../stores/objectsStore';
+import { useBoneStore } from '../../stores/boneStore';
+import { Animation, AnimationTrack, Keyframe, KeyframeValue } from '../../stores/animationStore';
+import { evaluateTrack } from './FModifiers';
+
+// Source bone ID -> target bone ID
+export type BoneMap = Record<string, string>;
+
+// Source bone name -> target bone name, for presets that outlive bone IDs
+export type BoneNameMap = Record<string, string>;
+
+export type BoneSide = 'left' | 'right' | null;
+
+export interface ParsedBoneName {
+  side: BoneSide;
+  part: string;              // Canonical body part, e.g. 'upperarm', or the bone's own name
+  index: number | null;      // Trailing number, e.g. 2 for Spine2 or spine_02
+}
+
+export interface RetargetOptions {
+  sourceArmatureId: string;
+  targetArmatureId: string;
+  boneMap: BoneMap;
+  matchRestPose?: boolean;   // Turn target bones to point like their source bones (default true)
+  rootMotion?: boolean;      // Carry over translation of the topmost mapped bones (default true)
+  scaleRootMotion?: boolean; // Scale translation by the ratio of skeleton heights (default true)
+  frameRate?: number;        // Samples per second (default 30)
+  name?: string;
+}
+
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+const IDENTITY = new THREE.Quaternion();
+
+// Name tokens that say nothing about the body part (rig namespaces and prefixes)
+const PREFIX_TOKENS = new Set(['mixamorig', 'def', 'org', 'mch', 'bip', 'cc', 'base', 'armature']);
+
+// Canonical body parts by the tokens (joined) rigs commonly use for them
+const PART_SYNONYMS: Record<string, string> = {
+  hips: 'hips', hip: 'hips', pelvis: 'hips',
+  spine: 'spine', chest: 'chest', upperchest: 'chest',
+  neck: 'neck', head: 'head',
+  shoulder: 'shoulder', clavicle: 'shoulder', collar: 'shoulder', collarbone: 'shoulder',
+  arm: 'upperarm', upperarm: 'upperarm', uparm: 'upperarm',
+  forearm: 'forearm', lowerarm: 'forearm', elbow: 'forearm',
+  hand: 'hand', wrist: 'hand',
+  upleg: 'thigh', upperleg: 'thigh', thigh: 'thigh',
+  leg: 'shin', lowerleg: 'shin', calf: 'shin', shin: 'shin', knee: 'shin',
+  foot: 'foot', ankle: 'foot',
+  toe: 'toe', toes: 'toe', toebase: 'toe', ball: 'toe',
+  thumb: 'thumb', index: 'index', middle: 'middle', ring: 'ring', pinky: 'pinky', little: 'pinky',
+};
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Lowercase words and numbers in a bone name, without namespace or rig prefixes:
+ * "mixamorig:LeftHandThumb1" -> ['left', 'hand', 'thumb', '1']
+ */
+function tokenizeBoneName(name: string): string[] {
+  const tokens = name
+    .split(/[:|]/)
+    .pop()!
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/([A-Za-z])(\d)/g, '$1 $2')
+    .replace(/(\d)([A-Za-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+  // Drop prefixes like "mixamorig_" or "Bip01 ", keeping at least one token
+  while (tokens.length > 1 && PREFIX_TOKENS.has(tokens[0])) {
+    tokens.shift();
+    if (tokens.length > 1 && /^\d+$/.test(tokens[0])) tokens.shift();
+  }
+  return tokens;
+}
+
+/**
+ * Side, canonical body part and number of a bone name, e.g. "upperarm_l",
+ * "LeftArm" and "upper_arm.L" all parse as the left upper arm.
+ */
+export function parseBoneName(name: string): ParsedBoneName {
+  let side: BoneSide = null;
+  let index: number | null = null;
+  const words: string[] = [];
+
+  for (const token of tokenizeBoneName(name)) {
+    if (token === 'l' || token === 'left') side = 'left';
+    else if (token === 'r' || token === 'right') side = 'right';
+    else if (/^\d+$/.test(token)) index = parseInt(token, 10);
+    else words.push(token);
+  }
+
+  let joined = words.join('');
+  // Mixamo fingers are named after the hand: LeftHandIndex1
+  if (joined.startsWith('hand') && PART_SYNONYMS[joined.slice(4)]) {
+    joined = joined.slice(4);
+  }
+
+  return { side, part: PART_SYNONYMS[joined] || joined, index };
+}
+
+/**
+ * Map source bones to target bones by name: identical names first, then bones
+ * for the same body part and side, paired in order along chains (so Spine,
+ * Spine1, Spine2 match spine_01, spine_02, spine_03).
+ */
+export function autoMatchBones(sourceBones: SceneObject[], targetBones: SceneObject[]): BoneMap {
+  const boneMap: BoneMap = {};
+  const usedTargets = new Set<string>();
+
+  const plainName = (bone: SceneObject) => tokenizeBoneName(bone.name).join('');
+  const targetsByName = new Map<string, SceneObject>();
+  for (const bone of targetBones) {
+    if (!targetsByName.has(plainName(bone))) targetsByName.set(plainName(bone), bone);
+  }
+
+  for (const bone of sourceBones) {
+    const target = targetsByName.get(plainName(bone));
+    if (target && !usedTargets.has(target.id)) {
+      boneMap[bone.id] = target.id;
+      usedTargets.add(target.id);
+    }
+  }
+
+  // Group the rest by side and part, keeping hierarchy order within groups
+  const group = (bones: SceneObject[], skip: (bone: SceneObject) => boolean) => {
+    const groups = new Map<string, { bone: SceneObject; index: number | null }[]>();
+    for (const bone of bones) {
+      if (skip(bone)) continue;
+      const { side, part, index } = parseBoneName(bone.name);
+      const key = `${side}:${part}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push({ bone, index });
+    }
+    // Unnumbered bones come first in a chain: Spine before Spine1
+    groups.forEach(entries => entries.sort((a, b) => (a.index ?? -1) - (b.index ?? -1)));
+    return groups;
+  };
+
+  const sourceGroups = group(sourceBones, bone => bone.id in boneMap);
+  const targetGroups = group(targetBones, bone => usedTargets.has(bone.id));
+
+  sourceGroups.forEach((sources, key) => {
+    const targets = targetGroups.get(key);
+    if (!targets) return;
+    for (let i = 0; i < Math.min(sources.length, targets.length); i++) {
+      boneMap[sources[i].bone.id] = targets[i].bone.id;
+    }
+  });
+
+  return boneMap;
+}
+
+/**
+ * Bone map by bone names, for saving as a preset
+ */
+export function boneMapToNames(boneMap: BoneMap, sourceBones: SceneObject[], targetBones: SceneObject[]): BoneNameMap {
+  const names: BoneNameMap = {};
+  for (const [sourceId, targetId] of Object.entries(boneMap)) {
+    const source = sourceBones.find(bone => bone.id === sourceId);
+    const target = targetBones.find(bone => bone.id === targetId);
+    if (source && target) names[source.name] = target.name;
+  }
+  return names;
+}
+
+/**
+ * Bone map for two armatures from a preset, skipping names neither armature has
+ */
+export function boneMapFromNames(names: BoneNameMap, sourceBones: SceneObject[], targetBones: SceneObject[]): BoneMap {
+  const boneMap: BoneMap = {};
+  for (const source of sourceBones) {
+    const targetName = names[source.name];
+    const target = targetName !== undefined ? targetBones.find(bone => bone.name === targetName) : undefined;
+    if (target) boneMap[source.id] = target.id;
+  }
+  return boneMap;
+}
+
+/**
+ * Armature a bone belongs to, or null
+ */
+export function findBoneArmature(boneId: string): SceneObject | null {
+  const objects = useObjectsStore.getState().objects;
+  let object = objects.get(boneId);
+  while (object) {
+    if (object.type === 'armature') return object;
+    object = object.parentId ? objects.get(object.parentId) : undefined;
+  }
+  return null;
+}
+
+/**
+ * Armatures whose bones an animation moves
+ */
+export function getAnimatedArmatureIds(animation: Animation): string[] {
+  const ids = new Set<string>();
+  for (const track of animation.tracks) {
+    if (track.property !== 'boneTransform' || !track.boneId) continue;
+    const armature = findBoneArmature(track.boneId);
+    if (armature) ids.add(armature.id);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Armature-space rotation of a bone at rest: +Y turned onto head -> tail, then rolled
+ */
+export function getBoneRestRotation(bone: SceneObject): THREE.Quaternion {
+  const rotation = new THREE.Quaternion();
+  if (!bone.boneProps) return rotation;
+
+  const { headPosition, tailPosition, roll } = bone.boneProps;
+  const direction = new THREE.Vector3(...tailPosition).sub(new THREE.Vector3(...headPosition));
+  if (direction.lengthSq() < 1e-12) return rotation;
+
+  rotation.setFromUnitVectors(Y_AXIS, direction.normalize());
+  if (roll) rotation.multiply(new THREE.Quaternion().setFromAxisAngle(Y_AXIS, roll));
+  return rotation;
+}
+
+function restPosition(bone: SceneObject): THREE.Vector3 {
+  return new THREE.Vector3(...(bone.boneProps?.headPosition || bone.position));
+}
+
+/**
+ * Vertical extent of an armature's bones at rest
+ */
+function skeletonHeight(bones: SceneObject[]): number {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const bone of bones) {
+    const points = bone.boneProps ? [bone.boneProps.headPosition, bone.boneProps.tailPosition] : [bone.position];
+    for (const point of points) {
+      min = Math.min(min, point[1]);
+      max = Math.max(max, point[1]);
+    }
+  }
+  return max > min ? max - min : 0;
+}
+
+function toQuaternion(value: KeyframeValue | null): THREE.Quaternion {
+  if (Array.isArray(value) && value.length === 4) {
+    return new THREE.Quaternion(value[0], value[1], value[2], value[3]).normalize();
+  }
+  if (Array.isArray(value) && value.length === 3) {
+    return new THREE.Quaternion().setFromEuler(new THREE.Euler(value[0], value[1], value[2]));
+  }
+  return new THREE.Quaternion();
+}
+
+/**
+ * Armature-space rotation of each bone, given local rotations. Bones must come parents first.
+ */
+function composeFrames(bones: SceneObject[], localRotation: (bone: SceneObject) => THREE.Quaternion): Map<string, THREE.Quaternion> {
+  const frames = new Map<string, THREE.Quaternion>();
+  for (const bone of bones) {
+    const parentFrame = (bone.parentId && frames.get(bone.parentId)) || IDENTITY;
+    frames.set(bone.id, parentFrame.clone().multiply(localRotation(bone)));
+  }
+  return frames;
+}
+
+function createBoneTrack(boneId: string, transformType: 'rotation' | 'position', keyframes: Keyframe[]): AnimationTrack {
+  return {
+    id: generateId('track'),
+    objectId: boneId,
+    property: 'boneTransform',
+    propertyPath: ['boneTransform', transformType],
+    keyframes,
+    enabled: true,
+    boneId,
+    transformType,
+    space: 'local',
+  };
+}
+
+/**
+ * Retarget an animation onto another armature, sampling every frame.
+ * Returns a new animation with rotation tracks for the mapped target bones
+ * (and position tracks for root motion). Throws if an armature is missing.
+ */
+export function retargetAnimation(animation: Animation, options: RetargetOptions): Animation {
+  const {
+    sourceArmatureId,
+    targetArmatureId,
+    boneMap,
+    matchRestPose = true,
+    rootMotion = true,
+    scaleRootMotion = true,
+    frameRate = 30,
+  } = options;
+
+  const objects = useObjectsStore.getState().objects;
+  const boneStore = useBoneStore.getState();
+  if (objects.get(sourceArmatureId)?.type !== 'armature') {
+    throw new Error('Source armature not found');
+  }
+  if (objects.get(targetArmatureId)?.type !== 'armature') {
+    throw new Error('Target armature not found');
+  }
+
+  const sourceBones = boneStore.getBonesByArmature(sourceArmatureId);
+  const targetBones = boneStore.getBonesByArmature(targetArmatureId);
+  const sourceById = new Map(sourceBones.map(bone => [bone.id, bone]));
+
+  // Target bone ID -> source bone; the first mapping wins if two sources share a target
+  const sourceForTarget = new Map<string, SceneObject>();
+  for (const [sourceId, targetId] of Object.entries(boneMap)) {
+    const source = sourceById.get(sourceId);
+    if (source && !sourceForTarget.has(targetId)) sourceForTarget.set(targetId, source);
+  }
+
+  // Source tracks by bone
+  const rotationTracks = new Map<string, AnimationTrack>();
+  const positionTracks = new Map<string, AnimationTrack>();
+  for (const track of animation.tracks) {
+    if (!track.enabled || track.property !== 'boneTransform' || !track.boneId || !sourceById.has(track.boneId)) continue;
+    if (track.transformType === 'rotation') rotationTracks.set(track.boneId, track);
+    else if (track.transformType === 'position') positionTracks.set(track.boneId, track);
+  }
+
+  // B_source * B_target⁻¹: turns a target bone to point like its source bone
+  const restOffsets = new Map<string, THREE.Quaternion>();
+  sourceForTarget.forEach((source, targetId) => {
+    const target = targetBones.find(bone => bone.id === targetId);
+    if (!target) return;
+    restOffsets.set(targetId, matchRestPose
+      ? getBoneRestRotation(source).multiply(getBoneRestRotation(target).invert())
+      : new THREE.Quaternion());
+  });
+
+  // Root motion goes to mapped bones without a mapped ancestor
+  const mappedSources = new Set(Array.from(sourceForTarget.values()).map(bone => bone.id));
+  const hasMappedAncestor = (bone: SceneObject) => {
+    for (let parent = bone.parentId ? sourceById.get(bone.parentId) : undefined; parent; parent = parent.parentId ? sourceById.get(parent.parentId) : undefined) {
+      if (mappedSources.has(parent.id)) return true;
+    }
+    return false;
+  };
+  const rootTargets = rootMotion
+    ? targetBones.filter(bone => {
+      const source = sourceForTarget.get(bone.id);
+      return source && positionTracks.has(source.id) && !hasMappedAncestor(source);
+    })
+    : [];
+
+  const sourceHeight = skeletonHeight(sourceBones);
+  const motionScale = scaleRootMotion && sourceHeight > 0 ? skeletonHeight(targetBones) / sourceHeight : 1;
+
+  const rotationKeys = new Map<string, Keyframe[]>();
+  const positionKeys = new Map<string, Keyframe[]>();
+  targetBones.forEach(bone => {
+    if (restOffsets.has(bone.id)) rotationKeys.set(bone.id, []);
+  });
+  rootTargets.forEach(bone => positionKeys.set(bone.id, []));
+
+  const previous = new Map<string, THREE.Quaternion>();
+  const frameCount = Math.max(1, Math.ceil(animation.duration * frameRate - 1e-6));
+
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const time = Math.min(frame / frameRate, animation.duration);
+
+    const sourceFrames = composeFrames(sourceBones, bone => {
+      const track = rotationTracks.get(bone.id);
+      return track ? toQuaternion(evaluateTrack(track, time)) : new THREE.Quaternion();
+    });
+
+    const targetFrames = new Map<string, THREE.Quaternion>();
+    for (const bone of targetBones) {
+      const parentFrame = (bone.parentId && targetFrames.get(bone.parentId)) || IDENTITY;
+      const source = sourceForTarget.get(bone.id);
+      const offset = restOffsets.get(bone.id);
+
+      if (!source || !offset) {
+        // Unmapped bones stay at rest and follow their parent
+        targetFrames.set(bone.id, parentFrame.clone());
+        continue;
+      }
+
+      const targetFrame = sourceFrames.get(source.id)!.clone().multiply(offset);
+      targetFrames.set(bone.id, targetFrame);
+
+      const local = parentFrame.clone().invert().multiply(targetFrame).normalize();
+      // Keep neighbouring keys in the same hemisphere so they interpolate the short way
+      const last = previous.get(bone.id);
+      if (last && last.dot(local) < 0) local.set(-local.x, -local.y, -local.z, -local.w);
+      previous.set(bone.id, local);
+
+      rotationKeys.get(bone.id)!.push({
+        id: generateId('kf'),
+        time,
+        value: [local.x, local.y, local.z, local.w],
+        interpolation: 'linear',
+        space: 'local',
+      });
+    }
+
+    for (const bone of rootTargets) {
+      const source = sourceForTarget.get(bone.id)!;
+      const value = evaluateTrack(positionTracks.get(source.id)!, time);
+      if (!Array.isArray(value) || value.length !== 3) continue;
+
+      // Offset from rest, moved from the source parent's frame into the target parent's
+      const sourceParentFrame = (source.parentId && sourceFrames.get(source.parentId)) || IDENTITY;
+      const targetParentFrame = (bone.parentId && targetFrames.get(bone.parentId)) || IDENTITY;
+      const offset = new THREE.Vector3(value[0], value[1], value[2])
+        .sub(restPosition(source))
+        .applyQuaternion(sourceParentFrame)
+        .applyQuaternion(targetParentFrame.clone().invert())
+        .multiplyScalar(motionScale);
+      const position = restPosition(bone).add(offset);
+
+      positionKeys.get(bone.id)!.push({
+        id: generateId('kf'),
+        time,
+        value: [position.x, position.y, position.z],
+        interpolation: 'linear',
+        space: 'local',
+      });
+    }
+  }
+
+  const tracks: AnimationTrack[] = [];
+  rotationKeys.forEach((keyframes, boneId) => tracks.push(createBoneTrack(boneId, 'rotation', keyframes)));
+  positionKeys.forEach((keyframes, boneId) => tracks.push(createBoneTrack(boneId, 'position', keyframes)));
+
+  const now = Date.now();
+  return {
+    id: generateId('anim'),
+    name: options.name || `${animation.name} (Retargeted)`,
+    duration: animation.duration,
+    tracks,
+    loop: animation.loop,
+    enabled: true,
+    createdAt: now,
+    modifiedAt: now,
+  };
+}
@@ -0,0 +1,111 @@
+/**
+ * Animation Engine Tests
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Animation, useAnimationStore } from '../../../stores/animationStore';
+import { useNLAStore } from '../../../stores/nlaStore';
+import { useObjectsStore } from '../../../stores/objectsStore';
+import { AnimationEngine, getPlaybackDuration } from '../AnimationEngine';
+
+/**
+ * Animation moving one position channel linearly from `from` to `to` over a second
+ */
+function createAnimation(id: string, objectId: string, from: number, to: number): Animation {
+  return {
+    id,
+    name: id,
+    duration: 1,
+    tracks: [{
+      id: `${id}_track`,
+      objectId,
+      property: 'position',
+      propertyPath: ['position', 'x'],
+      enabled: true,
+      keyframes: [
+        { id: 'kf1', time: 0, value: from, interpolation: 'linear' },
+        { id: 'kf2', time: 1, value: to, interpolation: 'linear' },
+      ],
+    }],
+    loop: false,
+    enabled: true,
+    createdAt: 0,
+    modifiedAt: 0,
+  };
+}
+
+describe('AnimationEngine', () => {
+  let frame: FrameRequestCallback | null;
+
+  /** Run the pending animation frame at `seconds` after playback started */
+  function tickAt(seconds: number) {
+    const callback = frame;
+    frame = null;
+    callback?.(seconds * 1000);
+  }
+
+  beforeEach(() => {
+    frame = null;
+    vi.spyOn(performance, 'now').mockReturnValue(0);
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      frame = callback;
+      return 1;
+    });
+    vi.stubGlobal('cancelAnimationFrame', () => {
+      frame = null;
+    });
+
+    useObjectsStore.setState({ objects: new Map(), selectedIds: [] });
+    useAnimationStore.setState({ animations: new Map() });
+    useNLAStore.setState({ layers: [] });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  test('should play a strip that starts after the active animation ends', () => {
+    const box = useObjectsStore.getState().createPrimitive('box');
+    const active = createAnimation('active', 'other', 0, 1);
+    const stripAnimation = createAnimation('strip', box.id, 0, 4);
+    useAnimationStore.setState({ animations: new Map([[active.id, active], [stripAnimation.id, stripAnimation]]) });
+
+    const layer = useNLAStore.getState().addLayer(box.id);
+    useNLAStore.getState().addStrip(layer.id, stripAnimation.id, 2, stripAnimation.duration);
+
+    const engine = new AnimationEngine();
+    const onTimeUpdate = vi.fn();
+    const onComplete = vi.fn();
+    engine.start(active, 0, onTimeUpdate, onComplete);
+
+    tickAt(1.5);
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(engine.isPlaying()).toBe(true);
+
+    tickAt(2.5);
+    expect(onTimeUpdate).toHaveBeenLastCalledWith(2.5);
+    expect(useObjectsStore.getState().getObject(box.id)!.position[0]).toBeCloseTo(2);
+
+    tickAt(3.5);
+    expect(onTimeUpdate).toHaveBeenLastCalledWith(3);
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(engine.isPlaying()).toBe(false);
+  });
+
+  test('should play NLA layers without an active animation', () => {
+    const box = useObjectsStore.getState().createPrimitive('box');
+    const stripAnimation = createAnimation('strip', box.id, 0, 4);
+    useAnimationStore.setState({ animations: new Map([[stripAnimation.id, stripAnimation]]) });
+
+    const layer = useNLAStore.getState().addLayer(box.id);
+    useNLAStore.getState().addStrip(layer.id, stripAnimation.id, 0, stripAnimation.duration);
+    expect(getPlaybackDuration(null, useNLAStore.getState().layers)).toBe(1);
+
+    const engine = new AnimationEngine();
+    engine.start(null, 0, vi.fn(), vi.fn());
+
+    tickAt(0.5);
+    expect(useObjectsStore.getState().getObject(box.id)!.position[0]).toBeCloseTo(2);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Driver Evaluator Tests
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import { SceneObject, useObjectsStore } from '../../../stores/objectsStore';
+import { ShapeKey, useMorphTargetStore } from '../../../stores/morphTargetStore';
+import { Driver, DriverTarget, DriverVariable } from '../../../stores/driverStore';
+import {
+  applyDrivers,
+  describeDriverTarget,
+  evaluateDriver,
+  getDrivableTargets,
+  readDriverVariable,
+} from '../DriverEvaluator';
+
+function addObject(id: string, overrides: Partial<SceneObject> = {}): SceneObject {
+  const object: SceneObject = {
+    id,
+    name: id,
+    type: 'box',
+    visible: true,
+    locked: false,
+    position: [0, 0, 0],
+    rotation: [0, 0, 0],
+    scale: [1, 1, 1],
+    parentId: null,
+    children: [],
+    createdAt: 0,
+    modifiedAt: 0,
+    ...overrides,
+  };
+  useObjectsStore.getState().addObject(object);
+  return object;
+}
+
+function createDriver(target: DriverTarget, expression: string, variables: DriverVariable[] = [], objectId = 'driven'): Driver {
+  return { id: `driver_${expression}`, objectId, target, expression, variables, enabled: true };
+}
+
+const shapeKey: ShapeKey = {
+  id: 'sk1',
+  name: 'Smile',
+  objectId: 'driven',
+  positions: new Float32Array(0),
+  value: 0,
+  createdAt: 0,
+};
+
+describe('DriverEvaluator', () => {
+  beforeEach(() => {
+    useObjectsStore.setState({ objects: new Map(), selectedIds: [] });
+    useMorphTargetStore.setState({ shapeKeysByObject: new Map([['driven', [{ ...shapeKey }]]]) });
+    addObject('driven', { customProperties: { weight: 0.5 } });
+    addObject('parent', { position: [1, 2, 3], children: ['child'] });
+    addObject('child', { position: [1, 0, 0], parentId: 'parent' });
+    addObject('bone', { type: 'bone', rotation: [0.1, 0.2, 0.3] });
+  });
+
+  describe('readDriverVariable', () => {
+    test('should read local and world transforms', () => {
+      const local: DriverVariable = { name: 'x', type: 'transform', objectId: 'child', channel: 'position', axis: 0, space: 'local' };
+
+      expect(readDriverVariable(local, 0, 30)).toBe(1);
+      expect(readDriverVariable({ ...local, space: 'world' }, 0, 30)).toBeCloseTo(2);
+      expect(readDriverVariable({ ...local, axis: 2, space: 'world' }, 0, 30)).toBeCloseTo(3);
+    });
+
+    test('should read bone rotations, custom properties and time', () => {
+      expect(readDriverVariable({ name: 'r', type: 'boneRotation', boneId: 'bone', axis: 2 }, 0, 30)).toBe(0.3);
+      expect(readDriverVariable({ name: 'w', type: 'customProperty', objectId: 'driven', property: 'weight' }, 0, 30)).toBe(0.5);
+      expect(readDriverVariable({ name: 't', type: 'time' }, 2, 24)).toBe(2);
+      expect(readDriverVariable({ name: 'f', type: 'frame' }, 2, 24)).toBe(48);
+    });
+
+    test('should throw for missing objects, bones and properties', () => {
+      expect(() => readDriverVariable({ name: 'r', type: 'boneRotation', boneId: 'child', axis: 0 }, 0, 30)).toThrow('is not a bone');
+      expect(() => readDriverVariable({ name: 'w', type: 'customProperty', objectId: 'driven', property: 'nope' }, 0, 30)).toThrow('no property "nope"');
+      expect(() => readDriverVariable({ name: 'x', type: 'customProperty', objectId: 'gone', property: 'w' }, 0, 30)).toThrow('object not found');
+    });
+  });
+
+  test('should evaluate expressions over variables', () => {
+    const driver = createDriver({ type: 'transform', channel: 'position', axis: 1 }, 'w * 4 + frame', [
+      { name: 'w', type: 'customProperty', objectId: 'driven', property: 'weight' },
+      { name: 'frame', type: 'frame' },
+    ]);
+
+    expect(evaluateDriver(driver, 1, 30)).toBe(32);
+    expect(() => evaluateDriver({ ...driver, expression: '1 / 0' }, 0, 30)).toThrow('not a finite number');
+  });
+
+  test('should set transform, light, shape key and custom property targets', () => {
+    addObject('light', { type: 'pointLight', position: [0, 2, 0], lightProps: { color: '#ffffff', intensity: 1, distance: 0, decay: 2, castShadow: false } });
+    const y: DriverVariable = { name: 'y', type: 'transform', objectId: 'light', channel: 'position', axis: 1, space: 'world' };
+    const r: DriverVariable = { name: 'r', type: 'boneRotation', boneId: 'bone', axis: 0 };
+
+    const errors = applyDrivers([
+      createDriver({ type: 'light', property: 'intensity' }, 'y * 3', [y], 'light'),
+      createDriver({ type: 'shapeKey', shapeKeyId: 'sk1' }, 'r * 20', [r]),
+      createDriver({ type: 'transform', channel: 'scale', axis: 0 }, '1 + r', [r]),
+      createDriver({ type: 'customProperty', property: 'weight' }, 'time', [{ name: 'time', type: 'time' }]),
+    ], 0.25, 30);
+
+    const objects = useObjectsStore.getState().objects;
+    expect(errors.size).toBe(0);
+    expect(objects.get('light')!.lightProps!.intensity).toBeCloseTo(6);
+    expect(useMorphTargetStore.getState().getShapeKeysForObject('driven')[0].value).toBe(1); // Clamped
+    expect(objects.get('driven')!.scale).toEqual([1.1, 1, 1]);
+    expect(objects.get('driven')!.customProperties).toEqual({ weight: 0.25 });
+  });
+
+  test('should let later drivers read what earlier drivers set', () => {
+    const w: DriverVariable = { name: 'w', type: 'customProperty', objectId: 'driven', property: 'weight' };
+
+    applyDrivers([
+      createDriver({ type: 'customProperty', property: 'weight' }, '2'),
+      createDriver({ type: 'transform', channel: 'position', axis: 0 }, 'w * 10', [w]),
+    ], 0, 30);
+
+    expect(useObjectsStore.getState().objects.get('driven')!.position[0]).toBe(20);
+  });
+
+  test('should skip disabled drivers and report errors per driver', () => {
+    const broken = createDriver({ type: 'transform', channel: 'position', axis: 0 }, 'missing + 1');
+    const disabled = { ...createDriver({ type: 'transform', channel: 'position', axis: 1 }, '5'), enabled: false };
+
+    const errors = applyDrivers([broken, disabled], 0, 30);
+
+    expect(errors.get(broken.id)).toBe('Unknown variable "missing"');
+    expect(errors.has(disabled.id)).toBe(false);
+    expect(useObjectsStore.getState().objects.get('driven')!.position).toEqual([0, 0, 0]);
+  });
+
+  test('should leave objects untouched when values are unchanged', () => {
+    const before = useObjectsStore.getState().objects.get('driven');
+
+    applyDrivers([createDriver({ type: 'customProperty', property: 'weight' }, '0.5')], 0, 30);
+
+    expect(useObjectsStore.getState().objects.get('driven')).toBe(before);
+  });
+
+  test('should list and describe drivable targets', () => {
+    const object = useObjectsStore.getState().objects.get('driven')!;
+    const targets = getDrivableTargets(object, [shapeKey]);
+
+    expect(targets).toHaveLength(11);
+    expect(targets.map(target => describeDriverTarget(target, [shapeKey])).slice(-3)).toEqual([
+      'Scale Z',
+      'Shape Key: Smile',
+      'Property: weight',
+    ]);
+    expect(describeDriverTarget({ type: 'transform', channel: 'position', axis: 1 })).toBe('Location Y');
+    expect(describeDriverTarget({ type: 'light', property: 'angle' })).toBe('Spot Angle');
+  });
+});
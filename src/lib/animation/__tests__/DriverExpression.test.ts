@@ -0,0 +1,83 @@
+/**
+ * Driver Expression Tests
+ */
+
+import { describe, test, expect } from 'vitest';
+import { compileExpression, DriverExpressionError } from '../DriverExpression';
+
+function evaluate(source: string, scope: Record<string, number> = {}): number {
+  return compileExpression(source, Object.keys(scope)).evaluate(scope);
+}
+
+describe('DriverExpression', () => {
+  test('should follow operator precedence', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('7 % 4 + 1')).toBe(4);
+    expect(evaluate('1.5e2 / .5')).toBe(300);
+  });
+
+  test('should raise powers right associatively, above unary minus', () => {
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('2 ** 3')).toBe(8);
+    expect(evaluate('-2 ^ 2')).toBe(-4);
+    expect(evaluate('2 ^ -1')).toBe(0.5);
+  });
+
+  test('should compare and combine conditions as 1 and 0', () => {
+    expect(evaluate('x > 1 && x <= 3', { x: 2 })).toBe(1);
+    expect(evaluate('x == 1 || !x', { x: 0 })).toBe(1);
+    expect(evaluate('x != 2', { x: 2 })).toBe(0);
+    expect(evaluate('x > 0 ? 10 : x < 0 ? -10 : 0', { x: -3 })).toBe(-10);
+  });
+
+  test('should read variables and constants', () => {
+    expect(evaluate('rot * 2 + offset', { rot: 0.25, offset: 1 })).toBe(1.5);
+    expect(evaluate('tau / 2')).toBeCloseTo(Math.PI);
+    expect(evaluate('e', { e: 3 })).toBe(3);
+    expect(compileExpression('a + b * a + pi').variables).toEqual(['a', 'b']);
+  });
+
+  test('should call math functions', () => {
+    expect(evaluate('sin(pi / 2)')).toBeCloseTo(1);
+    expect(evaluate('clamp(x, 0, 1)', { x: 4 })).toBe(1);
+    expect(evaluate('lerp(2, 4, 0.25)')).toBe(2.5);
+    expect(evaluate('max(1, 5, 3) + min(2)')).toBe(7);
+    expect(evaluate('log(8, 2)')).toBeCloseTo(3);
+    expect(evaluate('smoothstep(0, 1, 0.5)')).toBe(0.5);
+    expect(evaluate('degrees(radians(90))')).toBeCloseTo(90);
+  });
+
+  test('should report syntax errors with their position', () => {
+    expect(() => compileExpression('')).toThrow('Empty expression');
+    expect(() => compileExpression('1 +')).toThrow('Unexpected end of expression');
+    expect(() => compileExpression('(1 + 2')).toThrow('Expected ")" at the end');
+    expect(() => compileExpression('2 3')).toThrow('Unexpected "3"');
+    expect(() => compileExpression('x ? 1')).toThrow(DriverExpressionError);
+
+    try {
+      compileExpression('1 + $');
+    } catch (error) {
+      expect(error).toBeInstanceOf(DriverExpressionError);
+      expect((error as DriverExpressionError).position).toBe(4);
+    }
+  });
+
+  test('should reject unknown functions, variables and wrong argument counts', () => {
+    expect(() => compileExpression('foo(1)')).toThrow('Unknown function "foo"');
+    expect(() => compileExpression('y + 1', ['x'])).toThrow('Unknown variable "y"');
+    expect(() => compileExpression('clamp(1, 2)')).toThrow('clamp() takes 3 arguments');
+    expect(() => compileExpression('sin()')).toThrow('sin() takes 1 argument');
+    expect(() => compileExpression('1'.repeat(1001))).toThrow('longer than 1000');
+  });
+
+  test('should not reach JavaScript globals or object members', () => {
+    expect(() => compileExpression('constructor(1)')).toThrow('Unknown function');
+    expect(() => compileExpression('eval(1)')).toThrow('Unknown function');
+    expect(() => compileExpression('Math.PI')).toThrow(DriverExpressionError);
+    expect(() => compileExpression('x["a"]')).toThrow(DriverExpressionError);
+    expect(() => compileExpression('toString', [])).toThrow('Unknown variable');
+    expect(() => compileExpression('__proto__').evaluate({})).toThrow('has no value');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * F-Curve Tests
+ */
+
+import { describe, test, expect } from 'vitest';
+import { AnimationTrack, Keyframe } from '../../../stores/animationStore';
+import { getValueAtTime } from '../Interpolators';
+import {
+  alignHandles,
+  getChannelCount,
+  moveHandle,
+  moveKeys,
+  recalculateHandles,
+  scaleKeys,
+  setHandleType,
+} from '../FCurve';
+
+function createKeyframes(values: Array<[number, any]>): Keyframe[] {
+  return values.map(([time, value], i) => ({ id: `kf${i}`, time, value, interpolation: 'linear' }));
+}
+
+function createTrack(keyframes: Keyframe[]): AnimationTrack {
+  return {
+    id: 'track1',
+    objectId: 'obj1',
+    property: 'position',
+    propertyPath: ['position'],
+    keyframes,
+    enabled: true,
+  };
+}
+
+describe('FCurve', () => {
+  test('should count plottable channels', () => {
+    expect(getChannelCount(1)).toBe(1);
+    expect(getChannelCount([1, 2, 3])).toBe(3);
+    expect(getChannelCount('#FFFFFF')).toBe(0);
+    expect(getChannelCount(true)).toBe(0);
+  });
+
+  describe('Handle Types', () => {
+    test('should flatten auto-clamped handles on extremes', () => {
+      const keyframes = setHandleType(createKeyframes([[0, 0], [1, 5], [2, 0]]), 1, 0, 'auto-clamped');
+      const tangent = keyframes[1].tangents![0];
+
+      expect(keyframes[1].interpolation).toBe('bezier');
+      expect(tangent.left).toEqual({ time: -1 / 3, value: -0 });
+      expect(tangent.right).toEqual({ time: 1 / 3, value: 0 });
+
+      // Neighbours get handles so the segments are shaped at both ends
+      expect(keyframes[0].tangents).toHaveLength(1);
+      expect(keyframes[2].tangents).toHaveLength(1);
+    });
+
+    test('should follow the neighbours slope without overshooting', () => {
+      const keyframes = setHandleType(createKeyframes([[0, 0], [1, 1], [2, 10]]), 1, 0, 'auto-clamped');
+      const { left, right } = keyframes[1].tangents![0];
+
+      // Slope 5 would pass the previous key's value, so it's clamped to 3
+      expect(right.value / right.time).toBeCloseTo(3);
+      expect(left.value / left.time).toBeCloseTo(3);
+      expect(1 + left.value).toBeGreaterThanOrEqual(0);
+    });
+
+    test('should point vector handles at the neighbours', () => {
+      const keyframes = setHandleType(createKeyframes([[0, 0], [1, 3], [2, 0]]), 1, 0, 'vector');
+      const { left, right } = keyframes[1].tangents![0];
+
+      expect(left).toEqual({ time: -1 / 3, value: -1 });
+      expect(right).toEqual({ time: 1 / 3, value: -1 });
+    });
+
+    test('should set handles of one channel of a vector', () => {
+      const keyframes = setHandleType(createKeyframes([[0, [0, 0, 0]], [1, [1, 2, 3]]]), 0, 2, 'free');
+
+      expect(keyframes[0].tangents).toHaveLength(3);
+      expect(keyframes[0].tangents![2].type).toBe('free');
+      expect(keyframes[0].tangents![0].type).toBe('auto-clamped');
+    });
+
+    test('should recompute computed handles after keys move', () => {
+      const keyframes = setHandleType(createKeyframes([[0, 0], [1, 3], [2, 0]]), 1, 0, 'vector');
+      const moved = recalculateHandles([keyframes[0], { ...keyframes[1], value: 6 }, keyframes[2]]);
+
+      expect(moved[1].tangents![0].left.value).toBe(-2);
+    });
+  });
+
+  describe('Handles', () => {
+    test('should align the opposite handle keeping its length', () => {
+      const aligned = alignHandles({
+        type: 'aligned',
+        left: { time: -2, value: 0 },
+        right: { time: 3, value: 4 },
+      }, 'right');
+
+      expect(aligned.left.time).toBeCloseTo(-1.2);
+      expect(aligned.left.value).toBeCloseTo(-1.6);
+    });
+
+    test('should move a handle and turn computed handles editable', () => {
+      const keyframes = setHandleType(createKeyframes([[0, 0], [1, 0]]), 0, 0, 'auto-clamped');
+      const moved = moveHandle(keyframes, 0, 0, 'right', { time: 0.5, value: 1 });
+      const tangent = moved[0].tangents![0];
+
+      expect(tangent.type).toBe('aligned');
+      expect(tangent.right).toEqual({ time: 0.5, value: 1 });
+      expect(tangent.left.value / tangent.left.time).toBeCloseTo(2);
+
+      // The curve rises above the flat line
+      expect(getValueAtTime(moved, 0.25)).toBeGreaterThan(0);
+    });
+
+    test('should keep handles on their side of the key', () => {
+      const keyframes = setHandleType(createKeyframes([[0, 0], [1, 0]]), 0, 0, 'free');
+      const moved = moveHandle(keyframes, 0, 0, 'right', { time: -0.5, value: 1 });
+
+      expect(moved[0].tangents![0].right.time).toBe(0);
+    });
+  });
+
+  describe('Move and Scale', () => {
+    test('should move keys in time once and in value per selected channel', () => {
+      const track = createTrack(createKeyframes([[0, [0, 0, 0]], [1, [1, 1, 1]]]));
+      const selection = [
+        { trackId: 'track1', keyframeId: 'kf0', channel: 0 },
+        { trackId: 'track1', keyframeId: 'kf0', channel: 2 },
+      ];
+
+      const [moved] = moveKeys([track], selection, 0.5, s => (s.channel === 0 ? 2 : -1));
+
+      expect(moved.keyframes[0].time).toBe(0.5);
+      expect(moved.keyframes[0].value).toEqual([2, 0, -1]);
+      expect(moved.keyframes[1]).toBe(track.keyframes[1]);
+    });
+
+    test('should keep keys sorted and in positive time', () => {
+      const track = createTrack(createKeyframes([[0, 0], [1, 1], [2, 2]]));
+
+      const [later] = moveKeys([track], [{ trackId: 'track1', keyframeId: 'kf0', channel: 0 }], 1.5, () => 0);
+      expect(later.keyframes.map(k => k.id)).toEqual(['kf1', 'kf0', 'kf2']);
+
+      const [earlier] = moveKeys([track], [{ trackId: 'track1', keyframeId: 'kf1', channel: 0 }], -3, () => 0);
+      expect(earlier.keyframes[0].time).toBe(0);
+    });
+
+    test('should scale keys about the selection centre', () => {
+      const keyframes = setHandleType(createKeyframes([[1, 0], [3, 4]]), 0, 0, 'free');
+      const track = createTrack(keyframes);
+      const selection = [
+        { trackId: 'track1', keyframeId: 'kf0', channel: 0 },
+        { trackId: 'track1', keyframeId: 'kf1', channel: 0 },
+      ];
+
+      const [scaled] = scaleKeys([track], selection, 2, 0.5);
+
+      expect(scaled.keyframes.map(k => k.time)).toEqual([0, 4]);
+      expect(scaled.keyframes.map(k => k.value)).toEqual([1, 3]);
+      expect(scaled.keyframes[0].tangents![0].right.time).toBeCloseTo(keyframes[0].tangents![0].right.time * 2);
+    });
+
+    test('should leave tracks without selected keys untouched', () => {
+      const track = createTrack(createKeyframes([[0, 0]]));
+
+      expect(scaleKeys([track], [], 2, 2)[0]).toBe(track);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * F-Curve Modifier Tests
+ */
+
+import { describe, test, expect } from 'vitest';
+import { Animation, AnimationTrack, FModifier, FModifierType } from '../../../stores/animationStore';
+import { bakeFModifiers, createFModifier, evaluateTrack, noise1D } from '../FModifiers';
+
+/**
+ * Track keyed linearly from `from` at 0s to `to` at 1s
+ */
+function createTrack(modifiers: FModifier[], from: any = 0, to: any = 10): AnimationTrack {
+  return {
+    id: 'track1',
+    objectId: 'obj1',
+    property: 'position',
+    propertyPath: ['position', 'x'],
+    enabled: true,
+    keyframes: [
+      { id: 'kf1', time: 0, value: from, interpolation: 'linear' },
+      { id: 'kf2', time: 1, value: to, interpolation: 'linear' },
+    ],
+    modifiers,
+  };
+}
+
+function modifier<T extends FModifierType>(type: T, settings: Partial<Extract<FModifier, { type: T }>> = {}): FModifier {
+  return { ...createFModifier(type), ...settings } as FModifier;
+}
+
+describe('FModifiers', () => {
+  test('should evaluate the keys alone without enabled modifiers', () => {
+    expect(evaluateTrack(createTrack([]), 0.5)).toBe(5);
+    expect(evaluateTrack(createTrack([modifier('generator', { enabled: false })]), 0.5)).toBe(5);
+  });
+
+  describe('Cycles', () => {
+    test('should repeat the keys before and after', () => {
+      const track = createTrack([modifier('cycles')]);
+
+      expect(evaluateTrack(track, 1.25)).toBeCloseTo(2.5);
+      expect(evaluateTrack(track, 3.5)).toBeCloseTo(5);
+      expect(evaluateTrack(track, -0.25)).toBeCloseTo(7.5);
+    });
+
+    test('should offset each repeat by the change over the keys', () => {
+      const track = createTrack([modifier('cycles', { after: 'repeat-offset', before: 'none' })], [0, 0, 0], [2, 0, 1]);
+
+      expect(evaluateTrack(track, 1.5)).toEqual([3, 0, 1.5]);
+      expect(evaluateTrack(track, 2.5)).toEqual([5, 0, 2.5]);
+      expect(evaluateTrack(track, -1)).toEqual([0, 0, 0]);
+    });
+
+    test('should mirror and hold after the cycle count', () => {
+      const mirrored = createTrack([modifier('cycles', { after: 'mirror' })]);
+      expect(evaluateTrack(mirrored, 1.25)).toBeCloseTo(7.5);
+      expect(evaluateTrack(mirrored, 2.25)).toBeCloseTo(2.5);
+
+      const counted = createTrack([modifier('cycles', { afterCount: 1 })]);
+      expect(evaluateTrack(counted, 1.5)).toBeCloseTo(5);
+      expect(evaluateTrack(counted, 5)).toBeCloseTo(10);
+    });
+  });
+
+  describe('Noise', () => {
+    test('should be deterministic for a seed and bounded by the amplitude', () => {
+      const track = createTrack([modifier('noise', { amplitude: 0.5, frequency: 3, seed: 7 })]);
+
+      for (let time = 0; time <= 1; time += 0.05) {
+        const value = evaluateTrack(track, time);
+        expect(Math.abs(value - time * 10)).toBeLessThanOrEqual(0.5);
+        expect(evaluateTrack(track, time)).toBe(value);
+      }
+      expect(noise1D(0.3, 1)).not.toBe(noise1D(0.3, 2));
+    });
+
+    test('should shake each channel differently', () => {
+      const track = createTrack([modifier('noise', { amplitude: 1, frequency: 2 })], [0, 0, 0], [0, 0, 0]);
+      const [x, y, z] = evaluateTrack(track, 0.3);
+
+      expect(x).not.toBe(y);
+      expect(y).not.toBe(z);
+    });
+
+    test('should keep bone rotations normalized', () => {
+      const track: AnimationTrack = {
+        ...createTrack([modifier('noise', { amplitude: 0.3 })], [0, 0, 0, 1], [0, 0, Math.SQRT1_2, Math.SQRT1_2]),
+        property: 'boneTransform',
+        transformType: 'rotation',
+      };
+
+      expect(Math.hypot(...evaluateTrack(track, 0.4))).toBeCloseTo(1);
+    });
+  });
+
+  describe('Value Modifiers', () => {
+    test('should add or replace with a polynomial in time', () => {
+      expect(evaluateTrack(createTrack([modifier('generator', { coefficients: [1, 0, 2] })]), 0.5)).toBeCloseTo(6.5);
+      expect(evaluateTrack(createTrack([modifier('generator', { coefficients: [1, 2], additive: false })]), 0.5)).toBeCloseTo(2);
+    });
+
+    test('should map the reference range onto the envelope', () => {
+      const envelope = modifier('envelope', {
+        min: 0,
+        max: 10,
+        points: [{ time: 0, min: 0, max: 10 }, { time: 1, min: 0, max: 2 }],
+      });
+
+      // At 0.5s the envelope spans 0..6, and 5 is halfway
+      expect(evaluateTrack(createTrack([envelope]), 0.5)).toBeCloseTo(3);
+      expect(evaluateTrack(createTrack([envelope]), 1)).toBeCloseTo(2);
+    });
+
+    test('should hold steps and clamp time and value', () => {
+      expect(evaluateTrack(createTrack([modifier('stepped', { step: 0.25 })]), 0.6)).toBeCloseTo(5);
+      expect(evaluateTrack(createTrack([modifier('stepped', { step: 0.25 })]), 0.75)).toBeCloseTo(7.5);
+
+      const limits = modifier('limits', { maxTime: 0.8, minValue: 3 });
+      expect(evaluateTrack(createTrack([limits]), 1)).toBeCloseTo(8);
+      expect(evaluateTrack(createTrack([limits]), 0.1)).toBe(3);
+    });
+  });
+
+  describe('Stacking', () => {
+    test('should let value modifiers above a Cycles modifier ignore the repeat', () => {
+      const generator = modifier('generator', { coefficients: [0, 1] });
+      const cycles = modifier('cycles');
+
+      // Generator first: it sees scene time. Generator last: it sees the cycled time.
+      expect(evaluateTrack(createTrack([generator, cycles]), 1.5)).toBeCloseTo(6.5);
+      expect(evaluateTrack(createTrack([cycles, generator]), 1.5)).toBeCloseTo(5.5);
+    });
+  });
+
+  describe('Baking', () => {
+    test('should sample modified tracks every frame and leave others alone', () => {
+      const plain = { ...createTrack([]), id: 'track2' };
+      const animation: Animation = {
+        id: 'anim1',
+        name: 'Anim',
+        duration: 1,
+        tracks: [createTrack([modifier('stepped', { step: 0.5 })]), plain],
+        loop: false,
+        enabled: true,
+        createdAt: 0,
+        modifiedAt: 0,
+      };
+
+      const baked = bakeFModifiers(animation, 4);
+
+      expect(baked.tracks[0].modifiers).toBeUndefined();
+      expect(baked.tracks[0].keyframes.map(k => k.value)).toEqual([0, 0, 5, 5, 10]);
+      expect(baked.tracks[1]).toBe(plain);
+      expect(bakeFModifiers(baked)).toBe(baked);
+    });
+  });
+});
@@ -11,6 +11,7 @@ import {
   lerpColor,
   interpolate,
   getValueAtTime,
+  bezierSegmentValue,
 } from '../Interpolators';
 
 describe('Interpolators', () => {
@@ -212,5 +213,59 @@ describe('Interpolators', () => {
       expect(getValueAtTime(keyframes, 1.5)).toBe(7.5);
       expect(getValueAtTime(keyframes, 2.5)).toBe(12.5);
     });
+
+    it('should evaluate tangent handles per channel', () => {
+      const linear = (value: number) => ({ time: 1 / 3, value });
+      const keyframes = [
+        {
+          time: 0, value: [0, 0], interpolation: 'bezier' as const,
+          tangents: [
+            { type: 'free' as const, left: { time: -1 / 3, value: 0 }, right: linear(10 / 3) },
+            { type: 'free' as const, left: { time: -1 / 3, value: 0 }, right: { time: 1 / 3, value: 0 } },
+          ],
+        },
+        {
+          time: 1, value: [10, 10], interpolation: 'bezier' as const,
+          tangents: [
+            { type: 'free' as const, left: { time: -1 / 3, value: -10 / 3 }, right: linear(0) },
+            { type: 'free' as const, left: { time: -1 / 3, value: 0 }, right: { time: 1 / 3, value: 0 } },
+          ],
+        },
+      ];
+
+      const [x, y] = getValueAtTime(keyframes, 0.25);
+      expect(x).toBeCloseTo(2.5);   // Handles on the straight line stay linear
+      expect(y).toBeCloseTo(1.5625); // Flat handles ease in and out
+    });
+
+    it('should keep easing bezier segments without tangents', () => {
+      const keyframes = [
+        { time: 0, value: 0, interpolation: 'bezier' as const, easing: [0, 0, 1, 1] as [number, number, number, number] },
+        { time: 1, value: 10, interpolation: 'bezier' as const },
+      ];
+      expect(getValueAtTime(keyframes, 0.5)).toBeCloseTo(5);
+    });
+  });
+
+  describe('bezierSegmentValue', () => {
+    it('should pass through both keys', () => {
+      const handle = { time: 0.5, value: 3 };
+      expect(bezierSegmentValue(1, 2, handle, 3, 8, { time: -0.5, value: 1 }, 1)).toBeCloseTo(2);
+      expect(bezierSegmentValue(1, 2, handle, 3, 8, { time: -0.5, value: 1 }, 3)).toBeCloseTo(8);
+    });
+
+    it('should ease with flat handles', () => {
+      const flat = { time: 1 / 3, value: 0 };
+      const value = bezierSegmentValue(0, 0, flat, 1, 1, { time: -1 / 3, value: 0 }, 0.5);
+      expect(value).toBeCloseTo(0.5);
+      expect(bezierSegmentValue(0, 0, flat, 1, 1, { time: -1 / 3, value: 0 }, 0.1)).toBeLessThan(0.1);
+    });
+
+    it('should shorten handles that overlap in time', () => {
+      // Both handles reach the whole segment: scaled to half each, the curve stays a function of time
+      const value = bezierSegmentValue(0, 0, { time: 1, value: 0 }, 1, 1, { time: -1, value: 0 }, 0.5);
+      expect(value).toBeCloseTo(0.5);
+      expect(bezierSegmentValue(0, 0, { time: 1, value: 2 }, 1, 1, { time: -1, value: -2 }, 0.5)).toBeCloseTo(0.5);
+    });
   });
 });
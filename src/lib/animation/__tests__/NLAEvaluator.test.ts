@@ -0,0 +1,185 @@
+/**
+ * NLA Evaluator Tests
+ */
+
+import { describe, test, expect } from 'vitest';
+import { Animation, AnimationTrack } from '../../../stores/animationStore';
+import { NLALayer, NLAStrip } from '../../../stores/nlaStore';
+import {
+  bakeNLA,
+  blendNLAValue,
+  evaluateNLA,
+  getStripActionTime,
+  getStripInfluence,
+  trackChannelKey,
+} from '../NLAEvaluator';
+
+function createStrip(overrides: Partial<NLAStrip> = {}): NLAStrip {
+  return {
+    id: 'strip1',
+    animationId: 'walk',
+    start: 0,
+    actionStart: 0,
+    actionEnd: 1,
+    scale: 1,
+    repeat: 1,
+    blendIn: 0,
+    blendOut: 0,
+    muted: false,
+    ...overrides,
+  };
+}
+
+function createLayer(strips: NLAStrip[], overrides: Partial<NLALayer> = {}): NLALayer {
+  return {
+    id: `layer_${strips[0]?.id}`,
+    objectId: 'obj1',
+    name: 'Layer',
+    strips,
+    influence: 1,
+    blendMode: 'replace',
+    muted: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Animation moving one position channel linearly from `from` to `to` over a second
+ */
+function createAnimation(id: string, objectId: string, from: number, to: number): Animation {
+  const track: AnimationTrack = {
+    id: `${id}_track`,
+    objectId,
+    property: 'position',
+    propertyPath: ['position', 'x'],
+    enabled: true,
+    keyframes: [
+      { id: 'kf1', time: 0, value: from, interpolation: 'linear' },
+      { id: 'kf2', time: 1, value: to, interpolation: 'linear' },
+    ],
+  };
+  return { id, name: id, duration: 1, tracks: [track], loop: false, enabled: true, createdAt: 0, modifiedAt: 0 };
+}
+
+describe('NLAEvaluator', () => {
+  describe('Strip Timing', () => {
+    test('should map scene time through start, scale and clip range', () => {
+      const strip = createStrip({ start: 2, actionStart: 0.5, actionEnd: 1, scale: 2 });
+
+      expect(getStripActionTime(strip, 1.9)).toBeNull();
+      expect(getStripActionTime(strip, 2)).toBe(0.5);
+      expect(getStripActionTime(strip, 2.5)).toBe(0.75);
+      expect(getStripActionTime(strip, 3)).toBe(1);
+      expect(getStripActionTime(strip, 3.1)).toBeNull();
+    });
+
+    test('should repeat the clip range', () => {
+      const strip = createStrip({ repeat: 2 });
+
+      expect(getStripActionTime(strip, 0.5)).toBe(0.5);
+      expect(getStripActionTime(strip, 1)).toBe(1);
+      expect(getStripActionTime(strip, 1.25)).toBe(0.25);
+      expect(getStripActionTime(strip, 2)).toBe(1);
+    });
+
+    test('should ramp influence over blend in and out', () => {
+      const strip = createStrip({ repeat: 4, blendIn: 1, blendOut: 2 });
+
+      expect(getStripInfluence(strip, 0)).toBe(0);
+      expect(getStripInfluence(strip, 0.5)).toBe(0.5);
+      expect(getStripInfluence(strip, 1.5)).toBe(1);
+      expect(getStripInfluence(strip, 3)).toBe(0.5);
+      expect(getStripInfluence(strip, 5)).toBe(0);
+    });
+  });
+
+  describe('Blending', () => {
+    test('should mix numbers and vectors in replace mode and add them in additive mode', () => {
+      expect(blendNLAValue(2, 4, 0.5, 'replace')).toBe(3);
+      expect(blendNLAValue(2, 4, 0.5, 'additive')).toBe(4);
+      expect(blendNLAValue([0, 0, 0], [2, 4, 6], 0.5, 'replace')).toEqual([1, 2, 3]);
+      expect(blendNLAValue([1, 1, 1], [2, 4, 6], 0.5, 'additive')).toEqual([2, 3, 4]);
+      expect(blendNLAValue(undefined, 4, 0.5, 'replace')).toBe(4);
+    });
+
+    test('should slerp quaternions and compose additive rotations', () => {
+      const quarterTurn = [0, 0, Math.SQRT1_2, Math.SQRT1_2];
+
+      const half = blendNLAValue([0, 0, 0, 1], quarterTurn, 0.5, 'replace') as number[];
+      expect(half[2]).toBeCloseTo(Math.sin(Math.PI / 8));
+      expect(half[3]).toBeCloseTo(Math.cos(Math.PI / 8));
+
+      const halfTurn = blendNLAValue(quarterTurn, quarterTurn, 1, 'additive') as number[];
+      expect(halfTurn[2]).toBeCloseTo(1);
+      expect(halfTurn[3]).toBeCloseTo(0);
+    });
+
+    test('should mix colors and switch other values halfway', () => {
+      expect(blendNLAValue('#000000', '#FFFFFF', 1, 'replace')).toBe('#FFFFFF');
+      expect(blendNLAValue(true, false, 0.25, 'additive')).toBe(true);
+      expect(blendNLAValue(true, false, 0.75, 'replace')).toBe(false);
+    });
+  });
+
+  describe('Evaluation', () => {
+    const animations = new Map([
+      ['walk', createAnimation('walk', 'obj1', 0, 10)],
+      ['wave', createAnimation('wave', 'obj1', 1, 1)],
+    ]);
+
+    test('should layer strips bottom to top with influence', () => {
+      const layers = [
+        createLayer([createStrip()]),
+        createLayer([createStrip({ id: 'strip2', animationId: 'wave' })], { blendMode: 'additive', influence: 0.5 }),
+      ];
+
+      const channels = evaluateNLA(layers, animations, 0.5);
+
+      expect(channels.size).toBe(1);
+      expect(channels.get(trackChannelKey(animations.get('walk')!.tracks[0]))!.value).toBe(5.5);
+    });
+
+    test('should skip muted layers and strips', () => {
+      const layers = [
+        createLayer([createStrip()]),
+        createLayer([createStrip({ id: 'strip2', animationId: 'wave' })], { muted: true }),
+        createLayer([createStrip({ id: 'strip3', animationId: 'wave', muted: true })]),
+      ];
+
+      expect(Array.from(evaluateNLA(layers, animations, 0.5).values())[0].value).toBe(5);
+    });
+
+    test('should only play tracks of the layer owner and its descendants', () => {
+      const boneAnimation = createAnimation('bend', 'bone1', 0, 1);
+      const parents: Record<string, string> = { bone1: 'armature1' };
+
+      const onArmature = createLayer([createStrip({ animationId: 'bend' })], { objectId: 'armature1' });
+      const onOther = createLayer([createStrip({ animationId: 'bend' })], { objectId: 'obj2' });
+      const options = { parentOf: (id: string) => parents[id] };
+
+      expect(evaluateNLA([onArmature], new Map([['bend', boneAnimation]]), 1, options).size).toBe(1);
+      expect(evaluateNLA([onOther], new Map([['bend', boneAnimation]]), 1, options).size).toBe(0);
+    });
+  });
+
+  describe('Baking', () => {
+    test('should sample every frame the strips play', () => {
+      const animations = new Map([['walk', createAnimation('walk', 'obj1', 0, 10)]]);
+      const layers = [createLayer([createStrip({ start: 0.5, repeat: 2 })])];
+
+      const baked = bakeNLA(layers, animations, { fps: 4, name: 'Baked' })!;
+
+      expect(baked.name).toBe('Baked');
+      expect(baked.duration).toBe(2.5);
+      expect(baked.tracks).toHaveLength(1);
+      expect(baked.tracks[0].keyframes.map(k => k.time)).toEqual([0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.25, 2.5]);
+      expect(baked.tracks[0].keyframes.map(k => k.value)).toEqual([0, 2.5, 5, 7.5, 10, 2.5, 5, 7.5, 10]);
+    });
+
+    test('should return null without playing strips', () => {
+      const layers = [createLayer([createStrip()], { muted: true })];
+
+      expect(bakeNLA(layers, new Map())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Animation Retargeting Tests
+ */
+
+import { describe, test, expect, beforeEach } from 'vitest';
+import * as THREE from 'three';
+import { useObjectsStore } from '../../../stores/objectsStore';
+import { useBoneStore } from '../../../stores/boneStore';
+import { Animation, AnimationTrack } from '../../../stores/animationStore';
+import {
+  autoMatchBones,
+  boneMapFromNames,
+  boneMapToNames,
+  getAnimatedArmatureIds,
+  parseBoneName,
+  retargetAnimation,
+} from '../Retargeting';
+
+type Vec3 = [number, number, number];
+
+/**
+ * Armature with bones given as [name, parent name or null, head, tail]; returns bone IDs by name
+ */
+function createArmature(name: string, bones: [string, string | null, Vec3, Vec3][]) {
+  const boneStore = useBoneStore.getState();
+  const armatureId = boneStore.createArmature(name, [0, 0, 0]);
+  const ids: Record<string, string> = {};
+  for (const [boneName, parent, head, tail] of bones) {
+    ids[boneName] = boneStore.createBoneWithHeadTail(parent ? ids[parent] : armatureId, head, tail);
+    useObjectsStore.getState().updateObject(ids[boneName], { name: boneName });
+  }
+  return { armatureId, ids };
+}
+
+function bonesOf(armatureId: string) {
+  return useBoneStore.getState().getBonesByArmature(armatureId);
+}
+
+function rotationTrack(boneId: string, values: [number, number, number, number][]): AnimationTrack {
+  return {
+    id: `track_${boneId}`,
+    objectId: boneId,
+    property: 'boneTransform',
+    propertyPath: ['boneTransform', 'rotation'],
+    keyframes: values.map((value, i) => ({ id: `kf_${i}`, time: i, value, interpolation: 'linear' as const })),
+    enabled: true,
+    boneId,
+    transformType: 'rotation',
+    space: 'local',
+  };
+}
+
+function createAnimation(tracks: AnimationTrack[], duration = 1): Animation {
+  return { id: 'anim1', name: 'Walk', duration, tracks, loop: true, enabled: true, createdAt: 0, modifiedAt: 0 };
+}
+
+function quaternion(axis: Vec3, angle: number): [number, number, number, number] {
+  const q = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(...axis).normalize(), angle);
+  return [q.x, q.y, q.z, q.w];
+}
+
+function lastValue(animation: Animation, boneId: string, transformType = 'rotation'): number[] {
+  const track = animation.tracks.find(t => t.boneId === boneId && t.transformType === transformType)!;
+  return track.keyframes[track.keyframes.length - 1].value;
+}
+
+function expectSameRotation(actual: number[], expected: number[]) {
+  const a = new THREE.Quaternion(...actual);
+  const b = new THREE.Quaternion(...expected);
+  expect(a.angleTo(b)).toBeLessThan(1e-5);
+}
+
+describe('Retargeting', () => {
+  beforeEach(() => {
+    useObjectsStore.setState({ objects: new Map(), selectedIds: [] });
+  });
+
+  describe('parseBoneName', () => {
+    test('should read side, body part and number across naming schemes', () => {
+      expect(parseBoneName('mixamorig:LeftArm')).toEqual({ side: 'left', part: 'upperarm', index: null });
+      expect(parseBoneName('upperarm_l')).toEqual({ side: 'left', part: 'upperarm', index: null });
+      expect(parseBoneName('upper_arm.L')).toEqual({ side: 'left', part: 'upperarm', index: null });
+      expect(parseBoneName('Bip01 R Thigh')).toEqual({ side: 'right', part: 'thigh', index: null });
+      expect(parseBoneName('mixamorig_RightUpLeg')).toEqual({ side: 'right', part: 'thigh', index: null });
+      expect(parseBoneName('spine_02')).toEqual({ side: null, part: 'spine', index: 2 });
+      expect(parseBoneName('LeftHandIndex1')).toEqual({ side: 'left', part: 'index', index: 1 });
+      expect(parseBoneName('pelvis').part).toBe('hips');
+      expect(parseBoneName('HeadTop_End').part).toBe('headtopend');
+    });
+  });
+
+  describe('autoMatchBones', () => {
+    test('should match Mixamo names to another rig', () => {
+      const source = createArmature('Mixamo', [
+        ['mixamorig:Hips', null, [0, 1, 0], [0, 1.1, 0]],
+        ['mixamorig:Spine', 'mixamorig:Hips', [0, 1.1, 0], [0, 1.2, 0]],
+        ['mixamorig:Spine1', 'mixamorig:Spine', [0, 1.2, 0], [0, 1.3, 0]],
+        ['mixamorig:LeftUpLeg', 'mixamorig:Hips', [0.1, 1, 0], [0.1, 0.5, 0]],
+        ['mixamorig:LeftLeg', 'mixamorig:LeftUpLeg', [0.1, 0.5, 0], [0.1, 0, 0]],
+        ['mixamorig:RightUpLeg', 'mixamorig:Hips', [-0.1, 1, 0], [-0.1, 0.5, 0]],
+        ['mixamorig:HeadTop_End', 'mixamorig:Spine1', [0, 1.3, 0], [0, 1.4, 0]],
+      ]);
+      const target = createArmature('Rig', [
+        ['pelvis', null, [0, 1, 0], [0, 1.1, 0]],
+        ['spine_01', 'pelvis', [0, 1.1, 0], [0, 1.2, 0]],
+        ['spine_02', 'spine_01', [0, 1.2, 0], [0, 1.3, 0]],
+        ['thigh_l', 'pelvis', [0.1, 1, 0], [0.1, 0.5, 0]],
+        ['calf_l', 'thigh_l', [0.1, 0.5, 0], [0.1, 0, 0]],
+        ['thigh_r', 'pelvis', [-0.1, 1, 0], [-0.1, 0.5, 0]],
+      ]);
+
+      const boneMap = autoMatchBones(bonesOf(source.armatureId), bonesOf(target.armatureId));
+
+      expect(boneMap).toEqual({
+        [source.ids['mixamorig:Hips']]: target.ids.pelvis,
+        [source.ids['mixamorig:Spine']]: target.ids.spine_01,
+        [source.ids['mixamorig:Spine1']]: target.ids.spine_02,
+        [source.ids['mixamorig:LeftUpLeg']]: target.ids.thigh_l,
+        [source.ids['mixamorig:LeftLeg']]: target.ids.calf_l,
+        [source.ids['mixamorig:RightUpLeg']]: target.ids.thigh_r,
+      });
+    });
+
+    test('should prefer identical names and use each target once', () => {
+      const source = createArmature('A', [
+        ['Hips', null, [0, 1, 0], [0, 2, 0]],
+        ['pelvis', null, [0, 1, 0], [0, 2, 0]],
+      ]);
+      const target = createArmature('B', [['pelvis', null, [0, 1, 0], [0, 2, 0]]]);
+
+      const boneMap = autoMatchBones(bonesOf(source.armatureId), bonesOf(target.armatureId));
+
+      expect(boneMap).toEqual({ [source.ids.pelvis]: target.ids.pelvis });
+    });
+  });
+
+  test('should convert bone maps to and from presets by name', () => {
+    const source = createArmature('A', [['Hips', null, [0, 1, 0], [0, 2, 0]], ['Head', 'Hips', [0, 2, 0], [0, 3, 0]]]);
+    const target = createArmature('B', [['pelvis', null, [0, 1, 0], [0, 2, 0]], ['head', 'pelvis', [0, 2, 0], [0, 3, 0]]]);
+    const other = createArmature('C', [['Hips', null, [0, 1, 0], [0, 2, 0]]]);
+    const boneMap = { [source.ids.Hips]: target.ids.pelvis, [source.ids.Head]: target.ids.head };
+
+    const names = boneMapToNames(boneMap, bonesOf(source.armatureId), bonesOf(target.armatureId));
+
+    expect(names).toEqual({ Hips: 'pelvis', Head: 'head' });
+    expect(boneMapFromNames(names, bonesOf(other.armatureId), bonesOf(target.armatureId))).toEqual({
+      [other.ids.Hips]: target.ids.pelvis,
+    });
+  });
+
+  describe('retargetAnimation', () => {
+    test('should copy rotations between matching rest poses', () => {
+      const source = createArmature('A', [['Hips', null, [0, 1, 0], [0, 2, 0]], ['Spine', 'Hips', [0, 2, 0], [0, 3, 0]]]);
+      const target = createArmature('B', [['pelvis', null, [0, 1, 0], [0, 2, 0]], ['spine', 'pelvis', [0, 2, 0], [0, 3, 0]]]);
+      const bend = quaternion([1, 0, 0], 0.5);
+      const animation = createAnimation([rotationTrack(source.ids.Spine, [[0, 0, 0, 1], bend])]);
+
+      const result = retargetAnimation(animation, {
+        sourceArmatureId: source.armatureId,
+        targetArmatureId: target.armatureId,
+        boneMap: { [source.ids.Hips]: target.ids.pelvis, [source.ids.Spine]: target.ids.spine },
+      });
+
+      expect(result).toMatchObject({ name: 'Walk (Retargeted)', duration: 1, loop: true });
+      expect(result.id).not.toBe(animation.id);
+      expect(result.tracks.map(t => t.boneId).sort()).toEqual([target.ids.pelvis, target.ids.spine].sort());
+      expect(result.tracks[0].keyframes).toHaveLength(31);
+      expectSameRotation(lastValue(result, target.ids.spine), bend);
+      expectSameRotation(lastValue(result, target.ids.pelvis), [0, 0, 0, 1]);
+    });
+
+    test('should compensate for different rest poses', () => {
+      // T-pose arm along +X onto an A-pose arm pointing down and out
+      const source = createArmature('A', [['LeftArm', null, [0, 0, 0], [1, 0, 0]]]);
+      const target = createArmature('B', [['upperarm_l', null, [0, 0, 0], [1, -1, 0]]]);
+      const raise = quaternion([0, 0, 1], Math.PI / 4);
+      const animation = createAnimation([rotationTrack(source.ids.LeftArm, [[0, 0, 0, 1], raise])]);
+      const options = {
+        sourceArmatureId: source.armatureId,
+        targetArmatureId: target.armatureId,
+        boneMap: { [source.ids.LeftArm]: target.ids.upperarm_l },
+      };
+
+      const result = retargetAnimation(animation, options);
+
+      // The target arm points where the source arm points: along +X, then raised 45°
+      const direction = (keyIndex: number) => {
+        const value = result.tracks[0].keyframes[keyIndex].value;
+        return new THREE.Vector3(1, -1, 0).normalize().applyQuaternion(new THREE.Quaternion(...value));
+      };
+      expect(direction(0).distanceTo(new THREE.Vector3(1, 0, 0))).toBeLessThan(1e-5);
+      expect(direction(30).distanceTo(new THREE.Vector3(1, 1, 0).normalize())).toBeLessThan(1e-5);
+
+      // Without matching, the rest pose is kept and only the motion carries over
+      const unmatched = retargetAnimation(animation, { ...options, matchRestPose: false });
+      expectSameRotation(lastValue(unmatched, target.ids.upperarm_l), raise);
+    });
+
+    test('should carry rotations across bones missing from the target', () => {
+      const source = createArmature('A', [
+        ['Hips', null, [0, 0, 0], [0, 1, 0]],
+        ['Spine', 'Hips', [0, 1, 0], [0, 2, 0]],
+        ['Neck', 'Spine', [0, 2, 0], [0, 3, 0]],
+      ]);
+      const target = createArmature('B', [
+        ['Hips', null, [0, 0, 0], [0, 1, 0]],
+        ['Neck', 'Hips', [0, 1, 0], [0, 3, 0]],
+      ]);
+      const twist = quaternion([0, 1, 0], 0.3);
+      const animation = createAnimation([rotationTrack(source.ids.Spine, [twist, twist])]);
+
+      const result = retargetAnimation(animation, {
+        sourceArmatureId: source.armatureId,
+        targetArmatureId: target.armatureId,
+        boneMap: autoMatchBones(bonesOf(source.armatureId), bonesOf(target.armatureId)),
+      });
+
+      // The unmapped spine's twist lands on the target neck
+      expectSameRotation(lastValue(result, target.ids.Neck), twist);
+    });
+
+    test('should scale root motion by skeleton height', () => {
+      const source = createArmature('A', [['Hips', null, [0, 1, 0], [0, 2, 0]], ['Head', 'Hips', [0, 2, 0], [0, 3, 0]]]);
+      const target = createArmature('B', [['Hips', null, [0, 0.5, 0], [0, 1, 0]], ['Head', 'Hips', [0, 1, 0], [0, 1.5, 0]]]);
+      const positionTrack = (boneId: string): AnimationTrack => ({
+        ...rotationTrack(boneId, []),
+        id: `position_${boneId}`,
+        propertyPath: ['boneTransform', 'position'],
+        transformType: 'position',
+        keyframes: [
+          { id: 'p0', time: 0, value: [0, 1, 0], interpolation: 'linear' },
+          { id: 'p1', time: 1, value: [2, 1, 0], interpolation: 'linear' },
+        ],
+      });
+      const animation = createAnimation([positionTrack(source.ids.Hips), positionTrack(source.ids.Head)]);
+      const options = {
+        sourceArmatureId: source.armatureId,
+        targetArmatureId: target.armatureId,
+        boneMap: { [source.ids.Hips]: target.ids.Hips, [source.ids.Head]: target.ids.Head },
+      };
+
+      const result = retargetAnimation(animation, options);
+
+      // Only the hips move; the head keeps its offset from them
+      expect(result.tracks.filter(t => t.transformType === 'position').map(t => t.boneId)).toEqual([target.ids.Hips]);
+      const [x, y, z] = lastValue(result, target.ids.Hips, 'position');
+      expect(x).toBeCloseTo(1);
+      expect(y).toBeCloseTo(0.5);
+      expect(z).toBeCloseTo(0);
+
+      expect(lastValue(retargetAnimation(animation, { ...options, scaleRootMotion: false }), target.ids.Hips, 'position')[0]).toBeCloseTo(2);
+      expect(retargetAnimation(animation, { ...options, rootMotion: false }).tracks.every(t => t.transformType === 'rotation')).toBe(true);
+    });
+
+    test('should throw for missing armatures', () => {
+      const source = createArmature('A', [['Hips', null, [0, 0, 0], [0, 1, 0]]]);
+
+      expect(() => retargetAnimation(createAnimation([]), {
+        sourceArmatureId: source.armatureId,
+        targetArmatureId: 'missing',
+        boneMap: {},
+      })).toThrow('Target armature not found');
+    });
+  });
+
+  test('should find the armatures an animation moves', () => {
+    const source = createArmature('A', [['Hips', null, [0, 0, 0], [0, 1, 0]]]);
+
+    expect(getAnimatedArmatureIds(createAnimation([rotationTrack(source.ids.Hips, [[0, 0, 0, 1]])]))).toEqual([source.armatureId]);
+  });
+});
@@ -248,3 +248,41 @@ export class UpdateAnimationCommand extends Command {
     return `Update animation settings`;
   }
 }
+
+/**
+ * Update Track Command
+ */
+export class UpdateTrackCommand extends Command {
+  private animationId: string;
+  private trackId: string;
+  private oldValues: Partial<AnimationTrack>;
+  private newValues: Partial<AnimationTrack>;
+  private description: string;
+
+  constructor(
+    animationId: string,
+    trackId: string,
+    oldValues: Partial<AnimationTrack>,
+    newValues: Partial<AnimationTrack>,
+    description: string = 'Update track'
+  ) {
+    super();
+    this.animationId = animationId;
+    this.trackId = trackId;
+    this.oldValues = oldValues;
+    this.newValues = newValues;
+    this.description = description;
+  }
+
+  execute(): void {
+    useAnimationStore.getState().updateTrack(this.animationId, this.trackId, this.newValues);
+  }
+
+  undo(): void {
+    useAnimationStore.getState().updateTrack(this.animationId, this.trackId, this.oldValues);
+  }
+
+  getDescription(): string {
+    return this.description;
+  }
+}
@@ -8,6 +8,12 @@ export abstract class Command {
   abstract execute(): void;
   abstract undo(): void;
   abstract getDescription(): string;
+
+  /**
+   * Fold `next`, which has just executed, into this command so both undo as one
+   * step (e.g. the updates of one slider drag). Return false to keep them apart.
+   */
+  mergeWith?(next: Command): boolean;
 }
 
 export class CommandHistory {
@@ -22,6 +28,10 @@ export class CommandHistory {
     // Execute the command
     command.execute();
 
+    // Continuous edits fold into the command they continue
+    const previous = this.history[this.currentIndex];
+    if (previous?.mergeWith?.(command)) return;
+
     // Add to history
     this.history.push(command);
     this.currentIndex++;
@@ -0,0 +1,46 @@
+/**
+ * Driver Commands
+ *
+ * Undo/redo for edits to drivers.
+ */
+
+import { Command } from './Command';
+import { Driver, useDriverStore } from '../../stores/driverStore';
+
+/**
+ * Runs one driver store edit. The store replaces its driver array rather than
+ * mutating it, so undo and redo restore the drivers from before and after the edit.
+ */
+export class DriverEditCommand extends Command {
+  private description: string;
+  private edit: () => void;
+  private before: Driver[] | null = null;
+  private after: Driver[] | null = null;
+
+  constructor(description: string, edit: () => void) {
+    super();
+    this.description = description;
+    this.edit = edit;
+  }
+
+  execute(): void {
+    if (this.after) {
+      useDriverStore.setState({ drivers: this.after });
+      return;
+    }
+
+    this.before = useDriverStore.getState().drivers;
+    this.edit();
+    this.after = useDriverStore.getState().drivers;
+  }
+
+  undo(): void {
+    if (this.before) {
+      useDriverStore.setState({ drivers: this.before });
+    }
+  }
+
+  getDescription(): string {
+    return this.description;
+  }
+}
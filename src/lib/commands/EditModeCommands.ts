@@ -8,6 +8,7 @@
 import { Command } from './Command';
 import { meshRegistry } from '../mesh/MeshRegistry';
 import { useObjectsStore } from '../../stores/objectsStore';
+import { QMesh, SerializedQMesh } from '../qmesh/QMesh';
 import * as THREE from 'three';
 
 /**
@@ -301,3 +302,36 @@ export class ExtrudeFaceCommand implements Command {
     geometry.computeVertexNormals();
   }
 }
+
+/**
+ * Replace QMesh Command
+ * Stores serialized QMesh snapshots before/after an in-place QMesh operation
+ * (UV unwrap, seam marking) so topology and corner UVs restore exactly
+ */
+export class ReplaceQMeshCommand implements Command {
+  constructor(
+    private objectId: string,
+    private before: SerializedQMesh,
+    private after: SerializedQMesh,
+    private description: string
+  ) {}
+
+  execute(): void {
+    this.apply(this.after);
+  }
+
+  undo(): void {
+    this.apply(this.before);
+  }
+
+  getDescription(): string {
+    return this.description;
+  }
+
+  private apply(data: SerializedQMesh): void {
+    const sceneObject = useObjectsStore.getState().getObject(this.objectId);
+    if (!sceneObject) return;
+
+    useObjectsStore.getState().updateObjectGeometry(this.objectId, QMesh.fromJSON(data));
+  }
+}
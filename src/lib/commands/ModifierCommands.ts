@@ -0,0 +1,383 @@
+/**
+ * Modifier Commands
+ *
+ * Command implementations for modifier stack operations with undo/redo support.
+ */
+
+import { Command } from './Command';
+import {
+  Modifier,
+  ModifierParams,
+  ModifierType,
+  cloneModifier,
+  createModifier,
+  useModifierStore,
+} from '../../stores/modifierStore';
+import { useObjectsStore } from '../../stores/objectsStore';
+import { QMesh, SerializedQMesh } from '../qmesh/QMesh';
+
+function describeType(type: ModifierType): string {
+  return type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+function findModifier(objectId: string, modifierId: string): { modifier: Modifier; index: number } {
+  const modifiers = useModifierStore.getState().getModifiers(objectId);
+  const index = modifiers.findIndex((m) => m.id === modifierId);
+  if (index === -1) {
+    throw new Error(`Modifier ${modifierId} not found on object ${objectId}`);
+  }
+  return { modifier: modifiers[index], index };
+}
+
+function getObjectQMesh(objectId: string): QMesh {
+  const qMesh = useObjectsStore.getState().getObject(objectId)?.qMesh;
+  if (!qMesh) {
+    throw new Error(`Object ${objectId} has no mesh to apply modifiers to`);
+  }
+  return qMesh;
+}
+
+/**
+ * Command to add a modifier to the end of a stack
+ */
+export class AddModifierCommand extends Command {
+  private objectId: string;
+  private modifier: Modifier;
+  private store = useModifierStore.getState();
+
+  constructor(objectId: string, type: ModifierType, params?: ModifierParams) {
+    super();
+    this.objectId = objectId;
+    this.modifier = createModifier(type, params);
+  }
+
+  execute(): void {
+    this.store.insertModifier(this.objectId, this.modifier);
+  }
+
+  undo(): void {
+    this.store.removeModifier(this.objectId, this.modifier.id);
+  }
+
+  getModifier(): Modifier {
+    return this.modifier;
+  }
+
+  getDescription(): string {
+    return `Add ${describeType(this.modifier.type)} Modifier`;
+  }
+}
+
+/**
+ * Command to remove a modifier from a stack
+ */
+export class RemoveModifierCommand extends Command {
+  private objectId: string;
+  private modifier: Modifier;
+  private index: number;
+  private store = useModifierStore.getState();
+
+  constructor(objectId: string, modifierId: string) {
+    super();
+    this.objectId = objectId;
+    ({ modifier: this.modifier, index: this.index } = findModifier(objectId, modifierId));
+  }
+
+  execute(): void {
+    this.store.removeModifier(this.objectId, this.modifier.id);
+  }
+
+  undo(): void {
+    this.store.insertModifier(this.objectId, this.modifier, this.index);
+  }
+
+  getDescription(): string {
+    return `Remove ${this.modifier.name}`;
+  }
+}
+
+/**
+ * Command to move a modifier to another position in its stack
+ */
+export class MoveModifierCommand extends Command {
+  private objectId: string;
+  private fromIndex: number;
+  private toIndex: number;
+  private name: string;
+  private store = useModifierStore.getState();
+
+  constructor(objectId: string, modifierId: string, toIndex: number) {
+    super();
+    const { modifier, index } = findModifier(objectId, modifierId);
+    this.objectId = objectId;
+    this.fromIndex = index;
+    this.toIndex = toIndex;
+    this.name = modifier.name;
+  }
+
+  execute(): void {
+    this.store.reorderModifiers(this.objectId, this.fromIndex, this.toIndex);
+  }
+
+  undo(): void {
+    this.store.reorderModifiers(this.objectId, this.toIndex, this.fromIndex);
+  }
+
+  getDescription(): string {
+    return `Move ${this.name} ${this.toIndex < this.fromIndex ? 'Up' : 'Down'}`;
+  }
+}
+
+/**
+ * Command to enable or disable a modifier
+ */
+export class ToggleModifierCommand extends Command {
+  private objectId: string;
+  private modifierId: string;
+  private wasEnabled: boolean;
+  private name: string;
+  private store = useModifierStore.getState();
+
+  constructor(objectId: string, modifierId: string) {
+    super();
+    const { modifier } = findModifier(objectId, modifierId);
+    this.objectId = objectId;
+    this.modifierId = modifierId;
+    this.wasEnabled = modifier.enabled;
+    this.name = modifier.name;
+  }
+
+  execute(): void {
+    this.store.updateModifier(this.objectId, this.modifierId, { enabled: !this.wasEnabled });
+  }
+
+  undo(): void {
+    this.store.updateModifier(this.objectId, this.modifierId, { enabled: this.wasEnabled });
+  }
+
+  getDescription(): string {
+    return `${this.wasEnabled ? 'Disable' : 'Enable'} ${this.name}`;
+  }
+}
+
+// Updates to the same field this close together (ms) are one edit, e.g. a slider drag
+const UPDATE_MERGE_WINDOW = 1000;
+
+/**
+ * Names of the fields an update changes, with params expanded to the params they change
+ */
+function getChangedFields(oldValues: Partial<Modifier>, newValues: Partial<Modifier>): string[] {
+  return (Object.keys(newValues) as Array<keyof Modifier>).flatMap((key) => {
+    if (key !== 'params' || !newValues.params) return [key];
+    const oldParams = (oldValues.params || {}) as Record<string, unknown>;
+    const newParams = newValues.params as Record<string, unknown>;
+    return Object.keys(newParams)
+      .filter((param) => JSON.stringify(newParams[param]) !== JSON.stringify(oldParams[param]))
+      .map((param) => `params.${param}`);
+  }).sort();
+}
+
+/**
+ * Command to update modifier params or name
+ */
+export class UpdateModifierCommand extends Command {
+  private objectId: string;
+  private modifierId: string;
+  private oldValues: Partial<Modifier>;
+  private newValues: Partial<Modifier>;
+  private name: string;
+  private fields: string;
+  private updatedAt = Date.now();
+  private store = useModifierStore.getState();
+
+  constructor(objectId: string, modifierId: string, newValues: Partial<Modifier>) {
+    super();
+    const { modifier } = findModifier(objectId, modifierId);
+    this.objectId = objectId;
+    this.modifierId = modifierId;
+    this.newValues = newValues;
+    this.name = modifier.name;
+
+    // Only remember the fields this update touches
+    this.oldValues = {};
+    (Object.keys(newValues) as Array<keyof Modifier>).forEach((key) => {
+      (this.oldValues as Record<string, unknown>)[key] = modifier[key];
+    });
+    this.fields = getChangedFields(this.oldValues, newValues).join();
+  }
+
+  execute(): void {
+    this.store.updateModifier(this.objectId, this.modifierId, this.newValues);
+  }
+
+  undo(): void {
+    this.store.updateModifier(this.objectId, this.modifierId, this.oldValues);
+  }
+
+  mergeWith(next: Command): boolean {
+    if (
+      !(next instanceof UpdateModifierCommand) ||
+      next.objectId !== this.objectId ||
+      next.modifierId !== this.modifierId ||
+      next.updatedAt - this.updatedAt > UPDATE_MERGE_WINDOW ||
+      next.fields !== this.fields
+    ) {
+      return false;
+    }
+
+    // Keep the values from before the first update and take the latest ones
+    this.newValues = next.newValues;
+    this.updatedAt = next.updatedAt;
+    return true;
+  }
+
+  getDescription(): string {
+    return `Edit ${this.name}`;
+  }
+}
+
+/**
+ * Command to duplicate a modifier directly below the original
+ */
+export class DuplicateModifierCommand extends Command {
+  private objectId: string;
+  private duplicate: Modifier;
+  private index: number;
+  private store = useModifierStore.getState();
+
+  constructor(objectId: string, modifierId: string) {
+    super();
+    const { modifier, index } = findModifier(objectId, modifierId);
+    this.objectId = objectId;
+    this.index = index + 1;
+    this.duplicate = cloneModifier(modifier, `${modifier.name} Copy`);
+  }
+
+  execute(): void {
+    this.store.insertModifier(this.objectId, this.duplicate, this.index);
+  }
+
+  undo(): void {
+    this.store.removeModifier(this.objectId, this.duplicate.id);
+  }
+
+  getModifier(): Modifier {
+    return this.duplicate;
+  }
+
+  getDescription(): string {
+    return `Duplicate ${this.duplicate.name.replace(/ Copy$/, '')}`;
+  }
+}
+
+/**
+ * Command to bake one modifier into the object's mesh and remove it from the stack.
+ * Like other editors, the modifier is applied to the base mesh on its own,
+ * regardless of its position in the stack.
+ */
+export class ApplyModifierCommand extends Command {
+  private objectId: string;
+  private modifier: Modifier;
+  private index: number;
+  private before: SerializedQMesh;
+  private after: SerializedQMesh;
+  private store = useModifierStore.getState();
+
+  constructor(objectId: string, modifierId: string) {
+    super();
+    const qMesh = getObjectQMesh(objectId);
+    this.objectId = objectId;
+    ({ modifier: this.modifier, index: this.index } = findModifier(objectId, modifierId));
+
+    this.before = qMesh.toJSON();
+    this.after = this.store
+      .evaluateModifiersOnQMesh(objectId, qMesh, [{ ...this.modifier, enabled: true }])
+      .toJSON();
+  }
+
+  execute(): void {
+    useObjectsStore.getState().updateObjectGeometry(this.objectId, QMesh.fromJSON(this.after));
+    this.store.removeModifier(this.objectId, this.modifier.id);
+  }
+
+  undo(): void {
+    useObjectsStore.getState().updateObjectGeometry(this.objectId, QMesh.fromJSON(this.before));
+    this.store.insertModifier(this.objectId, this.modifier, this.index);
+  }
+
+  getDescription(): string {
+    return `Apply ${this.modifier.name}`;
+  }
+}
+
+/**
+ * Command to bake every enabled modifier, in order, into the object's mesh.
+ * Disabled modifiers stay in the stack.
+ */
+export class ApplyAllModifiersCommand extends Command {
+  private objectId: string;
+  private previousStack: Modifier[];
+  private before: SerializedQMesh;
+  private after: SerializedQMesh;
+  private store = useModifierStore.getState();
+
+  constructor(objectId: string) {
+    super();
+    const qMesh = getObjectQMesh(objectId);
+    this.objectId = objectId;
+    this.previousStack = [...this.store.getModifiers(objectId)];
+
+    this.before = qMesh.toJSON();
+    this.after = this.store.evaluateModifiersOnQMesh(objectId, qMesh, this.previousStack).toJSON();
+  }
+
+  execute(): void {
+    useObjectsStore.getState().updateObjectGeometry(this.objectId, QMesh.fromJSON(this.after));
+    this.store.setModifiers(this.objectId, this.previousStack.filter((m) => !m.enabled));
+  }
+
+  undo(): void {
+    useObjectsStore.getState().updateObjectGeometry(this.objectId, QMesh.fromJSON(this.before));
+    this.store.setModifiers(this.objectId, this.previousStack);
+  }
+
+  getDescription(): string {
+    return 'Apply All Modifiers';
+  }
+}
+
+/**
+ * Command to replace the stacks of other objects with copies of one object's stack
+ */
+export class CopyModifierStackCommand extends Command {
+  private targetStacks: Map<string, { previous: Modifier[]; copied: Modifier[] }> = new Map();
+  private store = useModifierStore.getState();
+
+  constructor(sourceId: string, targetIds: string[]) {
+    super();
+    const source = this.store.getModifiers(sourceId);
+
+    targetIds
+      .filter((id) => id !== sourceId)
+      .forEach((id) => {
+        this.targetStacks.set(id, {
+          previous: [...this.store.getModifiers(id)],
+          // Each target gets its own IDs so later edits stay independent
+          copied: source.map((m) => cloneModifier(m)),
+        });
+      });
+  }
+
+  execute(): void {
+    this.targetStacks.forEach(({ copied }, id) => this.store.setModifiers(id, copied));
+  }
+
+  undo(): void {
+    this.targetStacks.forEach(({ previous }, id) => this.store.setModifiers(id, previous));
+  }
+
+  getDescription(): string {
+    const count = this.targetStacks.size;
+    return `Copy Modifiers to ${count} object${count !== 1 ? 's' : ''}`;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * NLA Commands
+ *
+ * Undo/redo for edits to NLA layers and strips.
+ */
+
+import { Command } from './Command';
+import { NLALayer, useNLAStore } from '../../stores/nlaStore';
+
+/**
+ * Runs one NLA store edit. The store replaces its layer arrays rather than
+ * mutating them, so undo and redo restore the layers from before and after the edit.
+ */
+export class NLAEditCommand extends Command {
+  private description: string;
+  private edit: () => void;
+  private before: NLALayer[] | null = null;
+  private after: NLALayer[] | null = null;
+
+  constructor(description: string, edit: () => void) {
+    super();
+    this.description = description;
+    this.edit = edit;
+  }
+
+  execute(): void {
+    if (this.after) {
+      useNLAStore.setState({ layers: this.after });
+      return;
+    }
+
+    this.before = useNLAStore.getState().layers;
+    this.edit();
+    this.after = useNLAStore.getState().layers;
+  }
+
+  undo(): void {
+    if (this.before) {
+      useNLAStore.setState({ layers: this.before });
+    }
+  }
+
+  getDescription(): string {
+    return this.description;
+  }
+}
@@ -14,6 +14,7 @@ import {
   RemoveKeyframeCommand,
   UpdateKeyframeCommand,
   UpdateAnimationCommand,
+  UpdateTrackCommand,
 } from '../AnimationCommands';
 
 describe('AnimationCommands', () => {
@@ -430,6 +431,30 @@ describe('AnimationCommands', () => {
     });
   });
 
+  describe('UpdateTrackCommand', () => {
+    it('should update the track and restore it on undo', () => {
+      const animation = useAnimationStore.getState().createAnimation('Test');
+      useAnimationStore.getState().addTrack(animation.id, {
+        id: 'track_1',
+        objectId: 'obj_1',
+        property: 'position',
+        propertyPath: ['position'],
+        keyframes: [],
+        enabled: true,
+      });
+
+      const modifiers = [{ id: 'fmod_1', type: 'stepped' as const, enabled: true, step: 0.5, offset: 0 }];
+      const command = new UpdateTrackCommand(animation.id, 'track_1', { modifiers: undefined }, { modifiers }, 'Add Stepped modifier');
+
+      command.execute();
+      expect(useAnimationStore.getState().getTrack(animation.id, 'track_1')?.modifiers).toEqual(modifiers);
+      expect(command.getDescription()).toBe('Add Stepped modifier');
+
+      command.undo();
+      expect(useAnimationStore.getState().getTrack(animation.id, 'track_1')?.modifiers).toBeUndefined();
+    });
+  });
+
   describe('Command Integration', () => {
     it('should support multiple execute/undo cycles', () => {
       const animation = useAnimationStore.getState().createAnimation('Test');
@@ -0,0 +1,42 @@
+/**
+ * Driver Commands Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useDriverStore } from '../../../stores/driverStore';
+import { CommandHistory } from '../Command';
+import { DriverEditCommand } from '../DriverCommands';
+
+describe('DriverCommands', () => {
+  let history: CommandHistory;
+
+  beforeEach(() => {
+    useDriverStore.setState({ drivers: [] });
+    history = new CommandHistory();
+  });
+
+  it('should undo and redo an edit', () => {
+    const driver = useDriverStore.getState().addDriver('obj1', { type: 'light', property: 'intensity' }, '1');
+
+    history.execute(new DriverEditCommand('Edit driver expression', () => {
+      useDriverStore.getState().updateDriver(driver.id, { expression: 'var * 2' });
+    }));
+    expect(useDriverStore.getState().drivers[0].expression).toBe('var * 2');
+
+    history.undo();
+    expect(useDriverStore.getState().drivers[0].expression).toBe('1');
+
+    history.redo();
+    expect(useDriverStore.getState().drivers[0].expression).toBe('var * 2');
+  });
+
+  it('should undo adding a driver', () => {
+    history.execute(new DriverEditCommand('Add driver', () => {
+      useDriverStore.getState().addDriver('obj1', { type: 'transform', channel: 'position', axis: 0 });
+    }));
+    expect(useDriverStore.getState().drivers).toHaveLength(1);
+
+    history.undo();
+    expect(useDriverStore.getState().drivers).toHaveLength(0);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Modifier Commands Unit Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as THREE from 'three';
+import { useModifierStore } from '../../../stores/modifierStore';
+import { useObjectsStore } from '../../../stores/objectsStore';
+import { CommandHistory } from '../Command';
+import { QMesh } from '../../qmesh/QMesh';
+import {
+  AddModifierCommand,
+  RemoveModifierCommand,
+  MoveModifierCommand,
+  ToggleModifierCommand,
+  UpdateModifierCommand,
+  DuplicateModifierCommand,
+  ApplyModifierCommand,
+  ApplyAllModifiersCommand,
+  CopyModifierStackCommand,
+} from '../ModifierCommands';
+
+const objectId = 'obj-1';
+
+function stackTypes(id: string = objectId): string[] {
+  return useModifierStore.getState().getModifiers(id).map((m) => m.type);
+}
+
+function objectFaceCount(id: string = objectId): number {
+  return useObjectsStore.getState().getObject(id)!.qMesh!.faces.size;
+}
+
+describe('ModifierCommands', () => {
+  let history: CommandHistory;
+
+  beforeEach(() => {
+    useModifierStore.setState({ modifiersByObject: new Map(), pendingEvaluations: new Map() });
+    useModifierStore.getState().invalidateModifierCache();
+
+    const qMesh = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+    useObjectsStore.setState({
+      objects: new Map([
+        [objectId, { id: objectId, name: 'Cube', position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1], qMesh } as any],
+        ['obj-2', { id: 'obj-2', name: 'Other', position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] } as any],
+      ]),
+    });
+
+    history = new CommandHistory();
+  });
+
+  describe('AddModifierCommand', () => {
+    it('should add, undo and redo with the same modifier', () => {
+      const command = new AddModifierCommand(objectId, 'mirror', { mirrorAxis: 'y' });
+      history.execute(command);
+
+      const added = useModifierStore.getState().getModifiers(objectId)[0];
+      expect(added.id).toBe(command.getModifier().id);
+      expect(added.params.mirrorAxis).toBe('y');
+
+      history.undo();
+      expect(stackTypes()).toEqual([]);
+
+      history.redo();
+      expect(useModifierStore.getState().getModifiers(objectId)[0].id).toBe(added.id);
+    });
+  });
+
+  describe('RemoveModifierCommand', () => {
+    it('should restore the modifier at its original position', () => {
+      const { addModifier } = useModifierStore.getState();
+      addModifier(objectId, 'mirror');
+      const middle = addModifier(objectId, 'array');
+      addModifier(objectId, 'bevel');
+
+      history.execute(new RemoveModifierCommand(objectId, middle.id));
+      expect(stackTypes()).toEqual(['mirror', 'bevel']);
+
+      history.undo();
+      expect(stackTypes()).toEqual(['mirror', 'array', 'bevel']);
+    });
+
+    it('should throw for an unknown modifier', () => {
+      expect(() => new RemoveModifierCommand(objectId, 'missing')).toThrow();
+    });
+  });
+
+  describe('MoveModifierCommand', () => {
+    it('should reorder and undo', () => {
+      const { addModifier } = useModifierStore.getState();
+      addModifier(objectId, 'mirror');
+      const subdivision = addModifier(objectId, 'subdivision');
+
+      const command = new MoveModifierCommand(objectId, subdivision.id, 0);
+      history.execute(command);
+      expect(stackTypes()).toEqual(['subdivision', 'mirror']);
+      expect(command.getDescription()).toBe('Move Subdivision Modifier Up');
+
+      history.undo();
+      expect(stackTypes()).toEqual(['mirror', 'subdivision']);
+    });
+  });
+
+  describe('ToggleModifierCommand', () => {
+    it('should toggle and undo', () => {
+      const modifier = useModifierStore.getState().addModifier(objectId, 'mirror');
+
+      history.execute(new ToggleModifierCommand(objectId, modifier.id));
+      expect(useModifierStore.getState().getModifiers(objectId)[0].enabled).toBe(false);
+
+      history.undo();
+      expect(useModifierStore.getState().getModifiers(objectId)[0].enabled).toBe(true);
+    });
+  });
+
+  describe('UpdateModifierCommand', () => {
+    it('should restore previous params', () => {
+      const modifier = useModifierStore.getState().addModifier(objectId, 'subdivision', { levels: 1 });
+
+      history.execute(new UpdateModifierCommand(objectId, modifier.id, {
+        params: { ...modifier.params, levels: 3 },
+      }));
+      expect(useModifierStore.getState().getModifiers(objectId)[0].params.levels).toBe(3);
+
+      history.undo();
+      expect(useModifierStore.getState().getModifiers(objectId)[0].params.levels).toBe(1);
+    });
+
+    it('should merge consecutive updates of one param into a single undo step', () => {
+      const modifier = useModifierStore.getState().addModifier(objectId, 'bevel', { bevelAmount: 0.1 });
+      const setParams = (params: Partial<typeof modifier.params>) => history.execute(new UpdateModifierCommand(objectId, modifier.id, {
+        params: { ...useModifierStore.getState().getModifiers(objectId)[0].params, ...params },
+      }));
+
+      setParams({ bevelAmount: 0.2 });
+      setParams({ bevelAmount: 0.3 });
+      setParams({ bevelAmount: 0.4 });
+      setParams({ bevelSegments: 3 });
+
+      expect(history.getHistory()).toHaveLength(2);
+
+      history.undo();
+      expect(useModifierStore.getState().getModifiers(objectId)[0].params.bevelSegments).toBe(modifier.params.bevelSegments);
+      history.undo();
+      expect(useModifierStore.getState().getModifiers(objectId)[0].params.bevelAmount).toBe(0.1);
+      history.redo();
+      expect(useModifierStore.getState().getModifiers(objectId)[0].params.bevelAmount).toBe(0.4);
+    });
+
+    it('should keep updates apart once the merge window has passed', () => {
+      vi.useFakeTimers();
+      try {
+        const modifier = useModifierStore.getState().addModifier(objectId, 'subdivision', { levels: 1 });
+
+        history.execute(new UpdateModifierCommand(objectId, modifier.id, { params: { ...modifier.params, levels: 2 } }));
+        vi.advanceTimersByTime(2000);
+        history.execute(new UpdateModifierCommand(objectId, modifier.id, { params: { ...modifier.params, levels: 3 } }));
+
+        expect(history.getHistory()).toHaveLength(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('DuplicateModifierCommand', () => {
+    it('should insert an independent copy below the original', () => {
+      const { addModifier } = useModifierStore.getState();
+      const array = addModifier(objectId, 'array', { arrayOffset: [1, 2, 3] });
+      addModifier(objectId, 'bevel');
+
+      const command = new DuplicateModifierCommand(objectId, array.id);
+      history.execute(command);
+
+      const modifiers = useModifierStore.getState().getModifiers(objectId);
+      expect(modifiers.map((m) => m.type)).toEqual(['array', 'array', 'bevel']);
+      expect(modifiers[1].id).not.toBe(array.id);
+      expect(modifiers[1].name).toBe('Array Modifier Copy');
+      expect(modifiers[1].params.arrayOffset).toEqual([1, 2, 3]);
+      expect(modifiers[1].params.arrayOffset).not.toBe(array.params.arrayOffset);
+
+      history.undo();
+      expect(stackTypes()).toEqual(['array', 'bevel']);
+    });
+  });
+
+  describe('ApplyModifierCommand', () => {
+    it('should bake the modifier into the mesh and remove it', () => {
+      const { addModifier } = useModifierStore.getState();
+      const mirror = addModifier(objectId, 'mirror');
+      addModifier(objectId, 'subdivision');
+
+      history.execute(new ApplyModifierCommand(objectId, mirror.id));
+      expect(objectFaceCount()).toBe(12);
+      expect(stackTypes()).toEqual(['subdivision']);
+
+      history.undo();
+      expect(objectFaceCount()).toBe(6);
+      expect(stackTypes()).toEqual(['mirror', 'subdivision']);
+
+      history.redo();
+      expect(objectFaceCount()).toBe(12);
+    });
+
+    it('should throw for objects without a mesh', () => {
+      const modifier = useModifierStore.getState().addModifier('obj-2', 'mirror');
+      expect(() => new ApplyModifierCommand('obj-2', modifier.id)).toThrow();
+    });
+  });
+
+  describe('ApplyAllModifiersCommand', () => {
+    it('should bake enabled modifiers in order and keep disabled ones', () => {
+      const { addModifier, toggleModifier } = useModifierStore.getState();
+      addModifier(objectId, 'mirror');
+      addModifier(objectId, 'array', { arrayCount: 2, arrayOffset: [3, 0, 0] });
+      const disabled = addModifier(objectId, 'subdivision');
+      toggleModifier(objectId, disabled.id);
+
+      history.execute(new ApplyAllModifiersCommand(objectId));
+      expect(objectFaceCount()).toBe(24);
+      expect(stackTypes()).toEqual(['subdivision']);
+
+      history.undo();
+      expect(objectFaceCount()).toBe(6);
+      expect(stackTypes()).toEqual(['mirror', 'array', 'subdivision']);
+    });
+  });
+
+  describe('CopyModifierStackCommand', () => {
+    it('should replace target stacks with copies and restore them on undo', () => {
+      const { addModifier } = useModifierStore.getState();
+      addModifier(objectId, 'mirror');
+      addModifier(objectId, 'bevel');
+      addModifier('obj-2', 'solidify');
+
+      history.execute(new CopyModifierStackCommand(objectId, [objectId, 'obj-2']));
+
+      const source = useModifierStore.getState().getModifiers(objectId);
+      const target = useModifierStore.getState().getModifiers('obj-2');
+      expect(target.map((m) => m.type)).toEqual(['mirror', 'bevel']);
+      expect(target[0].id).not.toBe(source[0].id);
+      expect(stackTypes()).toEqual(['mirror', 'bevel']);
+
+      history.undo();
+      expect(stackTypes('obj-2')).toEqual(['solidify']);
+    });
+  });
+});
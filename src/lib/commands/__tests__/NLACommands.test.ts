@@ -0,0 +1,37 @@
+/**
+ * NLA Commands Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useNLAStore } from '../../../stores/nlaStore';
+import { CommandHistory } from '../Command';
+import { NLAEditCommand } from '../NLACommands';
+
+describe('NLACommands', () => {
+  let history: CommandHistory;
+
+  beforeEach(() => {
+    useNLAStore.setState({ layers: [], selectedStripId: null });
+    history = new CommandHistory();
+  });
+
+  it('should undo and redo an edit', () => {
+    const layer = useNLAStore.getState().addLayer('obj1');
+    const strip = useNLAStore.getState().addStrip(layer.id, 'anim1', 0, 2)!;
+
+    history.execute(new NLAEditCommand('Move NLA strip', () => {
+      useNLAStore.getState().updateStrip(layer.id, strip.id, { start: 3 });
+    }));
+    expect(useNLAStore.getState().layers[0].strips[0].start).toBe(3);
+
+    history.undo();
+    expect(useNLAStore.getState().layers[0].strips[0].start).toBe(0);
+
+    history.redo();
+    expect(useNLAStore.getState().layers[0].strips[0].start).toBe(3);
+  });
+
+  it('should describe the edit', () => {
+    expect(new NLAEditCommand('Add NLA layer', () => {}).getDescription()).toBe('Add NLA layer');
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Animation Clip Exporter
+ *
+ * Turns animations into AnimationClips so GLTFExporter can write them as
+ * channels: object position, rotation and scale tracks animate the object's
+ * node, and bone transform tracks the bone's node (see SkeletonExporter).
+ * Nodes are matched through the scene object id kept in their userData.
+ * Tracks with no glTF channel (materials, lights, shape keys) are left out.
+ */
+
+import * as THREE from 'three';
+import { Animation, AnimationTrack } from '../../stores/animationStore';
+import { evaluateTrack } from '../animation/FModifiers';
+import { SkeletonExporter } from './SkeletonExporter';
+
+type TransformProperty = 'position' | 'rotation' | 'scale';
+
+const TRANSFORM_PROPERTIES: readonly string[] = ['position', 'rotation', 'scale'];
+const AXES = ['x', 'y', 'z'];
+
+export class AnimationClipExporter {
+  /**
+   * One clip per enabled animation that has tracks on the nodes under `root`
+   */
+  static buildAnimationClips(animations: Iterable<Animation>, root: THREE.Object3D): THREE.AnimationClip[] {
+    const nodesById = new Map<string, THREE.Object3D>();
+    root.traverse(node => {
+      if (typeof node.userData.id === 'string') {
+        nodesById.set(node.userData.id, node);
+      }
+    });
+
+    const clips: THREE.AnimationClip[] = [];
+
+    for (const animation of animations) {
+      if (!animation.enabled) continue;
+
+      const tracks: THREE.KeyframeTrack[] = [];
+      // Whole-vector and per-axis tracks of one property share a channel
+      const transformTracks = new Map<string, AnimationTrack[]>();
+
+      for (const track of animation.tracks) {
+        if (track.property === 'boneTransform') {
+          const bone = track.boneId ? nodesById.get(track.boneId) : undefined;
+          const boneTrack = bone instanceof THREE.Bone ? SkeletonExporter.buildBoneTrack(track, bone) : null;
+          if (boneTrack) tracks.push(boneTrack);
+        } else if (
+          TRANSFORM_PROPERTIES.includes(track.property) &&
+          track.enabled &&
+          track.keyframes.length > 0 &&
+          nodesById.has(track.objectId)
+        ) {
+          const key = `${track.objectId}.${track.property}`;
+          transformTracks.set(key, [...(transformTracks.get(key) || []), track]);
+        }
+      }
+
+      for (const group of transformTracks.values()) {
+        tracks.push(this.buildTransformTrack(group, nodesById.get(group[0].objectId)!));
+      }
+
+      if (tracks.length > 0) {
+        clips.push(new THREE.AnimationClip(animation.name, animation.duration, tracks));
+      }
+    }
+
+    return clips;
+  }
+
+  /**
+   * KeyframeTrack for one transform property of an object, keyed at every key of its tracks.
+   * Axes no track animates keep the node's value.
+   */
+  private static buildTransformTrack(tracks: AnimationTrack[], node: THREE.Object3D): THREE.KeyframeTrack {
+    const property = tracks[0].property as TransformProperty;
+    const keyframes = tracks.flatMap(track => track.keyframes);
+    const times = [...new Set(keyframes.map(keyframe => keyframe.time))].sort((a, b) => a - b);
+    const interpolation = keyframes.every(keyframe => keyframe.interpolation === 'step')
+      ? THREE.InterpolateDiscrete
+      : THREE.InterpolateLinear;
+
+    const rest = property === 'rotation'
+      ? [node.rotation.x, node.rotation.y, node.rotation.z]
+      : node[property].toArray();
+
+    const values = times.map(time => {
+      const value = [...rest];
+      for (const track of tracks) {
+        const trackValue = evaluateTrack(track, time);
+        const axis = AXES.indexOf(track.propertyPath[1]);
+
+        if (axis >= 0 && typeof trackValue === 'number') {
+          value[axis] = trackValue;
+        } else if (Array.isArray(trackValue) && trackValue.length === 3) {
+          value.splice(0, 3, ...trackValue);
+        }
+      }
+      return value;
+    });
+
+    if (property !== 'rotation') {
+      return new THREE.VectorKeyframeTrack(`${node.uuid}.${property}`, times, values.flat(), interpolation);
+    }
+
+    // Object rotations are Euler angles; neighbouring quaternions are kept in the same
+    // hemisphere so the keys don't interpolate the long way round
+    const quaternions: THREE.Quaternion[] = [];
+    values.forEach(([x, y, z], i) => {
+      const quaternion = new THREE.Quaternion().setFromEuler(new THREE.Euler(x, y, z, node.rotation.order));
+      if (i > 0 && quaternion.dot(quaternions[i - 1]) < 0) {
+        quaternion.set(-quaternion.x, -quaternion.y, -quaternion.z, -quaternion.w);
+      }
+      quaternions.push(quaternion);
+    });
+
+    return new THREE.QuaternionKeyframeTrack(
+      `${node.uuid}.quaternion`,
+      times,
+      quaternions.flatMap(quaternion => quaternion.toArray()),
+      interpolation
+    );
+  }
+}
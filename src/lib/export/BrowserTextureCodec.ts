@@ -0,0 +1,118 @@
+/**
+ * Browser Texture Codec
+ *
+ * Decodes and encodes texture images with the browser's canvas. KTX2 encoding
+ * uses the Basis Universal encoder (basis_encoder.js/.wasm from the Basis
+ * Universal releases), which is not bundled: it is loaded on first use from
+ * BASIS_ENCODER_PATH, the same way KTX2Loader loads its transcoder.
+ */
+
+import { TextureCodec } from './TextureExport';
+
+export const BASIS_ENCODER_PATH = '/basis/';
+
+/** Header room in the encoder's output buffer (UASTC takes a byte per pixel, a third more with mips) */
+const BASIS_OUTPUT_PADDING = 1 << 16;
+
+let basisModule: Promise<any> | null = null;
+
+export const browserTextureCodec: TextureCodec = {
+  async fetch(url) {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to load texture (${response.status})`);
+    return new Uint8Array(await response.arrayBuffer());
+  },
+
+  async decode(data, mimeType) {
+    const bitmap = await createImageBitmap(new Blob([new Uint8Array(data)], { type: mimeType }));
+    const { canvas, context } = createCanvas(bitmap.width, bitmap.height);
+    context.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    return {
+      width: canvas.width,
+      height: canvas.height,
+      data: context.getImageData(0, 0, canvas.width, canvas.height).data,
+    };
+  },
+
+  async encodeImage(pixels, mimeType, quality) {
+    const { canvas, context } = createCanvas(pixels.width, pixels.height);
+    context.putImageData(new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height), 0, 0);
+
+    const blob = canvas instanceof HTMLCanvasElement
+      ? await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, quality))
+      : await canvas.convertToBlob({ type: mimeType, quality });
+
+    // Browsers that can't encode a type fall back to PNG
+    if (!blob || blob.type !== mimeType) {
+      throw new Error(`This browser cannot encode ${mimeType} images`);
+    }
+    return new Uint8Array(await blob.arrayBuffer());
+  },
+
+  async encodeKTX2(pixels, { srgb, mipmaps }) {
+    const basis = await loadBasisEncoder();
+    const encoder = new basis.BasisEncoder();
+
+    try {
+      encoder.setCreateKTX2File(true);
+      encoder.setKTX2UASTCSupercompression(true);
+      encoder.setKTX2SRGBTransferFunc(srgb);
+      encoder.setSliceSourceImage(0, new Uint8Array(pixels.data.buffer, pixels.data.byteOffset, pixels.data.byteLength), pixels.width, pixels.height, false);
+      encoder.setUASTC(true);
+      encoder.setPerceptual(srgb);
+      encoder.setMipSRGB(srgb);
+      encoder.setMipGen(mipmaps);
+
+      const output = new Uint8Array(pixels.width * pixels.height * 2 + BASIS_OUTPUT_PADDING);
+      const size = encoder.encode(output);
+      if (!size) throw new Error('Basis Universal encoding failed');
+      return output.slice(0, size);
+    } finally {
+      encoder.delete();
+    }
+  },
+};
+
+function createCanvas(width: number, height: number): {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  context: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+} {
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+
+  const context = canvas.getContext('2d', { willReadFrequently: true }) as
+    CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!context) throw new Error('Canvas 2D is not available for texture processing');
+  return { canvas, context };
+}
+
+/**
+ * Load the Basis Universal encoder module once
+ */
+function loadBasisEncoder(): Promise<any> {
+  if (!basisModule) {
+    basisModule = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = `${BASIS_ENCODER_PATH}basis_encoder.js`;
+      script.onerror = () => reject(new Error(
+        `KTX2 export needs the Basis Universal encoder at ${BASIS_ENCODER_PATH}basis_encoder.js`
+      ));
+      script.onload = () => {
+        (window as any).BASIS({ locateFile: (file: string) => `${BASIS_ENCODER_PATH}${file}` }).then((module: any) => {
+          // Emscripten modules are thenables; resolving with one as-is never settles
+          delete module.then;
+          module.initializeBasis();
+          resolve(module);
+        }, reject);
+      };
+      document.head.appendChild(script);
+    }).catch((error) => {
+      basisModule = null;
+      throw error;
+    });
+  }
+  return basisModule;
+}
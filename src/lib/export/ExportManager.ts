@@ -6,21 +6,85 @@
  */
 
 import * as THREE from 'three';
-import { ExportFormat, ExportOptions } from '../../stores/exportStore';
-import { SceneObject } from '../../stores/objectsStore';
+import type { GLTFExporterOptions, GLTFExporterPlugin } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { ExportFormat, ExportOptions, ExportUnit } from '../../stores/exportStore';
+import { DEFAULT_CAMERA_PROPS, SceneObject } from '../../stores/objectsStore';
 import { Animation } from '../../stores/animationStore';
-import { useMaterialsStore } from '../../stores/materialsStore';
-import { useMorphTargetStore } from '../../stores/morphTargetStore';
-import { meshRegistry } from '../mesh/MeshRegistry';
+import { ExportSceneSource, storeExportSource } from './ExportSceneSource';
+import { nestUSDZHierarchy } from './USDZHierarchy';
+import { SkeletonExporter } from './SkeletonExporter';
+import { AnimationClipExporter } from './AnimationClipExporter';
+import { ThreeMFExporter } from './ThreeMFExporter';
+import { ExportLODSummary, ExportReport, ExportWarning, buildExportReport, countTriangles } from './ExportReport';
+import { validateGLTF } from './GLTFValidator';
+import { MaterialTextures, TextureCodec, TextureExporter } from './TextureExport';
+import { browserTextureCodec } from './BrowserTextureCodec';
+import { GLTFTextureWriter } from './GLTFTextureWriter';
+import { GLTFWriterLike } from './GLTFWriterLike';
+import { PositionGrid, quantizeGeometry, quantizeMesh } from './MeshQuantization';
+import { compressGLTF, loadMeshoptEncoder, optimizeVertexOrder } from './MeshoptCompression';
+import { generateLODGeometries, lodNodeName } from './LODGenerator';
+import { GLTFLODWriter, LODChain } from './GLTFLODWriter';
+import { GLTFCameraWriter } from './GLTFCameraWriter';
+import { bakeNLA, getPlayingAnimationIds } from '../animation/NLAEvaluator';
+import { bakeFModifiers } from '../animation/FModifiers';
+
+/** Scene units are meters; print formats are written in the chosen unit */
+const UNIT_SCALE: Record<ExportUnit, number> = {
+  mm: 1000,
+  cm: 100,
+  m: 1,
+};
 
 export interface ExportResult {
   success: boolean;
   data?: Blob | string;
   filename: string;
   error?: string;
+  /** Contents, warnings and (for glTF) validation of the written file */
+  report?: ExportReport;
 }
 
+/** Encoded textures of each exported object, and the textures that could not be encoded */
+interface PreparedTextures {
+  byObject: Map<string, MaterialTextures>;
+  warnings: ExportWarning[];
+}
+
+/** Geometry of each exported mesh's levels after LOD0, their triangle counts, and the meshes left without LODs */
+interface PreparedLODs {
+  byObject: Map<string, THREE.BufferGeometry[]>;
+  summaries: ExportLODSummary[];
+  warnings: ExportWarning[];
+}
+
+/** GLTFExporter options plus the Draco settings from the export options */
+type GLTFExportOptions = GLTFExporterOptions & {
+  dracoOptions?: {
+    compressionLevel: number;
+    quantizePosition: number;
+    quantizeNormal: number;
+    quantizeColor: number;
+    quantizeTexcoord: number;
+    quantizeGeneric: number;
+  };
+};
+
+/** Where the export steps are logged; warnings and errors always go to the console */
+export type ExportLogger = Pick<Console, 'log'>;
+
 export class ExportManager {
+  /**
+   * @param source Where modifiers, materials and shape keys are read from (the editor's stores by default)
+   * @param textureCodec How texture images are decoded and re-encoded (the browser's canvas by default)
+   * @param logger Where the export steps are logged (the console by default)
+   */
+  constructor(
+    private source: ExportSceneSource = storeExportSource,
+    private textureCodec: TextureCodec = browserTextureCodec,
+    private logger: ExportLogger = console
+  ) {}
+
   /**
    * Export scene to specified format
    */
@@ -33,8 +97,25 @@ export class ExportManager {
     try {
       onProgress?.(0, 'Preparing scene...');
 
+      // Objects left out of a selection-only export still place their exported descendants
+      const selectedIds = new Set(this.source.getSelectedIds());
+      const exported = options.exportSelectionOnly ? objects.filter(obj => selectedIds.has(obj.id)) : objects;
+
       // Build Three.js scene from our objects
-      const scene = this.buildThreeScene(objects, options);
+      const scene = this.buildThreeScene(objects, exported, options);
+
+      // Textures are only written to glTF (see GLTFTextureWriter)
+      const isGLTF = options.format === 'glb' || options.format === 'gltf';
+      const textures: PreparedTextures = isGLTF && options.includeMaterials && options.embedTextures
+        ? await this.prepareTextures(exported, options, onProgress)
+        : { byObject: new Map(), warnings: [] };
+
+      // LODs are written to glTF as MSFT_lod or sibling nodes
+      const lods: PreparedLODs = isGLTF && options.generateLODs && options.lodLevels.length > 1
+        ? this.prepareLODs(scene, options, onProgress)
+        : { byObject: new Map(), summaries: [], warnings: [] };
+
+      const clipAnimations = isGLTF && options.includeAnimations ? this.bakeNLALayers(objects, animations) : animations;
 
       onProgress?.(20, `Exporting to ${options.format.toUpperCase()}...`);
 
@@ -43,7 +124,7 @@ export class ExportManager {
       switch (options.format) {
         case 'glb':
         case 'gltf':
-          result = await this.exportGLTF(scene, animations, options, onProgress);
+          result = await this.exportGLTF(scene, clipAnimations, options, textures.byObject, lods.byObject, onProgress);
           break;
         case 'obj':
           result = await this.exportOBJ(scene, options, onProgress);
@@ -51,10 +132,24 @@ export class ExportManager {
         case 'usdz':
           result = await this.exportUSDZ(scene, options, onProgress);
           break;
+        case 'stl':
+          result = await this.exportSTL(scene, options, onProgress);
+          break;
+        case 'ply':
+          result = await this.exportPLY(scene, options, onProgress);
+          break;
+        case '3mf':
+          result = await this.export3MF(scene, options, onProgress);
+          break;
         default:
           throw new Error(`Unsupported format: ${options.format}`);
       }
 
+      if (result.success && result.data !== undefined) {
+        onProgress?.(95, 'Checking export...');
+        result.report = await this.buildReport(result, scene, objects, clipAnimations, textures, lods, options);
+      }
+
       onProgress?.(100, 'Export complete!');
       return result;
 
@@ -69,30 +164,264 @@ export class ExportManager {
   }
 
   /**
-   * Build Three.js scene from our scene objects
+   * Encode the textures of each exported object's material at the export's
+   * compression, size and mipmap settings. Textures that fail are left out with a warning.
+   */
+  private async prepareTextures(
+    exported: SceneObject[],
+    options: ExportOptions,
+    onProgress?: (progress: number, step: string) => void
+  ): Promise<PreparedTextures> {
+    const prepared: PreparedTextures = { byObject: new Map(), warnings: [] };
+    const textureExporter = new TextureExporter(
+      this.textureCodec,
+      {
+        compression: options.textureCompression || 'none',
+        maxSize: options.maxTextureSize || 0,
+        mipmaps: !!options.generateMipmaps,
+      },
+      (textureId) => this.source.getTexture(textureId)
+    );
+
+    for (const obj of exported) {
+      const material = this.source.getMaterial(obj.id);
+      if (!material || obj.lightProps) continue;
+
+      onProgress?.(10, `Encoding textures for ${obj.name}...`);
+      const textures = await textureExporter.exportMaterialTextures(material, (texture, error) => {
+        console.warn(`[ExportManager] Leaving out texture ${texture}:`, error);
+        if (prepared.warnings.some(warning => warning.subject === texture)) return;
+        prepared.warnings.push({
+          code: 'texture-failed',
+          subject: texture,
+          message: `${texture} was left out: ${error instanceof Error ? error.message : error}`,
+        });
+      });
+
+      if (Object.keys(textures).length > 0) {
+        prepared.byObject.set(obj.id, textures);
+      }
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Decimate each exported mesh into the export's levels of detail. Skinned meshes
+   * and meshes with shape keys are left without LODs, since decimation drops their
+   * per-vertex data.
+   */
+  private prepareLODs(
+    scene: THREE.Scene,
+    options: ExportOptions,
+    onProgress?: (progress: number, step: string) => void
+  ): PreparedLODs {
+    const prepared: PreparedLODs = { byObject: new Map(), summaries: [], warnings: [] };
+
+    scene.traverse((node) => {
+      if (!(node instanceof THREE.Mesh) || !node.userData.id) return;
+
+      if (node instanceof THREE.SkinnedMesh || node.morphTargetInfluences?.length) {
+        prepared.warnings.push({
+          code: 'lod-skipped',
+          subject: node.name,
+          message: `${node.name} has no LODs: decimation would lose its ${node instanceof THREE.SkinnedMesh ? 'skin weights' : 'shape keys'}`,
+        });
+        return;
+      }
+
+      onProgress?.(15, `Generating LODs for ${node.name}...`);
+      const geometries = generateLODGeometries(node.geometry, options.lodLevels);
+      prepared.byObject.set(node.userData.id, geometries);
+      prepared.summaries.push({
+        subject: node.name,
+        triangles: [node.geometry, ...geometries].map(countTriangles),
+      });
+    });
+
+    return prepared;
+  }
+
+  /**
+   * Bake the NLA layers into a single clip, which replaces the animations playing on their strips.
+   * Animations that aren't on any strip still export as clips of their own, with F-curve modifiers baked.
+   */
+  private bakeNLALayers(objects: SceneObject[], animations: Map<string, Animation>): Map<string, Animation> {
+    const layers = this.source.getNLALayers();
+    const parents = new Map(objects.map(obj => [obj.id, obj.parentId]));
+    const baked = bakeNLA(layers, animations, { parentOf: (objectId) => parents.get(objectId) || undefined });
+
+    // glTF only stores keys, so F-curve modifiers are sampled into them
+    const withKeys = (clips: Map<string, Animation>) =>
+      new Map([...clips].map(([id, animation]) => [id, bakeFModifiers(animation)]));
+    if (!baked) return withKeys(animations);
+
+    const placed = getPlayingAnimationIds(layers);
+    const clipAnimations = new Map([...animations].filter(([id]) => !placed.has(id)));
+    clipAnimations.set(baked.id, baked);
+    return withKeys(clipAnimations);
+  }
+
+  /**
+   * Summarize a successful export, validating glTF output.
+   * A report that can't be built is left out rather than failing the export.
+   */
+  private async buildReport(
+    result: ExportResult,
+    scene: THREE.Scene,
+    objects: SceneObject[],
+    animations: Map<string, Animation>,
+    textures: PreparedTextures,
+    lods: PreparedLODs,
+    options: ExportOptions
+  ): Promise<ExportReport | undefined> {
+    try {
+      const data = result.data!;
+      const isGLTF = options.format === 'glb' || options.format === 'gltf';
+      const fileSize = typeof data === 'string' ? new TextEncoder().encode(data).byteLength : data.size;
+
+      let validation;
+      if (isGLTF && typeof data !== 'string') {
+        validation = validateGLTF(result.filename.endsWith('.glb') ? await data.arrayBuffer() : await data.text());
+      }
+
+      return buildExportReport({
+        format: options.format,
+        filename: result.filename,
+        fileSize,
+        scene,
+        objects,
+        clips: isGLTF && options.includeAnimations
+          ? AnimationClipExporter.buildAnimationClips(animations.values(), scene)
+          : [],
+        textures: [...new Set(Array.from(textures.byObject.values()).flatMap(Object.values))],
+        lods: lods.summaries,
+        warnings: [...textures.warnings, ...lods.warnings],
+        validation,
+      });
+    } catch (error) {
+      console.warn('[ExportManager] Failed to build export report:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Build Three.js scene from our scene objects, nesting nodes by parentId.
+   * Each node keeps the object's name and id in userData (glTF node extras).
+   * Armatures become empty nodes holding bones; meshes bound to an exported armature are skinned.
    */
-  private buildThreeScene(objects: SceneObject[], options: ExportOptions): THREE.Scene {
+  private buildThreeScene(objects: SceneObject[], exported: SceneObject[], options: ExportOptions): THREE.Scene {
     const scene = new THREE.Scene();
+    const objectsById = new Map(objects.map(obj => [obj.id, obj]));
+    const nodes = new Map<string, THREE.Object3D>();
+    const exportedIds = new Set(exported.map(obj => obj.id));
+
+    for (const obj of exported) {
+      let node: THREE.Object3D | null;
+      if (obj.type === 'group' || obj.type === 'armature') {
+        node = this.buildThreeGroup(obj);
+      } else if (obj.type === 'bone') {
+        node = this.buildThreeBone(obj);
+      } else if (obj.type === 'camera') {
+        node = this.buildThreeCamera(obj);
+      } else {
+        const skinned = !!obj.skinData && exportedIds.has(obj.skinData.armatureId);
+        node = this.buildThreeMesh(obj, options, skinned);
+      }
+
+      if (node) {
+        node.userData.id = obj.id;
+        node.userData.name = obj.name;
+        nodes.set(obj.id, node);
+      }
+    }
 
+    // Second pass so parents listed after their children are still found
     for (const obj of objects) {
-      // Skip if export selection only and object not selected
-      if (options.exportSelectionOnly && !obj.selected) {
-        continue;
+      const node = nodes.get(obj.id);
+      if (!node) continue;
+
+      // Walk up to the nearest exported ancestor, folding in the transforms of any skipped ones
+      let parentId = obj.parentId;
+      let skippedTransform: THREE.Matrix4 | null = null;
+      while (parentId && !nodes.has(parentId)) {
+        const ancestor = objectsById.get(parentId);
+        if (!ancestor) break;
+        skippedTransform = this.getLocalMatrix(ancestor).multiply(skippedTransform || new THREE.Matrix4());
+        parentId = ancestor.parentId;
       }
 
-      const mesh = this.buildThreeMesh(obj, options);
-      if (mesh) {
-        scene.add(mesh);
+      if (skippedTransform) {
+        node.updateMatrix();
+        skippedTransform.multiply(node.matrix).decompose(node.position, node.quaternion, node.scale);
       }
+
+      const parentNode = parentId ? nodes.get(parentId) : undefined;
+      (parentNode || scene).add(node);
     }
 
+    SkeletonExporter.bindSkinnedMeshes(objects, nodes);
+
     return scene;
   }
 
   /**
-   * Build Three.js mesh from scene object
+   * Build an empty node for a group, carrying its transform
    */
-  private buildThreeMesh(obj: SceneObject, options: ExportOptions): THREE.Object3D | null {
+  private buildThreeGroup(obj: SceneObject): THREE.Group {
+    const group = new THREE.Group();
+    group.name = obj.name;
+    group.position.set(...obj.position);
+    group.rotation.set(...obj.rotation);
+    group.scale.set(...obj.scale);
+    return group;
+  }
+
+  /**
+   * Build a bone node, carrying its (posed) local transform
+   */
+  private buildThreeBone(obj: SceneObject): THREE.Bone {
+    const bone = new THREE.Bone();
+    bone.name = obj.name;
+    bone.position.set(...obj.position);
+    bone.rotation.set(...obj.rotation);
+    bone.scale.set(...obj.scale);
+    return bone;
+  }
+
+  /**
+   * Build a camera from an object's lens settings (cameras saved without them get the defaults)
+   */
+  private buildThreeCamera(obj: SceneObject): THREE.Camera {
+    const { projection, fov, orthographicSize, aspect, near, far } = { ...DEFAULT_CAMERA_PROPS, ...obj.cameraProps };
+
+    const camera = projection === 'orthographic'
+      ? new THREE.OrthographicCamera(-orthographicSize * aspect, orthographicSize * aspect, orthographicSize, -orthographicSize, near, far)
+      : new THREE.PerspectiveCamera(fov, aspect, near, far);
+
+    camera.name = obj.name;
+    camera.position.set(...obj.position);
+    camera.rotation.set(...obj.rotation);
+    camera.scale.set(...obj.scale);
+    return camera;
+  }
+
+  /**
+   * Parent-relative transform matrix of a scene object
+   */
+  private getLocalMatrix(obj: SceneObject): THREE.Matrix4 {
+    return new THREE.Matrix4().compose(
+      new THREE.Vector3(...obj.position),
+      new THREE.Quaternion().setFromEuler(new THREE.Euler(...obj.rotation)),
+      new THREE.Vector3(...obj.scale)
+    );
+  }
+
+  /**
+   * Build Three.js mesh from scene object.
+   * Skinned meshes are created unbound; SkeletonExporter binds them once all bones exist.
+   */
+  private buildThreeMesh(obj: SceneObject, options: ExportOptions, skinned = false): THREE.Object3D | null {
     // If it's a light, handle separately
     if (obj.lightProps) {
       return this.buildThreeLight(obj);
@@ -100,90 +429,30 @@ export class ExportManager {
 
     let geometry: THREE.BufferGeometry | undefined;
 
-    // First, try to get the current geometry from the mesh registry (includes any edits)
-    const registeredMesh = meshRegistry.getMesh(obj.id);
-    if (registeredMesh && registeredMesh.geometry) {
-      geometry = registeredMesh.geometry.clone();
-      console.log(`[ExportManager] Using geometry from mesh registry for ${obj.name}`);
+    // Objects with a modifier stack export the evaluated mesh, at export subdivision levels.
+    // Skin weights are stored per vertex of the base mesh, so skinned meshes skip the stack.
+    const hasModifiers = this.source.hasModifiers(obj.id);
+    const useModifierStack = !!obj.qMesh && hasModifiers && !skinned;
+    if (skinned && hasModifiers) {
+      console.warn(`[ExportManager] Exporting skinned mesh ${obj.name} without its modifier stack`);
+    }
+    if (obj.qMesh && useModifierStack) {
+      geometry = this.source.applyModifiers(obj, obj.qMesh).toBufferGeometry();
+      this.logger.log(`[ExportManager] Using modifier stack result for ${obj.name}`);
     }
 
-    // If not in registry, build from stored data
-    if (!geometry) {
-      // Validate geometry exists
-      if (!obj.geometry) {
-        console.warn(`[ExportManager] Object ${obj.name} has no geometry`);
-        return null;
-      }
-
-      if (!obj.geometry.type) {
-        console.warn(`[ExportManager] Object ${obj.name} geometry has no type`);
-        return null;
-      }
-
-      // Create geometry based on type
-      switch (obj.geometry.type) {
-        case 'box':
-          geometry = new THREE.BoxGeometry(
-            obj.geometry.parameters.width,
-            obj.geometry.parameters.height,
-            obj.geometry.parameters.depth
-          );
-          break;
-        case 'sphere':
-          geometry = new THREE.SphereGeometry(
-            obj.geometry.parameters.radius,
-            obj.geometry.parameters.widthSegments,
-            obj.geometry.parameters.heightSegments
-          );
-          break;
-        case 'cylinder':
-          geometry = new THREE.CylinderGeometry(
-            obj.geometry.parameters.radiusTop,
-            obj.geometry.parameters.radiusBottom,
-            obj.geometry.parameters.height,
-            obj.geometry.parameters.radialSegments
-          );
-          break;
-        case 'plane':
-          geometry = new THREE.PlaneGeometry(
-            obj.geometry.parameters.width,
-            obj.geometry.parameters.height
-          );
-          break;
-        case 'torus':
-          geometry = new THREE.TorusGeometry(
-            obj.geometry.parameters.radius,
-            obj.geometry.parameters.tube,
-            obj.geometry.parameters.radialSegments,
-            obj.geometry.parameters.tubularSegments
-          );
-          break;
-        case 'cone':
-          geometry = new THREE.ConeGeometry(
-            obj.geometry.parameters.radius,
-            obj.geometry.parameters.height,
-            obj.geometry.parameters.radialSegments
-          );
-          break;
-        case 'imported':
-          // Use stored geometry data
-          if (obj.geometry.data) {
-            geometry = this.deserializeGeometry(obj.geometry.data);
-          } else {
-            console.warn(`[ExportManager] No geometry data for imported object: ${obj.name}`);
-            return null;
-          }
-          break;
-        default:
-          console.warn(`[ExportManager] Unknown geometry type: ${obj.geometry.type}`);
-          return null;
-      }
+    // Otherwise, try to get the current geometry from the viewport (includes any edits)
+    const liveGeometry = geometry ? undefined : this.source.getLiveGeometry(obj.id);
+    if (liveGeometry) {
+      geometry = liveGeometry.clone();
+      this.logger.log(`[ExportManager] Using geometry from mesh registry for ${obj.name}`);
     }
 
-    // Ensure we have geometry at this point
+    // If not in the viewport, build from stored data
     if (!geometry) {
-      console.error(`[ExportManager] Failed to create geometry for ${obj.name}`);
-      return null;
+      const storedGeometry = this.buildStoredGeometry(obj);
+      if (!storedGeometry) return null;
+      geometry = storedGeometry;
     }
 
     // Create material (if materials enabled)
@@ -195,14 +464,14 @@ export class ExportManager {
     }
 
     // Create mesh
-    const mesh = new THREE.Mesh(geometry, material);
+    const mesh = skinned ? new THREE.SkinnedMesh(geometry, material) : new THREE.Mesh(geometry, material);
     mesh.name = obj.name;
     mesh.position.set(...obj.position);
     mesh.rotation.set(...obj.rotation);
     mesh.scale.set(...obj.scale);
 
-    // Add morph targets if available and enabled
-    if (options.includeMorphTargets) {
+    // Add morph targets if available and enabled (shape keys are stored against the unmodified mesh)
+    if (options.includeMorphTargets && !useModifierStack) {
       this.addMorphTargets(mesh, obj.id);
     }
 
@@ -210,19 +479,105 @@ export class ExportManager {
   }
 
   /**
-   * Build Three.js material from scene object
+   * Build geometry from the data stored on an object: its QMesh, legacy geometry data,
+   * imported geometry, or (for primitives never shown in a viewport) its primitive parameters
    */
-  private buildThreeMaterial(obj: SceneObject): THREE.Material {
-    const materialsStore = useMaterialsStore.getState();
-    const materialId = materialsStore.objectMaterials.get(obj.id);
+  private buildStoredGeometry(obj: SceneObject): THREE.BufferGeometry | null {
+    if (obj.qMesh) {
+      return obj.qMesh.toBufferGeometry();
+    }
 
-    if (!materialId) {
-      // No material assigned, use default
-      return new THREE.MeshStandardMaterial({ color: 0x808080 });
+    // Legacy saves store geometry by type
+    if (obj.geometry) {
+      if (!obj.geometry.type) {
+        console.warn(`[ExportManager] Object ${obj.name} geometry has no type`);
+        return null;
+      }
+
+      if (obj.geometry.type === 'imported') {
+        if (obj.geometry.data) {
+          return this.deserializeGeometry(obj.geometry.data);
+        }
+        console.warn(`[ExportManager] No geometry data for imported object: ${obj.name}`);
+        return null;
+      }
+
+      return this.buildPrimitiveGeometry(obj.geometry.type, obj.geometry.parameters || {}, obj.name);
     }
 
-    const material = materialsStore.materials.get(materialId);
+    if (obj.importedGeometry) {
+      // Saved projects keep the last rendered geometry alongside the original import
+      const { data } = obj.importedGeometry as { data?: any };
+      if (data) {
+        return this.deserializeGeometry(data);
+      }
+
+      const { vertices, normals, uvs, indices } = obj.importedGeometry;
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.Float32BufferAttribute(vertices, 3));
+      if (uvs && uvs.length > 0) {
+        geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+      }
+      if (indices && indices.length > 0) {
+        geometry.setIndex(indices);
+      }
+      if (normals && normals.length > 0) {
+        geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
+      } else {
+        geometry.computeVertexNormals();
+      }
+      return geometry;
+    }
+
+    if (obj.geometryParams) {
+      return this.buildPrimitiveGeometry(obj.type, obj.geometryParams, obj.name);
+    }
+
+    console.warn(`[ExportManager] Object ${obj.name} has no geometry`);
+    return null;
+  }
+
+  /**
+   * Build a primitive's geometry from its parameters (same defaults as the viewport)
+   */
+  private buildPrimitiveGeometry(type: string, params: Record<string, any>, name: string): THREE.BufferGeometry | null {
+    switch (type) {
+      case 'box':
+        return new THREE.BoxGeometry(params.width || 1, params.height || 1, params.depth || 1);
+      case 'sphere':
+        return new THREE.SphereGeometry(params.radius || 0.5, params.widthSegments || 32, params.heightSegments || 16);
+      case 'cylinder':
+        return new THREE.CylinderGeometry(
+          params.radiusTop || 0.5,
+          params.radiusBottom || 0.5,
+          params.height || 1,
+          params.radialSegments || 32
+        );
+      case 'plane':
+        return new THREE.PlaneGeometry(params.width || 1, params.height || 1);
+      case 'torus':
+        return new THREE.TorusGeometry(
+          params.radius || 0.5,
+          params.tube || 0.2,
+          params.radialSegments || 16,
+          params.tubularSegments || 100
+        );
+      case 'cone':
+        return new THREE.ConeGeometry(params.radius || 0.5, params.height || 1, params.radialSegments || 32);
+      default:
+        console.warn(`[ExportManager] Unknown geometry type: ${type} (${name})`);
+        return null;
+    }
+  }
+
+  /**
+   * Build Three.js material from scene object
+   */
+  private buildThreeMaterial(obj: SceneObject): THREE.Material {
+    const material = this.source.getMaterial(obj.id);
+
     if (!material) {
+      // No material assigned, use default
       return new THREE.MeshStandardMaterial({ color: 0x808080 });
     }
 
@@ -238,8 +593,7 @@ export class ExportManager {
       side: material.doubleSided ? THREE.DoubleSide : THREE.FrontSide,
     });
 
-    // TODO: Load and apply textures if embedTextures is true
-    // This would require loading texture blobs from materialsStore
+    // Textures are encoded separately and written by GLTFTextureWriter (glTF only)
 
     return threeMaterial;
   }
@@ -248,15 +602,14 @@ export class ExportManager {
    * Add morph targets to mesh from shape keys
    */
   private addMorphTargets(mesh: THREE.Mesh, objectId: string): void {
-    const morphStore = useMorphTargetStore.getState();
-    const shapeKeys = morphStore.getShapeKeysForObject(objectId);
+    const shapeKeys = this.source.getShapeKeys(objectId);
 
     if (!shapeKeys || shapeKeys.length === 0) {
       return;
     }
 
     const geometry = mesh.geometry as THREE.BufferGeometry;
-    const basePose = morphStore.getBasePose(objectId);
+    const basePose = this.source.getBasePose(objectId);
 
     if (!basePose) {
       console.warn(`[ExportManager] No base pose found for object with shape keys: ${objectId}`);
@@ -315,11 +668,13 @@ export class ExportManager {
       mesh.userData.morphTargetNames = shapeKeys.map(sk => sk.name);
     }
 
-    console.log(`[ExportManager] Added ${shapeKeys.length} morph targets to ${mesh.name}`);
+    this.logger.log(`[ExportManager] Added ${shapeKeys.length} morph targets to ${mesh.name}`);
   }
 
   /**
-   * Build Three.js light from scene object
+   * Build Three.js light from scene object. Intensities are already the physical units
+   * KHR_lights_punctual expects (candela for point and spot lights, lux for directional
+   * ones), since the viewport renders them that way too.
    */
   private buildThreeLight(obj: SceneObject): THREE.Light {
     if (!obj.lightProps) {
@@ -363,8 +718,29 @@ export class ExportManager {
 
     light.name = obj.name;
     light.position.set(...obj.position);
+    light.rotation.set(...obj.rotation);
+    light.scale.set(...obj.scale);
     light.castShadow = props.castShadow;
 
+    // The editor aims spot and directional lights at their target; glTF lights shine down the node's -Z axis
+    if ((light instanceof THREE.SpotLight || light instanceof THREE.DirectionalLight) && props.target) {
+      const target = new THREE.Vector3(...props.target);
+      if (!target.equals(light.position)) light.lookAt(target);
+    }
+
+    // glTF has no shadow or ambient light properties, so they are kept in the node's extras
+    if (light instanceof THREE.AmbientLight) {
+      light.userData.ambientLight = { color: light.color.toArray(), intensity: light.intensity };
+    } else {
+      // Same fallbacks as the viewport's lights
+      light.userData.shadow = {
+        castShadow: props.castShadow,
+        mapSize: props.shadowMapSize || 1024,
+        bias: props.shadowBias || -0.0001,
+        radius: props.shadowRadius || 1,
+      };
+    }
+
     return light;
   }
 
@@ -399,20 +775,30 @@ export class ExportManager {
     scene: THREE.Scene,
     animations: Map<string, Animation>,
     options: ExportOptions,
+    materialTextures: Map<string, MaterialTextures>,
+    lodGeometries: Map<string, THREE.BufferGeometry[]>,
     onProgress?: (progress: number, step: string) => void
   ): Promise<ExportResult> {
     onProgress?.(40, 'Converting to GLTF format...');
 
     // Dynamic import to avoid bundling if not used
     const { GLTFExporter } = await import('three/examples/jsm/exporters/GLTFExporter.js');
+    const SkeletonUtils = await import('three/examples/jsm/utils/SkeletonUtils.js');
+    const meshoptEncoder = options.useMeshoptCompression || options.optimizeVertexOrder
+      ? await loadMeshoptEncoder()
+      : null;
 
     return new Promise((resolve) => {
       const exporter = new GLTFExporter();
+      // Plugins are handed the writer itself, whose internals three's typings leave out
+      const registerPlugin = (plugin: (writer: GLTFWriterLike) => GLTFExporterPlugin) => {
+        exporter.register(writer => plugin(writer as unknown as GLTFWriterLike));
+      };
 
       onProgress?.(60, 'Serializing scene data...');
 
-      // Process morph target names for the exporter
-      const processedScene = scene.clone();
+      // Process morph target names for the exporter (SkeletonUtils keeps skins bound to the cloned bones)
+      const processedScene = SkeletonUtils.clone(scene);
       processedScene.traverse((child) => {
         if (child instanceof THREE.Mesh && child.userData.morphTargetNames) {
           // GLTFExporter will use these names
@@ -423,10 +809,68 @@ export class ExportManager {
         }
       });
 
+      // Clones share their materials, so the writer finds each material's encoded textures through it
+      const texturesByMaterial = new Map<THREE.Material, MaterialTextures>();
+      processedScene.traverse((child) => {
+        const textures = materialTextures.get(child.userData.id);
+        if (child instanceof THREE.Mesh && textures) {
+          texturesByMaterial.set(child.material as THREE.Material, textures);
+        }
+      });
+      if (texturesByMaterial.size > 0) {
+        registerPlugin(writer => new GLTFTextureWriter(writer, texturesByMaterial));
+      }
+
+      // All of these replace geometry rather than modify it: the clone shares geometry with the source scene
+      const lodChains = new Map<THREE.Object3D, LODChain>();
+      if (options.useMeshQuantization || (meshoptEncoder && options.optimizeVertexOrder) || lodGeometries.size > 0) {
+        onProgress?.(50, 'Optimizing meshes...');
+
+        const meshes: THREE.Mesh[] = [];
+        processedScene.traverse((child) => {
+          if (child instanceof THREE.Mesh) meshes.push(child);
+        });
+        const bits = {
+          position: options.quantizePositionBits,
+          normal: options.quantizeNormalBits,
+          texcoord: options.quantizeTexcoordBits,
+        };
+
+        for (const mesh of meshes) {
+          const levels = (lodGeometries.get(mesh.userData.id) || []).map(geometry => new THREE.Mesh(geometry, mesh.material));
+
+          if (meshoptEncoder && options.optimizeVertexOrder) {
+            for (const target of [mesh, ...levels]) {
+              target.geometry = optimizeVertexOrder(target.geometry, meshoptEncoder);
+            }
+          }
+
+          let holder = mesh;
+          let grid: PositionGrid | undefined;
+          if (options.useMeshQuantization) {
+            ({ mesh: holder, grid } = quantizeMesh(mesh, bits));
+            // Lower levels share LOD0's grid, so every level can use the holder's transform
+            levels.forEach((level) => {
+              level.geometry = quantizeGeometry(level.geometry, bits, grid);
+            });
+          }
+
+          if (levels.length > 0) {
+            this.attachLODs(holder, levels, options, lodChains);
+          }
+        }
+      }
+      if (lodChains.size > 0) {
+        registerPlugin(writer => new GLTFLODWriter(writer, lodChains));
+      }
+      registerPlugin(writer => new GLTFCameraWriter(writer));
+
       // Configure export options
-      const exporterOptions: any = {
+      const exporterOptions: GLTFExportOptions = {
         binary: options.binary,
-        animations: options.includeAnimations ? [] : undefined, // TODO: Convert animations
+        animations: options.includeAnimations
+          ? AnimationClipExporter.buildAnimationClips(animations.values(), processedScene)
+          : undefined,
         embedImages: options.embedTextures,
       };
 
@@ -444,14 +888,18 @@ export class ExportManager {
           quantizeGeneric: 12,  // Bits for generic attributes
         };
 
-        console.log('[ExportManager] Draco compression enabled, level:', options.dracoCompressionLevel);
+        this.logger.log('[ExportManager] Draco compression enabled, level:', options.dracoCompressionLevel);
       }
 
       exporter.parse(
         processedScene,
-        (result) => {
+        (output) => {
           onProgress?.(90, 'Creating file...');
 
+          const result = meshoptEncoder && options.useMeshoptCompression
+            ? compressGLTF(output, meshoptEncoder)
+            : output;
+
           let blob: Blob;
           let filename: string;
 
@@ -466,7 +914,7 @@ export class ExportManager {
             filename = 'scene.gltf';
           }
 
-          console.log(`[ExportManager] Export complete, file size: ${(blob.size / 1024).toFixed(2)} KB`);
+          this.logger.log(`[ExportManager] Export complete, file size: ${(blob.size / 1024).toFixed(2)} KB`);
 
           resolve({
             success: true,
@@ -486,6 +934,47 @@ export class ExportManager {
     });
   }
 
+  /**
+   * Add lower levels of detail to the mesh holding LOD0's geometry: as an MSFT_lod
+   * chain, or as sibling nodes with the same transform, named for Unity's and
+   * Unreal's LOD import. Each level's screen coverage goes into its node's extras.
+   */
+  private attachLODs(
+    holder: THREE.Mesh,
+    levels: THREE.Mesh[],
+    options: ExportOptions,
+    lodChains: Map<THREE.Object3D, LODChain>
+  ): void {
+    const screenCoverage = options.lodLevels.map(level => level.screenCoverage);
+
+    if (options.lodOutput === 'msft-lod') {
+      // Level nodes replace the node without its children, so those stay on a parent node
+      if (holder.children.length > 0) {
+        const inner = new THREE.Mesh(holder.geometry, holder.material);
+        inner.name = holder.name;
+        holder.geometry = new THREE.BufferGeometry();
+        holder.add(inner);
+        holder = inner;
+      }
+      levels.forEach((level, i) => {
+        level.name = lodNodeName(holder.name, i + 1);
+      });
+      lodChains.set(holder, { meshes: levels, screenCoverage });
+      return;
+    }
+
+    levels.forEach((level, i) => {
+      level.name = lodNodeName(holder.name, i + 1);
+      level.position.copy(holder.position);
+      level.quaternion.copy(holder.quaternion);
+      level.scale.copy(holder.scale);
+      level.userData = { screenCoverage: screenCoverage[i + 1] };
+      holder.parent!.add(level);
+    });
+    holder.name = lodNodeName(holder.name, 0);
+    holder.userData.screenCoverage = screenCoverage[0];
+  }
+
   /**
    * Export to FBX format
    * NOTE: FBX export is currently not supported in Three.js browser environment.
@@ -546,9 +1035,9 @@ export class ExportManager {
     onProgress?.(40, 'Converting to USDZ format...');
 
     try {
-      console.log('[ExportManager] Starting USDZ export...');
+      this.logger.log('[ExportManager] Starting USDZ export...');
       const { USDZExporter } = await import('three/examples/jsm/exporters/USDZExporter.js');
-      console.log('[ExportManager] USDZExporter loaded successfully');
+      this.logger.log('[ExportManager] USDZExporter loaded successfully');
 
       onProgress?.(50, 'Preparing scene for AR...');
 
@@ -587,20 +1076,23 @@ export class ExportManager {
         }
       });
 
+      // The exporter bakes world matrices into each mesh, so they must be current
+      processedScene.updateMatrixWorld(true);
+
       onProgress?.(60, 'Serializing for iOS AR...');
 
       const exporter = new USDZExporter();
-      console.log('[ExportManager] USDZExporter instance created');
+      this.logger.log('[ExportManager] USDZExporter instance created');
 
       // Log scene info
       let meshCount = 0;
       processedScene.traverse((child) => {
         if (child instanceof THREE.Mesh) meshCount++;
       });
-      console.log(`[ExportManager] Scene has ${meshCount} meshes`);
+      this.logger.log(`[ExportManager] Scene has ${meshCount} meshes`);
 
       // The USDZ exporter has parseAsync method that returns a Promise<ArrayBuffer>
-      console.log('[ExportManager] Calling exporter.parseAsync...');
+      this.logger.log('[ExportManager] Calling exporter.parseAsync...');
 
       let arrayBuffer: ArrayBuffer;
       try {
@@ -616,27 +1108,27 @@ export class ExportManager {
         };
 
         const result = await exporter.parseAsync(processedScene, exportOptions);
-        console.log('[ExportManager] parseAsync completed, result type:', typeof result);
-        console.log('[ExportManager] parseAsync result:', result);
-        console.log('[ExportManager] Is ArrayBuffer?', result instanceof ArrayBuffer);
-        console.log('[ExportManager] Is Uint8Array?', result instanceof Uint8Array);
+        this.logger.log('[ExportManager] parseAsync completed, result type:', typeof result);
+        this.logger.log('[ExportManager] parseAsync result:', result);
+        this.logger.log('[ExportManager] Is ArrayBuffer?', result instanceof ArrayBuffer);
+        this.logger.log('[ExportManager] Is Uint8Array?', result instanceof Uint8Array);
 
         // Convert result to ArrayBuffer if needed
         if (result instanceof ArrayBuffer) {
-          console.log('[ExportManager] Result is already an ArrayBuffer');
+          this.logger.log('[ExportManager] Result is already an ArrayBuffer');
           arrayBuffer = result;
         } else if (result instanceof Uint8Array) {
-          console.log('[ExportManager] Result is Uint8Array, converting to ArrayBuffer');
+          this.logger.log('[ExportManager] Result is Uint8Array, converting to ArrayBuffer');
           // Convert Uint8Array to ArrayBuffer - create a new buffer with the data
           arrayBuffer = result.buffer.slice(result.byteOffset, result.byteOffset + result.byteLength);
-          console.log('[ExportManager] Converted to ArrayBuffer, size:', arrayBuffer.byteLength);
+          this.logger.log('[ExportManager] Converted to ArrayBuffer, size:', arrayBuffer.byteLength);
         } else if (ArrayBuffer.isView(result)) {
-          console.log('[ExportManager] Result is an ArrayBuffer view, converting');
+          this.logger.log('[ExportManager] Result is an ArrayBuffer view, converting');
           // Handle any other typed array views
           const view = result as any;
           arrayBuffer = view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength);
         } else if (result && typeof result === 'object') {
-          console.log('[ExportManager] Result is object, keys:', Object.keys(result));
+          this.logger.log('[ExportManager] Result is object, keys:', Object.keys(result));
           // Check if it has array-like properties
           if ('length' in result && typeof result.length === 'number') {
             // Could be an array-like object, try to convert
@@ -653,12 +1145,12 @@ export class ExportManager {
 
         // Fallback: Try using the callback-based parse method
         try {
-          console.log('[ExportManager] Trying callback-based parse method...');
+          this.logger.log('[ExportManager] Trying callback-based parse method...');
           arrayBuffer = await new Promise<ArrayBuffer>((resolve, reject) => {
             exporter.parse(
               processedScene,
               (result: ArrayBuffer) => {
-                console.log('[ExportManager] Callback received result:', result);
+                this.logger.log('[ExportManager] Callback received result:', result);
                 resolve(result);
               },
               (error: any) => {
@@ -685,18 +1177,20 @@ export class ExportManager {
       }
 
       // Additional validation
-      console.log('[ExportManager] Final arrayBuffer type:', typeof arrayBuffer);
-      console.log('[ExportManager] Is final ArrayBuffer?', arrayBuffer instanceof ArrayBuffer);
-      console.log('[ExportManager] ArrayBuffer byteLength:', arrayBuffer.byteLength);
+      this.logger.log('[ExportManager] Final arrayBuffer type:', typeof arrayBuffer);
+      this.logger.log('[ExportManager] Is final ArrayBuffer?', arrayBuffer instanceof ArrayBuffer);
+      this.logger.log('[ExportManager] ArrayBuffer byteLength:', arrayBuffer.byteLength);
 
       if (arrayBuffer.byteLength === 0) {
         throw new Error('USDZ export resulted in empty file');
       }
 
-      // Create blob - can accept ArrayBuffer directly
-      const blob = new Blob([arrayBuffer], { type: 'model/vnd.usdz+zip' });
+      // Restore the node hierarchy the exporter flattens
+      const usdz = nestUSDZHierarchy(new Uint8Array(arrayBuffer), processedScene);
+
+      const blob = new Blob([new Uint8Array(usdz)], { type: 'model/vnd.usdz+zip' });
 
-      console.log(`[ExportManager] USDZ export successful, size: ${blob.size} bytes`);
+      this.logger.log(`[ExportManager] USDZ export successful, size: ${blob.size} bytes`);
 
       return {
         success: true,
@@ -713,6 +1207,153 @@ export class ExportManager {
     }
   }
 
+  /**
+   * Bake a scene for slicers: scaled to the export unit, Z-up, with world matrices current.
+   * Mirrored meshes get their winding reversed so baked normals still point outwards.
+   */
+  private preparePrintScene(scene: THREE.Scene, options: ExportOptions): THREE.Scene {
+    scene.scale.setScalar(UNIT_SCALE[options.unit || 'mm']);
+    scene.rotation.x = Math.PI / 2; // Y-up to Z-up
+    scene.updateMatrixWorld(true);
+
+    scene.traverse((child) => {
+      if (child instanceof THREE.Mesh && child.matrixWorld.determinant() < 0) {
+        const geometry = child.geometry as THREE.BufferGeometry;
+        if (!geometry.index) {
+          geometry.setIndex([...Array(geometry.getAttribute('position').count).keys()]);
+        }
+
+        const index = geometry.index!;
+        for (let i = 0; i < index.count; i += 3) {
+          const b = index.getX(i + 1);
+          index.setX(i + 1, index.getX(i + 2));
+          index.setX(i + 2, b);
+        }
+        index.needsUpdate = true;
+      }
+    });
+
+    return scene;
+  }
+
+  /**
+   * Export to STL format (binary or ASCII)
+   */
+  private async exportSTL(
+    scene: THREE.Scene,
+    options: ExportOptions,
+    onProgress?: (progress: number, step: string) => void
+  ): Promise<ExportResult> {
+    onProgress?.(40, 'Converting to STL format...');
+
+    const { STLExporter } = await import('three/examples/jsm/exporters/STLExporter.js');
+    const processedScene = this.preparePrintScene(scene, options);
+
+    onProgress?.(60, 'Serializing triangles...');
+
+    const exporter = new STLExporter();
+    const result = exporter.parse(processedScene, { binary: options.binary });
+
+    onProgress?.(90, 'Creating file...');
+
+    const blob = typeof result === 'string'
+      ? new Blob([result], { type: 'model/stl' })
+      : new Blob([result.buffer as ArrayBuffer], { type: 'model/stl' });
+
+    return {
+      success: true,
+      data: blob,
+      filename: 'scene.stl',
+    };
+  }
+
+  /**
+   * Export to PLY format (binary or ASCII) with vertex colors.
+   * Meshes without a color attribute take their material colour when materials are included.
+   */
+  private async exportPLY(
+    scene: THREE.Scene,
+    options: ExportOptions,
+    onProgress?: (progress: number, step: string) => void
+  ): Promise<ExportResult> {
+    onProgress?.(40, 'Converting to PLY format...');
+
+    const { PLYExporter } = await import('three/examples/jsm/exporters/PLYExporter.js');
+    const processedScene = this.preparePrintScene(scene, options);
+
+    if (options.includeMaterials) {
+      processedScene.traverse((child) => {
+        if (!(child instanceof THREE.Mesh)) return;
+
+        const geometry = child.geometry as THREE.BufferGeometry;
+        const material = (Array.isArray(child.material) ? child.material[0] : child.material) as THREE.MeshStandardMaterial;
+        if (geometry.getAttribute('color') || !material?.color) return;
+
+        const count = geometry.getAttribute('position').count;
+        const colors = new Float32Array(count * 3);
+        for (let i = 0; i < count; i++) {
+          material.color.toArray(colors, i * 3);
+        }
+        geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+      });
+    }
+
+    onProgress?.(60, 'Serializing vertices...');
+
+    const exporter = new PLYExporter();
+    // Use the returned result: the onDone callback is deferred through requestAnimationFrame,
+    // which headless exports don't have
+    const result = exporter.parse(processedScene, undefined as unknown as (res: string | ArrayBuffer) => void, {
+      binary: options.binary,
+      littleEndian: true,
+      excludeAttributes: options.includeMaterials ? [] : ['color'],
+    });
+    if (result === null) {
+      throw new Error('PLY exporter returned no data');
+    }
+
+    onProgress?.(90, 'Creating file...');
+
+    const blob = new Blob([result], { type: 'application/x-ply' });
+
+    return {
+      success: true,
+      data: blob,
+      filename: 'scene.ply',
+    };
+  }
+
+  /**
+   * Export to 3MF format
+   */
+  private async export3MF(
+    scene: THREE.Scene,
+    options: ExportOptions,
+    onProgress?: (progress: number, step: string) => void
+  ): Promise<ExportResult> {
+    onProgress?.(40, 'Converting to 3MF format...');
+
+    const processedScene = this.preparePrintScene(scene, options);
+
+    onProgress?.(60, 'Writing 3MF package...');
+
+    const exporter = new ThreeMFExporter();
+    const result = exporter.parse(processedScene, {
+      unit: options.unit || 'mm',
+      includeColors: options.includeMaterials,
+    });
+
+    onProgress?.(90, 'Creating file...');
+
+    const blob = new Blob([new Uint8Array(result)], { type: 'model/3mf' });
+
+    return {
+      success: true,
+      data: blob,
+      filename: 'scene.3mf',
+    };
+  }
+
   /**
    * Download exported file
    */
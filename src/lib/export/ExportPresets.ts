@@ -19,7 +19,7 @@ export const EXPORT_PRESETS: ExportPreset[] = [
   {
     id: 'web-optimized',
     name: 'Web Optimized',
-    description: 'Draco compressed GLB for fast web loading',
+    description: 'Draco compressed GLB with WebP textures for fast web loading',
     icon: '🌐',
     options: {
       format: 'glb',
@@ -30,6 +30,13 @@ export const EXPORT_PRESETS: ExportPreset[] = [
       embedTextures: true,
       useDracoCompression: true,
       dracoCompressionLevel: 10, // Maximum compression for web
+      textureCompression: 'webp', // Much smaller than PNG, decoded by every current browser
+      maxTextureSize: 2048, // Enough for full-screen web viewers
+      generateMipmaps: true,
+      useMeshQuantization: false,
+      useMeshoptCompression: false,
+      optimizeVertexOrder: false,
+      generateLODs: false,
     },
   },
   {
@@ -45,6 +52,13 @@ export const EXPORT_PRESETS: ExportPreset[] = [
       embedTextures: true,
       useDracoCompression: false, // USDZ doesn't use Draco
       dracoCompressionLevel: 0,
+      textureCompression: 'none',
+      maxTextureSize: 0,
+      generateMipmaps: false,
+      useMeshQuantization: false,
+      useMeshoptCompression: false,
+      optimizeVertexOrder: false,
+      generateLODs: false,
     },
   },
   {
@@ -61,6 +75,13 @@ export const EXPORT_PRESETS: ExportPreset[] = [
       embedTextures: false, // Separate texture files
       useDracoCompression: false, // No compression for editing
       dracoCompressionLevel: 0,
+      textureCompression: 'none',
+      maxTextureSize: 0,
+      generateMipmaps: false,
+      useMeshQuantization: false,
+      useMeshoptCompression: false,
+      optimizeVertexOrder: false,
+      generateLODs: false,
     },
   },
   {
@@ -77,21 +98,37 @@ export const EXPORT_PRESETS: ExportPreset[] = [
       embedTextures: true,
       useDracoCompression: false, // Game engines can handle uncompressed
       dracoCompressionLevel: 0,
+      textureCompression: 'none',
+      maxTextureSize: 0,
+      generateMipmaps: false,
+      useMeshQuantization: false,
+      useMeshoptCompression: false,
+      optimizeVertexOrder: false,
+      generateLODs: false,
     },
   },
   {
     id: '3d-printing',
-    name: '3D Printing',
-    description: 'OBJ with no materials for printing',
+    name: '3D Print',
+    description: 'Binary STL in millimeters with modifiers applied',
     icon: '🖨️',
     options: {
-      format: 'obj',
+      format: 'stl',
+      binary: true,
+      unit: 'mm',
       includeAnimations: false,
       includeMaterials: false,
       includeMorphTargets: false,
       embedTextures: false,
       useDracoCompression: false,
       dracoCompressionLevel: 0,
+      textureCompression: 'none',
+      maxTextureSize: 0,
+      generateMipmaps: false,
+      useMeshQuantization: false,
+      useMeshoptCompression: false,
+      optimizeVertexOrder: false,
+      generateLODs: false,
     },
   },
   {
@@ -108,6 +145,13 @@ export const EXPORT_PRESETS: ExportPreset[] = [
       embedTextures: true,
       useDracoCompression: true,
       dracoCompressionLevel: 3, // Light compression, preserves quality
+      textureCompression: 'none',
+      maxTextureSize: 0,
+      generateMipmaps: false,
+      useMeshQuantization: false,
+      useMeshoptCompression: false,
+      optimizeVertexOrder: false,
+      generateLODs: false,
     },
   },
   {
@@ -124,6 +168,13 @@ export const EXPORT_PRESETS: ExportPreset[] = [
       embedTextures: true,
       useDracoCompression: false, // Maximum compatibility
       dracoCompressionLevel: 0,
+      textureCompression: 'none',
+      maxTextureSize: 0,
+      generateMipmaps: false,
+      useMeshQuantization: false,
+      useMeshoptCompression: false,
+      optimizeVertexOrder: false,
+      generateLODs: false,
     },
   },
 ];
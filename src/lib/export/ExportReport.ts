@@ -0,0 +1,280 @@
+/**
+ * Export Report
+ *
+ * Summary of what an export wrote: node/mesh/material/texture counts, triangle
+ * count, texture memory, animation durations and LOD triangle counts, plus
+ * warnings for content that engines commonly trip over. glTF outputs also carry a structural validation
+ * (see GLTFValidator).
+ */
+
+import * as THREE from 'three';
+import { ExportFormat, isPrintFormat } from '../../stores/exportStore';
+import { SceneObject } from '../../stores/objectsStore';
+import { MAX_BONE_INFLUENCES, getVertexInfluences } from './SkeletonExporter';
+import { GLTFValidationReport } from './GLTFValidator';
+import { EncodedTexture } from './TextureExport';
+
+/** Tolerance for a vertex's skin weights to count as summing to 1 */
+const WEIGHT_EPSILON = 1e-3;
+
+const TEXTURE_SLOTS = [
+  'map',
+  'normalMap',
+  'roughnessMap',
+  'metalnessMap',
+  'emissiveMap',
+  'aoMap',
+  'alphaMap',
+  'bumpMap',
+  'displacementMap',
+  'lightMap',
+] as const;
+
+export type ExportWarningCode =
+  | 'missing-uvs'
+  | 'npot-texture'
+  | 'unnormalized-weights'
+  | 'excess-bone-influences'
+  | 'texture-failed'
+  | 'lod-skipped'
+  | 'unsupported-light'
+  | 'light-decay';
+
+export interface ExportWarning {
+  code: ExportWarningCode;
+  message: string;
+  /** Name of the object or texture the warning is about */
+  subject: string;
+}
+
+export interface ExportAnimationSummary {
+  name: string;
+  duration: number;   // Seconds
+  tracks: number;
+}
+
+export interface ExportLODSummary {
+  /** Name of the mesh */
+  subject: string;
+  /** Triangle count of each level, LOD0 first */
+  triangles: number[];
+}
+
+export interface ExportReport {
+  format: ExportFormat;
+  filename: string;
+  fileSize: number;   // Bytes
+  counts: {
+    nodes: number;
+    meshes: number;
+    materials: number;
+    textures: number;
+  };
+  triangles: number;
+  /** Uncompressed RGBA8 size of all textures with full mip chains, in bytes */
+  textureMemory: number;
+  /** Size of the source images of embedded textures, and of what was written */
+  textureBytes: {
+    original: number;
+    exported: number;
+  };
+  animations: ExportAnimationSummary[];
+  /** Levels of detail generated for each mesh */
+  lods: ExportLODSummary[];
+  warnings: ExportWarning[];
+  /** Structural check of the written file (glTF formats only) */
+  validation?: GLTFValidationReport;
+}
+
+export interface ExportReportInput {
+  format: ExportFormat;
+  filename: string;
+  fileSize: number;
+  /** Scene handed to the exporter */
+  scene: THREE.Object3D;
+  /** Scene objects the nodes were built from, for source skin weights */
+  objects: SceneObject[];
+  clips?: THREE.AnimationClip[];
+  /** Textures encoded for the file (see TextureExport) */
+  textures?: EncodedTexture[];
+  /** Levels of detail written alongside the scene's meshes */
+  lods?: ExportLODSummary[];
+  /** Warnings raised while exporting */
+  warnings?: ExportWarning[];
+  validation?: GLTFValidationReport;
+}
+
+/**
+ * Build the report for an export from the scene that was written
+ */
+export function buildExportReport(input: ExportReportInput): ExportReport {
+  const { format, scene } = input;
+  const objectsById = new Map(input.objects.map(obj => [obj.id, obj]));
+  const materials = new Set<THREE.Material>();
+  const textures = new Set<THREE.Texture>();
+  const warnings: ExportWarning[] = [...(input.warnings || [])];
+  let nodes = 0;
+  let meshes = 0;
+  let triangles = 0;
+
+  scene.traverse((node) => {
+    if (node === scene) return;
+    nodes++;
+
+    if (node instanceof THREE.Light && (format === 'glb' || format === 'gltf')) {
+      warnings.push(...checkLight(node));
+    }
+
+    if (!(node instanceof THREE.Mesh)) return;
+    meshes++;
+    triangles += countTriangles(node.geometry);
+
+    const nodeMaterials = Array.isArray(node.material) ? node.material : [node.material];
+    nodeMaterials.forEach((material) => {
+      materials.add(material);
+      collectTextures(material).forEach(texture => textures.add(texture));
+    });
+
+    // Print formats carry no texture coordinates
+    if (!isPrintFormat(format) && !node.geometry.getAttribute('uv')) {
+      warnings.push({
+        code: 'missing-uvs',
+        subject: node.name,
+        message: `${node.name} has no UV coordinates; textures cannot be mapped onto it`,
+      });
+    }
+
+    // Skins are only written to glTF
+    const obj = objectsById.get(node.userData.id);
+    if (node instanceof THREE.SkinnedMesh && obj?.skinData && (format === 'glb' || format === 'gltf')) {
+      warnings.push(...checkSkinWeights(obj, node.geometry.getAttribute('position').count));
+    }
+  });
+
+  const encoded = input.textures || [];
+  const textureSizes = [
+    ...Array.from(textures).map(texture => ({ name: texture.name || `Texture ${texture.id}`, ...getTextureSize(texture) })),
+    ...encoded.map(({ name, width, height }) => ({ name, width, height })),
+  ];
+
+  let textureMemory = 0;
+  textureSizes.forEach(({ name, width, height }) => {
+    if (!width || !height) return;
+
+    textureMemory += Math.round((width * height * 4 * 4) / 3);
+    if (!isPowerOfTwo(width) || !isPowerOfTwo(height)) {
+      warnings.push({
+        code: 'npot-texture',
+        subject: name,
+        message: `${name} is ${width}×${height}; non-power-of-two textures cannot be mipmapped on WebGL1 and some GPUs`,
+      });
+    }
+  });
+
+  return {
+    format,
+    filename: input.filename,
+    fileSize: input.fileSize,
+    counts: {
+      nodes,
+      meshes,
+      materials: materials.size,
+      textures: textureSizes.length,
+    },
+    triangles,
+    textureMemory,
+    textureBytes: {
+      original: encoded.reduce((sum, texture) => sum + texture.originalBytes, 0),
+      exported: encoded.reduce((sum, texture) => sum + texture.data.byteLength, 0),
+    },
+    animations: (input.clips || []).map(clip => ({
+      name: clip.name,
+      duration: clip.duration,
+      tracks: clip.tracks.length,
+    })),
+    lods: input.lods || [],
+    warnings,
+    validation: input.validation,
+  };
+}
+
+export function countTriangles(geometry: THREE.BufferGeometry): number {
+  const index = geometry.getIndex();
+  const position = geometry.getAttribute('position');
+  return Math.floor((index ? index.count : position?.count ?? 0) / 3);
+}
+
+function collectTextures(material: THREE.Material): THREE.Texture[] {
+  const slots = material as unknown as Record<string, unknown>;
+  return TEXTURE_SLOTS
+    .map(slot => slots[slot])
+    .filter((value): value is THREE.Texture => value instanceof THREE.Texture);
+}
+
+function getTextureSize(texture: THREE.Texture): { width: number; height: number } {
+  const image = texture.image as { width?: number; height?: number } | undefined;
+  return { width: image?.width ?? 0, height: image?.height ?? 0 };
+}
+
+function isPowerOfTwo(value: number): boolean {
+  return (value & (value - 1)) === 0;
+}
+
+/**
+ * KHR_lights_punctual has no ambient lights, and its point and spot lights
+ * always fall off with the inverse square of the distance
+ */
+function checkLight(light: THREE.Light): ExportWarning[] {
+  if (light instanceof THREE.AmbientLight) {
+    return [{
+      code: 'unsupported-light',
+      subject: light.name,
+      message: `${light.name}: glTF has no ambient lights (its color and intensity are kept in the node's extras)`,
+    }];
+  }
+  if ((light instanceof THREE.PointLight || light instanceof THREE.SpotLight) && light.decay !== 2) {
+    return [{
+      code: 'light-decay',
+      subject: light.name,
+      message: `${light.name}: decay ${light.decay} is written as glTF's inverse-square falloff (decay 2)`,
+    }];
+  }
+  return [];
+}
+
+/**
+ * Compare the object's stored skin weights with what a glTF skin can hold.
+ * The exporter keeps the four strongest influences and renormalizes them,
+ * so both cases change how the mesh deforms.
+ */
+function checkSkinWeights(obj: SceneObject, vertexCount: number): ExportWarning[] {
+  const skinData = obj.skinData!;
+  let unnormalized = 0;
+  let excess = 0;
+
+  for (let vertex = 0; vertex < vertexCount; vertex++) {
+    const influences = getVertexInfluences(skinData, vertex).filter(influence => influence.weight > 0);
+    if (influences.length === 0) continue;
+
+    const total = influences.reduce((sum, influence) => sum + influence.weight, 0);
+    if (Math.abs(total - 1) > WEIGHT_EPSILON) unnormalized++;
+    if (influences.length > MAX_BONE_INFLUENCES) excess++;
+  }
+
+  const warnings: ExportWarning[] = [];
+  if (unnormalized > 0) {
+    warnings.push({
+      code: 'unnormalized-weights',
+      subject: obj.name,
+      message: `${obj.name}: ${unnormalized} vertices have weights that do not sum to 1 (renormalized on export)`,
+    });
+  }
+  if (excess > 0) {
+    warnings.push({
+      code: 'excess-bone-influences',
+      subject: obj.name,
+      message: `${obj.name}: ${excess} vertices have more than ${MAX_BONE_INFLUENCES} bone influences (the strongest ${MAX_BONE_INFLUENCES} are kept)`,
+    });
+  }
+  return warnings;
+}
@@ -0,0 +1,67 @@
+/**
+ * Export Scene Source
+ *
+ * Everything ExportManager needs to know about a scene beyond its objects:
+ * the selection, modifier stacks, live viewport geometry, materials, textures,
+ * shape keys and NLA layers.
+ * The editor reads these from its stores; headless exports read them from
+ * serialized project data (see HeadlessExport).
+ */
+
+import * as THREE from 'three';
+import { QMesh } from '../qmesh/QMesh';
+import { SceneObject, useObjectsStore } from '../../stores/objectsStore';
+import { Material, Texture, useMaterialsStore } from '../../stores/materialsStore';
+import { ShapeKey, useMorphTargetStore } from '../../stores/morphTargetStore';
+import { useModifierStore } from '../../stores/modifierStore';
+import { NLALayer, useNLAStore } from '../../stores/nlaStore';
+import { meshRegistry } from '../mesh/MeshRegistry';
+
+export interface ExportSceneSource {
+  /** Objects exported when exporting the selection only */
+  getSelectedIds(): string[];
+  /** Whether the object has any enabled modifiers */
+  hasModifiers(objectId: string): boolean;
+  /** The object's mesh evaluated through its modifier stack at export settings */
+  applyModifiers(obj: SceneObject, qMesh: QMesh): QMesh;
+  /** Geometry currently rendered for the object, including edits not yet stored on it */
+  getLiveGeometry(objectId: string): THREE.BufferGeometry | undefined;
+  /** Material assigned to the object */
+  getMaterial(objectId: string): Material | undefined;
+  /** Texture referenced by a material's map slots */
+  getTexture(textureId: string): Texture | undefined;
+  getShapeKeys(objectId: string): ShapeKey[];
+  /** Positions the object's shape keys are relative to */
+  getBasePose(objectId: string): THREE.BufferGeometry | undefined;
+  /** NLA layers, bottom of the stack first */
+  getNLALayers(): NLALayer[];
+}
+
+/**
+ * Source backed by the editor's stores and viewport
+ */
+export const storeExportSource: ExportSceneSource = {
+  getSelectedIds: () => useObjectsStore.getState().selectedIds,
+
+  hasModifiers: (objectId) =>
+    useModifierStore.getState().getModifiers(objectId).some(m => m.enabled),
+
+  applyModifiers: (obj, qMesh) =>
+    useModifierStore.getState().applyModifierStackToQMesh(obj.id, qMesh, 'export'),
+
+  getLiveGeometry: (objectId) => meshRegistry.getMesh(objectId)?.geometry,
+
+  getMaterial: (objectId) => {
+    const materialsStore = useMaterialsStore.getState();
+    const materialId = materialsStore.objectMaterials.get(objectId);
+    return materialId ? materialsStore.materials.get(materialId) : undefined;
+  },
+
+  getTexture: (textureId) => useMaterialsStore.getState().textures.get(textureId),
+
+  getShapeKeys: (objectId) => useMorphTargetStore.getState().getShapeKeysForObject(objectId),
+
+  getBasePose: (objectId) => useMorphTargetStore.getState().getBasePose(objectId),
+
+  getNLALayers: () => useNLAStore.getState().layers,
+};
@@ -0,0 +1,32 @@
+/**
+ * glTF Camera Writer
+ *
+ * GLTFExporter plugin correcting the cameras it writes. GLTFExporter stores an
+ * orthographic camera's full width and height as xmag/ymag, which glTF defines
+ * as half extents, and names every camera after its three.js class.
+ */
+
+import * as THREE from 'three';
+import { GLTFNodeDef, GLTFWriterLike } from './GLTFWriterLike';
+
+export class GLTFCameraWriter {
+  readonly name = 'QUAR_cameras';
+
+  /**
+   * @param writer The GLTFExporter's writer, as passed to plugin callbacks
+   */
+  constructor(private writer: GLTFWriterLike) {}
+
+  writeNode(object: THREE.Object3D, nodeDef: GLTFNodeDef): void {
+    if (!(object instanceof THREE.Camera) || nodeDef.camera === undefined) return;
+
+    const cameraDef = this.writer.json.cameras?.[nodeDef.camera];
+    if (!cameraDef) return;
+
+    if (object.name) cameraDef.name = object.name;
+    if (object instanceof THREE.OrthographicCamera && cameraDef.orthographic) {
+      cameraDef.orthographic.xmag = (object.right - object.left) / 2;
+      cameraDef.orthographic.ymag = (object.top - object.bottom) / 2;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * glTF LOD Writer
+ *
+ * GLTFExporter plugin writing MSFT_lod. A node with levels of detail lists the
+ * nodes of its lower levels in the extension, and the screen coverage of every
+ * level in its extras (MSFT_screencoverage). Level nodes are outside the scene
+ * hierarchy and copy the node's transform; loaders without the extension show
+ * LOD0, so it is not marked required.
+ */
+
+import * as THREE from 'three';
+import { GLTFNodeDef, GLTFWriterLike } from './GLTFWriterLike';
+
+export interface LODChain {
+  /** Meshes of the levels after LOD0 */
+  meshes: THREE.Mesh[];
+  /** Screen coverage of every level, LOD0 first */
+  screenCoverage: number[];
+}
+
+const TRANSFORM_PROPERTIES = ['matrix', 'translation', 'rotation', 'scale'] as const;
+
+export class GLTFLODWriter {
+  readonly name = 'MSFT_lod';
+
+  /**
+   * @param writer The GLTFExporter's writer, as passed to plugin callbacks
+   * @param chains Levels of detail by the object holding LOD0's geometry
+   */
+  constructor(private writer: GLTFWriterLike, private chains: Map<THREE.Object3D, LODChain>) {}
+
+  writeNode(object: THREE.Object3D, nodeDef: GLTFNodeDef): void {
+    const chain = this.chains.get(object);
+    if (!chain) return;
+
+    const nodes = (this.writer.json.nodes = this.writer.json.nodes || []);
+    const ids = chain.meshes.map((mesh) => {
+      const levelDef: GLTFNodeDef = { name: mesh.name };
+      for (const property of TRANSFORM_PROPERTIES) {
+        if (nodeDef[property]) levelDef[property] = nodeDef[property];
+      }
+      const meshIndex = this.writer.processMesh(mesh);
+      if (meshIndex !== null) levelDef.mesh = meshIndex;
+      return nodes.push(levelDef) - 1;
+    });
+
+    nodeDef.extensions = nodeDef.extensions || {};
+    nodeDef.extensions.MSFT_lod = { ids };
+    nodeDef.extras = { ...nodeDef.extras, MSFT_screencoverage: chain.screenCoverage };
+    this.writer.extensionsUsed.MSFT_lod = true;
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * glTF Texture Writer
+ *
+ * GLTFExporter plugin embedding pre-encoded textures (see TextureExport).
+ * GLTFExporter itself redraws every texture through a canvas as PNG/JPEG;
+ * this writes the encoded bytes as they are, using EXT_texture_webp for WebP
+ * and KHR_texture_basisu for KTX2. Those images have no PNG fallback, so the
+ * extensions are marked required.
+ */
+
+import * as THREE from 'three';
+import { EncodedTexture, MaterialTextures, TextureMimeType } from './TextureExport';
+import { GLTFImageDef, GLTFMaterialDef, GLTFTextureDef, GLTFWriterLike } from './GLTFWriterLike';
+
+const TEXTURE_EXTENSIONS: Partial<Record<TextureMimeType, string>> = {
+  'image/webp': 'EXT_texture_webp',
+  'image/ktx2': 'KHR_texture_basisu',
+};
+
+// WebGL sampler constants
+const LINEAR = 9729;
+const LINEAR_MIPMAP_LINEAR = 9987;
+const REPEAT = 10497;
+
+export class GLTFTextureWriter {
+  readonly name = 'QUAR_encoded_textures';
+  private textureIndices = new Map<EncodedTexture, number>();
+  private samplerIndices = new Map<boolean, number>();
+
+  /**
+   * @param writer The GLTFExporter's writer, as passed to plugin callbacks
+   * @param materialTextures Encoded textures of each material being exported
+   */
+  constructor(private writer: GLTFWriterLike, private materialTextures: Map<THREE.Material, MaterialTextures>) {}
+
+  writeMaterial(material: THREE.Material, materialDef: GLTFMaterialDef): void {
+    const textures = this.materialTextures.get(material);
+    if (!textures) return;
+
+    const pbr = (materialDef.pbrMetallicRoughness = materialDef.pbrMetallicRoughness || {});
+    if (textures.baseColor) pbr.baseColorTexture = { index: this.textureIndex(textures.baseColor) };
+    if (textures.metallicRoughness) pbr.metallicRoughnessTexture = { index: this.textureIndex(textures.metallicRoughness) };
+    if (textures.normal) materialDef.normalTexture = { index: this.textureIndex(textures.normal) };
+    if (textures.occlusion) materialDef.occlusionTexture = { index: this.textureIndex(textures.occlusion) };
+    if (textures.emissive) {
+      materialDef.emissiveTexture = { index: this.textureIndex(textures.emissive) };
+      // The emissive factor defaults to black, which would hide the texture
+      materialDef.emissiveFactor = materialDef.emissiveFactor || [1, 1, 1];
+    }
+  }
+
+  private textureIndex(texture: EncodedTexture): number {
+    const cached = this.textureIndices.get(texture);
+    if (cached !== undefined) return cached;
+
+    const json = this.writer.json;
+    const images = (json.images = json.images || []);
+    const textures = (json.textures = json.textures || []);
+
+    const imageDef: GLTFImageDef = { name: texture.name, mimeType: texture.mimeType };
+    if (this.writer.options.binary) {
+      const blob = new Blob([new Uint8Array(texture.data)], { type: texture.mimeType });
+      this.writer.pending.push(
+        this.writer.processBufferViewImage(blob).then((index) => {
+          imageDef.bufferView = index;
+        })
+      );
+    } else {
+      imageDef.uri = `data:${texture.mimeType};base64,${toBase64(texture.data)}`;
+    }
+    const source = images.push(imageDef) - 1;
+
+    const textureDef: GLTFTextureDef = { name: texture.name, sampler: this.samplerIndex(texture.mipmaps) };
+    const extension = TEXTURE_EXTENSIONS[texture.mimeType];
+    if (extension) {
+      textureDef.extensions = { [extension]: { source } };
+      this.writer.extensionsUsed[extension] = true;
+      this.writer.extensionsRequired[extension] = true;
+    } else {
+      textureDef.source = source;
+    }
+
+    const index = textures.push(textureDef) - 1;
+    this.textureIndices.set(texture, index);
+    return index;
+  }
+
+  private samplerIndex(mipmaps: boolean): number {
+    const cached = this.samplerIndices.get(mipmaps);
+    if (cached !== undefined) return cached;
+
+    const json = this.writer.json;
+    const samplers = (json.samplers = json.samplers || []);
+    const index = samplers.push({
+      magFilter: LINEAR,
+      minFilter: mipmaps ? LINEAR_MIPMAP_LINEAR : LINEAR,
+      wrapS: REPEAT,
+      wrapT: REPEAT,
+    }) - 1;
+
+    this.samplerIndices.set(mipmaps, index);
+    return index;
+  }
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,535 @@
+/**
+ * glTF Validator
+ *
+ * Structural checks on exported glTF 2.0 files: GLB container layout, index
+ * references between top-level arrays, and accessor/buffer view ranges.
+ * Issues point at the offending element with a JSON pointer (e.g. /accessors/3),
+ * like the Khronos glTF-Validator does. Semantic checks (animation data, extension
+ * contents, image decoding) are out of scope.
+ */
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const COMPONENT_SIZES: Record<number, number> = {
+  5120: 1, // BYTE
+  5121: 1, // UNSIGNED_BYTE
+  5122: 2, // SHORT
+  5123: 2, // UNSIGNED_SHORT
+  5125: 4, // UNSIGNED_INT
+  5126: 4, // FLOAT
+};
+
+const TYPE_SIZES: Record<string, number> = {
+  SCALAR: 1,
+  VEC2: 2,
+  VEC3: 3,
+  VEC4: 4,
+  MAT2: 4,
+  MAT3: 9,
+  MAT4: 16,
+};
+
+const ANIMATION_PATHS = ['translation', 'rotation', 'scale', 'weights'];
+
+/** Texture extensions that replace a texture's source image */
+const IMAGE_EXTENSIONS = ['EXT_texture_webp', 'KHR_texture_basisu', 'EXT_texture_avif'];
+
+export type GLTFIssueSeverity = 'error' | 'warning';
+
+export interface GLTFValidationIssue {
+  severity: GLTFIssueSeverity;
+  /** JSON pointer to the element the issue is about */
+  pointer: string;
+  message: string;
+}
+
+export interface GLTFValidationReport {
+  valid: boolean;
+  issues: GLTFValidationIssue[];
+}
+
+/**
+ * The parts of a glTF document the checks read. Files come from outside, so
+ * every value is checked before it is trusted.
+ */
+interface GLTFJSON {
+  asset?: { version?: unknown };
+  scene?: number;
+  scenes?: { nodes?: unknown[] }[];
+  nodes?: GLTFNodeDef[];
+  meshes?: { primitives?: GLTFPrimitiveDef[] }[];
+  materials?: GLTFMaterialDef[];
+  textures?: { source?: number; sampler?: number; extensions?: Record<string, { source?: number }> }[];
+  images?: { uri?: string; bufferView?: number; mimeType?: string }[];
+  skins?: { joints?: unknown[]; skeleton?: number; inverseBindMatrices?: number }[];
+  animations?: GLTFAnimationDef[];
+  accessors?: GLTFAccessorDef[];
+  bufferViews?: GLTFBufferViewDef[];
+  buffers?: { uri?: unknown; byteLength: number; extensions?: { EXT_meshopt_compression?: { fallback?: boolean } } }[];
+  extensionsUsed?: string[];
+  extensionsRequired?: string[];
+  [name: string]: unknown;
+}
+
+interface GLTFNodeDef {
+  mesh?: number;
+  skin?: number;
+  camera?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+  extensions?: { MSFT_lod?: { ids?: unknown[] } };
+}
+
+interface GLTFPrimitiveDef {
+  attributes?: Record<string, number>;
+  indices?: number;
+  material?: number;
+  targets?: Record<string, number>[];
+}
+
+interface GLTFTextureInfo {
+  index?: number;
+}
+
+interface GLTFMaterialDef {
+  pbrMetallicRoughness?: { baseColorTexture?: GLTFTextureInfo; metallicRoughnessTexture?: GLTFTextureInfo };
+  normalTexture?: GLTFTextureInfo;
+  occlusionTexture?: GLTFTextureInfo;
+  emissiveTexture?: GLTFTextureInfo;
+}
+
+interface GLTFAnimationDef {
+  samplers?: { input: number; output: number }[];
+  channels?: { sampler: number; target?: { node?: number; path?: string } }[];
+}
+
+interface GLTFAccessorDef {
+  componentType: number;
+  type: string;
+  count: number;
+  bufferView?: number;
+  byteOffset?: number;
+  min?: number[];
+  max?: number[];
+}
+
+interface GLTFBufferViewDef {
+  buffer: number;
+  byteOffset?: number;
+  byteLength: number;
+  byteStride?: number;
+  extensions?: {
+    EXT_meshopt_compression?: { buffer: number; byteOffset?: number; byteLength: number; byteStride: number; count: number };
+  };
+}
+
+/**
+ * Validate a GLB file or glTF JSON (as text or parsed)
+ */
+export function validateGLTF(data: ArrayBuffer | string | object): GLTFValidationReport {
+  const issues: GLTFValidationIssue[] = [];
+  let json: GLTFJSON;
+  let binLength: number | undefined;
+
+  if (data instanceof ArrayBuffer) {
+    const glb = readGLB(data, issues);
+    if (!glb) return finish(issues);
+    json = glb.json;
+    binLength = glb.binLength;
+  } else if (typeof data === 'string') {
+    try {
+      json = JSON.parse(data) as GLTFJSON;
+    } catch (error) {
+      issues.push(issue('error', '', `Invalid JSON: ${error instanceof Error ? error.message : error}`));
+      return finish(issues);
+    }
+  } else {
+    json = data as GLTFJSON;
+  }
+
+  validateDocument(json, binLength, issues);
+  return finish(issues);
+}
+
+function finish(issues: GLTFValidationIssue[]): GLTFValidationReport {
+  return { valid: !issues.some(i => i.severity === 'error'), issues };
+}
+
+function issue(severity: GLTFIssueSeverity, pointer: string, message: string): GLTFValidationIssue {
+  return { severity, pointer, message };
+}
+
+/**
+ * Split a GLB container into its JSON and the length of its BIN chunk
+ */
+function readGLB(buffer: ArrayBuffer, issues: GLTFValidationIssue[]): { json: GLTFJSON; binLength?: number } | null {
+  if (buffer.byteLength < 20) {
+    issues.push(issue('error', '', 'File is too short to be a GLB'));
+    return null;
+  }
+
+  const view = new DataView(buffer);
+  if (view.getUint32(0, true) !== GLB_MAGIC) {
+    issues.push(issue('error', '', 'Missing GLB magic "glTF"'));
+    return null;
+  }
+  if (view.getUint32(4, true) !== 2) {
+    issues.push(issue('error', '', `Unsupported GLB version ${view.getUint32(4, true)}`));
+    return null;
+  }
+  if (view.getUint32(8, true) !== buffer.byteLength) {
+    issues.push(issue('error', '', `GLB header length ${view.getUint32(8, true)} does not match file size ${buffer.byteLength}`));
+  }
+
+  let json: GLTFJSON | undefined;
+  let binLength: number | undefined;
+  let offset = 12;
+  let chunkIndex = 0;
+
+  while (offset + 8 <= buffer.byteLength) {
+    const length = view.getUint32(offset, true);
+    const type = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+
+    if (start + length > buffer.byteLength) {
+      issues.push(issue('error', '', `Chunk ${chunkIndex} runs past the end of the file`));
+      break;
+    }
+    if (length % 4 !== 0) {
+      issues.push(issue('error', '', `Chunk ${chunkIndex} length ${length} is not 4-byte aligned`));
+    }
+
+    if (chunkIndex === 0) {
+      if (type !== CHUNK_JSON) {
+        issues.push(issue('error', '', 'First GLB chunk is not JSON'));
+        return null;
+      }
+      try {
+        json = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, start, length)));
+      } catch (error) {
+        issues.push(issue('error', '', `Invalid JSON chunk: ${error instanceof Error ? error.message : error}`));
+        return null;
+      }
+    } else if (chunkIndex === 1 && type === CHUNK_BIN) {
+      binLength = length;
+    }
+
+    offset = start + length;
+    chunkIndex++;
+  }
+
+  if (json === undefined) {
+    issues.push(issue('error', '', 'GLB has no JSON chunk'));
+    return null;
+  }
+
+  return { json, binLength };
+}
+
+function validateDocument(json: GLTFJSON, binLength: number | undefined, issues: GLTFValidationIssue[]): void {
+  if (!json || typeof json !== 'object') {
+    issues.push(issue('error', '', 'glTF JSON is not an object'));
+    return;
+  }
+
+  if (json.asset?.version !== '2.0') {
+    issues.push(issue('error', '/asset/version', `Expected asset version "2.0", got ${JSON.stringify(json.asset?.version)}`));
+  }
+
+  const count = (name: string) => {
+    const items = json[name];
+    return Array.isArray(items) ? items.length : 0;
+  };
+  const checkIndex = (pointer: string, value: unknown, target: string) => {
+    if (value === undefined) return;
+    if (!Number.isInteger(value) || (value as number) < 0 || (value as number) >= count(target)) {
+      issues.push(issue('error', pointer, `Index ${value} is out of range for ${target} (${count(target)})`));
+    }
+  };
+
+  // Buffers and buffer views
+  const bufferLengths: (number | undefined)[] = [];
+  each(json.buffers, (buffer, i) => {
+    const pointer = `/buffers/${i}`;
+    let available: number | undefined;
+
+    // Meshopt fallback buffers stand in for decompressed data and hold none themselves
+    const fallback = !!buffer.extensions?.EXT_meshopt_compression?.fallback;
+
+    if (buffer.uri === undefined) {
+      if (!fallback && (i !== 0 || binLength === undefined)) {
+        issues.push(issue('error', pointer, 'Buffer has no uri and no GLB BIN chunk'));
+      }
+      available = i === 0 ? binLength : undefined;
+    } else if (typeof buffer.uri === 'string' && buffer.uri.startsWith('data:')) {
+      available = dataURILength(buffer.uri);
+    }
+
+    if (available !== undefined && buffer.byteLength > available) {
+      issues.push(issue('error', `${pointer}/byteLength`, `byteLength ${buffer.byteLength} exceeds the ${available} bytes of data`));
+    }
+    bufferLengths[i] = buffer.byteLength;
+  });
+
+  each(json.bufferViews, (view, i) => {
+    const pointer = `/bufferViews/${i}`;
+    checkIndex(`${pointer}/buffer`, view.buffer, 'buffers');
+
+    const bufferLength = bufferLengths[view.buffer];
+    const end = (view.byteOffset || 0) + view.byteLength;
+    if (bufferLength !== undefined && end > bufferLength) {
+      issues.push(issue('error', pointer, `Range ends at byte ${end}, past the end of buffer ${view.buffer} (${bufferLength})`));
+    }
+    const meshopt = view.extensions?.EXT_meshopt_compression;
+    if (meshopt) {
+      checkIndex(`${pointer}/extensions/EXT_meshopt_compression/buffer`, meshopt.buffer, 'buffers');
+      const compressedEnd = (meshopt.byteOffset || 0) + meshopt.byteLength;
+      const compressedBufferLength = bufferLengths[meshopt.buffer];
+      if (compressedBufferLength !== undefined && compressedEnd > compressedBufferLength) {
+        issues.push(issue('error', `${pointer}/extensions/EXT_meshopt_compression`, `Compressed range ends at byte ${compressedEnd}, past the end of buffer ${meshopt.buffer} (${compressedBufferLength})`));
+      }
+      if (meshopt.byteStride * meshopt.count !== view.byteLength) {
+        issues.push(issue('error', `${pointer}/extensions/EXT_meshopt_compression`, `Decompresses to ${meshopt.byteStride * meshopt.count} bytes, but the view holds ${view.byteLength}`));
+      }
+    }
+    if (view.byteStride !== undefined && (view.byteStride < 4 || view.byteStride > 252 || view.byteStride % 4 !== 0)) {
+      issues.push(issue('error', `${pointer}/byteStride`, `byteStride ${view.byteStride} must be a multiple of 4 between 4 and 252`));
+    }
+  });
+
+  // Accessors
+  each(json.accessors, (accessor, i) => {
+    const pointer = `/accessors/${i}`;
+    const componentSize = COMPONENT_SIZES[accessor.componentType];
+    const components = TYPE_SIZES[accessor.type];
+
+    if (!componentSize) {
+      issues.push(issue('error', `${pointer}/componentType`, `Unknown componentType ${accessor.componentType}`));
+    }
+    if (!components) {
+      issues.push(issue('error', `${pointer}/type`, `Unknown type ${JSON.stringify(accessor.type)}`));
+    }
+    if (!Number.isInteger(accessor.count) || accessor.count < 1) {
+      issues.push(issue('error', `${pointer}/count`, `count must be at least 1, got ${accessor.count}`));
+    }
+    if (accessor.bufferView === undefined) return;
+
+    checkIndex(`${pointer}/bufferView`, accessor.bufferView, 'bufferViews');
+    const view = json.bufferViews?.[accessor.bufferView];
+    if (!view || !componentSize || !components || !(accessor.count >= 1)) return;
+
+    const elementSize = componentSize * components;
+    const stride = view.byteStride || elementSize;
+    const byteOffset = accessor.byteOffset || 0;
+    const end = byteOffset + stride * (accessor.count - 1) + elementSize;
+
+    if (byteOffset % componentSize !== 0) {
+      issues.push(issue('error', `${pointer}/byteOffset`, `byteOffset ${byteOffset} is not a multiple of the component size ${componentSize}`));
+    }
+    if (end > view.byteLength) {
+      issues.push(issue('error', pointer, `Data ends at byte ${end}, past the end of bufferView ${accessor.bufferView} (${view.byteLength})`));
+    }
+  });
+
+  // Scenes and nodes
+  checkIndex('/scene', json.scene, 'scenes');
+  each(json.scenes, (scene, i) => {
+    (scene.nodes || []).forEach((node: unknown, j: number) => checkIndex(`/scenes/${i}/nodes/${j}`, node, 'nodes'));
+  });
+
+  const parents = new Map<number, number>();
+  each(json.nodes, (node, i) => {
+    const pointer = `/nodes/${i}`;
+    checkIndex(`${pointer}/mesh`, node.mesh, 'meshes');
+    checkIndex(`${pointer}/skin`, node.skin, 'skins');
+    checkIndex(`${pointer}/camera`, node.camera, 'cameras');
+
+    (node.children || []).forEach((child: number, j: number) => {
+      checkIndex(`${pointer}/children/${j}`, child, 'nodes');
+      if (parents.has(child)) {
+        issues.push(issue('error', `${pointer}/children/${j}`, `Node ${child} already has parent ${parents.get(child)}`));
+      }
+      parents.set(child, i);
+    });
+
+    (node.extensions?.MSFT_lod?.ids || []).forEach((id: unknown, j: number) => {
+      checkIndex(`${pointer}/extensions/MSFT_lod/ids/${j}`, id, 'nodes');
+    });
+
+    if (node.matrix && (node.translation || node.rotation || node.scale)) {
+      issues.push(issue('error', pointer, 'Node has both a matrix and TRS properties'));
+    }
+    if (node.skin !== undefined && node.mesh === undefined) {
+      issues.push(issue('error', `${pointer}/skin`, 'Skinned node has no mesh'));
+    }
+  });
+
+  for (const start of parents.keys()) {
+    const seen = new Set<number>([start]);
+    for (let node = parents.get(start); node !== undefined; node = parents.get(node)) {
+      if (seen.has(node)) {
+        issues.push(issue('error', `/nodes/${start}`, 'Node hierarchy contains a cycle'));
+        break;
+      }
+      seen.add(node);
+    }
+  }
+
+  // Meshes
+  each(json.meshes, (mesh, i) => {
+    if (!Array.isArray(mesh.primitives) || mesh.primitives.length === 0) {
+      issues.push(issue('error', `/meshes/${i}/primitives`, 'Mesh has no primitives'));
+      return;
+    }
+
+    mesh.primitives.forEach((primitive, j) => {
+      const pointer = `/meshes/${i}/primitives/${j}`;
+      Object.entries(primitive.attributes || {}).forEach(([name, accessor]) => {
+        checkIndex(`${pointer}/attributes/${name}`, accessor, 'accessors');
+      });
+      checkIndex(`${pointer}/indices`, primitive.indices, 'accessors');
+      checkIndex(`${pointer}/material`, primitive.material, 'materials');
+      (primitive.targets || []).forEach((target: Record<string, number>, k: number) => {
+        Object.entries(target).forEach(([name, accessor]) => {
+          checkIndex(`${pointer}/targets/${k}/${name}`, accessor, 'accessors');
+        });
+      });
+
+      const positionIndex = primitive.attributes?.POSITION;
+      const position = positionIndex === undefined ? undefined : json.accessors?.[positionIndex];
+      if (position && (!position.min || !position.max)) {
+        issues.push(issue('error', `/accessors/${positionIndex}`, 'POSITION accessor must define min and max'));
+      }
+      const counts = Object.values(primitive.attributes || {})
+        .map(accessor => json.accessors?.[accessor as number]?.count)
+        .filter((value): value is number => value !== undefined);
+      if (new Set(counts).size > 1) {
+        issues.push(issue('error', `${pointer}/attributes`, 'Attributes have different counts'));
+      }
+    });
+  });
+
+  // Materials, textures and images
+  each(json.materials, (material, i) => {
+    const pointer = `/materials/${i}`;
+    const textures: [string, GLTFTextureInfo | undefined][] = [
+      ['pbrMetallicRoughness/baseColorTexture', material.pbrMetallicRoughness?.baseColorTexture],
+      ['pbrMetallicRoughness/metallicRoughnessTexture', material.pbrMetallicRoughness?.metallicRoughnessTexture],
+      ['normalTexture', material.normalTexture],
+      ['occlusionTexture', material.occlusionTexture],
+      ['emissiveTexture', material.emissiveTexture],
+    ];
+    textures.forEach(([path, info]) => {
+      if (info) checkIndex(`${pointer}/${path}/index`, info.index, 'textures');
+    });
+  });
+
+  each(json.textures, (texture, i) => {
+    checkIndex(`/textures/${i}/source`, texture.source, 'images');
+    checkIndex(`/textures/${i}/sampler`, texture.sampler, 'samplers');
+
+    // Image formats outside core glTF are referenced from their extension
+    const extensionSources = IMAGE_EXTENSIONS.filter(name => texture.extensions?.[name]);
+    extensionSources.forEach((name) => {
+      checkIndex(`/textures/${i}/extensions/${name}/source`, texture.extensions?.[name].source, 'images');
+    });
+    if (texture.source === undefined && extensionSources.length === 0) {
+      issues.push(issue('error', `/textures/${i}`, 'Texture has no image source'));
+    }
+  });
+
+  each(json.images, (image, i) => {
+    const pointer = `/images/${i}`;
+    if ((image.uri === undefined) === (image.bufferView === undefined)) {
+      issues.push(issue('error', pointer, 'Image must have exactly one of uri or bufferView'));
+    }
+    checkIndex(`${pointer}/bufferView`, image.bufferView, 'bufferViews');
+    if (image.bufferView !== undefined && !image.mimeType) {
+      issues.push(issue('error', `${pointer}/mimeType`, 'Image stored in a bufferView needs a mimeType'));
+    }
+  });
+
+  // Skins
+  each(json.skins, (skin, i) => {
+    const pointer = `/skins/${i}`;
+    if (!Array.isArray(skin.joints) || skin.joints.length === 0) {
+      issues.push(issue('error', `${pointer}/joints`, 'Skin has no joints'));
+      return;
+    }
+    skin.joints.forEach((joint: unknown, j: number) => checkIndex(`${pointer}/joints/${j}`, joint, 'nodes'));
+    checkIndex(`${pointer}/skeleton`, skin.skeleton, 'nodes');
+    checkIndex(`${pointer}/inverseBindMatrices`, skin.inverseBindMatrices, 'accessors');
+
+    const matrices = skin.inverseBindMatrices === undefined ? undefined : json.accessors?.[skin.inverseBindMatrices];
+    if (matrices && matrices.count < skin.joints.length) {
+      issues.push(issue('error', `${pointer}/inverseBindMatrices`, `${matrices.count} inverse bind matrices for ${skin.joints.length} joints`));
+    }
+  });
+
+  // Animations
+  each(json.animations, (animation, i) => {
+    const pointer = `/animations/${i}`;
+    const samplers = Array.isArray(animation.samplers) ? animation.samplers : [];
+
+    samplers.forEach((sampler, j) => {
+      checkIndex(`${pointer}/samplers/${j}/input`, sampler.input, 'accessors');
+      checkIndex(`${pointer}/samplers/${j}/output`, sampler.output, 'accessors');
+
+      const input = json.accessors?.[sampler.input];
+      if (input && (!input.min || !input.max)) {
+        issues.push(issue('error', `/accessors/${sampler.input}`, 'Animation input accessor must define min and max'));
+      }
+    });
+
+    (animation.channels || []).forEach((channel, j) => {
+      const channelPointer = `${pointer}/channels/${j}`;
+      if (!Number.isInteger(channel.sampler) || channel.sampler < 0 || channel.sampler >= samplers.length) {
+        issues.push(issue('error', `${channelPointer}/sampler`, `Index ${channel.sampler} is out of range for samplers (${samplers.length})`));
+      }
+      checkIndex(`${channelPointer}/target/node`, channel.target?.node, 'nodes');
+      if (!ANIMATION_PATHS.includes(channel.target?.path ?? '')) {
+        issues.push(issue('error', `${channelPointer}/target/path`, `Unknown target path ${JSON.stringify(channel.target?.path)}`));
+      }
+    });
+
+    if (!animation.channels?.length) {
+      issues.push(issue('warning', pointer, 'Animation has no channels'));
+    }
+  });
+
+  // Required extensions must also be listed as used
+  const declared = new Set<string>(json.extensionsUsed || []);
+  (json.extensionsRequired || []).forEach((name) => {
+    if (!declared.has(name)) {
+      issues.push(issue('error', '/extensionsRequired', `${name} is required but not listed in extensionsUsed`));
+    }
+  });
+
+  if (count('scenes') === 0) {
+    issues.push(issue('warning', '/scenes', 'File has no scenes'));
+  }
+}
+
+/**
+ * Visit the elements of a top-level array, missing elements as empty objects
+ */
+function each<T extends object>(items: T[] | undefined, visit: (item: T, index: number) => void): void {
+  if (Array.isArray(items)) items.forEach((item, index) => visit(item ?? ({} as T), index));
+}
+
+/**
+ * Number of bytes encoded in a base64 data URI
+ */
+function dataURILength(uri: string): number | undefined {
+  const comma = uri.indexOf(',');
+  if (comma < 0 || !uri.slice(0, comma).endsWith(';base64')) return undefined;
+
+  const base64 = uri.slice(comma + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
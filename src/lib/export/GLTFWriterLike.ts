@@ -0,0 +1,88 @@
+/**
+ * glTF Writer Types
+ *
+ * The parts of GLTFExporter's writer that our exporter plugins use, and the
+ * glTF JSON they edit. three's typings leave the writer's internals out.
+ */
+
+import * as THREE from 'three';
+
+export interface GLTFTextureInfoDef {
+  index: number;
+}
+
+export interface GLTFMaterialDef {
+  pbrMetallicRoughness?: {
+    baseColorTexture?: GLTFTextureInfoDef;
+    metallicRoughnessTexture?: GLTFTextureInfoDef;
+  };
+  normalTexture?: GLTFTextureInfoDef;
+  occlusionTexture?: GLTFTextureInfoDef;
+  emissiveTexture?: GLTFTextureInfoDef;
+  emissiveFactor?: number[];
+}
+
+export interface GLTFNodeDef {
+  name?: string;
+  mesh?: number;
+  camera?: number;
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+  extensions?: Record<string, unknown>;
+  extras?: Record<string, unknown>;
+}
+
+export interface GLTFImageDef {
+  name?: string;
+  mimeType?: string;
+  uri?: string;
+  bufferView?: number;
+}
+
+export interface GLTFTextureDef {
+  name?: string;
+  sampler?: number;
+  source?: number;
+  extensions?: Record<string, { source: number }>;
+}
+
+export interface GLTFSamplerDef {
+  magFilter?: number;
+  minFilter?: number;
+  wrapS?: number;
+  wrapT?: number;
+}
+
+export interface GLTFCameraDef {
+  name?: string;
+  type: 'perspective' | 'orthographic';
+  perspective?: { yfov: number; aspectRatio?: number; znear: number; zfar?: number };
+  orthographic?: { xmag: number; ymag: number; znear: number; zfar: number };
+}
+
+/** The glTF JSON as the writer builds it; arrays appear once something is written to them */
+export interface GLTFWriterJSON {
+  nodes?: GLTFNodeDef[];
+  cameras?: GLTFCameraDef[];
+  images?: GLTFImageDef[];
+  textures?: GLTFTextureDef[];
+  samplers?: GLTFSamplerDef[];
+}
+
+/**
+ * GLTFExporter's writer, as passed to the callbacks given to GLTFExporter.register()
+ */
+export interface GLTFWriterLike {
+  json: GLTFWriterJSON;
+  options: { binary?: boolean };
+  /** Work the writer waits for before finishing the file */
+  pending: Promise<unknown>[];
+  extensionsUsed: Record<string, boolean>;
+  extensionsRequired: Record<string, boolean>;
+  /** Store an image in a buffer view, resolving to the view's index */
+  processBufferViewImage(blob: Blob): Promise<number>;
+  /** Write a mesh, returning its index (null when it has nothing to write) */
+  processMesh(mesh: THREE.Mesh): number | null;
+}
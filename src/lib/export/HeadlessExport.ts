@@ -0,0 +1,210 @@
+/**
+ * Headless Export
+ *
+ * Exports a serialized project (the serializeScene() shape) without the editor:
+ * nothing is read from or written to the stores, and no viewport or DOM is needed,
+ * so saved projects can be batch-converted from Node (see scripts/quar-export.ts).
+ * glTF export reads its output through FileReader, which Node callers provide.
+ *
+ * Modifier stacks are not part of serialized projects, so meshes export as modelled.
+ */
+
+import * as THREE from 'three';
+import { DEFAULT_EXPORT_OPTIONS, ExportFormat, ExportOptions, isBinaryByDefault } from '../../stores/exportStore';
+import { SceneObject } from '../../stores/objectsStore';
+import { Material, Texture } from '../../stores/materialsStore';
+import { Animation } from '../../stores/animationStore';
+import { ShapeKey } from '../../stores/morphTargetStore';
+import { NLALayer } from '../../stores/nlaStore';
+import { QMesh, SerializedQMesh } from '../qmesh/QMesh';
+import { ExportManager } from './ExportManager';
+import { ExportSceneSource } from './ExportSceneSource';
+import { ExportReport } from './ExportReport';
+
+/** A scene object as written by objectsStore.serialize() */
+export type SerializedSceneObject = Omit<SceneObject, 'qMesh' | 'renderGeometry'> & {
+  qMeshData?: SerializedQMesh;
+  // Old saves wrote these class instances, which come back as plain objects
+  qMesh?: unknown;
+  renderGeometry?: unknown;
+};
+
+/** A shape key as written by morphTargetStore.serializeShapeKeys(), its typed arrays turned into plain objects */
+type SerializedShapeKey = Omit<ShapeKey, 'positions' | 'normals'> & { positions: unknown; normals?: unknown };
+
+/** Project data as written by serializeScene() */
+export interface SerializedProject {
+  objects?: SerializedSceneObject[];
+  materials?: {
+    materials?: Material[];
+    objectMaterials?: [string, string][];
+    textures?: Texture[];
+  };
+  animations?: {
+    animations?: Animation[];
+  };
+  shapeKeys?: [string, SerializedShapeKey[]][];
+  basePoses?: {
+    objectId: string;
+    geometryData?: { attributes?: { position?: { array: unknown; itemSize: number } } };
+  }[];
+  nla?: {
+    layers?: NLALayer[];
+  };
+}
+
+/** Export options; anything not given uses the editor's defaults for the format */
+export type HeadlessExportOptions = Partial<ExportOptions> & {
+  format: ExportFormat;
+  /** Hide the export pipeline's step-by-step log output (warnings and errors still show) */
+  quiet?: boolean;
+};
+
+export interface HeadlessExportResult {
+  data: Uint8Array;
+  filename: string;
+  report?: ExportReport;
+}
+
+/**
+ * Export a serialized project to any export format
+ */
+export async function exportProject(
+  project: SerializedProject,
+  options: HeadlessExportOptions,
+  onProgress?: (progress: number, step: string) => void
+): Promise<HeadlessExportResult> {
+  if (!project || !Array.isArray(project.objects)) {
+    throw new Error('Invalid project data: expected serialized scene with an objects array');
+  }
+
+  const { quiet, ...overrides } = options;
+  const exportOptions: ExportOptions = {
+    ...DEFAULT_EXPORT_OPTIONS,
+    binary: isBinaryByDefault(options.format),
+    ...overrides,
+    // Serialized projects carry no selection
+    exportSelectionOnly: false,
+  };
+
+  const animations = new Map<string, Animation>(
+    (project.animations?.animations || []).map(animation => [animation.id, animation])
+  );
+
+  const objects = project.objects;
+  const exportManager = new ExportManager(
+    createProjectExportSource(project),
+    undefined,
+    quiet ? { log: () => {} } : console
+  );
+  const result = await exportManager.exportScene(
+    restoreObjects(objects),
+    animations,
+    exportOptions,
+    onProgress
+  );
+
+  if (!result.success || result.data === undefined) {
+    throw new Error(result.error || `${options.format.toUpperCase()} export failed`);
+  }
+
+  const data = typeof result.data === 'string'
+    ? new TextEncoder().encode(result.data)
+    : new Uint8Array(await result.data.arrayBuffer());
+
+  return { data, filename: result.filename, report: result.report };
+}
+
+/**
+ * Read a project file: either serializeScene() JSON or a downloaded .quar file,
+ * which wraps the scene data (itself possibly a JSON string) in `scene`
+ */
+export function parseProjectFile(text: string): SerializedProject {
+  const data = JSON.parse(text);
+  const scene = data && 'scene' in data && !('objects' in data) ? data.scene : data;
+  return typeof scene === 'string' ? JSON.parse(scene) : scene;
+}
+
+/**
+ * Scene source reading materials and shape keys from serialized project data
+ */
+export function createProjectExportSource(project: SerializedProject): ExportSceneSource {
+  const materials = new Map((project.materials?.materials || []).map(material => [material.id, material]));
+  const objectMaterials = new Map(project.materials?.objectMaterials || []);
+  const textures = new Map((project.materials?.textures || []).map(texture => [texture.id, texture]));
+
+  const shapeKeys = new Map<string, ShapeKey[]>(
+    (project.shapeKeys || []).map(([objectId, keys]) => [
+      objectId,
+      keys.map(key => ({
+        ...key,
+        positions: toFloat32Array(key.positions),
+        normals: key.normals ? toFloat32Array(key.normals) : undefined,
+      })),
+    ])
+  );
+
+  const basePoses = new Map<string, THREE.BufferGeometry>();
+  (project.basePoses || []).forEach(({ objectId, geometryData }) => {
+    const position = geometryData?.attributes?.position;
+    if (!position) return;
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(toFloat32Array(position.array), position.itemSize));
+    basePoses.set(objectId, geometry);
+  });
+
+  return {
+    getSelectedIds: () => [],
+    hasModifiers: () => false,
+    applyModifiers: (_obj, qMesh) => qMesh,
+    getLiveGeometry: () => undefined,
+    getMaterial: (objectId) => {
+      const materialId = objectMaterials.get(objectId);
+      return materialId ? materials.get(materialId) : undefined;
+    },
+    getTexture: (textureId) => textures.get(textureId),
+    getShapeKeys: (objectId) => shapeKeys.get(objectId) || [],
+    getBasePose: (objectId) => basePoses.get(objectId),
+    getNLALayers: () => project.nla?.layers || [],
+  };
+}
+
+/**
+ * Rebuild scene objects from serialized data, restoring saved QMesh topology
+ */
+function restoreObjects(data: SerializedSceneObject[]): SceneObject[] {
+  const objects: SceneObject[] = [];
+
+  data.forEach((obj) => {
+    if (!obj || !obj.id || !obj.type) {
+      console.warn('[HeadlessExport] Skipping invalid object (missing id or type):', obj);
+      return;
+    }
+
+    // renderGeometry/qMesh in old saves are plain objects after the JSON round trip
+    const { qMeshData, ...saved } = obj;
+    const restored: SceneObject = { ...saved, qMesh: undefined, renderGeometry: undefined };
+
+    if (qMeshData) {
+      try {
+        restored.qMesh = QMesh.fromJSON(qMeshData);
+      } catch (error) {
+        console.warn(`[HeadlessExport] Failed to restore QMesh for ${restored.name}, using saved geometry:`, error);
+      }
+    }
+
+    objects.push(restored);
+  });
+
+  return objects;
+}
+
+/**
+ * Typed arrays are written by JSON.stringify as index-keyed objects
+ */
+function toFloat32Array(value: unknown): Float32Array {
+  if (value instanceof Float32Array) return value;
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) return Float32Array.from(value as ArrayLike<number>);
+  return Float32Array.from(Object.values(value || {}) as number[]);
+}
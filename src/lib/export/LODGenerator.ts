@@ -0,0 +1,38 @@
+/**
+ * LOD Generator
+ *
+ * Builds levels of detail for exported meshes with the Decimate modifier's
+ * half-edge collapses. Each level is decimated from the one before it, so a
+ * level's vertices are a subset of the previous level's and keep their
+ * positions, and every level fits inside LOD0's bounds.
+ */
+
+import * as THREE from 'three';
+import { LODLevel } from '../../stores/exportStore';
+import { QMesh } from '../qmesh/QMesh';
+import { applyDecimateModifier } from '../qmesh/modifiers/Decimate';
+import { countTriangles } from './ExportReport';
+
+/**
+ * Geometry of each level after LOD0, in order. Ratios are of LOD0's triangle
+ * count; a level can't have more triangles than the one before it.
+ */
+export function generateLODGeometries(geometry: THREE.BufferGeometry, levels: LODLevel[]): THREE.BufferGeometry[] {
+  const baseTriangles = countTriangles(geometry);
+  let qMesh = QMesh.fromBufferGeometry(geometry);
+
+  return levels.slice(1).map((level) => {
+    qMesh = applyDecimateModifier(qMesh, {
+      mode: 'count',
+      triangleCount: Math.round(baseTriangles * THREE.MathUtils.clamp(level.ratio, 0, 1)),
+    });
+    return qMesh.toBufferGeometry();
+  });
+}
+
+/**
+ * Node name of a level, following Unity's and Unreal's LOD import convention
+ */
+export function lodNodeName(name: string, level: number): string {
+  return `${name}_LOD${level}`;
+}
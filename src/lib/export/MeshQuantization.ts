@@ -0,0 +1,172 @@
+/**
+ * Mesh Quantization
+ *
+ * Stores vertex attributes as small integers for KHR_mesh_quantization, which
+ * GLTFExporter writes as they are. Positions become unsigned integers on a
+ * uniform grid over the mesh bounds; the grid's offset and step are moved
+ * into a child node's transform, so the original node keeps its transform,
+ * children and identity. Normals and tangents become normalized signed
+ * integers, and UVs in the 0-1 range normalized unsigned integers.
+ */
+
+import * as THREE from 'three';
+
+export interface QuantizationBits {
+  position: number;
+  /** Normals and tangents */
+  normal: number;
+  texcoord: number;
+}
+
+const UV_ATTRIBUTES = ['uv', 'uv1', 'uv2', 'uv3'];
+
+/** Integer grid positions are stored on; the node holding the geometry applies it as its transform */
+export interface PositionGrid {
+  offset: THREE.Vector3;
+  step: number;
+}
+
+/** A quantized mesh: the mesh now holding the geometry, and the grid its positions are on */
+export interface QuantizedMesh {
+  mesh: THREE.Mesh;
+  grid?: PositionGrid;
+}
+
+/**
+ * Quantize a mesh's geometry in place. The geometry is replaced, not modified,
+ * so meshes sharing it with another scene are unaffected.
+ */
+export function quantizeMesh(mesh: THREE.Mesh, requestedBits: QuantizationBits): QuantizedMesh {
+  const bits = clampQuantizationBits(requestedBits);
+  const position = mesh.geometry.getAttribute('position');
+
+  // Skinned vertices are placed by their joints, so the node transform couldn't restore them
+  if (!isFloatAttribute(position) || mesh instanceof THREE.SkinnedMesh) {
+    mesh.geometry = quantizeGeometry(mesh.geometry, bits);
+    return { mesh };
+  }
+
+  const grid = positionGrid(position, bits.position);
+  const quantized = new THREE.Mesh(quantizeGeometry(mesh.geometry, bits, grid), mesh.material);
+  quantized.name = mesh.name;
+  quantized.position.copy(grid.offset);
+  quantized.scale.setScalar(grid.step);
+  quantized.morphTargetDictionary = mesh.morphTargetDictionary;
+  quantized.morphTargetInfluences = mesh.morphTargetInfluences?.slice();
+
+  // GLTFExporter writes a mesh without attributes as a plain node
+  mesh.geometry = new THREE.BufferGeometry();
+  mesh.add(quantized);
+  return { mesh: quantized, grid };
+}
+
+/**
+ * Quantized copy of a geometry. Positions are only quantized with a grid, which
+ * must cover them (another mesh's grid can be reused for a subset of its positions).
+ */
+export function quantizeGeometry(source: THREE.BufferGeometry, requestedBits: QuantizationBits, grid?: PositionGrid): THREE.BufferGeometry {
+  const bits = clampQuantizationBits(requestedBits);
+  const geometry = source.clone();
+
+  for (const name of ['normal', 'tangent']) {
+    const attribute = geometry.getAttribute(name);
+    if (isFloatAttribute(attribute)) {
+      geometry.setAttribute(name, quantizeSigned(attribute, bits.normal));
+    }
+  }
+
+  for (const name of UV_ATTRIBUTES) {
+    const attribute = geometry.getAttribute(name);
+    // glTF has no offset for normalized UVs, so tiling UVs stay float
+    if (isFloatAttribute(attribute) && isInUnitRange(attribute)) {
+      geometry.setAttribute(name, quantizeUnsigned(attribute, bits.texcoord));
+    }
+  }
+
+  const position = geometry.getAttribute('position');
+  if (!grid || !isFloatAttribute(position)) return geometry;
+
+  const { offset, step } = grid;
+  geometry.setAttribute('position', quantizePositions(position, offset, step, bits.position));
+
+  // Morph targets stay float, in the quantized grid's units
+  for (const target of geometry.morphAttributes.position || []) {
+    for (let i = 0; i < target.count; i++) {
+      for (let c = 0; c < 3; c++) {
+        const value = target.getComponent(i, c);
+        target.setComponent(i, c, geometry.morphTargetsRelative ? value / step : (value - offset.getComponent(c)) / step);
+      }
+    }
+  }
+  return geometry;
+}
+
+function clampQuantizationBits(bits: QuantizationBits): QuantizationBits {
+  return {
+    position: clampBits(bits.position, 1),
+    // A sign bit and at least one value bit
+    normal: clampBits(bits.normal, 2),
+    texcoord: clampBits(bits.texcoord, 1),
+  };
+}
+
+function clampBits(bits: number, min: number): number {
+  return THREE.MathUtils.clamp(Math.round(bits) || 16, min, 16);
+}
+
+function isFloatAttribute(attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute | undefined): attribute is THREE.BufferAttribute {
+  return attribute instanceof THREE.BufferAttribute && attribute.array instanceof Float32Array;
+}
+
+function isInUnitRange(attribute: THREE.BufferAttribute): boolean {
+  return attribute.array.every(value => value >= 0 && value <= 1);
+}
+
+/**
+ * Grid covering the attribute's bounds with 2^bits - 1 equal steps along its longest side.
+ * The step is the same on every axis so the node scale doesn't skew normals.
+ */
+function positionGrid(position: THREE.BufferAttribute, bits: number): PositionGrid {
+  const box = new THREE.Box3().setFromBufferAttribute(position);
+  const size = box.getSize(new THREE.Vector3());
+  const extent = Math.max(size.x, size.y, size.z);
+  return { offset: box.min, step: extent > 0 ? extent / (2 ** bits - 1) : 1 };
+}
+
+function quantizePositions(position: THREE.BufferAttribute, offset: THREE.Vector3, step: number, bits: number): THREE.BufferAttribute {
+  const array = bits > 8 ? new Uint16Array(position.array.length) : new Uint8Array(position.array.length);
+  for (let i = 0; i < position.array.length; i++) {
+    array[i] = Math.round((position.array[i] - offset.getComponent(i % 3)) / step);
+  }
+  return new THREE.BufferAttribute(array, 3);
+}
+
+/**
+ * Normalized signed integers. Values are rounded to `bits` of precision,
+ * then spread over the full range of the storage type.
+ */
+function quantizeSigned(attribute: THREE.BufferAttribute, bits: number): THREE.BufferAttribute {
+  const array = bits > 8 ? new Int16Array(attribute.array.length) : new Int8Array(attribute.array.length);
+  const levels = 2 ** (bits - 1) - 1;
+  const scale = (bits > 8 ? 32767 : 127) / levels;
+
+  for (let i = 0; i < attribute.array.length; i++) {
+    const value = THREE.MathUtils.clamp(attribute.array[i], -1, 1);
+    array[i] = Math.round(Math.round(value * levels) * scale);
+  }
+  return new THREE.BufferAttribute(array, attribute.itemSize, true);
+}
+
+/**
+ * Normalized unsigned integers for values in 0-1, rounded the same way as quantizeSigned
+ */
+function quantizeUnsigned(attribute: THREE.BufferAttribute, bits: number): THREE.BufferAttribute {
+  const array = bits > 8 ? new Uint16Array(attribute.array.length) : new Uint8Array(attribute.array.length);
+  const levels = 2 ** bits - 1;
+  const scale = (bits > 8 ? 65535 : 255) / levels;
+
+  for (let i = 0; i < attribute.array.length; i++) {
+    array[i] = Math.round(Math.round(attribute.array[i] * levels) * scale);
+  }
+  return new THREE.BufferAttribute(array, attribute.itemSize, true);
+}
@@ -0,0 +1,372 @@
+/**
+ * Meshopt Compression
+ *
+ * Vertex order optimization and EXT_meshopt_compression for glTF export,
+ * using the meshoptimizer encoder. Vertex order is optimized on three.js
+ * geometry before GLTFExporter runs; buffer compression rewrites the
+ * exporter's output, moving compressed buffer views into the binary buffer
+ * and pointing the uncompressed views at a fallback buffer without data.
+ */
+
+import * as THREE from 'three';
+import type { MeshoptEncoder as MeshoptEncoderModule } from 'meshoptimizer';
+import { toBase64 } from './GLTFTextureWriter';
+
+export type MeshoptEncoder = typeof MeshoptEncoderModule;
+
+type MeshoptMode = 'ATTRIBUTES' | 'TRIANGLES' | 'INDICES';
+
+interface BufferViewEncoding {
+  mode: MeshoptMode;
+  count: number;
+  /** Bytes per element */
+  size: number;
+}
+
+const EXTENSION = 'EXT_meshopt_compression';
+
+/** Vertices kept by the overdraw pass's cache simulation, matching meshoptimizer's */
+const VERTEX_CACHE_SIZE = 16;
+
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+const ELEMENT_ARRAY_BUFFER = 34963;
+const TRIANGLES = 4;
+
+const COMPONENT_SIZES: Record<number, number> = { 5120: 1, 5121: 1, 5122: 2, 5123: 2, 5125: 4, 5126: 4 };
+const TYPE_SIZES: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT2: 4, MAT3: 9, MAT4: 16 };
+
+/**
+ * Load the encoder's WebAssembly module
+ */
+export async function loadMeshoptEncoder(): Promise<MeshoptEncoder> {
+  const { MeshoptEncoder } = await import('meshoptimizer');
+  if (!MeshoptEncoder.supported) {
+    throw new Error('Meshopt encoding requires WebAssembly');
+  }
+  await MeshoptEncoder.ready;
+  return MeshoptEncoder;
+}
+
+/**
+ * Reorder triangles for the vertex cache and to draw outward-facing surfaces
+ * first (less overdraw), then renumber vertices in the order they are drawn.
+ * Returns a new geometry; non-indexed and interleaved geometry is returned as is.
+ */
+export function optimizeVertexOrder(geometry: THREE.BufferGeometry, encoder: MeshoptEncoder): THREE.BufferGeometry {
+  const index = geometry.getIndex();
+  const position = geometry.getAttribute('position');
+  const attributes = [
+    ...Object.values(geometry.attributes),
+    ...Object.values(geometry.morphAttributes).flat(),
+  ];
+  if (!index || !(position instanceof THREE.BufferAttribute) || attributes.some(attribute => !(attribute instanceof THREE.BufferAttribute))) {
+    return geometry;
+  }
+
+  const indices = Uint32Array.from(index.array);
+  const groups = geometry.groups.length > 0 ? geometry.groups : [{ start: 0, count: indices.length }];
+
+  // Triangles are reordered within each material group
+  for (const group of groups) {
+    const end = Math.min(group.start + group.count, indices.length);
+    const triangles = indices.subarray(group.start, end - ((end - group.start) % 3));
+    if (triangles.length === 0) continue;
+
+    triangles.set(optimizeOverdraw(optimizeVertexCache(triangles, encoder), position));
+  }
+
+  // Number vertices by first use; unused ones go last
+  const remap = new Int32Array(position.count).fill(-1);
+  let next = 0;
+  for (const vertex of indices) {
+    if (remap[vertex] < 0) remap[vertex] = next++;
+  }
+  for (let vertex = 0; vertex < remap.length; vertex++) {
+    if (remap[vertex] < 0) remap[vertex] = next++;
+  }
+
+  const result = geometry.clone();
+  result.setIndex(new THREE.BufferAttribute(
+    index.array instanceof Uint16Array ? Uint16Array.from(indices, vertex => remap[vertex]) : indices.map(vertex => remap[vertex]),
+    1
+  ));
+  for (const [name, attribute] of Object.entries(result.attributes)) {
+    result.setAttribute(name, remapAttribute(attribute as THREE.BufferAttribute, remap));
+  }
+  for (const [name, targets] of Object.entries(result.morphAttributes)) {
+    result.morphAttributes[name] = targets.map(target => remapAttribute(target as THREE.BufferAttribute, remap));
+  }
+  return result;
+}
+
+/**
+ * Triangle order for the vertex cache, in the original vertex numbering
+ */
+function optimizeVertexCache(triangles: Uint32Array, encoder: MeshoptEncoder): Uint32Array {
+  // reorderMesh also renumbers vertices to match; map them back
+  const reordered = Uint32Array.from(triangles);
+  const [remap] = encoder.reorderMesh(reordered, true, false);
+
+  const original = new Uint32Array(remap.length);
+  remap.forEach((to, from) => {
+    if (to !== 0xffffffff) original[to] = from;
+  });
+  return reordered.map(vertex => original[vertex]);
+}
+
+/**
+ * Split the cache-optimized order into clusters wherever the cache starts
+ * over, then draw the clusters facing away from the mesh center first
+ */
+function optimizeOverdraw(triangles: Uint32Array, position: THREE.BufferAttribute): Uint32Array {
+  const starts: number[] = [];
+  const cache: number[] = [];
+
+  for (let t = 0; t < triangles.length; t += 3) {
+    let misses = 0;
+    for (const vertex of triangles.subarray(t, t + 3)) {
+      if (cache.includes(vertex)) continue;
+      misses++;
+      cache.push(vertex);
+      if (cache.length > VERTEX_CACHE_SIZE) cache.shift();
+    }
+    if (t === 0 || misses === 3) starts.push(t);
+  }
+  if (starts.length < 2) return triangles;
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const meshCenter = new THREE.Vector3();
+  let meshArea = 0;
+
+  const clusters = starts.map((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1] : triangles.length;
+    const center = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    let area = 0;
+
+    for (let t = start; t < end; t += 3) {
+      a.fromBufferAttribute(position, triangles[t]);
+      b.fromBufferAttribute(position, triangles[t + 1]);
+      c.fromBufferAttribute(position, triangles[t + 2]);
+
+      // The cross product's length is twice the triangle's area
+      const weighted = new THREE.Vector3().subVectors(b, a).cross(c.clone().sub(a));
+      const triangleArea = weighted.length() / 2;
+      normal.add(weighted);
+      center.addScaledVector(a.add(b).add(c), triangleArea / 3);
+      area += triangleArea;
+    }
+
+    meshCenter.add(center);
+    meshArea += area;
+    return { start, end, center: area > 0 ? center.divideScalar(area) : center, normal: normal.normalize() };
+  });
+
+  if (meshArea > 0) meshCenter.divideScalar(meshArea);
+
+  const sorted = clusters
+    .map(cluster => ({ ...cluster, key: cluster.center.sub(meshCenter).dot(cluster.normal) }))
+    .sort((x, y) => y.key - x.key);
+
+  const result = new Uint32Array(triangles.length);
+  let offset = 0;
+  for (const { start, end } of sorted) {
+    result.set(triangles.subarray(start, end), offset);
+    offset += end - start;
+  }
+  return result;
+}
+
+function remapAttribute(attribute: THREE.BufferAttribute, remap: Int32Array): THREE.BufferAttribute {
+  const { array, itemSize } = attribute;
+  const ArrayType = array.constructor as new (length: number) => typeof array;
+  const remapped = new ArrayType(array.length);
+
+  for (let vertex = 0; vertex < remap.length; vertex++) {
+    for (let c = 0; c < itemSize; c++) {
+      remapped[remap[vertex] * itemSize + c] = array[vertex * itemSize + c];
+    }
+  }
+
+  const result = new THREE.BufferAttribute(remapped, itemSize, attribute.normalized);
+  result.name = attribute.name;
+  return result;
+}
+
+/**
+ * Compress the buffer views of GLTFExporter output (GLB or glTF JSON with an
+ * embedded buffer) with EXT_meshopt_compression
+ */
+export function compressGLTF(output: ArrayBuffer, encoder: MeshoptEncoder): ArrayBuffer;
+export function compressGLTF(output: object, encoder: MeshoptEncoder): object;
+export function compressGLTF(output: ArrayBuffer | object, encoder: MeshoptEncoder): ArrayBuffer | object {
+  if (output instanceof ArrayBuffer) {
+    const { json, bin } = readGLB(output);
+    return writeGLB(json, compressBuffers(json, bin, encoder));
+  }
+
+  const json: any = output;
+  const uri: unknown = json.buffers?.[0]?.uri;
+  if (typeof uri !== 'string' || !uri.startsWith('data:')) return json;
+
+  const bin = Uint8Array.from(atob(uri.slice(uri.indexOf(',') + 1)), char => char.charCodeAt(0));
+  json.buffers[0].uri = `data:application/octet-stream;base64,${toBase64(compressBuffers(json, bin, encoder))}`;
+  return json;
+}
+
+/**
+ * Rewrite the document's single buffer, returning its new contents
+ */
+function compressBuffers(json: any, bin: Uint8Array, encoder: MeshoptEncoder): Uint8Array {
+  const encodings = bufferViewEncodings(json);
+  if (json.buffers?.length !== 1 || encodings.size === 0) return bin;
+
+  const parts: { offset: number; data: Uint8Array }[] = [];
+  let byteLength = 0;
+  let fallbackLength = 0;
+  const append = (data: Uint8Array): number => {
+    const offset = alignTo4(byteLength);
+    parts.push({ offset, data });
+    byteLength = offset + data.byteLength;
+    return offset;
+  };
+
+  json.bufferViews.forEach((view: any, i: number) => {
+    const start = view.byteOffset || 0;
+    const encoding = encodings.get(i);
+    if (!encoding) {
+      view.byteOffset = append(bin.subarray(start, start + view.byteLength));
+      return;
+    }
+
+    const uncompressedLength = encoding.count * encoding.size;
+    const compressed = encoder.encodeGltfBuffer(bin.slice(start, start + uncompressedLength), encoding.count, encoding.size, encoding.mode);
+
+    view.extensions = {
+      ...view.extensions,
+      [EXTENSION]: {
+        buffer: 0,
+        byteOffset: append(compressed),
+        byteLength: compressed.byteLength,
+        byteStride: encoding.size,
+        count: encoding.count,
+        mode: encoding.mode,
+      },
+    };
+    view.buffer = 1;
+    view.byteOffset = alignTo4(fallbackLength);
+    view.byteLength = uncompressedLength;
+    fallbackLength = view.byteOffset + uncompressedLength;
+  });
+
+  json.buffers[0].byteLength = byteLength;
+  json.buffers.push({ byteLength: fallbackLength, extensions: { [EXTENSION]: { fallback: true } } });
+
+  // Required: the fallback buffer has no data to fall back to
+  for (const list of ['extensionsUsed', 'extensionsRequired']) {
+    json[list] = json[list] || [];
+    if (!json[list].includes(EXTENSION)) json[list].push(EXTENSION);
+  }
+
+  const result = new Uint8Array(byteLength);
+  for (const { offset, data } of parts) result.set(data, offset);
+  return result;
+}
+
+/**
+ * How each buffer view can be encoded: vertex and animation data as attributes,
+ * index data as triangles (or plain index sequences for other primitive modes).
+ * Views shared by several accessors, sparse data and images are left as they are.
+ */
+function bufferViewEncodings(json: any): Map<number, BufferViewEncoding> {
+  const accessorsByView = new Map<number, number[]>();
+  const excluded = new Set<number>();
+
+  (json.accessors || []).forEach((accessor: any, i: number) => {
+    if (accessor.sparse) {
+      excluded.add(accessor.sparse.indices.bufferView);
+      excluded.add(accessor.sparse.values.bufferView);
+    }
+    if (accessor.bufferView === undefined) return;
+    accessorsByView.set(accessor.bufferView, [...(accessorsByView.get(accessor.bufferView) || []), i]);
+  });
+
+  const indexModes = new Map<number, MeshoptMode>();
+  for (const mesh of json.meshes || []) {
+    for (const primitive of mesh.primitives || []) {
+      if (primitive.indices === undefined) continue;
+      const mode = (primitive.mode ?? TRIANGLES) === TRIANGLES && indexModes.get(primitive.indices) !== 'INDICES' ? 'TRIANGLES' : 'INDICES';
+      indexModes.set(primitive.indices, mode);
+    }
+  }
+
+  const encodings = new Map<number, BufferViewEncoding>();
+  for (const [viewIndex, accessors] of accessorsByView) {
+    if (accessors.length !== 1 || excluded.has(viewIndex)) continue;
+
+    const accessor = json.accessors[accessors[0]];
+    const view = json.bufferViews[viewIndex];
+    const componentSize = COMPONENT_SIZES[accessor.componentType];
+    if (!componentSize || accessor.byteOffset) continue;
+
+    if (view.target === ELEMENT_ARRAY_BUFFER) {
+      const mode = indexModes.get(accessors[0]);
+      if (!mode || (componentSize !== 2 && componentSize !== 4) || (mode === 'TRIANGLES' && accessor.count % 3 !== 0)) continue;
+      encodings.set(viewIndex, { mode, count: accessor.count, size: componentSize });
+    } else {
+      const size = view.byteStride || componentSize * TYPE_SIZES[accessor.type];
+      if (!size || size % 4 !== 0 || size > 256) continue;
+      encodings.set(viewIndex, { mode: 'ATTRIBUTES', count: accessor.count, size });
+    }
+  }
+  return encodings;
+}
+
+function readGLB(buffer: ArrayBuffer): { json: any; bin: Uint8Array } {
+  const view = new DataView(buffer);
+  const jsonLength = view.getUint32(12, true);
+  const json = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 20, jsonLength)));
+
+  const binHeader = 20 + jsonLength;
+  const bin = binHeader + 8 <= buffer.byteLength
+    ? new Uint8Array(buffer, binHeader + 8, view.getUint32(binHeader, true))
+    : new Uint8Array(0);
+  return { json, bin };
+}
+
+function writeGLB(json: any, bin: Uint8Array): ArrayBuffer {
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = alignTo4(jsonBytes.byteLength);
+  const binLength = alignTo4(bin.byteLength);
+  const totalLength = 12 + 8 + jsonLength + (binLength > 0 ? 8 + binLength : 0);
+
+  const buffer = new ArrayBuffer(totalLength);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  bytes.set(jsonBytes, 20);
+  // JSON chunks are padded with spaces
+  bytes.fill(0x20, 20 + jsonBytes.byteLength, 20 + jsonLength);
+
+  if (binLength > 0) {
+    view.setUint32(20 + jsonLength, binLength, true);
+    view.setUint32(24 + jsonLength, CHUNK_BIN, true);
+    bytes.set(bin, 28 + jsonLength);
+  }
+  return buffer;
+}
+
+function alignTo4(value: number): number {
+  return Math.ceil(value / 4) * 4;
+}
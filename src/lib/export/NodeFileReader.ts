@@ -0,0 +1,57 @@
+/**
+ * Node File Reader
+ *
+ * GLTFExporter reads its output through FileReader, which Node doesn't have.
+ * Scripts that export glTF from Node install this before exporting.
+ */
+
+/**
+ * Install a FileReader with the two read methods GLTFExporter uses, backed by
+ * Blob.arrayBuffer(). Does nothing where FileReader already exists.
+ */
+export function installFileReader(): void {
+  if (typeof globalThis.FileReader !== 'undefined') return;
+
+  class BlobFileReader {
+    result: ArrayBuffer | string | null = null;
+    error: Error | null = null;
+    onloadend: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    readAsArrayBuffer(blob: Blob): void {
+      this.read(blob, (buffer) => buffer);
+    }
+
+    readAsDataURL(blob: Blob): void {
+      this.read(blob, (buffer) => {
+        const bytes = new Uint8Array(buffer);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+      });
+    }
+
+    /**
+     * Read the blob into `result`, or on failure set `error` and call onerror, then onloadend either way
+     */
+    private read(blob: Blob, toResult: (buffer: ArrayBuffer) => ArrayBuffer | string): void {
+      this.result = null;
+      this.error = null;
+      blob.arrayBuffer().then(
+        (buffer) => {
+          this.result = toResult(buffer);
+          this.onloadend?.();
+        },
+        (error) => {
+          this.error = error instanceof Error ? error : new Error(String(error));
+          this.onerror?.();
+          this.onloadend?.();
+        }
+      );
+    }
+  }
+
+  globalThis.FileReader = BlobFileReader as unknown as typeof FileReader;
+}
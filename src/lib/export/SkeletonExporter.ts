@@ -0,0 +1,185 @@
+/**
+ * Skeleton Exporter
+ *
+ * Counterpart of SkeletonImporter: turns armatures, bones and skin data back into
+ * THREE.js Skeleton/SkinnedMesh structures, and bone transform tracks into
+ * keyframe tracks, so GLTFExporter can write skins and animation channels.
+ */
+
+import * as THREE from 'three';
+import { SceneObject, BoneInfluence, BonePose, SkinData } from '../../stores/objectsStore';
+import { AnimationTrack } from '../../stores/animationStore';
+
+/** glTF skins carry one JOINTS_0/WEIGHTS_0 set: at most four bones per vertex */
+export const MAX_BONE_INFLUENCES = 4;
+
+export class SkeletonExporter {
+  /**
+   * Bones of an armature, parents before children (the order joints are written in)
+   */
+  static collectArmatureBones(armatureId: string, objects: SceneObject[]): SceneObject[] {
+    const bones: SceneObject[] = [];
+
+    const collectBones = (parentId: string) => {
+      objects.forEach(obj => {
+        if (obj.parentId === parentId && obj.type === 'bone') {
+          bones.push(obj);
+          collectBones(obj.id);
+        }
+      });
+    };
+
+    collectBones(armatureId);
+    return bones;
+  }
+
+  /**
+   * Build skinIndex/skinWeight attributes from skin weights. Each vertex keeps its
+   * four strongest influences, renormalized to sum to 1. Vertices with no weights
+   * (or only weights for bones that are not exported) follow the first joint.
+   */
+  static buildSkinAttributes(
+    skinData: SkinData,
+    vertexCount: number,
+    boneIndices: Map<string, number>
+  ): { skinIndex: THREE.Uint16BufferAttribute; skinWeight: THREE.Float32BufferAttribute } {
+    const indices = new Uint16Array(vertexCount * MAX_BONE_INFLUENCES);
+    const weights = new Float32Array(vertexCount * MAX_BONE_INFLUENCES);
+
+    for (let vertex = 0; vertex < vertexCount; vertex++) {
+      const influences = getVertexInfluences(skinData, vertex)
+        .filter(influence => influence.weight > 0 && boneIndices.has(influence.boneId))
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, MAX_BONE_INFLUENCES);
+
+      const total = influences.reduce((sum, influence) => sum + influence.weight, 0);
+      const offset = vertex * MAX_BONE_INFLUENCES;
+
+      if (total === 0) {
+        weights[offset] = 1;
+        continue;
+      }
+
+      influences.forEach((influence, i) => {
+        indices[offset + i] = boneIndices.get(influence.boneId)!;
+        weights[offset + i] = influence.weight / total;
+      });
+    }
+
+    return {
+      skinIndex: new THREE.Uint16BufferAttribute(indices, MAX_BONE_INFLUENCES),
+      skinWeight: new THREE.Float32BufferAttribute(weights, MAX_BONE_INFLUENCES),
+    };
+  }
+
+  /**
+   * Bind each exported skinned mesh to a skeleton made of its armature's exported bones.
+   * `nodes` maps scene object ids to the nodes built for them (already parented).
+   */
+  static bindSkinnedMeshes(objects: SceneObject[], nodes: Map<string, THREE.Object3D>): void {
+    objects.forEach(obj => {
+      const mesh = nodes.get(obj.id);
+      if (!obj.skinData || !(mesh instanceof THREE.SkinnedMesh)) return;
+
+      const skinData = obj.skinData;
+      const bones = this.collectArmatureBones(skinData.armatureId, objects)
+        .map(bone => ({ bone, node: nodes.get(bone.id) }))
+        .filter((entry): entry is { bone: SceneObject; node: THREE.Bone } => entry.node instanceof THREE.Bone);
+
+      if (bones.length === 0) {
+        console.warn(`[SkeletonExporter] Armature of ${obj.name} has no exported bones`);
+        return;
+      }
+
+      const boneIndices = new Map(bones.map(({ bone }, index) => [bone.id, index]));
+      const { skinIndex, skinWeight } = this.buildSkinAttributes(
+        skinData,
+        mesh.geometry.getAttribute('position').count,
+        boneIndices
+      );
+      mesh.geometry.setAttribute('skinIndex', skinIndex);
+      mesh.geometry.setAttribute('skinWeight', skinWeight);
+
+      // Inverse bind matrices come from the bind pose; bones added after binding use their current rest transform
+      const boneInverses = bones.map(({ bone, node }) => {
+        const pose = getBindPose(skinData, bone.id);
+        if (pose) {
+          return new THREE.Matrix4()
+            .compose(
+              new THREE.Vector3(...pose.position),
+              new THREE.Quaternion(...pose.rotation),
+              new THREE.Vector3(...pose.scale)
+            )
+            .invert();
+        }
+
+        node.updateWorldMatrix(true, false);
+        return node.matrixWorld.clone().invert();
+      });
+
+      const bindMatrix = skinData.bindMatrix?.length === 16
+        ? new THREE.Matrix4().fromArray(skinData.bindMatrix)
+        : new THREE.Matrix4();
+
+      mesh.bind(new THREE.Skeleton(bones.map(({ node }) => node), boneInverses), bindMatrix);
+    });
+  }
+
+  /**
+   * KeyframeTrack for one bone transform track (null if the track can't be exported),
+   * for the clips built by AnimationClipExporter
+   */
+  static buildBoneTrack(track: AnimationTrack, bone: THREE.Bone): THREE.KeyframeTrack | null {
+    if (!track.enabled || track.property !== 'boneTransform' || !track.transformType || track.keyframes.length === 0) {
+      return null;
+    }
+
+    const keyframes = [...track.keyframes].sort((a, b) => a.time - b.time);
+    const times = keyframes.map(keyframe => keyframe.time);
+    const interpolation = keyframes.every(keyframe => keyframe.interpolation === 'step')
+      ? THREE.InterpolateDiscrete
+      : THREE.InterpolateLinear;
+
+    switch (track.transformType) {
+      case 'position':
+      case 'scale':
+        return new THREE.VectorKeyframeTrack(
+          `${bone.uuid}.${track.transformType}`,
+          times,
+          keyframes.flatMap(keyframe => keyframe.value as number[]),
+          interpolation
+        );
+      case 'rotation':
+        // Rotation keys are quaternions; accept Euler angles as well
+        return new THREE.QuaternionKeyframeTrack(
+          `${bone.uuid}.quaternion`,
+          times,
+          keyframes.flatMap(keyframe => {
+            const value = keyframe.value as number[];
+            if (value.length === 4) return value;
+            return new THREE.Quaternion().setFromEuler(new THREE.Euler(...value)).toArray();
+          }),
+          interpolation
+        );
+      default:
+        return null;
+    }
+  }
+}
+
+/**
+ * Influences for a vertex (weights are a plain record, or a Map once smoothed)
+ */
+export function getVertexInfluences(skinData: SkinData, vertex: number): BoneInfluence[] {
+  const weights = skinData.weights as SkinData['weights'] | Map<number, BoneInfluence[]>;
+  return (weights instanceof Map ? weights.get(vertex) : weights[vertex]) || [];
+}
+
+/**
+ * Bind pose of a bone (a Map in the store, a plain record after serialization)
+ */
+function getBindPose(skinData: SkinData, boneId: string): BonePose | undefined {
+  const bindPose = skinData.bindPose as SkinData['bindPose'] | Record<string, BonePose> | undefined;
+  if (!bindPose) return undefined;
+  return bindPose instanceof Map ? bindPose.get(boneId) : bindPose[boneId];
+}
@@ -0,0 +1,290 @@
+/**
+ * Texture Export
+ *
+ * Prepares material textures for glTF: resizes them to the export's maximum
+ * size (and to powers of two when mipmaps are wanted), packs metallic and
+ * roughness maps into glTF's combined texture, and re-encodes them as PNG,
+ * WebP or KTX2. Decoding and encoding go through a TextureCodec, so the
+ * pixel work here runs anywhere (see BrowserTextureCodec for the editor's).
+ */
+
+import { TextureCompression } from '../../stores/exportStore';
+import { Material, Texture } from '../../stores/materialsStore';
+
+export type TextureMimeType = 'image/png' | 'image/jpeg' | 'image/webp' | 'image/ktx2';
+
+/** Decoded RGBA8 pixels, top row first */
+export interface TexturePixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface TextureCodec {
+  /** Bytes behind a texture URL (data or blob URL) */
+  fetch(url: string): Promise<Uint8Array>;
+  decode(data: Uint8Array, mimeType: string): Promise<TexturePixels>;
+  encodeImage(pixels: TexturePixels, mimeType: 'image/png' | 'image/webp', quality: number): Promise<Uint8Array>;
+  /** KTX2 file with Basis Universal supercompression, optionally with a generated mip chain */
+  encodeKTX2(pixels: TexturePixels, options: { srgb: boolean; mipmaps: boolean }): Promise<Uint8Array>;
+}
+
+export interface TextureExportSettings {
+  compression: TextureCompression;
+  /** Longest side in pixels, 0 for no limit */
+  maxSize: number;
+  mipmaps: boolean;
+}
+
+/** A texture ready to embed in a glTF file */
+export interface EncodedTexture {
+  name: string;
+  mimeType: TextureMimeType;
+  data: Uint8Array;
+  width: number;
+  height: number;
+  /** Bytes of the source image(s) this was made from */
+  originalBytes: number;
+  /** Whether the sampler should use mipmapped filtering */
+  mipmaps: boolean;
+}
+
+/** A material's textures by glTF material slot */
+export interface MaterialTextures {
+  baseColor?: EncodedTexture;
+  metallicRoughness?: EncodedTexture;
+  normal?: EncodedTexture;
+  occlusion?: EncodedTexture;
+  emissive?: EncodedTexture;
+}
+
+const WEBP_QUALITY = 0.9;
+
+const SOURCE_MIME_TYPES: Record<string, TextureMimeType> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+/** Color textures are stored in sRGB; everything else holds linear data */
+const SRGB_SLOTS: (keyof MaterialTextures)[] = ['baseColor', 'emissive'];
+
+/**
+ * Encodes the textures of each material once, sharing results between
+ * materials that use the same texture
+ */
+export class TextureExporter {
+  private cache = new Map<string, Promise<EncodedTexture>>();
+
+  constructor(
+    private codec: TextureCodec,
+    private settings: TextureExportSettings,
+    private getTexture: (id: string) => Texture | undefined
+  ) {}
+
+  /**
+   * Encode a material's textures. Textures that fail are left out and reported to onError.
+   */
+  async exportMaterialTextures(
+    material: Material,
+    onError: (texture: string, error: unknown) => void
+  ): Promise<MaterialTextures> {
+    const slots: [keyof MaterialTextures, (string | null)[]][] = [
+      ['baseColor', [material.albedoMap]],
+      ['metallicRoughness', [material.metallicMap, material.roughnessMap]],
+      ['normal', [material.normalMap]],
+      ['occlusion', [material.aoMap]],
+      ['emissive', [material.emissionMap]],
+    ];
+
+    const result: MaterialTextures = {};
+    for (const [slot, ids] of slots) {
+      if (!ids.some(Boolean)) continue;
+
+      const key = `${slot}:${ids.join('|')}`;
+      if (!this.cache.has(key)) {
+        this.cache.set(key, slot === 'metallicRoughness'
+          ? this.encodeMetallicRoughness(ids[0], ids[1])
+          : this.encodeTexture(ids[0]!, SRGB_SLOTS.includes(slot)));
+      }
+
+      try {
+        result[slot] = await this.cache.get(key)!;
+      } catch (error) {
+        onError(ids.filter(Boolean).map(id => this.getTexture(id!)?.name || id).join(' + '), error);
+      }
+    }
+    return result;
+  }
+
+  private async encodeTexture(id: string, srgb: boolean): Promise<EncodedTexture> {
+    const texture = this.requireTexture(id);
+    const data = await this.codec.fetch(texture.url);
+    const sourceType = sourceMimeType(texture);
+
+    // PNG/JPEG already at the export size are embedded as they are
+    if (this.settings.compression === 'none' && (sourceType === 'image/png' || sourceType === 'image/jpeg') && texture.width > 0) {
+      const { width, height } = fitTextureSize(texture.width, texture.height, this.settings);
+      if (width === texture.width && height === texture.height) {
+        return {
+          name: texture.name,
+          mimeType: sourceType,
+          data,
+          width,
+          height,
+          originalBytes: data.byteLength,
+          mipmaps: this.settings.mipmaps,
+        };
+      }
+    }
+
+    const pixels = await this.codec.decode(data, sourceType);
+    const { width, height } = fitTextureSize(pixels.width, pixels.height, this.settings);
+    return this.encodePixels(texture.name, resizePixels(pixels, width, height), srgb, data.byteLength);
+  }
+
+  /**
+   * glTF reads roughness from green and metalness from blue of a single texture
+   */
+  private async encodeMetallicRoughness(metallicId: string | null, roughnessId: string | null): Promise<EncodedTexture> {
+    const sources = await Promise.all([metallicId, roughnessId].map(async (id) => {
+      if (!id) return null;
+      const texture = this.requireTexture(id);
+      const data = await this.codec.fetch(texture.url);
+      const pixels = await this.codec.decode(data, sourceMimeType(texture));
+      return { texture, pixels, bytes: data.byteLength };
+    }));
+    const [metallic, roughness] = sources;
+    const present = sources.filter((source): source is NonNullable<typeof source> => !!source);
+
+    const { width, height } = fitTextureSize(
+      Math.max(...present.map(source => source.pixels.width)),
+      Math.max(...present.map(source => source.pixels.height)),
+      this.settings
+    );
+    const packed = packMetallicRoughness(
+      metallic && resizePixels(metallic.pixels, width, height),
+      roughness && resizePixels(roughness.pixels, width, height),
+      width,
+      height
+    );
+
+    return this.encodePixels(
+      present.map(source => source.texture.name).join(' + '),
+      packed,
+      false,
+      present.reduce((sum, source) => sum + source.bytes, 0)
+    );
+  }
+
+  private async encodePixels(name: string, pixels: TexturePixels, srgb: boolean, originalBytes: number): Promise<EncodedTexture> {
+    const { compression, mipmaps } = this.settings;
+    let mimeType: TextureMimeType;
+    let data: Uint8Array;
+
+    if (compression === 'ktx2') {
+      mimeType = 'image/ktx2';
+      data = await this.codec.encodeKTX2(pixels, { srgb, mipmaps });
+    } else {
+      mimeType = compression === 'webp' ? 'image/webp' : 'image/png';
+      data = await this.codec.encodeImage(pixels, mimeType, WEBP_QUALITY);
+    }
+
+    return { name, mimeType, data, width: pixels.width, height: pixels.height, originalBytes, mipmaps };
+  }
+
+  private requireTexture(id: string): Texture {
+    const texture = this.getTexture(id);
+    if (!texture) throw new Error(`Texture ${id} not found`);
+    return texture;
+  }
+}
+
+function sourceMimeType(texture: Texture): string {
+  const format = texture.format?.toLowerCase();
+  return SOURCE_MIME_TYPES[format] || `image/${format}`;
+}
+
+/**
+ * Size a texture is exported at: scaled down to fit maxSize, and rounded
+ * down to powers of two when mipmaps are generated
+ */
+export function fitTextureSize(
+  width: number,
+  height: number,
+  settings: Pick<TextureExportSettings, 'maxSize' | 'mipmaps'>
+): { width: number; height: number } {
+  const scale = settings.maxSize > 0 ? Math.min(1, settings.maxSize / Math.max(width, height)) : 1;
+  let fitted = {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+
+  if (settings.mipmaps) {
+    const floorPowerOfTwo = (value: number) => 2 ** Math.floor(Math.log2(value));
+    fitted = { width: floorPowerOfTwo(fitted.width), height: floorPowerOfTwo(fitted.height) };
+  }
+  return fitted;
+}
+
+/**
+ * Resample pixels to a new size, averaging the source pixels each target pixel covers
+ */
+export function resizePixels(pixels: TexturePixels, width: number, height: number): TexturePixels {
+  if (pixels.width === width && pixels.height === height) return pixels;
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const scaleX = pixels.width / width;
+  const scaleY = pixels.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+      const sum = [0, 0, 0, 0];
+
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * pixels.width + sx) * 4;
+          sum[0] += pixels.data[i];
+          sum[1] += pixels.data[i + 1];
+          sum[2] += pixels.data[i + 2];
+          sum[3] += pixels.data[i + 3];
+        }
+      }
+
+      const count = (x1 - x0) * (y1 - y0);
+      const o = (y * width + x) * 4;
+      data[o] = sum[0] / count;
+      data[o + 1] = sum[1] / count;
+      data[o + 2] = sum[2] / count;
+      data[o + 3] = sum[3] / count;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Combine grayscale metallic and roughness maps (read from red) into glTF's
+ * metallicRoughness layout. A missing map is white, leaving its factor as is.
+ */
+export function packMetallicRoughness(
+  metallic: TexturePixels | null,
+  roughness: TexturePixels | null,
+  width: number,
+  height: number
+): TexturePixels {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = 255;
+    data[i + 1] = roughness ? roughness.data[i] : 255;
+    data[i + 2] = metallic ? metallic.data[i] : 255;
+    data[i + 3] = 255;
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,164 @@
+/**
+ * 3MF Exporter
+ *
+ * Three.js has no 3MF exporter, so this writes the 3MF core package directly:
+ * an OPC zip holding [Content_Types].xml, _rels/.rels and 3D/3dmodel.model.
+ * Each mesh becomes one object with its world transform baked in and its
+ * vertices welded by position, since 3MF requires closed, shared-vertex meshes.
+ */
+
+import * as THREE from 'three';
+import { strToU8, zipSync } from 'three/examples/jsm/libs/fflate.module.js';
+import { ExportUnit } from '../../stores/exportStore';
+
+export interface ThreeMFExporterOptions {
+  /** Unit the coordinates are expressed in */
+  unit: ExportUnit;
+  /** Write each mesh's material colour as a base material */
+  includeColors?: boolean;
+}
+
+const UNIT_NAMES: Record<ExportUnit, string> = {
+  mm: 'millimeter',
+  cm: 'centimeter',
+  m: 'meter',
+};
+
+/** Decimal places kept for vertex coordinates (and used to weld vertices) */
+const COORDINATE_PRECISION = 6;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="model" ContentType="application/vnd.ms-package.3dmanufacturing-3dmodel+xml"/>
+</Types>
+`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/3D/3dmodel.model" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>
+`;
+
+export class ThreeMFExporter {
+  /**
+   * Serialize every mesh under `scene` (world matrices must be current)
+   */
+  parse(scene: THREE.Object3D, options: ThreeMFExporterOptions): Uint8Array {
+    return zipSync({
+      '[Content_Types].xml': strToU8(CONTENT_TYPES),
+      '_rels/.rels': strToU8(RELATIONSHIPS),
+      '3D/3dmodel.model': strToU8(this.buildModel(scene, options)),
+    });
+  }
+
+  /**
+   * The 3dmodel.model document
+   */
+  buildModel(scene: THREE.Object3D, options: ThreeMFExporterOptions): string {
+    const meshes: THREE.Mesh[] = [];
+    scene.traverse(child => {
+      if (child instanceof THREE.Mesh && child.visible) meshes.push(child);
+    });
+
+    // Resource ids are shared between materials and objects; the base material group is 1
+    const colors = options.includeColors ? meshes.map(mesh => this.getMeshColor(mesh)) : [];
+    const objects = meshes.map((mesh, index) => this.buildObject(mesh, index + 2, colors.length > 0 ? index : null));
+
+    const resources: string[] = [];
+    if (colors.length > 0) {
+      resources.push(
+        '    <basematerials id="1">',
+        ...colors.map((color, index) => `      <base name="${escapeXml(meshes[index].name || `Material ${index}`)}" displaycolor="${color}"/>`),
+        '    </basematerials>'
+      );
+    }
+    resources.push(...objects);
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n'
+      + `<model unit="${UNIT_NAMES[options.unit]}" xml:lang="en-US" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">\n`
+      + '  <resources>\n'
+      + resources.map(line => `${line}\n`).join('')
+      + '  </resources>\n'
+      + '  <build>\n'
+      + meshes.map((_, index) => `    <item objectid="${index + 2}"/>\n`).join('')
+      + '  </build>\n'
+      + '</model>\n';
+  }
+
+  /**
+   * <object> element for one mesh, in world space with vertices welded by position
+   */
+  private buildObject(mesh: THREE.Mesh, id: number, colorIndex: number | null): string {
+    const geometry = mesh.geometry as THREE.BufferGeometry;
+    const positions = geometry.getAttribute('position');
+    const index = geometry.getIndex();
+    const triangleCount = index ? index.count / 3 : positions.count / 3;
+
+    const vertexLines: string[] = [];
+    const weldedIndex = new Map<string, number>();
+    const remap = new Uint32Array(positions.count);
+    const vertex = new THREE.Vector3();
+
+    for (let i = 0; i < positions.count; i++) {
+      vertex.fromBufferAttribute(positions, i).applyMatrix4(mesh.matrixWorld);
+      const coords = [vertex.x, vertex.y, vertex.z].map(formatCoordinate);
+      const key = coords.join(' ');
+
+      let welded = weldedIndex.get(key);
+      if (welded === undefined) {
+        welded = vertexLines.length;
+        weldedIndex.set(key, welded);
+        vertexLines.push(`          <vertex x="${coords[0]}" y="${coords[1]}" z="${coords[2]}"/>`);
+      }
+      remap[i] = welded;
+    }
+
+    const triangleLines: string[] = [];
+
+    for (let t = 0; t < triangleCount; t++) {
+      const [v1, v2, v3] = [0, 1, 2].map(c => remap[index ? index.getX(t * 3 + c) : t * 3 + c]);
+
+      // Triangles collapsed by welding are invalid in 3MF
+      if (v1 === v2 || v2 === v3 || v3 === v1) continue;
+      triangleLines.push(`          <triangle v1="${v1}" v2="${v2}" v3="${v3}"/>`);
+    }
+
+    const material = colorIndex !== null ? ` pid="1" pindex="${colorIndex}"` : '';
+
+    return [
+      `    <object id="${id}" type="model" name="${escapeXml(mesh.name)}"${material}>`,
+      '      <mesh>',
+      '        <vertices>',
+      ...vertexLines,
+      '        </vertices>',
+      '        <triangles>',
+      ...triangleLines,
+      '        </triangles>',
+      '      </mesh>',
+      '    </object>',
+    ].join('\n');
+  }
+
+  /**
+   * sRGB display colour of a mesh's (first) material
+   */
+  private getMeshColor(mesh: THREE.Mesh): string {
+    const material = Array.isArray(mesh.material) ? mesh.material[0] : mesh.material;
+    const color = (material as THREE.MeshStandardMaterial | undefined)?.color;
+    return `#${color ? color.getHexString().toUpperCase() : '808080'}`;
+  }
+}
+
+function formatCoordinate(value: number): string {
+  // Normalize -0 so welding doesn't split vertices on the sign of zero
+  return String(Number(value.toFixed(COORDINATE_PRECISION)) + 0);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
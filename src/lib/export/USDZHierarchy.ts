@@ -0,0 +1,170 @@
+/**
+ * USDZ Hierarchy
+ *
+ * Three's USDZExporter writes every mesh as a flat Xform under the scene, baking
+ * its world matrix and dropping names. This rewrites the exported model.usda into
+ * nested Xforms that mirror the Three.js scene graph: one prim per node with its
+ * parent-relative transform, groups as empty Xforms, and the node name and
+ * scene object id kept in customData.
+ */
+
+import * as THREE from 'three';
+import { strFromU8, strToU8, unzipSync, zipSync, Zippable } from 'three/examples/jsm/libs/fflate.module.js';
+
+const MODEL_FILE = 'model.usda';
+
+/** USDZ requires each file's data to start on a 64 byte boundary */
+const USDZ_ALIGNMENT = 64;
+/** Size of a zip local file header, before the file name and extra field */
+const ZIP_LOCAL_HEADER_SIZE = 30;
+/** Size of an extra field header (id + length) */
+const ZIP_EXTRA_HEADER_SIZE = 4;
+/** Extra field id used for alignment padding (same as Three's exporter) */
+const PADDING_EXTRA_ID = 12345;
+
+/**
+ * Rebuild the node hierarchy of a USDZ archive exported from `scene`.
+ * `scene` must be the exact object passed to the exporter (prims are matched by object id).
+ */
+export function nestUSDZHierarchy(usdz: Uint8Array, scene: THREE.Object3D): Uint8Array {
+  const files = unzipSync(usdz);
+  const model = files[MODEL_FILE];
+  if (!model) {
+    throw new Error('USDZ archive has no model.usda');
+  }
+
+  files[MODEL_FILE] = strToU8(nestModelXforms(strFromU8(model), scene));
+  return zipAligned(files);
+}
+
+/**
+ * Replace the flat mesh Xforms in a USDA document with the nested hierarchy
+ */
+export function nestModelXforms(usda: string, scene: THREE.Object3D): string {
+  // Flat blocks written by the exporter, keyed by Three.js object id
+  const blocks = new Map<number, string>();
+  const blockPattern = /def Xform "Object_(\d+)" \(\n([\s\S]*?)\n\}\n\n/g;
+  let insertAt = -1;
+
+  const stripped = usda.replace(blockPattern, (_match, id: string, body: string, offset: number) => {
+    if (insertAt < 0) insertAt = offset;
+    blocks.set(Number(id), body);
+    return '';
+  });
+
+  if (insertAt < 0) return usda;
+
+  const nested = buildChildPrims(scene, blocks, 3);
+  return stripped.slice(0, insertAt) + nested + stripped.slice(insertAt);
+}
+
+/**
+ * Prims for the visible children of a node
+ */
+function buildChildPrims(parent: THREE.Object3D, blocks: Map<number, string>, depth: number): string {
+  const usedNames = new Set<string>();
+  let output = '';
+
+  parent.children.forEach(child => {
+    if (!child.visible) return;
+
+    const prim = buildPrim(child, blocks, depth, uniquePrimName(child, usedNames));
+    if (prim) output += prim;
+  });
+
+  return output;
+}
+
+/**
+ * Prim for one node and its descendants. Nodes with no mesh anywhere below them are left out.
+ */
+function buildPrim(object: THREE.Object3D, blocks: Map<number, string>, depth: number, name: string): string | null {
+  const children = buildChildPrims(object, blocks, depth + 1);
+  const block = blocks.get(object.id);
+  if (!block && !children) return null;
+
+  const indent = '\t'.repeat(depth);
+  const metadata: string[] = [];
+  const properties: string[] = [];
+
+  if (block) {
+    // Keep the geometry reference, material binding and anything else the exporter wrote
+    const [header, body] = block.split(/\n\)\n\{\n/);
+    metadata.push(...header.split('\n').map(line => line.trim()).filter(Boolean));
+    properties.push(
+      ...body
+        .split('\n')
+        .map(line => line.trim())
+        .filter(line => line && !line.startsWith('matrix4d xformOp:transform') && !line.startsWith('uniform token[] xformOpOrder'))
+    );
+  }
+
+  const customData = [`string name = ${JSON.stringify(object.name)}`];
+  if (typeof object.userData.id === 'string') {
+    customData.push(`string id = ${JSON.stringify(object.userData.id)}`);
+  }
+  metadata.push(`customData = {\n${customData.map(line => `${indent}\t\t${line}`).join('\n')}\n${indent}\t}`);
+
+  object.updateMatrix();
+  properties.unshift(
+    `matrix4d xformOp:transform = ${formatMatrix(object.matrix)}`,
+    'uniform token[] xformOpOrder = ["xformOp:transform"]'
+  );
+
+  return `${indent}def Xform "${name}" (\n`
+    + metadata.map(line => `${indent}\t${line}\n`).join('')
+    + `${indent})\n${indent}{\n`
+    + properties.map(line => `${indent}\t${line}\n`).join('')
+    + (children ? `\n${children}` : '')
+    + `${indent}}\n\n`;
+}
+
+/**
+ * Valid USD identifier for a node, unique among its siblings
+ */
+function uniquePrimName(object: THREE.Object3D, usedNames: Set<string>): string {
+  let base = (object.name || `Object_${object.id}`).replace(/[^A-Za-z0-9_]/g, '_');
+  if (/^[0-9]/.test(base)) base = `_${base}`;
+
+  let name = base;
+  for (let i = 1; usedNames.has(name); i++) {
+    name = `${base}_${i}`;
+  }
+
+  usedNames.add(name);
+  return name;
+}
+
+/**
+ * USDA matrix4d literal (row per basis vector, matching Three's exporter)
+ */
+function formatMatrix(matrix: THREE.Matrix4): string {
+  const e = matrix.elements;
+  const row = (offset: number) => `(${[0, 1, 2, 3].map(i => Number(e[offset + i].toPrecision(7))).join(', ')})`;
+  return `( ${row(0)}, ${row(4)}, ${row(8)}, ${row(12)} )`;
+}
+
+/**
+ * Store the files uncompressed, padding local headers so every file's data is 64 byte aligned
+ */
+function zipAligned(files: Record<string, Uint8Array>): Uint8Array {
+  const entries: Zippable = {};
+  let offset = 0;
+
+  for (const [filename, data] of Object.entries(files)) {
+    const headerEnd = offset + ZIP_LOCAL_HEADER_SIZE + filename.length;
+    let extraSize = 0;
+
+    if (headerEnd % USDZ_ALIGNMENT !== 0) {
+      const padLength = (USDZ_ALIGNMENT - ((headerEnd + ZIP_EXTRA_HEADER_SIZE) % USDZ_ALIGNMENT)) % USDZ_ALIGNMENT;
+      entries[filename] = [data, { extra: { [PADDING_EXTRA_ID]: new Uint8Array(padLength) } }];
+      extraSize = ZIP_EXTRA_HEADER_SIZE + padLength;
+    } else {
+      entries[filename] = data;
+    }
+
+    offset = headerEnd + extraSize + data.length;
+  }
+
+  return zipSync(entries, { level: 0 });
+}
@@ -0,0 +1,190 @@
+/**
+ * Watertight Check
+ *
+ * Pre-export check for 3D printing. Slicers need closed, consistently wound
+ * meshes, so this walks the QMesh face loops looking for open edges (used by a
+ * single face), non-manifold edges (shared by more than two faces) and faces
+ * wound against the rest of their shell (flipped normals).
+ */
+
+import * as THREE from 'three';
+import { QMesh } from '../qmesh/QMesh';
+import { ObjectType, SceneObject } from '../../stores/objectsStore';
+import { ExportSceneSource, storeExportSource } from './ExportSceneSource';
+
+// Object types that export as meshes
+const MESH_TYPES: ObjectType[] = ['box', 'sphere', 'cylinder', 'cone', 'torus', 'plane', 'imported'];
+
+export interface WatertightReport {
+  /** Edge keys used by a single face (holes in the surface) */
+  openEdges: string[];
+  /** Edge keys shared by more than two faces */
+  nonManifoldEdges: string[];
+  /** Faces whose normal points the wrong way (into a closed shell, or against their neighbours) */
+  flippedFaces: string[];
+  watertight: boolean;
+}
+
+export interface ObjectWatertightReport extends WatertightReport {
+  objectId: string;
+  objectName: string;
+  /** The object had no geometry to check; it is not reported as watertight */
+  unchecked?: boolean;
+}
+
+interface EdgeUse {
+  faceId: string;
+  fromId: string;
+}
+
+/**
+ * Check the topology of a mesh
+ */
+export function checkWatertight(qMesh: QMesh): WatertightReport {
+  // Directed uses of every undirected edge, walked from the face loops (twins may be stale)
+  const edgeUses = new Map<string, EdgeUse[]>();
+  const faceEdges = new Map<string, string[]>();
+
+  qMesh.faces.forEach(face => {
+    const keys: string[] = [];
+    face.getHalfEdges().forEach(he => {
+      const from = he.prev?.toVertex;
+      if (!from) return;
+
+      const key = edgeKey(from.id, he.toVertex.id);
+      keys.push(key);
+      const uses = edgeUses.get(key) || [];
+      uses.push({ faceId: face.id, fromId: from.id });
+      edgeUses.set(key, uses);
+    });
+    faceEdges.set(face.id, keys);
+  });
+
+  const openEdges: string[] = [];
+  const nonManifoldEdges: string[] = [];
+  edgeUses.forEach((uses, key) => {
+    if (uses.length === 1) openEdges.push(key);
+    else if (uses.length > 2) nonManifoldEdges.push(key);
+  });
+
+  // Propagate a consistent winding across manifold edges, one shell at a time.
+  // Two faces agree when they walk their shared edge in opposite directions.
+  const orientation = new Map<string, boolean>();
+  const flippedFaces: string[] = [];
+
+  qMesh.faces.forEach(seed => {
+    if (orientation.has(seed.id)) return;
+
+    const shell: string[] = [];
+    let closed = true;
+    orientation.set(seed.id, true);
+    const queue = [seed.id];
+
+    while (queue.length > 0) {
+      const faceId = queue.shift()!;
+      shell.push(faceId);
+
+      for (const key of faceEdges.get(faceId) || []) {
+        const uses = edgeUses.get(key)!;
+        if (uses.length !== 2) {
+          closed = false;
+          continue;
+        }
+
+        const [a, b] = uses[0].faceId === faceId ? uses : [uses[1], uses[0]];
+        if (orientation.has(b.faceId)) continue;
+
+        const consistent = a.fromId !== b.fromId;
+        orientation.set(b.faceId, consistent === orientation.get(a.faceId));
+        queue.push(b.faceId);
+      }
+    }
+
+    // A closed shell should enclose positive volume; an open one follows its majority
+    let keep: boolean;
+    if (closed) {
+      const volume = shell.reduce((sum, faceId) => {
+        const faceVolume = signedVolume(qMesh, faceId);
+        return sum + (orientation.get(faceId) ? faceVolume : -faceVolume);
+      }, 0);
+      keep = volume >= 0;
+    } else {
+      const agreeing = shell.filter(faceId => orientation.get(faceId)).length;
+      keep = agreeing * 2 >= shell.length;
+    }
+
+    shell.forEach(faceId => {
+      if (orientation.get(faceId) !== keep) flippedFaces.push(faceId);
+    });
+  });
+
+  return {
+    openEdges,
+    nonManifoldEdges,
+    flippedFaces,
+    watertight: openEdges.length === 0 && nonManifoldEdges.length === 0 && flippedFaces.length === 0,
+  };
+}
+
+/**
+ * Check every mesh object that will be exported, as evaluated for export (modifiers applied).
+ * Objects without a QMesh are checked through their rendered geometry, welded by position.
+ */
+export function checkSceneWatertight(objects: SceneObject[], source: ExportSceneSource = storeExportSource): ObjectWatertightReport[] {
+  return objects
+    .filter(obj => MESH_TYPES.includes(obj.type))
+    .map(obj => {
+      const qMesh = getExportedQMesh(obj, source);
+      if (!qMesh) {
+        return {
+          objectId: obj.id,
+          objectName: obj.name,
+          openEdges: [],
+          nonManifoldEdges: [],
+          flippedFaces: [],
+          watertight: false,
+          unchecked: true,
+        };
+      }
+
+      return {
+        objectId: obj.id,
+        objectName: obj.name,
+        ...checkWatertight(qMesh),
+      };
+    });
+}
+
+/**
+ * Mesh of an object as it will be exported, or null if it has no geometry
+ */
+function getExportedQMesh(obj: SceneObject, source: ExportSceneSource): QMesh | null {
+  if (obj.qMesh) {
+    return source.hasModifiers(obj.id) ? source.applyModifiers(obj, obj.qMesh) : obj.qMesh;
+  }
+
+  const geometry = obj.renderGeometry || source.getLiveGeometry(obj.id);
+  return geometry?.attributes.position ? QMesh.fromBufferGeometry(geometry) : null;
+}
+
+/**
+ * Signed volume of the cone from the origin to a face (fan triangulated)
+ */
+function signedVolume(qMesh: QMesh, faceId: string): number {
+  const face = qMesh.faces.get(faceId);
+  if (!face) return 0;
+
+  const points = face.getHalfEdges().map(he => he.toVertex.position);
+  const cross = new THREE.Vector3();
+  let volume = 0;
+
+  for (let i = 1; i < points.length - 1; i++) {
+    volume += points[0].dot(cross.crossVectors(points[i], points[i + 1]));
+  }
+
+  return volume / 6;
+}
+
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}-${b}` : `${b}-${a}`;
+}
@@ -0,0 +1,179 @@
+/**
+ * Animation Clip Exporter Tests
+ */
+
+import { describe, test, expect } from 'vitest';
+import * as THREE from 'three';
+import { AnimationClipExporter } from '../AnimationClipExporter';
+import { Animation } from '../../../stores/animationStore';
+
+describe('AnimationClipExporter', () => {
+  function createAnimation(tracks: Animation['tracks']): Animation {
+    return { id: 'anim1', name: 'Wave', duration: 2, tracks, loop: false, enabled: true, createdAt: 0, modifiedAt: 0 };
+  }
+
+  test('should convert bone tracks into keyframe tracks on the bone nodes', () => {
+    const root = new THREE.Group();
+    const bone = new THREE.Bone();
+    bone.userData.id = 'bone1';
+    root.add(bone);
+
+    const clips = AnimationClipExporter.buildAnimationClips([
+      createAnimation([
+        {
+          id: 'track1',
+          objectId: 'bone1',
+          property: 'boneTransform',
+          propertyPath: ['boneTransform', 'rotation'],
+          boneId: 'bone1',
+          transformType: 'rotation',
+          enabled: true,
+          keyframes: [
+            { id: 'kf2', time: 2, value: [0, 0, Math.SQRT1_2, Math.SQRT1_2], interpolation: 'linear' },
+            { id: 'kf1', time: 0, value: [0, 0, 0, 1], interpolation: 'linear' },
+          ],
+        },
+        {
+          id: 'track2',
+          objectId: 'bone1',
+          property: 'boneTransform',
+          propertyPath: ['boneTransform', 'position'],
+          boneId: 'bone1',
+          transformType: 'position',
+          enabled: true,
+          keyframes: [{ id: 'kf3', time: 1, value: [0, 1, 0], interpolation: 'step' }],
+        },
+        {
+          id: 'track3',
+          objectId: 'other',
+          property: 'boneTransform',
+          propertyPath: ['boneTransform', 'scale'],
+          boneId: 'not-exported',
+          transformType: 'scale',
+          enabled: true,
+          keyframes: [{ id: 'kf4', time: 0, value: [1, 1, 1], interpolation: 'linear' }],
+        },
+      ]),
+    ], root);
+
+    expect(clips).toHaveLength(1);
+    expect(clips[0].name).toBe('Wave');
+    expect(clips[0].duration).toBe(2);
+
+    const [rotation, position] = clips[0].tracks;
+    expect(rotation.name).toBe(`${bone.uuid}.quaternion`);
+    expect(Array.from(rotation.times)).toEqual([0, 2]);
+    expect(rotation.values[3]).toBe(1);
+    expect(position.name).toBe(`${bone.uuid}.position`);
+    expect(position.getInterpolation()).toBe(THREE.InterpolateDiscrete);
+  });
+
+  test('should convert object transform tracks into channels on the object nodes', () => {
+    const root = new THREE.Group();
+    const node = new THREE.Mesh();
+    node.userData.id = 'box1';
+    node.position.set(0, 5, 0);
+    root.add(node);
+
+    const clips = AnimationClipExporter.buildAnimationClips([
+      createAnimation([
+        {
+          id: 'track1',
+          objectId: 'box1',
+          property: 'position',
+          propertyPath: ['position', 'x'],
+          enabled: true,
+          keyframes: [
+            { id: 'kf1', time: 0, value: 0, interpolation: 'linear' },
+            { id: 'kf2', time: 2, value: 4, interpolation: 'linear' },
+          ],
+        },
+        {
+          id: 'track2',
+          objectId: 'box1',
+          property: 'position',
+          propertyPath: ['position', 'z'],
+          enabled: true,
+          keyframes: [{ id: 'kf3', time: 1, value: -1, interpolation: 'linear' }],
+        },
+        {
+          id: 'track3',
+          objectId: 'box1',
+          property: 'rotation',
+          propertyPath: ['rotation'],
+          enabled: true,
+          keyframes: [
+            { id: 'kf4', time: 0, value: [0, 0, 0], interpolation: 'linear' },
+            { id: 'kf5', time: 2, value: [0, Math.PI / 2, 0], interpolation: 'linear' },
+          ],
+        },
+      ]),
+    ], root);
+
+    expect(clips).toHaveLength(1);
+    const [position, rotation] = clips[0].tracks;
+
+    // Per-axis tracks share one channel, keyed at all their keys; y keeps the node's value
+    expect(position.name).toBe(`${node.uuid}.position`);
+    expect(Array.from(position.times)).toEqual([0, 1, 2]);
+    expect(Array.from(position.values)).toEqual([0, 5, -1, 2, 5, -1, 4, 5, -1]);
+
+    expect(rotation.name).toBe(`${node.uuid}.quaternion`);
+    const end = new THREE.Quaternion().fromArray(Array.from(rotation.values), 4);
+    expect(end.angleTo(new THREE.Quaternion().setFromEuler(new THREE.Euler(0, Math.PI / 2, 0)))).toBeCloseTo(0);
+  });
+
+  test('should interpolate Euler keys across the quaternion sign flip the short way', () => {
+    const root = new THREE.Group();
+    const node = new THREE.Group();
+    node.userData.id = 'empty1';
+    root.add(node);
+
+    const [clip] = AnimationClipExporter.buildAnimationClips([
+      createAnimation([{
+        id: 'track1',
+        objectId: 'empty1',
+        property: 'rotation',
+        propertyPath: ['rotation'],
+        enabled: true,
+        keyframes: [
+          { id: 'kf1', time: 0, value: [0, 0, Math.PI * 0.9], interpolation: 'linear' },
+          { id: 'kf2', time: 2, value: [0, 0, -Math.PI * 0.9], interpolation: 'linear' },
+        ],
+      }]),
+    ], root);
+    const [first, second] = [0, 1].map(i => new THREE.Quaternion().fromArray(Array.from(clip.tracks[0].values), i * 4));
+
+    expect(first.dot(second)).toBeGreaterThan(0);
+  });
+
+  test('should leave out tracks without a glTF channel or an exported node', () => {
+    const root = new THREE.Group();
+    const light = new THREE.PointLight();
+    light.userData.id = 'light1';
+    root.add(light);
+
+    const clips = AnimationClipExporter.buildAnimationClips([
+      createAnimation([
+        {
+          id: 'track1',
+          objectId: 'light1',
+          property: 'lightProps',
+          propertyPath: ['lightProps', 'intensity'],
+          enabled: true,
+          keyframes: [{ id: 'kf1', time: 0, value: 2, interpolation: 'linear' }],
+        },
+        {
+          id: 'track2',
+          objectId: 'not-exported',
+          property: 'position',
+          propertyPath: ['position'],
+          enabled: true,
+          keyframes: [{ id: 'kf2', time: 0, value: [1, 2, 3], interpolation: 'linear' }],
+        },
+      ]),
+    ], root);
+
+    expect(clips).toEqual([]);
+  });
+});
@@ -6,9 +6,17 @@
  */
 
 import { describe, test, expect, beforeEach, vi } from 'vitest';
+import * as THREE from 'three';
 import { ExportManager } from '../ExportManager';
-import { SceneObject } from '../../../stores/objectsStore';
+import { DEFAULT_CAMERA_PROPS, SceneObject, useObjectsStore } from '../../../stores/objectsStore';
 import { ExportOptions } from '../../../stores/exportStore';
+import { useMaterialsStore } from '../../../stores/materialsStore';
+import { useNLAStore } from '../../../stores/nlaStore';
+import { Animation, AnimationTrack } from '../../../stores/animationStore';
+import { evaluateTrack } from '../../animation/FModifiers';
+import { storeExportSource } from '../ExportSceneSource';
+import { TextureCodec } from '../TextureExport';
+import { strFromU8, unzipSync } from 'three/examples/jsm/libs/fflate.module.js';
 
 describe('ExportManager', () => {
   let exportManager: ExportManager;
@@ -18,6 +26,8 @@ describe('ExportManager', () => {
 
   beforeEach(() => {
     exportManager = new ExportManager();
+    useNLAStore.setState({ layers: [] });
+    useObjectsStore.setState({ selectedIds: [] });
 
     // Create mock objects
     mockObjects = [
@@ -101,7 +111,7 @@ describe('ExportManager', () => {
     });
 
     test('should export only meshes when exportSelectionOnly is true', async () => {
-      mockObjects[0].selected = true; // Select box only
+      useObjectsStore.setState({ selectedIds: ['obj1'] }); // Select box only
       mockOptions.exportSelectionOnly = true;
 
       const result = await exportManager.exportScene(
@@ -136,6 +146,364 @@ describe('ExportManager', () => {
     });
   });
 
+  describe('Hierarchy', () => {
+    beforeEach(() => {
+      mockObjects.push({
+        id: 'group1',
+        name: 'Group1',
+        type: 'group',
+        visible: true,
+        locked: false,
+        position: [1, 0, 0],
+        rotation: [0, 0, 0],
+        scale: [2, 2, 2],
+        parentId: null,
+        children: ['obj1'],
+        geometryParams: {},
+        createdAt: Date.now(),
+        modifiedAt: Date.now(),
+      } as SceneObject);
+      mockObjects[0].parentId = 'group1';
+      mockObjects[0].position = [0, 1, 0];
+    });
+
+    async function exportGLTFJson(options: Partial<ExportOptions> = {}) {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, {
+        ...mockOptions,
+        format: 'gltf',
+        binary: false,
+        ...options,
+      });
+      expect(result.success).toBe(true);
+      return JSON.parse(await (result.data as Blob).text());
+    }
+
+    test('should nest children under group nodes with local transforms', async () => {
+      const gltf = await exportGLTFJson();
+
+      const groupNode = gltf.nodes.find((node: any) => node.name === 'Group1');
+      const boxIndex = gltf.nodes.findIndex((node: any) => node.name === 'Box1');
+
+      expect(groupNode.mesh).toBeUndefined();
+      expect(groupNode.matrix).toEqual([2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 1, 0, 0, 1]);
+      expect(groupNode.children).toEqual([boxIndex]);
+      expect(gltf.nodes[boxIndex].matrix).toEqual([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 1, 0, 1]);
+    });
+
+    test('should keep object names and ids in node extras', async () => {
+      const gltf = await exportGLTFJson();
+
+      const groupNode = gltf.nodes.find((node: any) => node.name === 'Group1');
+      const lightNode = gltf.nodes.find((node: any) => node.name === 'PointLight1');
+
+      expect(groupNode.extras).toEqual({ id: 'group1', name: 'Group1' });
+      expect(lightNode.extras).toEqual({
+        id: 'light1',
+        name: 'PointLight1',
+        shadow: { castShadow: true, mapSize: 1024, bias: -0.0001, radius: 1 },
+      });
+    });
+
+    test('should bake skipped parent transforms into exported children', async () => {
+      useObjectsStore.setState({ selectedIds: ['obj1'] }); // Box only, not its group
+
+      const gltf = await exportGLTFJson({ exportSelectionOnly: true });
+
+      expect(gltf.nodes).toHaveLength(1);
+      expect(gltf.nodes[0].name).toBe('Box1');
+      const expected = [2, 0, 0, 0, 0, 2, 0, 0, 0, 0, 2, 0, 1, 2, 0, 1];
+      gltf.nodes[0].matrix.forEach((value: number, i: number) => expect(value).toBeCloseTo(expected[i]));
+    });
+
+    test('should nest USDZ prims and keep files 64 byte aligned', async () => {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, { ...mockOptions, format: 'usdz' });
+      const bytes = new Uint8Array(await (result.data as Blob).arrayBuffer());
+
+      const usda = strFromU8(unzipSync(bytes)['model.usda']);
+      expect(usda).toMatch(/def Xform "Group1" \([\s\S]*string id = "group1"[\s\S]*\t+def Xform "Box1" \(/);
+      expect(usda).toContain('matrix4d xformOp:transform = ( (2, 0, 0, 0), (0, 2, 0, 0), (0, 0, 2, 0), (1, 0, 0, 1) )');
+      expect(usda).toContain('rel material:binding');
+      expect(usda).not.toMatch(/def Xform "Object_\d+"/);
+
+      // Walk the zip local file headers
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      let offset = 0;
+      while (view.getUint32(offset, true) === 0x04034b50) {
+        const dataStart = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+        expect(dataStart % 64).toBe(0);
+        offset = dataStart + view.getUint32(offset + 18, true);
+      }
+      expect(offset).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Skinned Meshes', () => {
+    function createRig(): SceneObject[] {
+      const base = {
+        visible: true,
+        locked: false,
+        rotation: [0, 0, 0] as [number, number, number],
+        scale: [1, 1, 1] as [number, number, number],
+        geometryParams: {},
+        createdAt: Date.now(),
+        modifiedAt: Date.now(),
+      };
+
+      return [
+        { ...base, id: 'armature1', name: 'Armature', type: 'armature', position: [0, 0, 0], parentId: null, children: ['bone1'] },
+        { ...base, id: 'bone1', name: 'Hips', type: 'bone', position: [0, 0, 0], parentId: 'armature1', children: ['bone2'] },
+        { ...base, id: 'bone2', name: 'Spine', type: 'bone', position: [0, 1, 0], parentId: 'bone1', children: [] },
+        {
+          ...mockObjects[0],
+          skinData: {
+            armatureId: 'armature1',
+            weights: { 0: [{ boneId: 'bone1', weight: 0.25 }, { boneId: 'bone2', weight: 0.75 }] },
+            bindMatrix: new THREE.Matrix4().toArray(),
+            bindPose: new Map(),
+          },
+        },
+      ] as SceneObject[];
+    }
+
+    async function exportRig(objects: SceneObject[], animations = mockAnimations) {
+      const result = await exportManager.exportScene(objects, animations, { ...mockOptions, format: 'gltf', binary: false });
+      expect(result.success).toBe(true);
+      return JSON.parse(await (result.data as Blob).text());
+    }
+
+    test('should export armatures as joints of a skin', async () => {
+      const gltf = await exportRig(createRig());
+
+      const nodeIndex = (name: string) => gltf.nodes.findIndex((node: any) => node.name === name);
+      const meshNode = gltf.nodes[nodeIndex('Box1')];
+
+      expect(gltf.skins).toHaveLength(1);
+      expect(gltf.skins[0].joints).toEqual([nodeIndex('Hips'), nodeIndex('Spine')]);
+      expect(meshNode.skin).toBe(0);
+      expect(gltf.nodes[nodeIndex('Hips')].children).toEqual([nodeIndex('Spine')]);
+
+      const attributes = gltf.meshes[meshNode.mesh].primitives[0].attributes;
+      expect(attributes.JOINTS_0).toBeDefined();
+      expect(attributes.WEIGHTS_0).toBeDefined();
+    });
+
+    test('should export plain meshes when the armature is not exported', async () => {
+      const rig = createRig();
+      useObjectsStore.setState({ selectedIds: [rig[3].id] });
+
+      const result = await exportManager.exportScene(rig, mockAnimations, {
+        ...mockOptions,
+        format: 'gltf',
+        binary: false,
+        exportSelectionOnly: true,
+      });
+      const gltf = JSON.parse(await (result.data as Blob).text());
+
+      expect(gltf.skins).toBeUndefined();
+      expect(gltf.meshes[0].primitives[0].attributes.JOINTS_0).toBeUndefined();
+    });
+
+    test('should export bone tracks as animation channels', async () => {
+      const animations = new Map([[
+        'anim1',
+        {
+          id: 'anim1',
+          name: 'Bend',
+          duration: 1,
+          loop: false,
+          enabled: true,
+          createdAt: 0,
+          modifiedAt: 0,
+          tracks: [{
+            id: 'track1',
+            objectId: 'bone2',
+            property: 'boneTransform',
+            propertyPath: ['boneTransform', 'rotation'],
+            boneId: 'bone2',
+            transformType: 'rotation',
+            enabled: true,
+            keyframes: [
+              { id: 'kf1', time: 0, value: [0, 0, 0, 1], interpolation: 'linear' },
+              { id: 'kf2', time: 1, value: [0, 0, Math.SQRT1_2, Math.SQRT1_2], interpolation: 'linear' },
+            ],
+          }],
+        },
+      ]]);
+
+      const gltf = await exportRig(createRig(), animations);
+
+      expect(gltf.animations).toHaveLength(1);
+      expect(gltf.animations[0].name).toBe('Bend');
+      expect(gltf.animations[0].channels).toEqual([
+        { sampler: 0, target: { node: gltf.nodes.findIndex((node: any) => node.name === 'Spine'), path: 'rotation' } },
+      ]);
+    });
+
+    test('should bake NLA layers into a single clip', async () => {
+      const bend = {
+        id: 'anim1',
+        name: 'Bend',
+        duration: 1,
+        loop: false,
+        enabled: true,
+        createdAt: 0,
+        modifiedAt: 0,
+        tracks: [{
+          id: 'track1',
+          objectId: 'bone2',
+          property: 'boneTransform',
+          propertyPath: ['boneTransform', 'rotation'],
+          boneId: 'bone2',
+          transformType: 'rotation',
+          enabled: true,
+          keyframes: [
+            { id: 'kf1', time: 0, value: [0, 0, 0, 1], interpolation: 'linear' },
+            { id: 'kf2', time: 1, value: [0, 0, Math.SQRT1_2, Math.SQRT1_2], interpolation: 'linear' },
+          ],
+        }],
+      };
+      const layer = useNLAStore.getState().addLayer('armature1');
+      const strip = useNLAStore.getState().addStrip(layer.id, 'anim1', 0.5, 1)!;
+      useNLAStore.getState().updateStrip(layer.id, strip.id, { repeat: 2 });
+
+      const gltf = await exportRig(createRig(), new Map([['anim1', bend]]));
+
+      expect(gltf.animations.map((animation: any) => animation.name)).toEqual(['NLA']);
+      expect(gltf.animations[0].channels[0].target.node).toBe(gltf.nodes.findIndex((node: any) => node.name === 'Spine'));
+      const input = gltf.accessors[gltf.animations[0].samplers[0].input];
+      expect(input.min[0]).toBeCloseTo(0.5);
+      expect(input.max[0]).toBeCloseTo(2.5);
+    });
+
+    test('should bake F-curve modifiers into keys', async () => {
+      const bend = {
+        id: 'anim1',
+        name: 'Bend',
+        duration: 1,
+        loop: false,
+        enabled: true,
+        createdAt: 0,
+        modifiedAt: 0,
+        tracks: [{
+          id: 'track1',
+          objectId: 'bone2',
+          property: 'boneTransform',
+          propertyPath: ['boneTransform', 'rotation'],
+          boneId: 'bone2',
+          transformType: 'rotation',
+          enabled: true,
+          keyframes: [
+            { id: 'kf1', time: 0, value: [0, 0, 0, 1], interpolation: 'linear' },
+            { id: 'kf2', time: 1, value: [0, 0, Math.SQRT1_2, Math.SQRT1_2], interpolation: 'linear' },
+          ],
+          modifiers: [{ id: 'fmod1', type: 'stepped', enabled: true, step: 0.25, offset: 0 }],
+        }],
+      };
+
+      const gltf = await exportRig(createRig(), new Map([['anim1', bend]]));
+
+      expect(gltf.animations.map((animation: any) => animation.name)).toEqual(['Bend']);
+      expect(gltf.accessors[gltf.animations[0].samplers[0].input].count).toBe(31);
+    });
+
+    test('should report source weights a glTF skin cannot hold', async () => {
+      const rig = createRig();
+      rig[3].skinData!.weights = {
+        0: [{ boneId: 'bone1', weight: 0.5 }, { boneId: 'bone2', weight: 0.25 }],
+        1: ['bone1', 'bone2', 'bone1', 'bone2', 'bone1'].map(boneId => ({ boneId, weight: 0.2 })),
+      };
+
+      const result = await exportManager.exportScene(rig, mockAnimations, { ...mockOptions, format: 'glb' });
+
+      expect(result.report!.warnings.map(warning => warning.code)).toEqual([
+        'unnormalized-weights',
+        'excess-bone-influences',
+      ]);
+      expect(result.report!.warnings[0].message).toContain('1 vertices');
+      expect(result.report!.validation!.valid).toBe(true);
+    });
+  });
+
+  describe('Object Animation', () => {
+    function createSlide(tracks: Animation['tracks']): Animation {
+      return { id: 'anim1', name: 'Slide', duration: 1, loop: false, enabled: true, createdAt: 0, modifiedAt: 0, tracks };
+    }
+
+    async function exportAnimated(animations: Map<string, Animation>) {
+      const result = await exportManager.exportScene([mockObjects[0]], animations, { ...mockOptions, format: 'gltf', binary: false });
+      return JSON.parse(await (result.data as Blob).text());
+    }
+
+    // Float values of an accessor in an embedded (data URI) buffer
+    function readAccessor(gltf: any, index: number): number[] {
+      const accessor = gltf.accessors[index];
+      const view = gltf.bufferViews[accessor.bufferView];
+      const bytes = Uint8Array.from(atob(gltf.buffers[view.buffer].uri.split(',')[1]), char => char.charCodeAt(0));
+      const components = { SCALAR: 1, VEC3: 3, VEC4: 4 }[accessor.type as string]!;
+      const offset = (view.byteOffset || 0) + (accessor.byteOffset || 0);
+      return Array.from(new Float32Array(bytes.buffer.slice(offset, offset + accessor.count * components * 4)));
+    }
+
+    test('should export baked NLA object tracks as channels on the object node', async () => {
+      const slide = createSlide([{
+        id: 'track1',
+        objectId: 'obj1',
+        property: 'position',
+        propertyPath: ['position'],
+        enabled: true,
+        keyframes: [
+          { id: 'kf1', time: 0, value: [0, 0, 0], interpolation: 'linear' },
+          { id: 'kf2', time: 1, value: [2, 0, 0], interpolation: 'linear' },
+        ],
+      }]);
+      const layer = useNLAStore.getState().addLayer('obj1');
+      useNLAStore.getState().addStrip(layer.id, 'anim1', 1, 1);
+
+      const gltf = await exportAnimated(new Map([['anim1', slide]]));
+
+      expect(gltf.animations.map((animation: any) => animation.name)).toEqual(['NLA']);
+      expect(gltf.animations[0].channels).toEqual([
+        { sampler: 0, target: { node: gltf.nodes.findIndex((node: any) => node.extras?.id === 'obj1'), path: 'translation' } },
+      ]);
+      const input = gltf.accessors[gltf.animations[0].samplers[0].input];
+      expect(input.min[0]).toBeCloseTo(1);
+      expect(input.max[0]).toBeCloseTo(2);
+    });
+
+    test('should bake F-curve modifiers of object tracks into the object channel', async () => {
+      const bob: AnimationTrack = {
+        id: 'track1',
+        objectId: 'obj1',
+        property: 'position',
+        propertyPath: ['position', 'y'],
+        enabled: true,
+        keyframes: [
+          { id: 'kf1', time: 0, value: 0, interpolation: 'linear' },
+          { id: 'kf2', time: 0.5, value: 1, interpolation: 'linear' },
+        ],
+        modifiers: [
+          { id: 'fmod1', type: 'cycles', enabled: true, before: 'repeat', after: 'repeat', beforeCount: 0, afterCount: 0 },
+          { id: 'fmod2', type: 'noise', enabled: true, amplitude: 0.2, frequency: 3, seed: 7 },
+        ],
+      };
+
+      const gltf = await exportAnimated(new Map([['anim1', { ...createSlide([bob]), duration: 2 }]]));
+      const [channel] = gltf.animations[0].channels;
+      const sampler = gltf.animations[0].samplers[channel.sampler];
+      const times = readAccessor(gltf, sampler.input);
+      const values = readAccessor(gltf, sampler.output);
+
+      expect(channel.target).toEqual({ node: gltf.nodes.findIndex((node: any) => node.extras?.id === 'obj1'), path: 'translation' });
+      expect(times).toHaveLength(61);
+      // Every frame holds the cycled, noisy height; x and z keep the object's position
+      times.forEach((time, i) => {
+        expect(values[i * 3]).toBe(0);
+        expect(values[i * 3 + 1]).toBeCloseTo(evaluateTrack(bob, time), 5);
+        expect(values[i * 3 + 2]).toBe(0);
+      });
+    });
+  });
+
   describe('Format Export', () => {
     test('should export to GLB format', async () => {
       mockOptions.format = 'glb';
@@ -211,6 +579,470 @@ describe('ExportManager', () => {
     });
   });
 
+  describe('Print Formats', () => {
+    beforeEach(() => {
+      mockObjects[0].position = [0, 2, 0];
+    });
+
+    function exportPrint(options: Partial<ExportOptions>) {
+      return exportManager.exportScene(mockObjects, mockAnimations, { ...mockOptions, unit: 'mm', ...options });
+    }
+
+    function stlVertices(stl: string): number[][] {
+      return [...stl.matchAll(/vertex (\S+) (\S+) (\S+)/g)].map(match => match.slice(1, 4).map(Number));
+    }
+
+    test('should export binary STL with one record per triangle', async () => {
+      const result = await exportPrint({ format: 'stl', binary: true });
+
+      expect(result.success).toBe(true);
+      expect(result.filename).toBe('scene.stl');
+      const view = new DataView(await (result.data as Blob).arrayBuffer());
+      expect(view.getUint32(80, true)).toBe(12);
+      expect(view.byteLength).toBe(84 + 12 * 50);
+    });
+
+    test('should export ASCII STL scaled to the unit and Z-up', async () => {
+      const result = await exportPrint({ format: 'stl', binary: false, unit: 'mm' });
+      const vertices = stlVertices(await (result.data as Blob).text());
+
+      expect(vertices).toHaveLength(36);
+      const zs = vertices.map(v => v[2]);
+      const ys = vertices.map(v => v[1]);
+      expect(Math.min(...zs)).toBeCloseTo(1500);
+      expect(Math.max(...zs)).toBeCloseTo(2500);
+      expect(Math.max(...ys)).toBeCloseTo(500);
+
+      const meters = stlVertices(await ((await exportPrint({ format: 'stl', binary: false, unit: 'm' })).data as Blob).text());
+      expect(Math.max(...meters.map(v => v[2]))).toBeCloseTo(2.5);
+    });
+
+    test('should keep normals pointing out of mirrored meshes', async () => {
+      mockObjects[0].scale = [-1, 1, 1];
+      const stl = await ((await exportPrint({ format: 'stl', binary: false })).data as Blob).text();
+
+      // The top face (+Z after the axis swap) must still face up
+      const facets = [...stl.matchAll(/facet normal (\S+) (\S+) (\S+)\s+outer loop\s+vertex \S+ \S+ (\S+)/g)];
+      const top = facets.filter(match => Math.abs(Number(match[3])) > 0.5 && Number(match[4]) > 2499);
+      expect(top.length).toBeGreaterThan(0);
+      top.forEach(match => expect(Number(match[3])).toBeCloseTo(1));
+    });
+
+    test('should export PLY with vertex colors from materials', async () => {
+      const result = await exportPrint({ format: 'ply', binary: false });
+
+      expect(result.filename).toBe('scene.ply');
+      const ply = await (result.data as Blob).text();
+      expect(ply).toMatch(/^ply\nformat ascii 1.0/);
+      expect(ply).toContain('property uchar red');
+      // Default material grey, written in sRGB
+      expect(ply).toMatch(/\n\S+ \S+ \S+ \S+ \S+ \S+ \S+ \S+ 128 128 128\n/);
+
+      const withoutColors = await ((await exportPrint({ format: 'ply', binary: false, includeMaterials: false })).data as Blob).text();
+      expect(withoutColors).not.toContain('property uchar red');
+    });
+
+    test('should export a 3MF package with welded vertices and units', async () => {
+      const result = await exportPrint({ format: '3mf', unit: 'cm' });
+
+      expect(result.filename).toBe('scene.3mf');
+      const files = unzipSync(new Uint8Array(await (result.data as Blob).arrayBuffer()));
+      expect(Object.keys(files).sort()).toEqual(['3D/3dmodel.model', '[Content_Types].xml', '_rels/.rels']);
+
+      const model = strFromU8(files['3D/3dmodel.model']);
+      expect(model).toContain('unit="centimeter"');
+      expect(model).toContain('name="Box1"');
+      expect(model.match(/<vertex /g)).toHaveLength(8);
+      expect(model.match(/<triangle /g)).toHaveLength(12);
+      expect(model).toContain('<vertex x="50" y="-50" z="250"/>');
+      expect(model).toContain('displaycolor="#808080"');
+      expect(model).toContain('<item objectid="2"/>');
+    });
+  });
+
+  describe('Export Report', () => {
+    test('should summarize a GLB export and validate it', async () => {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, mockOptions);
+      const report = result.report!;
+
+      expect(report.filename).toBe('scene.glb');
+      expect(report.fileSize).toBe((result.data as Blob).size);
+      expect(report.counts).toEqual({ nodes: 2, meshes: 1, materials: 1, textures: 0 });
+      expect(report.triangles).toBe(12);
+      expect(report.warnings).toEqual([]);
+      expect(report.validation).toEqual({ valid: true, issues: [] });
+    });
+
+    test('should validate glTF JSON output', async () => {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, {
+        ...mockOptions,
+        format: 'gltf',
+        binary: false,
+      });
+
+      expect(result.report!.validation!.valid).toBe(true);
+    });
+
+    test('should not validate non-glTF formats', async () => {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, { ...mockOptions, format: 'stl' });
+
+      expect(result.report!.triangles).toBe(12);
+      expect(result.report!.validation).toBeUndefined();
+    });
+  });
+
+  describe('Mesh Compression', () => {
+    const compressed = {
+      useMeshQuantization: true,
+      quantizePositionBits: 14,
+      quantizeNormalBits: 8,
+      quantizeTexcoordBits: 12,
+      useMeshoptCompression: true,
+      optimizeVertexOrder: true,
+    };
+
+    test('should write quantized, meshopt compressed glTF that validates', async () => {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, {
+        ...mockOptions,
+        ...compressed,
+        format: 'gltf',
+        binary: false,
+      });
+      const gltf = JSON.parse(await (result.data as Blob).text());
+
+      expect(gltf.extensionsRequired).toEqual(expect.arrayContaining(['KHR_mesh_quantization', 'EXT_meshopt_compression']));
+      expect(gltf.accessors[gltf.meshes[0].primitives[0].attributes.POSITION].componentType).toBe(5123);
+      expect(result.report!.validation).toEqual({ valid: true, issues: [] });
+    });
+
+    test('should keep object nodes and restore positions through a child node', async () => {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, {
+        ...mockOptions,
+        ...compressed,
+        useMeshoptCompression: false,
+        format: 'gltf',
+        binary: false,
+      });
+      const gltf = JSON.parse(await (result.data as Blob).text());
+      const box = gltf.nodes.find((node: any) => node.name === 'Box1' && node.mesh === undefined);
+      const holder = gltf.nodes[box.children[0]];
+
+      expect(holder.mesh).toBe(0);
+      expect(holder.matrix.slice(12, 15)).toEqual([-0.5, -0.5, -0.5]);
+      expect(holder.matrix[0]).toBeCloseTo(1 / (2 ** 14 - 1));
+    });
+
+    test('should leave geometry float without quantization', async () => {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, {
+        ...mockOptions,
+        format: 'gltf',
+        binary: false,
+      });
+      const gltf = JSON.parse(await (result.data as Blob).text());
+
+      expect(gltf.extensionsUsed).not.toContain('KHR_mesh_quantization');
+      expect(gltf.accessors[gltf.meshes[0].primitives[0].attributes.POSITION].componentType).toBe(5126);
+    });
+  });
+
+  describe('Cameras and Lights', () => {
+    const gltfOptions = { format: 'gltf' as const, binary: false };
+
+    function createObject(overrides: Partial<SceneObject>): SceneObject {
+      return {
+        id: 'obj',
+        name: 'Object',
+        type: 'group',
+        visible: true,
+        locked: false,
+        position: [0, 0, 0],
+        rotation: [0, 0, 0],
+        scale: [1, 1, 1],
+        parentId: null,
+        children: [],
+        createdAt: 0,
+        modifiedAt: 0,
+        ...overrides,
+      } as SceneObject;
+    }
+
+    async function exportJSON(objects: SceneObject[]) {
+      const result = await exportManager.exportScene(objects, mockAnimations, { ...mockOptions, ...gltfOptions });
+      return { result, gltf: JSON.parse(await (result.data as Blob).text()) };
+    }
+
+    test('should export perspective cameras with their lens', async () => {
+      const { gltf } = await exportJSON([createObject({
+        id: 'cam1',
+        name: 'Shot1',
+        type: 'camera',
+        position: [0, 1, 5],
+        cameraProps: { projection: 'perspective', fov: 40, orthographicSize: 5, aspect: 2.35, near: 0.5, far: 300 },
+      })]);
+      const node = gltf.nodes.find((n: any) => n.name === 'Shot1');
+
+      expect(gltf.cameras[node.camera]).toEqual({
+        type: 'perspective',
+        name: 'Shot1',
+        perspective: { aspectRatio: 2.35, yfov: THREE.MathUtils.degToRad(40), znear: 0.5, zfar: 300 },
+      });
+    });
+
+    test('should write orthographic half extents', async () => {
+      const { gltf } = await exportJSON([createObject({
+        id: 'cam1',
+        name: 'Top',
+        type: 'camera',
+        cameraProps: { projection: 'orthographic', fov: 50, orthographicSize: 3, aspect: 2, near: 0.1, far: 100 },
+      })]);
+
+      expect(gltf.cameras[0].orthographic).toEqual({ xmag: 6, ymag: 3, znear: 0.1, zfar: 100 });
+    });
+
+    test('should give cameras saved without a lens the default one', async () => {
+      const { gltf } = await exportJSON([createObject({ id: 'cam1', name: 'Old', type: 'camera' })]);
+
+      expect(gltf.cameras[0].perspective.yfov).toBeCloseTo(THREE.MathUtils.degToRad(DEFAULT_CAMERA_PROPS.fov));
+    });
+
+    test('should aim spot lights at their target with range, cone and shadow extras', async () => {
+      const { gltf, result } = await exportJSON([createObject({
+        id: 'spot1',
+        name: 'Key',
+        type: 'spotLight',
+        position: [0, 4, 0],
+        lightProps: {
+          color: '#ffffff', intensity: 40, distance: 12, decay: 2, castShadow: true,
+          angle: Math.PI / 6, penumbra: 0.5, target: [0, 0, 0],
+          shadowMapSize: 2048, shadowBias: -0.001, shadowRadius: 2,
+        },
+      })]);
+      const node = gltf.nodes.find((n: any) => n.name === 'Key');
+      const light = gltf.extensions.KHR_lights_punctual.lights[node.extensions.KHR_lights_punctual.light];
+      const forward = new THREE.Vector3(0, 0, -1).transformDirection(new THREE.Matrix4().fromArray(node.matrix));
+
+      expect(light).toMatchObject({ type: 'spot', intensity: 40, range: 12 });
+      expect(light.spot.outerConeAngle).toBeCloseTo(Math.PI / 6);
+      expect(light.spot.innerConeAngle).toBeCloseTo(Math.PI / 12);
+      expect(forward.y).toBeCloseTo(-1);
+      expect(node.extras.shadow).toEqual({ castShadow: true, mapSize: 2048, bias: -0.001, radius: 2 });
+      expect(result.report!.warnings).toEqual([]);
+    });
+
+    test('should write point intensities in candela and directional ones in lux', async () => {
+      const { gltf } = await exportJSON([
+        createObject({
+          id: 'point1',
+          name: 'Bulb',
+          type: 'pointLight',
+          lightProps: { color: '#ffffff', intensity: 7.5, distance: 0, decay: 2, castShadow: false },
+        }),
+        createObject({
+          id: 'sun1',
+          name: 'Sun',
+          type: 'directionalLight',
+          lightProps: { color: '#ffffff', intensity: 3, distance: 0, decay: 0, castShadow: false, target: [0, -1, 0] },
+        }),
+      ]);
+      const lights = gltf.extensions.KHR_lights_punctual.lights;
+
+      // The viewport already renders physical units, so the values carry over unscaled
+      expect(lights.find((light: any) => light.name === 'Bulb')).toMatchObject({ type: 'point', intensity: 7.5 });
+      expect(lights.find((light: any) => light.name === 'Bulb').range).toBeUndefined();
+      expect(lights.find((light: any) => light.name === 'Sun')).toMatchObject({ type: 'directional', intensity: 3 });
+    });
+
+    test('should keep ambient lights in extras and warn about them', async () => {
+      const { gltf, result } = await exportJSON([createObject({
+        id: 'amb1',
+        name: 'Fill',
+        type: 'ambientLight',
+        lightProps: { color: '#ff0000', intensity: 0.5, distance: 0, decay: 0, castShadow: false },
+      })]);
+      const node = gltf.nodes.find((n: any) => n.name === 'Fill');
+
+      expect(node.extras.ambientLight).toEqual({ color: [1, 0, 0], intensity: 0.5 });
+      expect(node.extensions).toBeUndefined();
+      expect(result.report!.warnings.map(warning => warning.code)).toEqual(['unsupported-light']);
+    });
+  });
+
+  describe('Levels of Detail', () => {
+    const lodOptions = {
+      generateLODs: true,
+      lodLevels: [
+        { ratio: 1, screenCoverage: 0.5 },
+        { ratio: 0.5, screenCoverage: 0.2 },
+        { ratio: 0.25, screenCoverage: 0.05 },
+      ],
+      format: 'gltf' as const,
+      binary: false,
+    };
+    let sphere: SceneObject;
+
+    beforeEach(() => {
+      sphere = {
+        ...mockObjects[0],
+        id: 'sphere1',
+        name: 'Sphere1',
+        type: 'sphere',
+        geometryParams: { radius: 1, widthSegments: 16, heightSegments: 12 },
+      } as SceneObject;
+      delete (sphere as any).geometry;
+    });
+
+    test('should write lower levels as an MSFT_lod chain with screen coverage', async () => {
+      const result = await exportManager.exportScene([sphere], mockAnimations, {
+        ...mockOptions,
+        ...lodOptions,
+        lodOutput: 'msft-lod',
+      });
+      const gltf = JSON.parse(await (result.data as Blob).text());
+      const base = gltf.nodes.find((node: any) => node.name === 'Sphere1');
+      const levels = base.extensions.MSFT_lod.ids.map((id: number) => gltf.nodes[id]);
+
+      expect(levels.map((node: any) => node.name)).toEqual(['Sphere1_LOD1', 'Sphere1_LOD2']);
+      expect(new Set([base.mesh, ...levels.map((node: any) => node.mesh)]).size).toBe(3);
+      expect(base.extras.MSFT_screencoverage).toEqual([0.5, 0.2, 0.05]);
+      expect(gltf.scenes[0].nodes).not.toContain(base.extensions.MSFT_lod.ids[0]);
+      expect(gltf.extensionsUsed).toContain('MSFT_lod');
+      expect(gltf.extensionsRequired || []).not.toContain('MSFT_lod');
+      expect(result.report!.validation).toEqual({ valid: true, issues: [] });
+
+      const [lod0, lod1, lod2] = result.report!.lods[0].triangles;
+      expect(result.report!.lods[0].subject).toBe('Sphere1');
+      expect(lod0).toBe(new THREE.SphereGeometry(1, 16, 12).index!.count / 3);
+      expect(lod1).toBeLessThan(lod0);
+      expect(lod2).toBeLessThan(lod1);
+    });
+
+    test('should write lower levels as sibling _LOD nodes', async () => {
+      const result = await exportManager.exportScene([sphere], mockAnimations, {
+        ...mockOptions,
+        ...lodOptions,
+        lodOutput: 'nodes',
+      });
+      const gltf = JSON.parse(await (result.data as Blob).text());
+      const roots = gltf.scenes[0].nodes.map((id: number) => gltf.nodes[id]);
+
+      expect(roots.map((node: any) => node.name)).toEqual(['Sphere1_LOD0', 'Sphere1_LOD1', 'Sphere1_LOD2']);
+      expect(roots.map((node: any) => node.extras.screenCoverage)).toEqual([0.5, 0.2, 0.05]);
+      expect(roots.every((node: any) => node.mesh !== undefined)).toBe(true);
+      expect(gltf.extensionsUsed || []).not.toContain('MSFT_lod');
+    });
+
+    test('should quantize lower levels on the grid of LOD0', async () => {
+      const result = await exportManager.exportScene([sphere], mockAnimations, {
+        ...mockOptions,
+        ...lodOptions,
+        lodOutput: 'msft-lod',
+        useMeshQuantization: true,
+        quantizePositionBits: 14,
+        quantizeNormalBits: 8,
+        quantizeTexcoordBits: 12,
+      });
+      const gltf = JSON.parse(await (result.data as Blob).text());
+      const holder = gltf.nodes.find((node: any) => node.extensions?.MSFT_lod);
+      const lod2 = gltf.nodes[holder.extensions.MSFT_lod.ids[1]];
+
+      expect(holder.name).toBe('Sphere1');
+      expect(lod2.matrix).toEqual(holder.matrix);
+      expect(gltf.accessors[gltf.meshes[lod2.mesh].primitives[0].attributes.POSITION].componentType).toBe(5123);
+      expect(result.report!.validation).toEqual({ valid: true, issues: [] });
+    });
+
+    test('should not generate LODs for other formats', async () => {
+      const result = await exportManager.exportScene([sphere], mockAnimations, {
+        ...mockOptions,
+        ...lodOptions,
+        format: 'obj',
+      });
+
+      expect(result.report!.lods).toEqual([]);
+    });
+  });
+
+  describe('Textures', () => {
+    /** Sources are 4KB; encoded images take a byte per pixel */
+    const codec: TextureCodec = {
+      fetch: async () => new Uint8Array(4096),
+      decode: async () => ({ width: 64, height: 64, data: new Uint8ClampedArray(64 * 64 * 4) }),
+      encodeImage: async (pixels) => new Uint8Array(pixels.width * pixels.height),
+      encodeKTX2: async () => {
+        throw new Error('Basis encoder unavailable');
+      },
+    };
+
+    beforeEach(() => {
+      useMaterialsStore.setState({ materials: new Map(), objectMaterials: new Map(), textures: new Map() });
+      const store = useMaterialsStore.getState();
+      store.addTexture({
+        id: 'tex1', name: 'Bricks', type: 'albedo', url: 'data:image/png;base64,', width: 64, height: 64,
+        size: 4096, format: 'png', createdAt: 0,
+      });
+      const material = store.createMaterial('Brick');
+      store.updateMaterial(material.id, { albedoMap: 'tex1' });
+      store.assignMaterialToObject('obj1', material.id);
+
+      exportManager = new ExportManager(storeExportSource, codec);
+    });
+
+    test('should embed resized WebP textures and report the saving', async () => {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, {
+        ...mockOptions,
+        textureCompression: 'webp',
+        maxTextureSize: 32,
+      });
+      const report = result.report!;
+
+      expect(report.validation).toEqual({ valid: true, issues: [] });
+      expect(report.counts.textures).toBe(1);
+      expect(report.textureBytes).toEqual({ original: 4096, exported: 32 * 32 });
+    });
+
+    test('should reference WebP images through EXT_texture_webp', async () => {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, {
+        ...mockOptions,
+        format: 'gltf',
+        binary: false,
+        textureCompression: 'webp',
+        generateMipmaps: true,
+      });
+      const gltf = JSON.parse(await (result.data as Blob).text());
+
+      expect(gltf.extensionsRequired).toContain('EXT_texture_webp');
+      expect(gltf.textures[0].extensions.EXT_texture_webp.source).toBe(0);
+      expect(gltf.images[0].uri).toMatch(/^data:image\/webp;base64,/);
+      expect(gltf.samplers[0].minFilter).toBe(9987);
+      expect(gltf.materials[0].pbrMetallicRoughness.baseColorTexture.index).toBe(0);
+    });
+
+    test('should embed the textures of selected objects in a selection-only export', async () => {
+      useObjectsStore.setState({ selectedIds: ['obj1'] });
+
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, {
+        ...mockOptions,
+        exportSelectionOnly: true,
+        textureCompression: 'webp',
+      });
+
+      expect(result.report!.counts.textures).toBe(1);
+    });
+
+    test('should warn and leave out textures that fail to encode', async () => {
+      const result = await exportManager.exportScene(mockObjects, mockAnimations, {
+        ...mockOptions,
+        textureCompression: 'ktx2',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.report!.counts.textures).toBe(0);
+      expect(result.report!.warnings).toEqual([
+        expect.objectContaining({ code: 'texture-failed', subject: 'Bricks' }),
+      ]);
+    });
+  });
+
   describe('Progress Callbacks', () => {
     test('should call onProgress callback during export', async () => {
       const onProgress = vi.fn();
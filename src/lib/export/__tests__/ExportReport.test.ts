@@ -0,0 +1,107 @@
+/**
+ * Export Report Tests
+ *
+ * Counts and warnings built from the scene handed to an exporter.
+ */
+
+import { describe, test, expect } from 'vitest';
+import * as THREE from 'three';
+import { buildExportReport, ExportReportInput } from '../ExportReport';
+
+function createInput(scene: THREE.Object3D, overrides: Partial<ExportReportInput> = {}): ExportReportInput {
+  return {
+    format: 'glb',
+    filename: 'scene.glb',
+    fileSize: 1024,
+    scene,
+    objects: [],
+    ...overrides,
+  };
+}
+
+function createTexture(width: number, height: number, name = ''): THREE.Texture {
+  const texture = new THREE.DataTexture(null, width, height);
+  texture.name = name;
+  return texture;
+}
+
+describe('ExportReport', () => {
+  test('should count nodes, meshes, shared materials and triangles', () => {
+    const scene = new THREE.Scene();
+    const material = new THREE.MeshStandardMaterial();
+    const group = new THREE.Group();
+    group.add(new THREE.Mesh(new THREE.BoxGeometry(), material));
+    group.add(new THREE.Mesh(new THREE.PlaneGeometry(), material));
+    scene.add(group, new THREE.PointLight());
+
+    const report = buildExportReport(createInput(scene));
+
+    expect(report.counts).toEqual({ nodes: 4, meshes: 2, materials: 1, textures: 0 });
+    expect(report.triangles).toBe(14);
+  });
+
+  test('should count non-indexed triangles', () => {
+    const scene = new THREE.Scene();
+    scene.add(new THREE.Mesh(new THREE.BoxGeometry().toNonIndexed()));
+
+    expect(buildExportReport(createInput(scene)).triangles).toBe(12);
+  });
+
+  test('should warn about lights glTF cannot represent', () => {
+    const scene = new THREE.Scene();
+    const lamp = new THREE.PointLight(0xffffff, 1, 0, 1);
+    lamp.name = 'Lamp';
+    const sky = new THREE.AmbientLight();
+    sky.name = 'Sky';
+    scene.add(lamp, sky, new THREE.SpotLight());
+
+    const warnings = buildExportReport(createInput(scene)).warnings;
+    const stlWarnings = buildExportReport(createInput(scene, { format: 'stl' })).warnings;
+
+    expect(warnings.map(warning => [warning.code, warning.subject])).toEqual([
+      ['light-decay', 'Lamp'],
+      ['unsupported-light', 'Sky'],
+    ]);
+    expect(stlWarnings).toEqual([]);
+  });
+
+  test('should total texture memory with mip chains and flag non-power-of-two sizes', () => {
+    const scene = new THREE.Scene();
+    const shared = createTexture(256, 256);
+    scene.add(
+      new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial({ map: shared, normalMap: shared })),
+      new THREE.Mesh(new THREE.BoxGeometry(), new THREE.MeshStandardMaterial({ map: createTexture(300, 128, 'Wood') }))
+    );
+
+    const report = buildExportReport(createInput(scene));
+
+    expect(report.counts.textures).toBe(2);
+    expect(report.textureMemory).toBe(Math.round((256 * 256 * 16) / 3) + Math.round((300 * 128 * 16) / 3));
+    expect(report.warnings).toEqual([
+      expect.objectContaining({ code: 'npot-texture', subject: 'Wood' }),
+    ]);
+  });
+
+  test('should warn about meshes without UVs except for print formats', () => {
+    const geometry = new THREE.BoxGeometry();
+    geometry.deleteAttribute('uv');
+    const mesh = new THREE.Mesh(geometry);
+    mesh.name = 'Unwrapped';
+    const scene = new THREE.Scene().add(mesh);
+
+    expect(buildExportReport(createInput(scene)).warnings).toEqual([
+      expect.objectContaining({ code: 'missing-uvs', subject: 'Unwrapped' }),
+    ]);
+    expect(buildExportReport(createInput(scene, { format: 'stl' })).warnings).toEqual([]);
+  });
+
+  test('should list animation durations', () => {
+    const clip = new THREE.AnimationClip('Walk', 1.5, [
+      new THREE.VectorKeyframeTrack('.position', [0, 1.5], [0, 0, 0, 0, 1, 0]),
+    ]);
+
+    const report = buildExportReport(createInput(new THREE.Scene(), { clips: [clip] }));
+
+    expect(report.animations).toEqual([{ name: 'Walk', duration: 1.5, tracks: 1 }]);
+  });
+});
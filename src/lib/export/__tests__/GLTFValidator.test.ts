@@ -0,0 +1,149 @@
+/**
+ * glTF Validator Tests
+ *
+ * Structural checks of GLB containers and glTF JSON.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { validateGLTF } from '../GLTFValidator';
+
+/**
+ * A triangle: one embedded buffer holding three VEC3 float positions
+ */
+function createTriangle(): any {
+  return {
+    asset: { version: '2.0' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0 }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 } }] }],
+    accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] }],
+    bufferViews: [{ buffer: 0, byteLength: 36 }],
+    buffers: [{ byteLength: 36, uri: `data:application/octet-stream;base64,${btoa('\0'.repeat(36))}` }],
+  };
+}
+
+/**
+ * Pack glTF JSON into a GLB container, moving its first buffer into a BIN chunk
+ */
+function packGLB(json: any, binLength: number): ArrayBuffer {
+  const buffers = [{ byteLength: json.buffers[0].byteLength }];
+  let jsonBytes = new TextEncoder().encode(JSON.stringify({ ...json, buffers }));
+  const padded = new Uint8Array(Math.ceil(jsonBytes.length / 4) * 4).fill(0x20);
+  padded.set(jsonBytes);
+  jsonBytes = padded;
+
+  const buffer = new ArrayBuffer(12 + 8 + jsonBytes.length + 8 + binLength);
+  const view = new DataView(buffer);
+  view.setUint32(0, 0x46546c67, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, buffer.byteLength, true);
+  view.setUint32(12, jsonBytes.length, true);
+  view.setUint32(16, 0x4e4f534a, true);
+  new Uint8Array(buffer, 20, jsonBytes.length).set(jsonBytes);
+  view.setUint32(20 + jsonBytes.length, binLength, true);
+  view.setUint32(24 + jsonBytes.length, 0x004e4942, true);
+  return buffer;
+}
+
+describe('GLTFValidator', () => {
+  test('should accept a well-formed GLB', () => {
+    expect(validateGLTF(packGLB(createTriangle(), 36))).toEqual({ valid: true, issues: [] });
+  });
+
+  test('should reject files without the GLB magic', () => {
+    const buffer = packGLB(createTriangle(), 36);
+    new DataView(buffer).setUint32(0, 0, true);
+
+    const report = validateGLTF(buffer);
+
+    expect(report.valid).toBe(false);
+    expect(report.issues[0].message).toMatch(/magic/);
+  });
+
+  test('should catch a BIN chunk shorter than its buffer', () => {
+    const report = validateGLTF(packGLB(createTriangle(), 24));
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(issue => issue.pointer)).toContain('/buffers/0/byteLength');
+  });
+
+  test('should point at out-of-range references', () => {
+    const gltf = createTriangle();
+    gltf.nodes[0].mesh = 3;
+    gltf.meshes[0].primitives[0].material = 0;
+
+    const report = validateGLTF(gltf);
+
+    expect(report.issues.map(issue => issue.pointer)).toEqual([
+      '/nodes/0/mesh',
+      '/meshes/0/primitives/0/material',
+    ]);
+  });
+
+  test('should catch accessors reading past their buffer view', () => {
+    const gltf = createTriangle();
+    gltf.accessors[0].count = 4;
+
+    const report = validateGLTF(JSON.stringify(gltf));
+
+    expect(report.valid).toBe(false);
+    expect(report.issues[0].pointer).toBe('/accessors/0');
+  });
+
+  test('should require min and max on positions and animation inputs', () => {
+    const gltf = createTriangle();
+    delete gltf.accessors[0].min;
+
+    expect(validateGLTF(gltf).issues[0].message).toMatch(/min and max/);
+  });
+
+  test('should catch nodes with two parents', () => {
+    const gltf = createTriangle();
+    gltf.nodes.push({ children: [0] }, { children: [0] });
+
+    const report = validateGLTF(gltf);
+
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0].pointer).toBe('/nodes/2/children/0');
+  });
+
+  test('should check MSFT_lod level references', () => {
+    const gltf = createTriangle();
+    gltf.nodes.push({ mesh: 0 });
+    gltf.nodes[0].extensions = { MSFT_lod: { ids: [1, 5] } };
+
+    const report = validateGLTF(gltf);
+
+    expect(report.issues.map(issue => issue.pointer)).toEqual(['/nodes/0/extensions/MSFT_lod/ids/1']);
+  });
+
+  test('should check embedded data URIs hold the whole buffer', () => {
+    const gltf = createTriangle();
+    gltf.buffers[0].uri = `data:application/octet-stream;base64,${btoa('\0'.repeat(12))}`;
+
+    expect(validateGLTF(gltf).issues[0].pointer).toBe('/buffers/0/byteLength');
+  });
+
+  test('should accept meshopt fallback buffers and check compressed ranges', () => {
+    const gltf = createTriangle();
+    gltf.buffers.push({ byteLength: 36, extensions: { EXT_meshopt_compression: { fallback: true } } });
+    gltf.bufferViews[0] = {
+      buffer: 1,
+      byteLength: 36,
+      extensions: { EXT_meshopt_compression: { buffer: 0, byteOffset: 0, byteLength: 20, byteStride: 12, count: 3, mode: 'ATTRIBUTES' } },
+    };
+
+    expect(validateGLTF(gltf)).toEqual({ valid: true, issues: [] });
+
+    gltf.bufferViews[0].extensions.EXT_meshopt_compression.byteLength = 40;
+    expect(validateGLTF(gltf).issues[0].pointer).toBe('/bufferViews/0/extensions/EXT_meshopt_compression');
+  });
+
+  test('should report JSON that does not parse', () => {
+    const report = validateGLTF('{ "asset": ');
+
+    expect(report.valid).toBe(false);
+    expect(report.issues[0].message).toMatch(/Invalid JSON/);
+  });
+});
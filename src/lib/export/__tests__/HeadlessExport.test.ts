@@ -0,0 +1,170 @@
+/**
+ * Headless Export Tests
+ *
+ * Exports serialized projects without reading the editor's stores.
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as THREE from 'three';
+import { exportProject, parseProjectFile, SerializedProject } from '../HeadlessExport';
+import { installFileReader } from '../NodeFileReader';
+import { serializeScene } from '../../../services/sceneSerializer';
+import { useObjectsStore } from '../../../stores/objectsStore';
+import { useMaterialsStore } from '../../../stores/materialsStore';
+import { useMorphTargetStore } from '../../../stores/morphTargetStore';
+
+function resetStores() {
+  useObjectsStore.setState({ objects: new Map(), selectedIds: [] });
+  useMaterialsStore.setState({ materials: new Map(), objectMaterials: new Map(), textures: new Map() });
+  useMorphTargetStore.setState({ shapeKeysByObject: new Map(), basePoses: new Map() });
+}
+
+/**
+ * Save a scene the way the editor does, then clear the stores
+ */
+function saveProject(build: () => void): SerializedProject {
+  build();
+  const project = JSON.parse(JSON.stringify(serializeScene()));
+  resetStores();
+  return project;
+}
+
+function decodeJSON(data: Uint8Array): any {
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+describe('HeadlessExport', () => {
+  beforeEach(() => {
+    resetStores();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('exports a saved project to GLB without the stores', async () => {
+    const project = saveProject(() => {
+      useObjectsStore.getState().createPrimitive('box');
+    });
+
+    const result = await exportProject(project, { format: 'glb' });
+
+    expect(result.filename).toBe('scene.glb');
+    expect(new TextDecoder().decode(result.data.subarray(0, 4))).toBe('glTF');
+    expect(useObjectsStore.getState().objects.size).toBe(0);
+  });
+
+  test('uses the materials saved with the project', async () => {
+    const project = saveProject(() => {
+      const box = useObjectsStore.getState().createPrimitive('box');
+      const material = useMaterialsStore.getState().createMaterial('Red');
+      useMaterialsStore.getState().updateMaterial(material.id, { albedo: '#ff0000' });
+      useMaterialsStore.getState().assignMaterialToObject(box.id, material.id);
+    });
+
+    const gltf = decodeJSON((await exportProject(project, { format: 'gltf' })).data);
+
+    expect(gltf.materials).toHaveLength(1);
+    expect(gltf.materials[0].pbrMetallicRoughness.baseColorFactor.slice(0, 3)).toEqual([1, 0, 0]);
+  });
+
+  test('restores saved mesh topology', async () => {
+    const project = saveProject(() => {
+      const box = useObjectsStore.getState().createPrimitive('box');
+      useObjectsStore.getState().initializeGeometryFromBufferGeometry(box.id, new THREE.BoxGeometry(2, 2, 2));
+    });
+
+    const stl = new TextDecoder().decode((await exportProject(project, { format: 'stl', binary: false, unit: 'm' })).data);
+
+    // Corners of the saved 2m box, not the 1m primitive its parameters describe
+    const coordinates = [...stl.matchAll(/vertex (\S+) (\S+) (\S+)/g)].flatMap(match => match.slice(1).map(Number));
+    expect(stl.match(/facet normal/g)).toHaveLength(12);
+    coordinates.forEach(value => expect(Math.abs(value)).toBeCloseTo(1));
+  });
+
+  test('exports shape keys saved as plain JSON', async () => {
+    const project = saveProject(() => {
+      const box = useObjectsStore.getState().createPrimitive('box');
+      const geometry = new THREE.BoxGeometry(1, 1, 1);
+      const positions = geometry.getAttribute('position').array as Float32Array;
+      useMorphTargetStore.getState().storeBasePose(box.id, geometry);
+      useMorphTargetStore.setState({
+        shapeKeysByObject: new Map([[box.id, [{
+          id: 'sk1',
+          name: 'Tall',
+          objectId: box.id,
+          positions: positions.map((value, i) => (i % 3 === 1 ? value * 2 : value)),
+          value: 0.5,
+          createdAt: 0,
+        }]]]),
+      });
+    });
+
+    const gltf = decodeJSON((await exportProject(project, { format: 'gltf' })).data);
+
+    expect(gltf.meshes[0].primitives[0].targets).toHaveLength(1);
+    expect(gltf.meshes[0].weights).toEqual([0.5]);
+  });
+
+  test('writes GLB where FileReader is unavailable once the Node reader is installed', async () => {
+    vi.stubGlobal('FileReader', undefined);
+    installFileReader();
+    const project = saveProject(() => {
+      useObjectsStore.getState().createPrimitive('sphere');
+    });
+
+    const result = await exportProject(project, { format: 'glb' });
+
+    expect(new TextDecoder().decode(result.data.subarray(0, 4))).toBe('glTF');
+  });
+
+  test('reports blobs the Node reader fails to read', async () => {
+    vi.stubGlobal('FileReader', undefined);
+    installFileReader();
+    const blob = new Blob(['data']);
+    vi.spyOn(blob, 'arrayBuffer').mockRejectedValue(new Error('read failed'));
+
+    const reader = new FileReader();
+    const events: string[] = [];
+    await new Promise<void>((resolve) => {
+      reader.onerror = () => events.push('error');
+      reader.onloadend = () => {
+        events.push('loadend');
+        resolve();
+      };
+      reader.readAsArrayBuffer(blob);
+    });
+
+    expect(events).toEqual(['error', 'loadend']);
+    expect(reader.error?.message).toBe('read failed');
+    expect(reader.result).toBeNull();
+  });
+
+  test('leaves the pipeline log out of quiet exports', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const project = saveProject(() => {
+      useObjectsStore.getState().createPrimitive('box');
+    });
+    log.mockClear();
+
+    await exportProject(project, { format: 'glb', quiet: true });
+    expect(log).not.toHaveBeenCalled();
+    expect(console.log).toBe(log);
+
+    await exportProject(project, { format: 'glb' });
+    expect(log).toHaveBeenCalled();
+    log.mockRestore();
+  });
+
+  test('rejects data that is not a serialized scene', async () => {
+    await expect(exportProject({} as SerializedProject, { format: 'obj' })).rejects.toThrow(/objects array/);
+  });
+
+  test('reads .quar files with string or object scene data', () => {
+    const scene = { objects: [], materials: { materials: [], objectMaterials: [] } };
+
+    expect(parseProjectFile(JSON.stringify(scene))).toEqual(scene);
+    expect(parseProjectFile(JSON.stringify({ version: '1.0', scene, assets: [] }))).toEqual(scene);
+    expect(parseProjectFile(JSON.stringify({ version: '1.0', scene: JSON.stringify(scene), assets: [] }))).toEqual(scene);
+  });
+});
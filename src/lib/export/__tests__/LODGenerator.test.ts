@@ -0,0 +1,58 @@
+/**
+ * LOD Generator Tests
+ *
+ * Levels of detail decimated from an exported mesh's geometry.
+ */
+
+import { describe, test, expect } from 'vitest';
+import * as THREE from 'three';
+import { generateLODGeometries, lodNodeName } from '../LODGenerator';
+import { countTriangles } from '../ExportReport';
+
+const LEVELS = [
+  { ratio: 1, screenCoverage: 0.5 },
+  { ratio: 0.5, screenCoverage: 0.2 },
+  { ratio: 0.25, screenCoverage: 0.05 },
+];
+
+function positionKeys(geometry: THREE.BufferGeometry): Set<string> {
+  const position = geometry.getAttribute('position');
+  return new Set(Array.from({ length: position.count }, (_, i) =>
+    [position.getX(i), position.getY(i), position.getZ(i)].map(value => value.toFixed(4)).join(',')
+  ));
+}
+
+describe('LODGenerator', () => {
+  test('should decimate each level to its share of the base triangles', () => {
+    const sphere = new THREE.SphereGeometry(1, 16, 12);
+    const base = countTriangles(sphere);
+
+    const geometries = generateLODGeometries(sphere, LEVELS);
+
+    // A collapse on a closed mesh removes two triangles, so an odd target can be missed by one
+    expect(geometries).toHaveLength(2);
+    expect(Math.abs(countTriangles(geometries[0]) - Math.round(base * 0.5))).toBeLessThanOrEqual(1);
+    expect(Math.abs(countTriangles(geometries[1]) - Math.round(base * 0.25))).toBeLessThanOrEqual(1);
+  });
+
+  test('should keep vertices of the previous level, inside its bounds', () => {
+    const sphere = new THREE.SphereGeometry(1, 16, 12);
+    const [lod1, lod2] = generateLODGeometries(sphere, LEVELS);
+    const bounds = new THREE.Box3().setFromBufferAttribute(sphere.getAttribute('position') as THREE.BufferAttribute);
+
+    const lod1Positions = positionKeys(lod1);
+    positionKeys(lod2).forEach(key => expect(lod1Positions.has(key)).toBe(true));
+    expect(bounds.containsBox(new THREE.Box3().setFromBufferAttribute(lod2.getAttribute('position') as THREE.BufferAttribute))).toBe(true);
+    expect(lod2.getAttribute('normal')).toBeDefined();
+    expect(lod2.getAttribute('uv')).toBeDefined();
+  });
+
+  test('should generate nothing for a single level', () => {
+    expect(generateLODGeometries(new THREE.SphereGeometry(1, 8, 6), LEVELS.slice(0, 1))).toEqual([]);
+  });
+
+  test('should name levels with the _LOD suffix', () => {
+    expect(lodNodeName('Rock', 0)).toBe('Rock_LOD0');
+    expect(lodNodeName('Rock', 2)).toBe('Rock_LOD2');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Mesh Quantization Tests
+ *
+ * Integer vertex attributes and the node transform that restores positions.
+ */
+
+import { describe, test, expect } from 'vitest';
+import * as THREE from 'three';
+import { quantizeMesh } from '../MeshQuantization';
+
+const BITS = { position: 14, normal: 8, texcoord: 12 };
+
+/**
+ * World space positions of the mesh's geometry (or of the quantized child holding it)
+ */
+function worldPositions(mesh: THREE.Mesh): number[][] {
+  const target = (mesh.children[0] as THREE.Mesh | undefined) ?? mesh;
+  target.updateWorldMatrix(true, false);
+  const position = target.geometry.getAttribute('position');
+  const vertex = new THREE.Vector3();
+  return Array.from({ length: position.count }, (_, i) =>
+    vertex.fromBufferAttribute(position, i).applyMatrix4(target.matrixWorld).toArray()
+  );
+}
+
+function expectClose(actual: number[][], expected: number[][], precision: number): void {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((point, i) => point.forEach((value, c) => expect(value).toBeCloseTo(expected[i][c], precision)));
+}
+
+describe('MeshQuantization', () => {
+  test('should store positions as integers and move the grid into a child node', () => {
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry(2, 1, 1));
+    mesh.position.set(1, 2, 3);
+    mesh.scale.set(2, 1, 1);
+    const expected = worldPositions(mesh);
+
+    quantizeMesh(mesh, BITS);
+
+    const quantized = mesh.children[0] as THREE.Mesh;
+    expect(mesh.geometry.getAttribute('position')).toBeUndefined();
+    expect(quantized.geometry.getAttribute('position').array).toBeInstanceOf(Uint16Array);
+    expect(quantized.scale.x).toBeCloseTo(2 / (2 ** 14 - 1));
+    expectClose(worldPositions(mesh), expected, 3);
+  });
+
+  test('should store normals and unit-range UVs as normalized integers', () => {
+    const mesh = new THREE.Mesh(new THREE.BoxGeometry());
+    quantizeMesh(mesh, { ...BITS, texcoord: 8 });
+
+    const geometry = (mesh.children[0] as THREE.Mesh).geometry;
+    const normal = geometry.getAttribute('normal') as THREE.BufferAttribute;
+    const uv = geometry.getAttribute('uv') as THREE.BufferAttribute;
+
+    expect(normal.array).toBeInstanceOf(Int8Array);
+    expect(normal.normalized).toBe(true);
+    expect(normal.getX(0)).toBeCloseTo(1, 2);
+    expect(uv.array).toBeInstanceOf(Uint8Array);
+    expect(uv.normalized).toBe(true);
+  });
+
+  test('should spread reduced bit depths over the storage range', () => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0], 3));
+    geometry.setAttribute('uv', new THREE.Float32BufferAttribute([1, 0.5], 2));
+    const mesh = new THREE.Mesh(geometry);
+
+    quantizeMesh(mesh, { ...BITS, texcoord: 4 });
+
+    const uv = (mesh.children[0] as THREE.Mesh).geometry.getAttribute('uv') as THREE.BufferAttribute;
+    // 0.5 rounds to step 8 of 15
+    expect(Array.from(uv.array)).toEqual([255, 136]);
+  });
+
+  test('should keep tiling UVs and skinned positions float', () => {
+    const geometry = new THREE.PlaneGeometry();
+    (geometry.getAttribute('uv') as THREE.BufferAttribute).setX(0, 2);
+    const mesh = new THREE.SkinnedMesh(geometry);
+
+    quantizeMesh(mesh, BITS);
+
+    expect(mesh.children).toHaveLength(0);
+    expect(mesh.geometry.getAttribute('uv').array).toBeInstanceOf(Float32Array);
+    expect(mesh.geometry.getAttribute('position').array).toBeInstanceOf(Float32Array);
+    expect(mesh.geometry.getAttribute('normal').array).toBeInstanceOf(Int8Array);
+  });
+
+  test('should convert morph targets to the grid units', () => {
+    const geometry = new THREE.BoxGeometry();
+    const raised = (geometry.getAttribute('position') as THREE.BufferAttribute).clone();
+    for (let i = 0; i < raised.count; i++) raised.setY(i, raised.getY(i) + 1);
+    geometry.morphAttributes.position = [raised];
+    const mesh = new THREE.Mesh(geometry);
+
+    quantizeMesh(mesh, BITS);
+
+    const quantized = mesh.children[0] as THREE.Mesh;
+    const base = quantized.geometry.getAttribute('position');
+    const target = quantized.geometry.morphAttributes.position[0];
+    // Absolute targets sit a whole box height (the grid's full range) above the base
+    expect((target.getY(0) - base.getY(0)) * quantized.scale.y).toBeCloseTo(1, 3);
+    expect(quantized.morphTargetInfluences).toEqual([0]);
+  });
+
+  test('should leave the source geometry untouched', () => {
+    const geometry = new THREE.BoxGeometry();
+    const mesh = new THREE.Mesh(geometry);
+
+    quantizeMesh(mesh, BITS);
+
+    expect(geometry.getAttribute('position').array).toBeInstanceOf(Float32Array);
+    expect(geometry.getAttribute('normal').array).toBeInstanceOf(Float32Array);
+  });
+});
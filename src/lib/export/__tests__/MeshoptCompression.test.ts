@@ -0,0 +1,139 @@
+/**
+ * Meshopt Compression Tests
+ *
+ * Vertex reordering and EXT_meshopt_compression of GLTFExporter output,
+ * read back with three.js' meshopt decoder.
+ */
+
+import { describe, test, expect, beforeAll } from 'vitest';
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
+import { MeshoptEncoder, compressGLTF, loadMeshoptEncoder, optimizeVertexOrder } from '../MeshoptCompression';
+import { validateGLTF } from '../GLTFValidator';
+
+/**
+ * Each triangle as a sorted list of its corner positions, so orders can be compared
+ */
+function triangleSet(geometry: THREE.BufferGeometry, start = 0, count = Infinity): string[] {
+  const index = geometry.getIndex()!;
+  const position = geometry.getAttribute('position');
+  const end = Math.min(start + count, index.count);
+  const triangles: string[] = [];
+
+  for (let i = start; i < end; i += 3) {
+    const corners = [0, 1, 2].map(k => new THREE.Vector3().fromBufferAttribute(position, index.getX(i + k)).toArray().join(','));
+    triangles.push(corners.sort().join('|'));
+  }
+  return triangles.sort();
+}
+
+function exportScene(scene: THREE.Object3D, binary: boolean): Promise<any> {
+  return new GLTFExporter().parseAsync(scene, { binary });
+}
+
+function loadGLTF(data: ArrayBuffer | string): Promise<any> {
+  const loader = new GLTFLoader().setMeshoptDecoder(MeshoptDecoder);
+  return new Promise((resolve, reject) => loader.parse(data, '', resolve, reject));
+}
+
+describe('MeshoptCompression', () => {
+  let encoder: MeshoptEncoder;
+
+  beforeAll(async () => {
+    encoder = await loadMeshoptEncoder();
+  });
+
+  describe('optimizeVertexOrder', () => {
+    test('should keep every triangle and material group', () => {
+      const geometry = new THREE.BoxGeometry(1, 1, 1, 4, 4, 4);
+
+      const optimized = optimizeVertexOrder(geometry, encoder);
+
+      expect(optimized).not.toBe(geometry);
+      expect(optimized.groups).toEqual(geometry.groups);
+      for (const group of geometry.groups) {
+        expect(triangleSet(optimized, group.start, group.count)).toEqual(triangleSet(geometry, group.start, group.count));
+      }
+    });
+
+    test('should number vertices in the order they are drawn', () => {
+      const optimized = optimizeVertexOrder(new THREE.SphereGeometry(1, 8, 6), encoder);
+      const index = optimized.getIndex()!;
+
+      let highest = -1;
+      for (let i = 0; i < index.count; i++) {
+        expect(index.getX(i)).toBeLessThanOrEqual(highest + 1);
+        highest = Math.max(highest, index.getX(i));
+      }
+    });
+
+    test('should remap every attribute with the vertices', () => {
+      const geometry = new THREE.PlaneGeometry(1, 1, 3, 3);
+
+      const optimized = optimizeVertexOrder(geometry, encoder);
+      const position = optimized.getAttribute('position');
+      const uv = optimized.getAttribute('uv');
+
+      for (let i = 0; i < position.count; i++) {
+        // PlaneGeometry's UVs follow its positions
+        expect(uv.getX(i)).toBeCloseTo(position.getX(i) + 0.5);
+        expect(uv.getY(i)).toBeCloseTo(position.getY(i) + 0.5);
+      }
+    });
+
+    test('should leave non-indexed geometry as is', () => {
+      const geometry = new THREE.BoxGeometry().toNonIndexed();
+
+      expect(optimizeVertexOrder(geometry, encoder)).toBe(geometry);
+    });
+  });
+
+  describe('compressGLTF', () => {
+    function createScene(): THREE.Scene {
+      const scene = new THREE.Scene();
+      const mesh = new THREE.Mesh(new THREE.SphereGeometry(1, 16, 12), new THREE.MeshStandardMaterial());
+      mesh.position.set(0, 1, 0);
+      scene.add(mesh);
+      return scene;
+    }
+
+    test('should compress GLB buffer views behind a fallback buffer', async () => {
+      const glb = await exportScene(createScene(), true);
+
+      const compressed = compressGLTF(glb, encoder);
+      const { json } = (await loadGLTF(compressed)).parser;
+
+      expect(compressed.byteLength).toBeLessThan(glb.byteLength);
+      expect(json.extensionsRequired).toContain('EXT_meshopt_compression');
+      expect(json.buffers[1]).toEqual({
+        byteLength: expect.any(Number),
+        extensions: { EXT_meshopt_compression: { fallback: true } },
+      });
+      expect(json.bufferViews.every((view: any) => view.buffer === 1 && view.extensions.EXT_meshopt_compression)).toBe(true);
+      expect(validateGLTF(compressed)).toEqual({ valid: true, issues: [] });
+    });
+
+    test('should decode to the same geometry', async () => {
+      const scene = createScene();
+      const source = (scene.children[0] as THREE.Mesh).geometry;
+
+      const loaded = await loadGLTF(compressGLTF(await exportScene(scene, true), encoder));
+      const mesh = loaded.scene.getObjectByProperty('type', 'Mesh') as THREE.Mesh;
+
+      expect(mesh.position.y).toBe(1);
+      expect(triangleSet(mesh.geometry)).toEqual(triangleSet(source));
+    });
+
+    test('should compress the embedded buffer of glTF JSON', async () => {
+      const gltf = compressGLTF(await exportScene(createScene(), false), encoder) as any;
+
+      expect(gltf.buffers[0].uri).toMatch(/^data:application\/octet-stream;base64,/);
+      expect(validateGLTF(gltf)).toEqual({ valid: true, issues: [] });
+
+      const loaded = await loadGLTF(JSON.stringify(gltf));
+      expect(loaded.scene.getObjectByProperty('type', 'Mesh')).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Skeleton Exporter Tests
+ */
+
+import { describe, test, expect } from 'vitest';
+import * as THREE from 'three';
+import { SkeletonExporter } from '../SkeletonExporter';
+import { SceneObject, SkinData } from '../../../stores/objectsStore';
+
+function createSkinData(weights: SkinData['weights']): SkinData {
+  return {
+    armatureId: 'armature1',
+    weights,
+    bindMatrix: new THREE.Matrix4().toArray(),
+    bindPose: new Map(),
+  };
+}
+
+describe('SkeletonExporter', () => {
+  describe('Skin Attributes', () => {
+    const boneIndices = new Map(['a', 'b', 'c', 'd', 'e'].map((id, index) => [id, index]));
+
+    test('should keep the four strongest influences, renormalized', () => {
+      const skinData = createSkinData({
+        0: [
+          { boneId: 'a', weight: 0.1 },
+          { boneId: 'b', weight: 0.3 },
+          { boneId: 'c', weight: 0.2 },
+          { boneId: 'd', weight: 0.2 },
+          { boneId: 'e', weight: 0.2 },
+        ],
+      });
+
+      const { skinIndex, skinWeight } = SkeletonExporter.buildSkinAttributes(skinData, 1, boneIndices);
+
+      expect(Array.from(skinIndex.array)).toEqual([1, 2, 3, 4]);
+      expect(skinWeight.getX(0)).toBeCloseTo(0.3 / 0.9);
+      const total = skinWeight.getX(0) + skinWeight.getY(0) + skinWeight.getZ(0) + skinWeight.getW(0);
+      expect(total).toBeCloseTo(1);
+    });
+
+    test('should bind unweighted vertices to the first joint', () => {
+      const skinData = createSkinData({ 1: [{ boneId: 'missing', weight: 1 }] });
+
+      const { skinIndex, skinWeight } = SkeletonExporter.buildSkinAttributes(skinData, 2, boneIndices);
+
+      expect(Array.from(skinIndex.array)).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+      expect(Array.from(skinWeight.array)).toEqual([1, 0, 0, 0, 1, 0, 0, 0]);
+    });
+
+    test('should read weights stored as a Map', () => {
+      const weights = new Map([[0, [{ boneId: 'c', weight: 2 }, { boneId: 'a', weight: 2 }]]]);
+      const skinData = createSkinData(weights as unknown as SkinData['weights']);
+
+      const { skinIndex, skinWeight } = SkeletonExporter.buildSkinAttributes(skinData, 1, boneIndices);
+
+      expect(Array.from(skinIndex.array).slice(0, 2).sort()).toEqual([0, 2]);
+      expect(Array.from(skinWeight.array)).toEqual([0.5, 0.5, 0, 0]);
+    });
+  });
+
+  describe('Bone Order', () => {
+    test('should list bones parents first', () => {
+      const objects = [
+        { id: 'child', type: 'bone', parentId: 'root' },
+        { id: 'mesh', type: 'box', parentId: 'armature1' },
+        { id: 'root', type: 'bone', parentId: 'armature1' },
+        { id: 'armature1', type: 'armature', parentId: null },
+      ] as SceneObject[];
+
+      const bones = SkeletonExporter.collectArmatureBones('armature1', objects);
+
+      expect(bones.map(bone => bone.id)).toEqual(['root', 'child']);
+    });
+  });
+
+});
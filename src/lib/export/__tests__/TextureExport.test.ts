@@ -0,0 +1,167 @@
+/**
+ * Texture Export Tests
+ *
+ * Sizing, resampling, channel packing and encoding of material textures.
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import {
+  TextureExporter,
+  TextureCodec,
+  TexturePixels,
+  fitTextureSize,
+  resizePixels,
+  packMetallicRoughness,
+} from '../TextureExport';
+import { Material, Texture } from '../../../stores/materialsStore';
+
+function createPixels(width: number, height: number, value: (x: number, y: number) => number): TexturePixels {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.fill(value(x, y), (y * width + x) * 4, (y * width + x) * 4 + 4);
+    }
+  }
+  return { width, height, data };
+}
+
+function createTexture(id: string, width: number, height: number, format = 'png'): Texture {
+  return { id, name: id, type: 'albedo', url: `data:${id}`, width, height, size: 0, format, createdAt: 0 };
+}
+
+function createMaterial(overrides: Partial<Material> = {}): Material {
+  return {
+    id: 'mat',
+    name: 'Material',
+    type: 'standard',
+    albedo: '#ffffff',
+    metallic: 0,
+    roughness: 0.5,
+    emission: '#000000',
+    emissionIntensity: 0,
+    albedoMap: null,
+    normalMap: null,
+    roughnessMap: null,
+    metallicMap: null,
+    emissionMap: null,
+    aoMap: null,
+    displacementMap: null,
+    opacity: 1,
+    transparent: false,
+    doubleSided: false,
+    createdAt: 0,
+    modifiedAt: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Codec whose source files are 100 bytes and whose encoded images take a byte per pixel
+ */
+function createCodec(textures: Texture[]): TextureCodec {
+  return {
+    fetch: vi.fn(async () => new Uint8Array(100)),
+    decode: vi.fn(async (_data, _mimeType) => {
+      const texture = textures[0];
+      return createPixels(texture.width, texture.height, () => 128);
+    }),
+    encodeImage: vi.fn(async (pixels) => new Uint8Array(pixels.width * pixels.height)),
+    encodeKTX2: vi.fn(async (pixels) => new Uint8Array(pixels.width * pixels.height)),
+  };
+}
+
+describe('TextureExport', () => {
+  describe('fitTextureSize', () => {
+    test('should scale the longest side down to the maximum size', () => {
+      expect(fitTextureSize(4096, 2048, { maxSize: 1024, mipmaps: false })).toEqual({ width: 1024, height: 512 });
+      expect(fitTextureSize(300, 200, { maxSize: 1024, mipmaps: false })).toEqual({ width: 300, height: 200 });
+      expect(fitTextureSize(3000, 200, { maxSize: 0, mipmaps: false })).toEqual({ width: 3000, height: 200 });
+    });
+
+    test('should round down to powers of two for mipmaps', () => {
+      expect(fitTextureSize(300, 200, { maxSize: 0, mipmaps: true })).toEqual({ width: 256, height: 128 });
+      expect(fitTextureSize(3000, 1500, { maxSize: 2048, mipmaps: true })).toEqual({ width: 2048, height: 1024 });
+    });
+  });
+
+  test('should average the pixels covered when downsizing', () => {
+    const pixels = createPixels(4, 2, (x) => (x % 2 ? 200 : 100));
+
+    const resized = resizePixels(pixels, 2, 1);
+
+    expect(resized.width).toBe(2);
+    expect(resized.height).toBe(1);
+    expect(Array.from(resized.data)).toEqual([150, 150, 150, 150, 150, 150, 150, 150]);
+  });
+
+  test('should pack roughness into green and metalness into blue', () => {
+    const metallic = createPixels(1, 1, () => 10);
+    const roughness = createPixels(1, 1, () => 20);
+
+    expect(Array.from(packMetallicRoughness(metallic, roughness, 1, 1).data)).toEqual([255, 20, 10, 255]);
+    expect(Array.from(packMetallicRoughness(null, roughness, 1, 1).data)).toEqual([255, 20, 255, 255]);
+  });
+
+  describe('TextureExporter', () => {
+    test('should embed PNG sources as they are without compression', async () => {
+      const textures = [createTexture('albedo', 64, 64)];
+      const codec = createCodec(textures);
+      const exporter = new TextureExporter(codec, { compression: 'none', maxSize: 0, mipmaps: false }, id => textures.find(t => t.id === id));
+
+      const result = await exporter.exportMaterialTextures(createMaterial({ albedoMap: 'albedo' }), vi.fn());
+
+      expect(result.baseColor).toMatchObject({ mimeType: 'image/png', width: 64, height: 64, originalBytes: 100 });
+      expect(codec.decode).not.toHaveBeenCalled();
+    });
+
+    test('should resize and encode as WebP', async () => {
+      const textures = [createTexture('albedo', 64, 32)];
+      const codec = createCodec(textures);
+      const exporter = new TextureExporter(codec, { compression: 'webp', maxSize: 16, mipmaps: true }, id => textures.find(t => t.id === id));
+
+      const result = await exporter.exportMaterialTextures(createMaterial({ albedoMap: 'albedo' }), vi.fn());
+
+      expect(result.baseColor).toMatchObject({ mimeType: 'image/webp', width: 16, height: 8, mipmaps: true });
+      expect(result.baseColor!.data.byteLength).toBe(128);
+      expect(codec.encodeImage).toHaveBeenCalledWith(expect.objectContaining({ width: 16, height: 8 }), 'image/webp', expect.any(Number));
+    });
+
+    test('should encode KTX2 with sRGB only for color slots', async () => {
+      const textures = [createTexture('color', 8, 8), createTexture('bump', 8, 8)];
+      const codec = createCodec(textures);
+      const exporter = new TextureExporter(codec, { compression: 'ktx2', maxSize: 0, mipmaps: false }, id => textures.find(t => t.id === id));
+
+      const result = await exporter.exportMaterialTextures(createMaterial({ albedoMap: 'color', normalMap: 'bump' }), vi.fn());
+
+      expect(result.baseColor?.mimeType).toBe('image/ktx2');
+      expect(codec.encodeKTX2).toHaveBeenNthCalledWith(1, expect.anything(), { srgb: true, mipmaps: false });
+      expect(codec.encodeKTX2).toHaveBeenNthCalledWith(2, expect.anything(), { srgb: false, mipmaps: false });
+    });
+
+    test('should encode a texture shared between materials once', async () => {
+      const textures = [createTexture('albedo', 8, 8)];
+      const codec = createCodec(textures);
+      const exporter = new TextureExporter(codec, { compression: 'webp', maxSize: 0, mipmaps: false }, id => textures.find(t => t.id === id));
+
+      const first = await exporter.exportMaterialTextures(createMaterial({ albedoMap: 'albedo' }), vi.fn());
+      const second = await exporter.exportMaterialTextures(createMaterial({ id: 'other', albedoMap: 'albedo' }), vi.fn());
+
+      expect(second.baseColor).toBe(first.baseColor);
+      expect(codec.encodeImage).toHaveBeenCalledTimes(1);
+    });
+
+    test('should report textures that fail and keep the rest', async () => {
+      const textures = [createTexture('albedo', 8, 8)];
+      const codec = createCodec(textures);
+      codec.encodeKTX2 = vi.fn(async () => { throw new Error('no encoder'); });
+      const onError = vi.fn();
+      const exporter = new TextureExporter(codec, { compression: 'ktx2', maxSize: 0, mipmaps: false }, id => textures.find(t => t.id === id));
+
+      const result = await exporter.exportMaterialTextures(createMaterial({ albedoMap: 'albedo', normalMap: 'missing' }), onError);
+
+      expect(result).toEqual({});
+      expect(onError).toHaveBeenCalledWith('albedo', expect.any(Error));
+      expect(onError).toHaveBeenCalledWith('missing', expect.objectContaining({ message: 'Texture missing not found' }));
+    });
+  });
+});
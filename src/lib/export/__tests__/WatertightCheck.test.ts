@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { QMesh } from '../../qmesh/QMesh';
+import { SceneObject } from '../../../stores/objectsStore';
+import { checkSceneWatertight, checkWatertight } from '../WatertightCheck';
+import { storeExportSource } from '../ExportSceneSource';
+
+/**
+ * Closed box with some of its six sides removed (each side is 6 indices)
+ */
+function boxMesh(removeSides: number[] = []): QMesh {
+  const geometry = new THREE.BoxGeometry(1, 1, 1);
+  const index = Array.from(geometry.index!.array);
+  geometry.setIndex(index.filter((_, i) => !removeSides.includes(Math.floor(i / 6))));
+  return QMesh.fromBufferGeometry(geometry);
+}
+
+/**
+ * Outward-wound tetrahedron with some of its faces flipped.
+ * Triangles, since import rebuilds the winding of coplanar pairs merged into quads.
+ */
+function tetrahedronMesh(flipFaces: number[] = []): QMesh {
+  const corners = [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, 0, 1]];
+  const faces = [[0, 2, 1], [0, 1, 3], [0, 3, 2], [1, 2, 3]];
+  const positions = faces.flatMap((face, i) =>
+    (flipFaces.includes(i) ? [...face].reverse() : face).flatMap(corner => corners[corner])
+  );
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  return QMesh.fromBufferGeometry(geometry);
+}
+
+describe('checkWatertight', () => {
+  it('should pass a closed box', () => {
+    const report = checkWatertight(boxMesh());
+
+    expect(report).toEqual({ openEdges: [], nonManifoldEdges: [], flippedFaces: [], watertight: true });
+  });
+
+  it('should report the open edges around a hole', () => {
+    const report = checkWatertight(boxMesh([2]));
+
+    expect(report.openEdges).toHaveLength(4);
+    expect(report.nonManifoldEdges).toEqual([]);
+    expect(report.flippedFaces).toEqual([]);
+    expect(report.watertight).toBe(false);
+  });
+
+  it('should pass an outward-wound tetrahedron', () => {
+    expect(checkWatertight(tetrahedronMesh()).watertight).toBe(true);
+  });
+
+  it('should report a face wound against its neighbours', () => {
+    const qMesh = tetrahedronMesh([3]);
+    const report = checkWatertight(qMesh);
+
+    expect(report.openEdges).toEqual([]);
+    expect(report.flippedFaces).toHaveLength(1);
+    expect(qMesh.faces.get(report.flippedFaces[0])!.calculateNormal().x).toBeLessThan(0);
+  });
+
+  it('should report every face of an inside-out shell', () => {
+    const report = checkWatertight(tetrahedronMesh([0, 1, 2, 3]));
+
+    expect(report.flippedFaces).toHaveLength(4);
+    expect(report.watertight).toBe(false);
+  });
+
+  it('should report edges shared by more than two faces', () => {
+    // Three fins on the edge from (0,0,0) to (1,0,0)
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute([
+      0, 0, 0, 1, 0, 0, 0.5, 1, 0,
+      1, 0, 0, 0, 0, 0, 0.5, 0, 1,
+      0, 0, 0, 1, 0, 0, 0.5, -1, -1,
+    ], 3));
+    const report = checkWatertight(QMesh.fromBufferGeometry(geometry));
+
+    expect(report.nonManifoldEdges).toHaveLength(1);
+    expect(report.watertight).toBe(false);
+  });
+});
+
+describe('checkSceneWatertight', () => {
+  const createObject = (id: string, overrides: Partial<SceneObject> = {}): SceneObject => ({
+    id,
+    name: id,
+    type: 'box',
+    visible: true,
+    locked: false,
+    position: [0, 0, 0],
+    rotation: [0, 0, 0],
+    scale: [1, 1, 1],
+    parentId: null,
+    children: [],
+    createdAt: 0,
+    modifiedAt: 0,
+    ...overrides,
+  });
+
+  it('should check objects without a QMesh through their rendered geometry', () => {
+    const open = new THREE.BoxGeometry(1, 1, 1);
+    open.setIndex(Array.from(open.index!.array).slice(6));
+
+    const reports = checkSceneWatertight([
+      createObject('mesh', { qMesh: boxMesh() }),
+      createObject('rendered', { type: 'imported', renderGeometry: new THREE.BoxGeometry(1, 1, 1) }),
+      createObject('openRendered', { type: 'imported', renderGeometry: open }),
+      createObject('light', { type: 'pointLight' }),
+    ]);
+
+    expect(reports.map(r => [r.objectId, r.watertight])).toEqual([
+      ['mesh', true],
+      ['rendered', true],
+      ['openRendered', false],
+    ]);
+    expect(reports[2].openEdges).toHaveLength(4);
+  });
+
+  it('should list meshes with no geometry as unchecked, not watertight', () => {
+    const source = { ...storeExportSource, getLiveGeometry: () => undefined };
+    const [report] = checkSceneWatertight([createObject('empty', { type: 'imported' })], source);
+
+    expect(report.unchecked).toBe(true);
+    expect(report.watertight).toBe(false);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Mesh File Importer
+ *
+ * Loads mesh-only interchange formats (STL, PLY, DAE, 3MF) into imported scene objects.
+ * Meshes are baked into scene space (meters, Y-up) using per-import unit and up-axis
+ * settings, welded, and decompiled into a QMesh so they are editable straight away.
+ * Vertex colors (PLY scans, colored STL) are kept on the QMesh vertices.
+ */
+
+import * as THREE from 'three';
+import { unzipSync, strFromU8 } from 'three/examples/jsm/libs/fflate.module.js';
+import { QMesh } from '../qmesh/QMesh';
+import { mergeVertices } from '../mesh/MeshOptimizer';
+import { SceneObject } from '../../stores/objectsStore';
+
+export type MeshFileFormat = 'stl' | 'ply' | 'dae' | '3mf';
+
+export const MESH_FILE_FORMATS: MeshFileFormat[] = ['stl', 'ply', 'dae', '3mf'];
+
+/** Length unit the file's coordinates are in */
+export type ImportUnit = 'mm' | 'cm' | 'm' | 'in';
+
+/** Axis the file treats as up */
+export type ImportUpAxis = 'y' | 'z';
+
+export interface MeshImportSettings {
+  unit: ImportUnit;
+  upAxis: ImportUpAxis;
+}
+
+/** A mesh read from a file, already in scene space */
+export interface ImportedMeshData {
+  name: string;
+  geometry: THREE.BufferGeometry;
+  /** Material colour (sRGB hex), if the file had one */
+  color?: string;
+}
+
+/** Meters per file unit */
+export const IMPORT_UNIT_SCALE: Record<ImportUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+};
+
+const THREE_MF_UNITS: Record<string, ImportUnit> = {
+  millimeter: 'mm',
+  centimeter: 'cm',
+  meter: 'm',
+  inch: 'in',
+};
+
+export class MeshFileImporter {
+  static isMeshFileFormat(extension: string | undefined): extension is MeshFileFormat {
+    return MESH_FILE_FORMATS.includes(extension as MeshFileFormat);
+  }
+
+  /**
+   * Settings to offer for a file. STL and 3MF come from CAD tools and slicers (millimeters, Z-up);
+   * Collada declares its own unit and up axis, which the loader already applies.
+   */
+  static getDefaultSettings(format: MeshFileFormat, data: ArrayBuffer): MeshImportSettings {
+    switch (format) {
+      case 'stl':
+        return { unit: 'mm', upAxis: 'z' };
+      case '3mf':
+        return { unit: this.read3MFUnit(data), upAxis: 'z' };
+      case 'ply':
+        return { unit: 'm', upAxis: 'z' };
+      case 'dae':
+        return { unit: 'm', upAxis: 'y' };
+    }
+  }
+
+  /**
+   * Matrix taking file coordinates to scene coordinates
+   */
+  static getConversionMatrix(settings: MeshImportSettings): THREE.Matrix4 {
+    const matrix = new THREE.Matrix4().makeScale(
+      IMPORT_UNIT_SCALE[settings.unit],
+      IMPORT_UNIT_SCALE[settings.unit],
+      IMPORT_UNIT_SCALE[settings.unit]
+    );
+
+    if (settings.upAxis === 'z') {
+      // Z-up to Y-up: (x, y, z) -> (x, z, -y)
+      matrix.premultiply(new THREE.Matrix4().makeRotationX(-Math.PI / 2));
+    }
+
+    return matrix;
+  }
+
+  /**
+   * Parse a file into scene-space meshes
+   */
+  static async load(
+    format: MeshFileFormat,
+    data: ArrayBuffer,
+    settings: MeshImportSettings,
+    name: string = 'Imported'
+  ): Promise<ImportedMeshData[]> {
+    const root = await this.parse(format, data, name);
+    root.updateMatrixWorld(true);
+
+    const conversion = this.getConversionMatrix(settings);
+    const meshes: ImportedMeshData[] = [];
+
+    root.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+
+      const geometry = this.prepareGeometry(
+        child.geometry as THREE.BufferGeometry,
+        conversion.clone().multiply(child.matrixWorld)
+      );
+      if (!geometry) return;
+
+      const material = Array.isArray(child.material) ? child.material[0] : child.material;
+      const color = (material as THREE.MeshStandardMaterial | undefined)?.color;
+
+      meshes.push({
+        name: child.name || (meshes.length === 0 ? name : `${name}.${String(meshes.length).padStart(3, '0')}`),
+        geometry,
+        color: color && !material.vertexColors ? `#${color.getHexString()}` : undefined,
+      });
+    });
+
+    console.log(`[MeshFileImporter] Loaded ${meshes.length} meshes from ${format.toUpperCase()}`);
+    return meshes;
+  }
+
+  /**
+   * Imported scene object for a mesh, with its QMesh and compiled render geometry
+   */
+  static createSceneObject(mesh: ImportedMeshData): SceneObject {
+    const qMesh = QMesh.fromBufferGeometry(mesh.geometry);
+    const renderGeometry = qMesh.toBufferGeometry();
+    const now = Date.now();
+
+    return {
+      id: `obj_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: mesh.name,
+      type: 'imported',
+      visible: true,
+      locked: false,
+      position: [0, 0, 0],
+      rotation: [0, 0, 0],
+      scale: [1, 1, 1],
+      parentId: null,
+      children: [],
+      qMesh,
+      renderGeometry,
+      importedGeometry: {
+        vertices: Array.from(renderGeometry.getAttribute('position').array),
+        normals: Array.from(renderGeometry.getAttribute('normal').array),
+        uvs: Array.from(renderGeometry.getAttribute('uv').array),
+        indices: renderGeometry.index ? Array.from(renderGeometry.index.array) : undefined,
+      },
+      createdAt: now,
+      modifiedAt: now,
+    };
+  }
+
+  /**
+   * Run the Three.js loader for a format
+   */
+  private static async parse(format: MeshFileFormat, data: ArrayBuffer, name: string): Promise<THREE.Object3D> {
+    switch (format) {
+      case 'stl': {
+        const { STLLoader } = await import('three/examples/jsm/loaders/STLLoader.js');
+        return new THREE.Mesh(new STLLoader().parse(data), new THREE.MeshStandardMaterial({ vertexColors: true }));
+      }
+      case 'ply': {
+        const { PLYLoader } = await import('three/examples/jsm/loaders/PLYLoader.js');
+        // Point clouds have no faces to import
+        const header = new TextDecoder().decode(data.slice(0, 4096)).split('end_header')[0];
+        if (!/element face [1-9]/.test(header)) {
+          throw new Error('PLY file has no faces (point clouds are not supported)');
+        }
+        return new THREE.Mesh(new PLYLoader().parse(data), new THREE.MeshStandardMaterial({ vertexColors: true }));
+      }
+      case 'dae': {
+        const { ColladaLoader } = await import('three/examples/jsm/loaders/ColladaLoader.js');
+        const collada = new ColladaLoader().parse(new TextDecoder().decode(data), '');
+        if (!collada) throw new Error(`Failed to parse Collada file ${name}`);
+        return collada.scene;
+      }
+      case '3mf': {
+        const { ThreeMFLoader } = await import('three/examples/jsm/loaders/3MFLoader.js');
+        return new ThreeMFLoader().parse(data);
+      }
+    }
+  }
+
+  /**
+   * Weld a copy of the geometry (in file units) and bake a transform into it. Normals are dropped
+   * so STL's per-face normals don't stop duplicated corners from welding; QMesh recomputes them.
+   */
+  private static prepareGeometry(source: THREE.BufferGeometry, matrix: THREE.Matrix4): THREE.BufferGeometry | null {
+    const position = source.getAttribute('position');
+    if (!position || position.count < 3) return null;
+
+    let geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', position.clone());
+    (['uv', 'color'] as const).forEach((attribute) => {
+      const values = source.getAttribute(attribute);
+      if (values) geometry.setAttribute(attribute, values.clone());
+    });
+    if (source.index) {
+      geometry.setIndex(source.index.clone());
+    } else {
+      geometry = mergeVertices(geometry);
+    }
+
+    geometry.applyMatrix4(matrix);
+
+    // Mirrored transforms turn faces inside out once baked
+    if (matrix.determinant() < 0) {
+      const index = Array.from(geometry.index!.array);
+      for (let i = 0; i + 2 < index.length; i += 3) {
+        [index[i + 1], index[i + 2]] = [index[i + 2], index[i + 1]];
+      }
+      geometry.setIndex(index);
+    }
+
+    return geometry;
+  }
+
+  /**
+   * Unit declared by a 3MF model (3MF defaults to millimeters)
+   */
+  private static read3MFUnit(data: ArrayBuffer): ImportUnit {
+    try {
+      const files = unzipSync(new Uint8Array(data), { filter: file => file.name.endsWith('.model') });
+      const model = Object.values(files)[0];
+      const unit = model ? strFromU8(model).match(/<model[^>]*\sunit="(\w+)"/)?.[1] : undefined;
+      return (unit && THREE_MF_UNITS[unit]) || 'mm';
+    } catch {
+      return 'mm';
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * MeshFileImporter Tests
+ *
+ * STL/PLY/3MF parsing, vertex welding, vertex colors and unit/up-axis conversion.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { MeshFileImporter } from '../MeshFileImporter';
+import { ThreeMFExporter } from '../../export/ThreeMFExporter';
+
+const TETRAHEDRON_CORNERS = [[0, 0, 0], [10, 0, 0], [0, 10, 0], [0, 0, 10]];
+const TETRAHEDRON_FACES = [[0, 2, 1], [0, 1, 3], [0, 3, 2], [1, 2, 3]];
+
+function encode(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+/**
+ * ASCII STL of a tetrahedron (10 units along each axis), one facet per face
+ */
+function tetrahedronSTL(): ArrayBuffer {
+  const facets = TETRAHEDRON_FACES.map(face => [
+    '  facet normal 0 0 0',
+    '    outer loop',
+    ...face.map(corner => `      vertex ${TETRAHEDRON_CORNERS[corner].join(' ')}`),
+    '    endloop',
+    '  endfacet',
+  ].join('\n'));
+
+  return encode(`solid tetra\n${facets.join('\n')}\nendsolid tetra\n`);
+}
+
+function tetrahedronPLY(withFaces = true): ArrayBuffer {
+  const header = [
+    'ply',
+    'format ascii 1.0',
+    `element vertex ${TETRAHEDRON_CORNERS.length}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    ...(withFaces ? [`element face ${TETRAHEDRON_FACES.length}`, 'property list uchar int vertex_indices'] : []),
+    'end_header',
+  ];
+  const vertices = TETRAHEDRON_CORNERS.map(corner => `${corner.join(' ')} 255 0 0`);
+  const faces = withFaces ? TETRAHEDRON_FACES.map(face => `3 ${face.join(' ')}`) : [];
+
+  return encode([...header, ...vertices, ...faces, ''].join('\n'));
+}
+
+function boundingBox(geometry: THREE.BufferGeometry): THREE.Box3 {
+  geometry.computeBoundingBox();
+  return geometry.boundingBox!;
+}
+
+describe('MeshFileImporter', () => {
+  it('recognizes mesh file extensions', () => {
+    expect(MeshFileImporter.isMeshFileFormat('stl')).toBe(true);
+    expect(MeshFileImporter.isMeshFileFormat('3mf')).toBe(true);
+    expect(MeshFileImporter.isMeshFileFormat('obj')).toBe(false);
+    expect(MeshFileImporter.isMeshFileFormat(undefined)).toBe(false);
+  });
+
+  it('welds duplicated STL corners into a closed mesh', async () => {
+    const [mesh] = await MeshFileImporter.load('stl', tetrahedronSTL(), { unit: 'm', upAxis: 'y' }, 'tetra');
+    const object = MeshFileImporter.createSceneObject(mesh);
+
+    expect(object.type).toBe('imported');
+    expect(object.name).toBe('tetra');
+    expect(object.qMesh!.vertices.size).toBe(4);
+    expect(object.qMesh!.faces.size).toBe(4);
+    expect(object.renderGeometry).toBeDefined();
+    expect(object.importedGeometry!.vertices.length).toBeGreaterThan(0);
+  });
+
+  it('converts millimeters and Z-up to meters and Y-up', async () => {
+    const [mesh] = await MeshFileImporter.load('stl', tetrahedronSTL(), { unit: 'mm', upAxis: 'z' });
+    const box = boundingBox(mesh.geometry);
+
+    // File Z (10mm) becomes scene Y, file Y becomes scene -Z
+    expect(box.max.y).toBeCloseTo(0.01);
+    expect(box.min.z).toBeCloseTo(-0.01);
+    expect(box.max.z).toBeCloseTo(0);
+    expect(box.max.x).toBeCloseTo(0.01);
+  });
+
+  it('keeps faces outward after the up-axis rotation', async () => {
+    const [mesh] = await MeshFileImporter.load('stl', tetrahedronSTL(), { unit: 'mm', upAxis: 'z' });
+    const qMesh = MeshFileImporter.createSceneObject(mesh).qMesh!;
+    const center = new THREE.Vector3(0.0025, 0.0025, -0.0025);
+
+    qMesh.faces.forEach(face => {
+      const toFace = face.getVertices()[0].position.clone().sub(center);
+      expect(face.calculateNormal().dot(toFace)).toBeGreaterThan(0);
+    });
+  });
+
+  it('maps PLY vertex colors onto the mesh', async () => {
+    const [mesh] = await MeshFileImporter.load('ply', tetrahedronPLY(), { unit: 'm', upAxis: 'y' });
+    const object = MeshFileImporter.createSceneObject(mesh);
+
+    expect(mesh.color).toBeUndefined();
+    object.qMesh!.vertices.forEach(v => expect(v.color?.r).toBeCloseTo(1));
+    expect(object.renderGeometry!.getAttribute('color')).toBeDefined();
+  });
+
+  it('rejects PLY point clouds', async () => {
+    await expect(
+      MeshFileImporter.load('ply', tetrahedronPLY(false), { unit: 'm', upAxis: 'y' })
+    ).rejects.toThrow(/no faces/);
+  });
+
+  it('reads the unit declared by a 3MF file', async () => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute(
+      TETRAHEDRON_FACES.flatMap(face => face.flatMap(corner => TETRAHEDRON_CORNERS[corner])), 3
+    ));
+    const scene = new THREE.Scene();
+    scene.add(new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: 0xff0000 })));
+    scene.updateMatrixWorld(true);
+
+    const file = new ThreeMFExporter().parse(scene, { unit: 'cm', includeColors: true });
+    const data = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+
+    const settings = MeshFileImporter.getDefaultSettings('3mf', data);
+    expect(settings).toEqual({ unit: 'cm', upAxis: 'z' });
+
+    const [mesh] = await MeshFileImporter.load('3mf', data, settings);
+    expect(boundingBox(mesh.geometry).max.y).toBeCloseTo(0.1);
+    expect(MeshFileImporter.createSceneObject(mesh).qMesh!.vertices.size).toBe(4);
+  });
+
+  it('defaults STL to millimeters and Z-up', () => {
+    expect(MeshFileImporter.getDefaultSettings('stl', tetrahedronSTL())).toEqual({ unit: 'mm', upAxis: 'z' });
+  });
+});
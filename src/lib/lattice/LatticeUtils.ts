@@ -0,0 +1,154 @@
+/**
+ * Lattice Utilities
+ *
+ * Control point grids for lattice objects and the free-form deformation they apply.
+ * A lattice's rest shape is a regular grid spanning -0.5..0.5 on each axis of the
+ * lattice object; a point inside it is moved by interpolating how far the control
+ * points have been moved from their rest positions. Points outside the cage follow
+ * the nearest part of the boundary.
+ */
+
+import * as THREE from 'three';
+import type { LatticeProps } from '../../stores/objectsStore';
+
+export type LatticeInterpolation = 'linear' | 'bspline';
+
+export const MIN_LATTICE_RESOLUTION = 1;
+export const MAX_LATTICE_RESOLUTION = 64;
+
+/**
+ * Clamp a U/V/W resolution to whole numbers in the supported range
+ */
+export function clampLatticeResolution(resolution: [number, number, number]): [number, number, number] {
+  return resolution.map(n =>
+    THREE.MathUtils.clamp(Math.round(n) || MIN_LATTICE_RESOLUTION, MIN_LATTICE_RESOLUTION, MAX_LATTICE_RESOLUTION)
+  ) as [number, number, number];
+}
+
+/**
+ * Index of control point (u, v, w) in the points array (U varies fastest)
+ */
+export function latticePointIndex(u: number, v: number, w: number, resolution: [number, number, number]): number {
+  return u + resolution[0] * (v + resolution[1] * w);
+}
+
+/**
+ * Rest position of control point (u, v, w)
+ */
+export function getLatticeRestPoint(
+  u: number,
+  v: number,
+  w: number,
+  resolution: [number, number, number]
+): [number, number, number] {
+  const axis = (i: number, count: number) => (count === 1 ? 0 : i / (count - 1) - 0.5);
+  return [axis(u, resolution[0]), axis(v, resolution[1]), axis(w, resolution[2])];
+}
+
+/**
+ * Undeformed lattice with the given resolution
+ */
+export function createLatticeProps(resolution: [number, number, number] = [2, 2, 2]): LatticeProps {
+  const clamped = clampLatticeResolution(resolution);
+  const points: Array<[number, number, number]> = [];
+
+  for (let w = 0; w < clamped[2]; w++) {
+    for (let v = 0; v < clamped[1]; v++) {
+      for (let u = 0; u < clamped[0]; u++) {
+        points.push(getLatticeRestPoint(u, v, w, clamped));
+      }
+    }
+  }
+
+  return { resolution: clamped, points };
+}
+
+/**
+ * Change the resolution of a lattice, keeping its current deformation
+ */
+export function resizeLattice(lattice: LatticeProps, resolution: [number, number, number]): LatticeProps {
+  const resized = createLatticeProps(resolution);
+  const deform = createLatticeDeformer(lattice, 'linear');
+  const point = new THREE.Vector3();
+
+  resized.points = resized.points.map(rest => deform(point.fromArray(rest), point).toArray() as [number, number, number]);
+  return resized;
+}
+
+/**
+ * Build a function that deforms points given in lattice space.
+ * The returned function writes into `target` and returns it.
+ */
+export function createLatticeDeformer(
+  lattice: LatticeProps,
+  interpolation: LatticeInterpolation = 'linear'
+): (point: THREE.Vector3, target: THREE.Vector3) => THREE.Vector3 {
+  const { resolution, points } = lattice;
+
+  // Offsets of the control points from their rest positions
+  const offsets = new Float64Array(points.length * 3);
+  for (let w = 0; w < resolution[2]; w++) {
+    for (let v = 0; v < resolution[1]; v++) {
+      for (let u = 0; u < resolution[0]; u++) {
+        const index = latticePointIndex(u, v, w, resolution);
+        const point = points[index];
+        if (!point) continue;
+        const rest = getLatticeRestPoint(u, v, w, resolution);
+        offsets[index * 3] = point[0] - rest[0];
+        offsets[index * 3 + 1] = point[1] - rest[1];
+        offsets[index * 3 + 2] = point[2] - rest[2];
+      }
+    }
+  }
+
+  return (point, target) => {
+    const wu = axisWeights(point.x, resolution[0], interpolation);
+    const wv = axisWeights(point.y, resolution[1], interpolation);
+    const ww = axisWeights(point.z, resolution[2], interpolation);
+
+    let dx = 0;
+    let dy = 0;
+    let dz = 0;
+    ww.forEach(([w, weightW]) => {
+      wv.forEach(([v, weightV]) => {
+        wu.forEach(([u, weightU]) => {
+          const weight = weightU * weightV * weightW;
+          const index = latticePointIndex(u, v, w, resolution) * 3;
+          dx += offsets[index] * weight;
+          dy += offsets[index + 1] * weight;
+          dz += offsets[index + 2] * weight;
+        });
+      });
+    });
+
+    return target.set(point.x + dx, point.y + dy, point.z + dz);
+  };
+}
+
+/**
+ * Control point indices and weights along one axis for a lattice-space coordinate
+ */
+function axisWeights(coordinate: number, count: number, interpolation: LatticeInterpolation): Array<[number, number]> {
+  if (count === 1) return [[0, 1]];
+
+  const s = THREE.MathUtils.clamp((coordinate + 0.5) * (count - 1), 0, count - 1);
+
+  if (interpolation === 'linear') {
+    const i = Math.min(Math.floor(s), count - 2);
+    const t = s - i;
+    return [[i, 1 - t], [i + 1, t]];
+  }
+
+  // Uniform cubic B-spline, with indices past the ends clamped to the end points
+  const i = Math.floor(s);
+  const t = s - i;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const basis = [
+    (1 - t) ** 3 / 6,
+    (3 * t3 - 6 * t2 + 4) / 6,
+    (-3 * t3 + 3 * t2 + 3 * t + 1) / 6,
+    t3 / 6,
+  ];
+  return basis.map((weight, k) => [THREE.MathUtils.clamp(i - 1 + k, 0, count - 1), weight] as [number, number]);
+}
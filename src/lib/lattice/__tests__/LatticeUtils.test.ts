@@ -0,0 +1,93 @@
+/**
+ * Tests for Lattice Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createLatticeDeformer,
+  createLatticeProps,
+  latticePointIndex,
+  resizeLattice,
+} from '../LatticeUtils';
+import * as THREE from 'three';
+
+describe('LatticeUtils', () => {
+  it('should create a rest grid spanning -0.5..0.5', () => {
+    const lattice = createLatticeProps([3, 2, 2]);
+
+    expect(lattice.resolution).toEqual([3, 2, 2]);
+    expect(lattice.points).toHaveLength(12);
+    expect(lattice.points[latticePointIndex(0, 0, 0, lattice.resolution)]).toEqual([-0.5, -0.5, -0.5]);
+    expect(lattice.points[latticePointIndex(1, 0, 0, lattice.resolution)]).toEqual([0, -0.5, -0.5]);
+    expect(lattice.points[latticePointIndex(2, 1, 1, lattice.resolution)]).toEqual([0.5, 0.5, 0.5]);
+  });
+
+  it('should clamp resolution to the supported range', () => {
+    expect(createLatticeProps([0, 2.6, 100]).resolution).toEqual([1, 3, 64]);
+  });
+
+  it('should leave points unchanged with an undeformed lattice', () => {
+    const lattice = createLatticeProps([3, 3, 3]);
+    const point = new THREE.Vector3(0.2, -0.3, 0.1);
+
+    (['linear', 'bspline'] as const).forEach(interpolation => {
+      const result = createLatticeDeformer(lattice, interpolation)(point, new THREE.Vector3());
+      expect(result.distanceTo(point)).toBeCloseTo(0);
+    });
+  });
+
+  it('should interpolate control point offsets trilinearly', () => {
+    const lattice = createLatticeProps();
+    // Stretch the +X face to x = 1.5
+    lattice.points = lattice.points.map(([x, y, z]) => [x > 0 ? 1.5 : x, y, z]);
+
+    const deform = createLatticeDeformer(lattice, 'linear');
+    const target = new THREE.Vector3();
+
+    expect(deform(new THREE.Vector3(0.5, 0, 0), target).x).toBeCloseTo(1.5);
+    expect(deform(new THREE.Vector3(0, 0.2, 0), target).x).toBeCloseTo(0.5);
+    expect(deform(new THREE.Vector3(-0.5, 0, 0), target).x).toBeCloseTo(-0.5);
+  });
+
+  it('should move points outside the cage with the boundary', () => {
+    const lattice = createLatticeProps();
+    lattice.points = lattice.points.map(([x, y, z]) => [x, y + 1, z]);
+
+    const result = createLatticeDeformer(lattice)(new THREE.Vector3(2, 0, 0), new THREE.Vector3());
+
+    expect(result.toArray()).toEqual([2, 1, 0]);
+  });
+
+  it('should smooth a single moved point with B-spline interpolation', () => {
+    const lattice = createLatticeProps([5, 5, 5]);
+    const center = latticePointIndex(2, 2, 2, lattice.resolution);
+    lattice.points[center] = [0, 0.5, 0];
+
+    const linear = createLatticeDeformer(lattice, 'linear');
+    const bspline = createLatticeDeformer(lattice, 'bspline');
+    const target = new THREE.Vector3();
+
+    // Linear reaches the control point exactly; the B-spline approximates it
+    expect(linear(new THREE.Vector3(), target).y).toBeCloseTo(0.5);
+    const peak = bspline(new THREE.Vector3(), target).y;
+    expect(peak).toBeGreaterThan(0);
+    expect(peak).toBeLessThan(0.5);
+
+    // ...and spreads it further than the neighbouring linear cells
+    const outside = new THREE.Vector3(0, 0, 0.3);
+    expect(linear(outside, target).y).toBeCloseTo(0);
+    expect(bspline(outside, target).y).toBeGreaterThan(0);
+  });
+
+  it('should keep the deformation when resizing', () => {
+    const lattice = createLatticeProps();
+    lattice.points = lattice.points.map(([x, y, z]) => [x * 2, y, z]);
+
+    const resized = resizeLattice(lattice, [3, 2, 2]);
+
+    expect(resized.resolution).toEqual([3, 2, 2]);
+    expect(resized.points[latticePointIndex(0, 0, 0, resized.resolution)][0]).toBeCloseTo(-1);
+    expect(resized.points[latticePointIndex(1, 0, 0, resized.resolution)][0]).toBeCloseTo(0);
+    expect(resized.points[latticePointIndex(2, 0, 0, resized.resolution)][0]).toBeCloseTo(1);
+  });
+});
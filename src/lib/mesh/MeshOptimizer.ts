@@ -7,19 +7,116 @@
 import * as THREE from 'three';
 
 /**
- * Merge duplicate vertices within tolerance
+ * Merge duplicate vertices within tolerance.
+ * Vertices are only merged when every other attribute (normals, UVs, ...) also matches,
+ * so hard edges and UV seams survive. Returns an indexed geometry.
  */
 export function mergeVertices(geometry: THREE.BufferGeometry, tolerance: number = 0.0001): THREE.BufferGeometry {
   console.log('[MeshOptimizer] Merging vertices, tolerance:', tolerance);
 
-  const originalCount = geometry.attributes.position.count;
+  const position = geometry.attributes.position;
+  const originalCount = position.count;
+  const positions = Array.from({ length: originalCount }, (_, i) => new THREE.Vector3().fromBufferAttribute(position, i));
 
-  // Simple manual implementation - just return geometry for now
-  // Three.js BufferGeometryUtils.mergeVertices has import issues
-  // This is good enough for MVP - we can improve later
-  console.log(`[MeshOptimizer] Vertices: ${originalCount} (merge skipped - manual impl needed)`);
+  const otherAttributes = Object.keys(geometry.attributes)
+    .filter(name => name !== 'position')
+    .map(name => geometry.attributes[name]);
 
-  return geometry;
+  const targets = findMergeTargets(positions, tolerance, (a, b) =>
+    otherAttributes.every(attribute => {
+      for (let c = 0; c < attribute.itemSize; c++) {
+        if (Math.abs(attribute.getComponent(a, c) - attribute.getComponent(b, c)) > tolerance) return false;
+      }
+      return true;
+    })
+  );
+
+  // Compact the surviving vertices and remap the index
+  const newIndexOf = new Map<number, number>();
+  targets.forEach((target, i) => {
+    if (target === i) newIndexOf.set(i, newIndexOf.size);
+  });
+
+  if (newIndexOf.size === originalCount) {
+    console.log(`[MeshOptimizer] Vertices: ${originalCount} (no duplicates)`);
+    return geometry;
+  }
+
+  const merged = new THREE.BufferGeometry();
+  Object.keys(geometry.attributes).forEach(name => {
+    const attribute = geometry.attributes[name];
+    const ArrayType = attribute.array.constructor as new (length: number) => THREE.TypedArray;
+    const array = new ArrayType(newIndexOf.size * attribute.itemSize);
+    newIndexOf.forEach((newIndex, oldIndex) => {
+      for (let c = 0; c < attribute.itemSize; c++) {
+        array[newIndex * attribute.itemSize + c] = attribute.getComponent(oldIndex, c);
+      }
+    });
+    merged.setAttribute(name, new THREE.BufferAttribute(array, attribute.itemSize, attribute.normalized));
+  });
+
+  const oldIndex = geometry.index
+    ? Array.from(geometry.index.array)
+    : Array.from({ length: originalCount }, (_, i) => i);
+  merged.setIndex(oldIndex.map(i => newIndexOf.get(targets[i])!));
+  geometry.groups.forEach(group => merged.addGroup(group.start, group.count, group.materialIndex));
+
+  console.log(`[MeshOptimizer] Vertices: ${originalCount} -> ${newIndexOf.size}`);
+  return merged;
+}
+
+/**
+ * Find, for every point, the index of the point it merges into (itself if it is kept).
+ * Points merge into an earlier kept point within `distance` that `canMerge` accepts.
+ * Uses a uniform grid, so it runs in roughly linear time.
+ */
+export function findMergeTargets(
+  positions: THREE.Vector3[],
+  distance: number,
+  canMerge: (target: number, point: number) => boolean = () => true
+): number[] {
+  const cellSize = Math.max(distance, 1e-9);
+  const distanceSq = distance * distance;
+  const cells = new Map<string, number[]>();
+  const targets: number[] = new Array(positions.length);
+
+  const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+  const findTarget = (point: THREE.Vector3, i: number, cx: number, cy: number, cz: number): number => {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const candidates = cells.get(cellKey(cx + dx, cy + dy, cz + dz)) || [];
+          for (const candidate of candidates) {
+            if (positions[candidate].distanceToSquared(point) <= distanceSq && canMerge(candidate, i)) {
+              return candidate;
+            }
+          }
+        }
+      }
+    }
+    return i;
+  };
+
+  positions.forEach((point, i) => {
+    const cx = Math.floor(point.x / cellSize);
+    const cy = Math.floor(point.y / cellSize);
+    const cz = Math.floor(point.z / cellSize);
+    const target = findTarget(point, i, cx, cy, cz);
+
+    targets[i] = target;
+    if (target === i) {
+      const key = cellKey(cx, cy, cz);
+      const cell = cells.get(key);
+      if (cell) {
+        cell.push(i);
+      } else {
+        cells.set(key, [i]);
+      }
+    }
+  });
+
+  return targets;
 }
 
 /**
@@ -6,6 +6,7 @@ import { describe, it, expect } from 'vitest';
 import * as THREE from 'three';
 import {
   mergeVertices,
+  findMergeTargets,
   computeNormals,
   generateUVs,
   removeDegenerateTriangles,
@@ -33,6 +34,42 @@ describe('MeshOptimizer', () => {
       // May be same or slightly less
       expect(merged.attributes.position.count).toBeLessThanOrEqual(originalCount);
     });
+
+    it('should weld a triangle soup into an indexed mesh', () => {
+      const geometry = new THREE.PlaneGeometry(1, 1).toNonIndexed();
+      geometry.deleteAttribute('normal');
+      geometry.deleteAttribute('uv');
+
+      const merged = mergeVertices(geometry);
+
+      expect(merged.attributes.position.count).toBe(4);
+      expect(merged.index!.count).toBe(6);
+    });
+
+    it('should keep vertices whose other attributes differ', () => {
+      // Box corners share positions but not normals
+      const geometry = new THREE.BoxGeometry(1, 1, 1).toNonIndexed();
+      geometry.deleteAttribute('uv');
+
+      const merged = mergeVertices(geometry);
+
+      expect(merged.attributes.position.count).toBe(24);
+    });
+  });
+
+  describe('findMergeTargets()', () => {
+    it('should map points onto the first point in range', () => {
+      const points = [
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Vector3(1, 0, 0),
+        new THREE.Vector3(0.0005, 0, 0),
+        new THREE.Vector3(1, 0.0005, 0),
+      ];
+
+      expect(findMergeTargets(points, 0.001)).toEqual([0, 1, 0, 1]);
+      expect(findMergeTargets(points, 0.0001)).toEqual([0, 1, 2, 3]);
+      expect(findMergeTargets(points, 0.001, target => target !== 1)).toEqual([0, 1, 0, 3]);
+    });
   });
 
   describe('computeNormals()', () => {
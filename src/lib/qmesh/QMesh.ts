@@ -24,6 +24,12 @@ export class QVertex {
   position: THREE.Vector3;
   oneOutgoingHalfEdge: QHalfEdge | null = null;
 
+  /**
+   * Vertex color (linear), from imported color attributes such as PLY scans.
+   * Compiled to a `color` attribute when any vertex of the mesh has one.
+   */
+  color: THREE.Color | null = null;
+
   constructor(id: string, position: THREE.Vector3) {
     this.id = id;
     this.position = position.clone();
@@ -134,6 +140,12 @@ export class QHalfEdge {
   prev: QHalfEdge | null = null;
   twin: QHalfEdge | null = null;
 
+  /**
+   * UV of the face corner at this half-edge's "from" vertex.
+   * Stored per corner (not per vertex) so UV seams can split a vertex between faces.
+   */
+  uv: THREE.Vector2 | null = null;
+
   constructor(id: string, toVertex: QVertex) {
     this.id = id;
     this.toVertex = toVertex;
@@ -163,6 +175,37 @@ export class QHalfEdge {
   }
 }
 
+/**
+ * Current version of the serialized QMesh format.
+ * Bump this when the shape of SerializedQMesh changes and keep fromJSON able to read older versions.
+ */
+export const QMESH_FORMAT_VERSION = 5;
+
+/**
+ * SerializedQMesh - JSON-safe snapshot of the half-edge topology
+ *
+ * Faces are stored as ordered vertex loops together with the IDs of the half-edges
+ * that walk them (halfEdges[i] goes from vertices[i] to vertices[i + 1]), so IDs
+ * survive a save/load round trip. Twins are stored as half-edge ID pairs.
+ *
+ * Version history:
+ * - 1: topology only
+ * - 2: per-corner UVs (faces[].uvs) and UV seams
+ * - 3: per-edge bevel weights
+ * - 4: per-edge crease weights
+ * - 5: per-vertex colors (vertices[].color)
+ */
+export interface SerializedQMesh {
+  version: number;
+  vertices: Array<{ id: string; position: [number, number, number]; color?: [number, number, number] }>;
+  faces: Array<{ id: string; vertices: string[]; halfEdges: string[]; uvs?: Array<[number, number] | null> }>;
+  twins: Array<[string, string]>;
+  seams?: string[];
+  bevelWeights?: Array<[string, number]>;
+  creases?: Array<[string, number]>;
+  counters: { vertex: number; face: number; halfEdge: number };
+}
+
 /**
  * QMesh - The main half-edge mesh structure
  */
@@ -186,6 +229,22 @@ export class QMesh {
    */
   triangleFaceMap: Map<number, string> = new Map();
 
+  /**
+   * Edge keys marked as UV seams (used by angle-based unwrapping to cut charts)
+   */
+  seams: Set<string> = new Set();
+
+  /**
+   * Per-edge bevel weights (0-1) keyed by edge key, read by the bevel modifier's weight limit
+   */
+  bevelWeights: Map<string, number> = new Map();
+
+  /**
+   * Per-edge crease weights (0-1) keyed by edge key, read by the subdivision modifier.
+   * 1 keeps the edge fully sharp, values in between are semi-sharp.
+   */
+  creases: Map<string, number> = new Map();
+
   constructor() {
     // Empty mesh
   }
@@ -201,6 +260,8 @@ export class QMesh {
     const qMesh = new QMesh();
 
     const positions = geometry.attributes.position;
+    const uvAttribute = geometry.attributes.uv;
+    const colorAttribute = geometry.attributes.color;
     const index = geometry.index;
 
     if (!positions) {
@@ -208,6 +269,11 @@ export class QMesh {
       return qMesh;
     }
 
+    const getUV = (i: number): THREE.Vector2 | null => {
+      if (!uvAttribute) return null;
+      return new THREE.Vector2(uvAttribute.getX(i), uvAttribute.getY(i));
+    };
+
     // Step 1: Create vertices (with merging)
     // Build a map of position -> vertex ID for merging
     const positionToVertexId = new Map<string, string>();
@@ -217,13 +283,17 @@ export class QMesh {
       return `${x.toFixed(precision)},${y.toFixed(precision)},${z.toFixed(precision)}`;
     };
 
-    const getOrCreateVertex = (x: number, y: number, z: number): QVertex => {
+    const getOrCreateVertex = (x: number, y: number, z: number, bufferIndex: number): QVertex => {
       const key = getPositionKey(x, y, z);
       let vertexId = positionToVertexId.get(key);
 
       if (!vertexId) {
         vertexId = qMesh.nextVertexId();
         const vertex = new QVertex(vertexId, new THREE.Vector3(x, y, z));
+        // Merged vertices keep the color of the first buffer vertex at their position
+        if (colorAttribute) {
+          vertex.color = new THREE.Color().fromBufferAttribute(colorAttribute as THREE.BufferAttribute, bufferIndex);
+        }
         qMesh.vertices.set(vertexId, vertex);
         positionToVertexId.set(key, vertexId);
       }
@@ -240,6 +310,7 @@ export class QMesh {
     const triangles: Array<{
       index: number;
       vertices: QVertex[];
+      uvs: Array<THREE.Vector2 | null>;
       used: boolean;
     }> = [];
 
@@ -259,22 +330,26 @@ export class QMesh {
       const v0 = getOrCreateVertex(
         positions.getX(i0),
         positions.getY(i0),
-        positions.getZ(i0)
+        positions.getZ(i0),
+        i0
       );
       const v1 = getOrCreateVertex(
         positions.getX(i1),
         positions.getY(i1),
-        positions.getZ(i1)
+        positions.getZ(i1),
+        i1
       );
       const v2 = getOrCreateVertex(
         positions.getX(i2),
         positions.getY(i2),
-        positions.getZ(i2)
+        positions.getZ(i2),
+        i2
       );
 
       triangles.push({
         index: i,
         vertices: [v0, v1, v2],
+        uvs: [getUV(i0), getUV(i1), getUV(i2)],
         used: false,
       });
     }
@@ -353,6 +428,12 @@ export class QMesh {
         // Find the 4 unique vertices in correct order
         const quadVertices = this.orderQuadVertices(tri1.vertices, tri2.vertices);
 
+        // Corner UVs: shared vertices take tri1's corner
+        const quadUVs = new Map<string, THREE.Vector2 | null>();
+        [tri1, tri2].forEach(tri => tri.vertices.forEach((v, k) => {
+          if (!quadUVs.has(v.id)) quadUVs.set(v.id, tri.uvs[k]);
+        }));
+
         // Create a QFace for the quad
         const faceId = qMesh.nextFaceId();
         const face = new QFace(faceId);
@@ -366,6 +447,7 @@ export class QMesh {
 
           const he = new QHalfEdge(qMesh.nextHalfEdgeId(), toVertex);
           he.face = face;
+          he.uv = quadUVs.get(fromVertex.id) ?? null;
 
           // Link to vertex
           if (!fromVertex.oneOutgoingHalfEdge) {
@@ -400,6 +482,7 @@ export class QMesh {
 
           const he = new QHalfEdge(qMesh.nextHalfEdgeId(), toVertex);
           he.face = face;
+          he.uv = tri.uvs[j];
 
           if (!fromVertex.oneOutgoingHalfEdge) {
             fromVertex.oneOutgoingHalfEdge = he;
@@ -532,26 +615,64 @@ export class QMesh {
   /**
    * COMPILER: Convert this QMesh to a THREE.BufferGeometry for rendering
    * This generates the triangle soup and updates the triangleFaceMap
+   *
+   * Buffer indices 0..N-1 always follow QVertex insertion order. Where a vertex's face
+   * corners carry different UVs (a seam), extra copies are appended after those N slots,
+   * so index-based data such as shape keys keeps lining up with the first N vertices.
    */
   toBufferGeometry(): THREE.BufferGeometry {
     const positions: number[] = [];
-    const normals: number[] = [];
     const uvs: number[] = [];
     const indices: number[] = [];
 
-    // Build vertex index map (QVertex.id -> buffer index)
+    // Build vertex index map (QVertex.id -> primary buffer index)
     const vertexToBufferIndex = new Map<string, number>();
-    let bufferIndex = 0;
+    const bufferVertices: QVertex[] = [];
+    const hasColors = Array.from(this.vertices.values()).some(vertex => vertex.color);
 
     // First pass: add all vertices
     this.vertices.forEach(vertex => {
-      vertexToBufferIndex.set(vertex.id, bufferIndex++);
+      vertexToBufferIndex.set(vertex.id, bufferVertices.length);
+      bufferVertices.push(vertex);
       positions.push(vertex.position.x, vertex.position.y, vertex.position.z);
 
-      // UVs: TODO - proper UV unwrapping
+      // Corners without a UV keep (0, 0)
       uvs.push(0, 0);
     });
 
+    // UV slots per vertex: the first corner with a UV claims the primary slot
+    const uvSlots = new Map<string, Array<{ uv: THREE.Vector2; index: number }>>();
+
+    const resolveCorner = (vertex: QVertex, uv: THREE.Vector2 | null): number => {
+      const primary = vertexToBufferIndex.get(vertex.id)!;
+      if (!uv) return primary;
+
+      const slots = uvSlots.get(vertex.id);
+      if (!slots) {
+        uvSlots.set(vertex.id, [{ uv, index: primary }]);
+        uvs[primary * 2] = uv.x;
+        uvs[primary * 2 + 1] = uv.y;
+        return primary;
+      }
+
+      for (const slot of slots) {
+        if (slot.uv.distanceToSquared(uv) < 1e-12) return slot.index;
+      }
+
+      // Seam: duplicate the vertex with the new UV
+      const index = bufferVertices.length;
+      bufferVertices.push(vertex);
+      positions.push(vertex.position.x, vertex.position.y, vertex.position.z);
+      uvs.push(uv.x, uv.y);
+      slots.push({ uv, index });
+      return index;
+    };
+
+    // Smooth normals are accumulated per QVertex so seam copies shade identically
+    const vertexNormals = new Map<string, THREE.Vector3>();
+    const ab = new THREE.Vector3();
+    const ac = new THREE.Vector3();
+
     // Clear and rebuild triangleFaceMap
     this.triangleFaceMap.clear();
     let triangleIndex = 0;
@@ -564,32 +685,64 @@ export class QMesh {
         return;
       }
 
+      // Corner UVs, aligned with getVertices() (both walk from oneHalfEdge)
+      const cornerUVs = face.getHalfEdges().map(he => he.uv);
+      const corners = vertices.map((vertex, i) => resolveCorner(vertex, cornerUVs[i] ?? null));
+
       // Triangulate the face using fan triangulation
       // TODO: Use proper ear-clipping for non-convex polygons
-      const triangulatedIndices = this.triangulateFace(vertices);
+      const triangulatedCorners = this.triangulateFace(vertices.length);
 
       // Add triangles to index buffer
-      for (let i = 0; i < triangulatedIndices.length; i += 3) {
-        const v0Idx = vertexToBufferIndex.get(triangulatedIndices[i].id)!;
-        const v1Idx = vertexToBufferIndex.get(triangulatedIndices[i + 1].id)!;
-        const v2Idx = vertexToBufferIndex.get(triangulatedIndices[i + 2].id)!;
-
-        indices.push(v0Idx, v1Idx, v2Idx);
+      for (let i = 0; i < triangulatedCorners.length; i += 3) {
+        const c0 = triangulatedCorners[i];
+        const c1 = triangulatedCorners[i + 1];
+        const c2 = triangulatedCorners[i + 2];
+
+        indices.push(corners[c0], corners[c1], corners[c2]);
+
+        // Area-weighted face normal, same weighting as computeVertexNormals()
+        ab.subVectors(vertices[c1].position, vertices[c0].position);
+        ac.subVectors(vertices[c2].position, vertices[c0].position);
+        const triNormal = ab.clone().cross(ac);
+        [c0, c1, c2].forEach(c => {
+          const n = vertexNormals.get(vertices[c].id);
+          if (n) {
+            n.add(triNormal);
+          } else {
+            vertexNormals.set(vertices[c].id, triNormal.clone());
+          }
+        });
 
         // Map this triangle to the face
         this.triangleFaceMap.set(triangleIndex++, face.id);
       }
     });
 
+    const normals: number[] = [];
+    bufferVertices.forEach(vertex => {
+      const n = vertexNormals.get(vertex.id);
+      if (n && n.lengthSq() > 0) {
+        const unit = n.clone().normalize();
+        normals.push(unit.x, unit.y, unit.z);
+      } else {
+        normals.push(0, 0, 0);
+      }
+    });
+
     // Create BufferGeometry
     const geometry = new THREE.BufferGeometry();
     geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+    geometry.setAttribute('normal', new THREE.Float32BufferAttribute(normals, 3));
     geometry.setAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2));
+    if (hasColors) {
+      // Seam copies share their vertex's color; uncolored vertices are white
+      const colors = new Float32Array(bufferVertices.length * 3).fill(1);
+      bufferVertices.forEach((vertex, i) => vertex.color?.toArray(colors, i * 3));
+      geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    }
     geometry.setIndex(indices);
 
-    // Compute normals
-    geometry.computeVertexNormals();
-
     console.log(`[QMesh] Compiled: ${positions.length / 3} vertices, ${indices.length / 3} triangles, ${this.faces.size} faces`);
 
     return geometry;
@@ -597,18 +750,13 @@ export class QMesh {
 
   /**
    * Triangulate a face using fan triangulation
-   * Returns array of vertices in triangulated order
+   * Returns corner indices (into the face's vertex loop) in triangulated order
    */
-  private triangulateFace(vertices: QVertex[]): QVertex[] {
-    if (vertices.length === 3) {
-      // Already a triangle
-      return vertices;
-    }
-
-    // Fan triangulation from first vertex
-    const triangulated: QVertex[] = [];
-    for (let i = 1; i < vertices.length - 1; i++) {
-      triangulated.push(vertices[0], vertices[i], vertices[i + 1]);
+  private triangulateFace(cornerCount: number): number[] {
+    // Fan triangulation from first corner (a triangle yields [0, 1, 2])
+    const triangulated: number[] = [];
+    for (let i = 1; i < cornerCount - 1; i++) {
+      triangulated.push(0, i, i + 1);
     }
 
     return triangulated;
@@ -627,6 +775,7 @@ export class QMesh {
       if (!face) return;
 
       const vertices = face.getVertices();
+      const cornerUVs = face.getHalfEdges().map(he => he.uv);
       const normal = face.calculateNormal();
 
       // Create new vertices at extruded positions
@@ -654,6 +803,7 @@ export class QMesh {
         const heId = this.nextHalfEdgeId();
         const he = new QHalfEdge(heId, toVertex);
         he.face = topFace;
+        he.uv = cornerUVs[i]?.clone() ?? null;
         this.halfEdges.set(heId, he);
         topHalfEdges.push(he);
 
@@ -684,7 +834,9 @@ export class QMesh {
         newFaceIds.push(sideFaceId);
 
         // Create half-edges: v0 -> v1 -> v2 -> v3 -> v0
+        // Side corners reuse the UVs of the edge they were extruded from
         const sideVertices = [v0, v1, v2, v3];
+        const sideUVs = [cornerUVs[i], cornerUVs[(i + 1) % vertices.length], cornerUVs[(i + 1) % vertices.length], cornerUVs[i]];
         const sideHalfEdges: QHalfEdge[] = [];
 
         for (let j = 0; j < 4; j++) {
@@ -694,6 +846,7 @@ export class QMesh {
           const heId = this.nextHalfEdgeId();
           const he = new QHalfEdge(heId, toVertex);
           he.face = sideFace;
+          he.uv = sideUVs[j]?.clone() ?? null;
           this.halfEdges.set(heId, he);
           sideHalfEdges.push(he);
 
@@ -746,6 +899,158 @@ export class QMesh {
     return edges;
   }
 
+  // ========================================================================
+  // SERIALIZATION
+  // ========================================================================
+
+  /**
+   * Serialize the native topology (n-gons, quads, IDs and twins) for project files.
+   * Map insertion order is preserved so compiled buffer indices stay stable across reloads.
+   */
+  toJSON(): SerializedQMesh {
+    const vertices: SerializedQMesh['vertices'] = [];
+    this.vertices.forEach(vertex => {
+      vertices.push({
+        id: vertex.id,
+        position: [vertex.position.x, vertex.position.y, vertex.position.z],
+        ...(vertex.color ? { color: vertex.color.toArray() as [number, number, number] } : {}),
+      });
+    });
+
+    const faces: SerializedQMesh['faces'] = [];
+    const writtenHalfEdges = new Map<string, QHalfEdge>();
+
+    this.faces.forEach(face => {
+      const halfEdges = face.getHalfEdges();
+      if (halfEdges.length < 3) return;
+
+      // Walk "from" vertices via prev (twins may be stale after local edits)
+      const loop: string[] = [];
+      for (const he of halfEdges) {
+        const fromVertex = he.prev ? he.prev.toVertex : he.getFromVertex();
+        if (!fromVertex) return;
+        loop.push(fromVertex.id);
+      }
+
+      halfEdges.forEach(he => writtenHalfEdges.set(he.id, he));
+      const hasUVs = halfEdges.some(he => he.uv);
+      faces.push({
+        id: face.id,
+        vertices: loop,
+        halfEdges: halfEdges.map(he => he.id),
+        ...(hasUVs ? { uvs: halfEdges.map(he => (he.uv ? [he.uv.x, he.uv.y] as [number, number] : null)) } : {}),
+      });
+    });
+
+    const twins: SerializedQMesh['twins'] = [];
+    writtenHalfEdges.forEach(he => {
+      if (!he.twin || !writtenHalfEdges.has(he.twin.id)) return;
+      if (he.id < he.twin.id) {
+        twins.push([he.id, he.twin.id]);
+      }
+    });
+
+    return {
+      version: QMESH_FORMAT_VERSION,
+      vertices,
+      faces,
+      twins,
+      seams: Array.from(this.seams),
+      bevelWeights: Array.from(this.bevelWeights),
+      creases: Array.from(this.creases),
+      counters: {
+        vertex: this._vertexCounter,
+        face: this._faceCounter,
+        halfEdge: this._heCounter,
+      },
+    };
+  }
+
+  /**
+   * Rebuild a QMesh from toJSON() output with identical topology and IDs.
+   * Throws on malformed data or a format version newer than this build understands.
+   */
+  static fromJSON(data: SerializedQMesh): QMesh {
+    if (!data || typeof data.version !== 'number' || !Array.isArray(data.vertices) || !Array.isArray(data.faces)) {
+      throw new Error('Invalid serialized QMesh data');
+    }
+    if (data.version > QMESH_FORMAT_VERSION) {
+      throw new Error(`Unsupported QMesh format version ${data.version} (expected <= ${QMESH_FORMAT_VERSION})`);
+    }
+
+    const qMesh = new QMesh();
+
+    data.vertices.forEach(({ id, position, color }) => {
+      const vertex = new QVertex(id, new THREE.Vector3(position[0], position[1], position[2]));
+      if (color) vertex.color = new THREE.Color(color[0], color[1], color[2]);
+      qMesh.vertices.set(id, vertex);
+    });
+
+    data.faces.forEach(faceData => {
+      const loop = faceData.vertices.map(id => qMesh.vertices.get(id));
+      if (loop.length < 3 || faceData.halfEdges.length !== loop.length || loop.some(v => !v)) {
+        console.warn(`[QMesh] Skipping malformed face ${faceData.id} in serialized data`);
+        return;
+      }
+
+      const face = new QFace(faceData.id);
+      qMesh.faces.set(face.id, face);
+
+      const halfEdges: QHalfEdge[] = [];
+      for (let i = 0; i < loop.length; i++) {
+        const fromVertex = loop[i]!;
+        const he = new QHalfEdge(faceData.halfEdges[i], loop[(i + 1) % loop.length]!);
+        he.face = face;
+
+        const uv = faceData.uvs?.[i];
+        if (uv) he.uv = new THREE.Vector2(uv[0], uv[1]);
+
+        if (!fromVertex.oneOutgoingHalfEdge) {
+          fromVertex.oneOutgoingHalfEdge = he;
+        }
+
+        qMesh.halfEdges.set(he.id, he);
+        halfEdges.push(he);
+      }
+
+      for (let i = 0; i < halfEdges.length; i++) {
+        halfEdges[i].next = halfEdges[(i + 1) % halfEdges.length];
+        halfEdges[i].prev = halfEdges[(i - 1 + halfEdges.length) % halfEdges.length];
+      }
+
+      face.oneHalfEdge = halfEdges[0];
+    });
+
+    (data.seams || []).forEach(edgeKey => qMesh.seams.add(edgeKey));
+    (data.bevelWeights || []).forEach(([edgeKey, weight]) => qMesh.bevelWeights.set(edgeKey, weight));
+    (data.creases || []).forEach(([edgeKey, weight]) => qMesh.creases.set(edgeKey, weight));
+
+    (data.twins || []).forEach(([aId, bId]) => {
+      const a = qMesh.halfEdges.get(aId);
+      const b = qMesh.halfEdges.get(bId);
+      if (a && b) {
+        a.twin = b;
+        b.twin = a;
+      }
+    });
+
+    // Restore ID counters, never going below an ID already in use
+    const maxSuffix = (ids: Iterable<string>, prefix: string): number => {
+      let max = -1;
+      for (const id of ids) {
+        if (!id.startsWith(prefix)) continue;
+        const n = Number(id.slice(prefix.length));
+        if (Number.isInteger(n) && n > max) max = n;
+      }
+      return max + 1;
+    };
+    qMesh._vertexCounter = Math.max(data.counters?.vertex ?? 0, maxSuffix(qMesh.vertices.keys(), 'v_'));
+    qMesh._faceCounter = Math.max(data.counters?.face ?? 0, maxSuffix(qMesh.faces.keys(), 'f_'));
+    qMesh._heCounter = Math.max(data.counters?.halfEdge ?? 0, maxSuffix(qMesh.halfEdges.keys(), 'he_'));
+
+    return qMesh;
+  }
+
   // ========================================================================
   // ADVANCED MODELING OPERATIONS
   // ========================================================================
@@ -753,11 +1058,9 @@ export class QMesh {
   /**
    * Find edge loop starting from a given edge
    * An edge loop follows parallel edges around a quad mesh
+   * (each step crosses a quad to its opposite edge, then continues in the neighbouring face)
    */
   findEdgeLoop(startEdgeKey: string): string[] {
-    const edgeLoop: string[] = [];
-    const visited = new Set<string>();
-
     // Parse the edge key to get vertex IDs
     const [v1Id, v2Id] = startEdgeKey.split('-');
     const startV1 = this.vertices.get(v1Id);
@@ -765,54 +1068,48 @@ export class QMesh {
 
     if (!startV1 || !startV2) return [];
 
-    // Find the half-edge for this edge
-    let currentHE: QHalfEdge | null = null;
-    this.halfEdges.forEach(he => {
-      if (he.getEdgeKey() === startEdgeKey) {
-        currentHE = he;
+    // Find a half-edge for this edge (prefer one with a face)
+    let startHE: QHalfEdge | null = null;
+    for (const he of this.halfEdges.values()) {
+      if (he.face && this.faces.has(he.face.id) && he.getEdgeKey() === startEdgeKey) {
+        startHE = he;
+        break;
       }
-    });
+    }
 
-    if (!currentHE) return [];
+    if (!startHE) return [];
 
-    // Traverse the loop
-    let iterations = 0;
+    const edgeLoop: string[] = [startEdgeKey];
+    const visited = new Set<string>([startEdgeKey]);
     const maxIterations = 1000; // Safety limit
 
-    while (currentHE && iterations < maxIterations) {
-      const edgeKey = currentHE.getEdgeKey();
-
-      if (visited.has(edgeKey)) break; // Completed loop
-
-      visited.add(edgeKey);
-      edgeLoop.push(edgeKey);
+    // Walk across quads from a half-edge; returns true if the walk closed on itself
+    const walk = (from: QHalfEdge | null, append: (key: string) => void): boolean => {
+      let current = from;
+      let iterations = 0;
 
-      // Move to the next parallel edge
-      // In a quad mesh, we go: current edge → opposite edge in face → opposite edge in adjacent face
-      if (currentHE.face) {
-        // Get the opposite edge in this face (for quads, it's 2 edges away)
-        let oppositeHE = currentHE.next?.next;
+      while (current && current.face && iterations++ < maxIterations) {
+        // Only quads have a well-defined opposite edge
+        if (current.face.getHalfEdges().length !== 4) return false;
 
-        if (oppositeHE && oppositeHE.twin) {
-          // Move to adjacent face
-          currentHE = oppositeHE.twin;
+        const opposite: QHalfEdge | null = current.next?.next ?? null;
+        if (!opposite) return false;
 
-          // Get opposite edge in that face
-          oppositeHE = currentHE.next?.next;
+        const key = opposite.getEdgeKey();
+        if (visited.has(key)) return key === startEdgeKey;
 
-          if (oppositeHE) {
-            currentHE = oppositeHE;
-          } else {
-            break;
-          }
-        } else {
-          break; // Reached boundary
-        }
-      } else {
-        break;
+        visited.add(key);
+        append(key);
+        current = opposite.twin;
       }
 
-      iterations++;
+      return false;
+    };
+
+    const closed = walk(startHE, key => edgeLoop.push(key));
+    if (!closed) {
+      // Open loop: also walk the other way from the start edge
+      walk(startHE.twin, key => edgeLoop.unshift(key));
     }
 
     return edgeLoop;
@@ -820,7 +1117,7 @@ export class QMesh {
 
   /**
    * Insert a loop cut along an edge loop
-   * Splits all faces along the loop and creates new vertices
+   * Splits every quad crossed by the loop into two quads, interpolating corner UVs
    */
   loopCut(edgeKey: string, position: number = 0.5): { newVertexIds: string[]; newEdgeKeys: string[] } {
     const edgeLoop = this.findEdgeLoop(edgeKey);
@@ -832,6 +1129,8 @@ export class QMesh {
       return { newVertexIds, newEdgeKeys };
     }
 
+    const loopEdges = new Set(edgeLoop);
+
     // For each edge in the loop, create a new vertex at the split position
     const edgeToNewVertex = new Map<string, QVertex>();
 
@@ -852,28 +1151,86 @@ export class QMesh {
       edgeToNewVertex.set(edgeKey, newVertex);
     });
 
-    // Now split all faces that contain these edges
-    const facesToSplit = new Set<string>();
+    // Collect faces that contain exactly two loop edges
+    const facesToSplit: QFace[] = [];
+    this.faces.forEach(face => {
+      const count = face.getHalfEdges().filter(he => loopEdges.has(he.getEdgeKey())).length;
+      if (count === 2) facesToSplit.push(face);
+    });
 
-    edgeLoop.forEach(edgeKey => {
-      this.halfEdges.forEach(he => {
-        if (he.getEdgeKey() === edgeKey && he.face) {
-          facesToSplit.add(he.face.id);
-        }
+    facesToSplit.forEach(face => {
+      const halfEdges = face.getHalfEdges();
+      const corners = halfEdges.map(he => (he.prev ? he.prev.toVertex : he.getFromVertex())!);
+      const cornerUVs = halfEdges.map(he => he.uv);
+      const n = halfEdges.length;
+
+      const cutIndices = halfEdges
+        .map((he, i) => (loopEdges.has(he.getEdgeKey()) ? i : -1))
+        .filter(i => i !== -1);
+      const [a, b] = cutIndices;
+
+      // New vertex and interpolated UV on the edge from corner i to corner i+1
+      const cutCorner = (i: number): { vertex: QVertex; uv: THREE.Vector2 | null } => {
+        const key = halfEdges[i].getEdgeKey();
+        const vertex = edgeToNewVertex.get(key)!;
+        const from = corners[i];
+        const t = key.startsWith(`${from.id}-`) ? position : 1 - position;
+        const uvFrom = cornerUVs[i];
+        const uvTo = cornerUVs[(i + 1) % n];
+        const uv = uvFrom && uvTo ? new THREE.Vector2().lerpVectors(uvFrom, uvTo, t) : null;
+        return { vertex, uv };
+      };
+
+      const cutA = cutCorner(a);
+      const cutB = cutCorner(b);
+
+      const loopA: QVertex[] = [cutA.vertex];
+      const uvsA: Array<THREE.Vector2 | null> = [cutA.uv];
+      for (let i = (a + 1) % n; i !== (b + 1) % n; i = (i + 1) % n) {
+        loopA.push(corners[i]);
+        uvsA.push(cornerUVs[i]);
+      }
+      loopA.push(cutB.vertex);
+      uvsA.push(cutB.uv);
+
+      const loopB: QVertex[] = [cutB.vertex];
+      const uvsB: Array<THREE.Vector2 | null> = [cutB.uv];
+      for (let i = (b + 1) % n; i !== (a + 1) % n; i = (i + 1) % n) {
+        loopB.push(corners[i]);
+        uvsB.push(cornerUVs[i]);
+      }
+      loopB.push(cutA.vertex);
+      uvsB.push(cutA.uv);
+
+      // Replace the original face
+      halfEdges.forEach(he => {
+        const from = he.prev ? he.prev.toVertex : null;
+        if (from && from.oneOutgoingHalfEdge === he) from.oneOutgoingHalfEdge = null;
+        if (he.twin && he.twin.twin === he) he.twin.twin = null;
+        this.halfEdges.delete(he.id);
       });
-    });
+      this.faces.delete(face.id);
 
-    // Split each face (this is complex - simplified version)
-    facesToSplit.forEach(faceId => {
-      const face = this.faces.get(faceId);
-      if (!face) return;
+      this.createFaceFromVertices(this.nextFaceId(), loopA, uvsA);
+      this.createFaceFromVertices(this.nextFaceId(), loopB, uvsB);
+
+      const ids = [cutA.vertex.id, cutB.vertex.id].sort();
+      newEdgeKeys.push(`${ids[0]}-${ids[1]}`);
+    });
 
-      // For a quad split by a loop cut, we create 2 new quads
-      // This requires careful topology manipulation
-      // Simplified: Mark for later implementation
-      console.log(`[QMesh] Would split face ${faceId} for loop cut`);
+    // Vertices that ended up on no split face (e.g. loop hit a non-quad) are dropped
+    edgeToNewVertex.forEach(vertex => {
+      if (!vertex.oneOutgoingHalfEdge) {
+        this.vertices.delete(vertex.id);
+        const idx = newVertexIds.indexOf(vertex.id);
+        if (idx !== -1) newVertexIds.splice(idx, 1);
+      }
     });
 
+    // Relink twins
+    this.linkTwins();
+
+    console.log(`[QMesh] Loop cut: split ${facesToSplit.length} faces, created ${newVertexIds.length} vertices`);
     return { newVertexIds, newEdgeKeys };
   }
 
@@ -892,11 +1249,11 @@ export class QMesh {
 
       // Find the half-edge for this edge
       let he: QHalfEdge | null = null;
-      this.halfEdges.forEach(halfEdge => {
+      for (const halfEdge of this.halfEdges.values()) {
         if (halfEdge.getEdgeKey() === edgeKey) {
           he = halfEdge;
         }
-      });
+      }
 
       if (!he || !he.twin) return;
 
@@ -928,8 +1285,13 @@ export class QMesh {
       this.faces.set(bevelFaceId, bevelFace);
       newFaceIds.push(bevelFaceId);
 
+      // Offset vertices inherit the UV of the corner they were offset from
+      const uv1 = this.getCornerUV(he.face, v1);
+      const uv2 = this.getCornerUV(he.face, v2);
+
       // Create half-edges for bevel face
       const bevelVertices = [v1, newV1, newV2, v2];
+      const bevelUVs = [uv1, uv1, uv2, uv2];
       const bevelHalfEdges: QHalfEdge[] = [];
 
       for (let i = 0; i < 4; i++) {
@@ -939,6 +1301,7 @@ export class QMesh {
         const heId = this.nextHalfEdgeId();
         const bevelHE = new QHalfEdge(heId, toVertex);
         bevelHE.face = bevelFace;
+        bevelHE.uv = bevelUVs[i]?.clone() ?? null;
         this.halfEdges.set(heId, bevelHE);
         bevelHalfEdges.push(bevelHE);
 
@@ -1144,6 +1507,7 @@ export class QMesh {
         if (!face) return;
 
         const vertices = face.getVertices();
+        const cornerUVs = face.getHalfEdges().map(he => he.uv);
         const rotatedVertices: QVertex[] = [];
 
         // Create rotated vertices
@@ -1173,6 +1537,7 @@ export class QMesh {
           const heId = this.nextHalfEdgeId();
           const newHE = new QHalfEdge(heId, toVertex);
           newHE.face = newFace;
+          newHE.uv = cornerUVs[i]?.clone() ?? null;
           this.halfEdges.set(heId, newHE);
           newHalfEdges.push(newHE);
 
@@ -1205,6 +1570,18 @@ export class QMesh {
     return { newFaceIds };
   }
 
+  /**
+   * Get the UV of a face's corner at the given vertex (null if unset or not on the face)
+   */
+  getCornerUV(face: QFace | null, vertex: QVertex): THREE.Vector2 | null {
+    if (!face) return null;
+    for (const he of face.getHalfEdges()) {
+      const fromVertex = he.prev ? he.prev.toVertex : he.getFromVertex();
+      if (fromVertex === vertex) return he.uv;
+    }
+    return null;
+  }
+
   /**
    * Get QMesh face ID from BufferGeometry triangle index
    * Used for mapping raycaster hits to QMesh faces
@@ -1521,9 +1898,9 @@ export class QMesh {
   }
 
   /**
-   * Create a face from an ordered list of vertices
+   * Create a face from an ordered list of vertices (with optional per-corner UVs)
    */
-  private createFaceFromVertices(faceId: string, vertices: QVertex[]): QFace {
+  private createFaceFromVertices(faceId: string, vertices: QVertex[], uvs?: Array<THREE.Vector2 | null>): QFace {
     const face = new QFace(faceId);
     this.faces.set(faceId, face);
 
@@ -1537,6 +1914,7 @@ export class QMesh {
       const heId = this.nextHalfEdgeId();
       const he = new QHalfEdge(heId, toVertex);
       he.face = face;
+      he.uv = uvs?.[i]?.clone() ?? null;
 
       // Link to from vertex
       if (!fromVertex.oneOutgoingHalfEdge) {
@@ -0,0 +1,495 @@
+/**
+ * UV Unwrap Operators
+ *
+ * Writes per-corner UVs (QHalfEdge.uv) for a set of QMesh faces.
+ *
+ * Methods:
+ * - planar:      project onto the plane facing the dominant normal (or a given axis)
+ * - box:         per-face projection onto the plane of its dominant normal axis
+ * - cylindrical: angle around an axis by height along it
+ * - spherical:   longitude/latitude around the bounding-box center
+ * - angle-based: cut charts along marked seams and flatten each one with
+ *                mean-value (angle-based) weights, then pack the charts into 0..1
+ */
+
+import * as THREE from 'three';
+import { QMesh, QFace, QHalfEdge, QVertex } from './QMesh';
+
+export type UVUnwrapMethod = 'planar' | 'box' | 'cylindrical' | 'spherical' | 'angle-based';
+
+export interface UVUnwrapOptions {
+  /** Faces to unwrap (defaults to all faces) */
+  faceIds?: string[];
+  /** Projection axis for planar/cylindrical/spherical (planar defaults to the average normal) */
+  axis?: 'x' | 'y' | 'z';
+  /** Gap between packed islands, in 0..1 UV space */
+  margin?: number;
+}
+
+export interface UVUnwrapResult {
+  faceCount: number;
+  chartCount: number;
+}
+
+/**
+ * Unwrap the given faces of a QMesh in place
+ */
+export function unwrapQMesh(
+  qMesh: QMesh,
+  method: UVUnwrapMethod,
+  options: UVUnwrapOptions = {}
+): UVUnwrapResult {
+  const faces = getTargetFaces(qMesh, options.faceIds);
+  if (faces.length === 0) {
+    return { faceCount: 0, chartCount: 0 };
+  }
+
+  let chartCount = 1;
+
+  switch (method) {
+    case 'planar':
+      planarProject(faces, options.axis);
+      break;
+    case 'box':
+      boxProject(faces);
+      break;
+    case 'cylindrical':
+      cylindricalProject(faces, options.axis || 'y');
+      break;
+    case 'spherical':
+      sphericalProject(faces, options.axis || 'y');
+      break;
+    case 'angle-based':
+      chartCount = angleBasedUnwrap(qMesh, faces, options.margin ?? 0.02);
+      break;
+    default:
+      console.warn(`[UVUnwrap] Unknown unwrap method: ${method}`);
+      return { faceCount: 0, chartCount: 0 };
+  }
+
+  console.log(`[UVUnwrap] ${method} unwrap: ${faces.length} faces, ${chartCount} charts`);
+  return { faceCount: faces.length, chartCount };
+}
+
+/**
+ * Mark or clear UV seams on edges
+ */
+export function markSeams(qMesh: QMesh, edgeKeys: Iterable<string>, marked: boolean = true): void {
+  for (const edgeKey of edgeKeys) {
+    if (marked) {
+      qMesh.seams.add(edgeKey);
+    } else {
+      qMesh.seams.delete(edgeKey);
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getTargetFaces(qMesh: QMesh, faceIds?: string[]): QFace[] {
+  const ids = faceIds ?? Array.from(qMesh.faces.keys());
+  return ids
+    .map(id => qMesh.faces.get(id))
+    .filter((face): face is QFace => !!face && face.getHalfEdges().length >= 3);
+}
+
+/** The vertex a half-edge's corner sits on */
+function cornerVertex(he: QHalfEdge): QVertex {
+  return (he.prev ? he.prev.toVertex : he.getFromVertex())!;
+}
+
+const AXIS_VECTORS: Record<'x' | 'y' | 'z', THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1),
+};
+
+/** Orthonormal (u, v) basis for a plane with the given normal */
+function planeBasis(normal: THREE.Vector3): { u: THREE.Vector3; v: THREE.Vector3 } {
+  const n = normal.clone().normalize();
+  const helper = Math.abs(n.y) < 0.99 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(0, 0, 1);
+  const u = new THREE.Vector3().crossVectors(helper, n).normalize();
+  const v = new THREE.Vector3().crossVectors(n, u).normalize();
+  return { u, v };
+}
+
+function dominantAxis(normal: THREE.Vector3): 'x' | 'y' | 'z' {
+  const ax = Math.abs(normal.x);
+  const ay = Math.abs(normal.y);
+  const az = Math.abs(normal.z);
+  if (ax >= ay && ax >= az) return 'x';
+  if (ay >= az) return 'y';
+  return 'z';
+}
+
+/** Uniformly scale and offset all UVs of the faces into the 0..1 square */
+function normalizeToUnitSquare(faces: QFace[]): void {
+  const min = new THREE.Vector2(Infinity, Infinity);
+  const max = new THREE.Vector2(-Infinity, -Infinity);
+
+  faces.forEach(face => face.getHalfEdges().forEach(he => {
+    if (!he.uv) return;
+    min.min(he.uv);
+    max.max(he.uv);
+  }));
+
+  const size = Math.max(max.x - min.x, max.y - min.y);
+  if (!isFinite(size) || size <= 0) return;
+
+  faces.forEach(face => face.getHalfEdges().forEach(he => {
+    if (!he.uv) return;
+    he.uv.sub(min).divideScalar(size);
+  }));
+}
+
+function boundsCenter(faces: QFace[]): { center: THREE.Vector3; box: THREE.Box3 } {
+  const box = new THREE.Box3();
+  faces.forEach(face => face.getVertices().forEach(v => box.expandByPoint(v.position)));
+  return { center: box.getCenter(new THREE.Vector3()), box };
+}
+
+/**
+ * Keep a face from straddling the 0/1 wrap of a periodic U coordinate
+ */
+function fixWrappedU(face: QFace): void {
+  const halfEdges = face.getHalfEdges();
+  const us = halfEdges.map(he => he.uv!.x);
+  if (Math.max(...us) - Math.min(...us) <= 0.5) return;
+
+  halfEdges.forEach(he => {
+    if (he.uv!.x < 0.5) he.uv!.x += 1;
+  });
+}
+
+// ============================================================================
+// Projections
+// ============================================================================
+
+function planarProject(faces: QFace[], axis?: 'x' | 'y' | 'z'): void {
+  let normal: THREE.Vector3;
+  if (axis) {
+    normal = AXIS_VECTORS[axis].clone();
+  } else {
+    normal = new THREE.Vector3();
+    faces.forEach(face => normal.add(face.calculateNormal()));
+    if (normal.lengthSq() < 1e-12) normal.set(0, 0, 1);
+  }
+
+  const { u, v } = planeBasis(normal);
+  faces.forEach(face => face.getHalfEdges().forEach(he => {
+    const p = cornerVertex(he).position;
+    he.uv = new THREE.Vector2(p.dot(u), p.dot(v));
+  }));
+
+  normalizeToUnitSquare(faces);
+}
+
+function boxProject(faces: QFace[]): void {
+  faces.forEach(face => {
+    const normal = face.calculateNormal();
+    const axis = dominantAxis(normal);
+    const sign = normal.getComponent(axis === 'x' ? 0 : axis === 'y' ? 1 : 2) >= 0 ? 1 : -1;
+
+    face.getHalfEdges().forEach(he => {
+      const p = cornerVertex(he).position;
+      // Mirror U on negative-facing sides so textures aren't flipped
+      switch (axis) {
+        case 'x': he.uv = new THREE.Vector2(-sign * p.z, p.y); break;
+        case 'y': he.uv = new THREE.Vector2(p.x, -sign * p.z); break;
+        case 'z': he.uv = new THREE.Vector2(sign * p.x, p.y); break;
+      }
+    });
+  });
+
+  normalizeToUnitSquare(faces);
+}
+
+function cylindricalProject(faces: QFace[], axis: 'x' | 'y' | 'z'): void {
+  const { center, box } = boundsCenter(faces);
+  const axisVec = AXIS_VECTORS[axis];
+  const { u: basisU, v: basisV } = planeBasis(axisVec);
+  const axisIndex = axis === 'x' ? 0 : axis === 'y' ? 1 : 2;
+  const minH = box.min.getComponent(axisIndex);
+  const height = box.max.getComponent(axisIndex) - minH || 1;
+
+  faces.forEach(face => {
+    face.getHalfEdges().forEach(he => {
+      const p = cornerVertex(he).position.clone().sub(center);
+      const angle = Math.atan2(p.dot(basisV), p.dot(basisU));
+      he.uv = new THREE.Vector2(
+        angle / (Math.PI * 2) + 0.5,
+        (cornerVertex(he).position.getComponent(axisIndex) - minH) / height
+      );
+    });
+    fixWrappedU(face);
+  });
+}
+
+function sphericalProject(faces: QFace[], axis: 'x' | 'y' | 'z'): void {
+  const { center } = boundsCenter(faces);
+  const axisVec = AXIS_VECTORS[axis];
+  const { u: basisU, v: basisV } = planeBasis(axisVec);
+
+  faces.forEach(face => {
+    face.getHalfEdges().forEach(he => {
+      const p = cornerVertex(he).position.clone().sub(center);
+      const r = p.length() || 1;
+      const angle = Math.atan2(p.dot(basisV), p.dot(basisU));
+      const polar = Math.acos(THREE.MathUtils.clamp(p.dot(axisVec) / r, -1, 1));
+      he.uv = new THREE.Vector2(angle / (Math.PI * 2) + 0.5, 1 - polar / Math.PI);
+    });
+    fixWrappedU(face);
+  });
+}
+
+// ============================================================================
+// Angle-based unwrap
+// ============================================================================
+
+/**
+ * Split faces into charts: flood fill across edges that are not seams
+ * and not on the boundary of the face set
+ */
+function buildCharts(qMesh: QMesh, faces: QFace[]): QFace[][] {
+  const inSet = new Set(faces.map(f => f.id));
+  const visited = new Set<string>();
+  const charts: QFace[][] = [];
+
+  faces.forEach(seed => {
+    if (visited.has(seed.id)) return;
+
+    const chart: QFace[] = [];
+    const stack = [seed];
+    visited.add(seed.id);
+
+    while (stack.length > 0) {
+      const face = stack.pop()!;
+      chart.push(face);
+
+      face.getHalfEdges().forEach(he => {
+        const neighbour = he.twin?.face;
+        if (!neighbour || !inSet.has(neighbour.id) || visited.has(neighbour.id)) return;
+        if (qMesh.seams.has(he.getEdgeKey())) return;
+        visited.add(neighbour.id);
+        stack.push(neighbour);
+      });
+    }
+
+    charts.push(chart);
+  });
+
+  return charts;
+}
+
+/**
+ * Flatten one chart with mean-value weights and a circular boundary.
+ * Returns 2D positions per vertex ID, or null if the chart has no boundary.
+ */
+function flattenChart(qMesh: QMesh, chart: QFace[]): Map<string, THREE.Vector2> | null {
+  const chartFaces = new Set(chart.map(f => f.id));
+
+  // Boundary half-edges: twin missing, twin outside the chart, or a seam
+  const boundaryNext = new Map<string, QHalfEdge>(); // from-vertex ID -> boundary half-edge
+  chart.forEach(face => face.getHalfEdges().forEach(he => {
+    const isBoundary = !he.twin || !he.twin.face || !chartFaces.has(he.twin.face.id) || qMesh.seams.has(he.getEdgeKey());
+    if (isBoundary) boundaryNext.set(cornerVertex(he).id, he);
+  }));
+
+  if (boundaryNext.size < 3) return null;
+
+  // Trace boundary loops and keep the longest as the outer boundary
+  const used = new Set<string>();
+  let outer: QVertex[] = [];
+  let outerLength = -1;
+
+  boundaryNext.forEach((startHE, startId) => {
+    if (used.has(startId)) return;
+    const loop: QVertex[] = [];
+    let length = 0;
+    let he: QHalfEdge | undefined = startHE;
+
+    while (he && !used.has(cornerVertex(he).id)) {
+      const from = cornerVertex(he);
+      used.add(from.id);
+      loop.push(from);
+      length += from.position.distanceTo(he.toVertex.position);
+      he = boundaryNext.get(he.toVertex.id);
+    }
+
+    if (loop.length >= 3 && length > outerLength) {
+      outer = loop;
+      outerLength = length;
+    }
+  });
+
+  if (outer.length < 3) return null;
+
+  const uv = new Map<string, THREE.Vector2>();
+  const fixed = new Set<string>();
+
+  // Boundary on a unit circle, spaced by arc length
+  let travelled = 0;
+  outer.forEach((vertex, i) => {
+    const angle = (travelled / outerLength) * Math.PI * 2;
+    uv.set(vertex.id, new THREE.Vector2(Math.cos(angle), Math.sin(angle)));
+    fixed.add(vertex.id);
+    travelled += vertex.position.distanceTo(outer[(i + 1) % outer.length].position);
+  });
+
+  // Mean-value weights: w_ij += tan(theta_i / 2) / |x_j - x_i| for each face corner angle theta_i
+  const weights = new Map<string, Map<string, number>>();
+  const addWeight = (i: QVertex, j: QVertex, w: number) => {
+    let row = weights.get(i.id);
+    if (!row) {
+      row = new Map();
+      weights.set(i.id, row);
+    }
+    row.set(j.id, (row.get(j.id) || 0) + w);
+  };
+
+  chart.forEach(face => {
+    const corners = face.getHalfEdges().map(cornerVertex);
+    const n = corners.length;
+    corners.forEach((vertex, k) => {
+      const prev = corners[(k - 1 + n) % n];
+      const next = corners[(k + 1) % n];
+      const toPrev = prev.position.clone().sub(vertex.position);
+      const toNext = next.position.clone().sub(vertex.position);
+      const lenPrev = toPrev.length();
+      const lenNext = toNext.length();
+      if (lenPrev < 1e-12 || lenNext < 1e-12) return;
+
+      const tanHalf = Math.tan(toPrev.angleTo(toNext) / 2);
+      addWeight(vertex, prev, tanHalf / lenPrev);
+      addWeight(vertex, next, tanHalf / lenNext);
+    });
+  });
+
+  // Interior vertices start at the center and relax with Gauss-Seidel
+  weights.forEach((_row, id) => {
+    if (!uv.has(id)) uv.set(id, new THREE.Vector2());
+  });
+
+  const maxIterations = 2000;
+  const tolerance = 1e-7;
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let maxDelta = 0;
+
+    weights.forEach((row, id) => {
+      if (fixed.has(id)) return;
+      const sum = new THREE.Vector2();
+      let total = 0;
+      row.forEach((w, j) => {
+        const p = uv.get(j);
+        if (!p) return;
+        sum.addScaledVector(p, w);
+        total += w;
+      });
+      if (total <= 0) return;
+      sum.divideScalar(total);
+
+      const current = uv.get(id)!;
+      maxDelta = Math.max(maxDelta, current.distanceToSquared(sum));
+      current.copy(sum);
+    });
+
+    if (maxDelta < tolerance * tolerance) break;
+  }
+
+  return uv;
+}
+
+/** Polygon area via Newell's method (works for non-planar n-gons) */
+function polygonArea3D(face: QFace): number {
+  const points = face.getHalfEdges().map(he => cornerVertex(he).position);
+  const n = new THREE.Vector3();
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    n.x += (a.y - b.y) * (a.z + b.z);
+    n.y += (a.z - b.z) * (a.x + b.x);
+    n.z += (a.x - b.x) * (a.y + b.y);
+  }
+  return n.length() / 2;
+}
+
+function polygonArea2D(points: THREE.Vector2[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Unwrap faces chart by chart and shelf-pack the charts. Returns the chart count.
+ */
+function angleBasedUnwrap(qMesh: QMesh, faces: QFace[], margin: number): number {
+  const charts = buildCharts(qMesh, faces);
+
+  const islands: Array<{ faces: QFace[]; min: THREE.Vector2; size: THREE.Vector2 }> = [];
+
+  charts.forEach(chart => {
+    const flat = flattenChart(qMesh, chart);
+
+    if (!flat) {
+      console.warn('[UVUnwrap] Chart has no boundary - mark seams to unwrap closed surfaces; using box projection');
+      boxProject(chart);
+    } else {
+      chart.forEach(face => face.getHalfEdges().forEach(he => {
+        he.uv = flat.get(cornerVertex(he).id)!.clone();
+      }));
+    }
+
+    // Scale so UV area matches 3D area (keeps texel density consistent between charts)
+    let area3D = 0;
+    let area2D = 0;
+    chart.forEach(face => {
+      area3D += polygonArea3D(face);
+      area2D += polygonArea2D(face.getHalfEdges().map(he => he.uv!));
+    });
+    const scale = area2D > 1e-12 ? Math.sqrt(area3D / area2D) : 1;
+
+    const min = new THREE.Vector2(Infinity, Infinity);
+    const max = new THREE.Vector2(-Infinity, -Infinity);
+    chart.forEach(face => face.getHalfEdges().forEach(he => {
+      he.uv!.multiplyScalar(scale);
+      min.min(he.uv!);
+      max.max(he.uv!);
+    }));
+
+    islands.push({ faces: chart, min, size: max.clone().sub(min) });
+  });
+
+  // Shelf packing, tallest islands first
+  const totalArea = islands.reduce((sum, island) => sum + island.size.x * island.size.y, 0);
+  const maxWidth = Math.max(Math.sqrt(totalArea) * 1.25, ...islands.map(i => i.size.x));
+  const gap = margin * maxWidth;
+
+  islands.sort((a, b) => b.size.y - a.size.y);
+
+  let cursorX = 0;
+  let cursorY = 0;
+  let shelfHeight = 0;
+
+  islands.forEach(island => {
+    if (cursorX > 0 && cursorX + island.size.x > maxWidth) {
+      cursorX = 0;
+      cursorY += shelfHeight + gap;
+      shelfHeight = 0;
+    }
+
+    const offset = new THREE.Vector2(cursorX, cursorY).sub(island.min);
+    island.faces.forEach(face => face.getHalfEdges().forEach(he => he.uv!.add(offset)));
+
+    cursorX += island.size.x + gap;
+    shelfHeight = Math.max(shelfHeight, island.size.y);
+  });
+
+  normalizeToUnitSquare(faces);
+  return charts.length;
+}
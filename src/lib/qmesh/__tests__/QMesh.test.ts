@@ -570,6 +570,7 @@ describe('QMesh', () => {
   describe('Round-trip (decompile → compile)', () => {
     it('preserves vertex count', () => {
       const geometry = new THREE.BoxGeometry(1, 1, 1);
+      geometry.deleteAttribute('uv');
       const qmesh = QMesh.fromBufferGeometry(geometry);
       const compiled = qmesh.toBufferGeometry();
 
@@ -577,6 +578,23 @@ describe('QMesh', () => {
       expect(compiled.attributes.position.count).toBe(qmesh.vertices.size);
     });
 
+    it('splits vertices along UV seams', () => {
+      const geometry = new THREE.BoxGeometry(1, 1, 1);
+      const qmesh = QMesh.fromBufferGeometry(geometry);
+      const compiled = qmesh.toBufferGeometry();
+
+      // Every QVertex keeps its slot; UV seams append split copies after them
+      const positions = compiled.attributes.position;
+      // BoxGeometry's per-face UVs differ at most corners: 8 slots + 12 seam copies
+      expect(qmesh.vertices.size).toBe(8);
+      expect(positions.count).toBe(20);
+      Array.from(qmesh.vertices.values()).forEach((v, i) => {
+        expect(positions.getX(i)).toBeCloseTo(v.position.x);
+        expect(positions.getY(i)).toBeCloseTo(v.position.y);
+        expect(positions.getZ(i)).toBeCloseTo(v.position.z);
+      });
+    });
+
     it('preserves basic shape', () => {
       const geometry = new THREE.SphereGeometry(1, 8, 6);
       const originalPositions = geometry.attributes.position;
@@ -0,0 +1,200 @@
+/**
+ * QMesh UV Tests
+ *
+ * Corner UVs stored on half-edges: import, survival through modeling
+ * operations, unwrap operators and seam splitting in the compiled buffer.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { QMesh } from '../QMesh';
+import { unwrapQMesh, markSeams, UVUnwrapMethod } from '../UVUnwrap';
+
+function createCubeQMesh(): QMesh {
+  return QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+}
+
+function createPlaneQMesh(segments: number = 2): QMesh {
+  return QMesh.fromBufferGeometry(new THREE.PlaneGeometry(2, 2, segments, segments));
+}
+
+function allCornerUVs(qMesh: QMesh): Array<THREE.Vector2 | null> {
+  const uvs: Array<THREE.Vector2 | null> = [];
+  qMesh.faces.forEach(face => {
+    face.getVertices().forEach(v => uvs.push(qMesh.getCornerUV(face, v)));
+  });
+  return uvs;
+}
+
+function expectUVsInUnitSquare(qMesh: QMesh) {
+  allCornerUVs(qMesh).forEach(uv => {
+    expect(uv).not.toBeNull();
+    expect(uv!.x).toBeGreaterThanOrEqual(-1e-6);
+    expect(uv!.x).toBeLessThanOrEqual(1 + 1e-6);
+    expect(uv!.y).toBeGreaterThanOrEqual(-1e-6);
+    expect(uv!.y).toBeLessThanOrEqual(1 + 1e-6);
+  });
+}
+
+describe('QMesh UVs', () => {
+  describe('import and compile', () => {
+    it('reads per-corner UVs from BufferGeometry', () => {
+      const qMesh = createCubeQMesh();
+
+      allCornerUVs(qMesh).forEach(uv => expect(uv).not.toBeNull());
+    });
+
+    it('keeps different UVs for the same vertex on different faces', () => {
+      const qMesh = createCubeQMesh();
+      const vertex = Array.from(qMesh.vertices.values())[0];
+      const faces = Array.from(qMesh.faces.values()).filter(f => f.getVertices().includes(vertex));
+      const uvs = faces.map(f => qMesh.getCornerUV(f, vertex)!);
+
+      expect(faces).toHaveLength(3);
+      expect(uvs.some(uv => !uv.equals(uvs[0]))).toBe(true);
+    });
+
+    it('writes a uv attribute and splits vertices along UV seams', () => {
+      const qMesh = createCubeQMesh();
+      const compiled = qMesh.toBufferGeometry();
+
+      expect(compiled.attributes.uv).toBeDefined();
+      expect(compiled.attributes.uv.count).toBe(compiled.attributes.position.count);
+      expect(compiled.attributes.position.count).toBeGreaterThan(qMesh.vertices.size);
+    });
+
+    it('round-trips UVs through compile and decompile', () => {
+      const plane = new THREE.PlaneGeometry(1, 1, 1, 1);
+      const compiled = QMesh.fromBufferGeometry(plane).toBufferGeometry();
+      const original = new Set<string>();
+      for (let i = 0; i < plane.attributes.uv.count; i++) {
+        original.add(`${plane.attributes.uv.getX(i)},${plane.attributes.uv.getY(i)}`);
+      }
+
+      for (let i = 0; i < compiled.attributes.uv.count; i++) {
+        expect(original.has(`${compiled.attributes.uv.getX(i)},${compiled.attributes.uv.getY(i)}`)).toBe(true);
+      }
+    });
+  });
+
+  describe('modeling operations', () => {
+    it('extrude gives new faces corner UVs', () => {
+      const qMesh = createCubeQMesh();
+      const faceId = Array.from(qMesh.faces.keys())[0];
+      const { newFaceIds } = qMesh.extrudeFaces([faceId], 0.5);
+
+      newFaceIds.forEach(id => {
+        const face = qMesh.faces.get(id)!;
+        face.getVertices().forEach(v => expect(qMesh.getCornerUV(face, v)).not.toBeNull());
+      });
+    });
+
+    it('loop cut splits faces and interpolates UVs', () => {
+      const qMesh = createPlaneQMesh(1);
+      const faceCount = qMesh.faces.size;
+      const edgeKey = qMesh.getEdges()[0].edgeKey;
+
+      qMesh.loopCut(edgeKey, 0.5);
+
+      expect(qMesh.faces.size).toBeGreaterThan(faceCount);
+      allCornerUVs(qMesh).forEach(uv => {
+        expect(uv).not.toBeNull();
+        expect(uv!.x).toBeGreaterThanOrEqual(0);
+        expect(uv!.x).toBeLessThanOrEqual(1);
+      });
+    });
+
+    it('bevel and spin keep corner UVs', () => {
+      const bevelled = createCubeQMesh();
+      bevelled.bevelEdges([bevelled.getEdges()[0].edgeKey], 0.1);
+      allCornerUVs(bevelled).forEach(uv => expect(uv).not.toBeNull());
+
+      const spun = createPlaneQMesh(1);
+      spun.spin(Array.from(spun.faces.keys()), new THREE.Vector3(0, 1, 0), Math.PI / 2, 2);
+      allCornerUVs(spun).forEach(uv => expect(uv).not.toBeNull());
+    });
+  });
+
+  describe('unwrapQMesh', () => {
+    const methods: UVUnwrapMethod[] = ['planar', 'box', 'angle-based'];
+
+    methods.forEach(method => {
+      it(`${method} unwrap writes UVs in the unit square`, () => {
+        const qMesh = createCubeQMesh();
+        markSeams(qMesh, qMesh.getEdges().map(e => e.edgeKey));
+
+        const result = unwrapQMesh(qMesh, method);
+
+        expect(result.faceCount).toBe(6);
+        expectUVsInUnitSquare(qMesh);
+      });
+    });
+
+    (['cylindrical', 'spherical'] as UVUnwrapMethod[]).forEach(method => {
+      it(`${method} unwrap keeps faces from straddling the wrap-around`, () => {
+        const qMesh = QMesh.fromBufferGeometry(new THREE.CylinderGeometry(1, 1, 2, 8, 1, true));
+
+        unwrapQMesh(qMesh, method);
+
+        qMesh.faces.forEach(face => {
+          const us = face.getVertices().map(v => qMesh.getCornerUV(face, v)!.x);
+          expect(Math.max(...us) - Math.min(...us)).toBeLessThan(0.5);
+        });
+      });
+    });
+
+    it('only touches the selected faces', () => {
+      const qMesh = createCubeQMesh();
+      const [selected, untouched] = Array.from(qMesh.faces.values());
+      const before = untouched.getVertices().map(v => qMesh.getCornerUV(untouched, v)!.clone());
+
+      unwrapQMesh(qMesh, 'planar', { faceIds: [selected.id] });
+
+      untouched.getVertices().forEach((v, i) => {
+        expect(qMesh.getCornerUV(untouched, v)!.equals(before[i])).toBe(true);
+      });
+    });
+
+    it('angle-based unwrap of an open patch is a single chart', () => {
+      const qMesh = createPlaneQMesh(3);
+
+      const result = unwrapQMesh(qMesh, 'angle-based');
+
+      expect(result.chartCount).toBe(1);
+      expectUVsInUnitSquare(qMesh);
+    });
+
+    it('seams split an open patch into separate charts', () => {
+      const qMesh = createPlaneQMesh(2);
+      // Cut the 2x2 plane down the middle (x = 0)
+      const seamEdges = qMesh.getEdges().filter(e =>
+        Math.abs(e.v1.position.x) < 1e-6 && Math.abs(e.v2.position.x) < 1e-6
+      );
+      markSeams(qMesh, seamEdges.map(e => e.edgeKey));
+
+      const result = unwrapQMesh(qMesh, 'angle-based');
+
+      expect(result.chartCount).toBe(2);
+      expectUVsInUnitSquare(qMesh);
+    });
+
+    it('returns zero faces for an empty selection', () => {
+      const qMesh = createCubeQMesh();
+
+      expect(unwrapQMesh(qMesh, 'box', { faceIds: ['missing'] }).faceCount).toBe(0);
+    });
+  });
+
+  describe('markSeams', () => {
+    it('marks and clears seams', () => {
+      const qMesh = createCubeQMesh();
+      const edgeKey = qMesh.getEdges()[0].edgeKey;
+
+      markSeams(qMesh, [edgeKey]);
+      expect(qMesh.seams.has(edgeKey)).toBe(true);
+
+      markSeams(qMesh, [edgeKey], false);
+      expect(qMesh.seams.has(edgeKey)).toBe(false);
+    });
+  });
+});
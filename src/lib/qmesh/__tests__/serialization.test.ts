@@ -0,0 +1,175 @@
+/**
+ * QMesh Serialization Tests
+ *
+ * Verifies that toJSON()/fromJSON() preserve n-gons, quads, IDs and twins
+ * so edit-mode selections and shape-key indices survive a save/load round trip.
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { QMesh, QMESH_FORMAT_VERSION } from '../QMesh';
+
+function createCubeQMesh(): QMesh {
+  return QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+}
+
+function roundTrip(qMesh: QMesh): QMesh {
+  return QMesh.fromJSON(JSON.parse(JSON.stringify(qMesh.toJSON())));
+}
+
+describe('QMesh Serialization', () => {
+  it('writes the current format version', () => {
+    const data = createCubeQMesh().toJSON();
+
+    expect(data.version).toBe(QMESH_FORMAT_VERSION);
+    expect(data.vertices).toHaveLength(8);
+    expect(data.faces).toHaveLength(6);
+  });
+
+  it('preserves vertex, face and half-edge IDs in order', () => {
+    const original = createCubeQMesh();
+    const restored = roundTrip(original);
+
+    expect(Array.from(restored.vertices.keys())).toEqual(Array.from(original.vertices.keys()));
+    expect(Array.from(restored.faces.keys())).toEqual(Array.from(original.faces.keys()));
+    expect(new Set(restored.halfEdges.keys())).toEqual(new Set(original.halfEdges.keys()));
+  });
+
+  it('preserves quad topology instead of re-triangulating', () => {
+    const restored = roundTrip(createCubeQMesh());
+
+    restored.faces.forEach(face => {
+      expect(face.getVertices()).toHaveLength(4);
+    });
+  });
+
+  it('preserves n-gon faces', () => {
+    const qMesh = createCubeQMesh();
+    const faceId = Array.from(qMesh.faces.keys())[0];
+    qMesh.extrudeFaces([faceId], 0.5);
+    const edgeKey = qMesh.getEdges()[0].edgeKey;
+    qMesh.dissolveEdges([edgeKey]);
+
+    const original = new Map(Array.from(qMesh.faces.values()).map(f => [f.id, f.getVertices().map(v => v.id)]));
+    const restored = roundTrip(qMesh);
+
+    restored.faces.forEach(face => {
+      expect(face.getVertices().map(v => v.id)).toEqual(original.get(face.id));
+    });
+  });
+
+  it('relinks twins and vertex positions exactly', () => {
+    const original = createCubeQMesh();
+    const restored = roundTrip(original);
+
+    original.halfEdges.forEach(he => {
+      const copy = restored.halfEdges.get(he.id)!;
+      expect(copy.toVertex.id).toBe(he.toVertex.id);
+      expect(copy.twin?.id).toBe(he.twin?.id);
+      expect(copy.next?.id).toBe(he.next?.id);
+    });
+    original.vertices.forEach(v => {
+      expect(restored.vertices.get(v.id)!.position.equals(v.position)).toBe(true);
+    });
+  });
+
+  it('keeps edge loops identical after reload', () => {
+    const original = createCubeQMesh();
+    const edgeKey = original.getEdges()[0].edgeKey;
+    const restored = roundTrip(original);
+
+    expect(restored.findEdgeLoop(edgeKey)).toEqual(original.findEdgeLoop(edgeKey));
+  });
+
+  it('compiles to the same buffer vertex order', () => {
+    const original = createCubeQMesh();
+    const restored = roundTrip(original);
+
+    const a = original.toBufferGeometry().attributes.position.array;
+    const b = restored.toBufferGeometry().attributes.position.array;
+    expect(Array.from(b)).toEqual(Array.from(a));
+  });
+
+  it('continues ID counters without collisions', () => {
+    const original = createCubeQMesh();
+    const restored = roundTrip(original);
+
+    expect(restored.vertices.has(restored.nextVertexId())).toBe(false);
+    expect(restored.faces.has(restored.nextFaceId())).toBe(false);
+    expect(restored.halfEdges.has(restored.nextHalfEdgeId())).toBe(false);
+  });
+
+  it('preserves corner UVs and seams', () => {
+    const original = createCubeQMesh();
+    const edgeKey = original.getEdges()[0].edgeKey;
+    original.seams.add(edgeKey);
+    const restored = roundTrip(original);
+
+    expect(restored.seams.has(edgeKey)).toBe(true);
+    original.faces.forEach(face => {
+      const copy = restored.faces.get(face.id)!;
+      face.getVertices().forEach(v => {
+        const uv = restored.getCornerUV(copy, restored.vertices.get(v.id)!);
+        expect(uv!.equals(original.getCornerUV(face, v)!)).toBe(true);
+      });
+    });
+  });
+
+  it('preserves bevel weights', () => {
+    const original = createCubeQMesh();
+    const edgeKey = original.getEdges()[0].edgeKey;
+    original.bevelWeights.set(edgeKey, 0.75);
+
+    expect(roundTrip(original).bevelWeights.get(edgeKey)).toBe(0.75);
+  });
+
+  it('preserves crease weights', () => {
+    const original = createCubeQMesh();
+    const edgeKey = original.getEdges()[0].edgeKey;
+    original.creases.set(edgeKey, 0.5);
+
+    expect(roundTrip(original).creases.get(edgeKey)).toBe(0.5);
+  });
+
+  it('preserves vertex colors', () => {
+    const geometry = new THREE.BoxGeometry(1, 1, 1);
+    const colors = new Float32Array(geometry.getAttribute('position').count * 3).fill(0.25);
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+
+    const restored = roundTrip(QMesh.fromBufferGeometry(geometry));
+
+    restored.vertices.forEach(v => expect(v.color?.toArray()).toEqual([0.25, 0.25, 0.25]));
+    expect(restored.toBufferGeometry().getAttribute('color')).toBeDefined();
+    expect(createCubeQMesh().toBufferGeometry().getAttribute('color')).toBeUndefined();
+  });
+
+  it('reads version 1 data without UVs', () => {
+    const data = createCubeQMesh().toJSON();
+    data.version = 1;
+    data.faces.forEach(face => delete face.uvs);
+    delete data.seams;
+    delete data.bevelWeights;
+    delete data.creases;
+
+    const restored = QMesh.fromJSON(data);
+
+    expect(restored.faces.size).toBe(6);
+    expect(restored.seams.size).toBe(0);
+    expect(restored.creases.size).toBe(0);
+    restored.faces.forEach(face => {
+      face.getVertices().forEach(v => expect(restored.getCornerUV(face, v)).toBeNull());
+    });
+  });
+
+  it('rejects newer format versions', () => {
+    const data = createCubeQMesh().toJSON();
+    data.version = QMESH_FORMAT_VERSION + 1;
+
+    expect(() => QMesh.fromJSON(data)).toThrow(/Unsupported QMesh format version/);
+  });
+
+  it('rejects malformed data', () => {
+    expect(() => QMesh.fromJSON(null as any)).toThrow();
+    expect(() => QMesh.fromJSON({ version: 1 } as any)).toThrow();
+  });
+});
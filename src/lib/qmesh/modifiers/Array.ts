@@ -0,0 +1,338 @@
+/**
+ * Array Modifier
+ *
+ * Repeats geometry with a constant, relative (bounding-box) or object offset,
+ * or around an axis for circular arrays. Copies can be welded where they touch,
+ * and the count can be derived from a fit length instead of set directly.
+ */
+
+import { QMesh, QVertex, QFace, QHalfEdge } from '../QMesh';
+import * as THREE from 'three';
+
+export interface ArrayModifierOptions {
+  /** Number of copies, including the original (ignored in fit-to-length mode) */
+  count: number;
+  type?: 'linear' | 'circular';
+
+  // Linear
+  /** Offset in local units between copies */
+  constantOffset?: THREE.Vector3;
+  /** Offset as a multiple of the mesh bounding box size */
+  relativeOffset?: THREE.Vector3;
+  /** Extra transform applied per copy, e.g. another object's transform relative to this one */
+  offsetMatrix?: THREE.Matrix4;
+  /** Derive count from a total length instead of using `count` directly */
+  fitType?: 'count' | 'length';
+  fitLength?: number;
+
+  // Circular
+  axis?: 'x' | 'y' | 'z';
+  /** Total sweep in degrees; 360 spaces copies evenly around a full circle */
+  angle?: number;
+
+  // Merging
+  merge?: boolean;
+  mergeDistance?: number;
+}
+
+const AXIS_VECTORS: Record<'x' | 'y' | 'z', THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1),
+};
+
+/**
+ * Apply array modifier to a QMesh
+ */
+export function applyArrayModifier(qMesh: QMesh, options: ArrayModifierOptions): QMesh {
+  const type = options.type || 'linear';
+  const angle = options.angle ?? 360;
+  const fullCircle = type === 'circular' && Math.abs(Math.abs(angle) - 360) < 1e-6;
+
+  // Step 1: Build the per-copy step transform
+  const step = type === 'circular'
+    ? computeCircularStep(options, angle, fullCircle)
+    : computeLinearStep(qMesh, options);
+
+  const count = resolveCount(options, step, type);
+  if (count <= 1) {
+    return qMesh;
+  }
+
+  // Step 2: Create vertices for every copy
+  const newMesh = new QMesh();
+  const copyVertices: Map<string, QVertex>[] = [];
+  const transform = new THREE.Matrix4();
+
+  for (let copy = 0; copy < count; copy++) {
+    const vertices = new Map<string, QVertex>();
+
+    qMesh.vertices.forEach((vertex, vertexId) => {
+      const pos = vertex.position.clone().applyMatrix4(transform);
+      const newVertex = new QVertex(`c${copy}_${vertexId}`, pos);
+      vertices.set(vertexId, newVertex);
+      newMesh.vertices.set(newVertex.id, newVertex);
+    });
+
+    copyVertices.push(vertices);
+    transform.premultiply(step);
+  }
+
+  // Step 3: Weld vertices where neighbouring copies touch
+  const vertexMergeMap = new Map<QVertex, QVertex>();
+
+  if (options.merge) {
+    const distance = options.mergeDistance ?? 0.001;
+
+    for (let copy = 1; copy < count; copy++) {
+      mergeCopies(copyVertices[copy - 1], copyVertices[copy], distance, vertexMergeMap);
+    }
+    if (fullCircle) {
+      mergeCopies(copyVertices[0], copyVertices[count - 1], distance, vertexMergeMap);
+    }
+
+    vertexMergeMap.forEach((_target, merged) => newMesh.vertices.delete(merged.id));
+  }
+
+  const resolve = (vertex: QVertex) => resolveTarget(vertex, vertexMergeMap);
+
+  // Step 4: Create faces for every copy (flip winding for mirrored transforms)
+  const flip = step.determinant() < 0;
+  let faceCounter = 0;
+  let heCounter = 0;
+
+  for (let copy = 0; copy < count; copy++) {
+    const vertices = copyVertices[copy];
+    const reverse = flip && copy % 2 === 1;
+
+    qMesh.faces.forEach(face => {
+      const corners: Array<{ vertex: QVertex; uv: THREE.Vector2 | null }> = [];
+
+      face.getHalfEdges().forEach(he => {
+        const source = he.prev?.toVertex;
+        if (!source) return;
+        const vertex = resolve(vertices.get(source.id)!);
+        // Drop corners collapsed by merging
+        if (corners.length > 0 && corners[corners.length - 1].vertex === vertex) return;
+        corners.push({ vertex, uv: he.uv ? he.uv.clone() : null });
+      });
+
+      if (corners.length > 1 && corners[0].vertex === corners[corners.length - 1].vertex) {
+        corners.pop();
+      }
+      if (corners.length < 3) return;
+      if (reverse) corners.reverse();
+
+      const newFace = new QFace(`f_c${copy}_${faceCounter++}`);
+      newMesh.faces.set(newFace.id, newFace);
+
+      // Create half-edges (each stores the UV of its from-corner)
+      const halfEdges: QHalfEdge[] = [];
+      for (let i = 0; i < corners.length; i++) {
+        const fromVertex = corners[i].vertex;
+        const toVertex = corners[(i + 1) % corners.length].vertex;
+
+        const he = new QHalfEdge(`he_${heCounter++}`, toVertex);
+        he.face = newFace;
+        he.uv = corners[i].uv;
+        halfEdges.push(he);
+        newMesh.halfEdges.set(he.id, he);
+
+        if (!fromVertex.oneOutgoingHalfEdge) {
+          fromVertex.oneOutgoingHalfEdge = he;
+        }
+      }
+
+      // Link next/prev
+      for (let i = 0; i < halfEdges.length; i++) {
+        halfEdges[i].next = halfEdges[(i + 1) % halfEdges.length];
+        halfEdges[i].prev = halfEdges[(i - 1 + halfEdges.length) % halfEdges.length];
+      }
+
+      newFace.oneHalfEdge = halfEdges[0];
+    });
+  }
+
+  // Step 5: Link twin edges and carry UV seams over to every copy
+  linkTwins(newMesh);
+  copySeams(qMesh, newMesh, copyVertices, resolve);
+
+  console.log(`[Array] Created ${count} copies: ${newMesh.vertices.size} vertices, ${newMesh.faces.size} faces`);
+  if (vertexMergeMap.size > 0) {
+    console.log(`[Array] Merged ${vertexMergeMap.size} vertices between copies`);
+  }
+
+  return newMesh;
+}
+
+/**
+ * Translation (plus optional object transform) between consecutive linear copies
+ */
+function computeLinearStep(qMesh: QMesh, options: ArrayModifierOptions): THREE.Matrix4 {
+  const translation = new THREE.Vector3();
+
+  if (options.constantOffset) {
+    translation.add(options.constantOffset);
+  }
+
+  if (options.relativeOffset && qMesh.vertices.size > 0) {
+    const box = new THREE.Box3();
+    qMesh.vertices.forEach(v => box.expandByPoint(v.position));
+    const size = box.getSize(new THREE.Vector3());
+    translation.add(size.multiply(options.relativeOffset));
+  }
+
+  const step = new THREE.Matrix4().makeTranslation(translation.x, translation.y, translation.z);
+  if (options.offsetMatrix) {
+    step.multiply(options.offsetMatrix);
+  }
+  return step;
+}
+
+/**
+ * Rotation between consecutive circular copies around the local origin
+ */
+function computeCircularStep(options: ArrayModifierOptions, angle: number, fullCircle: boolean): THREE.Matrix4 {
+  const count = Math.max(1, Math.floor(options.count));
+  // A full circle would put the last copy on top of the first
+  const divisions = fullCircle ? count : Math.max(1, count - 1);
+  const stepAngle = THREE.MathUtils.degToRad(angle) / divisions;
+
+  return new THREE.Matrix4().makeRotationAxis(AXIS_VECTORS[options.axis || 'z'], stepAngle);
+}
+
+/**
+ * Number of copies to create, honouring fit-to-length for linear arrays.
+ * Fit length is measured from the first copy's origin to the last copy's origin.
+ */
+function resolveCount(options: ArrayModifierOptions, step: THREE.Matrix4, type: 'linear' | 'circular'): number {
+  if (type === 'linear' && options.fitType === 'length') {
+    const distance = new THREE.Vector3().setFromMatrixPosition(step).length();
+    if (distance < 1e-6) return 1;
+    return Math.floor(((options.fitLength ?? 0) + 1e-6) / distance) + 1;
+  }
+
+  return Math.max(1, Math.floor(options.count));
+}
+
+/**
+ * Map vertices of `next` onto coincident vertices of `previous`
+ */
+function mergeCopies(
+  previous: Map<string, QVertex>,
+  next: Map<string, QVertex>,
+  distance: number,
+  vertexMergeMap: Map<QVertex, QVertex>
+): void {
+  const cellSize = Math.max(distance, 1e-6);
+  const grid = new Map<string, QVertex[]>();
+  const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+  previous.forEach(vertex => {
+    const p = vertex.position;
+    const key = cellKey(Math.floor(p.x / cellSize), Math.floor(p.y / cellSize), Math.floor(p.z / cellSize));
+    if (!grid.has(key)) grid.set(key, []);
+    grid.get(key)!.push(vertex);
+  });
+
+  next.forEach(vertex => {
+    if (vertexMergeMap.has(vertex)) return;
+
+    const p = vertex.position;
+    const cx = Math.floor(p.x / cellSize);
+    const cy = Math.floor(p.y / cellSize);
+    const cz = Math.floor(p.z / cellSize);
+
+    let closest: QVertex | null = null;
+    let closestDistance = distance;
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const candidates = grid.get(cellKey(cx + dx, cy + dy, cz + dz));
+          if (!candidates) continue;
+
+          for (const candidate of candidates) {
+            if (candidate === vertex) continue;
+            const d = candidate.position.distanceTo(p);
+            if (d <= closestDistance) {
+              closest = candidate;
+              closestDistance = d;
+            }
+          }
+        }
+      }
+    }
+
+    // Never merge a vertex into one that already merges back into it
+    if (closest && resolveTarget(closest, vertexMergeMap) !== vertex) {
+      vertexMergeMap.set(vertex, closest);
+    }
+  });
+}
+
+function resolveTarget(vertex: QVertex, vertexMergeMap: Map<QVertex, QVertex>): QVertex {
+  let current = vertex;
+  while (vertexMergeMap.has(current)) {
+    current = vertexMergeMap.get(current)!;
+  }
+  return current;
+}
+
+/**
+ * Mark the copied edges of every source seam as seams
+ */
+function copySeams(
+  source: QMesh,
+  target: QMesh,
+  copyVertices: Map<string, QVertex>[],
+  resolve: (vertex: QVertex) => QVertex
+): void {
+  if (source.seams.size === 0) return;
+
+  source.halfEdges.forEach(he => {
+    const fromVertex = he.getFromVertex();
+    if (!fromVertex || !source.seams.has(he.getEdgeKey())) return;
+
+    copyVertices.forEach(vertices => {
+      const a = resolve(vertices.get(fromVertex.id)!).id;
+      const b = resolve(vertices.get(he.toVertex.id)!).id;
+      if (a === b) return;
+      const ids = [a, b].sort();
+      target.seams.add(`${ids[0]}-${ids[1]}`);
+    });
+  });
+}
+
+/**
+ * Link twin half-edges
+ */
+function linkTwins(mesh: QMesh): void {
+  // Build a map of (fromVertexId, toVertexId) -> HalfEdge
+  const edgeMap = new Map<string, QHalfEdge>();
+
+  mesh.halfEdges.forEach(he => {
+    const fromVertex = he.getFromVertex();
+    if (!fromVertex) return;
+
+    const key = `${fromVertex.id}->${he.toVertex.id}`;
+    edgeMap.set(key, he);
+  });
+
+  // Find twins
+  mesh.halfEdges.forEach(he => {
+    if (he.twin) return; // Already linked
+
+    const fromVertex = he.getFromVertex();
+    if (!fromVertex) return;
+
+    // Look for the opposite edge
+    const oppositeKey = `${he.toVertex.id}->${fromVertex.id}`;
+    const twin = edgeMap.get(oppositeKey);
+
+    if (twin) {
+      he.twin = twin;
+      twin.twin = he;
+    }
+  });
+}
@@ -0,0 +1,588 @@
+/**
+ * Bevel Modifier
+ *
+ * Non-destructive edge bevel. Edges are picked by angle, by bevel weight or all at once;
+ * each face corner touching a beveled edge is slid inward, the edge is replaced by a strip
+ * following the profile curve, and the hole left at each vertex is filled with a polygon.
+ */
+
+import { QMesh, QVertex, QFace, QHalfEdge } from '../QMesh';
+import * as THREE from 'three';
+
+export interface BevelModifierOptions {
+  /** Offset of the new edges from the original edge, in local units */
+  amount: number;
+  segments?: number;
+  /** Profile shape: 0.25 = flat chamfer, 0.5 = round, 1 = sharp; below 0.25 is concave */
+  profile?: number;
+  /** Which edges to bevel */
+  limitMethod?: 'all' | 'angle' | 'weight';
+  /** Minimum angle between face normals in degrees (angle limit) */
+  angle?: number;
+  /** Shrink the amount uniformly so offset vertices never pass each other */
+  clampOverlap?: boolean;
+}
+
+interface CornerSequence {
+  vertices: QVertex[];
+  uvs: Array<THREE.Vector2 | null>;
+}
+
+interface EdgeSlide {
+  vertex: QVertex;
+  towards: QVertex;
+  edgeKey: string;
+  direction: THREE.Vector3;
+  distance: number;
+  samples: number;
+}
+
+/**
+ * Apply bevel modifier to a QMesh
+ */
+export function applyBevelModifier(qMesh: QMesh, options: BevelModifierOptions): QMesh {
+  const segments = Math.max(1, Math.floor(options.segments ?? 1));
+  const profile = THREE.MathUtils.clamp(options.profile ?? 0.5, 0, 1);
+  const clampOverlap = options.clampOverlap ?? true;
+
+  if (options.amount <= 0) {
+    return qMesh;
+  }
+
+  // Step 1: Pick edges and their widths
+  const widths = selectBevelEdges(qMesh, options);
+  if (widths.size === 0) {
+    console.warn('[Bevel] No edges match the bevel limit, returning original mesh');
+    return qMesh;
+  }
+
+  const affected = new Set<string>();
+  qMesh.halfEdges.forEach(he => {
+    if (he.prev && widths.has(edgeKeyOf(he))) {
+      affected.add(he.prev.toVertex.id);
+      affected.add(he.toVertex.id);
+    }
+  });
+
+  // Step 2: Work out how far each corner slides along its face edges (for unit scale)
+  const pointCorners = new Map<string, { tIn: number; tOut: number }>(); // keyed by outgoing half-edge
+  const edgeSlides = new Map<string, EdgeSlide>(); // keyed by `${vertexId}|${edgeKey}`
+
+  const addEdgeSlide = (vertex: QVertex, he: QHalfEdge, towards: QVertex, distance: number) => {
+    const edgeKey = edgeKeyOf(he);
+    const key = `${vertex.id}|${edgeKey}`;
+    const slide = edgeSlides.get(key);
+    if (slide) {
+      slide.distance += distance;
+      slide.samples++;
+    } else {
+      const direction = new THREE.Vector3().subVectors(towards.position, vertex.position).normalize();
+      edgeSlides.set(key, { vertex, towards, edgeKey, direction, distance, samples: 1 });
+    }
+  };
+
+  qMesh.faces.forEach(face => {
+    face.getHalfEdges().forEach(hOut => {
+      const hIn = hOut.prev;
+      if (!hIn || !hIn.prev) return;
+
+      const vertex = hIn.toVertex;
+      if (!affected.has(vertex.id)) return;
+
+      const wIn = widths.get(edgeKeyOf(hIn)) ?? 0;
+      const wOut = widths.get(edgeKeyOf(hOut)) ?? 0;
+      if (wIn === 0 && wOut === 0) return;
+
+      const prevVertex = hIn.prev.toVertex;
+      const nextVertex = hOut.toVertex;
+      const uIn = new THREE.Vector3().subVectors(prevVertex.position, vertex.position).normalize();
+      const uOut = new THREE.Vector3().subVectors(nextVertex.position, vertex.position).normalize();
+      const sin = Math.max(new THREE.Vector3().crossVectors(uIn, uOut).length(), 1e-3);
+
+      if (wIn > 0 && wOut > 0) {
+        // Point at distance wIn from the incoming edge and wOut from the outgoing edge
+        pointCorners.set(hOut.id, { tIn: wOut / sin, tOut: wIn / sin });
+      } else if (wOut > 0) {
+        addEdgeSlide(vertex, hIn, prevVertex, wOut / sin);
+      } else {
+        addEdgeSlide(vertex, hOut, nextVertex, wIn / sin);
+      }
+    });
+  });
+
+  edgeSlides.forEach(slide => {
+    slide.distance /= slide.samples;
+    slide.samples = 1;
+  });
+
+  // Step 3: Clamp overlap - shrink the amount so no slide runs past its edge's limit
+  const maxAmount = clampOverlap ? computeMaxAmount(qMesh, pointCorners, edgeSlides) : Infinity;
+  const amount = Math.min(options.amount, maxAmount);
+  if (amount < options.amount) {
+    console.log(`[Bevel] Clamped amount to ${amount.toFixed(4)} to avoid overlap`);
+  }
+
+  // Step 4: Create vertices
+  const newMesh = new QMesh();
+  let vertexCounter = 0;
+  const createVertex = (position: THREE.Vector3): QVertex => {
+    let id: string;
+    do {
+      id = `bev_${vertexCounter++}`;
+    } while (qMesh.vertices.has(id));
+    const vertex = new QVertex(id, position);
+    newMesh.vertices.set(id, vertex);
+    return vertex;
+  };
+
+  const originalCopies = new Map<string, QVertex>();
+  const original = (vertex: QVertex): QVertex => {
+    let copy = originalCopies.get(vertex.id);
+    if (!copy) {
+      copy = new QVertex(vertex.id, vertex.position.clone());
+      originalCopies.set(vertex.id, copy);
+    }
+    return copy;
+  };
+  qMesh.vertices.forEach(vertex => newMesh.vertices.set(vertex.id, original(vertex)));
+
+  const slideVertices = new Map<string, QVertex>();
+  edgeSlides.forEach((slide, key) => {
+    const position = slide.vertex.position.clone().addScaledVector(slide.direction, slide.distance * amount);
+    slideVertices.set(key, createVertex(position));
+  });
+
+  // Step 5: Replace each face corner with its corner sequence
+  const sequences = new Map<string, CornerSequence>(); // keyed by outgoing half-edge
+
+  qMesh.faces.forEach(face => {
+    face.getHalfEdges().forEach(hOut => {
+      const hIn = hOut.prev;
+      if (!hIn || !hIn.prev) return;
+
+      const vertex = hIn.toVertex;
+      const uv = hOut.uv;
+      if (!affected.has(vertex.id)) {
+        sequences.set(hOut.id, { vertices: [original(vertex)], uvs: [uv] });
+        return;
+      }
+
+      const prevVertex = hIn.prev.toVertex;
+      const nextVertex = hOut.toVertex;
+      const lenIn = prevVertex.position.distanceTo(vertex.position) || 1;
+      const lenOut = nextVertex.position.distanceTo(vertex.position) || 1;
+
+      // UV of a point slid tIn along the incoming and tOut along the outgoing edge
+      const cornerUV = (tIn: number, tOut: number): THREE.Vector2 | null => {
+        if (!uv) return null;
+        const result = uv.clone();
+        if (hIn.uv) result.addScaledVector(hIn.uv.clone().sub(uv), tIn / lenIn);
+        if (hOut.next?.uv) result.addScaledVector(hOut.next.uv.clone().sub(uv), tOut / lenOut);
+        return result;
+      };
+
+      const point = pointCorners.get(hOut.id);
+      if (point) {
+        const position = vertex.position.clone()
+          .addScaledVector(prevVertex.position.clone().sub(vertex.position).normalize(), point.tIn * amount)
+          .addScaledVector(nextVertex.position.clone().sub(vertex.position).normalize(), point.tOut * amount);
+        sequences.set(hOut.id, {
+          vertices: [createVertex(position)],
+          uvs: [cornerUV(point.tIn * amount, point.tOut * amount)],
+        });
+        return;
+      }
+
+      const inKey = `${vertex.id}|${edgeKeyOf(hIn)}`;
+      const outKey = `${vertex.id}|${edgeKeyOf(hOut)}`;
+      const inVertex = slideVertices.get(inKey);
+      const outVertex = slideVertices.get(outKey);
+      const sequence: CornerSequence = { vertices: [], uvs: [] };
+
+      if (inVertex) {
+        sequence.vertices.push(inVertex);
+        sequence.uvs.push(cornerUV(edgeSlides.get(inKey)!.distance * amount, 0));
+      }
+      if (!inVertex || !outVertex) {
+        // The corner keeps the original vertex where an edge did not slide
+        const incomingBeveled = widths.has(edgeKeyOf(hIn));
+        const outgoingBeveled = widths.has(edgeKeyOf(hOut));
+        if (!incomingBeveled && !outgoingBeveled) {
+          sequence.vertices.push(original(vertex));
+          sequence.uvs.push(uv ? uv.clone() : null);
+        }
+      }
+      if (outVertex) {
+        sequence.vertices.push(outVertex);
+        sequence.uvs.push(cornerUV(0, edgeSlides.get(outKey)!.distance * amount));
+      }
+
+      sequences.set(hOut.id, sequence);
+    });
+  });
+
+  let heCounter = 0;
+  let faceCounter = 0;
+  const addFace = (faceId: string | null, vertices: QVertex[], uvs: Array<THREE.Vector2 | null>): void => {
+    const corners = dedupeLoop(vertices, uvs);
+    if (new Set(corners.vertices).size < 3) return;
+
+    let id = faceId;
+    while (!id || newMesh.faces.has(id) || (faceId === null && qMesh.faces.has(id))) {
+      id = `f_bev_${faceCounter++}`;
+    }
+
+    const newFace = new QFace(id);
+    newMesh.faces.set(id, newFace);
+
+    const halfEdges: QHalfEdge[] = [];
+    for (let i = 0; i < corners.vertices.length; i++) {
+      const fromVertex = corners.vertices[i];
+      const toVertex = corners.vertices[(i + 1) % corners.vertices.length];
+
+      const he = new QHalfEdge(`he_${heCounter++}`, toVertex);
+      he.face = newFace;
+      he.uv = corners.uvs[i] ? corners.uvs[i]!.clone() : null;
+      halfEdges.push(he);
+      newMesh.halfEdges.set(he.id, he);
+
+      if (!fromVertex.oneOutgoingHalfEdge) {
+        fromVertex.oneOutgoingHalfEdge = he;
+      }
+    }
+
+    // Link next/prev
+    for (let i = 0; i < halfEdges.length; i++) {
+      halfEdges[i].next = halfEdges[(i + 1) % halfEdges.length];
+      halfEdges[i].prev = halfEdges[(i - 1 + halfEdges.length) % halfEdges.length];
+    }
+
+    newFace.oneHalfEdge = halfEdges[0];
+  };
+
+  qMesh.faces.forEach((face, faceId) => {
+    const vertices: QVertex[] = [];
+    const uvs: Array<THREE.Vector2 | null> = [];
+    face.getHalfEdges().forEach(hOut => {
+      const sequence = sequences.get(hOut.id);
+      if (!sequence) return;
+      vertices.push(...sequence.vertices);
+      uvs.push(...sequence.uvs);
+    });
+    addFace(faceId, vertices, uvs);
+  });
+
+  // Step 6: Strips along beveled edges, following the profile at both ends
+  const exponent = Math.pow(2, 4 * (profile - 0.25));
+  const chains = new Map<string, QVertex[]>(); // `${vertexId}|${edgeKey}`, ordered from the face leaving the vertex
+  const processed = new Set<string>();
+
+  qMesh.halfEdges.forEach(he => {
+    const key = edgeKeyOf(he);
+    if (!widths.has(key) || processed.has(key) || !he.twin || !he.next || !he.twin.next) return;
+    processed.add(key);
+
+    const twin = he.twin;
+    const a = twin.toVertex;
+    const b = he.toVertex;
+    const fa = sequences.get(he.id);
+    const fb = sequences.get(he.next.id);
+    const ga = sequences.get(twin.next!.id);
+    const gb = sequences.get(twin.id);
+    if (!fa || !fb || !ga || !gb) return;
+
+    const chainA = buildProfileChain(fa.vertices[0], ga.vertices[0], a, b, segments, exponent, createVertex);
+    const chainB = buildProfileChain(fb.vertices[0], gb.vertices[0], a, b, segments, exponent, createVertex);
+    chains.set(`${a.id}|${key}`, chainA);
+    chains.set(`${b.id}|${key}`, [...chainB].reverse());
+
+    const uvA = [fa.uvs[0], ga.uvs[0]];
+    const uvB = [fb.uvs[0], gb.uvs[0]];
+
+    for (let k = 0; k < segments; k++) {
+      addFace(
+        null,
+        [chainB[k], chainA[k], chainA[k + 1], chainB[k + 1]],
+        [
+          lerpUV(uvB[0], uvB[1], k / segments),
+          lerpUV(uvA[0], uvA[1], k / segments),
+          lerpUV(uvA[0], uvA[1], (k + 1) / segments),
+          lerpUV(uvB[0], uvB[1], (k + 1) / segments),
+        ]
+      );
+    }
+  });
+
+  // Step 7: Fill the hole around each beveled vertex
+  affected.forEach(vertexId => {
+    const fan = getCornerFan(qMesh, vertexId);
+    const vertices: QVertex[] = [];
+
+    fan.forEach((hOut, i) => {
+      const sequence = sequences.get(hOut.id);
+      if (sequence) {
+        vertices.push(...[...sequence.vertices].reverse());
+      }
+
+      // Cross the incoming edge into the next face of the fan
+      const hIn = hOut.prev!;
+      const isClosed = fan.length > 1 && fan[(i + 1) % fan.length] === hIn.twin;
+      const chain = chains.get(`${vertexId}|${edgeKeyOf(hIn)}`);
+      if (chain && isClosed) {
+        vertices.push(...chain.slice(1, -1).reverse());
+      }
+    });
+
+    addFace(null, vertices, vertices.map(() => null));
+  });
+
+  // Step 8: Drop unused vertices, link twins and keep seams that still exist
+  newMesh.vertices.forEach((vertex, id) => {
+    if (!vertex.oneOutgoingHalfEdge) {
+      newMesh.vertices.delete(id);
+    }
+  });
+
+  linkTwins(newMesh);
+
+  const edgeKeys = new Set<string>();
+  newMesh.halfEdges.forEach(he => edgeKeys.add(he.getEdgeKey()));
+  qMesh.seams.forEach(key => {
+    if (edgeKeys.has(key)) newMesh.seams.add(key);
+  });
+
+  console.log(`[Bevel] Beveled ${widths.size} edges: ${newMesh.vertices.size} vertices, ${newMesh.faces.size} faces`);
+
+  return newMesh;
+}
+
+/**
+ * Pick manifold edges to bevel and their widths as a fraction of the amount
+ */
+function selectBevelEdges(qMesh: QMesh, options: BevelModifierOptions): Map<string, number> {
+  const limitMethod = options.limitMethod || 'all';
+  const minAngle = options.angle ?? 30;
+  const widths = new Map<string, number>();
+
+  qMesh.halfEdges.forEach(he => {
+    if (!he.face || !he.twin || !he.twin.face || !he.prev) return;
+
+    const key = edgeKeyOf(he);
+    if (widths.has(key)) return;
+
+    switch (limitMethod) {
+      case 'angle': {
+        const normal1 = he.face.calculateNormal();
+        const normal2 = he.twin.face.calculateNormal();
+        const angle = THREE.MathUtils.radToDeg(normal1.angleTo(normal2));
+        if (angle >= minAngle) widths.set(key, 1);
+        break;
+      }
+      case 'weight': {
+        const weight = qMesh.bevelWeights.get(key) ?? 0;
+        if (weight > 0) widths.set(key, Math.min(weight, 1));
+        break;
+      }
+      default:
+        widths.set(key, 1);
+    }
+  });
+
+  return widths;
+}
+
+/**
+ * Largest amount that keeps every slide (given per unit of amount) within its edge.
+ * A slide may use the whole edge, or half of it when the other end slides too.
+ */
+function computeMaxAmount(
+  qMesh: QMesh,
+  pointCorners: Map<string, { tIn: number; tOut: number }>,
+  edgeSlides: Map<string, EdgeSlide>
+): number {
+  const slides: Array<{ vertexId: string; edgeKey: string; length: number; distance: number }> = [];
+
+  pointCorners.forEach((point, heId) => {
+    const hOut = qMesh.halfEdges.get(heId)!;
+    const hIn = hOut.prev!;
+    const vertex = hIn.toVertex;
+    slides.push({
+      vertexId: vertex.id,
+      edgeKey: edgeKeyOf(hIn),
+      length: hIn.prev!.toVertex.position.distanceTo(vertex.position),
+      distance: point.tIn,
+    });
+    slides.push({
+      vertexId: vertex.id,
+      edgeKey: edgeKeyOf(hOut),
+      length: hOut.toVertex.position.distanceTo(vertex.position),
+      distance: point.tOut,
+    });
+  });
+
+  edgeSlides.forEach(slide => {
+    slides.push({
+      vertexId: slide.vertex.id,
+      edgeKey: slide.edgeKey,
+      length: slide.towards.position.distanceTo(slide.vertex.position),
+      distance: slide.distance,
+    });
+  });
+
+  const slidingEnds = new Map<string, Set<string>>();
+  slides.forEach(({ vertexId, edgeKey, distance }) => {
+    if (distance <= 0) return;
+    if (!slidingEnds.has(edgeKey)) slidingEnds.set(edgeKey, new Set());
+    slidingEnds.get(edgeKey)!.add(vertexId);
+  });
+
+  let maxAmount = Infinity;
+  slides.forEach(({ edgeKey, length, distance }) => {
+    if (distance <= 0) return;
+    const limit = slidingEnds.get(edgeKey)!.size > 1 ? length / 2 : length;
+    maxAmount = Math.min(maxAmount, limit / distance);
+  });
+
+  return maxAmount;
+}
+
+/**
+ * Profile points from `from` to `to` around the corner on edge (a, b).
+ * Uses a superellipse in the frame centred opposite the corner, so exponent 1 is a straight
+ * chamfer, 2 a circular arc and larger values approach the original sharp corner.
+ */
+function buildProfileChain(
+  from: QVertex,
+  to: QVertex,
+  a: QVertex,
+  b: QVertex,
+  segments: number,
+  exponent: number,
+  createVertex: (position: THREE.Vector3) => QVertex
+): QVertex[] {
+  if (segments === 1 || from === to) {
+    return segments === 1 ? [from, to] : new Array(segments + 1).fill(from);
+  }
+
+  // Corner on the original edge line
+  const edgeDir = new THREE.Vector3().subVectors(b.position, a.position).normalize();
+  const mid = new THREE.Vector3().addVectors(from.position, to.position).multiplyScalar(0.5);
+  const corner = a.position.clone().addScaledVector(edgeDir, mid.clone().sub(a.position).dot(edgeDir));
+  const center = new THREE.Vector3().addVectors(from.position, to.position).sub(corner);
+  const axisX = new THREE.Vector3().subVectors(from.position, center);
+  const axisY = new THREE.Vector3().subVectors(to.position, center);
+
+  const chain: QVertex[] = [from];
+  for (let k = 1; k < segments; k++) {
+    const theta = (k / segments) * Math.PI / 2;
+    const x = Math.pow(Math.cos(theta), 2 / exponent);
+    const y = Math.pow(Math.sin(theta), 2 / exponent);
+    const position = center.clone().addScaledVector(axisX, x).addScaledVector(axisY, y);
+    chain.push(createVertex(position));
+  }
+  chain.push(to);
+
+  return chain;
+}
+
+/**
+ * Outgoing half-edges around a vertex in fan order (each next one is the previous one's
+ * incoming edge twin). Open fans start at the boundary.
+ */
+function getCornerFan(qMesh: QMesh, vertexId: string): QHalfEdge[] {
+  const outgoing: QHalfEdge[] = [];
+  qMesh.halfEdges.forEach(he => {
+    if (he.face && he.prev && he.prev.toVertex.id === vertexId) {
+      outgoing.push(he);
+    }
+  });
+  if (outgoing.length === 0) return [];
+
+  const isOutgoing = new Set(outgoing);
+  const previous = (he: QHalfEdge) => {
+    const candidate = he.twin?.next;
+    return candidate && isOutgoing.has(candidate) ? candidate : null;
+  };
+
+  // Rewind to the start of an open fan
+  let start = outgoing[0];
+  for (let i = 0; i < outgoing.length; i++) {
+    const prev = previous(start);
+    if (!prev || prev === outgoing[0]) break;
+    start = prev;
+  }
+
+  const fan: QHalfEdge[] = [];
+  let current: QHalfEdge | null = start;
+  while (current && !fan.includes(current)) {
+    fan.push(current);
+    const next: QHalfEdge | null | undefined = current.prev?.twin;
+    current = next && isOutgoing.has(next) ? next : null;
+  }
+
+  return fan;
+}
+
+function edgeKeyOf(he: QHalfEdge): string {
+  const fromId = he.prev ? he.prev.toVertex.id : he.getFromVertex()?.id ?? '';
+  const ids = [fromId, he.toVertex.id].sort();
+  return `${ids[0]}-${ids[1]}`;
+}
+
+function lerpUV(a: THREE.Vector2 | null, b: THREE.Vector2 | null, t: number): THREE.Vector2 | null {
+  if (!a || !b) return a ?? b;
+  return a.clone().lerp(b, t);
+}
+
+/**
+ * Remove consecutive duplicate corners (including across the wrap-around)
+ */
+function dedupeLoop(vertices: QVertex[], uvs: Array<THREE.Vector2 | null>): CornerSequence {
+  const result: CornerSequence = { vertices: [], uvs: [] };
+
+  vertices.forEach((vertex, i) => {
+    if (result.vertices[result.vertices.length - 1] === vertex) return;
+    result.vertices.push(vertex);
+    result.uvs.push(uvs[i]);
+  });
+
+  while (result.vertices.length > 1 && result.vertices[0] === result.vertices[result.vertices.length - 1]) {
+    result.vertices.pop();
+    result.uvs.pop();
+  }
+
+  return result;
+}
+
+/**
+ * Link twin half-edges
+ */
+function linkTwins(mesh: QMesh): void {
+  // Build a map of (fromVertexId, toVertexId) -> HalfEdge
+  const edgeMap = new Map<string, QHalfEdge>();
+
+  mesh.halfEdges.forEach(he => {
+    const fromVertex = he.getFromVertex();
+    if (!fromVertex) return;
+
+    const key = `${fromVertex.id}->${he.toVertex.id}`;
+    edgeMap.set(key, he);
+  });
+
+  // Find twins
+  mesh.halfEdges.forEach(he => {
+    if (he.twin) return; // Already linked
+
+    const fromVertex = he.getFromVertex();
+    if (!fromVertex) return;
+
+    // Look for the opposite edge
+    const oppositeKey = `${he.toVertex.id}->${fromVertex.id}`;
+    const twin = edgeMap.get(oppositeKey);
+
+    if (twin) {
+      he.twin = twin;
+      twin.twin = he;
+    }
+  });
+}
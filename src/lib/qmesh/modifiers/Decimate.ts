@@ -0,0 +1,305 @@
+/**
+ * Decimate Modifier
+ *
+ * Reduces the triangle count to a ratio or an absolute target using quadric error
+ * metrics (Garland & Heckbert) with half-edge collapses: a vertex is always collapsed
+ * onto one of its neighbours, so surviving vertices keep their positions and IDs.
+ * The mesh is triangulated first. Boundaries are protected by extra constraint planes,
+ * and collapses that would flip faces or make the mesh non-manifold are skipped.
+ */
+
+import { QMesh } from '../QMesh';
+import { applyTriangulateModifier } from './Triangulate';
+import { collapseVertices } from './Weld';
+import * as THREE from 'three';
+
+export type DecimateMode = 'ratio' | 'count';
+
+export interface DecimateModifierOptions {
+  mode?: DecimateMode;
+  /** Fraction of triangles to keep (ratio mode, 0-1) */
+  ratio?: number;
+  /** Number of triangles to keep (count mode) */
+  triangleCount?: number;
+}
+
+/** Weight of the planes that hold boundary edges in place */
+const BOUNDARY_WEIGHT = 1000;
+
+/** Symmetric 4x4 quadric stored as its upper triangle: aa ab ac ad bb bc bd cc cd dd */
+type Quadric = Float64Array;
+
+interface Triangle {
+  id: string;
+  corners: number[];
+  /** Vertex ID each corner had in the input, used to key corner UVs for collapseVertices */
+  originalIds: string[];
+  uvs: Array<THREE.Vector2 | null>;
+  alive: boolean;
+}
+
+interface Collapse {
+  cost: number;
+  from: number;
+  to: number;
+  fromVersion: number;
+  toVersion: number;
+}
+
+/**
+ * Apply decimate modifier to a QMesh
+ */
+export function applyDecimateModifier(qMesh: QMesh, options: DecimateModifierOptions): QMesh {
+  const triangulated = applyTriangulateModifier(qMesh, { quadMethod: 'beauty' });
+  const faceCount = triangulated.faces.size;
+  const target = options.mode === 'count'
+    ? Math.max(0, Math.floor(options.triangleCount ?? faceCount))
+    : Math.round(faceCount * THREE.MathUtils.clamp(options.ratio ?? 1, 0, 1));
+
+  if (target >= faceCount) {
+    return qMesh;
+  }
+
+  // Step 1: Index the triangulated mesh
+  const ids = Array.from(triangulated.vertices.keys());
+  const indexOf = new Map(ids.map((id, i) => [id, i]));
+  const positions = ids.map(id => triangulated.vertices.get(id)!.position);
+
+  const triangles: Triangle[] = [];
+  const vertexTriangles: Set<number>[] = ids.map(() => new Set());
+  triangulated.faces.forEach((face, faceId) => {
+    const halfEdges = face.getHalfEdges();
+    const originalIds = halfEdges.map(he => he.prev!.toVertex.id);
+    const corners = originalIds.map(id => indexOf.get(id)!);
+    corners.forEach(v => vertexTriangles[v].add(triangles.length));
+    triangles.push({ id: faceId, corners, originalIds, uvs: halfEdges.map(he => he.uv), alive: true });
+  });
+
+  // Step 2: Accumulate face planes (area weighted) and boundary constraint planes per vertex
+  const quadrics = ids.map(() => new Float64Array(10));
+  const edgeUse = new Map<string, number>();
+  const pairKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+  triangles.forEach(({ corners }) => {
+    for (let i = 0; i < 3; i++) {
+      const key = pairKey(corners[i], corners[(i + 1) % 3]);
+      edgeUse.set(key, (edgeUse.get(key) ?? 0) + 1);
+    }
+  });
+
+  triangles.forEach(({ corners }) => {
+    const [a, b, c] = corners.map(v => positions[v]);
+    const normal = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a));
+    const area = normal.length() / 2;
+    if (area < 1e-12) return;
+    normal.normalize();
+
+    const plane = planeQuadric(normal, a, area);
+    corners.forEach(v => addQuadric(quadrics[v], plane));
+
+    for (let i = 0; i < 3; i++) {
+      const from = corners[i];
+      const to = corners[(i + 1) % 3];
+      if (edgeUse.get(pairKey(from, to)) !== 1) continue;
+
+      const edge = new THREE.Vector3().subVectors(positions[to], positions[from]);
+      const side = new THREE.Vector3().crossVectors(edge, normal).normalize();
+      const constraint = planeQuadric(side, positions[from], BOUNDARY_WEIGHT * edge.lengthSq());
+      addQuadric(quadrics[from], constraint);
+      addQuadric(quadrics[to], constraint);
+    }
+  });
+
+  const isBoundaryVertex = (v: number) => neighbours(v).some(w => edgeUse.get(pairKey(v, w)) === 1);
+  const boundaryVertices = new Set(ids.map((_, v) => v).filter(isBoundaryVertex));
+
+  // Step 3: Queue every directed collapse by cost
+  const versions = ids.map(() => 0);
+  const removed = new Set<number>();
+  const heap = new CollapseHeap();
+
+  function neighbours(v: number): number[] {
+    const result = new Set<number>();
+    vertexTriangles[v].forEach(t => triangles[t].corners.forEach(w => {
+      if (w !== v) result.add(w);
+    }));
+    return Array.from(result);
+  }
+
+  const queueCollapses = (v: number) => {
+    neighbours(v).forEach(w => {
+      [[v, w], [w, v]].forEach(([from, to]) => {
+        const combined = new Float64Array(quadrics[from]);
+        addQuadric(combined, quadrics[to]);
+        heap.push({
+          cost: evaluateQuadric(combined, positions[to]),
+          from,
+          to,
+          fromVersion: versions[from],
+          toVersion: versions[to],
+        });
+      });
+    });
+  };
+  ids.forEach((_, v) => queueCollapses(v));
+
+  // Step 4: Collapse the cheapest valid edges until the target is reached
+  const targets = new Map<string, string>();
+  let remaining = faceCount;
+
+  while (remaining > target && heap.size > 0) {
+    const collapse = heap.pop()!;
+    const { from, to } = collapse;
+    if (removed.has(from) || removed.has(to)) continue;
+    if (collapse.fromVersion !== versions[from] || collapse.toVersion !== versions[to]) continue;
+    if (!canCollapse(from, to)) continue;
+
+    // Faces on the edge disappear, the rest of `from`'s fan moves to `to`
+    const uvRemap = collectUVRemap(from, to);
+    vertexTriangles[from].forEach(t => {
+      const triangle = triangles[t];
+      if (triangle.corners.includes(to)) {
+        triangle.alive = false;
+        remaining--;
+        triangle.corners.forEach(v => vertexTriangles[v].delete(t));
+        return;
+      }
+
+      const slot = triangle.corners.indexOf(from);
+      const uv = triangle.uvs[slot];
+      const mapped = uv && uvRemap.find(([fromUV]) => fromUV.distanceToSquared(uv) < 1e-12);
+      if (mapped) triangle.uvs[slot] = mapped[1];
+      triangle.corners[slot] = to;
+      vertexTriangles[to].add(t);
+    });
+    vertexTriangles[from].clear();
+
+    removed.add(from);
+    targets.set(ids[from], ids[to]);
+    addQuadric(quadrics[to], quadrics[from]);
+    if (boundaryVertices.has(from)) boundaryVertices.add(to);
+
+    versions[to]++;
+    queueCollapses(to);
+  }
+
+  // Corners that moved take the UV of the vertex they moved to
+  const movedUVs = new Map<string, THREE.Vector2>();
+  triangles.forEach(triangle => {
+    if (!triangle.alive) return;
+    triangle.corners.forEach((v, slot) => {
+      const uv = triangle.uvs[slot];
+      if (v !== indexOf.get(triangle.originalIds[slot]) && uv) {
+        movedUVs.set(`${triangle.id}:${triangle.originalIds[slot]}`, uv);
+      }
+    });
+  });
+
+  return collapseVertices(triangulated, targets, movedUVs);
+
+  /**
+   * Reject collapses that would flip a face, create slivers, pull a boundary
+   * vertex inward or join two surfaces (link condition)
+   */
+  function canCollapse(from: number, to: number): boolean {
+    const shared = Array.from(vertexTriangles[from]).filter(t => triangles[t].corners.includes(to));
+    if (shared.length === 0) return false;
+
+    const common = neighbours(from).filter(w => neighbours(to).includes(w));
+    if (common.length !== shared.length) return false;
+
+    if (boundaryVertices.has(from) && edgeUse.get(pairKey(from, to)) !== 1) return false;
+
+    for (const t of vertexTriangles[from]) {
+      if (shared.includes(t)) continue;
+      const corners = triangles[t].corners;
+      const before = triangleNormal(corners.map(v => positions[v]));
+      const after = triangleNormal(corners.map(v => positions[v === from ? to : v]));
+      if (after.lengthSq() < 1e-24 || before.normalize().dot(after.normalize()) < 0.2) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Pairs of (UV of `from`, UV of `to`) read from the faces on the collapsed edge,
+   * so corners on the same UV island follow the collapse and seams stay intact
+   */
+  function collectUVRemap(from: number, to: number): Array<[THREE.Vector2, THREE.Vector2]> {
+    const pairs: Array<[THREE.Vector2, THREE.Vector2]> = [];
+    vertexTriangles[from].forEach(t => {
+      const { corners, uvs } = triangles[t];
+      const fromUV = uvs[corners.indexOf(from)];
+      const toUV = corners.includes(to) ? uvs[corners.indexOf(to)] : null;
+      if (fromUV && toUV) pairs.push([fromUV, toUV]);
+    });
+    return pairs;
+  }
+}
+
+function triangleNormal([a, b, c]: THREE.Vector3[]): THREE.Vector3 {
+  return new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a));
+}
+
+function planeQuadric(normal: THREE.Vector3, point: THREE.Vector3, weight: number): Quadric {
+  const { x: a, y: b, z: c } = normal;
+  const d = -normal.dot(point);
+  return new Float64Array([a * a, a * b, a * c, a * d, b * b, b * c, b * d, c * c, c * d, d * d])
+    .map(value => value * weight);
+}
+
+function addQuadric(target: Quadric, source: Quadric): void {
+  for (let i = 0; i < 10; i++) target[i] += source[i];
+}
+
+function evaluateQuadric(q: Quadric, p: THREE.Vector3): number {
+  const { x, y, z } = p;
+  return q[0] * x * x + 2 * q[1] * x * y + 2 * q[2] * x * z + 2 * q[3] * x
+    + q[4] * y * y + 2 * q[5] * y * z + 2 * q[6] * y
+    + q[7] * z * z + 2 * q[8] * z
+    + q[9];
+}
+
+/**
+ * Binary min-heap of collapses ordered by cost
+ */
+class CollapseHeap {
+  private items: Collapse[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: Collapse): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): Collapse | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Displace Modifier
+ *
+ * Moves vertices along their normal or a fixed axis by a scalar field sampled
+ * from an image texture or from built-in procedural noise (Perlin, Voronoi, FBM).
+ * Topology, UVs, seams and bevel weights are carried over unchanged.
+ */
+
+import { QMesh } from '../QMesh';
+import * as THREE from 'three';
+
+export type DisplaceSource = 'texture' | 'perlin' | 'voronoi' | 'fbm';
+export type DisplaceDirection = 'normal' | 'x' | 'y' | 'z';
+export type DisplaceCoordinates = 'uv' | 'local' | 'object';
+
+/**
+ * Decoded RGBA pixels, row 0 at the top (same layout as ImageData)
+ */
+export interface DisplaceTextureData {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+export interface DisplaceModifierOptions {
+  strength: number;
+  /** Field value that results in no displacement (0-1) */
+  midlevel?: number;
+  direction?: DisplaceDirection;
+  source?: DisplaceSource;
+  /** Pixels for the 'texture' source; without them the modifier is a no-op */
+  texture?: DisplaceTextureData;
+  /** Vertices without UVs fall back to local coordinates when sampling in 'uv' */
+  coordinates?: DisplaceCoordinates;
+  /** Maps local positions into the coordinate object's space ('object' coordinates) */
+  coordinateMatrix?: THREE.Matrix4;
+
+  // Procedural noise
+  /** Feature size in coordinate units */
+  noiseScale?: number;
+  /** Number of layered octaves for FBM */
+  noiseOctaves?: number;
+  noiseSeed?: number;
+}
+
+const AXIS_VECTORS: Record<'x' | 'y' | 'z', THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1),
+};
+
+/**
+ * Apply displace modifier to a QMesh
+ */
+export function applyDisplaceModifier(qMesh: QMesh, options: DisplaceModifierOptions): QMesh {
+  const source = options.source || 'perlin';
+  if (options.strength === 0 || (source === 'texture' && !options.texture)) {
+    return qMesh;
+  }
+
+  const midlevel = options.midlevel ?? 0.5;
+  const direction = options.direction || 'normal';
+  const coordinates = options.coordinates || 'local';
+  const sampleField = createFieldSampler(options, source);
+
+  // Step 1: Gather per-vertex sample points (every UV corner for 'uv' coordinates)
+  const cornerUVs = coordinates === 'uv' ? collectVertexUVs(qMesh) : null;
+  const vertexNormals = direction === 'normal' ? calculateVertexNormals(qMesh) : null;
+
+  // Step 2: Copy the mesh so IDs, UVs and edge data survive, then move vertices
+  const newMesh = QMesh.fromJSON(qMesh.toJSON());
+  const point = new THREE.Vector3();
+
+  qMesh.vertices.forEach((vertex, vertexId) => {
+    let value: number;
+    const uvs = cornerUVs?.get(vertexId);
+
+    if (uvs && uvs.length > 0) {
+      // Seam vertices have several UVs: average the field over all of them
+      value = uvs.reduce((sum, uv) => sum + sampleField(point.set(uv.x, uv.y, 0), true), 0) / uvs.length;
+    } else {
+      point.copy(vertex.position);
+      if (coordinates === 'object' && options.coordinateMatrix) {
+        point.applyMatrix4(options.coordinateMatrix);
+      }
+      value = sampleField(point, false);
+    }
+
+    const dir = vertexNormals ? vertexNormals.get(vertexId) : AXIS_VECTORS[direction as 'x' | 'y' | 'z'];
+    if (!dir) return;
+
+    const newVertex = newMesh.vertices.get(vertexId);
+    newVertex?.position.addScaledVector(dir, (value - midlevel) * options.strength);
+  });
+
+  return newMesh;
+}
+
+/**
+ * Build a function returning the displacement field (0-1) at a sample point.
+ * `isUV` marks points that are already texture coordinates.
+ */
+function createFieldSampler(
+  options: DisplaceModifierOptions,
+  source: DisplaceSource
+): (point: THREE.Vector3, isUV: boolean) => number {
+  if (source === 'texture') {
+    const texture = options.texture!;
+    return (point, isUV) => {
+      // Spatial coordinates map the -1..1 range onto the image, as in Blender
+      const u = isUV ? point.x : (point.x + 1) / 2;
+      const v = isUV ? point.y : (point.y + 1) / 2;
+      return sampleTexture(texture, u, v);
+    };
+  }
+
+  const scale = options.noiseScale && options.noiseScale > 0 ? options.noiseScale : 1;
+  const noise = new PerlinNoise(options.noiseSeed ?? 0);
+  const seed = options.noiseSeed ?? 0;
+  const octaves = Math.max(1, Math.floor(options.noiseOctaves ?? 4));
+  const scaled = new THREE.Vector3();
+
+  return (point) => {
+    scaled.copy(point).divideScalar(scale);
+    switch (source) {
+      case 'voronoi':
+        return Math.min(1, voronoiF1(scaled.x, scaled.y, scaled.z, seed));
+      case 'fbm':
+        return THREE.MathUtils.clamp(0.5 + 0.5 * fbm(noise, scaled, octaves), 0, 1);
+      case 'perlin':
+      default:
+        return THREE.MathUtils.clamp(0.5 + 0.5 * noise.sample(scaled.x, scaled.y, scaled.z), 0, 1);
+    }
+  };
+}
+
+/**
+ * Bilinear texture lookup with repeat wrapping. Returns luminance (0-1).
+ */
+export function sampleTexture(texture: DisplaceTextureData, u: number, v: number): number {
+  const { width, height, data } = texture;
+  if (width <= 0 || height <= 0) return 0;
+
+  // Image rows run top-down, UV v runs bottom-up
+  const x = (u - Math.floor(u)) * width - 0.5;
+  const y = (1 - (v - Math.floor(v))) * height - 0.5;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const tx = x - x0;
+  const ty = y - y0;
+
+  const texel = (px: number, py: number): number => {
+    const wx = ((px % width) + width) % width;
+    const wy = ((py % height) + height) % height;
+    const i = (wy * width + wx) * 4;
+    return (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255;
+  };
+
+  const top = texel(x0, y0) * (1 - tx) + texel(x0 + 1, y0) * tx;
+  const bottom = texel(x0, y0 + 1) * (1 - tx) + texel(x0 + 1, y0 + 1) * tx;
+  return top * (1 - ty) + bottom * ty;
+}
+
+/**
+ * Collect the UV of every face corner, keyed by vertex ID
+ */
+function collectVertexUVs(mesh: QMesh): Map<string, THREE.Vector2[]> {
+  const result = new Map<string, THREE.Vector2[]>();
+
+  mesh.faces.forEach(face => {
+    face.getHalfEdges().forEach(he => {
+      const fromVertex = he.prev ? he.prev.toVertex : he.getFromVertex();
+      if (!fromVertex || !he.uv) return;
+
+      const uvs = result.get(fromVertex.id);
+      if (uvs) {
+        uvs.push(he.uv);
+      } else {
+        result.set(fromVertex.id, [he.uv]);
+      }
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Area-weighted vertex normals (Newell face normals scaled by polygon area)
+ */
+function calculateVertexNormals(mesh: QMesh): Map<string, THREE.Vector3> {
+  const normals = new Map<string, THREE.Vector3>();
+
+  mesh.faces.forEach(face => {
+    const vertices = face.getVertices();
+    if (vertices.length < 3) return;
+
+    const weighted = new THREE.Vector3();
+    for (let i = 0; i < vertices.length; i++) {
+      weighted.add(new THREE.Vector3().crossVectors(vertices[i].position, vertices[(i + 1) % vertices.length].position));
+    }
+
+    vertices.forEach(v => {
+      const normal = normals.get(v.id);
+      if (normal) {
+        normal.add(weighted);
+      } else {
+        normals.set(v.id, weighted.clone());
+      }
+    });
+  });
+
+  normals.forEach(n => n.normalize());
+  return normals;
+}
+
+/**
+ * Seeded integer hash (mulberry32 finaliser) returning 0-1
+ */
+function hash01(...values: number[]): number {
+  let h = 0x9e3779b9;
+  for (const value of values) {
+    h = Math.imul(h ^ (value | 0), 0x85ebca6b);
+    h ^= h >>> 13;
+  }
+  h = Math.imul(h ^ (h >>> 15), h | 1);
+  h ^= h + Math.imul(h ^ (h >>> 7), h | 61);
+  return ((h ^ (h >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * Improved Perlin gradient noise with a seeded permutation table. Output is roughly -1..1.
+ */
+class PerlinNoise {
+  private perm = new Uint8Array(512);
+
+  constructor(seed: number) {
+    const p = Array.from({ length: 256 }, (_, i) => i);
+    for (let i = 255; i > 0; i--) {
+      const j = Math.floor(hash01(seed, i) * (i + 1));
+      [p[i], p[j]] = [p[j], p[i]];
+    }
+    for (let i = 0; i < 512; i++) {
+      this.perm[i] = p[i & 255];
+    }
+  }
+
+  sample(x: number, y: number, z: number): number {
+    const X = Math.floor(x) & 255;
+    const Y = Math.floor(y) & 255;
+    const Z = Math.floor(z) & 255;
+    x -= Math.floor(x);
+    y -= Math.floor(y);
+    z -= Math.floor(z);
+
+    const u = fade(x);
+    const v = fade(y);
+    const w = fade(z);
+    const p = this.perm;
+
+    const A = p[X] + Y;
+    const AA = p[A] + Z;
+    const AB = p[A + 1] + Z;
+    const B = p[X + 1] + Y;
+    const BA = p[B] + Z;
+    const BB = p[B + 1] + Z;
+
+    const lerp = THREE.MathUtils.lerp;
+    return lerp(
+      lerp(
+        lerp(grad(p[AA], x, y, z), grad(p[BA], x - 1, y, z), u),
+        lerp(grad(p[AB], x, y - 1, z), grad(p[BB], x - 1, y - 1, z), u),
+        v
+      ),
+      lerp(
+        lerp(grad(p[AA + 1], x, y, z - 1), grad(p[BA + 1], x - 1, y, z - 1), u),
+        lerp(grad(p[AB + 1], x, y - 1, z - 1), grad(p[BB + 1], x - 1, y - 1, z - 1), u),
+        v
+      ),
+      w
+    );
+  }
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function grad(hash: number, x: number, y: number, z: number): number {
+  const h = hash & 15;
+  const u = h < 8 ? x : y;
+  const v = h < 4 ? y : h === 12 || h === 14 ? x : z;
+  return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+}
+
+/**
+ * Fractal Brownian motion: octaves of Perlin noise at doubling frequency, normalised to -1..1
+ */
+function fbm(noise: PerlinNoise, point: THREE.Vector3, octaves: number): number {
+  let sum = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let total = 0;
+
+  for (let i = 0; i < octaves; i++) {
+    sum += amplitude * noise.sample(point.x * frequency, point.y * frequency, point.z * frequency);
+    total += amplitude;
+    amplitude *= 0.5;
+    frequency *= 2;
+  }
+
+  return sum / total;
+}
+
+/**
+ * Cellular (Worley) noise: distance to the nearest jittered feature point, one per unit cell
+ */
+function voronoiF1(x: number, y: number, z: number, seed: number): number {
+  const cx = Math.floor(x);
+  const cy = Math.floor(y);
+  const cz = Math.floor(z);
+  let nearest = Infinity;
+
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const ix = cx + dx;
+        const iy = cy + dy;
+        const iz = cz + dz;
+        const fx = ix + hash01(seed, ix, iy, iz, 0) - x;
+        const fy = iy + hash01(seed, ix, iy, iz, 1) - y;
+        const fz = iz + hash01(seed, ix, iy, iz, 2) - z;
+        nearest = Math.min(nearest, fx * fx + fy * fy + fz * fz);
+      }
+    }
+  }
+
+  return Math.sqrt(nearest);
+}
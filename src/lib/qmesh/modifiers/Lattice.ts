@@ -0,0 +1,56 @@
+/**
+ * Lattice Modifier
+ *
+ * Deforms the mesh with a lattice object's control point cage. Vertices are taken
+ * into the lattice's space, moved by the trilinear or B-spline interpolated offset
+ * of the surrounding control points, and brought back. Topology, UVs and edge data
+ * are unchanged.
+ */
+
+import { QMesh } from '../QMesh';
+import { createLatticeDeformer, LatticeInterpolation } from '../../lattice/LatticeUtils';
+import type { LatticeProps } from '../../../stores/objectsStore';
+import * as THREE from 'three';
+
+/**
+ * Lattice cage plus the transform from the modified object's space into the lattice's
+ */
+export interface LatticeDeformData extends LatticeProps {
+  /** Column-major 4x4 matrix (owner local space -> lattice local space) */
+  toLattice: number[];
+}
+
+export interface LatticeModifierOptions {
+  /** Without a lattice the modifier is a no-op */
+  lattice?: LatticeDeformData;
+  interpolation?: LatticeInterpolation;
+  /** Blend between the original (0) and fully deformed (1) positions */
+  strength?: number;
+}
+
+/**
+ * Apply lattice modifier to a QMesh
+ */
+export function applyLatticeModifier(qMesh: QMesh, options: LatticeModifierOptions): QMesh {
+  const lattice = options.lattice;
+  const strength = options.strength ?? 1;
+  if (!lattice || lattice.points.length === 0 || strength === 0) {
+    return qMesh;
+  }
+
+  const toLattice = new THREE.Matrix4().fromArray(lattice.toLattice);
+  const fromLattice = toLattice.clone().invert();
+  const deform = createLatticeDeformer(lattice, options.interpolation || 'linear');
+
+  const newMesh = QMesh.fromJSON(qMesh.toJSON());
+  const local = new THREE.Vector3();
+  const deformed = new THREE.Vector3();
+
+  newMesh.vertices.forEach(vertex => {
+    local.copy(vertex.position).applyMatrix4(toLattice);
+    deform(local, deformed).applyMatrix4(fromLattice);
+    vertex.position.lerp(deformed, strength);
+  });
+
+  return newMesh;
+}
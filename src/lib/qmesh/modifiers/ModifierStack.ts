@@ -0,0 +1,373 @@
+/**
+ * Modifier Stack Evaluation
+ *
+ * Runs a QMesh through an ordered list of modifiers and caches every
+ * intermediate result under a key derived from the input mesh, the modifier
+ * params and any external inputs. Re-evaluating after an edit only re-runs
+ * the edited modifier and those below it.
+ *
+ * Everything here is free of store access so it can also run inside a Web Worker.
+ */
+
+import { QMesh } from '../QMesh';
+import * as THREE from 'three';
+import type { Modifier } from '../../../stores/modifierStore';
+import { applySubdivisionModifier } from './Subdivision';
+import { applySolidifyModifier } from './Solidify';
+import { applyMirrorModifier } from './Mirror';
+import { applyArrayModifier } from './Array';
+import { applyBevelModifier } from './Bevel';
+import { applyDisplaceModifier, DisplaceTextureData } from './Displace';
+import { applyDecimateModifier } from './Decimate';
+import { applySmoothModifier } from './Smooth';
+import { applyTriangulateModifier } from './Triangulate';
+import { applyWeldModifier } from './Weld';
+import { applyShrinkwrapModifier, ShrinkwrapTargetData } from './Shrinkwrap';
+import { applyLatticeModifier, LatticeDeformData } from './Lattice';
+
+/**
+ * Values a modifier reads from outside its own params, resolved on the main thread.
+ * Matrices are plain element arrays so steps survive structured cloning.
+ */
+export interface ModifierInputs {
+  /** Array: offset object transform relative to the owner */
+  offsetMatrix?: number[];
+  /** Displace: maps local positions into the coordinate object's space */
+  coordinateMatrix?: number[];
+  /** Displace: decoded texture pixels */
+  texture?: DisplaceTextureData;
+  /** Displace: identifies `texture` in cache keys without hashing its pixels */
+  textureKey?: string;
+  /** Shrinkwrap: target surface in the owner's local space */
+  target?: ShrinkwrapTargetData;
+  /** Shrinkwrap: identifies `target` (mesh and transform) in cache keys */
+  targetKey?: string;
+  /** Lattice: control points and the owner -> lattice transform */
+  lattice?: LatticeDeformData;
+  /** Lattice: identifies `lattice` (points and transform) in cache keys */
+  latticeKey?: string;
+}
+
+export interface ModifierStep {
+  modifier: Modifier;
+  inputs: ModifierInputs;
+  /** Cache key of this step's output */
+  key: string;
+}
+
+export interface CachedModifierResult {
+  key: string;
+  result: QMesh;
+}
+
+/**
+ * Chain cache keys through the enabled modifiers of a stack
+ */
+export function planModifierStack(
+  baseKey: string,
+  modifiers: Modifier[],
+  resolveInputs: (modifier: Modifier) => ModifierInputs
+): ModifierStep[] {
+  const steps: ModifierStep[] = [];
+  let key = baseKey;
+
+  for (const modifier of modifiers) {
+    if (!modifier.enabled) continue;
+
+    const inputs = resolveInputs(modifier);
+    key = hashString([
+      key,
+      modifier.type,
+      stableStringify(modifier.params),
+      inputs.offsetMatrix?.join(',') ?? '',
+      inputs.coordinateMatrix?.join(',') ?? '',
+      inputs.textureKey ?? '',
+      inputs.targetKey ?? '',
+      inputs.latticeKey ?? '',
+    ].join('|'));
+    steps.push({ modifier, inputs, key });
+  }
+
+  return steps;
+}
+
+/**
+ * Index of the first step whose cached result is missing or stale
+ */
+export function findFirstDirtyStep(steps: ModifierStep[], cache: CachedModifierResult[]): number {
+  let index = 0;
+  while (index < steps.length && cache[index]?.key === steps[index].key) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Evaluate `steps` against `base`, reusing and updating `cache` in place.
+ * Cached meshes are shared between calls and must not be mutated by callers.
+ */
+export function evaluateModifierSteps(
+  base: QMesh,
+  steps: ModifierStep[],
+  cache: CachedModifierResult[]
+): QMesh {
+  const start = findFirstDirtyStep(steps, cache);
+  let qMesh = start > 0 ? cache[start - 1].result : base;
+
+  for (let i = start; i < steps.length; i++) {
+    qMesh = runModifierStep(qMesh, steps[i]);
+    cache[i] = { key: steps[i].key, result: qMesh };
+  }
+
+  cache.length = steps.length;
+  return qMesh;
+}
+
+/**
+ * Apply a single step, passing the input through if the modifier fails
+ */
+export function runModifierStep(qMesh: QMesh, step: ModifierStep): QMesh {
+  try {
+    return applyQMeshModifier(qMesh, step.modifier, step.inputs);
+  } catch (error) {
+    console.error(`[ModifierStack] Failed to apply ${step.modifier.type} modifier to QMesh:`, error);
+    return qMesh;
+  }
+}
+
+/**
+ * Apply a single modifier to QMesh
+ */
+export function applyQMeshModifier(qMesh: QMesh, modifier: Modifier, inputs: ModifierInputs = {}): QMesh {
+  const { params } = modifier;
+
+  switch (modifier.type) {
+    case 'subdivision': {
+      const levels = params.levels ?? 1;
+      return applySubdivisionModifier(qMesh, levels, params.subdivisionAlgorithm || 'catmull-clark');
+    }
+
+    case 'mirror': {
+      const axis = params.mirrorAxis || 'x';
+      const mergeThreshold = params.mergeThreshold || 0.001;
+      // Note: clip parameter not in current params, using false as default
+      return applyMirrorModifier(qMesh, axis, mergeThreshold, false);
+    }
+
+    case 'solidify': {
+      const thickness = params.thickness || 0.1;
+      const offset = params.offset || 0;
+      return applySolidifyModifier(qMesh, thickness, offset);
+    }
+
+    case 'array':
+      return applyArrayModifier(qMesh, {
+        count: params.arrayCount || 3,
+        type: params.arrayType || 'linear',
+        constantOffset: new THREE.Vector3(...(params.arrayOffset || [2, 0, 0])),
+        relativeOffset: new THREE.Vector3(...(params.arrayRelativeOffset || [0, 0, 0])),
+        offsetMatrix: toMatrix(inputs.offsetMatrix),
+        fitType: params.arrayFitType || 'count',
+        fitLength: params.arrayFitLength ?? 10,
+        axis: params.arrayAxis || 'z',
+        angle: params.arrayAngle ?? 360,
+        merge: params.arrayMerge || false,
+        mergeDistance: params.arrayMergeDistance ?? 0.001,
+      });
+
+    case 'bevel':
+      return applyBevelModifier(qMesh, {
+        amount: params.bevelAmount ?? 0.1,
+        segments: params.bevelSegments || 2,
+        profile: params.bevelProfile ?? 0.5,
+        limitMethod: params.bevelLimitMethod || 'angle',
+        angle: params.bevelAngle ?? 30,
+        clampOverlap: params.bevelClampOverlap ?? true,
+      });
+
+    case 'displace':
+      return applyDisplaceModifier(qMesh, {
+        strength: params.displaceStrength ?? 1,
+        midlevel: params.displaceMidlevel ?? 0.5,
+        direction: params.displaceDirection || 'normal',
+        source: params.displaceSource || 'perlin',
+        texture: inputs.texture,
+        coordinates: params.displaceCoordinates || 'local',
+        coordinateMatrix: toMatrix(inputs.coordinateMatrix),
+        noiseScale: params.displaceNoiseScale ?? 1,
+        noiseOctaves: params.displaceNoiseOctaves ?? 4,
+        noiseSeed: params.displaceNoiseSeed ?? 0,
+      });
+
+    case 'decimate':
+      return applyDecimateModifier(qMesh, {
+        mode: params.decimateMode || 'ratio',
+        ratio: params.decimateRatio ?? 0.5,
+        triangleCount: params.decimateTriangleCount,
+      });
+
+    case 'smooth':
+      return applySmoothModifier(qMesh, {
+        factor: params.smoothFactor ?? 0.5,
+        iterations: params.smoothIterations ?? 1,
+        preserveVolume: params.smoothPreserveVolume ?? false,
+        preserveBoundary: params.smoothPreserveBoundary ?? true,
+      });
+
+    case 'triangulate':
+      return applyTriangulateModifier(qMesh, {
+        quadMethod: params.triangulateQuadMethod || 'beauty',
+        minVertices: params.triangulateMinVertices ?? 4,
+      });
+
+    case 'weld':
+      return applyWeldModifier(qMesh, {
+        distance: params.weldDistance ?? 0.001,
+        mode: params.weldMode || 'all',
+      });
+
+    case 'shrinkwrap':
+      return applyShrinkwrapModifier(qMesh, {
+        method: params.shrinkwrapMethod || 'nearest',
+        target: inputs.target,
+        offset: params.shrinkwrapOffset ?? 0,
+        axis: params.shrinkwrapAxis || 'normal',
+      });
+
+    case 'lattice':
+      return applyLatticeModifier(qMesh, {
+        lattice: inputs.lattice,
+        interpolation: params.latticeInterpolation || 'linear',
+        strength: params.latticeStrength ?? 1,
+      });
+
+    default:
+      console.warn(`Unknown modifier type: ${modifier.type}`);
+      return qMesh;
+  }
+}
+
+/**
+ * Rough face count after a modifier, used to decide whether a stack is worth
+ * sending to a worker. Errs on the high side.
+ */
+export function estimateModifierFaceCount(faceCount: number, modifier: Modifier): number {
+  const { params } = modifier;
+
+  switch (modifier.type) {
+    case 'subdivision':
+      return faceCount * Math.pow(4, params.levels || 1);
+    case 'mirror':
+    case 'solidify':
+      return faceCount * 3;
+    case 'array':
+      return faceCount * Math.max(1, params.arrayCount || 3);
+    case 'bevel':
+      return faceCount * (2 + 2 * (params.bevelSegments || 2));
+    case 'triangulate':
+      return faceCount * 2;
+    case 'decimate':
+      return params.decimateMode === 'count'
+        ? Math.min(faceCount * 2, params.decimateTriangleCount ?? faceCount * 2)
+        : Math.ceil(faceCount * 2 * (params.decimateRatio ?? 0.5));
+    default:
+      return faceCount;
+  }
+}
+
+/**
+ * Content hash of a QMesh (positions, face loops, UVs and edge data)
+ */
+export function hashQMesh(qMesh: QMesh): string {
+  const hasher = new Fnv1a();
+
+  qMesh.vertices.forEach((vertex, id) => {
+    hasher.string(id);
+    hasher.number(vertex.position.x);
+    hasher.number(vertex.position.y);
+    hasher.number(vertex.position.z);
+  });
+
+  qMesh.faces.forEach(face => {
+    hasher.string(face.id);
+    face.getHalfEdges().forEach(he => {
+      hasher.string(he.toVertex.id);
+      if (he.uv) {
+        hasher.number(he.uv.x);
+        hasher.number(he.uv.y);
+      }
+    });
+  });
+
+  qMesh.seams.forEach(edgeKey => hasher.string(edgeKey));
+
+  qMesh.bevelWeights.forEach((weight, edgeKey) => {
+    hasher.string(edgeKey);
+    hasher.number(weight);
+  });
+
+  qMesh.creases.forEach((weight, edgeKey) => {
+    hasher.string(`crease:${edgeKey}`);
+    hasher.number(weight);
+  });
+
+  return hasher.digest();
+}
+
+function hashString(value: string): string {
+  const hasher = new Fnv1a();
+  hasher.string(value);
+  return hasher.digest();
+}
+
+/**
+ * JSON with sorted object keys, so equal params always produce the same string
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.keys(v).sort().reduce<Record<string, unknown>>((sorted, k) => {
+        sorted[k] = v[k];
+        return sorted;
+      }, {});
+    }
+    return v;
+  });
+}
+
+function toMatrix(elements: number[] | undefined): THREE.Matrix4 | undefined {
+  return elements ? new THREE.Matrix4().fromArray(elements) : undefined;
+}
+
+/**
+ * Two-lane 32-bit FNV-1a, giving a 64-bit digest
+ */
+class Fnv1a {
+  private a = 0x811c9dc5;
+  private b = 0x050c5d1f;
+  private view = new DataView(new ArrayBuffer(8));
+
+  string(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      this.byte(value.charCodeAt(i) & 0xff);
+      this.byte(value.charCodeAt(i) >>> 8);
+    }
+    this.byte(0);
+  }
+
+  number(value: number): void {
+    this.view.setFloat64(0, value);
+    for (let i = 0; i < 8; i++) {
+      this.byte(this.view.getUint8(i));
+    }
+  }
+
+  digest(): string {
+    return (this.a >>> 0).toString(16).padStart(8, '0') + (this.b >>> 0).toString(16).padStart(8, '0');
+  }
+
+  private byte(value: number): void {
+    this.a = Math.imul(this.a ^ value, 0x01000193);
+    this.b = Math.imul(this.b ^ value, 0x01000193) ^ (this.a >>> 15);
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Modifier Stack Worker
+ *
+ * Evaluates modifier steps off the main thread. Receives the input mesh and
+ * steps from ModifierWorkerClient and posts back every intermediate result so
+ * the main thread can fill its per-modifier cache.
+ */
+
+import { QMesh, SerializedQMesh } from '../QMesh';
+import { runModifierStep, ModifierStep } from './ModifierStack';
+
+export interface ModifierWorkerRequest {
+  id: number;
+  mesh: SerializedQMesh;
+  steps: ModifierStep[];
+}
+
+export type ModifierWorkerResponse =
+  | { id: number; results: SerializedQMesh[] }
+  | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<ModifierWorkerRequest>) => {
+  const { id, mesh, steps } = event.data;
+  let response: ModifierWorkerResponse;
+
+  try {
+    let qMesh = QMesh.fromJSON(mesh);
+    const results: SerializedQMesh[] = [];
+
+    for (const step of steps) {
+      qMesh = runModifierStep(qMesh, step);
+      results.push(qMesh.toJSON());
+    }
+
+    response = { id, results };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  self.postMessage(response);
+};
@@ -0,0 +1,69 @@
+/**
+ * Modifier Worker Client
+ *
+ * Main-thread side of ModifierStack.worker. A single worker is shared by all
+ * objects; requests are matched to responses by ID.
+ */
+
+import { QMesh } from '../QMesh';
+import type { ModifierStep } from './ModifierStack';
+import type { ModifierWorkerRequest, ModifierWorkerResponse } from './ModifierStack.worker';
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (results: QMesh[]) => void; reject: (error: Error) => void }>();
+
+export function isModifierWorkerAvailable(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+/**
+ * Run `steps` on `input` in the worker. Resolves with the output of every step, in order.
+ */
+export function runModifierStepsInWorker(input: QMesh, steps: ModifierStep[]): Promise<QMesh[]> {
+  return new Promise((resolve, reject) => {
+    let target: Worker;
+    try {
+      target = getWorker();
+    } catch (error) {
+      reject(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+
+    const request: ModifierWorkerRequest = { id, mesh: input.toJSON(), steps };
+    target.postMessage(request);
+  });
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./ModifierStack.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<ModifierWorkerResponse>) => {
+    const response = event.data;
+    const request = pendingRequests.get(response.id);
+    if (!request) return;
+    pendingRequests.delete(response.id);
+
+    if ('error' in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.results.map(data => QMesh.fromJSON(data)));
+    }
+  };
+
+  worker.onerror = (event) => {
+    // A crashed worker fails everything in flight; the next request starts a fresh one
+    const error = new Error(event.message || 'Modifier worker failed');
+    pendingRequests.forEach(request => request.reject(error));
+    pendingRequests.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+}
@@ -0,0 +1,261 @@
+/**
+ * Shrinkwrap Modifier
+ *
+ * Moves vertices onto the surface of another object: to the nearest surface point,
+ * to the nearest target vertex, or by casting a ray along the vertex normal or an axis
+ * (both directions, nearest hit wins). The target arrives as a triangle soup already
+ * transformed into this object's local space, and is indexed with a bounding volume
+ * hierarchy so large targets stay fast. Topology, UVs and edge data are unchanged.
+ */
+
+import { QMesh } from '../QMesh';
+import * as THREE from 'three';
+
+export type ShrinkwrapMethod = 'nearest' | 'project' | 'nearestVertex';
+export type ShrinkwrapAxis = 'normal' | 'x' | 'y' | 'z';
+
+/**
+ * Target surface as flat triangle positions (x, y, z per corner, three corners per triangle)
+ */
+export interface ShrinkwrapTargetData {
+  positions: ArrayLike<number>;
+}
+
+export interface ShrinkwrapModifierOptions {
+  method?: ShrinkwrapMethod;
+  /** Without a target the modifier is a no-op */
+  target?: ShrinkwrapTargetData;
+  /** Distance kept from the surface, along the surface normal */
+  offset?: number;
+  /** Ray direction for the project method */
+  axis?: ShrinkwrapAxis;
+}
+
+const AXIS_VECTORS: Record<'x' | 'y' | 'z', THREE.Vector3> = {
+  x: new THREE.Vector3(1, 0, 0),
+  y: new THREE.Vector3(0, 1, 0),
+  z: new THREE.Vector3(0, 0, 1),
+};
+
+/** Triangles per BVH leaf */
+const LEAF_SIZE = 8;
+
+interface BVHNode {
+  box: THREE.Box3;
+  triangles?: number[];
+  left?: BVHNode;
+  right?: BVHNode;
+}
+
+interface SurfaceHit {
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  distanceSq: number;
+}
+
+/**
+ * Apply shrinkwrap modifier to a QMesh
+ */
+export function applyShrinkwrapModifier(qMesh: QMesh, options: ShrinkwrapModifierOptions): QMesh {
+  const target = options.target;
+  if (!target || target.positions.length < 9) {
+    return qMesh;
+  }
+
+  const method = options.method || 'nearest';
+  const offset = options.offset ?? 0;
+  const triangles = readTriangles(target.positions);
+
+  // Step 1: Copy the mesh so IDs, UVs and edge data survive
+  const newMesh = QMesh.fromJSON(qMesh.toJSON());
+
+  if (method === 'nearestVertex') {
+    const targetVertices = uniqueVertices(triangles);
+    newMesh.vertices.forEach(vertex => {
+      let best: THREE.Vector3 | null = null;
+      let bestDistanceSq = Infinity;
+      targetVertices.forEach(candidate => {
+        const distanceSq = candidate.distanceToSquared(vertex.position);
+        if (distanceSq < bestDistanceSq) {
+          best = candidate;
+          bestDistanceSq = distanceSq;
+        }
+      });
+      if (best) vertex.position.copy(best);
+    });
+    return newMesh;
+  }
+
+  // Step 2: Index the target and snap every vertex onto it
+  const bvh = buildBVH(triangles, triangles.map((_, i) => i));
+  const axis = options.axis || 'normal';
+  const vertexNormals = method === 'project' && axis === 'normal' ? calculateVertexNormals(qMesh) : null;
+
+  newMesh.vertices.forEach((vertex, vertexId) => {
+    let hit: SurfaceHit | null;
+
+    if (method === 'project') {
+      const direction = vertexNormals ? vertexNormals.get(vertexId) : AXIS_VECTORS[axis as 'x' | 'y' | 'z'];
+      if (!direction || direction.lengthSq() === 0) return;
+      hit = raycastBoth(bvh, triangles, vertex.position, direction);
+    } else {
+      hit = nearestPoint(bvh, triangles, vertex.position);
+    }
+
+    if (!hit) return;
+    vertex.position.copy(hit.point).addScaledVector(hit.normal, offset);
+  });
+
+  return newMesh;
+}
+
+function readTriangles(positions: ArrayLike<number>): THREE.Triangle[] {
+  const triangles: THREE.Triangle[] = [];
+  for (let i = 0; i + 8 < positions.length; i += 9) {
+    triangles.push(new THREE.Triangle(
+      new THREE.Vector3(positions[i], positions[i + 1], positions[i + 2]),
+      new THREE.Vector3(positions[i + 3], positions[i + 4], positions[i + 5]),
+      new THREE.Vector3(positions[i + 6], positions[i + 7], positions[i + 8])
+    ));
+  }
+  return triangles;
+}
+
+function uniqueVertices(triangles: THREE.Triangle[]): THREE.Vector3[] {
+  const seen = new Map<string, THREE.Vector3>();
+  triangles.forEach(({ a, b, c }) => [a, b, c].forEach(p => seen.set(`${p.x},${p.y},${p.z}`, p)));
+  return Array.from(seen.values());
+}
+
+/**
+ * Median-split BVH over triangle centroids
+ */
+function buildBVH(triangles: THREE.Triangle[], indices: number[]): BVHNode {
+  const box = new THREE.Box3();
+  indices.forEach(i => {
+    const { a, b, c } = triangles[i];
+    box.expandByPoint(a).expandByPoint(b).expandByPoint(c);
+  });
+
+  if (indices.length <= LEAF_SIZE) {
+    return { box, triangles: indices };
+  }
+
+  const size = box.getSize(new THREE.Vector3());
+  const axis: 'x' | 'y' | 'z' = size.x >= size.y && size.x >= size.z ? 'x' : size.y >= size.z ? 'y' : 'z';
+  const centroid = new THREE.Vector3();
+  const sorted = [...indices].sort((i, j) =>
+    triangles[i].getMidpoint(centroid)[axis] - triangles[j].getMidpoint(centroid)[axis]
+  );
+  const middle = sorted.length >> 1;
+
+  return {
+    box,
+    left: buildBVH(triangles, sorted.slice(0, middle)),
+    right: buildBVH(triangles, sorted.slice(middle)),
+  };
+}
+
+/**
+ * Closest point on the target surface (branch and bound over the BVH)
+ */
+function nearestPoint(root: BVHNode, triangles: THREE.Triangle[], point: THREE.Vector3): SurfaceHit | null {
+  let best: SurfaceHit | null = null;
+  const candidate = new THREE.Vector3();
+
+  const visit = (node: BVHNode) => {
+    if (best && node.box.distanceToPoint(point) ** 2 >= best.distanceSq) return;
+
+    if (node.triangles) {
+      node.triangles.forEach(i => {
+        triangles[i].closestPointToPoint(point, candidate);
+        const distanceSq = candidate.distanceToSquared(point);
+        if (!best || distanceSq < best.distanceSq) {
+          best = { point: candidate.clone(), normal: triangles[i].getNormal(new THREE.Vector3()), distanceSq };
+        }
+      });
+      return;
+    }
+
+    // Visit the nearer child first so the bound tightens sooner
+    const [first, second] = node.left!.box.distanceToPoint(point) <= node.right!.box.distanceToPoint(point)
+      ? [node.left!, node.right!]
+      : [node.right!, node.left!];
+    visit(first);
+    visit(second);
+  };
+
+  visit(root);
+  return best;
+}
+
+/**
+ * Nearest hit of a ray cast forwards or backwards from `origin`
+ */
+function raycastBoth(
+  root: BVHNode,
+  triangles: THREE.Triangle[],
+  origin: THREE.Vector3,
+  direction: THREE.Vector3
+): SurfaceHit | null {
+  const forward = raycast(root, triangles, new THREE.Ray(origin, direction.clone().normalize()));
+  const backward = raycast(root, triangles, new THREE.Ray(origin, direction.clone().normalize().negate()));
+  if (forward && backward) return forward.distanceSq <= backward.distanceSq ? forward : backward;
+  return forward ?? backward;
+}
+
+function raycast(root: BVHNode, triangles: THREE.Triangle[], ray: THREE.Ray): SurfaceHit | null {
+  let best: SurfaceHit | null = null;
+  const hitPoint = new THREE.Vector3();
+
+  const visit = (node: BVHNode) => {
+    if (!ray.intersectsBox(node.box)) return;
+
+    if (node.triangles) {
+      node.triangles.forEach(i => {
+        const { a, b, c } = triangles[i];
+        if (!ray.intersectTriangle(a, b, c, false, hitPoint)) return;
+        const distanceSq = hitPoint.distanceToSquared(ray.origin);
+        if (!best || distanceSq < best.distanceSq) {
+          best = { point: hitPoint.clone(), normal: triangles[i].getNormal(new THREE.Vector3()), distanceSq };
+        }
+      });
+      return;
+    }
+
+    visit(node.left!);
+    visit(node.right!);
+  };
+
+  visit(root);
+  return best;
+}
+
+/**
+ * Area-weighted vertex normals (Newell face normals scaled by polygon area)
+ */
+function calculateVertexNormals(mesh: QMesh): Map<string, THREE.Vector3> {
+  const normals = new Map<string, THREE.Vector3>();
+
+  mesh.faces.forEach(face => {
+    const vertices = face.getVertices();
+    if (vertices.length < 3) return;
+
+    const weighted = new THREE.Vector3();
+    for (let i = 0; i < vertices.length; i++) {
+      weighted.add(new THREE.Vector3().crossVectors(vertices[i].position, vertices[(i + 1) % vertices.length].position));
+    }
+
+    vertices.forEach(v => {
+      const normal = normals.get(v.id);
+      if (normal) {
+        normal.add(weighted);
+      } else {
+        normals.set(v.id, weighted.clone());
+      }
+    });
+  });
+
+  normals.forEach(n => n.normalize());
+  return normals;
+}
@@ -0,0 +1,93 @@
+/**
+ * Smooth Modifier
+ *
+ * Laplacian smoothing: each iteration moves every vertex towards the average of
+ * its edge neighbours. With volume preservation on, every pass is followed by an
+ * inflating pass (Taubin λ|μ smoothing) so closed meshes do not shrink.
+ * Topology, UVs and edge data are carried over unchanged.
+ */
+
+import { QMesh } from '../QMesh';
+import * as THREE from 'three';
+
+export interface SmoothModifierOptions {
+  /** Fraction of the way to the neighbour average per iteration (0-1) */
+  factor: number;
+  iterations?: number;
+  /** Keep open boundaries where they are */
+  preserveBoundary?: boolean;
+  /** Counter shrinking with an inflating pass after each smoothing pass */
+  preserveVolume?: boolean;
+  /** Only smooth along these axes */
+  axes?: { x: boolean; y: boolean; z: boolean };
+}
+
+/** Taubin pass-band frequency; μ is derived from λ so that 1/λ + 1/μ = this value */
+const TAUBIN_PASS_BAND = 0.1;
+
+/**
+ * Apply smooth modifier to a QMesh
+ */
+export function applySmoothModifier(qMesh: QMesh, options: SmoothModifierOptions): QMesh {
+  const iterations = Math.max(0, Math.floor(options.iterations ?? 1));
+  const factor = THREE.MathUtils.clamp(options.factor, 0, 1);
+  if (iterations === 0 || factor === 0) {
+    return qMesh;
+  }
+
+  const newMesh = QMesh.fromJSON(qMesh.toJSON());
+  const vertices = Array.from(newMesh.vertices.values());
+  const indexOf = new Map(vertices.map((v, i) => [v.id, i]));
+
+  // Step 1: Neighbours per vertex, and which vertices sit on a boundary
+  const neighbours: Set<number>[] = vertices.map(() => new Set());
+  const edgeFaces = new Map<string, number>();
+  newMesh.faces.forEach(face => {
+    face.getHalfEdges().forEach(he => {
+      const a = indexOf.get(he.prev!.toVertex.id)!;
+      const b = indexOf.get(he.toVertex.id)!;
+      neighbours[a].add(b);
+      neighbours[b].add(a);
+      const key = a < b ? `${a}-${b}` : `${b}-${a}`;
+      edgeFaces.set(key, (edgeFaces.get(key) ?? 0) + 1);
+    });
+  });
+
+  const pinned = new Set<number>();
+  if (options.preserveBoundary) {
+    edgeFaces.forEach((count, key) => {
+      if (count !== 1) return;
+      key.split('-').forEach(i => pinned.add(Number(i)));
+    });
+  }
+
+  const axes = options.axes ?? { x: true, y: true, z: true };
+  const mu = 1 / (TAUBIN_PASS_BAND - 1 / factor);
+
+  // Step 2: Move every vertex towards its neighbour average, all at once per pass
+  const pass = (weight: number) => {
+    const targets = vertices.map((vertex, i) => {
+      if (pinned.has(i) || neighbours[i].size === 0) return null;
+
+      const average = new THREE.Vector3();
+      neighbours[i].forEach(n => average.add(vertices[n].position));
+      average.divideScalar(neighbours[i].size);
+      return average.sub(vertex.position).multiplyScalar(weight);
+    });
+
+    targets.forEach((delta, i) => {
+      if (!delta) return;
+      const position = vertices[i].position;
+      if (axes.x) position.x += delta.x;
+      if (axes.y) position.y += delta.y;
+      if (axes.z) position.z += delta.z;
+    });
+  };
+
+  for (let i = 0; i < iterations; i++) {
+    pass(factor);
+    if (options.preserveVolume) pass(mu);
+  }
+
+  return newMesh;
+}
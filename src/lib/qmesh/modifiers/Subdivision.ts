@@ -1,245 +1,518 @@
 /**
  * Subdivision Surface Modifier
  *
- * Implements Catmull-Clark subdivision algorithm on QMesh half-edge structure.
- * This smooths the mesh by subdividing faces and repositioning vertices.
+ * Catmull-Clark subdivision for any polygon mesh and Loop subdivision for triangle meshes.
+ * Boundary edges stay sharp, and per-edge crease weights (QMesh.creases) make edges
+ * fully or semi-sharp following DeRose et al., "Subdivision Surfaces in Character Animation":
+ * a crease of 1 is infinitely sharp, lower weights are sharp for crease * 10 levels
+ * and then blend back to the smooth rules. UVs are interpolated linearly; seams,
+ * bevel weights and remaining crease weights are carried onto the child edges.
  */
 
 import { QMesh, QVertex, QFace, QHalfEdge } from '../QMesh';
 import * as THREE from 'three';
 
+export type SubdivisionAlgorithm = 'catmull-clark' | 'loop';
+
+/** Sharpness of a crease weight of 1: never decays */
+const INFINITE_SHARPNESS = Infinity;
+
+/** Levels a crease weight of 1 would stay sharp for if it were finite */
+const CREASE_SHARPNESS_SCALE = 10;
+
+interface SubdivFace {
+  loop: number[];
+  uvs: Array<THREE.Vector2 | null> | null;
+}
+
+interface EdgeAttributes {
+  sharpness: number;
+  seam: boolean;
+  bevelWeight: number;
+}
+
+/**
+ * Index-based polygon mesh used between iterations
+ */
+interface SubdivMesh {
+  positions: THREE.Vector3[];
+  faces: SubdivFace[];
+  /** Attributes of edges that have any, keyed by edgeKey() */
+  edges: Map<number, EdgeAttributes>;
+}
+
+interface EdgeInfo {
+  a: number;
+  b: number;
+  /** Indices of faces using this edge */
+  faces: number[];
+  sharpness: number;
+}
+
+interface Topology {
+  edges: Map<number, EdgeInfo>;
+  vertexEdges: EdgeInfo[][];
+  vertexFaces: number[][];
+}
+
 /**
- * Apply Catmull-Clark subdivision to a QMesh
+ * Apply subdivision surface to a QMesh
  */
-export function applySubdivisionModifier(qMesh: QMesh, levels: number): QMesh {
+export function applySubdivisionModifier(
+  qMesh: QMesh,
+  levels: number,
+  algorithm: SubdivisionAlgorithm = 'catmull-clark'
+): QMesh {
   const clampedLevels = Math.max(0, Math.min(5, Math.round(levels)));
-  let subdividedMesh = qMesh;
+  if (clampedLevels === 0 || qMesh.faces.size === 0) {
+    return qMesh;
+  }
+
+  let mesh = fromQMesh(qMesh);
+  if (algorithm === 'loop') {
+    mesh = triangulate(mesh);
+  }
 
-  // Run the subdivision algorithm `levels` times
   for (let i = 0; i < clampedLevels; i++) {
-    subdividedMesh = catmullClarkIteration(subdividedMesh);
-    console.log(`[Subdivision] Completed iteration ${i + 1}/${levels}`);
+    mesh = algorithm === 'loop' ? loopIteration(mesh) : catmullClarkIteration(mesh);
   }
 
-  return subdividedMesh;
+  return toQMesh(mesh);
 }
 
 /**
  * Perform one iteration of Catmull-Clark subdivision
  */
-function catmullClarkIteration(inputMesh: QMesh): QMesh {
-  const newMesh = new QMesh();
+function catmullClarkIteration(input: SubdivMesh): SubdivMesh {
+  const { positions, faces } = input;
+  const topology = buildTopology(input);
+  const newPositions: THREE.Vector3[] = [];
+
+  // Step 1: Vertex points keep their index so child edges can find them
+  const vertexCount = positions.length;
+  positions.forEach(p => newPositions.push(p.clone()));
+
+  // Step 2: Face points (centroid of each face)
+  const facePoints = faces.map(face => {
+    const center = new THREE.Vector3();
+    face.loop.forEach(v => center.add(positions[v]));
+    center.divideScalar(face.loop.length);
+    return newPositions.push(center) - 1;
+  });
+
+  // Step 3: Edge points, smooth (a + b + F1 + F2) / 4 blended towards the midpoint by sharpness
+  const edgePoints = new Map<number, number>();
+  topology.edges.forEach((edge, key) => {
+    const midpoint = new THREE.Vector3().addVectors(positions[edge.a], positions[edge.b]).multiplyScalar(0.5);
+    let point = midpoint;
+
+    if (edge.sharpness < 1) {
+      const smooth = new THREE.Vector3().addVectors(positions[edge.a], positions[edge.b]);
+      edge.faces.forEach(f => smooth.add(newPositions[facePoints[f]]));
+      smooth.divideScalar(2 + edge.faces.length);
+      point = smooth.lerp(midpoint, edge.sharpness);
+    }
 
-  // Step 1: Calculate Face Points (centroid of each face)
-  const facePoints = new Map<string, QVertex>();
-  inputMesh.faces.forEach((face, faceId) => {
-    const center = face.calculateCenter();
-    const vertexId = `fp_${faceId}`;
-    const vertex = new QVertex(vertexId, center);
-    facePoints.set(faceId, vertex);
-    newMesh.vertices.set(vertexId, vertex);
+    edgePoints.set(key, newPositions.push(point) - 1);
   });
 
-  // Step 2: Calculate Edge Points
-  // For each edge, average of: edge endpoints + adjacent face points
-  const edgePoints = new Map<string, QVertex>();
-  const processedEdges = new Set<string>();
+  // Step 4: Reposition original vertices
+  // Smooth rule: (Q + 2R + (n-3)S) / n
+  // where Q = average of adjacent face points
+  //       R = average of adjacent edge midpoints
+  //       S = original vertex position
+  //       n = number of adjacent edges (valence)
+  for (let v = 0; v < vertexCount; v++) {
+    const incident = topology.vertexEdges[v];
+    const adjacentFaces = topology.vertexFaces[v];
+    if (incident.length === 0 || adjacentFaces.length === 0) continue;
 
-  inputMesh.halfEdges.forEach(he => {
-    const edgeKey = he.getEdgeKey();
-    if (!edgeKey || processedEdges.has(edgeKey)) return;
-    processedEdges.add(edgeKey);
+    const S = positions[v];
+    const n = incident.length;
 
-    const fromVertex = he.getFromVertex();
-    if (!fromVertex) return;
+    const Q = new THREE.Vector3();
+    adjacentFaces.forEach(f => Q.add(newPositions[facePoints[f]]));
+    Q.divideScalar(adjacentFaces.length);
 
-    // Average of edge endpoints
-    const edgeMidpoint = new THREE.Vector3()
-      .addScaledVector(fromVertex.position, 0.5)
-      .addScaledVector(he.toVertex.position, 0.5);
+    const R = new THREE.Vector3();
+    incident.forEach(edge => R.add(positions[edge.a]).add(positions[edge.b]));
+    R.divideScalar(2 * n);
 
-    // Add adjacent face points
-    const adjacentFacePoints: THREE.Vector3[] = [];
-    if (he.face) {
-      const fp = facePoints.get(he.face.id);
-      if (fp) adjacentFacePoints.push(fp.position);
-    }
-    if (he.twin?.face) {
-      const fp = facePoints.get(he.twin.face.id);
-      if (fp) adjacentFacePoints.push(fp.position);
+    const smooth = new THREE.Vector3().add(Q).addScaledVector(R, 2).addScaledVector(S, n - 3).divideScalar(n);
+
+    newPositions[v].copy(applyVertexSharpness(v, S, smooth, incident, positions, (neighbours) =>
+      // Crease rule: (e1 + e2 + 6S) / 8
+      new THREE.Vector3().addScaledVector(S, 6).add(neighbours[0]).add(neighbours[1]).divideScalar(8)
+    ));
+  }
+
+  // Step 5: Each face corner becomes a quad: vertex -> edge point -> face point -> previous edge point
+  const newFaces: SubdivFace[] = [];
+  const newEdges = new Map<number, EdgeAttributes>();
+  const newKey = (a: number, b: number) => edgeKey(a, b, newPositions.length);
+
+  faces.forEach((face, f) => {
+    const count = face.loop.length;
+    const faceUV = averageUV(face.uvs);
+
+    for (let i = 0; i < count; i++) {
+      const v = face.loop[i];
+      const next = face.loop[(i + 1) % count];
+      const prev = face.loop[(i - 1 + count) % count];
+      const ep = edgePoints.get(edgeKey(v, next, vertexCount))!;
+      const prevEp = edgePoints.get(edgeKey(prev, v, vertexCount))!;
+
+      newFaces.push({
+        loop: [v, ep, facePoints[f], prevEp],
+        uvs: face.uvs && faceUV
+          ? [
+            face.uvs[i]!.clone(),
+            midUV(face.uvs[i]!, face.uvs[(i + 1) % count]!),
+            faceUV.clone(),
+            midUV(face.uvs[(i - 1 + count) % count]!, face.uvs[i]!),
+          ]
+          : null,
+      });
     }
+  });
+
+  splitEdgeAttributes(input, topology, edgePoints, newEdges, newKey);
 
-    // Edge point = (edge midpoint + average of face points) / 2
-    const edgePoint = edgeMidpoint.clone();
-    if (adjacentFacePoints.length > 0) {
-      const faceAvg = new THREE.Vector3();
-      adjacentFacePoints.forEach(fp => faceAvg.add(fp));
-      faceAvg.divideScalar(adjacentFacePoints.length);
+  return { positions: newPositions, faces: newFaces, edges: newEdges };
+}
 
-      edgePoint.add(faceAvg).divideScalar(2);
+/**
+ * Perform one iteration of Loop subdivision (triangles only)
+ */
+function loopIteration(input: SubdivMesh): SubdivMesh {
+  const { positions, faces } = input;
+  const topology = buildTopology(input);
+  const vertexCount = positions.length;
+  const newPositions: THREE.Vector3[] = positions.map(p => p.clone());
+
+  // Step 1: Edge points, smooth 3/8 (a + b) + 1/8 (c + d) blended towards the midpoint by sharpness
+  const edgePoints = new Map<number, number>();
+  topology.edges.forEach((edge, key) => {
+    const midpoint = new THREE.Vector3().addVectors(positions[edge.a], positions[edge.b]).multiplyScalar(0.5);
+    let point = midpoint;
+
+    if (edge.sharpness < 1 && edge.faces.length === 2) {
+      const smooth = new THREE.Vector3().addVectors(positions[edge.a], positions[edge.b]).multiplyScalar(3 / 8);
+      edge.faces.forEach(f => {
+        const opposite = faces[f].loop.find(v => v !== edge.a && v !== edge.b);
+        if (opposite !== undefined) smooth.addScaledVector(positions[opposite], 1 / 8);
+      });
+      point = smooth.lerp(midpoint, edge.sharpness);
     }
 
-    const vertexId = `ep_${edgeKey}`;
-    const vertex = new QVertex(vertexId, edgePoint);
-    edgePoints.set(edgeKey, vertex);
-    newMesh.vertices.set(vertexId, vertex);
+    edgePoints.set(key, newPositions.push(point) - 1);
   });
 
-  // Step 3: Calculate New Vertex Points
-  // For each original vertex:
-  // newPos = (Q + 2*R + (n-3)*S) / n
-  // where Q = average of adjacent face points
-  //       R = average of adjacent edge midpoints
-  //       S = original vertex position
-  //       n = number of adjacent faces (valence)
-  const newVertexPoints = new Map<string, QVertex>();
-
-  inputMesh.vertices.forEach((vertex, vertexId) => {
-    // Find adjacent faces
-    const adjacentFaces: QFace[] = [];
-    const adjacentEdges: QHalfEdge[] = [];
-
-    if (vertex.oneOutgoingHalfEdge) {
-      let current = vertex.oneOutgoingHalfEdge;
-      const startHe = current;
-
-      do {
-        if (current.face) {
-          adjacentFaces.push(current.face);
-        }
-        adjacentEdges.push(current);
-
-        // Move to next outgoing half-edge
-        if (current.twin?.next) {
-          current = current.twin.next;
-        } else {
-          break;
-        }
-      } while (current !== startHe && current);
-    }
+  // Step 2: Reposition original vertices, smooth rule (1 - nβ) S + β Σ neighbours
+  for (let v = 0; v < vertexCount; v++) {
+    const incident = topology.vertexEdges[v];
+    if (incident.length === 0) continue;
 
-    const n = adjacentFaces.length;
-    if (n === 0) {
-      // Isolated vertex, keep original position
-      const newVertex = new QVertex(`vp_${vertexId}`, vertex.position.clone());
-      newVertexPoints.set(vertexId, newVertex);
-      newMesh.vertices.set(newVertex.id, newVertex);
-      return;
-    }
+    const S = positions[v];
+    const n = incident.length;
+    const beta = n === 3 ? 3 / 16 : 3 / (8 * n);
 
-    // Q = average of adjacent face points
-    const Q = new THREE.Vector3();
-    adjacentFaces.forEach(face => {
-      const fp = facePoints.get(face.id);
-      if (fp) Q.add(fp.position);
-    });
-    Q.divideScalar(adjacentFaces.length);
+    const smooth = S.clone().multiplyScalar(1 - n * beta);
+    incident.forEach(edge => smooth.addScaledVector(positions[edge.a === v ? edge.b : edge.a], beta));
 
-    // R = average of adjacent edge midpoints
-    const R = new THREE.Vector3();
-    adjacentEdges.forEach(he => {
-      const fromVertex = he.getFromVertex();
-      if (fromVertex) {
-        const midpoint = new THREE.Vector3()
-          .addScaledVector(fromVertex.position, 0.5)
-          .addScaledVector(he.toVertex.position, 0.5);
-        R.add(midpoint);
+    newPositions[v].copy(applyVertexSharpness(v, S, smooth, incident, positions, (neighbours) =>
+      // Crease rule: 3/4 S + 1/8 (e1 + e2)
+      S.clone().multiplyScalar(3 / 4).addScaledVector(neighbours[0], 1 / 8).addScaledVector(neighbours[1], 1 / 8)
+    ));
+  }
+
+  // Step 3: Each triangle becomes three corner triangles and a middle one
+  const newFaces: SubdivFace[] = [];
+  const newEdges = new Map<number, EdgeAttributes>();
+  const newKey = (a: number, b: number) => edgeKey(a, b, newPositions.length);
+
+  faces.forEach(face => {
+    const [a, b, c] = face.loop;
+    const ab = edgePoints.get(edgeKey(a, b, vertexCount))!;
+    const bc = edgePoints.get(edgeKey(b, c, vertexCount))!;
+    const ca = edgePoints.get(edgeKey(c, a, vertexCount))!;
+
+    const uvs = face.uvs;
+    const uvAB = uvs ? midUV(uvs[0]!, uvs[1]!) : null;
+    const uvBC = uvs ? midUV(uvs[1]!, uvs[2]!) : null;
+    const uvCA = uvs ? midUV(uvs[2]!, uvs[0]!) : null;
+    const corner = (i: number) => uvs![i]!.clone();
+
+    newFaces.push(
+      { loop: [a, ab, ca], uvs: uvs ? [corner(0), uvAB!.clone(), uvCA!.clone()] : null },
+      { loop: [ab, b, bc], uvs: uvs ? [uvAB!.clone(), corner(1), uvBC!.clone()] : null },
+      { loop: [ca, bc, c], uvs: uvs ? [uvCA!.clone(), uvBC!.clone(), corner(2)] : null },
+      { loop: [ab, bc, ca], uvs: uvs ? [uvAB!, uvBC!, uvCA!] : null },
+    );
+  });
+
+  splitEdgeAttributes(input, topology, edgePoints, newEdges, newKey);
+
+  return { positions: newPositions, faces: newFaces, edges: newEdges };
+}
+
+/**
+ * Pick the smooth, crease or corner position for a vertex from its sharp edges.
+ * Fewer than two sharp edges: smooth. Two: crease. More: corner (stays put).
+ * Semi-sharp edges (average sharpness below 1) blend with the smooth position.
+ */
+function applyVertexSharpness(
+  v: number,
+  S: THREE.Vector3,
+  smooth: THREE.Vector3,
+  incident: EdgeInfo[],
+  positions: THREE.Vector3[],
+  creaseRule: (neighbours: THREE.Vector3[]) => THREE.Vector3
+): THREE.Vector3 {
+  const sharpEdges = incident.filter(edge => edge.sharpness > 0);
+  if (sharpEdges.length < 2) return smooth;
+
+  const sharp = sharpEdges.length === 2
+    ? creaseRule(sharpEdges.map(edge => positions[edge.a === v ? edge.b : edge.a]))
+    : S.clone();
+
+  const sharpness = sharpEdges.reduce((sum, edge) => sum + edge.sharpness, 0) / sharpEdges.length;
+  return sharpness >= 1 ? sharp : smooth.clone().lerp(sharp, sharpness);
+}
+
+/**
+ * Copy seams, bevel weights and decayed sharpness from each parent edge onto its two halves
+ */
+function splitEdgeAttributes(
+  input: SubdivMesh,
+  topology: Topology,
+  edgePoints: Map<number, number>,
+  newEdges: Map<number, EdgeAttributes>,
+  newKey: (a: number, b: number) => number
+): void {
+  topology.edges.forEach((edge, key) => {
+    const attributes = input.edges.get(key);
+    // Each level uses up one unit of sharpness (boundaries are sharp regardless)
+    const sharpness = attributes ? attributes.sharpness - 1 : 0;
+    if (!attributes || (sharpness <= 0 && !attributes.seam && attributes.bevelWeight === 0)) return;
+
+    const child: EdgeAttributes = {
+      sharpness: Math.max(0, sharpness),
+      seam: attributes.seam,
+      bevelWeight: attributes.bevelWeight,
+    };
+    const ep = edgePoints.get(key)!;
+    newEdges.set(newKey(edge.a, ep), { ...child });
+    newEdges.set(newKey(ep, edge.b), { ...child });
+  });
+}
+
+/**
+ * Collect edges with their faces, and per-vertex incident edges and faces.
+ * Edges with other than two faces are boundary or non-manifold and always sharp.
+ */
+function buildTopology(mesh: SubdivMesh): Topology {
+  const count = mesh.positions.length;
+  const edges = new Map<number, EdgeInfo>();
+  const vertexEdges: EdgeInfo[][] = mesh.positions.map(() => []);
+  const vertexFaces: number[][] = mesh.positions.map(() => []);
+
+  mesh.faces.forEach((face, f) => {
+    face.loop.forEach((v, i) => {
+      vertexFaces[v].push(f);
+
+      const next = face.loop[(i + 1) % face.loop.length];
+      const key = edgeKey(v, next, count);
+      let edge = edges.get(key);
+      if (!edge) {
+        edge = { a: Math.min(v, next), b: Math.max(v, next), faces: [], sharpness: 0 };
+        edges.set(key, edge);
+        vertexEdges[v].push(edge);
+        vertexEdges[next].push(edge);
       }
+      edge.faces.push(f);
     });
-    R.divideScalar(adjacentEdges.length);
+  });
 
-    // S = original position
-    const S = vertex.position.clone();
+  edges.forEach((edge, key) => {
+    edge.sharpness = edge.faces.length !== 2
+      ? INFINITE_SHARPNESS
+      : mesh.edges.get(key)?.sharpness ?? 0;
+  });
 
-    // newPos = (Q + 2*R + (n-3)*S) / n
-    const newPos = new THREE.Vector3()
-      .add(Q)
-      .addScaledVector(R, 2)
-      .addScaledVector(S, n - 3)
-      .divideScalar(n);
+  return { edges, vertexEdges, vertexFaces };
+}
 
-    const newVertex = new QVertex(`vp_${vertexId}`, newPos);
-    newVertexPoints.set(vertexId, newVertex);
-    newMesh.vertices.set(newVertex.id, newVertex);
+/**
+ * Fan-triangulate polygons for Loop subdivision
+ */
+function triangulate(mesh: SubdivMesh): SubdivMesh {
+  const faces: SubdivFace[] = [];
+
+  mesh.faces.forEach(face => {
+    for (let i = 1; i < face.loop.length - 1; i++) {
+      faces.push({
+        loop: [face.loop[0], face.loop[i], face.loop[i + 1]],
+        uvs: face.uvs ? [face.uvs[0], face.uvs[i], face.uvs[i + 1]] : null,
+      });
+    }
   });
 
-  // Step 4: Build new faces
-  // For each original face with N vertices, create N new quad faces
-  let faceCounter = 0;
-  let heCounter = 0;
+  return { ...mesh, faces };
+}
+
+function fromQMesh(qMesh: QMesh): SubdivMesh {
+  const indices = new Map<string, number>();
+  const positions: THREE.Vector3[] = [];
+  qMesh.vertices.forEach((vertex, id) => {
+    indices.set(id, positions.push(vertex.position.clone()) - 1);
+  });
 
-  inputMesh.faces.forEach((face, faceId) => {
+  const faces: SubdivFace[] = [];
+  qMesh.faces.forEach(face => {
     const halfEdges = face.getHalfEdges();
-    const facePoint = facePoints.get(faceId);
-    if (!facePoint) return;
+    const loop: number[] = [];
+    const uvs: Array<THREE.Vector2 | null> = [];
 
-    // For each edge in the face, create a quad
     halfEdges.forEach(he => {
-      const edgeKey = he.getEdgeKey();
-      const edgePoint = edgePoints.get(edgeKey);
-      if (!edgeKey || !edgePoint) return;
-
-      // Get the vertex point for the "from" vertex
-      const fromVertex = he.getFromVertex();
-      if (!fromVertex) return;
-
-      const vertexPoint = newVertexPoints.get(fromVertex.id);
-      if (!vertexPoint) return;
-
-      // Get the previous edge's edge point
-      const prevHe = he.prev;
-      if (!prevHe) return;
-
-      const prevEdgeKey = prevHe.getEdgeKey();
-      const prevEdgePoint = edgePoints.get(prevEdgeKey);
-      if (!prevEdgeKey || !prevEdgePoint) return;
-
-      // Create a new quad face: vertexPoint -> edgePoint -> facePoint -> prevEdgePoint
-      const newFaceId = `f_${faceCounter++}`;
-      const newFace = new QFace(newFaceId);
-      newMesh.faces.set(newFaceId, newFace);
-
-      // Create 4 half-edges for the quad
-      const he1 = new QHalfEdge(`he_${heCounter++}`, edgePoint);
-      const he2 = new QHalfEdge(`he_${heCounter++}`, facePoint);
-      const he3 = new QHalfEdge(`he_${heCounter++}`, prevEdgePoint);
-      const he4 = new QHalfEdge(`he_${heCounter++}`, vertexPoint);
-
-      // Link next/prev
-      he1.next = he2; he2.prev = he1;
-      he2.next = he3; he3.prev = he2;
-      he3.next = he4; he4.prev = he3;
-      he4.next = he1; he1.prev = he4;
-
-      // Link to face
-      he1.face = newFace;
-      he2.face = newFace;
-      he3.face = newFace;
-      he4.face = newFace;
-      newFace.oneHalfEdge = he1;
-
-      // Add to mesh
-      newMesh.halfEdges.set(he1.id, he1);
-      newMesh.halfEdges.set(he2.id, he2);
-      newMesh.halfEdges.set(he3.id, he3);
-      newMesh.halfEdges.set(he4.id, he4);
-
-      // Update vertex outgoing half-edges
-      if (!edgePoint.oneOutgoingHalfEdge) edgePoint.oneOutgoingHalfEdge = he1;
-      if (!facePoint.oneOutgoingHalfEdge) facePoint.oneOutgoingHalfEdge = he2;
-      if (!prevEdgePoint.oneOutgoingHalfEdge) prevEdgePoint.oneOutgoingHalfEdge = he3;
-      if (!vertexPoint.oneOutgoingHalfEdge) vertexPoint.oneOutgoingHalfEdge = he4;
+      const fromVertex = he.prev ? he.prev.toVertex : he.getFromVertex();
+      const index = fromVertex ? indices.get(fromVertex.id) : undefined;
+      if (index === undefined) return;
+      loop.push(index);
+      uvs.push(he.uv ? he.uv.clone() : null);
     });
+
+    if (loop.length < 3) return;
+    faces.push({ loop, uvs: uvs.every(uv => uv) ? uvs : null });
+  });
+
+  const edges = new Map<number, EdgeAttributes>();
+  const count = positions.length;
+  const attributesFor = (key: string): EdgeAttributes | null => {
+    const [aId, bId] = splitEdgeKey(qMesh, key);
+    const a = aId !== null ? indices.get(aId) : undefined;
+    const b = bId !== null ? indices.get(bId) : undefined;
+    if (a === undefined || b === undefined) return null;
+
+    const index = edgeKey(a, b, count);
+    let attributes = edges.get(index);
+    if (!attributes) {
+      attributes = { sharpness: 0, seam: false, bevelWeight: 0 };
+      edges.set(index, attributes);
+    }
+    return attributes;
+  };
+
+  qMesh.creases.forEach((weight, key) => {
+    const attributes = weight > 0 ? attributesFor(key) : null;
+    if (attributes) attributes.sharpness = weightToSharpness(weight);
+  });
+  qMesh.seams.forEach(key => {
+    const attributes = attributesFor(key);
+    if (attributes) attributes.seam = true;
+  });
+  qMesh.bevelWeights.forEach((weight, key) => {
+    const attributes = weight > 0 ? attributesFor(key) : null;
+    if (attributes) attributes.bevelWeight = weight;
+  });
+
+  return { positions, faces, edges };
+}
+
+function toQMesh(mesh: SubdivMesh): QMesh {
+  const newMesh = new QMesh();
+
+  // Drop vertices no face uses (isolated input vertices)
+  const used = new Set<number>();
+  mesh.faces.forEach(face => face.loop.forEach(v => used.add(v)));
+
+  const vertices: Array<QVertex | undefined> = mesh.positions.map((position, i) => {
+    if (!used.has(i)) return undefined;
+    const vertex = new QVertex(newMesh.nextVertexId(), position);
+    newMesh.vertices.set(vertex.id, vertex);
+    return vertex;
+  });
+
+  mesh.faces.forEach(face => {
+    const newFace = new QFace(newMesh.nextFaceId());
+    newMesh.faces.set(newFace.id, newFace);
+
+    const halfEdges: QHalfEdge[] = face.loop.map((v, i) => {
+      const fromVertex = vertices[v]!;
+      const he = new QHalfEdge(newMesh.nextHalfEdgeId(), vertices[face.loop[(i + 1) % face.loop.length]]!);
+      he.face = newFace;
+      he.uv = face.uvs ? face.uvs[i] : null;
+      newMesh.halfEdges.set(he.id, he);
+
+      if (!fromVertex.oneOutgoingHalfEdge) {
+        fromVertex.oneOutgoingHalfEdge = he;
+      }
+      return he;
+    });
+
+    // Link next/prev
+    for (let i = 0; i < halfEdges.length; i++) {
+      halfEdges[i].next = halfEdges[(i + 1) % halfEdges.length];
+      halfEdges[i].prev = halfEdges[(i - 1 + halfEdges.length) % halfEdges.length];
+    }
+
+    newFace.oneHalfEdge = halfEdges[0];
   });
 
-  // Step 5: Link twin edges
   linkTwins(newMesh);
 
-  console.log(`[Subdivision] Created ${newMesh.vertices.size} vertices, ${newMesh.faces.size} faces`);
+  const count = mesh.positions.length;
+  mesh.edges.forEach((attributes, key) => {
+    const a = vertices[Math.floor(key / count)];
+    const b = vertices[key % count];
+    if (!a || !b) return;
+
+    const ids = [a.id, b.id].sort();
+    const qKey = `${ids[0]}-${ids[1]}`;
+    if (attributes.seam) newMesh.seams.add(qKey);
+    if (attributes.bevelWeight > 0) newMesh.bevelWeights.set(qKey, attributes.bevelWeight);
+    if (attributes.sharpness > 0) newMesh.creases.set(qKey, sharpnessToWeight(attributes.sharpness));
+  });
 
   return newMesh;
 }
 
+function weightToSharpness(weight: number): number {
+  return weight >= 1 ? INFINITE_SHARPNESS : weight * CREASE_SHARPNESS_SCALE;
+}
+
+function sharpnessToWeight(sharpness: number): number {
+  return sharpness === INFINITE_SHARPNESS ? 1 : Math.min(1, sharpness / CREASE_SHARPNESS_SCALE);
+}
+
+/**
+ * Resolve an edge key back to its two vertex IDs. Vertex IDs may contain '-',
+ * so try each split point until both halves are vertices of the mesh.
+ */
+function splitEdgeKey(qMesh: QMesh, key: string): [string | null, string | null] {
+  for (let i = key.indexOf('-'); i !== -1; i = key.indexOf('-', i + 1)) {
+    const a = key.slice(0, i);
+    const b = key.slice(i + 1);
+    if (qMesh.vertices.has(a) && qMesh.vertices.has(b)) return [a, b];
+  }
+  return [null, null];
+}
+
+function edgeKey(a: number, b: number, count: number): number {
+  return a < b ? a * count + b : b * count + a;
+}
+
+function midUV(a: THREE.Vector2, b: THREE.Vector2): THREE.Vector2 {
+  return a.clone().add(b).multiplyScalar(0.5);
+}
+
+function averageUV(uvs: Array<THREE.Vector2 | null> | null): THREE.Vector2 | null {
+  if (!uvs) return null;
+  const sum = new THREE.Vector2();
+  uvs.forEach(uv => sum.add(uv!));
+  return sum.divideScalar(uvs.length);
+}
+
 /**
  * Link twin half-edges by finding matching edges in opposite directions
  */
@@ -0,0 +1,198 @@
+/**
+ * Triangulate Modifier
+ *
+ * Splits quads and n-gons into triangles, e.g. for game engine export.
+ * Quads use a choice of diagonal; n-gons are ear-clipped in their own plane so
+ * concave polygons triangulate correctly. Vertex IDs, UVs and edge data are kept.
+ */
+
+import { QMesh, QVertex, QFace, QHalfEdge } from '../QMesh';
+import * as THREE from 'three';
+
+export type TriangulateQuadMethod = 'beauty' | 'fixed' | 'alternate' | 'shortest';
+
+export interface TriangulateModifierOptions {
+  /**
+   * Diagonal used for quads:
+   * beauty = best shaped triangles, fixed = first to third corner,
+   * alternate = second to fourth corner, shortest = shortest diagonal
+   */
+  quadMethod?: TriangulateQuadMethod;
+  /** Faces with fewer corners than this are left alone (minimum 4) */
+  minVertices?: number;
+}
+
+/**
+ * Apply triangulate modifier to a QMesh
+ */
+export function applyTriangulateModifier(qMesh: QMesh, options: TriangulateModifierOptions = {}): QMesh {
+  const quadMethod = options.quadMethod || 'beauty';
+  const minVertices = Math.max(4, Math.floor(options.minVertices ?? 4));
+
+  let needsWork = false;
+  qMesh.faces.forEach(face => {
+    if (face.getHalfEdges().length >= minVertices) needsWork = true;
+  });
+  if (!needsWork) {
+    return qMesh;
+  }
+
+  const newMesh = new QMesh();
+  qMesh.vertices.forEach((vertex, id) => {
+    newMesh.vertices.set(id, new QVertex(id, vertex.position.clone()));
+  });
+
+  let heCounter = 0;
+  const addFace = (faceId: string, vertices: QVertex[], uvs: Array<THREE.Vector2 | null>): void => {
+    const newFace = new QFace(faceId);
+    newMesh.faces.set(faceId, newFace);
+
+    const halfEdges = vertices.map((fromVertex, i) => {
+      const he = new QHalfEdge(`he_${heCounter++}`, vertices[(i + 1) % vertices.length]);
+      he.face = newFace;
+      he.uv = uvs[i] ? uvs[i]!.clone() : null;
+      newMesh.halfEdges.set(he.id, he);
+
+      if (!fromVertex.oneOutgoingHalfEdge) {
+        fromVertex.oneOutgoingHalfEdge = he;
+      }
+      return he;
+    });
+
+    // Link next/prev
+    for (let i = 0; i < halfEdges.length; i++) {
+      halfEdges[i].next = halfEdges[(i + 1) % halfEdges.length];
+      halfEdges[i].prev = halfEdges[(i - 1 + halfEdges.length) % halfEdges.length];
+    }
+
+    newFace.oneHalfEdge = halfEdges[0];
+  };
+
+  qMesh.faces.forEach((face, faceId) => {
+    const halfEdges = face.getHalfEdges();
+    const vertices = halfEdges.map(he => newMesh.vertices.get(he.prev!.toVertex.id)!);
+    const uvs = halfEdges.map(he => he.uv);
+
+    if (vertices.length < minVertices) {
+      addFace(faceId, vertices, uvs);
+      return;
+    }
+
+    const triangles = vertices.length === 4
+      ? triangulateQuad(vertices.map(v => v.position), quadMethod)
+      : triangulatePolygon(vertices.map(v => v.position));
+
+    // The first triangle keeps the face ID
+    triangles.forEach((corners, i) => {
+      addFace(
+        i === 0 ? faceId : `${faceId}_t${i}`,
+        corners.map(c => vertices[c]),
+        corners.map(c => uvs[c])
+      );
+    });
+  });
+
+  linkTwins(newMesh);
+
+  // Original edges keep their keys, so edge data carries over as-is
+  qMesh.seams.forEach(key => newMesh.seams.add(key));
+  qMesh.bevelWeights.forEach((weight, key) => newMesh.bevelWeights.set(key, weight));
+  qMesh.creases.forEach((weight, key) => newMesh.creases.set(key, weight));
+
+  return newMesh;
+}
+
+/**
+ * Split a quad along one of its diagonals. Returns corner indices per triangle.
+ */
+export function triangulateQuad(corners: THREE.Vector3[], method: TriangulateQuadMethod): number[][] {
+  const split02 = [[0, 1, 2], [0, 2, 3]];
+  const split13 = [[0, 1, 3], [1, 2, 3]];
+
+  switch (method) {
+    case 'fixed':
+      return split02;
+    case 'alternate':
+      return split13;
+    case 'shortest':
+      return corners[0].distanceToSquared(corners[2]) <= corners[1].distanceToSquared(corners[3]) ? split02 : split13;
+    case 'beauty':
+    default: {
+      // Prefer the split whose worst triangle has the largest minimum angle
+      const quality = (triangles: number[][]) =>
+        Math.min(...triangles.map(t => minAngle(corners[t[0]], corners[t[1]], corners[t[2]])));
+      return quality(split02) >= quality(split13) ? split02 : split13;
+    }
+  }
+}
+
+/**
+ * Ear-clip a polygon in its best-fit plane. Returns corner indices per triangle;
+ * falls back to a fan if the polygon is degenerate.
+ */
+export function triangulatePolygon(corners: THREE.Vector3[]): number[][] {
+  const count = corners.length;
+  const fan = Array.from({ length: count - 2 }, (_, i) => [0, i + 1, i + 2]);
+
+  // Newell normal, then project onto the plane it defines
+  const normal = new THREE.Vector3();
+  for (let i = 0; i < count; i++) {
+    const a = corners[i];
+    const b = corners[(i + 1) % count];
+    normal.x += (a.y - b.y) * (a.z + b.z);
+    normal.y += (a.z - b.z) * (a.x + b.x);
+    normal.z += (a.x - b.x) * (a.y + b.y);
+  }
+  if (normal.lengthSq() < 1e-20) return fan;
+  normal.normalize();
+
+  const tangent = Math.abs(normal.x) < 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+  const u = tangent.cross(normal).normalize();
+  const v = new THREE.Vector3().crossVectors(normal, u);
+  const contour = corners.map(p => new THREE.Vector2(p.dot(u), p.dot(v)));
+
+  const triangles = THREE.ShapeUtils.triangulateShape(contour, []);
+  if (triangles.length !== count - 2) return fan;
+
+  // Keep the winding of the original face
+  const clockwise = THREE.ShapeUtils.isClockWise(contour);
+  return triangles.map(([a, b, c]) => {
+    const ccw = THREE.ShapeUtils.isClockWise([contour[a], contour[b], contour[c]]) === clockwise;
+    return ccw ? [a, b, c] : [a, c, b];
+  });
+}
+
+function minAngle(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): number {
+  const angle = (p: THREE.Vector3, q: THREE.Vector3, r: THREE.Vector3) =>
+    new THREE.Vector3().subVectors(q, p).angleTo(new THREE.Vector3().subVectors(r, p));
+  return Math.min(angle(a, b, c), angle(b, c, a), angle(c, a, b));
+}
+
+/**
+ * Link twin half-edges
+ */
+function linkTwins(mesh: QMesh): void {
+  // Build a map of (fromVertexId, toVertexId) -> HalfEdge
+  const edgeMap = new Map<string, QHalfEdge>();
+
+  mesh.halfEdges.forEach(he => {
+    const fromVertex = he.getFromVertex();
+    if (!fromVertex) return;
+
+    edgeMap.set(`${fromVertex.id}->${he.toVertex.id}`, he);
+  });
+
+  // Find twins
+  mesh.halfEdges.forEach(he => {
+    if (he.twin) return; // Already linked
+
+    const fromVertex = he.getFromVertex();
+    if (!fromVertex) return;
+
+    const twin = edgeMap.get(`${he.toVertex.id}->${fromVertex.id}`);
+    if (twin) {
+      he.twin = twin;
+      twin.twin = he;
+    }
+  });
+}
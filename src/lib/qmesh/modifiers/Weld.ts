@@ -0,0 +1,205 @@
+/**
+ * Weld Modifier
+ *
+ * Merges vertices that lie within a distance of each other (merge by distance),
+ * using the same grid search as MeshOptimizer.mergeVertices. Faces that collapse
+ * below three corners are removed; edge data follows the surviving vertices.
+ */
+
+import { QMesh, QVertex, QFace, QHalfEdge } from '../QMesh';
+import { findMergeTargets } from '../../mesh/MeshOptimizer';
+import * as THREE from 'three';
+
+export type WeldMode = 'all' | 'connected';
+
+export interface WeldModifierOptions {
+  distance: number;
+  /** all = any vertices in range, connected = only the two ends of a short edge */
+  mode?: WeldMode;
+}
+
+/**
+ * Apply weld modifier to a QMesh
+ */
+export function applyWeldModifier(qMesh: QMesh, options: WeldModifierOptions): QMesh {
+  const distance = Math.max(0, options.distance);
+  const targets = options.mode === 'connected'
+    ? findConnectedTargets(qMesh, distance)
+    : findAllTargets(qMesh, distance);
+
+  if (targets.size === 0) {
+    return qMesh;
+  }
+
+  return collapseVertices(qMesh, targets);
+}
+
+/**
+ * Rebuild a mesh with each vertex in `targets` replaced by the vertex it maps to.
+ * Used by weld and decimate. Corner UVs of replaced vertices are kept unless
+ * `cornerUVs` provides one for the face (keyed by `${faceId}:${vertexId}`).
+ */
+export function collapseVertices(
+  qMesh: QMesh,
+  targets: Map<string, string>,
+  cornerUVs?: Map<string, THREE.Vector2>
+): QMesh {
+  const resolve = (id: string): string => {
+    let current = id;
+    while (targets.has(current)) current = targets.get(current)!;
+    return current;
+  };
+
+  const newMesh = new QMesh();
+  qMesh.vertices.forEach((vertex, id) => {
+    if (!targets.has(id)) newMesh.vertices.set(id, new QVertex(id, vertex.position.clone()));
+  });
+
+  let heCounter = 0;
+  qMesh.faces.forEach((face, faceId) => {
+    const vertices: QVertex[] = [];
+    const uvs: Array<THREE.Vector2 | null> = [];
+
+    face.getHalfEdges().forEach(he => {
+      const fromId = he.prev!.toVertex.id;
+      const vertex = newMesh.vertices.get(resolve(fromId))!;
+      if (vertices[vertices.length - 1] === vertex) return;
+      vertices.push(vertex);
+      uvs.push(cornerUVs?.get(`${faceId}:${fromId}`) ?? he.uv);
+    });
+    while (vertices.length > 1 && vertices[0] === vertices[vertices.length - 1]) {
+      vertices.pop();
+      uvs.pop();
+    }
+    if (new Set(vertices).size < 3) return;
+
+    const newFace = new QFace(faceId);
+    newMesh.faces.set(faceId, newFace);
+
+    const halfEdges = vertices.map((fromVertex, i) => {
+      const he = new QHalfEdge(`he_${heCounter++}`, vertices[(i + 1) % vertices.length]);
+      he.face = newFace;
+      he.uv = uvs[i] ? uvs[i]!.clone() : null;
+      newMesh.halfEdges.set(he.id, he);
+
+      if (!fromVertex.oneOutgoingHalfEdge) {
+        fromVertex.oneOutgoingHalfEdge = he;
+      }
+      return he;
+    });
+
+    // Link next/prev
+    for (let i = 0; i < halfEdges.length; i++) {
+      halfEdges[i].next = halfEdges[(i + 1) % halfEdges.length];
+      halfEdges[i].prev = halfEdges[(i - 1 + halfEdges.length) % halfEdges.length];
+    }
+
+    newFace.oneHalfEdge = halfEdges[0];
+  });
+
+  linkTwins(newMesh);
+
+  // Edge data follows the merged vertices, as long as the edge still exists
+  const edgeKeys = new Set(newMesh.getEdges().map(e => e.edgeKey));
+  const remapKey = (key: string): string | null => {
+    const ends = splitEdgeKey(qMesh, key);
+    if (!ends) return null;
+    const ids = ends.map(resolve).sort();
+    const newKey = `${ids[0]}-${ids[1]}`;
+    return ids[0] !== ids[1] && edgeKeys.has(newKey) ? newKey : null;
+  };
+
+  qMesh.seams.forEach(key => {
+    const newKey = remapKey(key);
+    if (newKey) newMesh.seams.add(newKey);
+  });
+  qMesh.bevelWeights.forEach((weight, key) => {
+    const newKey = remapKey(key);
+    if (newKey) newMesh.bevelWeights.set(newKey, Math.max(weight, newMesh.bevelWeights.get(newKey) ?? 0));
+  });
+  qMesh.creases.forEach((weight, key) => {
+    const newKey = remapKey(key);
+    if (newKey) newMesh.creases.set(newKey, Math.max(weight, newMesh.creases.get(newKey) ?? 0));
+  });
+
+  return newMesh;
+}
+
+/**
+ * Merge every vertex into the first vertex found within `distance`
+ */
+function findAllTargets(qMesh: QMesh, distance: number): Map<string, string> {
+  const ids = Array.from(qMesh.vertices.keys());
+  const positions = ids.map(id => qMesh.vertices.get(id)!.position);
+  const targets = new Map<string, string>();
+
+  findMergeTargets(positions, distance).forEach((target, i) => {
+    if (target !== i) targets.set(ids[i], ids[target]);
+  });
+
+  return targets;
+}
+
+/**
+ * Merge along edges no longer than `distance` (union-find over short edges)
+ */
+function findConnectedTargets(qMesh: QMesh, distance: number): Map<string, string> {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.has(root)) root = parent.get(root)!;
+    return root;
+  };
+
+  qMesh.getEdges().forEach(({ v1, v2 }) => {
+    if (v1.position.distanceTo(v2.position) > distance) return;
+    const a = find(v1.id);
+    const b = find(v2.id);
+    if (a !== b) parent.set(b, a);
+  });
+
+  const targets = new Map<string, string>();
+  parent.forEach((_, id) => targets.set(id, find(id)));
+  return targets;
+}
+
+/**
+ * Resolve an edge key back to its two vertex IDs (vertex IDs may contain '-')
+ */
+function splitEdgeKey(qMesh: QMesh, key: string): [string, string] | null {
+  for (let i = key.indexOf('-'); i !== -1; i = key.indexOf('-', i + 1)) {
+    const a = key.slice(0, i);
+    const b = key.slice(i + 1);
+    if (qMesh.vertices.has(a) && qMesh.vertices.has(b)) return [a, b];
+  }
+  return null;
+}
+
+/**
+ * Link twin half-edges
+ */
+function linkTwins(mesh: QMesh): void {
+  // Build a map of (fromVertexId, toVertexId) -> HalfEdge
+  const edgeMap = new Map<string, QHalfEdge>();
+
+  mesh.halfEdges.forEach(he => {
+    const fromVertex = he.getFromVertex();
+    if (!fromVertex) return;
+
+    edgeMap.set(`${fromVertex.id}->${he.toVertex.id}`, he);
+  });
+
+  // Find twins
+  mesh.halfEdges.forEach(he => {
+    if (he.twin) return; // Already linked
+
+    const fromVertex = he.getFromVertex();
+    if (!fromVertex) return;
+
+    const twin = edgeMap.get(`${he.toVertex.id}->${fromVertex.id}`);
+    if (twin) {
+      he.twin = twin;
+      twin.twin = he;
+    }
+  });
+}
@@ -0,0 +1,195 @@
+/**
+ * Tests for Array Modifier
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { QMesh, QFace } from '../../QMesh';
+import { applyArrayModifier } from '../Array';
+import * as THREE from 'three';
+
+function getBounds(mesh: QMesh): THREE.Box3 {
+  const box = new THREE.Box3();
+  mesh.vertices.forEach(v => box.expandByPoint(v.position));
+  return box;
+}
+
+function faceCenter(face: QFace): THREE.Vector3 {
+  const vertices = face.getVertices();
+  const center = new THREE.Vector3();
+  vertices.forEach(v => center.add(v.position));
+  return center.divideScalar(vertices.length);
+}
+
+function countBoundaryEdges(mesh: QMesh): number {
+  let count = 0;
+  mesh.halfEdges.forEach(he => {
+    if (!he.twin) count++;
+  });
+  return count;
+}
+
+describe('Array Modifier', () => {
+  let cube: QMesh;
+
+  beforeEach(() => {
+    cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+  });
+
+  it('should create count copies with a constant offset', () => {
+    const result = applyArrayModifier(cube, {
+      count: 3,
+      constantOffset: new THREE.Vector3(2, 0, 0),
+    });
+
+    expect(result.vertices.size).toBe(24);
+    expect(result.faces.size).toBe(18);
+
+    const bounds = getBounds(result);
+    expect(bounds.min.x).toBeCloseTo(-0.5);
+    expect(bounds.max.x).toBeCloseTo(4.5);
+  });
+
+  it('should offset relative to the bounding box size', () => {
+    const result = applyArrayModifier(cube, {
+      count: 4,
+      relativeOffset: new THREE.Vector3(0, 1.5, 0),
+    });
+
+    const bounds = getBounds(result);
+    expect(bounds.min.y).toBeCloseTo(-0.5);
+    expect(bounds.max.y).toBeCloseTo(0.5 + 3 * 1.5);
+  });
+
+  it('should combine constant and relative offsets', () => {
+    const result = applyArrayModifier(cube, {
+      count: 2,
+      constantOffset: new THREE.Vector3(0.5, 0, 0),
+      relativeOffset: new THREE.Vector3(1, 0, 0),
+    });
+
+    expect(getBounds(result).max.x).toBeCloseTo(0.5 + 1.5);
+  });
+
+  it('should apply an offset matrix cumulatively', () => {
+    const offsetMatrix = new THREE.Matrix4().makeRotationZ(Math.PI / 2);
+    const result = applyArrayModifier(cube, {
+      count: 4,
+      constantOffset: new THREE.Vector3(2, 0, 0),
+      offsetMatrix,
+    });
+
+    // Translate then rotate 90° each step walks around a square
+    expect(result.faces.size).toBe(24);
+    const bounds = getBounds(result);
+    expect(bounds.max.x).toBeCloseTo(2.5);
+    expect(bounds.max.y).toBeCloseTo(2.5);
+  });
+
+  it('should place copies evenly around a full circle', () => {
+    const plane = QMesh.fromBufferGeometry(new THREE.PlaneGeometry(1, 1).translate(3, 0, 0));
+    const result = applyArrayModifier(plane, { count: 4, type: 'circular', axis: 'z' });
+
+    const centers = Array.from(result.faces.values()).map(faceCenter);
+    const angles = centers
+      .map(c => Math.round(THREE.MathUtils.radToDeg(Math.atan2(c.y, c.x))))
+      .sort((a, b) => a - b);
+    expect(angles).toEqual([-90, 0, 90, 180]);
+  });
+
+  it('should span a partial arc including both ends', () => {
+    const plane = QMesh.fromBufferGeometry(new THREE.PlaneGeometry(1, 1).translate(3, 0, 0));
+    const result = applyArrayModifier(plane, { count: 3, type: 'circular', axis: 'z', angle: 90 });
+
+    const angles = Array.from(result.faces.values())
+      .map(faceCenter)
+      .map(c => Math.round(THREE.MathUtils.radToDeg(Math.atan2(c.y, c.x))))
+      .sort((a, b) => a - b);
+    expect(angles).toEqual([0, 45, 90]);
+  });
+
+  it('should merge touching vertices between copies', () => {
+    const result = applyArrayModifier(cube, {
+      count: 3,
+      relativeOffset: new THREE.Vector3(1, 0, 0),
+      merge: true,
+    });
+
+    // 3 cubes sharing 2 faces worth of vertices
+    expect(result.vertices.size).toBe(24 - 8);
+    expect(countBoundaryEdges(result)).toBe(0);
+  });
+
+  it('should not merge when copies do not touch', () => {
+    const result = applyArrayModifier(cube, {
+      count: 3,
+      constantOffset: new THREE.Vector3(2, 0, 0),
+      merge: true,
+    });
+
+    expect(result.vertices.size).toBe(24);
+  });
+
+  it('should merge the last copy back into the first for full circles', () => {
+    // A strip from the axis outwards: its edges at y=0 line up after a 90° turn
+    const strip = QMesh.fromBufferGeometry(
+      new THREE.PlaneGeometry(1, 1).rotateX(Math.PI / 2).translate(0.5, 0, 0)
+    );
+    const result = applyArrayModifier(strip, {
+      count: 2,
+      type: 'circular',
+      axis: 'y',
+      angle: 360,
+      merge: true,
+    });
+
+    // Two opposite strips share the two vertices on the axis
+    expect(result.vertices.size).toBe(6);
+  });
+
+  it('should derive count from fit length', () => {
+    const result = applyArrayModifier(cube, {
+      count: 2,
+      constantOffset: new THREE.Vector3(2, 0, 0),
+      fitType: 'length',
+      fitLength: 7,
+    });
+
+    // Origins at 0, 2, 4, 6 fit within 7
+    expect(result.faces.size).toBe(24);
+    expect(getBounds(result).max.x).toBeCloseTo(6.5);
+  });
+
+  it('should return the original mesh for a single copy', () => {
+    const result = applyArrayModifier(cube, { count: 1 });
+
+    expect(result).toBe(cube);
+  });
+
+  it('should keep corner UVs on copies', () => {
+    const result = applyArrayModifier(cube, {
+      count: 2,
+      constantOffset: new THREE.Vector3(2, 0, 0),
+    });
+
+    result.faces.forEach(face => {
+      face.getHalfEdges().forEach(he => expect(he.uv).not.toBeNull());
+    });
+  });
+
+  it('should flip winding for mirrored offsets', () => {
+    const mirror = new THREE.Matrix4().makeScale(-1, 1, 1);
+    const result = applyArrayModifier(cube, {
+      count: 2,
+      constantOffset: new THREE.Vector3(3, 0, 0),
+      offsetMatrix: mirror,
+    });
+
+    // Normals of the +X face and its mirrored copy still point outward
+    result.faces.forEach(face => {
+      const center = faceCenter(face);
+      const normal = face.calculateNormal();
+      const cubeCenter = new THREE.Vector3(center.x > 1 ? 3 : 0, 0, 0);
+      expect(normal.dot(center.clone().sub(cubeCenter))).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Tests for Bevel Modifier
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { QMesh, QFace } from '../../QMesh';
+import { applyBevelModifier } from '../Bevel';
+import * as THREE from 'three';
+
+function faceCenter(face: QFace): THREE.Vector3 {
+  const vertices = face.getVertices();
+  const center = new THREE.Vector3();
+  vertices.forEach(v => center.add(v.position));
+  return center.divideScalar(vertices.length);
+}
+
+function countBoundaryEdges(mesh: QMesh): number {
+  let count = 0;
+  mesh.halfEdges.forEach(he => {
+    if (!he.twin) count++;
+  });
+  return count;
+}
+
+function expectOutwardFaces(mesh: QMesh) {
+  mesh.faces.forEach(face => {
+    const normal = face.calculateNormal();
+    expect(normal.dot(faceCenter(face))).toBeGreaterThan(0);
+  });
+}
+
+describe('Bevel Modifier', () => {
+  let cube: QMesh;
+
+  beforeEach(() => {
+    cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+  });
+
+  it('should chamfer every edge of a cube', () => {
+    const result = applyBevelModifier(cube, { amount: 0.1, segments: 1 });
+
+    // 6 faces + 12 edge strips + 8 corner triangles
+    expect(result.faces.size).toBe(26);
+    expect(result.vertices.size).toBe(24);
+    expect(countBoundaryEdges(result)).toBe(0);
+    expectOutwardFaces(result);
+  });
+
+  it('should keep the original faces inset by the amount', () => {
+    const result = applyBevelModifier(cube, { amount: 0.1, segments: 1 });
+
+    result.vertices.forEach(v => {
+      const coords = [v.position.x, v.position.y, v.position.z].map(c => Math.abs(c));
+      // Each corner point lies on one face plane and 0.1 in from the other two
+      expect(coords.filter(c => Math.abs(c - 0.5) < 1e-6)).toHaveLength(1);
+      expect(coords.filter(c => Math.abs(c - 0.4) < 1e-6)).toHaveLength(2);
+    });
+  });
+
+  it('should add profile segments', () => {
+    const result = applyBevelModifier(cube, { amount: 0.1, segments: 3 });
+
+    // 6 faces + 12 edges * 3 segments + 8 corner polygons
+    expect(result.faces.size).toBe(6 + 36 + 8);
+    expect(countBoundaryEdges(result)).toBe(0);
+    expectOutwardFaces(result);
+  });
+
+  it('should round the profile at 0.5 and flatten it at 0.25', () => {
+    const distanceOfMiddle = (profile: number) => {
+      const result = applyBevelModifier(cube, { amount: 0.2, segments: 2, profile });
+      let max = 0;
+      result.vertices.forEach(v => {
+        // Middle profile points sit on the diagonal between two faces
+        if (Math.abs(Math.abs(v.position.x) - Math.abs(v.position.y)) < 1e-6 && Math.abs(v.position.z) < 0.31) {
+          max = Math.max(max, Math.abs(v.position.x));
+        }
+      });
+      return max;
+    };
+
+    const flat = distanceOfMiddle(0.25);
+    const round = distanceOfMiddle(0.5);
+    const sharp = distanceOfMiddle(1);
+
+    expect(flat).toBeCloseTo(0.4);
+    expect(round).toBeCloseTo(0.3 + 0.2 * Math.SQRT1_2);
+    expect(sharp).toBeGreaterThan(round);
+    expect(sharp).toBeLessThanOrEqual(0.5);
+  });
+
+  it('should only bevel edges sharper than the angle limit', () => {
+    const plane = QMesh.fromBufferGeometry(new THREE.PlaneGeometry(2, 2, 2, 2));
+    const result = applyBevelModifier(plane, { amount: 0.1, limitMethod: 'angle', angle: 30 });
+
+    expect(result).toBe(plane);
+  });
+
+  it('should bevel cube edges with the angle limit', () => {
+    const result = applyBevelModifier(cube, { amount: 0.1, limitMethod: 'angle', angle: 30 });
+
+    expect(result.faces.size).toBe(26);
+  });
+
+  it('should only bevel weighted edges and scale by weight', () => {
+    const edgeKey = cube.getEdges()[0].edgeKey;
+    cube.bevelWeights.set(edgeKey, 0.5);
+
+    const result = applyBevelModifier(cube, { amount: 0.2, limitMethod: 'weight' });
+
+    // One strip added, two faces become pentagons
+    expect(result.faces.size).toBe(7);
+    expect(result.vertices.size).toBe(10);
+    expect(countBoundaryEdges(result)).toBe(0);
+    expectOutwardFaces(result);
+
+    const moved = Array.from(result.vertices.values()).filter(v => !cube.vertices.has(v.id));
+    moved.forEach(v => {
+      const coords = [v.position.x, v.position.y, v.position.z].map(c => Math.abs(c));
+      expect(coords.some(c => Math.abs(c - 0.4) < 1e-6)).toBe(true);
+    });
+  });
+
+  it('should close single-edge bevels with profile segments', () => {
+    const edgeKey = cube.getEdges()[0].edgeKey;
+    cube.bevelWeights.set(edgeKey, 1);
+
+    const result = applyBevelModifier(cube, { amount: 0.2, segments: 4, limitMethod: 'weight' });
+
+    expect(countBoundaryEdges(result)).toBe(0);
+    expectOutwardFaces(result);
+  });
+
+  it('should clamp the amount to avoid overlap', () => {
+    const result = applyBevelModifier(cube, { amount: 2, segments: 1 });
+
+    // Clamped to half the edge length: corners meet at the face centres but never cross
+    result.vertices.forEach(v => {
+      const coords = [v.position.x, v.position.y, v.position.z].map(c => Math.abs(c)).sort();
+      expect(coords[0]).toBeCloseTo(0);
+      expect(coords[1]).toBeCloseTo(0);
+      expect(coords[2]).toBeCloseTo(0.5);
+    });
+  });
+
+  it('should not clamp when clamping is disabled', () => {
+    const result = applyBevelModifier(cube, { amount: 0.8, segments: 1, clampOverlap: false });
+
+    // Corners of the +X face slide past its centre
+    const crossed = Array.from(result.vertices.values()).some(v =>
+      Math.abs(v.position.x - 0.5) < 1e-6 && Math.abs(Math.abs(v.position.y) - 0.3) < 1e-6
+    );
+    expect(crossed).toBe(true);
+  });
+
+  it('should keep corner UVs on the original faces', () => {
+    const result = applyBevelModifier(cube, { amount: 0.1 });
+
+    let withUVs = 0;
+    result.faces.forEach(face => {
+      if (face.getHalfEdges().every(he => he.uv)) withUVs++;
+    });
+    expect(withUVs).toBeGreaterThanOrEqual(6 + 12);
+  });
+
+  it('should return the original mesh for zero amount', () => {
+    expect(applyBevelModifier(cube, { amount: 0 })).toBe(cube);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for Decimate Modifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QMesh } from '../../QMesh';
+import { applyDecimateModifier } from '../Decimate';
+import { applyWeldModifier } from '../Weld';
+import * as THREE from 'three';
+
+describe('Decimate Modifier', () => {
+  it('should reduce triangles to the ratio', () => {
+    const sphere = QMesh.fromBufferGeometry(new THREE.SphereGeometry(1, 16, 12));
+    const triangles = sphere.toBufferGeometry().index!.count / 3;
+
+    const result = applyDecimateModifier(sphere, { mode: 'ratio', ratio: 0.5 });
+
+    expect(result.faces.size).toBeLessThanOrEqual(Math.round(triangles * 0.5) + 1);
+    expect(result.faces.size).toBeGreaterThan(triangles * 0.4);
+    result.faces.forEach(face => expect(face.getVertices().length).toBe(3));
+  });
+
+  it('should reduce triangles to an absolute count', () => {
+    const sphere = QMesh.fromBufferGeometry(new THREE.SphereGeometry(1, 16, 12));
+    const result = applyDecimateModifier(sphere, { mode: 'count', triangleCount: 100 });
+
+    expect(result.faces.size).toBeLessThanOrEqual(101);
+    expect(result.faces.size).toBeGreaterThan(80);
+  });
+
+  it('should keep surviving vertices in place and the surface closed', () => {
+    // Welded icosphere: closed to begin with
+    const sphere = applyWeldModifier(QMesh.fromBufferGeometry(new THREE.IcosahedronGeometry(1, 3)), { distance: 1e-5 });
+    sphere.halfEdges.forEach(he => expect(he.twin).toBeTruthy());
+    const result = applyDecimateModifier(sphere, { ratio: 0.3 });
+
+    result.vertices.forEach((v, id) => {
+      expect(v.position.equals(sphere.vertices.get(id)!.position)).toBe(true);
+    });
+    result.halfEdges.forEach(he => expect(he.twin).toBeTruthy());
+  });
+
+  it('should keep the outline of open meshes', () => {
+    const plane = QMesh.fromBufferGeometry(new THREE.PlaneGeometry(2, 2, 8, 8));
+    const result = applyDecimateModifier(plane, { ratio: 0.25 });
+
+    expect(result.faces.size).toBeLessThan(128);
+    const box = new THREE.Box3();
+    result.vertices.forEach(v => box.expandByPoint(v.position));
+    expect(box.min.x).toBeCloseTo(-1);
+    expect(box.max.x).toBeCloseTo(1);
+    expect(box.min.y).toBeCloseTo(-1);
+    expect(box.max.y).toBeCloseTo(1);
+
+    // All four corners survive
+    const corners = [[-1, -1], [1, -1], [1, 1], [-1, 1]];
+    corners.forEach(([x, y]) => {
+      const found = Array.from(result.vertices.values()).some(v =>
+        Math.abs(v.position.x - x) < 1e-6 && Math.abs(v.position.y - y) < 1e-6
+      );
+      expect(found).toBe(true);
+    });
+  });
+
+  it('should return the input when nothing needs removing', () => {
+    const sphere = QMesh.fromBufferGeometry(new THREE.SphereGeometry(1, 8, 6));
+
+    expect(applyDecimateModifier(sphere, { ratio: 1 })).toBe(sphere);
+  });
+});
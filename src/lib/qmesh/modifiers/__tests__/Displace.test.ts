@@ -0,0 +1,149 @@
+/**
+ * Tests for Displace Modifier
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { QMesh } from '../../QMesh';
+import { applyDisplaceModifier, sampleTexture, DisplaceTextureData } from '../Displace';
+import * as THREE from 'three';
+
+/**
+ * Build a grayscale RGBA texture from rows of 0-255 values (first row is the top of the image)
+ */
+function grayTexture(rows: number[][]): DisplaceTextureData {
+  const height = rows.length;
+  const width = rows[0].length;
+  const data = new Uint8ClampedArray(width * height * 4);
+  rows.forEach((row, y) => row.forEach((value, x) => {
+    data.set([value, value, value, 255], (y * width + x) * 4);
+  }));
+  return { width, height, data };
+}
+
+describe('Displace Modifier', () => {
+  let plane: QMesh;
+
+  beforeEach(() => {
+    // 4x4 quads on the XZ plane, normals pointing +Y, UVs 0-1
+    const geometry = new THREE.PlaneGeometry(2, 2, 4, 4);
+    geometry.rotateX(-Math.PI / 2);
+    plane = QMesh.fromBufferGeometry(geometry);
+  });
+
+  it('should not modify the input mesh', () => {
+    const before = Array.from(plane.vertices.values()).map(v => v.position.clone());
+    applyDisplaceModifier(plane, { strength: 1, source: 'perlin' });
+
+    Array.from(plane.vertices.values()).forEach((v, i) => {
+      expect(v.position.equals(before[i])).toBe(true);
+    });
+  });
+
+  it('should keep topology and IDs', () => {
+    const result = applyDisplaceModifier(plane, { strength: 0.5, source: 'fbm' });
+
+    expect(result).not.toBe(plane);
+    expect(result.faces.size).toBe(plane.faces.size);
+    expect(Array.from(result.vertices.keys())).toEqual(Array.from(plane.vertices.keys()));
+  });
+
+  it('should displace along the vertex normal', () => {
+    const result = applyDisplaceModifier(plane, { strength: 1, source: 'voronoi', noiseScale: 0.5 });
+
+    let moved = 0;
+    result.vertices.forEach((v, id) => {
+      const original = plane.vertices.get(id)!.position;
+      expect(v.position.x).toBeCloseTo(original.x);
+      expect(v.position.z).toBeCloseTo(original.z);
+      if (Math.abs(v.position.y) > 1e-6) moved++;
+    });
+    expect(moved).toBeGreaterThan(0);
+  });
+
+  it('should displace along a chosen axis', () => {
+    const result = applyDisplaceModifier(plane, { strength: 1, source: 'perlin', direction: 'x', noiseScale: 0.3 });
+
+    result.vertices.forEach((v, id) => {
+      const original = plane.vertices.get(id)!.position;
+      expect(v.position.y).toBeCloseTo(original.y);
+      expect(v.position.z).toBeCloseTo(original.z);
+    });
+  });
+
+  it('should offset by (value - midlevel) * strength', () => {
+    const white = grayTexture([[255]]);
+
+    const raised = applyDisplaceModifier(plane, { strength: 2, source: 'texture', texture: white, midlevel: 0.25 });
+    raised.vertices.forEach(v => expect(v.position.y).toBeCloseTo(1.5));
+
+    const flat = applyDisplaceModifier(plane, { strength: 2, source: 'texture', texture: white, midlevel: 1 });
+    flat.vertices.forEach(v => expect(v.position.y).toBeCloseTo(0));
+  });
+
+  it('should sample textures in UV coordinates', () => {
+    // Left half black, right half white: U drives the height
+    const texture = grayTexture([[0, 0, 255, 255]]);
+    const result = applyDisplaceModifier(plane, {
+      strength: 1,
+      source: 'texture',
+      texture,
+      coordinates: 'uv',
+      midlevel: 0,
+    });
+
+    result.vertices.forEach((v, id) => {
+      const x = plane.vertices.get(id)!.position.x;
+      if (Math.abs(x + 0.5) < 1e-6) expect(v.position.y).toBeCloseTo(0, 1);
+      if (Math.abs(x - 0.5) < 1e-6) expect(v.position.y).toBeCloseTo(1, 1);
+    });
+  });
+
+  it('should sample in the coordinate object space', () => {
+    const offset = new THREE.Matrix4().makeTranslation(3.7, 0, 1.2);
+    const local = applyDisplaceModifier(plane, { strength: 1, source: 'perlin', coordinates: 'local' });
+    const object = applyDisplaceModifier(plane, {
+      strength: 1,
+      source: 'perlin',
+      coordinates: 'object',
+      coordinateMatrix: offset,
+    });
+    const shifted = applyDisplaceModifier(plane, { strength: 1, source: 'perlin', coordinates: 'object' });
+
+    const heights = (mesh: QMesh) => Array.from(mesh.vertices.values()).map(v => v.position.y);
+    expect(heights(object)).not.toEqual(heights(local));
+    // Without a matrix, object coordinates are the local ones
+    expect(heights(shifted)).toEqual(heights(local));
+  });
+
+  it('should be deterministic per seed', () => {
+    const heights = (seed: number) => Array.from(
+      applyDisplaceModifier(plane, { strength: 1, source: 'fbm', noiseSeed: seed, noiseScale: 0.4 }).vertices.values()
+    ).map(v => v.position.y);
+
+    expect(heights(3)).toEqual(heights(3));
+    expect(heights(3)).not.toEqual(heights(4));
+  });
+
+  it('should return the input when no texture pixels are available', () => {
+    expect(applyDisplaceModifier(plane, { strength: 1, source: 'texture' })).toBe(plane);
+    expect(applyDisplaceModifier(plane, { strength: 0, source: 'perlin' })).toBe(plane);
+  });
+
+  describe('sampleTexture', () => {
+    it('should wrap and interpolate bilinearly', () => {
+      const texture = grayTexture([[0, 255]]);
+
+      expect(sampleTexture(texture, 0.25, 0.5)).toBeCloseTo(0);
+      expect(sampleTexture(texture, 0.75, 0.5)).toBeCloseTo(1);
+      expect(sampleTexture(texture, 0.5, 0.5)).toBeCloseTo(0.5);
+      expect(sampleTexture(texture, 1.75, -0.5)).toBeCloseTo(1);
+    });
+
+    it('should put v = 1 at the top row of the image', () => {
+      const texture = grayTexture([[255], [0]]);
+
+      expect(sampleTexture(texture, 0.5, 0.75)).toBeCloseTo(1);
+      expect(sampleTexture(texture, 0.5, 0.25)).toBeCloseTo(0);
+    });
+  });
+});
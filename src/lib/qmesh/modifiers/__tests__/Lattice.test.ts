@@ -0,0 +1,63 @@
+/**
+ * Tests for Lattice Modifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QMesh } from '../../QMesh';
+import { applyLatticeModifier, LatticeDeformData } from '../Lattice';
+import { createLatticeProps } from '../../../lattice/LatticeUtils';
+import * as THREE from 'three';
+
+function stretchedLattice(scaleX: number, toLattice = new THREE.Matrix4()): LatticeDeformData {
+  const lattice = createLatticeProps();
+  return {
+    ...lattice,
+    points: lattice.points.map(([x, y, z]) => [x * scaleX, y, z]),
+    toLattice: toLattice.toArray(),
+  };
+}
+
+describe('Lattice Modifier', () => {
+  it('should return the input without a lattice', () => {
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+
+    expect(applyLatticeModifier(cube, {}) === cube).toBe(true);
+    expect(applyLatticeModifier(cube, { lattice: stretchedLattice(2), strength: 0 }) === cube).toBe(true);
+  });
+
+  it('should deform vertices with the lattice cage', () => {
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+
+    const result = applyLatticeModifier(cube, { lattice: stretchedLattice(2) });
+
+    expect(result.faces.size).toBe(cube.faces.size);
+    result.vertices.forEach(v => {
+      expect(Math.abs(v.position.x)).toBeCloseTo(1);
+      expect(Math.abs(v.position.y)).toBeCloseTo(0.5);
+    });
+    // Input untouched
+    cube.vertices.forEach(v => expect(Math.abs(v.position.x)).toBeCloseTo(0.5));
+  });
+
+  it('should blend by strength', () => {
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+
+    const result = applyLatticeModifier(cube, { lattice: stretchedLattice(2), strength: 0.5 });
+
+    result.vertices.forEach(v => expect(Math.abs(v.position.x)).toBeCloseTo(0.75));
+  });
+
+  it('should deform in the lattice space', () => {
+    // Lattice scaled x4 in the owner's space: owner -> lattice quarters the coordinates
+    const toLattice = new THREE.Matrix4().makeScale(0.25, 0.25, 0.25);
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+
+    const result = applyLatticeModifier(cube, { lattice: stretchedLattice(2, toLattice) });
+
+    // x = 0.5 maps to 0.125 in the lattice, stretched to 0.25, back to 1.0
+    result.vertices.forEach(v => {
+      expect(Math.abs(v.position.x)).toBeCloseTo(1);
+      expect(Math.abs(v.position.z)).toBeCloseTo(0.5);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for Modifier Stack Evaluation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { QMesh } from '../../QMesh';
+import {
+  CachedModifierResult,
+  evaluateModifierSteps,
+  estimateModifierFaceCount,
+  findFirstDirtyStep,
+  hashQMesh,
+  planModifierStack,
+} from '../ModifierStack';
+import type { Modifier, ModifierType, ModifierParams } from '../../../../stores/modifierStore';
+import * as THREE from 'three';
+
+function makeModifier(id: string, type: ModifierType, params: ModifierParams = {}): Modifier {
+  return { id, type, name: id, enabled: true, params, createdAt: 0 };
+}
+
+describe('Modifier Stack', () => {
+  let cube: QMesh;
+  let stack: Modifier[];
+
+  beforeEach(() => {
+    cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+    stack = [
+      makeModifier('mirror', 'mirror', { mirrorAxis: 'x' }),
+      makeModifier('subdiv', 'subdivision', { levels: 1 }),
+      makeModifier('array', 'array', { arrayCount: 2, arrayOffset: [3, 0, 0] }),
+    ];
+  });
+
+  const plan = (mesh: QMesh, modifiers: Modifier[]) => planModifierStack(hashQMesh(mesh), modifiers, () => ({}));
+
+  it('should produce the same keys for the same inputs', () => {
+    const a = plan(cube, stack).map(s => s.key);
+    const b = plan(cube, stack.map(m => ({ ...m, params: { ...m.params } }))).map(s => s.key);
+
+    expect(a).toEqual(b);
+  });
+
+  it('should only change keys from the edited modifier down', () => {
+    const before = plan(cube, stack);
+    stack[1] = { ...stack[1], params: { levels: 2 } };
+    const after = plan(cube, stack);
+
+    expect(after[0].key).toBe(before[0].key);
+    expect(after[1].key).not.toBe(before[1].key);
+    expect(after[2].key).not.toBe(before[2].key);
+    expect(findFirstDirtyStep(after, before.map(s => ({ key: s.key, result: cube })))).toBe(1);
+  });
+
+  it('should skip disabled modifiers', () => {
+    stack[0] = { ...stack[0], enabled: false };
+
+    expect(plan(cube, stack).map(s => s.modifier.id)).toEqual(['subdiv', 'array']);
+  });
+
+  it('should key external inputs', () => {
+    const modifiers = [makeModifier('array', 'array', { arrayCount: 2 })];
+    const baseKey = hashQMesh(cube);
+    const plain = planModifierStack(baseKey, modifiers, () => ({}));
+    const withObject = planModifierStack(baseKey, modifiers, () => ({
+      offsetMatrix: new THREE.Matrix4().makeTranslation(0, 2, 0).toArray(),
+    }));
+
+    expect(withObject[0].key).not.toBe(plain[0].key);
+  });
+
+  it('should hash mesh content', () => {
+    const copy = QMesh.fromJSON(cube.toJSON());
+    expect(hashQMesh(copy)).toBe(hashQMesh(cube));
+
+    copy.vertices.values().next().value!.position.x += 0.001;
+    expect(hashQMesh(copy)).not.toBe(hashQMesh(cube));
+  });
+
+  it('should reuse cached results above the edited modifier', () => {
+    const cache: CachedModifierResult[] = [];
+    const first = evaluateModifierSteps(cube, plan(cube, stack), cache);
+    const mirrored = cache[0].result;
+    const subdivided = cache[1].result;
+
+    // Unchanged stack returns the cached final mesh
+    expect(evaluateModifierSteps(cube, plan(cube, stack), cache)).toBe(first);
+
+    stack[2] = { ...stack[2], params: { arrayCount: 3, arrayOffset: [3, 0, 0] } };
+    const second = evaluateModifierSteps(cube, plan(cube, stack), cache);
+
+    expect(cache[0].result).toBe(mirrored);
+    expect(cache[1].result).toBe(subdivided);
+    expect(second === first).toBe(false);
+    expect(second.faces.size).toBe(subdivided.faces.size * 3);
+  });
+
+  it('should trim the cache when modifiers are removed', () => {
+    const cache: CachedModifierResult[] = [];
+    evaluateModifierSteps(cube, plan(cube, stack), cache);
+    const result = evaluateModifierSteps(cube, plan(cube, stack.slice(0, 1)), cache);
+
+    expect(cache).toHaveLength(1);
+    expect(result).toBe(cache[0].result);
+  });
+
+  it('should return the base mesh for an empty stack', () => {
+    expect(evaluateModifierSteps(cube, [], [])).toBe(cube);
+  });
+
+  it('should estimate growth of heavy modifiers', () => {
+    expect(estimateModifierFaceCount(6, makeModifier('s', 'subdivision', { levels: 3 }))).toBe(6 * 64);
+    expect(estimateModifierFaceCount(6, makeModifier('d', 'displace'))).toBe(6);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for Shrinkwrap Modifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QMesh } from '../../QMesh';
+import { applyShrinkwrapModifier, ShrinkwrapTargetData } from '../Shrinkwrap';
+import * as THREE from 'three';
+
+function targetFrom(geometry: THREE.BufferGeometry): ShrinkwrapTargetData {
+  const soup = geometry.index ? geometry.toNonIndexed() : geometry;
+  return { positions: Array.from(soup.attributes.position.array) };
+}
+
+describe('Shrinkwrap Modifier', () => {
+  it('should snap vertices onto the nearest surface point', () => {
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+    const target = targetFrom(new THREE.SphereGeometry(2, 32, 24));
+
+    const result = applyShrinkwrapModifier(cube, { method: 'nearest', target });
+
+    result.vertices.forEach(v => expect(v.position.length()).toBeCloseTo(2, 1));
+    // Input untouched
+    cube.vertices.forEach(v => expect(v.position.length()).toBeCloseTo(Math.sqrt(0.75)));
+  });
+
+  it('should project along an axis in both directions', () => {
+    const sphere = QMesh.fromBufferGeometry(new THREE.SphereGeometry(0.5, 8, 6));
+    const floor = new THREE.PlaneGeometry(10, 10);
+    floor.rotateX(-Math.PI / 2);
+    floor.translate(0, -1, 0);
+
+    const result = applyShrinkwrapModifier(sphere, {
+      method: 'project',
+      axis: 'y',
+      target: targetFrom(floor),
+      offset: 0.1,
+    });
+
+    result.vertices.forEach((v, id) => {
+      const original = sphere.vertices.get(id)!.position;
+      expect(v.position.y).toBeCloseTo(-0.9);
+      expect(v.position.x).toBeCloseTo(original.x);
+      expect(v.position.z).toBeCloseTo(original.z);
+    });
+  });
+
+  it('should leave vertices whose ray misses the target', () => {
+    const plane = QMesh.fromBufferGeometry(new THREE.PlaneGeometry(4, 4, 2, 2));
+    const small = new THREE.PlaneGeometry(1, 1);
+    small.translate(0, 0, 1);
+
+    const result = applyShrinkwrapModifier(plane, { method: 'project', axis: 'normal', target: targetFrom(small) });
+
+    result.vertices.forEach((v, id) => {
+      const original = plane.vertices.get(id)!.position;
+      expect(v.position.z).toBe(original.x === 0 && original.y === 0 ? 1 : 0);
+    });
+  });
+
+  it('should snap to the nearest target vertex', () => {
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+    const target = targetFrom(new THREE.BoxGeometry(3, 3, 3));
+
+    const result = applyShrinkwrapModifier(cube, { method: 'nearestVertex', target });
+
+    result.vertices.forEach(v => {
+      expect(Math.abs(v.position.x)).toBeCloseTo(1.5);
+      expect(Math.abs(v.position.y)).toBeCloseTo(1.5);
+      expect(Math.abs(v.position.z)).toBeCloseTo(1.5);
+    });
+  });
+
+  it('should return the input without a target', () => {
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+
+    expect(applyShrinkwrapModifier(cube, {})).toBe(cube);
+  });
+});
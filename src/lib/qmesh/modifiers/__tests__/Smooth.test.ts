@@ -0,0 +1,67 @@
+/**
+ * Tests for Smooth Modifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QMesh } from '../../QMesh';
+import { applySmoothModifier } from '../Smooth';
+import * as THREE from 'three';
+
+function boundingSize(mesh: QMesh): THREE.Vector3 {
+  const box = new THREE.Box3();
+  mesh.vertices.forEach(v => box.expandByPoint(v.position));
+  return box.getSize(new THREE.Vector3());
+}
+
+describe('Smooth Modifier', () => {
+  it('should pull vertices towards their neighbours', () => {
+    const sphere = QMesh.fromBufferGeometry(new THREE.SphereGeometry(1, 12, 8));
+    const result = applySmoothModifier(sphere, { factor: 0.5, iterations: 3 });
+
+    expect(boundingSize(result).x).toBeLessThan(boundingSize(sphere).x);
+    expect(result.faces.size).toBe(sphere.faces.size);
+    // Input untouched
+    expect(boundingSize(sphere).x).toBeCloseTo(2);
+  });
+
+  it('should shrink less with volume preservation', () => {
+    const sphere = QMesh.fromBufferGeometry(new THREE.SphereGeometry(1, 12, 8));
+    const plain = boundingSize(applySmoothModifier(sphere, { factor: 0.5, iterations: 5 })).x;
+    const preserved = boundingSize(applySmoothModifier(sphere, { factor: 0.5, iterations: 5, preserveVolume: true })).x;
+
+    expect(preserved).toBeGreaterThan(plain);
+  });
+
+  it('should pin boundary vertices', () => {
+    const geometry = new THREE.PlaneGeometry(2, 2, 4, 4);
+    geometry.attributes.position.setZ(12, 1); // Raise the middle vertex
+    const plane = QMesh.fromBufferGeometry(geometry);
+
+    const result = applySmoothModifier(plane, { factor: 1, iterations: 2, preserveBoundary: true });
+
+    result.vertices.forEach((v, id) => {
+      const original = plane.vertices.get(id)!.position;
+      if (Math.abs(original.x) === 1 || Math.abs(original.y) === 1) {
+        expect(v.position.equals(original)).toBe(true);
+      }
+    });
+    const peak = Math.max(...Array.from(result.vertices.values()).map(v => v.position.z));
+    expect(peak).toBeLessThan(1);
+  });
+
+  it('should only move along enabled axes', () => {
+    const sphere = QMesh.fromBufferGeometry(new THREE.SphereGeometry(1, 12, 8));
+    const result = applySmoothModifier(sphere, { factor: 0.5, axes: { x: false, y: true, z: false } });
+
+    result.vertices.forEach((v, id) => {
+      expect(v.position.x).toBe(sphere.vertices.get(id)!.position.x);
+    });
+  });
+
+  it('should return the input for zero factor or iterations', () => {
+    const sphere = QMesh.fromBufferGeometry(new THREE.SphereGeometry(1, 8, 6));
+
+    expect(applySmoothModifier(sphere, { factor: 0 })).toBe(sphere);
+    expect(applySmoothModifier(sphere, { factor: 0.5, iterations: 0 })).toBe(sphere);
+  });
+});
@@ -134,16 +134,16 @@ describe('Subdivision Surface Modifier', () => {
     const originalCenter = testMesh.faces.get('f0')!.calculateCenter();
     const result = applySubdivisionModifier(testMesh, 1);
 
-    // The subdivided mesh should still have faces near the original center
-    let hasCenterFace = false;
+    // The face point sits at the original center and is shared by all four child quads
+    const centerVertex = Array.from(result.vertices.values())
+      .find(v => v.position.distanceTo(originalCenter) < 1e-9);
+    expect(centerVertex).toBeTruthy();
+
+    let facesAroundCenter = 0;
     result.faces.forEach(face => {
-      const center = face.calculateCenter();
-      if (center.distanceTo(originalCenter) < 0.5) {
-        hasCenterFace = true;
-      }
+      if (face.getVertices().includes(centerVertex!)) facesAroundCenter++;
     });
-
-    expect(hasCenterFace).toBe(true);
+    expect(facesAroundCenter).toBe(4);
   });
 
   it('should handle zero subdivision levels', () => {
@@ -184,4 +184,146 @@ describe('Subdivision Surface Modifier', () => {
 
     expect(usedVertices.size).toBe(result.vertices.size);
   });
+
+  it('should keep boundary edges on the original boundary', () => {
+    const result = applySubdivisionModifier(testMesh, 1);
+
+    result.vertices.forEach(v => {
+      expect(Math.abs(v.position.x)).toBeLessThanOrEqual(1 + 1e-9);
+      expect(Math.abs(v.position.z)).toBeLessThanOrEqual(1 + 1e-9);
+    });
+
+    // Corners follow the crease rule: (e1 + e2 + 6S) / 8
+    const corner = Array.from(result.vertices.values()).find(v => v.position.x < -0.7 && v.position.z < -0.7);
+    expect(corner!.position.x).toBeCloseTo(-0.75);
+    expect(corner!.position.z).toBeCloseTo(-0.75);
+  });
+
+  describe('creases', () => {
+    let cube: QMesh;
+
+    const cornerOf = (mesh: QMesh) => Array.from(mesh.vertices.values())
+      .reduce((best, v) => (v.position.x + v.position.y + v.position.z > best.position.x + best.position.y + best.position.z ? v : best));
+
+    const creaseAll = (mesh: QMesh, weight: number) => {
+      mesh.getEdges().forEach(({ edgeKey }) => mesh.creases.set(edgeKey, weight));
+    };
+
+    beforeEach(() => {
+      cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+    });
+
+    it('should link every half-edge to a twin on a closed mesh', () => {
+      const result = applySubdivisionModifier(cube, 2);
+
+      expect(result.faces.size).toBe(96);
+      result.halfEdges.forEach(he => expect(he.twin).toBeTruthy());
+    });
+
+    it('should keep fully creased edges sharp', () => {
+      creaseAll(cube, 1);
+      const result = applySubdivisionModifier(cube, 2);
+
+      // Every vertex stays on the surface of the original cube
+      result.vertices.forEach(v => {
+        const { x, y, z } = v.position;
+        expect(Math.max(Math.abs(x), Math.abs(y), Math.abs(z))).toBeCloseTo(0.5);
+      });
+      expect(cornerOf(result).position.toArray()).toEqual([0.5, 0.5, 0.5]);
+    });
+
+    it('should blend semi-sharp creases between smooth and sharp', () => {
+      const smooth = cornerOf(applySubdivisionModifier(cube, 1)).position.x;
+
+      creaseAll(cube, 0.05);
+      const semi = cornerOf(applySubdivisionModifier(cube, 1)).position.x;
+
+      expect(semi).toBeGreaterThan(smooth);
+      expect(semi).toBeLessThan(0.5);
+    });
+
+    it('should decay crease weights on child edges', () => {
+      creaseAll(cube, 0.5);
+      const result = applySubdivisionModifier(cube, 1);
+
+      expect(result.creases.size).toBe(24);
+      result.creases.forEach(weight => expect(weight).toBeCloseTo(0.4));
+
+      // Fully sharp edges stay fully sharp
+      creaseAll(cube, 1);
+      applySubdivisionModifier(cube, 2).creases.forEach(weight => expect(weight).toBe(1));
+    });
+
+    it('should carry seams and bevel weights onto both child edges', () => {
+      const edgeKey = cube.getEdges()[0].edgeKey;
+      cube.seams.add(edgeKey);
+      cube.bevelWeights.set(edgeKey, 0.75);
+
+      const result = applySubdivisionModifier(cube, 1);
+
+      expect(result.seams.size).toBe(2);
+      expect(Array.from(result.bevelWeights.values())).toEqual([0.75, 0.75]);
+    });
+  });
+
+  it('should interpolate UVs linearly', () => {
+    const plane = QMesh.fromBufferGeometry(new THREE.PlaneGeometry(2, 2, 1, 1));
+    const result = applySubdivisionModifier(plane, 1);
+
+    // Corners keep their UVs, edge and face points get the midpoints
+    const uvs = new Set<string>();
+    result.halfEdges.forEach(he => {
+      expect(he.uv).toBeTruthy();
+      uvs.add(`${he.uv!.x},${he.uv!.y}`);
+    });
+
+    expect(Array.from(uvs).sort()).toEqual([
+      '0,0', '0,0.5', '0,1', '0.5,0', '0.5,0.5', '0.5,1', '1,0', '1,0.5', '1,1',
+    ]);
+  });
+
+  describe('Loop subdivision', () => {
+    it('should split every triangle into four', () => {
+      const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+      const result = applySubdivisionModifier(cube, 1, 'loop');
+
+      // Quads are triangulated first: 12 triangles -> 48
+      expect(result.faces.size).toBe(48);
+      result.faces.forEach(face => expect(face.getVertices().length).toBe(3));
+      result.halfEdges.forEach(he => expect(he.twin).toBeTruthy());
+    });
+
+    it('should apply the Loop vertex and edge rules', () => {
+      const tetra = QMesh.fromBufferGeometry(new THREE.TetrahedronGeometry(1));
+      const original = Array.from(tetra.vertices.values()).map(v => v.position.clone());
+      const result = applySubdivisionModifier(tetra, 1, 'loop');
+
+      expect(result.vertices.size).toBe(10);
+
+      // Valence 3: beta = 3/16, so each corner moves to 7/16 S + 3/16 of each neighbour.
+      // The neighbours of a centred tetrahedron sum to -S, which leaves S / 4.
+      original.forEach(position => {
+        const expected = position.clone().multiplyScalar(1 / 4);
+        const match = Array.from(result.vertices.values()).some(v => v.position.distanceTo(expected) < 1e-6);
+        expect(match).toBe(true);
+      });
+
+      // Edge points: 3/8 (a + b) + 1/8 (c + d) = 1/4 (a + b) for a centred tetrahedron
+      const [a, b] = original;
+      const edgePoint = a.clone().add(b).multiplyScalar(1 / 4);
+      expect(Array.from(result.vertices.values()).some(v => v.position.distanceTo(edgePoint) < 1e-6)).toBe(true);
+    });
+
+    it('should keep fully creased edges sharp', () => {
+      const tetra = QMesh.fromBufferGeometry(new THREE.TetrahedronGeometry(1));
+      const [edge] = tetra.getEdges();
+      tetra.creases.set(edge.edgeKey, 1);
+
+      const result = applySubdivisionModifier(tetra, 1, 'loop');
+      const midpoint = edge.v1.position.clone().add(edge.v2.position).multiplyScalar(0.5);
+
+      expect(Array.from(result.vertices.values()).some(v => v.position.distanceTo(midpoint) < 1e-6)).toBe(true);
+      expect(result.creases.size).toBe(2);
+    });
+  });
 });
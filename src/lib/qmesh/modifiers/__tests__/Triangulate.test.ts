@@ -0,0 +1,74 @@
+/**
+ * Tests for Triangulate Modifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QMesh } from '../../QMesh';
+import { applyTriangulateModifier, triangulateQuad, triangulatePolygon } from '../Triangulate';
+import * as THREE from 'three';
+
+describe('Triangulate Modifier', () => {
+  it('should split every quad into two triangles', () => {
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+    const result = applyTriangulateModifier(cube);
+
+    expect(result.faces.size).toBe(12);
+    result.faces.forEach(face => expect(face.getVertices().length).toBe(3));
+    result.halfEdges.forEach(he => expect(he.twin).toBeTruthy());
+  });
+
+  it('should keep vertex IDs, UVs and edge data', () => {
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+    const edgeKey = cube.getEdges()[0].edgeKey;
+    cube.seams.add(edgeKey);
+    cube.creases.set(edgeKey, 0.5);
+
+    const result = applyTriangulateModifier(cube);
+
+    expect(Array.from(result.vertices.keys())).toEqual(Array.from(cube.vertices.keys()));
+    expect(result.seams.has(edgeKey)).toBe(true);
+    expect(result.creases.get(edgeKey)).toBe(0.5);
+    result.halfEdges.forEach(he => expect(he.uv).toBeTruthy());
+  });
+
+  it('should leave faces below the minimum vertex count alone', () => {
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+
+    expect(applyTriangulateModifier(cube, { minVertices: 5 })).toBe(cube);
+  });
+
+  it('should pick the quad diagonal by method', () => {
+    // Kite: the 1-3 diagonal is much shorter
+    const kite = [
+      new THREE.Vector3(-2, 0, 0),
+      new THREE.Vector3(0, -0.5, 0),
+      new THREE.Vector3(2, 0, 0),
+      new THREE.Vector3(0, 0.5, 0),
+    ];
+
+    expect(triangulateQuad(kite, 'fixed')).toEqual([[0, 1, 2], [0, 2, 3]]);
+    expect(triangulateQuad(kite, 'alternate')).toEqual([[0, 1, 3], [1, 2, 3]]);
+    expect(triangulateQuad(kite, 'shortest')).toEqual([[0, 1, 3], [1, 2, 3]]);
+    expect(triangulateQuad(kite, 'beauty')).toEqual([[0, 1, 3], [1, 2, 3]]);
+  });
+
+  it('should ear-clip concave polygons with the original winding', () => {
+    // L shape in the XY plane, counter-clockwise seen from +Z
+    const corners = [
+      [0, 0], [2, 0], [2, 1], [1, 1], [1, 2], [0, 2],
+    ].map(([x, y]) => new THREE.Vector3(x, y, 0));
+
+    const triangles = triangulatePolygon(corners);
+
+    expect(triangles).toHaveLength(4);
+    let area = 0;
+    triangles.forEach(([a, b, c]) => {
+      const normal = new THREE.Vector3()
+        .subVectors(corners[b], corners[a])
+        .cross(new THREE.Vector3().subVectors(corners[c], corners[a]));
+      expect(normal.z).toBeGreaterThan(0);
+      area += normal.z / 2;
+    });
+    expect(area).toBeCloseTo(3);
+  });
+});
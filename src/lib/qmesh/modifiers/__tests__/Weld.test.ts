@@ -0,0 +1,74 @@
+/**
+ * Tests for Weld Modifier
+ */
+
+import { describe, it, expect } from 'vitest';
+import { QMesh } from '../../QMesh';
+import { applyWeldModifier } from '../Weld';
+import * as THREE from 'three';
+
+/**
+ * Two quads side by side that do not share their middle vertices,
+ * with the right quad's copies nudged by `gap`
+ */
+function createSplitStrip(gap: number): QMesh {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute([
+    0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0,
+    1 + gap, 0, 0, 2, 0, 0, 2, 1, 0, 1 + gap, 1, 0,
+  ], 3));
+  geometry.setIndex([0, 1, 2, 0, 2, 3, 4, 5, 6, 4, 6, 7]);
+  return QMesh.fromBufferGeometry(geometry);
+}
+
+describe('Weld Modifier', () => {
+  it('should merge vertices within the distance', () => {
+    const strip = createSplitStrip(0.0005);
+    expect(strip.vertices.size).toBe(8);
+
+    const result = applyWeldModifier(strip, { distance: 0.001 });
+
+    expect(result.vertices.size).toBe(6);
+    expect(result.faces.size).toBe(strip.faces.size);
+
+    // The shared edge now has twins on both sides
+    const twinned = Array.from(result.halfEdges.values()).filter(he => he.twin).length;
+    expect(twinned).toBe(2);
+  });
+
+  it('should return the input when nothing is in range', () => {
+    const strip = createSplitStrip(0.1);
+
+    expect(applyWeldModifier(strip, { distance: 0.001 })).toBe(strip);
+  });
+
+  it('should only merge along short edges in connected mode', () => {
+    const strip = createSplitStrip(0.0005);
+    expect(applyWeldModifier(strip, { distance: 0.001, mode: 'connected' })).toBe(strip);
+
+    // Collapsing a short edge removes it and keeps the face as a triangle
+    const cube = QMesh.fromBufferGeometry(new THREE.BoxGeometry(1, 1, 1));
+    const { v1, v2 } = cube.getEdges()[0];
+    v2.position.copy(v1.position).addScalar(0.0001);
+
+    const result = applyWeldModifier(cube, { distance: 0.001, mode: 'connected' });
+
+    expect(result.vertices.size).toBe(7);
+    expect(result.faces.size).toBe(6);
+  });
+
+  it('should carry edge data onto the merged edges', () => {
+    const strip = createSplitStrip(0.0005);
+    // The right quad's copy of the shared edge
+    const onGap = (x: number) => x > 1 && x < 1.5;
+    const edge = strip.getEdges().find(e => onGap(e.v1.position.x) && onGap(e.v2.position.x))!;
+    strip.seams.add(edge.edgeKey);
+    strip.creases.set(edge.edgeKey, 0.7);
+
+    const result = applyWeldModifier(strip, { distance: 0.001 });
+    const shared = result.getEdges().find(e => e.v1.position.x === 1 && e.v2.position.x === 1)!;
+
+    expect(Array.from(result.seams)).toEqual([shared.edgeKey]);
+    expect(result.creases.get(shared.edgeKey)).toBe(0.7);
+  });
+});
@@ -12,6 +12,9 @@ import { useAnimationStore } from '../../stores/animationStore';
 import { useEnvironmentStore } from '../../stores/environmentStore';
 import { useMorphTargetStore } from '../../stores/morphTargetStore';
 import { useCurveStore } from '../../stores/curveStore';
+import { useNLAStore } from '../../stores/nlaStore';
+import { useDriverStore } from '../../stores/driverStore';
+import { useRetargetStore } from '../../stores/retargetStore';
 
 describe('Scene Serializer', () => {
   beforeEach(() => {
@@ -46,6 +49,9 @@ describe('Scene Serializer', () => {
       basePoses: new Map()
     });
     useCurveStore.setState({ curves: new Map() });
+    useNLAStore.setState({ layers: [], selectedStripId: null });
+    useDriverStore.setState({ drivers: [] });
+    useRetargetStore.setState({ presets: [] });
   });
 
   describe('serializeScene', () => {
@@ -253,5 +259,60 @@ describe('Scene Serializer', () => {
       expect(deserializedObject?.position).toEqual([5, 10, 15]);
       expect(deserializedObject?.type).toBe('sphere');
     });
+
+    test('clears NLA layers when loading a project saved without them', () => {
+      useNLAStore.getState().addLayer('obj_1');
+      deserializeScene(JSON.parse(JSON.stringify(serializeScene())));
+      expect(useNLAStore.getState().layers).toHaveLength(1);
+
+      deserializeScene({ objects: [] });
+
+      expect(useNLAStore.getState().layers).toEqual([]);
+    });
+
+    test('round-trips drivers', () => {
+      const driver = useDriverStore.getState().addDriver('obj_1', { type: 'shapeKey', shapeKeyId: 'sk_1' }, 'clamp(r, 0, 1)');
+      useDriverStore.getState().updateDriver(driver.id, {
+        variables: [{ name: 'r', type: 'boneRotation', boneId: 'bone_1', axis: 0 }],
+      });
+      const serialized = JSON.parse(JSON.stringify(serializeScene()));
+
+      useDriverStore.setState({ drivers: [] });
+      deserializeScene(serialized);
+
+      expect(useDriverStore.getState().drivers).toEqual([
+        { ...driver, variables: [{ name: 'r', type: 'boneRotation', boneId: 'bone_1', axis: 0 }] },
+      ]);
+    });
+
+    test('clears drivers when loading a project saved without them', () => {
+      useDriverStore.getState().addDriver('obj_1', { type: 'shapeKey', shapeKeyId: 'sk_1' }, '1');
+      deserializeScene(JSON.parse(JSON.stringify(serializeScene())));
+      expect(useDriverStore.getState().drivers).toHaveLength(1);
+
+      deserializeScene({ objects: [] });
+
+      expect(useDriverStore.getState().drivers).toEqual([]);
+    });
+
+    test('round-trips retargeting presets', () => {
+      const preset = useRetargetStore.getState().savePreset('Mixamo', { 'mixamorig:Hips': 'pelvis' });
+      const serialized = JSON.parse(JSON.stringify(serializeScene()));
+
+      useRetargetStore.setState({ presets: [] });
+      deserializeScene(serialized);
+
+      expect(useRetargetStore.getState().presets).toEqual([preset]);
+    });
+
+    test('clears retargeting presets when loading a project saved without them', () => {
+      useRetargetStore.getState().savePreset('Mixamo', { 'mixamorig:Hips': 'pelvis' });
+      deserializeScene(JSON.parse(JSON.stringify(serializeScene())));
+      expect(useRetargetStore.getState().presets).toHaveLength(1);
+
+      deserializeScene({ objects: [] });
+
+      expect(useRetargetStore.getState().presets).toEqual([]);
+    });
   });
 });
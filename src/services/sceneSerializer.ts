@@ -11,6 +11,9 @@ import { useAnimationStore } from '../stores/animationStore';
 import { useEnvironmentStore } from '../stores/environmentStore';
 import { useMorphTargetStore } from '../stores/morphTargetStore';
 import { useCurveStore } from '../stores/curveStore';
+import { useNLAStore } from '../stores/nlaStore';
+import { useDriverStore } from '../stores/driverStore';
+import { useRetargetStore } from '../stores/retargetStore';
 
 /**
  * Serialize the entire scene state from all stores
@@ -22,6 +25,9 @@ export function serializeScene(): any {
   const envState = useEnvironmentStore.getState();
   const morphState = useMorphTargetStore.getState();
   const curveState = useCurveStore.getState();
+  const nlaState = useNLAStore.getState();
+  const driverState = useDriverStore.getState();
+  const retargetState = useRetargetStore.getState();
 
   return {
     objects: objectsState.serialize(),
@@ -31,6 +37,9 @@ export function serializeScene(): any {
     shapeKeys: morphState.serializeShapeKeys(),
     basePoses: morphState.serializeBasePoses(),
     curves: curveState.serialize(),
+    nla: nlaState.serialize(),
+    drivers: driverState.serialize(),
+    retargetPresets: retargetState.serialize(),
   };
 }
 
@@ -77,5 +86,15 @@ export function deserializeScene(sceneData: any): void {
     useCurveStore.getState().deserialize(sceneData.curves);
   }
 
+  // 7. NLA layers (reference animations and objects); projects saved without
+  // any clear the layers of the previous project
+  useNLAStore.getState().deserialize(sceneData.nla ?? { layers: [] });
+
+  // 8. Drivers (reference objects and shape keys)
+  useDriverStore.getState().deserialize(sceneData.drivers ?? { drivers: [] });
+
+  // 9. Retargeting presets
+  useRetargetStore.getState().deserialize(sceneData.retargetPresets ?? { presets: [] });
+
   console.log('[sceneSerializer] Scene data restored from storage');
 }
@@ -0,0 +1,66 @@
+/**
+ * Lattice Animation Tests
+ *
+ * Tests for keyframing lattice control points
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useAnimationStore } from '../animationStore';
+import { useObjectsStore } from '../objectsStore';
+import { getAnimationEngine } from '../../lib/animation/AnimationEngine';
+import { createKeyframeForLatticePoint } from '../../hooks/useAnimationKeyframes';
+
+describe('Lattice Animations', () => {
+  beforeEach(() => {
+    useAnimationStore.setState({
+      animations: new Map(),
+      activeAnimationId: null,
+      isPlaying: false,
+      isPaused: false,
+      currentTime: 0,
+      playbackSpeed: 1,
+      frameRate: 30,
+      autoKeyframe: false,
+      snapToKeyframes: false,
+      timelineZoom: 100,
+      timelineScroll: 0,
+    });
+
+    useObjectsStore.setState({
+      objects: new Map(),
+      selectedIds: [],
+    });
+  });
+
+  it('should create lattice objects with a rest cage', () => {
+    const lattice = useObjectsStore.getState().createPrimitive('lattice');
+
+    expect(lattice.type).toBe('lattice');
+    expect(lattice.latticeProps?.resolution).toEqual([2, 2, 2]);
+    expect(lattice.latticeProps?.points).toHaveLength(8);
+  });
+
+  it('should animate lattice control points for squash and stretch', () => {
+    const lattice = useObjectsStore.getState().createPrimitive('lattice');
+    const animStore = useAnimationStore.getState();
+    const animation = animStore.createAnimation('Squash', 2);
+
+    // Top corner point (u=1, v=1, w=1) rises from rest to y = 1.5
+    const start = createKeyframeForLatticePoint(lattice.id, 7, [0.5, 0.5, 0.5], 0);
+    const end = createKeyframeForLatticePoint(lattice.id, 7, [0.5, 1.5, 0.5], 2);
+    expect(start.track.id).toBe(end.track.id);
+    expect(start.track.latticePointIndex).toBe(7);
+
+    animStore.addTrack(animation.id, start.track);
+    animStore.addKeyframe(animation.id, start.track.id, start.keyframe);
+    animStore.addKeyframe(animation.id, start.track.id, end.keyframe);
+
+    const updatedAnimation = useAnimationStore.getState().animations.get(animation.id)!;
+    getAnimationEngine().seekTo(updatedAnimation, 1);
+
+    const points = useObjectsStore.getState().objects.get(lattice.id)?.latticeProps?.points;
+    expect(points?.[7][1]).toBeCloseTo(1);
+    // Other points are left alone
+    expect(points?.[0]).toEqual([-0.5, -0.5, -0.5]);
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Driver Store Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { driverTargetKey, useDriverStore } from '../driverStore';
+
+describe('driverStore', () => {
+  beforeEach(() => {
+    useDriverStore.setState({ drivers: [] });
+  });
+
+  it('should add drivers with defaults', () => {
+    const driver = useDriverStore.getState().addDriver('obj1', { type: 'transform', channel: 'position', axis: 1 });
+
+    expect(driver).toMatchObject({ objectId: 'obj1', expression: '0', variables: [], enabled: true });
+    expect(useDriverStore.getState().drivers).toEqual([driver]);
+  });
+
+  it('should replace the driver on the same property', () => {
+    const { addDriver } = useDriverStore.getState();
+    const first = addDriver('obj1', { type: 'light', property: 'intensity' }, '1');
+    const other = addDriver('obj2', { type: 'light', property: 'intensity' }, '2');
+    const second = addDriver('obj1', { type: 'light', property: 'intensity' }, '3');
+
+    expect(useDriverStore.getState().drivers.map(d => d.id)).toEqual([other.id, second.id]);
+    expect(useDriverStore.getState().drivers.some(d => d.id === first.id)).toBe(false);
+  });
+
+  it('should update, remove and find drivers per object', () => {
+    const { addDriver } = useDriverStore.getState();
+    const a = addDriver('obj1', { type: 'customProperty', property: 'weight' });
+    const b = addDriver('obj1', { type: 'shapeKey', shapeKeyId: 'sk1' });
+    addDriver('obj2', { type: 'transform', channel: 'scale', axis: 0 });
+
+    useDriverStore.getState().updateDriver(a.id, { expression: 'x * 2', enabled: false });
+    useDriverStore.getState().removeDriver(b.id);
+
+    expect(useDriverStore.getState().getDriversForObject('obj1')).toEqual([
+      { ...a, expression: 'x * 2', enabled: false },
+    ]);
+  });
+
+  it('should key targets by property', () => {
+    expect(driverTargetKey({ type: 'transform', channel: 'rotation', axis: 2 })).toBe('transform:rotation:2');
+    expect(driverTargetKey({ type: 'shapeKey', shapeKeyId: 'sk1' })).toBe('shapeKey:sk1');
+  });
+
+  it('should serialize and deserialize', () => {
+    const driver = useDriverStore.getState().addDriver('obj1', { type: 'light', property: 'decay' }, 'frame / 10');
+    useDriverStore.getState().updateDriver(driver.id, { variables: [{ name: 'frame', type: 'frame' }] });
+    const data = JSON.parse(JSON.stringify(useDriverStore.getState().serialize()));
+
+    useDriverStore.setState({ drivers: [] });
+    useDriverStore.getState().deserialize(data);
+
+    expect(useDriverStore.getState().drivers).toEqual([{ ...driver, variables: [{ name: 'frame', type: 'frame' }] }]);
+  });
+});
@@ -59,6 +59,17 @@ describe('ExportStore', () => {
       useExportStore.getState().setFormat('gltf');
       expect(useExportStore.getState().options.binary).toBe(false);
     });
+
+    test('should default print formats to binary where they have one', () => {
+      useExportStore.getState().setFormat('stl');
+      expect(useExportStore.getState().options.binary).toBe(true);
+
+      useExportStore.getState().setFormat('ply');
+      expect(useExportStore.getState().options.binary).toBe(true);
+
+      useExportStore.getState().setFormat('3mf');
+      expect(useExportStore.getState().options.format).toBe('3mf');
+    });
   });
 
   describe('Export Options', () => {
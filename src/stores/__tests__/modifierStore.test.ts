@@ -5,9 +5,18 @@
  * Sprint 7: Export System + Polygon Editing MVP - Day 3
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import * as THREE from 'three';
 import { useModifierStore } from '../modifierStore';
+import { useObjectsStore } from '../objectsStore';
+import { QMesh } from '../../lib/qmesh/QMesh';
+import { createLatticeProps } from '../../lib/lattice/LatticeUtils';
+import { isModifierWorkerAvailable, runModifierStepsInWorker } from '../../lib/qmesh/modifiers/ModifierWorkerClient';
+
+vi.mock('../../lib/qmesh/modifiers/ModifierWorkerClient', () => ({
+  isModifierWorkerAvailable: vi.fn(() => false),
+  runModifierStepsInWorker: vi.fn(),
+}));
 
 describe('ModifierStore', () => {
   let objectId: string;
@@ -449,6 +458,252 @@ describe('ModifierStore', () => {
     });
   });
 
+  describe('applyModifierStackToQMesh', () => {
+    it('should apply array modifier to QMesh', () => {
+      const { addModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+
+      addModifier(objectId, 'array', { arrayCount: 3, arrayOffset: [2, 0, 0] });
+
+      const result = applyModifierStackToQMesh(objectId, qMesh);
+
+      expect(result.faces.size).toBe(qMesh.faces.size * 3);
+    });
+
+    it('should apply bevel modifier to QMesh and re-evaluate on param changes', () => {
+      const { addModifier, updateModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+
+      const modifier = addModifier(objectId, 'bevel', { bevelAmount: 0.1, bevelSegments: 1 });
+      expect(applyModifierStackToQMesh(objectId, qMesh).faces.size).toBe(26);
+
+      updateModifier(objectId, modifier.id, { params: { ...modifier.params, bevelSegments: 2 } });
+      expect(applyModifierStackToQMesh(objectId, qMesh).faces.size).toBe(6 + 24 + 8);
+
+      // The base mesh is never modified
+      expect(qMesh.faces.size).toBe(6);
+    });
+
+    it('should apply procedural displace modifier to QMesh', () => {
+      const { addModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+
+      addModifier(objectId, 'displace', {
+        displaceSource: 'fbm',
+        displaceDirection: 'y',
+        displaceNoiseScale: 0.3,
+      });
+
+      const result = applyModifierStackToQMesh(objectId, qMesh);
+
+      expect(result === qMesh).toBe(false);
+      expect(result.faces.size).toBe(qMesh.faces.size);
+      result.vertices.forEach((v, id) => {
+        expect(v.position.x).toBeCloseTo(qMesh.vertices.get(id)!.position.x);
+      });
+    });
+
+    it('should leave the mesh unchanged while a displace texture is missing', () => {
+      const { addModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+
+      addModifier(objectId, 'displace', { displaceSource: 'texture', displaceTexture: 'missing-texture' });
+
+      expect(applyModifierStackToQMesh(objectId, qMesh)).toBe(qMesh);
+    });
+
+    it('should use the offset object transform relative to the owner', () => {
+      const { addModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+      const transform = {
+        rotation: [0, 0, 0] as [number, number, number],
+        scale: [1, 1, 1] as [number, number, number],
+      };
+
+      useObjectsStore.setState({
+        objects: new Map([
+          [objectId, { id: objectId, position: [1, 0, 0], ...transform } as any],
+          ['offset-empty', { id: 'offset-empty', position: [1, 3, 0], ...transform } as any],
+        ]),
+      });
+
+      addModifier(objectId, 'array', {
+        arrayCount: 2,
+        arrayOffset: [0, 0, 0],
+        arrayOffsetObject: 'offset-empty',
+      });
+
+      const result = applyModifierStackToQMesh(objectId, qMesh);
+      const box = new THREE.Box3();
+      result.vertices.forEach(v => box.expandByPoint(v.position));
+
+      expect(box.max.y).toBeCloseTo(3.5);
+      expect(box.max.x).toBeCloseTo(0.5);
+
+      useObjectsStore.setState({ objects: new Map() });
+    });
+
+    it('should shrinkwrap onto the target object in owner space', () => {
+      const { addModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+      const floor = new THREE.PlaneGeometry(10, 10).rotateX(-Math.PI / 2);
+      const transform = {
+        rotation: [0, 0, 0] as [number, number, number],
+        scale: [1, 1, 1] as [number, number, number],
+      };
+
+      useObjectsStore.setState({
+        objects: new Map([
+          [objectId, { id: objectId, position: [0, 2, 0], ...transform } as any],
+          ['floor', { id: 'floor', position: [0, -1, 0], renderGeometry: floor, ...transform } as any],
+        ]),
+      });
+
+      addModifier(objectId, 'shrinkwrap', { shrinkwrapTarget: 'floor', shrinkwrapMethod: 'project', shrinkwrapAxis: 'y' });
+
+      const result = applyModifierStackToQMesh(objectId, qMesh);
+      result.vertices.forEach(v => expect(v.position.y).toBeCloseTo(-3));
+
+      useObjectsStore.setState({ objects: new Map() });
+    });
+
+    it('should deform with the lattice object and follow point edits', () => {
+      const { addModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+      const stretch = (factor: number) => createLatticeProps().points.map(
+        ([x, y, z]) => [x * factor, y, z] as [number, number, number]
+      );
+      const lattice = {
+        id: 'cage',
+        type: 'lattice',
+        position: [0, 0, 0],
+        rotation: [0, 0, 0],
+        scale: [2, 2, 2],
+        latticeProps: { resolution: [2, 2, 2], points: stretch(2) },
+      };
+
+      useObjectsStore.setState({
+        objects: new Map([
+          [objectId, { id: objectId, position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1] } as any],
+          ['cage', lattice as any],
+        ]),
+      });
+
+      addModifier(objectId, 'lattice', { latticeObject: 'cage' });
+
+      const result = applyModifierStackToQMesh(objectId, qMesh);
+      result.vertices.forEach(v => expect(Math.abs(v.position.x)).toBeCloseTo(1));
+
+      // Moving the control points invalidates the cached result
+      useObjectsStore.getState().updateObject('cage', {
+        latticeProps: { resolution: [2, 2, 2], points: stretch(3) },
+      });
+      const edited = applyModifierStackToQMesh(objectId, qMesh);
+      edited.vertices.forEach(v => expect(Math.abs(v.position.x)).toBeCloseTo(1.5));
+
+      useObjectsStore.setState({ objects: new Map() });
+    });
+
+    it('should use export subdivision levels for the export target', () => {
+      const { addModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+
+      addModifier(objectId, 'subdivision', { levels: 1, exportLevels: 2 });
+
+      expect(applyModifierStackToQMesh(objectId, qMesh).faces.size).toBe(24);
+      expect(applyModifierStackToQMesh(objectId, qMesh, 'export').faces.size).toBe(96);
+      // Exporting leaves the viewport result cached
+      expect(applyModifierStackToQMesh(objectId, qMesh).faces.size).toBe(24);
+    });
+
+    it('should fall back to viewport levels when no export levels are set', () => {
+      const { addModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+
+      // Modifiers saved before export levels existed
+      addModifier(objectId, 'subdivision', { levels: 1, exportLevels: undefined });
+
+      expect(applyModifierStackToQMesh(objectId, qMesh, 'export').faces.size).toBe(24);
+    });
+  });
+
+  describe('modifier caching', () => {
+    beforeEach(() => {
+      useModifierStore.getState().invalidateModifierCache();
+    });
+
+    it('should return the cached result when nothing changed', () => {
+      const { addModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+
+      addModifier(objectId, 'subdivision', { levels: 2 });
+
+      const first = applyModifierStackToQMesh(objectId, qMesh);
+      expect(applyModifierStackToQMesh(objectId, qMesh)).toBe(first);
+    });
+
+    it('should recompute when the base mesh changes', () => {
+      const { addModifier, applyModifierStackToQMesh } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+
+      addModifier(objectId, 'mirror');
+      const first = applyModifierStackToQMesh(objectId, qMesh);
+
+      qMesh.vertices.values().next().value!.position.y += 1;
+      expect(applyModifierStackToQMesh(objectId, qMesh) === first).toBe(false);
+    });
+
+    it('should recompute after invalidation', () => {
+      const { addModifier, applyModifierStackToQMesh, invalidateModifierCache } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+
+      addModifier(objectId, 'mirror');
+      const first = applyModifierStackToQMesh(objectId, qMesh);
+
+      invalidateModifierCache(objectId);
+      // Identity check: a deep comparison of two equal half-edge graphs never finishes
+      expect(applyModifierStackToQMesh(objectId, qMesh) === first).toBe(false);
+    });
+
+    it('should evaluate asynchronously and share the cache', async () => {
+      const { addModifier, applyModifierStackToQMesh, evaluateModifierStackAsync } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+
+      addModifier(objectId, 'subdivision', { levels: 1 });
+
+      const result = await evaluateModifierStackAsync(objectId, qMesh);
+
+      expect(result?.faces.size).toBe(24);
+      expect(applyModifierStackToQMesh(objectId, qMesh)).toBe(result);
+      expect(useModifierStore.getState().pendingEvaluations.size).toBe(0);
+    });
+
+    it('should drop worker results superseded by a newer evaluation', async () => {
+      const { addModifier, evaluateModifierStackAsync } = useModifierStore.getState();
+      const qMesh = QMesh.fromBufferGeometry(geometry);
+      const resolvers: Array<(results: QMesh[]) => void> = [];
+
+      vi.mocked(isModifierWorkerAvailable).mockReturnValue(true);
+      vi.mocked(runModifierStepsInWorker).mockImplementation(() => new Promise((resolve) => resolvers.push(resolve)));
+
+      const modifier = addModifier(objectId, 'subdivision', { levels: 6 });
+      const stale = evaluateModifierStackAsync(objectId, qMesh);
+      expect(useModifierStore.getState().pendingEvaluations.get(objectId)).toEqual([modifier.id]);
+
+      const latest = evaluateModifierStackAsync(objectId, qMesh);
+      const staleMesh = new QMesh();
+      const latestMesh = new QMesh();
+      resolvers[0]([staleMesh]);
+      resolvers[1]([latestMesh]);
+
+      expect(await stale).toBeNull();
+      expect(await latest).toBe(latestMesh);
+      expect(useModifierStore.getState().pendingEvaluations.size).toBe(0);
+
+      vi.mocked(isModifierWorkerAvailable).mockReturnValue(false);
+    });
+  });
+
   describe('multiple objects', () => {
     it('should manage modifiers for multiple objects independently', () => {
       const { addModifier, getModifiers } = useModifierStore.getState();
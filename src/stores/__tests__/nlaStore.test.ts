@@ -0,0 +1,109 @@
+/**
+ * NLA Store Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getStripEnd, useNLAStore } from '../nlaStore';
+
+describe('nlaStore', () => {
+  beforeEach(() => {
+    useNLAStore.setState({ layers: [], selectedStripId: null });
+  });
+
+  describe('Layers', () => {
+    it('should add layers per object with default settings', () => {
+      const first = useNLAStore.getState().addLayer('obj1');
+      const second = useNLAStore.getState().addLayer('obj1');
+      useNLAStore.getState().addLayer('obj2');
+
+      expect(first).toMatchObject({ objectId: 'obj1', name: 'Layer 1', influence: 1, blendMode: 'replace', muted: false });
+      expect(second.name).toBe('Layer 2');
+      expect(useNLAStore.getState().getLayersForObject('obj1').map(l => l.id)).toEqual([first.id, second.id]);
+    });
+
+    it('should clamp influence to 0-1', () => {
+      const layer = useNLAStore.getState().addLayer('obj1');
+
+      useNLAStore.getState().updateLayer(layer.id, { influence: 1.5, blendMode: 'additive' });
+
+      expect(useNLAStore.getState().layers[0]).toMatchObject({ influence: 1, blendMode: 'additive' });
+    });
+
+    it('should move layers past other objects\' layers', () => {
+      const a = useNLAStore.getState().addLayer('obj1');
+      const other = useNLAStore.getState().addLayer('obj2');
+      const b = useNLAStore.getState().addLayer('obj1');
+
+      useNLAStore.getState().moveLayer(a.id, 'up');
+
+      expect(useNLAStore.getState().layers.map(l => l.id)).toEqual([b.id, other.id, a.id]);
+
+      // Already at the top of obj1's stack
+      useNLAStore.getState().moveLayer(a.id, 'up');
+      expect(useNLAStore.getState().layers.map(l => l.id)).toEqual([b.id, other.id, a.id]);
+    });
+
+    it('should clear the selection when removing the selected strip\'s layer', () => {
+      const layer = useNLAStore.getState().addLayer('obj1');
+      useNLAStore.getState().addStrip(layer.id, 'anim1', 0, 2);
+
+      useNLAStore.getState().removeLayer(layer.id);
+
+      expect(useNLAStore.getState().layers).toHaveLength(0);
+      expect(useNLAStore.getState().selectedStripId).toBeNull();
+    });
+  });
+
+  describe('Strips', () => {
+    it('should add a strip covering the whole animation', () => {
+      const layer = useNLAStore.getState().addLayer('obj1');
+
+      const strip = useNLAStore.getState().addStrip(layer.id, 'anim1', 1, 2)!;
+
+      expect(strip).toMatchObject({ animationId: 'anim1', start: 1, actionStart: 0, actionEnd: 2, scale: 1, repeat: 1 });
+      expect(useNLAStore.getState().selectedStripId).toBe(strip.id);
+      expect(getStripEnd(strip)).toBe(3);
+    });
+
+    it('should not add strips to missing layers', () => {
+      expect(useNLAStore.getState().addStrip('missing', 'anim1', 0, 2)).toBeNull();
+    });
+
+    it('should keep strip settings playable', () => {
+      const layer = useNLAStore.getState().addLayer('obj1');
+      const strip = useNLAStore.getState().addStrip(layer.id, 'anim1', 0, 2)!;
+
+      useNLAStore.getState().updateStrip(layer.id, strip.id, { scale: 2, repeat: 2, start: -1, blendIn: 5, blendOut: 5 });
+
+      const updated = useNLAStore.getState().layers[0].strips[0];
+      expect(updated.start).toBe(0);
+      expect(getStripEnd(updated)).toBe(8);
+      expect(updated.blendIn).toBe(5);
+      expect(updated.blendOut).toBe(3);
+    });
+
+    it('should remove strips', () => {
+      const layer = useNLAStore.getState().addLayer('obj1');
+      const strip = useNLAStore.getState().addStrip(layer.id, 'anim1', 0, 2)!;
+
+      useNLAStore.getState().removeStrip(layer.id, strip.id);
+
+      expect(useNLAStore.getState().layers[0].strips).toHaveLength(0);
+      expect(useNLAStore.getState().selectedStripId).toBeNull();
+    });
+  });
+
+  describe('Serialization', () => {
+    it('should round-trip layers', () => {
+      const layer = useNLAStore.getState().addLayer('obj1');
+      useNLAStore.getState().addStrip(layer.id, 'anim1', 0, 2);
+      const data = JSON.parse(JSON.stringify(useNLAStore.getState().serialize()));
+
+      useNLAStore.setState({ layers: [] });
+      useNLAStore.getState().deserialize(data);
+
+      expect(useNLAStore.getState().layers).toEqual(data.layers);
+      expect(useNLAStore.getState().selectedStripId).toBeNull();
+    });
+  });
+});
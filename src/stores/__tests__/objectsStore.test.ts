@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { useObjectsStore } from '../objectsStore';
+import * as THREE from 'three';
+import { DEFAULT_CAMERA_PROPS, useObjectsStore } from '../objectsStore';
 
 describe('objectsStore', () => {
   beforeEach(() => {
@@ -29,6 +30,14 @@ describe('objectsStore', () => {
       expect(object.geometryParams).toEqual({ width: 1, height: 1, depth: 1 });
     });
 
+    it('should create a camera with a default perspective lens', () => {
+      const object = useObjectsStore.getState().createPrimitive('camera');
+
+      expect(object.cameraProps).toEqual(DEFAULT_CAMERA_PROPS);
+      expect(object.cameraProps).not.toBe(DEFAULT_CAMERA_PROPS);
+      expect(object.lightProps).toBeUndefined();
+    });
+
     it('should create a sphere primitive', () => {
       const object = useObjectsStore.getState().createPrimitive('sphere');
 
@@ -538,5 +547,75 @@ describe('objectsStore', () => {
       expect(objects.get(obj2.id)?.type).toBe('sphere');
       expect(objects.get(obj2.id)?.position).toEqual([4, 5, 6]);
     });
+
+    it('should round-trip native QMesh topology', () => {
+      const obj = useObjectsStore.getState().createPrimitive('box');
+      useObjectsStore.getState().initializeGeometryFromBufferGeometry(obj.id, new THREE.BoxGeometry(1, 1, 1));
+      const original = useObjectsStore.getState().getObject(obj.id)!.qMesh!;
+
+      const serialized = JSON.parse(JSON.stringify(useObjectsStore.getState().serialize()));
+      expect(serialized[0].qMeshData).toBeDefined();
+      expect(serialized[0].qMesh).toBeUndefined();
+
+      useObjectsStore.setState({ objects: new Map() });
+      useObjectsStore.getState().deserialize(serialized);
+
+      const restored = useObjectsStore.getState().getObject(obj.id)!;
+      expect(restored.qMesh).toBeDefined();
+      expect(restored.renderGeometry).toBeDefined();
+      expect(Array.from(restored.qMesh!.faces.keys())).toEqual(Array.from(original.faces.keys()));
+      expect(restored.qMesh!.faces.size).toBe(6);
+    });
+
+    it('should round-trip camera lens settings', () => {
+      const camera = useObjectsStore.getState().createPrimitive('camera');
+      const lens = { projection: 'orthographic' as const, fov: 35, orthographicSize: 3, aspect: 4 / 3, near: 0.5, far: 80 };
+      useObjectsStore.getState().updateObject(camera.id, { cameraProps: lens });
+
+      const serialized = JSON.parse(JSON.stringify(useObjectsStore.getState().serialize()));
+      useObjectsStore.setState({ objects: new Map() });
+      useObjectsStore.getState().deserialize(serialized);
+
+      expect(useObjectsStore.getState().getObject(camera.id)!.cameraProps).toEqual(lens);
+    });
+
+    it('should give cameras saved without lens settings the defaults', () => {
+      const data = [{
+        id: 'camera_1',
+        name: 'Camera',
+        type: 'camera',
+        position: [0, 0, 0],
+        rotation: [0, 0, 0],
+        scale: [1, 1, 1],
+        parentId: null,
+        children: [],
+        cameraProps: { fov: 30 },
+      }];
+
+      useObjectsStore.getState().deserialize(data);
+
+      expect(useObjectsStore.getState().getObject('camera_1')!.cameraProps).toEqual({ ...DEFAULT_CAMERA_PROPS, fov: 30 });
+    });
+
+    it('should fall back to saved geometry when QMesh data is unreadable', () => {
+      const data = [{
+        id: 'obj_1',
+        name: 'Broken',
+        type: 'box',
+        position: [0, 0, 0],
+        rotation: [0, 0, 0],
+        scale: [1, 1, 1],
+        parentId: null,
+        children: [],
+        qMeshData: { version: 999, vertices: [], faces: [], twins: [] },
+      }];
+
+      useObjectsStore.getState().deserialize(data);
+
+      const restored = useObjectsStore.getState().getObject('obj_1')!;
+      expect(restored).toBeDefined();
+      expect(restored.qMesh).toBeUndefined();
+      expect((restored as any).qMeshData).toBeUndefined();
+    });
   });
 });
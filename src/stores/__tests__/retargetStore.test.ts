@@ -0,0 +1,40 @@
+/**
+ * Retarget Store Unit Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useRetargetStore } from '../retargetStore';
+
+describe('retargetStore', () => {
+  beforeEach(() => {
+    useRetargetStore.setState({ presets: [] });
+  });
+
+  it('should save presets and overwrite by name', () => {
+    const first = useRetargetStore.getState().savePreset('Mixamo', { 'mixamorig:Hips': 'pelvis' });
+    useRetargetStore.getState().savePreset('Other', { Hips: 'Hips' });
+    const second = useRetargetStore.getState().savePreset('Mixamo', { 'mixamorig:Hips': 'hips' });
+
+    expect(second.id).toBe(first.id);
+    expect(useRetargetStore.getState().presets.map(p => p.name)).toEqual(['Mixamo', 'Other']);
+    expect(useRetargetStore.getState().presets[0].boneMap).toEqual({ 'mixamorig:Hips': 'hips' });
+  });
+
+  it('should delete presets', () => {
+    const preset = useRetargetStore.getState().savePreset('Mixamo', {});
+
+    useRetargetStore.getState().deletePreset(preset.id);
+
+    expect(useRetargetStore.getState().presets).toEqual([]);
+  });
+
+  it('should serialize and deserialize', () => {
+    const preset = useRetargetStore.getState().savePreset('Mixamo', { 'mixamorig:Spine': 'spine_01' });
+    const data = JSON.parse(JSON.stringify(useRetargetStore.getState().serialize()));
+
+    useRetargetStore.setState({ presets: [] });
+    useRetargetStore.getState().deserialize(data);
+
+    expect(useRetargetStore.getState().presets).toEqual([preset]);
+  });
+});
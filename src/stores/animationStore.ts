@@ -12,6 +12,25 @@ import type { BonePose } from './objectsStore';
 // Interpolation types
 export type InterpolationType = 'linear' | 'bezier' | 'step';
 
+// Graph editor tangent handle types
+export type HandleType = 'free' | 'aligned' | 'vector' | 'auto-clamped';
+
+// Tangent handle position relative to its keyframe
+export interface KeyframeHandle {
+  time: number;              // Seconds from the keyframe (left handles are negative)
+  value: number;             // Value units from the keyframe
+}
+
+// Tangent handles of one channel (value component) of a keyframe
+export interface KeyframeTangent {
+  type: HandleType;
+  left: KeyframeHandle;
+  right: KeyframeHandle;
+}
+
+/** Value a keyframe holds: a scalar, a vector or quaternion, a hex color or a flag */
+export type KeyframeValue = number | number[] | string | boolean;
+
 // Keyframe interface
 export interface Keyframe {
   id: string;
@@ -19,24 +38,96 @@ export interface Keyframe {
   value: any;                // Value at this keyframe (number, vector3, color, etc.)
   interpolation: InterpolationType;
   easing?: [number, number, number, number]; // Cubic bezier control points for 'bezier' mode
+  tangents?: KeyframeTangent[]; // Per-channel handles for 'bezier' mode (used instead of easing)
   space?: 'local' | 'world'; // Coordinate space (local = relative to parent, world = absolute)
 }
 
+// Procedural F-curve modifier types
+export type FModifierType = 'cycles' | 'noise' | 'generator' | 'envelope' | 'stepped' | 'limits';
+
+// How Cycles extends the keyed range: repeat-offset continues from the last cycle's end value
+export type CycleMode = 'none' | 'repeat' | 'repeat-offset' | 'mirror';
+
+interface FModifierBase {
+  id: string;
+  enabled: boolean;
+}
+
+export interface CyclesModifier extends FModifierBase {
+  type: 'cycles';
+  before: CycleMode;
+  after: CycleMode;
+  beforeCount: number;       // Cycles before the keys (0 = infinite)
+  afterCount: number;        // Cycles after the keys (0 = infinite)
+}
+
+export interface NoiseModifier extends FModifierBase {
+  type: 'noise';
+  amplitude: number;         // Value units
+  frequency: number;         // Bumps per second
+  seed: number;
+}
+
+export interface GeneratorModifier extends FModifierBase {
+  type: 'generator';
+  coefficients: number[];    // Polynomial in time, constant term first
+  additive: boolean;         // Add to the curve instead of replacing it
+}
+
+export interface EnvelopeControlPoint {
+  time: number;
+  min: number;
+  max: number;
+}
+
+export interface EnvelopeModifier extends FModifierBase {
+  type: 'envelope';
+  min: number;               // Value range mapped onto each control point's range
+  max: number;
+  points: EnvelopeControlPoint[];
+}
+
+export interface SteppedModifier extends FModifierBase {
+  type: 'stepped';
+  step: number;              // Seconds each value holds
+  offset: number;            // Time of the first step
+}
+
+export interface LimitsModifier extends FModifierBase {
+  type: 'limits';
+  minTime?: number;
+  maxTime?: number;
+  minValue?: number;
+  maxValue?: number;
+}
+
+export type FModifier =
+  | CyclesModifier
+  | NoiseModifier
+  | GeneratorModifier
+  | EnvelopeModifier
+  | SteppedModifier
+  | LimitsModifier;
+
 // Animation track (one property of one object)
 export interface AnimationTrack {
   id: string;
   objectId: string;          // Which object is being animated
-  property: string;          // 'position', 'rotation', 'scale', 'materialProperty', 'shapeKey', 'boneTransform'
+  property: string;          // 'position', 'rotation', 'scale', 'materialProperty', 'shapeKey', 'boneTransform', 'latticePoint'
   propertyPath: string[];    // Path to the property e.g., ['position', 'x'] or ['lightProps', 'intensity'] or ['shapeKey', 'shapeKeyId']
   keyframes: Keyframe[];
   enabled: boolean;
   color?: string;            // Track color in timeline UI
   shapeKeyId?: string;       // For shape key tracks
+  modifiers?: FModifier[];   // Procedural modifiers evaluated on top of the keyframes, in order
 
   // Bone animation properties
   boneId?: string;                           // Which bone is being animated (for bone tracks)
   transformType?: 'position' | 'rotation' | 'scale';  // What transform property
   space?: 'local' | 'pose';                  // Local = relative to parent, Pose = relative to rest
+
+  // Lattice animation properties
+  latticePointIndex?: number;                // Which control point is being animated (for lattice point tracks)
 }
 
 // Animation (collection of tracks)
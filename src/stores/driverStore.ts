@@ -0,0 +1,121 @@
+/**
+ * Driver Store
+ *
+ * Drivers set one property of an object from an expression over variables
+ * read from the scene: object transforms, bone rotations, custom properties
+ * and time (see DriverEvaluator).
+ */
+
+import { create } from 'zustand';
+
+export type TransformChannel = 'position' | 'rotation' | 'scale';
+export type DriverAxis = 0 | 1 | 2;
+
+// Light settings a driver can set
+export type DriverLightProperty = 'intensity' | 'distance' | 'decay' | 'angle' | 'penumbra';
+
+// The property a driver sets on its object
+export type DriverTarget =
+  | { type: 'transform'; channel: TransformChannel; axis: DriverAxis }
+  | { type: 'light'; property: DriverLightProperty }
+  | { type: 'shapeKey'; shapeKeyId: string }
+  | { type: 'customProperty'; property: string };
+
+// A named value an expression reads
+export type DriverVariable =
+  | { name: string; type: 'transform'; objectId: string; channel: TransformChannel; axis: DriverAxis; space: 'local' | 'world' }
+  | { name: string; type: 'boneRotation'; boneId: string; axis: DriverAxis }   // Local (pose) rotation in radians
+  | { name: string; type: 'customProperty'; objectId: string; property: string }
+  | { name: string; type: 'time' }                                             // Seconds
+  | { name: string; type: 'frame' };                                           // time × frame rate
+
+export type DriverVariableType = DriverVariable['type'];
+
+export interface Driver {
+  id: string;
+  objectId: string;          // Driven object
+  target: DriverTarget;
+  expression: string;
+  variables: DriverVariable[];
+  enabled: boolean;
+}
+
+export interface DriverState {
+  drivers: Driver[];         // Evaluation order: a driver can read what earlier drivers set
+
+  addDriver: (objectId: string, target: DriverTarget, expression?: string) => Driver;
+  removeDriver: (driverId: string) => void;
+  updateDriver: (driverId: string, updates: Partial<Omit<Driver, 'id' | 'objectId'>>) => void;
+  getDriversForObject: (objectId: string) => Driver[];
+
+  // Serialization
+  serialize: () => any;
+  deserialize: (data: any) => void;
+}
+
+// Helper to generate unique IDs
+function generateId(): string {
+  return `driver_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Key identifying a target property, for finding the driver on it
+ */
+export function driverTargetKey(target: DriverTarget): string {
+  switch (target.type) {
+    case 'transform': return `transform:${target.channel}:${target.axis}`;
+    case 'light': return `light:${target.property}`;
+    case 'shapeKey': return `shapeKey:${target.shapeKeyId}`;
+    case 'customProperty': return `customProperty:${target.property}`;
+  }
+}
+
+export const useDriverStore = create<DriverState>((set, get) => ({
+  drivers: [],
+
+  addDriver: (objectId, target, expression = '0') => {
+    const driver: Driver = {
+      id: generateId(),
+      objectId,
+      target,
+      expression,
+      variables: [],
+      enabled: true,
+    };
+
+    // One driver per property: a new driver replaces the old one
+    const key = driverTargetKey(target);
+    set((state) => ({
+      drivers: [
+        ...state.drivers.filter(d => d.objectId !== objectId || driverTargetKey(d.target) !== key),
+        driver,
+      ],
+    }));
+    return driver;
+  },
+
+  removeDriver: (driverId) => {
+    set((state) => ({ drivers: state.drivers.filter(d => d.id !== driverId) }));
+  },
+
+  updateDriver: (driverId, updates) => {
+    set((state) => ({
+      drivers: state.drivers.map(d => (d.id === driverId ? { ...d, ...updates } : d)),
+    }));
+  },
+
+  getDriversForObject: (objectId) => get().drivers.filter(d => d.objectId === objectId),
+
+  serialize: () => ({
+    drivers: get().drivers,
+  }),
+
+  deserialize: (data: any) => {
+    if (!data) {
+      console.warn('[driverStore] Invalid data for deserialization');
+      return;
+    }
+
+    set({ drivers: Array.isArray(data.drivers) ? data.drivers : [] });
+  },
+}));
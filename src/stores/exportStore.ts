@@ -7,7 +7,35 @@
 
 import { create } from 'zustand';
 
-export type ExportFormat = 'glb' | 'gltf' | 'obj' | 'usdz';
+export type ExportFormat = 'glb' | 'gltf' | 'obj' | 'usdz' | 'stl' | 'ply' | '3mf';
+
+/** Length unit written by the 3D printing formats (scene units are meters) */
+export type ExportUnit = 'mm' | 'cm' | 'm';
+
+/** How embedded glTF textures are re-encoded: kept as PNG/JPEG, WebP, or KTX2 with Basis Universal */
+export type TextureCompression = 'none' | 'webp' | 'ktx2';
+
+/** How generated LODs are written to glTF: the MSFT_lod extension, or sibling _LOD1, _LOD2 nodes (Unity/Unreal naming) */
+export type LODOutput = 'msft-lod' | 'nodes';
+
+export interface LODLevel {
+  /** Fraction of the mesh's triangles kept (0-1, always 1 for LOD0) */
+  ratio: number;
+  /** Smallest fraction of the screen height the level is shown at; below the last level's the mesh is culled */
+  screenCoverage: number;
+}
+
+/** Formats meant for slicers: a single baked, Z-up mesh per object */
+export const PRINT_FORMATS: ExportFormat[] = ['stl', 'ply', '3mf'];
+
+export function isPrintFormat(format: ExportFormat): boolean {
+  return PRINT_FORMATS.includes(format);
+}
+
+/** Formats written as binary unless the user asks for text (glTF JSON is the text form of GLB) */
+export function isBinaryByDefault(format: ExportFormat): boolean {
+  return format === 'glb' || format === 'stl' || format === 'ply';
+}
 
 export interface ExportOptions {
   format: ExportFormat;
@@ -16,9 +44,22 @@ export interface ExportOptions {
   includeMorphTargets: boolean;
   embedTextures: boolean;
   exportSelectionOnly: boolean;
-  binary: boolean; // GLB vs GLTF
+  binary: boolean; // GLB vs GLTF, binary vs ASCII STL/PLY
   useDracoCompression: boolean; // Draco mesh compression
   dracoCompressionLevel: number; // 0-10, higher = smaller but slower
+  unit: ExportUnit; // STL/PLY/3MF only
+  textureCompression: TextureCompression; // GLB/GLTF only
+  maxTextureSize: number; // Longest texture side in pixels, 0 = keep original size
+  generateMipmaps: boolean; // Power-of-two textures with mipmapped sampling (KTX2 stores the mip chain)
+  useMeshQuantization: boolean; // KHR_mesh_quantization: integer vertex attributes (GLB/GLTF only)
+  quantizePositionBits: number; // 1-16
+  quantizeNormalBits: number; // 1-16, normals and tangents
+  quantizeTexcoordBits: number; // 1-16
+  useMeshoptCompression: boolean; // EXT_meshopt_compression on the binary buffer (GLB/GLTF only)
+  optimizeVertexOrder: boolean; // Vertex cache and overdraw reordering before encoding
+  generateLODs: boolean; // Decimated levels of detail per mesh (GLB/GLTF only)
+  lodLevels: LODLevel[]; // LOD0 first
+  lodOutput: LODOutput;
 }
 
 export interface ExportProgress {
@@ -48,7 +89,7 @@ interface ExportStore {
   resetProgress: () => void;
 }
 
-const defaultOptions: ExportOptions = {
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
   format: 'glb',
   includeAnimations: true,
   includeMaterials: true,
@@ -58,10 +99,28 @@ const defaultOptions: ExportOptions = {
   binary: true, // GLB by default
   useDracoCompression: false, // Off by default (requires Draco decoder on client)
   dracoCompressionLevel: 7, // Good balance of size vs speed
+  unit: 'mm', // What slicers assume for unitless STL
+  textureCompression: 'none',
+  maxTextureSize: 0,
+  generateMipmaps: false,
+  useMeshQuantization: false,
+  quantizePositionBits: 14, // Sub-millimeter on a 10m object
+  quantizeNormalBits: 8,
+  quantizeTexcoordBits: 12, // One step per texel up to 4K textures
+  useMeshoptCompression: false, // Off by default (requires meshopt decoder on client)
+  optimizeVertexOrder: false,
+  generateLODs: false,
+  lodLevels: [
+    { ratio: 1, screenCoverage: 0.5 },
+    { ratio: 0.5, screenCoverage: 0.25 },
+    { ratio: 0.25, screenCoverage: 0.1 },
+    { ratio: 0.1, screenCoverage: 0.02 },
+  ],
+  lodOutput: 'msft-lod',
 };
 
 export const useExportStore = create<ExportStore>((set) => ({
-  options: defaultOptions,
+  options: DEFAULT_EXPORT_OPTIONS,
 
   progress: {
     isExporting: false,
@@ -75,7 +134,7 @@ export const useExportStore = create<ExportStore>((set) => ({
       ...state.options,
       format,
       // Auto-adjust binary option based on format
-      binary: format === 'glb',
+      binary: isBinaryByDefault(format),
     },
   })),
 
@@ -0,0 +1,28 @@
+/**
+ * Lattice Store
+ *
+ * Tracks which lattice control point is being edited in the viewport.
+ * The points themselves live on the lattice object (objectsStore latticeProps).
+ */
+
+import { create } from 'zustand';
+
+export interface LatticePointSelection {
+  objectId: string;
+  index: number;
+}
+
+interface LatticeStore {
+  selectedPoint: LatticePointSelection | null;
+
+  selectPoint: (objectId: string, index: number) => void;
+  clearPointSelection: () => void;
+}
+
+export const useLatticeStore = create<LatticeStore>((set) => ({
+  selectedPoint: null,
+
+  selectPoint: (objectId, index) => set({ selectedPoint: { objectId, index } }),
+
+  clearPointSelection: () => set({ selectedPoint: null }),
+}));
@@ -10,9 +10,22 @@
 import { create } from 'zustand';
 import * as THREE from 'three';
 import { QMesh } from '../lib/qmesh/QMesh';
-import { applySubdivisionModifier } from '../lib/qmesh/modifiers/Subdivision';
-import { applySolidifyModifier } from '../lib/qmesh/modifiers/Solidify';
-import { applyMirrorModifier } from '../lib/qmesh/modifiers/Mirror';
+import { DisplaceTextureData } from '../lib/qmesh/modifiers/Displace';
+import type { SubdivisionAlgorithm } from '../lib/qmesh/modifiers/Subdivision';
+import type { LatticeInterpolation } from '../lib/lattice/LatticeUtils';
+import {
+  CachedModifierResult,
+  ModifierInputs,
+  ModifierStep,
+  estimateModifierFaceCount,
+  evaluateModifierSteps,
+  findFirstDirtyStep,
+  hashQMesh,
+  planModifierStack,
+} from '../lib/qmesh/modifiers/ModifierStack';
+import { isModifierWorkerAvailable, runModifierStepsInWorker } from '../lib/qmesh/modifiers/ModifierWorkerClient';
+import { useObjectsStore } from './objectsStore';
+import { useMaterialsStore } from './materialsStore';
 
 export type ModifierType =
   | 'subdivision'
@@ -20,12 +33,24 @@ export type ModifierType =
   | 'array'
   | 'bevel'
   | 'solidify'
-  | 'displace';
+  | 'displace'
+  | 'decimate'
+  | 'smooth'
+  | 'triangulate'
+  | 'weld'
+  | 'shrinkwrap'
+  | 'lattice';
+
+/**
+ * What a stack is evaluated for: the viewport preview or a final export
+ */
+export type ModifierEvaluationTarget = 'viewport' | 'export';
 
 export interface ModifierParams {
   // Subdivision
-  levels?: number;
-  subdivisionAlgorithm?: 'catmull-clark' | 'loop';
+  levels?: number; // Viewport levels
+  exportLevels?: number; // Levels used when exporting; falls back to `levels`
+  subdivisionAlgorithm?: SubdivisionAlgorithm;
 
   // Mirror
   mirrorAxis?: 'x' | 'y' | 'z';
@@ -36,11 +61,22 @@ export interface ModifierParams {
   arrayCount?: number;
   arrayOffset?: [number, number, number];
   arrayType?: 'linear' | 'circular';
+  arrayRelativeOffset?: [number, number, number]; // Multiples of the bounding box size
+  arrayOffsetObject?: string; // Object ID whose transform (relative to this object) is applied per copy
+  arrayFitType?: 'count' | 'length';
+  arrayFitLength?: number;
+  arrayAxis?: 'x' | 'y' | 'z'; // Circular
+  arrayAngle?: number; // Circular sweep in degrees
+  arrayMerge?: boolean;
+  arrayMergeDistance?: number;
 
   // Bevel
   bevelAmount?: number;
   bevelSegments?: number;
   bevelProfile?: number;
+  bevelLimitMethod?: 'all' | 'angle' | 'weight';
+  bevelAngle?: number; // Degrees, for the angle limit
+  bevelClampOverlap?: boolean;
 
   // Solidify
   thickness?: number;
@@ -48,7 +84,45 @@ export interface ModifierParams {
 
   // Displace
   displaceStrength?: number;
-  displaceTexture?: string;
+  displaceTexture?: string; // Texture ID in the materials store
+  displaceSource?: 'texture' | 'perlin' | 'voronoi' | 'fbm';
+  displaceDirection?: 'normal' | 'x' | 'y' | 'z';
+  displaceCoordinates?: 'uv' | 'local' | 'object';
+  displaceCoordinateObject?: string; // Object ID whose space is used for 'object' coordinates
+  displaceMidlevel?: number;
+  displaceNoiseScale?: number;
+  displaceNoiseOctaves?: number;
+  displaceNoiseSeed?: number;
+
+  // Decimate
+  decimateMode?: 'ratio' | 'count';
+  decimateRatio?: number; // Fraction of triangles to keep
+  decimateTriangleCount?: number;
+
+  // Smooth (Laplacian)
+  smoothFactor?: number;
+  smoothIterations?: number;
+  smoothPreserveVolume?: boolean;
+  smoothPreserveBoundary?: boolean;
+
+  // Triangulate
+  triangulateQuadMethod?: 'beauty' | 'fixed' | 'alternate' | 'shortest';
+  triangulateMinVertices?: number;
+
+  // Weld
+  weldDistance?: number;
+  weldMode?: 'all' | 'connected';
+
+  // Shrinkwrap
+  shrinkwrapTarget?: string; // Object ID to wrap onto
+  shrinkwrapMethod?: 'nearest' | 'project' | 'nearestVertex';
+  shrinkwrapOffset?: number;
+  shrinkwrapAxis?: 'normal' | 'x' | 'y' | 'z'; // Ray direction for 'project'
+
+  // Lattice
+  latticeObject?: string; // Lattice object ID
+  latticeInterpolation?: LatticeInterpolation;
+  latticeStrength?: number; // 0-1
 }
 
 export interface Modifier {
@@ -64,8 +138,13 @@ export interface ModifierStackState {
   // Modifiers by object ID
   modifiersByObject: Map<string, Modifier[]>;
 
+  // Modifier IDs whose cached results are being recomputed in the background, by object ID
+  pendingEvaluations: Map<string, string[]>;
+
   // Actions
   addModifier: (objectId: string, type: ModifierType, params?: ModifierParams) => Modifier;
+  insertModifier: (objectId: string, modifier: Modifier, index?: number) => void;
+  setModifiers: (objectId: string, modifiers: Modifier[]) => void;
   removeModifier: (objectId: string, modifierId: string) => void;
   updateModifier: (objectId: string, modifierId: string, updates: Partial<Modifier>) => void;
   toggleModifier: (objectId: string, modifierId: string) => void;
@@ -79,7 +158,10 @@ export interface ModifierStackState {
   getModifiers: (objectId: string) => Modifier[];
   clearModifiers: (objectId: string) => void;
   applyModifierStack: (objectId: string, baseGeometry: THREE.BufferGeometry) => THREE.BufferGeometry;
-  applyModifierStackToQMesh: (objectId: string, baseQMesh: QMesh) => QMesh; // NEW: QMesh-based modifiers
+  applyModifierStackToQMesh: (objectId: string, baseQMesh: QMesh, target?: ModifierEvaluationTarget) => QMesh; // NEW: QMesh-based modifiers
+  evaluateModifiersOnQMesh: (objectId: string, baseQMesh: QMesh, modifiers: Modifier[]) => QMesh; // Uncached, for baking
+  evaluateModifierStackAsync: (objectId: string, baseQMesh: QMesh) => Promise<QMesh | null>; // null when superseded
+  invalidateModifierCache: (objectId?: string) => void;
 }
 
 // Helper to generate unique IDs
@@ -87,10 +169,20 @@ function generateModifierId(): string {
   return `mod_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Stacks whose remaining work is estimated above this many faces are evaluated in a worker
+const WORKER_FACE_THRESHOLD = 20000;
+
+// Per-object cached result of every enabled modifier, in stack order
+const stackCaches = new Map<string, CachedModifierResult[]>();
+
+// Latest async evaluation per object; older worker results are discarded
+const evaluationGenerations = new Map<string, number>();
+
 // Default parameters for each modifier type
 const defaultParams: Record<ModifierType, ModifierParams> = {
   subdivision: {
     levels: 1,
+    exportLevels: 2,
     subdivisionAlgorithm: 'catmull-clark',
   },
   mirror: {
@@ -102,11 +194,21 @@ const defaultParams: Record<ModifierType, ModifierParams> = {
     arrayCount: 3,
     arrayOffset: [2, 0, 0],
     arrayType: 'linear',
+    arrayRelativeOffset: [0, 0, 0],
+    arrayFitType: 'count',
+    arrayFitLength: 10,
+    arrayAxis: 'z',
+    arrayAngle: 360,
+    arrayMerge: false,
+    arrayMergeDistance: 0.001,
   },
   bevel: {
     bevelAmount: 0.1,
     bevelSegments: 2,
     bevelProfile: 0.5,
+    bevelLimitMethod: 'angle',
+    bevelAngle: 30,
+    bevelClampOverlap: true,
   },
   solidify: {
     thickness: 0.1,
@@ -115,30 +217,103 @@ const defaultParams: Record<ModifierType, ModifierParams> = {
   displace: {
     displaceStrength: 1,
     displaceTexture: '',
+    displaceSource: 'perlin',
+    displaceDirection: 'normal',
+    displaceCoordinates: 'local',
+    displaceMidlevel: 0.5,
+    displaceNoiseScale: 1,
+    displaceNoiseOctaves: 4,
+    displaceNoiseSeed: 0,
+  },
+  decimate: {
+    decimateMode: 'ratio',
+    decimateRatio: 0.5,
+    decimateTriangleCount: 1000,
+  },
+  smooth: {
+    smoothFactor: 0.5,
+    smoothIterations: 1,
+    smoothPreserveVolume: false,
+    smoothPreserveBoundary: true,
+  },
+  triangulate: {
+    triangulateQuadMethod: 'beauty',
+    triangulateMinVertices: 4,
+  },
+  weld: {
+    weldDistance: 0.001,
+    weldMode: 'all',
+  },
+  shrinkwrap: {
+    shrinkwrapTarget: '',
+    shrinkwrapMethod: 'nearest',
+    shrinkwrapOffset: 0,
+    shrinkwrapAxis: 'normal',
+  },
+  lattice: {
+    latticeObject: '',
+    latticeInterpolation: 'linear',
+    latticeStrength: 1,
   },
 };
 
+/**
+ * Build a modifier with default params, without adding it to any stack
+ */
+export function createModifier(type: ModifierType, params: ModifierParams = {}): Modifier {
+  return {
+    id: generateModifierId(),
+    type,
+    name: `${type.charAt(0).toUpperCase() + type.slice(1)} Modifier`,
+    enabled: true,
+    params: { ...defaultParams[type], ...params },
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Copy of a modifier with a fresh ID and its own params
+ */
+export function cloneModifier(modifier: Modifier, name: string = modifier.name): Modifier {
+  return {
+    ...modifier,
+    id: generateModifierId(),
+    name,
+    params: structuredClone(modifier.params),
+    createdAt: Date.now(),
+  };
+}
+
 export const useModifierStore = create<ModifierStackState>((set, get) => ({
   modifiersByObject: new Map(),
+  pendingEvaluations: new Map(),
 
   addModifier: (objectId, type, params = {}) => {
-    const modifier: Modifier = {
-      id: generateModifierId(),
-      type,
-      name: `${type.charAt(0).toUpperCase() + type.slice(1)} Modifier`,
-      enabled: true,
-      params: { ...defaultParams[type], ...params },
-      createdAt: Date.now(),
-    };
+    const modifier = createModifier(type, params);
+    get().insertModifier(objectId, modifier);
+    return modifier;
+  },
 
+  insertModifier: (objectId, modifier, index) => {
     set((state) => {
       const newMap = new Map(state.modifiersByObject);
-      const modifiers = newMap.get(objectId) || [];
-      newMap.set(objectId, [...modifiers, modifier]);
+      const modifiers = [...(newMap.get(objectId) || [])];
+      modifiers.splice(index ?? modifiers.length, 0, modifier);
+      newMap.set(objectId, modifiers);
       return { modifiersByObject: newMap };
     });
+  },
 
-    return modifier;
+  setModifiers: (objectId, modifiers) => {
+    set((state) => {
+      const newMap = new Map(state.modifiersByObject);
+      if (modifiers.length > 0) {
+        newMap.set(objectId, [...modifiers]);
+      } else {
+        newMap.delete(objectId);
+      }
+      return { modifiersByObject: newMap };
+    });
   },
 
   removeModifier: (objectId, modifierId) => {
@@ -211,6 +386,7 @@ export const useModifierStore = create<ModifierStackState>((set, get) => ({
   },
 
   clearModifiers: (objectId) => {
+    stackCaches.delete(objectId);
     set((state) => {
       const newMap = new Map(state.modifiersByObject);
       newMap.delete(objectId);
@@ -236,62 +412,253 @@ export const useModifierStore = create<ModifierStackState>((set, get) => ({
     return geometry;
   },
 
-  applyModifierStackToQMesh: (objectId, baseQMesh) => {
-    const modifiers = get().getModifiers(objectId);
-    let qMesh = baseQMesh;
+  applyModifierStackToQMesh: (objectId, baseQMesh, target = 'viewport') => {
+    if (target === 'export') {
+      // Export settings differ from the viewport ones, so keep them out of the viewport cache
+      const steps = planObjectStack(objectId, baseQMesh, withExportSettings(get().getModifiers(objectId)));
+      return evaluateModifierSteps(baseQMesh, steps, []);
+    }
 
-    // Apply each enabled modifier in order
-    for (const modifier of modifiers) {
-      if (!modifier.enabled) continue;
+    const steps = planObjectStack(objectId, baseQMesh, get().getModifiers(objectId));
+    return evaluateModifierSteps(baseQMesh, steps, getStackCache(objectId));
+  },
 
-      try {
-        qMesh = applyQMeshModifier(qMesh, modifier);
-      } catch (error) {
-        console.error(`[ModifierStore] Failed to apply ${modifier.type} modifier to QMesh:`, error);
+  evaluateModifiersOnQMesh: (objectId, baseQMesh, modifiers) => {
+    const steps = planObjectStack(objectId, baseQMesh, modifiers);
+    return evaluateModifierSteps(baseQMesh, steps, []);
+  },
+
+  evaluateModifierStackAsync: async (objectId, baseQMesh) => {
+    const steps = planObjectStack(objectId, baseQMesh, get().getModifiers(objectId));
+    const cache = getStackCache(objectId);
+    const start = findFirstDirtyStep(steps, cache);
+    const input = start > 0 ? cache[start - 1].result : baseQMesh;
+    const remaining = steps.slice(start);
+
+    const estimatedFaces = remaining.reduce(
+      (faces, step) => estimateModifierFaceCount(faces, step.modifier),
+      input.faces.size
+    );
+    if (remaining.length === 0 || !isModifierWorkerAvailable() || estimatedFaces < WORKER_FACE_THRESHOLD) {
+      return evaluateModifierSteps(baseQMesh, steps, cache);
+    }
+
+    const generation = (evaluationGenerations.get(objectId) ?? 0) + 1;
+    evaluationGenerations.set(objectId, generation);
+    setPending(objectId, remaining.map((step) => step.modifier.id));
+
+    try {
+      const results = await runModifierStepsInWorker(input, remaining);
+      // A newer evaluation started while this one ran; its result is the one to show
+      if (evaluationGenerations.get(objectId) !== generation) return null;
+
+      results.forEach((result, i) => {
+        cache[start + i] = { key: remaining[i].key, result };
+      });
+      cache.length = steps.length;
+      return results[results.length - 1];
+    } catch (error) {
+      if (evaluationGenerations.get(objectId) !== generation) return null;
+      console.warn('[ModifierStore] Worker evaluation failed, evaluating on the main thread:', error);
+      return evaluateModifierSteps(baseQMesh, steps, cache);
+    } finally {
+      if (evaluationGenerations.get(objectId) === generation) {
+        setPending(objectId, null);
       }
     }
+  },
 
-    return qMesh;
+  invalidateModifierCache: (objectId) => {
+    if (objectId) {
+      stackCaches.delete(objectId);
+    } else {
+      stackCaches.clear();
+    }
   },
 }));
 
+function getStackCache(objectId: string): CachedModifierResult[] {
+  let cache = stackCaches.get(objectId);
+  if (!cache) {
+    cache = [];
+    stackCaches.set(objectId, cache);
+  }
+  return cache;
+}
+
+function setPending(objectId: string, modifierIds: string[] | null): void {
+  useModifierStore.setState((state) => {
+    const pendingEvaluations = new Map(state.pendingEvaluations);
+    if (modifierIds) {
+      pendingEvaluations.set(objectId, modifierIds);
+    } else {
+      pendingEvaluations.delete(objectId);
+    }
+    return { pendingEvaluations };
+  });
+}
+
 /**
- * Apply a single modifier to QMesh (NEW: QMesh-based modifiers)
+ * Swap viewport-only settings (subdivision levels) for their export counterparts
  */
-function applyQMeshModifier(qMesh: QMesh, modifier: Modifier): QMesh {
-  console.log(`[ModifierStore] Applying ${modifier.type} modifier to QMesh`);
+function withExportSettings(modifiers: Modifier[]): Modifier[] {
+  return modifiers.map((modifier) =>
+    modifier.type === 'subdivision' && modifier.params.exportLevels !== undefined
+      ? { ...modifier, params: { ...modifier.params, levels: modifier.params.exportLevels } }
+      : modifier
+  );
+}
 
-  switch (modifier.type) {
-    case 'subdivision': {
-      const levels = modifier.params.levels || 1;
-      return applySubdivisionModifier(qMesh, levels);
-    }
+/**
+ * Resolve external inputs and cache keys for every enabled modifier of an object
+ */
+function planObjectStack(objectId: string, baseQMesh: QMesh, modifiers: Modifier[]): ModifierStep[] {
+  return planModifierStack(hashQMesh(baseQMesh), modifiers, (modifier) => resolveModifierInputs(objectId, modifier));
+}
 
-    case 'mirror': {
-      const axis = modifier.params.mirrorAxis || 'x';
-      const mergeThreshold = modifier.params.mergeThreshold || 0.001;
-      // Note: clip parameter not in current params, using false as default
-      return applyMirrorModifier(qMesh, axis, mergeThreshold, false);
-    }
+/**
+ * Values a modifier reads from other stores (object transforms, texture pixels)
+ */
+function resolveModifierInputs(objectId: string, modifier: Modifier): ModifierInputs {
+  const { params } = modifier;
 
-    case 'solidify': {
-      const thickness = modifier.params.thickness || 0.1;
-      const offset = modifier.params.offset || 0;
-      return applySolidifyModifier(qMesh, thickness, offset);
+  switch (modifier.type) {
+    case 'array':
+      return {
+        offsetMatrix: params.arrayOffsetObject
+          ? getRelativeObjectMatrix(objectId, params.arrayOffsetObject)?.toArray()
+          : undefined,
+      };
+
+    case 'displace': {
+      const texture = params.displaceSource === 'texture' && params.displaceTexture
+        ? getDisplaceTexture(params.displaceTexture)
+        : undefined;
+      return {
+        coordinateMatrix: params.displaceCoordinates === 'object' && params.displaceCoordinateObject
+          ? getRelativeObjectMatrix(objectId, params.displaceCoordinateObject)?.invert().toArray()
+          : undefined,
+        texture,
+        textureKey: texture ? params.displaceTexture : undefined,
+      };
     }
 
-    case 'array':
-    case 'bevel':
-    case 'displace':
-      console.warn(`[ModifierStore] ${modifier.type} modifier not yet implemented for QMesh`);
-      return qMesh;
+    case 'shrinkwrap':
+      return params.shrinkwrapTarget ? resolveShrinkwrapTarget(objectId, params.shrinkwrapTarget) : {};
+
+    case 'lattice':
+      return params.latticeObject ? resolveLattice(objectId, params.latticeObject) : {};
 
     default:
-      console.warn(`Unknown modifier type: ${modifier.type}`);
-      return qMesh;
+      return {};
   }
 }
 
+/**
+ * Transform of `targetId` expressed in the local space of `objectId`
+ * (used for array object offsets). Returns undefined if either object is missing.
+ */
+function getRelativeObjectMatrix(objectId: string, targetId: string): THREE.Matrix4 | undefined {
+  const { getObject } = useObjectsStore.getState();
+  const owner = getObject(objectId);
+  const target = getObject(targetId);
+  if (!owner || !target || owner.id === target.id) return undefined;
+
+  const toMatrix = (obj: typeof owner) => new THREE.Matrix4().compose(
+    new THREE.Vector3(...obj.position),
+    new THREE.Quaternion().setFromEuler(new THREE.Euler(...obj.rotation)),
+    new THREE.Vector3(...obj.scale)
+  );
+
+  return toMatrix(owner).invert().multiply(toMatrix(target));
+}
+
+/**
+ * Surface of a shrinkwrap target as a triangle soup in the owner's local space.
+ * Uses the target's base mesh (its own modifiers are not applied).
+ */
+function resolveShrinkwrapTarget(objectId: string, targetId: string): ModifierInputs {
+  const target = useObjectsStore.getState().getObject(targetId);
+  const matrix = getRelativeObjectMatrix(objectId, targetId);
+  if (!target || !matrix) return {};
+
+  const geometry = target.qMesh ? target.qMesh.toBufferGeometry() : target.renderGeometry;
+  if (!geometry) return {};
+
+  const triangles = (geometry.index ? geometry.toNonIndexed() : geometry.clone()).applyMatrix4(matrix);
+  const matrixKey = matrix.toArray().join(',');
+
+  return {
+    target: { positions: Array.from(triangles.attributes.position.array) },
+    targetKey: `${targetId}|${target.qMesh ? hashQMesh(target.qMesh) : geometry.uuid}|${matrixKey}`,
+  };
+}
+
+/**
+ * Control points of a lattice object plus the transform from the owner into it
+ */
+function resolveLattice(objectId: string, latticeId: string): ModifierInputs {
+  const lattice = useObjectsStore.getState().getObject(latticeId);
+  const matrix = getRelativeObjectMatrix(objectId, latticeId);
+  if (!lattice?.latticeProps || !matrix) return {};
+
+  const { resolution, points } = lattice.latticeProps;
+  const toLattice = matrix.invert().toArray();
+
+  return {
+    lattice: { resolution, points, toLattice },
+    latticeKey: `${latticeId}|${resolution.join(',')}|${points.flat().join(',')}|${toLattice.join(',')}`,
+  };
+}
+
+// Decoded displacement textures keyed by image URL
+const displaceTextureCache = new Map<string, DisplaceTextureData | 'loading' | 'failed'>();
+
+/**
+ * Pixels of a materials-store texture for the displace modifier.
+ * Images decode asynchronously: the first call starts loading and returns undefined,
+ * then the modifier stack is invalidated so it re-evaluates with the pixels.
+ */
+function getDisplaceTexture(textureId: string): DisplaceTextureData | undefined {
+  const texture = useMaterialsStore.getState().getTexture(textureId);
+  if (!texture) return undefined;
+
+  const cached = displaceTextureCache.get(texture.url);
+  if (cached) {
+    return typeof cached === 'string' ? undefined : cached;
+  }
+
+  if (typeof Image === 'undefined' || typeof document === 'undefined') return undefined;
+
+  displaceTextureCache.set(texture.url, 'loading');
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const context = canvas.getContext('2d');
+    if (!context || canvas.width === 0 || canvas.height === 0) {
+      displaceTextureCache.set(texture.url, 'failed');
+      return;
+    }
+
+    context.drawImage(image, 0, 0);
+    const { width, height, data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    displaceTextureCache.set(texture.url, { width, height, data });
+
+    // Hand out a new map so subscribers rebuild their modifier stacks
+    useModifierStore.setState((state) => ({ modifiersByObject: new Map(state.modifiersByObject) }));
+  };
+  image.onerror = () => {
+    console.error(`[ModifierStore] Failed to load displacement texture ${texture.name}`);
+    displaceTextureCache.set(texture.url, 'failed');
+  };
+  image.src = texture.url;
+
+  return undefined;
+}
+
 /**
  * Apply a single modifier to geometry (LEGACY: BufferGeometry-based modifiers)
  */
@@ -307,7 +674,7 @@ function applyModifier(geometry: THREE.BufferGeometry, modifier: Modifier): THRE
       return applyArray(geometry, modifier.params);
 
     case 'bevel':
-      return applyBevelModifier(geometry, modifier.params);
+      return applyBevel(geometry, modifier.params);
 
     case 'solidify':
       return applySolidify(geometry, modifier.params);
@@ -473,7 +840,7 @@ function applyArray(geometry: THREE.BufferGeometry, params: ModifierParams): THR
 /**
  * Apply bevel modifier
  */
-function applyBevelModifier(geometry: THREE.BufferGeometry, params: ModifierParams): THREE.BufferGeometry {
+function applyBevel(geometry: THREE.BufferGeometry, params: ModifierParams): THREE.BufferGeometry {
   // Simplified bevel modifier
   // In production, this would properly bevel edges
   console.log('[Modifier] Applied bevel modifier (simplified)');
@@ -0,0 +1,217 @@
+/**
+ * NLA Store
+ *
+ * Nonlinear animation: layers of strips that each play an Animation at a
+ * point in scene time. Layers belong to an object or armature and are
+ * blended bottom to top (see NLAEvaluator).
+ */
+
+import { create } from 'zustand';
+
+// How a layer combines with the layers below it
+export type NLABlendMode = 'replace' | 'additive';
+
+// One placement of an animation on a layer
+export interface NLAStrip {
+  id: string;
+  animationId: string;       // Animation played by the strip
+  start: number;             // Scene time the strip starts at (seconds)
+  actionStart: number;       // Range of the animation played (seconds into the animation)
+  actionEnd: number;
+  scale: number;             // Time scale; 2 plays the range at half speed
+  repeat: number;            // Times the range is played back to back
+  blendIn: number;           // Seconds to fade in from the strip start
+  blendOut: number;          // Seconds to fade out before the strip end
+  muted: boolean;
+}
+
+// A layer of strips on one object or armature
+export interface NLALayer {
+  id: string;
+  objectId: string;          // Owner; its tracks and those of its descendants (bones) are played
+  name: string;
+  strips: NLAStrip[];
+  influence: number;         // 0-1
+  blendMode: NLABlendMode;
+  muted: boolean;
+}
+
+export interface NLAState {
+  layers: NLALayer[];        // Evaluation order: the first layer is the bottom of the stack
+  selectedStripId: string | null;
+
+  // Layer management
+  addLayer: (objectId: string, name?: string) => NLALayer;
+  removeLayer: (layerId: string) => void;
+  updateLayer: (layerId: string, updates: Partial<Omit<NLALayer, 'id' | 'strips'>>) => void;
+  moveLayer: (layerId: string, direction: 'up' | 'down') => void;
+  getLayersForObject: (objectId: string) => NLALayer[];
+
+  // Strip management
+  addStrip: (layerId: string, animationId: string, start: number, duration: number) => NLAStrip | null;
+  removeStrip: (layerId: string, stripId: string) => void;
+  updateStrip: (layerId: string, stripId: string, updates: Partial<Omit<NLAStrip, 'id'>>) => void;
+  selectStrip: (stripId: string | null) => void;
+
+  // Serialization
+  serialize: () => any;
+  deserialize: (data: any) => void;
+}
+
+// Helper to generate unique IDs
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Scene time a strip ends at
+ */
+export function getStripEnd(strip: NLAStrip): number {
+  return strip.start + (strip.actionEnd - strip.actionStart) * strip.scale * strip.repeat;
+}
+
+/**
+ * Keep strip settings playable: positive range, scale and repeat, and blends
+ * that fit inside the strip
+ */
+function sanitizeStrip(strip: NLAStrip): NLAStrip {
+  const actionStart = Math.max(0, strip.actionStart);
+  const actionEnd = Math.max(actionStart + 0.001, strip.actionEnd);
+  const scale = Math.max(0.001, strip.scale);
+  const repeat = Math.max(0.001, strip.repeat);
+  const length = (actionEnd - actionStart) * scale * repeat;
+  const blendIn = Math.min(Math.max(0, strip.blendIn), length);
+  const blendOut = Math.min(Math.max(0, strip.blendOut), length - blendIn);
+
+  return { ...strip, start: Math.max(0, strip.start), actionStart, actionEnd, scale, repeat, blendIn, blendOut };
+}
+
+export const useNLAStore = create<NLAState>((set, get) => ({
+  layers: [],
+  selectedStripId: null,
+
+  addLayer: (objectId, name) => {
+    const layer: NLALayer = {
+      id: generateId('nla'),
+      objectId,
+      name: name || `Layer ${get().getLayersForObject(objectId).length + 1}`,
+      strips: [],
+      influence: 1,
+      blendMode: 'replace',
+      muted: false,
+    };
+
+    set((state) => ({ layers: [...state.layers, layer] }));
+    return layer;
+  },
+
+  removeLayer: (layerId) => {
+    set((state) => {
+      const layer = state.layers.find(l => l.id === layerId);
+      const removesSelection = !!layer?.strips.some(s => s.id === state.selectedStripId);
+      return {
+        layers: state.layers.filter(l => l.id !== layerId),
+        selectedStripId: removesSelection ? null : state.selectedStripId,
+      };
+    });
+  },
+
+  updateLayer: (layerId, updates) => {
+    set((state) => ({
+      layers: state.layers.map(layer => {
+        if (layer.id !== layerId) return layer;
+        const updated = { ...layer, ...updates };
+        updated.influence = Math.min(Math.max(updated.influence, 0), 1);
+        return updated;
+      }),
+    }));
+  },
+
+  moveLayer: (layerId, direction) => {
+    set((state) => {
+      const index = state.layers.findIndex(l => l.id === layerId);
+      if (index === -1) return state;
+
+      // Swap with the nearest layer of the same owner, so other objects' stacks keep their order
+      const objectId = state.layers[index].objectId;
+      const step = direction === 'up' ? 1 : -1;
+      let other = index + step;
+      while (other >= 0 && other < state.layers.length && state.layers[other].objectId !== objectId) {
+        other += step;
+      }
+      if (other < 0 || other >= state.layers.length) return state;
+
+      const layers = [...state.layers];
+      [layers[index], layers[other]] = [layers[other], layers[index]];
+      return { layers };
+    });
+  },
+
+  getLayersForObject: (objectId) => get().layers.filter(l => l.objectId === objectId),
+
+  addStrip: (layerId, animationId, start, duration) => {
+    if (!get().layers.some(l => l.id === layerId) || duration <= 0) return null;
+
+    const strip = sanitizeStrip({
+      id: generateId('strip'),
+      animationId,
+      start,
+      actionStart: 0,
+      actionEnd: duration,
+      scale: 1,
+      repeat: 1,
+      blendIn: 0,
+      blendOut: 0,
+      muted: false,
+    });
+
+    set((state) => ({
+      layers: state.layers.map(layer =>
+        layer.id === layerId ? { ...layer, strips: [...layer.strips, strip] } : layer
+      ),
+      selectedStripId: strip.id,
+    }));
+    return strip;
+  },
+
+  removeStrip: (layerId, stripId) => {
+    set((state) => ({
+      layers: state.layers.map(layer =>
+        layer.id === layerId ? { ...layer, strips: layer.strips.filter(s => s.id !== stripId) } : layer
+      ),
+      selectedStripId: state.selectedStripId === stripId ? null : state.selectedStripId,
+    }));
+  },
+
+  updateStrip: (layerId, stripId, updates) => {
+    set((state) => ({
+      layers: state.layers.map(layer => {
+        if (layer.id !== layerId) return layer;
+        return {
+          ...layer,
+          strips: layer.strips.map(strip => (strip.id === stripId ? sanitizeStrip({ ...strip, ...updates }) : strip)),
+        };
+      }),
+    }));
+  },
+
+  selectStrip: (stripId) => {
+    set({ selectedStripId: stripId });
+  },
+
+  serialize: () => ({
+    layers: get().layers,
+  }),
+
+  deserialize: (data: any) => {
+    if (!data) {
+      console.warn('[nlaStore] Invalid data for deserialization');
+      return;
+    }
+
+    set({
+      layers: Array.isArray(data.layers) ? data.layers : [],
+      selectedStripId: null,
+    });
+  },
+}));
@@ -7,10 +7,11 @@
 import { create } from 'zustand';
 import * as THREE from 'three';
 import { calculateGroupCenter, wouldCreateCircularDependency } from '../lib/hierarchy/TransformUtils';
-import { QMesh } from '../lib/qmesh/QMesh';
+import { QMesh, SerializedQMesh } from '../lib/qmesh/QMesh';
 import { meshRegistry } from '../lib/mesh/MeshRegistry';
+import { createLatticeProps } from '../lib/lattice/LatticeUtils';
 
-export type ObjectType = 'box' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'plane' | 'group' | 'camera' | 'imported' | 'pointLight' | 'spotLight' | 'directionalLight' | 'ambientLight' | 'bone' | 'armature';
+export type ObjectType = 'box' | 'sphere' | 'cylinder' | 'cone' | 'torus' | 'plane' | 'group' | 'camera' | 'imported' | 'pointLight' | 'spotLight' | 'directionalLight' | 'ambientLight' | 'bone' | 'armature' | 'lattice';
 
 // Bone influence: how much a bone affects a vertex
 export interface BoneInfluence {
@@ -38,6 +39,22 @@ export interface SkinData {
   bindPose: Map<string, BonePose>;             // Rest pose for each bone
 }
 
+// Lattice cage: a grid of control points in object space (rest grid spans -0.5..0.5)
+export interface LatticeProps {
+  resolution: [number, number, number];        // Control points along U, V, W
+  points: Array<[number, number, number]>;     // U varies fastest, then V, then W
+}
+
+// Camera lens (for type: 'camera'); the camera looks down its local -Z axis
+export interface CameraProps {
+  projection: 'perspective' | 'orthographic';
+  fov: number;                                 // Vertical field of view in degrees (perspective)
+  orthographicSize: number;                    // Half the view height in scene units (orthographic)
+  aspect: number;                              // Frame width / height
+  near: number;                                // Clip planes
+  far: number;
+}
+
 export interface SceneObject {
   id: string;
   name: string;
@@ -95,6 +112,9 @@ export interface SceneObject {
     shadowRadius?: number;
   };
 
+  // Camera properties (for type: 'camera')
+  cameraProps?: CameraProps;
+
   // Bone properties (for type: 'bone')
   boneProps?: {
     headPosition: [number, number, number];  // Bone head (start point)
@@ -112,9 +132,15 @@ export interface SceneObject {
     axesDisplay: 'none' | 'wire' | 'solid';  // Show bone axes
   };
 
+  // Lattice properties (for type: 'lattice')
+  latticeProps?: LatticeProps;
+
   // Skinning data (for meshes bound to armature)
   skinData?: SkinData;
 
+  // User-defined numeric properties (read and set by drivers)
+  customProperties?: Record<string, number>;
+
   // Metadata
   createdAt: number;
   modifiedAt: number;
@@ -188,6 +214,7 @@ const nameCounters: Record<string, number> = {
   ambientLight: 0,
   bone: 0,
   armature: 0,
+  lattice: 0,
 };
 
 function resetNameCounters() {
@@ -216,6 +243,7 @@ const defaultGeometryParams: Record<ObjectType, Record<string, any>> = {
   ambientLight: {},
   bone: {},
   armature: {},
+  lattice: {},
 };
 
 // Default light properties for each light type
@@ -263,6 +291,16 @@ const defaultLightProps: Record<'pointLight' | 'spotLight' | 'directionalLight'
   },
 };
 
+// Default lens for new cameras (three.js's perspective defaults, 16:9 frame)
+export const DEFAULT_CAMERA_PROPS: CameraProps = {
+  projection: 'perspective',
+  fov: 50,
+  orthographicSize: 5,
+  aspect: 16 / 9,
+  near: 0.1,
+  far: 2000,
+};
+
 export const useObjectsStore = create<ObjectsState>((set, get) => ({
   // Initial state
   objects: new Map(),
@@ -398,6 +436,8 @@ export const useObjectsStore = create<ObjectsState>((set, get) => ({
       children: [],
       geometryParams: defaultGeometryParams[type],
       lightProps: isLight ? defaultLightProps[type as keyof typeof defaultLightProps] : undefined,
+      cameraProps: type === 'camera' ? { ...DEFAULT_CAMERA_PROPS } : undefined,
+      latticeProps: type === 'lattice' ? createLatticeProps() : undefined,
       createdAt: now,
       modifiedAt: now,
     };
@@ -706,6 +746,9 @@ export const useObjectsStore = create<ObjectsState>((set, get) => ({
     const objects = Array.from(state.objects.values()).map(obj => {
       const mesh = meshRegistry.getMesh(obj.id);
 
+      // Native topology (n-gons, stable IDs) so reloads don't re-run fromBufferGeometry
+      const qMeshData: SerializedQMesh | undefined = obj.qMesh ? obj.qMesh.toJSON() : undefined;
+
       // If mesh exists in registry with modified geometry, serialize it
       if (mesh && mesh.geometry) {
         const geometry = mesh.geometry;
@@ -759,13 +802,14 @@ export const useObjectsStore = create<ObjectsState>((set, get) => ({
           importedGeometry: {
             ...obj.importedGeometry,
             data: geometryData,
-          }
+          },
+          ...(qMeshData ? { qMeshData } : {}),
         };
       }
 
       // Return object without non-serializable properties
       const { renderGeometry: _rg, qMesh: _qm, ...serializableObj } = obj;
-      return serializableObj;
+      return qMeshData ? { ...serializableObj, qMeshData } : serializableObj;
     });
 
     console.log(`[objectsStore] Serializing ${objects.length} objects`);
@@ -795,7 +839,24 @@ export const useObjectsStore = create<ObjectsState>((set, get) => ({
 
         // Strip non-serializable properties that may exist from old saves
         // (renderGeometry/qMesh are class instances that don't survive JSON round-trip)
-        const { renderGeometry: _rg, qMesh: _qm, ...cleanObj } = obj;
+        const { renderGeometry: _rg, qMesh: _qm, qMeshData, ...cleanObj } = obj;
+
+        // Rebuild the exact saved topology; fall back to the triangulated geometry on failure
+        if (qMeshData) {
+          try {
+            const qMesh = QMesh.fromJSON(qMeshData);
+            cleanObj.qMesh = qMesh;
+            cleanObj.renderGeometry = qMesh.toBufferGeometry();
+          } catch (error) {
+            console.warn(`[objectsStore] Failed to restore QMesh for ${cleanObj.name}, using saved geometry:`, error);
+          }
+        }
+
+        // Cameras saved before lens settings existed (or with some missing) get the defaults
+        if (cleanObj.type === 'camera') {
+          cleanObj.cameraProps = { ...DEFAULT_CAMERA_PROPS, ...cleanObj.cameraProps };
+        }
+
         newObjects.set(cleanObj.id, cleanObj);
 
         // Update name counter to avoid collisions with new objects
@@ -0,0 +1,66 @@
+/**
+ * Retarget Store
+ *
+ * Saved bone mapping presets for animation retargeting (see Retargeting).
+ * Presets map bone names rather than IDs, so one preset serves every pair of
+ * armatures that share a naming scheme, e.g. any Mixamo import onto one rig.
+ */
+
+import { create } from 'zustand';
+import type { BoneNameMap } from '../lib/animation/Retargeting';
+
+export interface RetargetPreset {
+  id: string;
+  name: string;
+  boneMap: BoneNameMap;      // Source bone name -> target bone name
+}
+
+export interface RetargetState {
+  presets: RetargetPreset[];
+
+  savePreset: (name: string, boneMap: BoneNameMap) => RetargetPreset;
+  deletePreset: (presetId: string) => void;
+
+  // Serialization
+  serialize: () => any;
+  deserialize: (data: any) => void;
+}
+
+// Helper to generate unique IDs
+function generateId(): string {
+  return `retarget_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export const useRetargetStore = create<RetargetState>((set, get) => ({
+  presets: [],
+
+  savePreset: (name, boneMap) => {
+    // Saving under an existing name overwrites that preset
+    const existing = get().presets.find(p => p.name === name);
+    const preset: RetargetPreset = { id: existing?.id || generateId(), name, boneMap: { ...boneMap } };
+
+    set((state) => ({
+      presets: existing
+        ? state.presets.map(p => (p.id === existing.id ? preset : p))
+        : [...state.presets, preset],
+    }));
+    return preset;
+  },
+
+  deletePreset: (presetId) => {
+    set((state) => ({ presets: state.presets.filter(p => p.id !== presetId) }));
+  },
+
+  serialize: () => ({
+    presets: get().presets,
+  }),
+
+  deserialize: (data: any) => {
+    if (!data) {
+      console.warn('[retargetStore] Invalid data for deserialization');
+      return;
+    }
+
+    set({ presets: Array.isArray(data.presets) ? data.presets : [] });
+  },
+}));